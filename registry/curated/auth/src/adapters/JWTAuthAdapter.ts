@@ -3,47 +3,83 @@
  * @file JWT-based authentication adapter
  */
 
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
-import type { IAuthService, IAuthenticatedUser, JWTPayload, JWTAuthConfig } from '../types.js';
+import { JWTKeyring } from '../keys/JWTKeyring.js';
+import { InMemoryRevocationStore } from '../stores/InMemoryRevocationStore.js';
+import type {
+  IAuthService,
+  IAuthenticatedUser,
+  ITokenRevocationStore,
+  JSONWebKeySet,
+  JWTPayload,
+  JWTAuthConfig,
+  JWTSigningKey,
+  TokenPair,
+} from '../types.js';
 
-const DEFAULT_CONFIG: Required<JWTAuthConfig> = {
-  jwtSecret: 'CHANGE_ME_IN_PRODUCTION',
+type ResolvedConfig = Omit<JWTAuthConfig, 'revocationStore'> &
+  Required<Pick<JWTAuthConfig, 'jwtExpiresIn' | 'bcryptSaltRounds' | 'enableTokenRefresh' | 'refreshWindow' | 'refreshTokenExpiresIn'>>;
+
+const DEFAULT_CONFIG: ResolvedConfig = {
   jwtExpiresIn: '7d',
   bcryptSaltRounds: 10,
   enableTokenRefresh: true,
   refreshWindow: 3600,
+  refreshTokenExpiresIn: '30d',
 };
 
+/** Claims managed by the adapter that callers can't override */
+const RESERVED_CLAIMS = ['iat', 'exp', 'nbf', 'jti', 'fid', 'typ', 'iss', 'aud'];
+
+/** Revocation expiry for tokens that carry no `exp` */
+const NEVER_EXPIRES = Number.MAX_SAFE_INTEGER;
+
 /**
  * JWT-based authentication adapter for AgentOS
  */
 export class JWTAuthAdapter implements IAuthService {
-  private config: Required<JWTAuthConfig>;
-  private revokedTokens: Set<string> = new Set();
+  private config: ResolvedConfig;
+  private keyring: JWTKeyring;
+  private revocationStore: ITokenRevocationStore;
+  private storeReady: Promise<void> | null = null;
 
   constructor(config: JWTAuthConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    
-    if (this.config.jwtSecret === DEFAULT_CONFIG.jwtSecret) {
-      console.warn('[JWTAuthAdapter] Using default JWT secret! Set jwtSecret in production.');
-    }
+    const { revocationStore, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, ...rest };
+    this.keyring = buildKeyring(this.config);
+    this.revocationStore = revocationStore ?? new InMemoryRevocationStore();
   }
 
   async initialize(config?: JWTAuthConfig): Promise<void> {
     if (config) {
-      this.config = { ...this.config, ...config };
+      const { revocationStore, ...rest } = config;
+      this.config = { ...this.config, ...rest };
+      if ('jwtSecret' in rest || 'keys' in rest || 'jwks' in rest) {
+        this.keyring = buildKeyring(this.config);
+      }
+      if (revocationStore && revocationStore !== this.revocationStore) {
+        this.revocationStore = revocationStore;
+        this.storeReady = null;
+      }
     }
+    await this.getStore();
   }
 
   async validateToken(token: string): Promise<IAuthenticatedUser | null> {
-    if (!token || this.revokedTokens.has(token)) {
+    if (!token) {
       return null;
     }
 
     try {
-      const decoded = jwt.verify(token, this.config.jwtSecret) as JWTPayload;
-      
+      const decoded = this.verifyToken(token);
+
+      // Refresh tokens are only good for rotation, never for API access
+      if (decoded.typ === 'refresh') return null;
+      if (await this.isRevoked(token, decoded)) return null;
+
       return {
         id: decoded.sub,
         email: decoded.email,
@@ -59,40 +95,137 @@ export class JWTAuthAdapter implements IAuthService {
   }
 
   generateToken(userId: string, claims?: Partial<JWTPayload>): string {
-    const payload: JWTPayload = {
-      sub: userId,
-      ...claims,
-    };
-
-    return jwt.sign(payload, this.config.jwtSecret, {
-      expiresIn: this.config.jwtExpiresIn,
-    });
+    return this.signToken(userId, claims, this.config.jwtExpiresIn);
   }
 
   async refreshToken(token: string): Promise<string | null> {
     if (!this.config.enableTokenRefresh) return null;
 
     try {
-      const decoded = jwt.verify(token, this.config.jwtSecret) as JWTPayload;
-      
+      const decoded = this.verifyToken(token);
+      if (decoded.typ === 'refresh') return null;
+      if (await this.isRevoked(token, decoded)) return null;
+
       if (decoded.exp) {
         const now = Math.floor(Date.now() / 1000);
         const timeUntilExpiry = decoded.exp - now;
-        
+
         if (timeUntilExpiry > this.config.refreshWindow) {
           return null;
         }
       }
 
-      const { iat, exp, ...claims } = decoded;
-      return this.generateToken(decoded.sub, claims);
+      // Keep the family id so the refreshed token stays revocable with its family
+      const extra = decoded.fid ? { fid: decoded.fid } : {};
+      return this.signToken(decoded.sub, decoded, this.config.jwtExpiresIn, extra);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Issue a new access/refresh token pair starting a fresh token family.
+   *
+   * Use {@link rotateRefreshToken} to exchange the refresh token for a new pair.
+   */
+  async issueTokenPair(userId: string, claims?: Partial<JWTPayload>): Promise<TokenPair> {
+    return this.signTokenPair(userId, claims, randomUUID());
+  }
+
+  /**
+   * Exchange a refresh token for a new pair in the same family.
+   *
+   * Each refresh token can be used once. Presenting one that was already
+   * rotated, or presenting it twice concurrently, is treated as theft: the
+   * whole family (every access and refresh token descended from the
+   * original pair) is revoked.
+   *
+   * @returns The new pair, or `null` if the token is invalid, revoked or reused
+   */
+  async rotateRefreshToken(refreshToken: string): Promise<TokenPair | null> {
+    if (!this.config.enableTokenRefresh) return null;
+
+    let decoded: JWTPayload;
+    try {
+      decoded = this.verifyToken(refreshToken);
     } catch {
       return null;
     }
+
+    if (decoded.typ !== 'refresh' || !decoded.jti || !decoded.fid) return null;
+
+    const store = await this.getStore();
+    if (await store.get(familyKey(decoded.fid))) return null;
+
+    // Claim the token atomically, so two concurrent uses cannot both rotate it
+    const claimed = await store.revokeIfAbsent({
+      id: decoded.jti,
+      expiresAt: decoded.exp ? decoded.exp * 1000 : NEVER_EXPIRES,
+      revokedAt: Date.now(),
+      reason: 'rotated',
+    });
+
+    if (!claimed) {
+      // Rotated before, or by a concurrent request that won the claim: reuse either way
+      const existing = await store.get(decoded.jti);
+      if (existing?.reason === 'rotated') {
+        await this.revokeTokenFamily(decoded.fid, 'reuse-detected');
+      }
+      return null;
+    }
+
+    return this.signTokenPair(decoded.sub, decoded, decoded.fid);
   }
 
   async revokeToken(token: string): Promise<void> {
-    this.revokedTokens.add(token);
+    const decoded = jwt.decode(token) as JWTPayload | null;
+    const store = await this.getStore();
+
+    await store.revoke({
+      id: tokenKey(token, decoded),
+      expiresAt: decoded?.exp ? decoded.exp * 1000 : NEVER_EXPIRES,
+      revokedAt: Date.now(),
+      reason: 'revoked',
+    });
+  }
+
+  /**
+   * Revoke every token issued in a family, e.g. on logout from all sessions
+   * or when refresh-token reuse is detected.
+   */
+  async revokeTokenFamily(familyId: string, reason = 'revoked'): Promise<void> {
+    const store = await this.getStore();
+    const now = Date.now();
+
+    // Any token in the family expires no later than a refresh token minted right now would
+    await store.revoke({
+      id: familyKey(familyId),
+      expiresAt: now + this.lifetimeSeconds(this.config.refreshTokenExpiresIn) * 1000,
+      revokedAt: now,
+      reason,
+    });
+  }
+
+  /**
+   * Make `key` the signing key. The previous signing key is kept as retiring,
+   * so tokens it issued keep validating until they expire or it is removed.
+   */
+  rotateSigningKey(key: JWTSigningKey): void {
+    this.keyring.rotate(key);
+  }
+
+  /** Drop a (retired) key; tokens it signed stop validating */
+  removeSigningKey(kid: string): boolean {
+    return this.keyring.removeKey(kid);
+  }
+
+  /** Public half of every asymmetric key, for services that verify our tokens */
+  getJWKS(): JSONWebKeySet {
+    return this.keyring.toJWKS();
+  }
+
+  getKeyring(): JWTKeyring {
+    return this.keyring;
   }
 
   async hashPassword(password: string): Promise<string> {
@@ -106,5 +239,126 @@ export class JWTAuthAdapter implements IAuthService {
       return false;
     }
   }
+
+  private signToken(
+    userId: string,
+    claims: Partial<JWTPayload> | undefined,
+    expiresIn: string,
+    extra: Partial<JWTPayload> = {},
+  ): string {
+    const payload: JWTPayload = {
+      ...stripReservedClaims(claims),
+      ...extra,
+      sub: userId,
+    };
+
+    return this.keyring.sign(payload, {
+      expiresIn,
+      jwtid: randomUUID(),
+      issuer: this.config.issuer,
+      audience: this.config.audience,
+    });
+  }
+
+  private verifyToken(token: string): JWTPayload {
+    return this.keyring.verify(token, {
+      issuer: this.config.issuer,
+      audience: this.config.audience,
+      clockTolerance: this.config.clockTolerance,
+    });
+  }
+
+  private signTokenPair(
+    userId: string,
+    claims: Partial<JWTPayload> | undefined,
+    familyId: string,
+  ): TokenPair {
+    const accessToken = this.signToken(userId, claims, this.config.jwtExpiresIn, { fid: familyId });
+    const refreshToken = this.signToken(userId, claims, this.config.refreshTokenExpiresIn, {
+      fid: familyId,
+      typ: 'refresh',
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      familyId,
+      accessTokenExpiresAt: (jwt.decode(accessToken) as JWTPayload).exp!,
+      refreshTokenExpiresAt: (jwt.decode(refreshToken) as JWTPayload).exp!,
+    };
+  }
+
+  private async isRevoked(token: string, decoded: JWTPayload): Promise<boolean> {
+    const store = await this.getStore();
+    if (await store.get(tokenKey(token, decoded))) return true;
+    return decoded.fid ? Boolean(await store.get(familyKey(decoded.fid))) : false;
+  }
+
+  private getStore(): Promise<ITokenRevocationStore> {
+    if (!this.storeReady) {
+      this.storeReady = Promise.resolve(this.revocationStore.initialize?.()).catch((err) => {
+        this.storeReady = null;
+        throw err;
+      });
+    }
+    return this.storeReady.then(() => this.revocationStore);
+  }
+
+  /** Resolve a jsonwebtoken `expiresIn` string ('30d', '1h', ...) to seconds */
+  private lifetimeSeconds(expiresIn: string): number {
+    const probe = jwt.decode(jwt.sign({}, 'lifetime-probe', { expiresIn })) as JWTPayload;
+    return probe.exp! - probe.iat!;
+  }
 }
 
+function buildKeyring(config: JWTAuthConfig): JWTKeyring {
+  const keyring = new JWTKeyring();
+  const keys = config.keys ?? [];
+
+  if (config.jwtSecret) {
+    // Legacy shared secret: signs only when no kid-indexed keys are configured,
+    // otherwise it just keeps already-issued (kid-less) tokens valid.
+    keyring.addKey({
+      kid: undefined,
+      algorithm: 'HS256',
+      secret: config.jwtSecret,
+      status: keys.length > 0 ? 'retiring' : 'active',
+    });
+  }
+
+  for (const key of keys) {
+    keyring.addKey(key);
+  }
+
+  if (config.jwks) {
+    const jwks: JSONWebKeySet =
+      typeof config.jwks === 'string' ? JSON.parse(readFileSync(config.jwks, 'utf8')) : config.jwks;
+    keyring.importJWKS(jwks);
+  }
+
+  if (!config.jwtSecret && keys.length === 0 && !config.jwks) {
+    console.warn(
+      '[JWTAuthAdapter] No jwtSecret or signing keys configured; using a random per-process secret. '
+      + 'Tokens will not validate across restarts or replicas.',
+    );
+    keyring.addKey({ kid: undefined, algorithm: 'HS256', secret: randomBytes(32).toString('hex') });
+  }
+
+  return keyring;
+}
+
+function stripReservedClaims(claims?: Partial<JWTPayload>): Partial<JWTPayload> {
+  const copy: Partial<JWTPayload> = { ...claims };
+  for (const claim of RESERVED_CLAIMS) delete copy[claim];
+  return copy;
+}
+
+/** Revocation key for a token: its `jti`, or a digest of the raw token for legacy tokens without one */
+function tokenKey(token: string, decoded: JWTPayload | null): string {
+  if (decoded?.jti) return decoded.jti;
+  return `sha256:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+function familyKey(familyId: string): string {
+  return `family:${familyId}`;
+}
@@ -40,7 +40,7 @@ export function createAuthExtension(config: AuthExtensionConfig = {}): {
   authService: IAuthService;
   subscriptionService: ISubscriptionService;
 } {
-  const authService = new JWTAuthAdapter(config.auth || { jwtSecret: '' });
+  const authService = new JWTAuthAdapter(config.auth || {});
   const subscriptionService = new SubscriptionAdapter(config.subscription);
   
   return {
@@ -55,7 +55,38 @@ export { SubscriptionAdapter } from './adapters/SubscriptionAdapter.js';
 
 // Export providers
 export { ToolPermissionProvider } from './providers/ToolPermissionProvider.js';
+export type {
+  ToolPermissionContext,
+  ToolPermissionResult,
+  ToolPermissionExplanation,
+  ToolPermissionProviderOptions,
+} from './providers/ToolPermissionProvider.js';
 export { PersonaTierProvider } from './providers/PersonaTierProvider.js';
+export { ToolQuotaProvider } from './providers/ToolQuotaProvider.js';
+export type {
+  ToolQuotaContext,
+  ToolQuotaResult,
+  ToolQuotaDenialCode,
+  ToolQuotaProviderOptions,
+} from './providers/ToolQuotaProvider.js';
+
+// Export policy engine
+export { ToolPolicyEngine } from './policy/ToolPolicyEngine.js';
+export type { ToolPolicyRequest } from './policy/ToolPolicyEngine.js';
+
+// Export keyring
+export { JWTKeyring } from './keys/JWTKeyring.js';
+
+// Export revocation stores
+export { InMemoryRevocationStore } from './stores/InMemoryRevocationStore.js';
+export { FileRevocationStore } from './stores/FileRevocationStore.js';
+export { SqliteRevocationStore } from './stores/SqliteRevocationStore.js';
+export type { SqliteRevocationStoreOptions } from './stores/SqliteRevocationStore.js';
+
+// Export quota stores
+export { InMemoryQuotaStore } from './stores/InMemoryQuotaStore.js';
+export { SqliteQuotaStore } from './stores/SqliteQuotaStore.js';
+export type { SqliteQuotaStoreOptions } from './stores/SqliteQuotaStore.js';
 
 // Export types
 export type {
@@ -63,6 +94,21 @@ export type {
   JWTAuthConfig,
   SubscriptionConfig,
   AuthExtensionConfig,
+  ITokenRevocationStore,
+  RevocationRecord,
+  TokenPair,
+  JWTAlgorithm,
+  JWTSigningKey,
+  JSONWebKeySet,
+  IQuotaStore,
+  RateWindowState,
+  SlotState,
+  ToolPolicy,
+  ToolPolicyRule,
+  ToolArgumentCondition,
+  ToolPolicyDecision,
+  ToolPolicyExplanation,
+  ToolPolicyRuleTrace,
 } from './types.js';
 
 export type {
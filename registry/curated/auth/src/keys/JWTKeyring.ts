@@ -0,0 +1,280 @@
+// @ts-nocheck
+/**
+ * @file kid-indexed signing/verification keyring for JWTAuthAdapter
+ */
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  type KeyObject,
+} from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import type { JSONWebKeySet, JWTAlgorithm, JWTPayload, JWTSigningKey } from '../types.js';
+
+export interface KeyringSignOptions {
+  expiresIn: string;
+  jwtid: string;
+  issuer?: string;
+  audience?: string | string[];
+}
+
+export interface KeyringVerifyOptions {
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockTolerance?: number;
+}
+
+interface ResolvedKey {
+  kid?: string;
+  algorithm: JWTAlgorithm;
+  status: 'active' | 'retiring';
+  signingKey?: KeyObject;
+  verificationKey: KeyObject;
+}
+
+// jsonwebtoken has no EdDSA support. For Ed25519 tokens we build/check claims by
+// round-tripping the payload through an HS256 token signed with this throwaway
+// secret, then sign/verify the real signature with node:crypto.
+const CLAIMS_ONLY_SECRET = 'agentos-auth-claims-only';
+
+/**
+ * Holds the keys JWTAuthAdapter signs and verifies with.
+ *
+ * Exactly one key is active and signs new tokens; retiring keys (and keys
+ * imported from a JWKS document) only verify, so tokens issued before a
+ * rotation keep working until they expire. Tokens carry the signing key's
+ * `kid` in their header and are verified strictly with that key's algorithm.
+ */
+export class JWTKeyring {
+  private keys: Map<string | undefined, ResolvedKey> = new Map();
+
+  constructor(keys: JWTSigningKey[] = []) {
+    for (const key of keys) {
+      this.addKey(key);
+    }
+  }
+
+  /**
+   * Build a verification-only keyring from a JWKS document. Keys need a `kid`;
+   * `alg` is inferred from the key type when absent.
+   */
+  static fromJWKS(jwks: JSONWebKeySet): JWTKeyring {
+    const keyring = new JWTKeyring();
+    keyring.importJWKS(jwks);
+    return keyring;
+  }
+
+  addKey(key: JWTSigningKey): void {
+    const status = key.status ?? 'active';
+    const resolved = resolveKey(key, status);
+
+    if (status === 'active') {
+      if (!resolved.signingKey) {
+        throw new Error(`[JWTKeyring] Active key '${key.kid ?? '(default)'}' needs a secret or private key`);
+      }
+      this.demoteActive();
+    }
+
+    this.keys.set(key.kid, resolved);
+  }
+
+  /** Add verification-only keys from a JWKS document */
+  importJWKS(jwks: JSONWebKeySet): void {
+    for (const jwk of jwks.keys ?? []) {
+      if (!jwk.kid) {
+        throw new Error('[JWTKeyring] JWKS keys must have a kid');
+      }
+      if (jwk.use && jwk.use !== 'sig') continue;
+
+      const algorithm = (jwk.alg as JWTAlgorithm) ?? inferAlgorithm(jwk);
+      this.keys.set(jwk.kid, {
+        kid: jwk.kid,
+        algorithm,
+        status: 'retiring',
+        verificationKey: createPublicKey({ key: jwk, format: 'jwk' }),
+      });
+    }
+  }
+
+  /** Make `key` the signing key; the previous active key keeps verifying as retiring */
+  rotate(key: JWTSigningKey): void {
+    this.addKey({ ...key, status: 'active' });
+  }
+
+  /** Stop a key from signing without removing it */
+  retireKey(kid: string): void {
+    const key = this.keys.get(kid);
+    if (key) key.status = 'retiring';
+  }
+
+  /** Forget a key entirely; tokens signed with it stop validating */
+  removeKey(kid: string): boolean {
+    return this.keys.delete(kid);
+  }
+
+  hasSigningKey(): boolean {
+    return Boolean(this.activeKey());
+  }
+
+  listKeys(): Array<{ kid?: string; algorithm: JWTAlgorithm; status: 'active' | 'retiring' }> {
+    return [...this.keys.values()].map(({ kid, algorithm, status }) => ({ kid, algorithm, status }));
+  }
+
+  /**
+   * Public keys as a JWKS document, for services that verify our tokens.
+   * HMAC keys are never published.
+   */
+  toJWKS(): JSONWebKeySet {
+    const keys = [];
+    for (const key of this.keys.values()) {
+      if (key.algorithm.startsWith('HS') || !key.kid) continue;
+      keys.push({
+        ...key.verificationKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      });
+    }
+    return { keys };
+  }
+
+  sign(payload: JWTPayload, options: KeyringSignOptions): string {
+    const key = this.activeKey();
+    if (!key) {
+      throw new Error('[JWTKeyring] No active signing key');
+    }
+
+    const claimOptions = {
+      expiresIn: options.expiresIn,
+      jwtid: options.jwtid,
+      ...(options.issuer ? { issuer: options.issuer } : {}),
+      ...(options.audience ? { audience: options.audience } : {}),
+    };
+
+    if (key.algorithm === 'EdDSA') {
+      const claims = jwt.decode(jwt.sign(payload, CLAIMS_ONLY_SECRET, claimOptions));
+      const header = { alg: 'EdDSA', typ: 'JWT', kid: key.kid };
+      const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+      const signature = cryptoSign(null, Buffer.from(signingInput), key.signingKey!);
+      return `${signingInput}.${signature.toString('base64url')}`;
+    }
+
+    return jwt.sign(payload, key.signingKey!, {
+      ...claimOptions,
+      algorithm: key.algorithm,
+      ...(key.kid ? { keyid: key.kid } : {}),
+    });
+  }
+
+  /**
+   * Verify a token's signature and registered claims.
+   *
+   * @throws jsonwebtoken's `JsonWebTokenError`/`TokenExpiredError` on failure
+   */
+  verify(token: string, options: KeyringVerifyOptions = {}): JWTPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const key = this.keys.get(decoded.header.kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError(`unknown key id: ${decoded.header.kid ?? '(none)'}`);
+    }
+    if (decoded.header.alg !== key.algorithm) {
+      throw new jwt.JsonWebTokenError('invalid algorithm');
+    }
+
+    const claimOptions = {
+      ...(options.issuer ? { issuer: options.issuer } : {}),
+      ...(options.audience ? { audience: options.audience } : {}),
+      ...(options.clockTolerance ? { clockTolerance: options.clockTolerance } : {}),
+    };
+
+    if (key.algorithm === 'EdDSA') {
+      const [header, payload, signature] = token.split('.');
+      const valid = cryptoVerify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        key.verificationKey,
+        Buffer.from(signature ?? '', 'base64url'),
+      );
+      if (!valid) {
+        throw new jwt.JsonWebTokenError('invalid signature');
+      }
+
+      const claimsToken = jwt.sign(decoded.payload, CLAIMS_ONLY_SECRET, { algorithm: 'HS256' });
+      return jwt.verify(claimsToken, CLAIMS_ONLY_SECRET, {
+        ...claimOptions,
+        algorithms: ['HS256'],
+      }) as JWTPayload;
+    }
+
+    return jwt.verify(token, key.verificationKey, {
+      ...claimOptions,
+      algorithms: [key.algorithm],
+    }) as JWTPayload;
+  }
+
+  private activeKey(): ResolvedKey | undefined {
+    for (const key of this.keys.values()) {
+      if (key.status === 'active') return key;
+    }
+    return undefined;
+  }
+
+  private demoteActive(): void {
+    for (const key of this.keys.values()) {
+      if (key.status === 'active') key.status = 'retiring';
+    }
+  }
+}
+
+function resolveKey(key: JWTSigningKey, status: 'active' | 'retiring'): ResolvedKey {
+  if (key.algorithm.startsWith('HS')) {
+    if (!key.secret) {
+      throw new Error(`[JWTKeyring] ${key.algorithm} key '${key.kid ?? '(default)'}' needs a secret`);
+    }
+    const secret = createSecretKey(Buffer.from(key.secret));
+    return { kid: key.kid, algorithm: key.algorithm, status, signingKey: secret, verificationKey: secret };
+  }
+
+  const signingKey = key.privateKey ? toPrivateKey(key.privateKey) : undefined;
+  const verificationKey = key.publicKey
+    ? toPublicKey(key.publicKey)
+    : signingKey
+      ? createPublicKey(signingKey)
+      : undefined;
+
+  if (!verificationKey) {
+    throw new Error(`[JWTKeyring] ${key.algorithm} key '${key.kid}' needs a private or public key`);
+  }
+
+  return { kid: key.kid, algorithm: key.algorithm, status, signingKey, verificationKey };
+}
+
+function toPrivateKey(key: string | KeyObject): KeyObject {
+  return typeof key === 'string' ? createPrivateKey(key) : key;
+}
+
+function toPublicKey(key: string | KeyObject): KeyObject {
+  return typeof key === 'string' ? createPublicKey(key) : key;
+}
+
+function inferAlgorithm(jwk: JsonWebKey): JWTAlgorithm {
+  if (jwk.kty === 'RSA') return 'RS256';
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') return 'EdDSA';
+  if (jwk.kty === 'EC') {
+    if (jwk.crv === 'P-256') return 'ES256';
+    if (jwk.crv === 'P-384') return 'ES384';
+    if (jwk.crv === 'P-521') return 'ES512';
+  }
+  throw new Error(`[JWTKeyring] Cannot infer algorithm for JWK (kty=${jwk.kty}, crv=${jwk.crv ?? '-'})`);
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -0,0 +1,247 @@
+// @ts-nocheck
+/**
+ * @file Declarative tool policy evaluation (roles, tool wildcards, argument constraints)
+ */
+
+import type {
+  ToolArgumentCondition,
+  ToolPolicy,
+  ToolPolicyDecision,
+  ToolPolicyExplanation,
+  ToolPolicyRule,
+  ToolPolicyRuleTrace,
+} from '../types.js';
+
+export interface ToolPolicyRequest {
+  toolId: string;
+  toolName?: string;
+  roles?: string[];
+  tier?: string;
+  args?: Record<string, unknown>;
+}
+
+const CONDITION_OPERATORS = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'notIn', 'matches', 'exists'];
+
+/**
+ * Evaluates tool calls against an ordered list of allow/deny rules.
+ *
+ * The first matching rule wins, so put narrow rules before broad ones.
+ * A tool covered by an allow rule with `when` argument constraints is denied
+ * when no rule matches, whatever the default, so a constraint like "only
+ * below 100" holds without a separate deny rule:
+ *
+ * ```typescript
+ * new ToolPolicyEngine({
+ *   defaultEffect: 'deny',
+ *   rules: [
+ *     { id: 'shell-admins', effect: 'allow', tools: 'shell_execute', roles: ['admin'] },
+ *     { id: 'shell-others', effect: 'deny', tools: 'shell_execute' },
+ *     { id: 'no-dms', effect: 'deny', tools: 'twitterDm' },
+ *     { id: 'twitter', effect: 'allow', tools: 'twitter*' },
+ *     { id: 'small-sends', effect: 'allow', tools: 'sendCrypto', when: { amount: { lt: 100 } } },
+ *   ],
+ * });
+ * ```
+ */
+export class ToolPolicyEngine {
+  private policy: ToolPolicy;
+  private toolPatterns: Map<string, RegExp[]> = new Map();
+
+  constructor(policy: ToolPolicy) {
+    validatePolicy(policy);
+    this.policy = policy;
+
+    for (const rule of policy.rules) {
+      const patterns = Array.isArray(rule.tools) ? rule.tools : [rule.tools];
+      this.toolPatterns.set(rule.id, patterns.map(globToRegExp));
+    }
+  }
+
+  evaluate(request: ToolPolicyRequest): ToolPolicyDecision {
+    for (const rule of this.policy.rules) {
+      if (this.traceRule(rule, request).matched) {
+        return decisionFor(rule, request);
+      }
+    }
+    return this.defaultDecision(request);
+  }
+
+  /**
+   * Dry run: evaluate every rule and report why each did or didn't match.
+   * The decision is the same one {@link evaluate} would return.
+   */
+  explain(request: ToolPolicyRequest): ToolPolicyExplanation {
+    const trace = this.policy.rules.map((rule) => this.traceRule(rule, request));
+    const first = trace.findIndex((entry) => entry.matched);
+
+    const decision =
+      first === -1 ? this.defaultDecision(request) : decisionFor(this.policy.rules[first], request);
+    return { ...decision, trace };
+  }
+
+  getPolicy(): ToolPolicy {
+    return this.policy;
+  }
+
+  private matchesTool(rule: ToolPolicyRule, request: ToolPolicyRequest): boolean {
+    const names = [request.toolId, request.toolName].filter(Boolean) as string[];
+    return this.toolPatterns.get(rule.id)!.some((pattern) => names.some((name) => pattern.test(name)));
+  }
+
+  private traceRule(rule: ToolPolicyRule, request: ToolPolicyRequest): ToolPolicyRuleTrace {
+    const reasons: string[] = [];
+    let matched = true;
+    const check = (ok: boolean, reason: string) => {
+      reasons.push(reason);
+      if (!ok) matched = false;
+    };
+
+    const toolMatch = this.matchesTool(rule, request);
+    check(toolMatch, `tool '${request.toolName ?? request.toolId}' ${toolMatch ? 'matches' : 'does not match'} ${JSON.stringify(rule.tools)}`);
+    if (!toolMatch) return { ruleId: rule.id, effect: rule.effect, matched, reasons };
+
+    if (rule.roles) {
+      const held = request.roles ?? [];
+      const ok = rule.roles.some((role) => held.includes(role));
+      check(ok, `roles [${held.join(', ')}] ${ok ? 'include' : 'include none of'} [${rule.roles.join(', ')}]`);
+    }
+
+    if (rule.tiers) {
+      const ok = request.tier != null && rule.tiers.includes(request.tier);
+      check(ok, `tier '${request.tier ?? '(none)'}' ${ok ? 'is' : 'is not'} one of [${rule.tiers.join(', ')}]`);
+    }
+
+    for (const [path, condition] of Object.entries(rule.when ?? {})) {
+      for (const [ok, reason] of checkCondition(path, readPath(request.args, path), condition)) {
+        check(ok, reason);
+      }
+    }
+
+    return { ruleId: rule.id, effect: rule.effect, matched, reasons };
+  }
+
+  private defaultDecision(request: ToolPolicyRequest): ToolPolicyDecision {
+    const tool = request.toolName ?? request.toolId;
+    // Argument constraints on an allow rule limit the tool even without a matching deny rule
+    const constrained = this.policy.rules.filter(
+      (rule) => rule.effect === 'allow' && Object.keys(rule.when ?? {}).length > 0 && this.matchesTool(rule, request),
+    );
+    if (constrained.length > 0) {
+      const ids = constrained.map((rule) => `'${rule.id}'`).join(', ');
+      return {
+        allowed: false,
+        reason: `No policy rule matched tool '${tool}'; denied because its arguments fail the constraints of ${ids}`,
+      };
+    }
+
+    const effect = this.policy.defaultEffect ?? 'allow';
+    return {
+      allowed: effect === 'allow',
+      reason: `No policy rule matched tool '${tool}'; default is ${effect}`,
+    };
+  }
+}
+
+function decisionFor(rule: ToolPolicyRule, request: ToolPolicyRequest): ToolPolicyDecision {
+  const tool = request.toolName ?? request.toolId;
+  return {
+    allowed: rule.effect === 'allow',
+    matchedRule: rule,
+    reason:
+      rule.effect === 'allow'
+        ? `Tool '${tool}' allowed by policy rule '${rule.id}'`
+        : `Tool '${tool}' denied by policy rule '${rule.id}'${rule.description ? `: ${rule.description}` : ''}`,
+  };
+}
+
+function checkCondition(
+  path: string,
+  actual: unknown,
+  condition: ToolArgumentCondition | string | number | boolean | null,
+): Array<[boolean, string]> {
+  const label = `args.${path}`;
+  const shown = actual === undefined ? '(missing)' : JSON.stringify(actual);
+
+  if (condition === null || typeof condition !== 'object') {
+    const ok = actual === condition;
+    return [[ok, `${label} ${shown} ${ok ? '==' : '!='} ${JSON.stringify(condition)}`]];
+  }
+
+  const results: Array<[boolean, string]> = [];
+  const compare = (op: string, expected: unknown, ok: boolean) =>
+    results.push([ok, `${label} ${shown} ${ok ? 'satisfies' : 'fails'} ${op} ${JSON.stringify(expected)}`]);
+  const isNumber = typeof actual === 'number' && Number.isFinite(actual);
+
+  if ('exists' in condition) compare('exists', condition.exists, (actual !== undefined) === condition.exists);
+  if ('eq' in condition) compare('eq', condition.eq, deepEqual(actual, condition.eq));
+  if ('neq' in condition) compare('neq', condition.neq, !deepEqual(actual, condition.neq));
+  if (condition.lt !== undefined) compare('lt', condition.lt, isNumber && actual < condition.lt);
+  if (condition.lte !== undefined) compare('lte', condition.lte, isNumber && actual <= condition.lte);
+  if (condition.gt !== undefined) compare('gt', condition.gt, isNumber && actual > condition.gt);
+  if (condition.gte !== undefined) compare('gte', condition.gte, isNumber && actual >= condition.gte);
+  if (condition.in) compare('in', condition.in, condition.in.some((v) => deepEqual(actual, v)));
+  if (condition.notIn) compare('notIn', condition.notIn, !condition.notIn.some((v) => deepEqual(actual, v)));
+  if (condition.matches !== undefined) {
+    compare('matches', condition.matches, typeof actual === 'string' && new RegExp(condition.matches).test(actual));
+  }
+
+  return results;
+}
+
+function readPath(args: Record<string, unknown> | undefined, path: string): unknown {
+  let current: unknown = args;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function validatePolicy(policy: ToolPolicy): void {
+  if (!policy || !Array.isArray(policy.rules)) {
+    throw new Error('[ToolPolicyEngine] Policy must have a rules array');
+  }
+  if (policy.defaultEffect && policy.defaultEffect !== 'allow' && policy.defaultEffect !== 'deny') {
+    throw new Error(`[ToolPolicyEngine] Invalid defaultEffect: ${policy.defaultEffect}`);
+  }
+
+  const seen = new Set<string>();
+  policy.rules.forEach((rule, index) => {
+    const where = `rules[${index}]${rule?.id ? ` ('${rule.id}')` : ''}`;
+    if (!rule?.id) throw new Error(`[ToolPolicyEngine] ${where} is missing an id`);
+    if (seen.has(rule.id)) throw new Error(`[ToolPolicyEngine] Duplicate rule id '${rule.id}'`);
+    seen.add(rule.id);
+
+    if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+      throw new Error(`[ToolPolicyEngine] ${where} has invalid effect: ${rule.effect}`);
+    }
+    const tools = Array.isArray(rule.tools) ? rule.tools : [rule.tools];
+    if (tools.length === 0 || tools.some((tool) => typeof tool !== 'string' || !tool)) {
+      throw new Error(`[ToolPolicyEngine] ${where} needs at least one tool pattern`);
+    }
+
+    for (const [path, condition] of Object.entries(rule.when ?? {})) {
+      if (condition === null || typeof condition !== 'object') continue;
+      const unknown = Object.keys(condition).filter((op) => !CONDITION_OPERATORS.includes(op));
+      if (unknown.length > 0) {
+        throw new Error(`[ToolPolicyEngine] ${where} when.${path} has unknown operator(s): ${unknown.join(', ')}`);
+      }
+      if (condition.matches !== undefined) {
+        try {
+          new RegExp(condition.matches);
+        } catch {
+          throw new Error(`[ToolPolicyEngine] ${where} when.${path}.matches is not a valid regex`);
+        }
+      }
+    }
+  });
+}
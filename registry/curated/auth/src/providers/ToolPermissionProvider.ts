@@ -3,60 +3,154 @@
  * @file Tool permission provider for AgentOS integration
  */
 
-import type { ISubscriptionService } from '../types.js';
+import { ToolPolicyEngine } from '../policy/ToolPolicyEngine.js';
+import type {
+  ISubscriptionService,
+  ToolPolicy,
+  ToolPolicyExplanation,
+  ToolPolicyRule,
+} from '../types.js';
 
 export interface ToolPermissionContext {
   userId: string;
   toolId: string;
   toolName: string;
   requiredFeatures?: string[];
+  /** Caller roles, typically `JWTPayload.roles` */
+  roles?: string[];
+  /** Arguments of the pending call, checked against policy `when` conditions */
+  args?: Record<string, unknown>;
 }
 
 export interface ToolPermissionResult {
   allowed: boolean;
   reason?: string;
   missingFeatures?: string[];
+  /** Policy rule that denied (or allowed) the call */
+  matchedRule?: ToolPolicyRule;
+}
+
+export interface ToolPermissionExplanation {
+  allowed: boolean;
+  reason?: string;
+  missingFeatures: string[];
+  tier: string | null;
+  /** Present when a policy is configured */
+  policy?: ToolPolicyExplanation;
+}
+
+export interface ToolPermissionProviderOptions {
+  /** Declarative allow/deny rules applied after the feature check */
+  policy?: ToolPolicy | ToolPolicyEngine;
 }
 
 /**
  * Provider that integrates subscription service with tool permissions
  */
 export class ToolPermissionProvider {
-  constructor(private subscriptionService: ISubscriptionService) {}
+  private policy: ToolPolicyEngine | null;
+
+  constructor(
+    private subscriptionService: ISubscriptionService,
+    options: ToolPermissionProviderOptions = {},
+  ) {
+    this.policy = options.policy
+      ? options.policy instanceof ToolPolicyEngine
+        ? options.policy
+        : new ToolPolicyEngine(options.policy)
+      : null;
+  }
 
   async checkToolAccess(context: ToolPermissionContext): Promise<ToolPermissionResult> {
     const { userId, toolName, requiredFeatures } = context;
 
-    if (!requiredFeatures || requiredFeatures.length === 0) {
+    if ((!requiredFeatures || requiredFeatures.length === 0) && !this.policy) {
       return { allowed: true };
     }
 
     const tier = await this.subscriptionService.getUserSubscription(userId);
-    if (!tier) {
-      return {
-        allowed: false,
-        reason: `User ${userId} has no active subscription`,
-        missingFeatures: requiredFeatures,
-      };
+
+    if (requiredFeatures && requiredFeatures.length > 0) {
+      if (!tier) {
+        return {
+          allowed: false,
+          reason: `User ${userId} has no active subscription`,
+          missingFeatures: requiredFeatures,
+        };
+      }
+
+      const userFeatures = new Set(tier.features || []);
+      const missingFeatures = requiredFeatures.filter((f) => !userFeatures.has(f));
+
+      if (missingFeatures.length > 0) {
+        return {
+          allowed: false,
+          reason: `Tool '${toolName}' requires: ${missingFeatures.join(', ')}`,
+          missingFeatures,
+        };
+      }
     }
 
-    const userFeatures = new Set(tier.features || []);
-    const missingFeatures = requiredFeatures.filter((f) => !userFeatures.has(f));
+    if (this.policy) {
+      const decision = this.policy.evaluate({
+        toolId: context.toolId,
+        toolName,
+        roles: context.roles,
+        tier: tier?.name,
+        args: context.args,
+      });
+
+      if (!decision.allowed) {
+        return { allowed: false, reason: decision.reason, matchedRule: decision.matchedRule };
+      }
+      return { allowed: true, matchedRule: decision.matchedRule };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Dry run of {@link checkToolAccess} that reports the feature check and
+   * every policy rule's verdict instead of stopping at the first denial.
+   */
+  async explainToolAccess(context: ToolPermissionContext): Promise<ToolPermissionExplanation> {
+    const tier = await this.subscriptionService.getUserSubscription(context.userId);
+    const userFeatures = new Set(tier?.features || []);
+    const missingFeatures = (context.requiredFeatures ?? []).filter((f) => !userFeatures.has(f));
+
+    const policy = this.policy?.explain({
+      toolId: context.toolId,
+      toolName: context.toolName,
+      roles: context.roles,
+      tier: tier?.name,
+      args: context.args,
+    });
 
     if (missingFeatures.length > 0) {
       return {
         allowed: false,
-        reason: `Tool '${toolName}' requires: ${missingFeatures.join(', ')}`,
+        reason: tier
+          ? `Tool '${context.toolName}' requires: ${missingFeatures.join(', ')}`
+          : `User ${context.userId} has no active subscription`,
         missingFeatures,
+        tier: tier?.name ?? null,
+        policy,
       };
     }
 
-    return { allowed: true };
+    return {
+      allowed: policy ? policy.allowed : true,
+      reason: policy?.reason,
+      missingFeatures,
+      tier: tier?.name ?? null,
+      policy,
+    };
   }
 
   async getAccessibleTools(
     userId: string,
-    tools: { id: string; name: string; requiredFeatures?: string[] }[]
+    tools: { id: string; name: string; requiredFeatures?: string[] }[],
+    roles?: string[],
   ): Promise<string[]> {
     const accessible: string[] = [];
 
@@ -66,6 +160,7 @@ export class ToolPermissionProvider {
         toolId: tool.id,
         toolName: tool.name,
         requiredFeatures: tool.requiredFeatures,
+        roles,
       });
 
       if (result.allowed) {
@@ -76,4 +171,3 @@ export class ToolPermissionProvider {
     return accessible;
   }
 }
-
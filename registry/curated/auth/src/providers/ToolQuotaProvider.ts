@@ -0,0 +1,190 @@
+// @ts-nocheck
+/**
+ * @file Tier quota enforcement (rate limits and concurrency caps) for tool calls
+ */
+
+import { randomUUID } from 'node:crypto';
+import { InMemoryQuotaStore } from '../stores/InMemoryQuotaStore.js';
+import type { IQuotaStore, ISubscriptionService } from '../types.js';
+
+export interface ToolQuotaContext {
+  userId: string;
+  toolId: string;
+  toolName: string;
+}
+
+export type ToolQuotaDenialCode = 'NO_SUBSCRIPTION' | 'RATE_LIMITED' | 'CONCURRENCY_LIMITED';
+
+export interface ToolQuotaResult {
+  allowed: boolean;
+  reason?: string;
+  code?: ToolQuotaDenialCode;
+  /** Tier the limits were taken from */
+  tier?: string;
+  /** The limit that was hit */
+  limit?: number;
+  /** Usage counted against that limit */
+  current?: number;
+  /** Suggested wait before retrying */
+  retryAfterMs?: number;
+  /**
+   * Frees the concurrency slot taken for this call. Present only when the
+   * call is allowed; call it once the tool finishes (success or failure).
+   */
+  release?: () => Promise<void>;
+}
+
+export interface ToolQuotaProviderOptions {
+  /** Where rate windows and in-flight slots live (default: in-memory) */
+  store?: IQuotaStore;
+  /** Length of the sliding window `rateLimit` applies to (default 60s) */
+  rateWindowMs?: number;
+  /** How long an unreleased slot counts as in flight, covering crashed callers (default 5 min) */
+  slotTtlMs?: number;
+}
+
+/** Retry hint for concurrency denials; slots usually free up well before they expire */
+const CONCURRENCY_RETRY_MS = 1000;
+
+/**
+ * Enforces each tier's `rateLimit` and `maxConcurrentRequests` for tool calls.
+ *
+ * Use alongside {@link ToolPermissionProvider}: permissions decide whether a
+ * user may call a tool at all, quotas decide whether they may call it now.
+ */
+export class ToolQuotaProvider {
+  private store: IQuotaStore;
+  private rateWindowMs: number;
+  private slotTtlMs: number;
+  private storeReady: Promise<void> | null = null;
+
+  constructor(
+    private subscriptionService: ISubscriptionService,
+    options: ToolQuotaProviderOptions = {},
+  ) {
+    this.store = options.store ?? new InMemoryQuotaStore();
+    this.rateWindowMs = options.rateWindowMs ?? 60_000;
+    this.slotTtlMs = options.slotTtlMs ?? 5 * 60_000;
+  }
+
+  /**
+   * Admit a tool call against the user's tier limits.
+   *
+   * Allowed results hold a concurrency slot until `release()` is called.
+   */
+  async acquire(context: ToolQuotaContext): Promise<ToolQuotaResult> {
+    const { userId, toolName } = context;
+    const tier = await this.subscriptionService.getUserSubscription(userId);
+    if (!tier) {
+      return {
+        allowed: false,
+        code: 'NO_SUBSCRIPTION',
+        reason: `User ${userId} has no active subscription`,
+      };
+    }
+
+    const store = await this.getStore();
+    const key = quotaKey(userId);
+    const now = Date.now();
+    const maxConcurrent = tier.maxConcurrentRequests;
+    const rateLimit = tier.rateLimit;
+
+    // Take the slot first so a concurrency denial doesn't burn a rate-limit request
+    let slotId: string | null = null;
+    if (maxConcurrent != null) {
+      slotId = randomUUID();
+      const slot = await store.acquireSlot(key, slotId, now + this.slotTtlMs, maxConcurrent, now);
+      if (!slot.acquired) {
+        return {
+          allowed: false,
+          code: 'CONCURRENCY_LIMITED',
+          reason: `Tool '${toolName}' denied: ${slot.inFlight} of ${maxConcurrent} concurrent requests already in flight for tier '${tier.name}'`,
+          tier: tier.name,
+          limit: maxConcurrent,
+          current: slot.inFlight,
+          retryAfterMs: Math.max(0, Math.min(CONCURRENCY_RETRY_MS, (slot.nextExpiryAt ?? now) - now)),
+        };
+      }
+    }
+
+    if (rateLimit != null) {
+      const rate = await store.consumeRate(key, now, this.rateWindowMs, rateLimit);
+      if (!rate.allowed) {
+        if (slotId) await store.releaseSlot(key, slotId);
+        return {
+          allowed: false,
+          code: 'RATE_LIMITED',
+          reason: `Tool '${toolName}' denied: rate limit of ${rateLimit} requests per ${this.rateWindowMs / 1000}s reached for tier '${tier.name}'`,
+          tier: tier.name,
+          limit: rateLimit,
+          current: rate.count,
+          retryAfterMs: Math.max(0, (rate.oldestAt ?? now) + this.rateWindowMs - now),
+        };
+      }
+    }
+
+    let released = false;
+    return {
+      allowed: true,
+      tier: tier.name,
+      release: async () => {
+        if (released || !slotId) return;
+        released = true;
+        await store.releaseSlot(key, slotId);
+      },
+    };
+  }
+
+  /**
+   * Run `fn` under the user's quota, releasing the slot when it settles.
+   *
+   * @returns The denial when not admitted, otherwise `fn`'s result
+   */
+  async runWithQuota<T>(
+    context: ToolQuotaContext,
+    fn: () => Promise<T>,
+  ): Promise<{ allowed: true; result: T } | (ToolQuotaResult & { allowed: false })> {
+    const quota = await this.acquire(context);
+    if (!quota.allowed) return quota as ToolQuotaResult & { allowed: false };
+
+    try {
+      return { allowed: true, result: await fn() };
+    } finally {
+      await quota.release!();
+    }
+  }
+
+  /** Current usage for a user alongside their tier's limits */
+  async getUsage(userId: string): Promise<{
+    tier: string | null;
+    requests: number;
+    rateLimit?: number;
+    inFlight: number;
+    maxConcurrentRequests?: number;
+  }> {
+    const tier = await this.subscriptionService.getUserSubscription(userId);
+    const store = await this.getStore();
+    const usage = await store.getUsage(quotaKey(userId), Date.now(), this.rateWindowMs);
+
+    return {
+      tier: tier?.name ?? null,
+      ...usage,
+      rateLimit: tier?.rateLimit,
+      maxConcurrentRequests: tier?.maxConcurrentRequests,
+    };
+  }
+
+  private getStore(): Promise<IQuotaStore> {
+    if (!this.storeReady) {
+      this.storeReady = Promise.resolve(this.store.initialize?.()).catch((err) => {
+        this.storeReady = null;
+        throw err;
+      });
+    }
+    return this.storeReady.then(() => this.store);
+  }
+}
+
+function quotaKey(userId: string): string {
+  return `user:${userId}`;
+}
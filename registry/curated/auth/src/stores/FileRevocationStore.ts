@@ -0,0 +1,121 @@
+// @ts-nocheck
+/**
+ * @file JSON-file token revocation store
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ITokenRevocationStore, RevocationRecord } from '../types.js';
+
+interface RevocationFile {
+  version: 1;
+  records: Record<string, RevocationRecord>;
+}
+
+/**
+ * Revocation store backed by a single JSON file.
+ *
+ * The file is re-read whenever its mtime changes, so several replicas pointed
+ * at the same (shared) path see each other's revocations. Writes go through a
+ * temp file + rename so readers never observe a half-written document.
+ */
+export class FileRevocationStore implements ITokenRevocationStore {
+  private records: Map<string, RevocationRecord> = new Map();
+  private loadedMtimeMs = -1;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.reload();
+  }
+
+  async revoke(record: RevocationRecord): Promise<void> {
+    await this.mutate((records) => {
+      records.set(record.id, { ...record });
+    });
+  }
+
+  /**
+   * Atomic within this process (it runs on the write queue). Replicas
+   * sharing the file can still race; use the SQLite store for those.
+   */
+  async revokeIfAbsent(record: RevocationRecord): Promise<boolean> {
+    let stored = false;
+    await this.mutate((records) => {
+      const existing = records.get(record.id);
+      if (existing && existing.expiresAt > Date.now()) return;
+      records.set(record.id, { ...record });
+      stored = true;
+    });
+    return stored;
+  }
+
+  async get(id: string): Promise<RevocationRecord | null> {
+    await this.reload();
+    const record = this.records.get(id);
+    if (!record || record.expiresAt <= Date.now()) return null;
+    return { ...record };
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+    await this.mutate((records) => {
+      for (const [id, record] of records) {
+        if (record.expiresAt <= now) {
+          records.delete(id);
+          removed++;
+        }
+      }
+    });
+    return removed;
+  }
+
+  private async reload(): Promise<void> {
+    let stat;
+    try {
+      stat = await fs.stat(this.filePath);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') {
+        this.records.clear();
+        this.loadedMtimeMs = -1;
+        return;
+      }
+      throw err;
+    }
+
+    if (stat.mtimeMs === this.loadedMtimeMs) return;
+
+    const raw = await fs.readFile(this.filePath, 'utf8');
+    const parsed = JSON.parse(raw) as RevocationFile;
+    if (parsed?.version !== 1 || typeof parsed.records !== 'object') {
+      throw new Error(`[FileRevocationStore] Unrecognised revocation file format: ${this.filePath}`);
+    }
+
+    this.records = new Map(Object.entries(parsed.records));
+    this.loadedMtimeMs = stat.mtimeMs;
+  }
+
+  private mutate(fn: (records: Map<string, RevocationRecord>) => void): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      await this.reload();
+      fn(this.records);
+
+      const doc: RevocationFile = {
+        version: 1,
+        records: Object.fromEntries(this.records),
+      };
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(doc), 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+
+      this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the error.
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,82 @@
+// @ts-nocheck
+/**
+ * @file In-memory quota store
+ */
+
+import type { IQuotaStore, RateWindowState, SlotState } from '../types.js';
+
+/**
+ * Process-local quota state. Limits reset on restart and aren't shared
+ * between replicas; use the SQLite store for that.
+ */
+export class InMemoryQuotaStore implements IQuotaStore {
+  private requests: Map<string, number[]> = new Map();
+  private slots: Map<string, Map<string, number>> = new Map();
+
+  async consumeRate(key: string, now: number, windowMs: number, limit: number): Promise<RateWindowState> {
+    const window = this.prune(key, now - windowMs);
+
+    if (window.length >= limit) {
+      return { allowed: false, count: window.length, oldestAt: window[0] };
+    }
+
+    window.push(now);
+    this.requests.set(key, window);
+    return { allowed: true, count: window.length, oldestAt: window[0] };
+  }
+
+  async acquireSlot(
+    key: string,
+    slotId: string,
+    expiresAt: number,
+    limit: number,
+    now: number,
+  ): Promise<SlotState> {
+    const held = this.liveSlots(key, now);
+
+    if (held.size >= limit) {
+      return { acquired: false, inFlight: held.size, nextExpiryAt: Math.min(...held.values()) };
+    }
+
+    held.set(slotId, expiresAt);
+    this.slots.set(key, held);
+    return { acquired: true, inFlight: held.size, nextExpiryAt: Math.min(...held.values()) };
+  }
+
+  async releaseSlot(key: string, slotId: string): Promise<void> {
+    const held = this.slots.get(key);
+    if (!held) return;
+    held.delete(slotId);
+    if (held.size === 0) this.slots.delete(key);
+  }
+
+  async getUsage(key: string, now: number, windowMs: number): Promise<{ requests: number; inFlight: number }> {
+    return {
+      requests: this.prune(key, now - windowMs).length,
+      inFlight: this.liveSlots(key, now).size,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.requests.clear();
+    this.slots.clear();
+  }
+
+  private prune(key: string, since: number): number[] {
+    const window = (this.requests.get(key) ?? []).filter((at) => at > since);
+    if (window.length === 0) {
+      this.requests.delete(key);
+    } else {
+      this.requests.set(key, window);
+    }
+    return window;
+  }
+
+  private liveSlots(key: string, now: number): Map<string, number> {
+    const held = this.slots.get(key) ?? new Map<string, number>();
+    for (const [id, expiresAt] of held) {
+      if (expiresAt <= now) held.delete(id);
+    }
+    return held;
+  }
+}
@@ -0,0 +1,54 @@
+// @ts-nocheck
+/**
+ * @file In-memory token revocation store
+ */
+
+import type { ITokenRevocationStore, RevocationRecord } from '../types.js';
+
+/**
+ * Process-local revocation store. Revocations are lost on restart and are not
+ * shared between replicas; use the file or SQLite store for that.
+ */
+export class InMemoryRevocationStore implements ITokenRevocationStore {
+  private records: Map<string, RevocationRecord> = new Map();
+
+  async revoke(record: RevocationRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async revokeIfAbsent(record: RevocationRecord): Promise<boolean> {
+    // No await between the check and the write, so this cannot interleave
+    const existing = this.records.get(record.id);
+    if (existing && existing.expiresAt > Date.now()) return false;
+
+    this.records.set(record.id, { ...record });
+    return true;
+  }
+
+  async get(id: string): Promise<RevocationRecord | null> {
+    const record = this.records.get(id);
+    if (!record) return null;
+
+    if (record.expiresAt <= Date.now()) {
+      this.records.delete(id);
+      return null;
+    }
+
+    return { ...record };
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    this.records.clear();
+  }
+}
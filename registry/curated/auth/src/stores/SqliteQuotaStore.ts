@@ -0,0 +1,148 @@
+// @ts-nocheck
+/**
+ * @file SQLite quota store (via @framers/sql-storage-adapter)
+ */
+
+import type { IQuotaStore, RateWindowState, SlotState } from '../types.js';
+import { assertTableName, openSqlAdapter } from './sqlStorage.js';
+
+export interface SqliteQuotaStoreOptions {
+  /** Database file; ignored when `adapter` is given */
+  filePath?: string;
+  /** Pre-opened sql-storage-adapter instance (shared with other stores) */
+  adapter?: any;
+  /** Table name prefix (default `auth_quota`) */
+  tablePrefix?: string;
+}
+
+/**
+ * Quota store backed by SQLite, so rate windows and in-flight slots survive
+ * restarts and are shared by every replica using the same database.
+ */
+export class SqliteQuotaStore implements IQuotaStore {
+  private db: any = null;
+  private ownsAdapter: boolean;
+  private requestsTable: string;
+  private slotsTable: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqliteQuotaStoreOptions) {
+    if (!options.adapter && !options.filePath) {
+      throw new Error('[SqliteQuotaStore] Either filePath or adapter is required');
+    }
+    this.ownsAdapter = !options.adapter;
+    const prefix = options.tablePrefix ?? 'auth_quota';
+    assertTableName('SqliteQuotaStore', prefix);
+    this.requestsTable = `${prefix}_requests`;
+    this.slotsTable = `${prefix}_slots`;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.open().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async consumeRate(key: string, now: number, windowMs: number, limit: number): Promise<RateWindowState> {
+    await this.initialize();
+
+    return this.db.transaction(async (trx: any) => {
+      await trx.run(`DELETE FROM ${this.requestsTable} WHERE key = ? AND at <= ?`, [key, now - windowMs]);
+      const window = await trx.get(
+        `SELECT COUNT(*) AS count, MIN(at) AS oldest FROM ${this.requestsTable} WHERE key = ?`,
+        [key],
+      );
+      const count = Number(window?.count ?? 0);
+      const oldestAt = window?.oldest != null ? Number(window.oldest) : undefined;
+
+      if (count >= limit) {
+        return { allowed: false, count, oldestAt };
+      }
+
+      await trx.run(`INSERT INTO ${this.requestsTable} (key, at) VALUES (?, ?)`, [key, now]);
+      return { allowed: true, count: count + 1, oldestAt: oldestAt ?? now };
+    });
+  }
+
+  async acquireSlot(
+    key: string,
+    slotId: string,
+    expiresAt: number,
+    limit: number,
+    now: number,
+  ): Promise<SlotState> {
+    await this.initialize();
+
+    return this.db.transaction(async (trx: any) => {
+      await trx.run(`DELETE FROM ${this.slotsTable} WHERE key = ? AND expires_at <= ?`, [key, now]);
+      const held = await trx.get(
+        `SELECT COUNT(*) AS count, MIN(expires_at) AS next_expiry FROM ${this.slotsTable} WHERE key = ?`,
+        [key],
+      );
+      const inFlight = Number(held?.count ?? 0);
+      const nextExpiryAt = held?.next_expiry != null ? Number(held.next_expiry) : undefined;
+
+      if (inFlight >= limit) {
+        return { acquired: false, inFlight, nextExpiryAt };
+      }
+
+      await trx.run(
+        `INSERT OR REPLACE INTO ${this.slotsTable} (key, id, expires_at) VALUES (?, ?, ?)`,
+        [key, slotId, expiresAt],
+      );
+      return {
+        acquired: true,
+        inFlight: inFlight + 1,
+        nextExpiryAt: Math.min(nextExpiryAt ?? expiresAt, expiresAt),
+      };
+    });
+  }
+
+  async releaseSlot(key: string, slotId: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(`DELETE FROM ${this.slotsTable} WHERE key = ? AND id = ?`, [key, slotId]);
+  }
+
+  async getUsage(key: string, now: number, windowMs: number): Promise<{ requests: number; inFlight: number }> {
+    await this.initialize();
+    const requests = await this.db.get(
+      `SELECT COUNT(*) AS count FROM ${this.requestsTable} WHERE key = ? AND at > ?`,
+      [key, now - windowMs],
+    );
+    const slots = await this.db.get(
+      `SELECT COUNT(*) AS count FROM ${this.slotsTable} WHERE key = ? AND expires_at > ?`,
+      [key, now],
+    );
+    return { requests: Number(requests?.count ?? 0), inFlight: Number(slots?.count ?? 0) };
+  }
+
+  async close(): Promise<void> {
+    if (this.db && this.ownsAdapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+
+  private async open(): Promise<void> {
+    this.db = await openSqlAdapter(this.options);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.requestsTable} (
+        key TEXT NOT NULL,
+        at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_${this.requestsTable}_key_at ON ${this.requestsTable} (key, at);
+      CREATE TABLE IF NOT EXISTS ${this.slotsTable} (
+        key TEXT NOT NULL,
+        id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (key, id)
+      );
+    `);
+  }
+}
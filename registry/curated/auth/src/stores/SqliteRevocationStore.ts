@@ -0,0 +1,113 @@
+// @ts-nocheck
+/**
+ * @file SQLite token revocation store (via @framers/sql-storage-adapter)
+ */
+
+import type { ITokenRevocationStore, RevocationRecord } from '../types.js';
+import { assertTableName, openSqlAdapter } from './sqlStorage.js';
+
+export interface SqliteRevocationStoreOptions {
+  /** Database file; ignored when `adapter` is given */
+  filePath?: string;
+  /** Pre-opened sql-storage-adapter instance (shared with other stores) */
+  adapter?: any;
+  /** Table name (default `auth_revoked_tokens`) */
+  tableName?: string;
+}
+
+/**
+ * Revocation store backed by a SQLite table. Every gateway replica pointed at
+ * the same database shares revocations.
+ */
+export class SqliteRevocationStore implements ITokenRevocationStore {
+  private db: any = null;
+  private ownsAdapter: boolean;
+  private table: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqliteRevocationStoreOptions) {
+    if (!options.adapter && !options.filePath) {
+      throw new Error('[SqliteRevocationStore] Either filePath or adapter is required');
+    }
+    this.ownsAdapter = !options.adapter;
+    this.table = options.tableName ?? 'auth_revoked_tokens';
+    assertTableName('SqliteRevocationStore', this.table);
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.open().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async revoke(record: RevocationRecord): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT OR REPLACE INTO ${this.table} (id, expires_at, revoked_at, reason) VALUES (?, ?, ?, ?)`,
+      [record.id, record.expiresAt, record.revokedAt, record.reason ?? null],
+    );
+  }
+
+  async revokeIfAbsent(record: RevocationRecord): Promise<boolean> {
+    await this.initialize();
+    // A single statement: inserts, replaces an expired row, or changes nothing
+    const result = await this.db.run(
+      `INSERT INTO ${this.table} (id, expires_at, revoked_at, reason) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         expires_at = excluded.expires_at,
+         revoked_at = excluded.revoked_at,
+         reason = excluded.reason
+       WHERE ${this.table}.expires_at <= ?`,
+      [record.id, record.expiresAt, record.revokedAt, record.reason ?? null, Date.now()],
+    );
+    return (result?.changes ?? 0) > 0;
+  }
+
+  async get(id: string): Promise<RevocationRecord | null> {
+    await this.initialize();
+    const row = await this.db.get(
+      `SELECT id, expires_at, revoked_at, reason FROM ${this.table} WHERE id = ? AND expires_at > ?`,
+      [id, Date.now()],
+    );
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      expiresAt: Number(row.expires_at),
+      revokedAt: Number(row.revoked_at),
+      reason: row.reason ?? undefined,
+    };
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    await this.initialize();
+    const result = await this.db.run(`DELETE FROM ${this.table} WHERE expires_at <= ?`, [now]);
+    return result?.changes ?? 0;
+  }
+
+  async close(): Promise<void> {
+    if (this.db && this.ownsAdapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+
+  private async open(): Promise<void> {
+    this.db = await openSqlAdapter(this.options);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER NOT NULL,
+        reason TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_${this.table}_expires_at ON ${this.table} (expires_at);
+    `);
+  }
+}
@@ -0,0 +1,34 @@
+// @ts-nocheck
+/**
+ * @file Lazy loader for the optional @framers/sql-storage-adapter dependency
+ */
+
+// Lazily resolved sql-storage-adapter module (dynamic import — not a hard dependency)
+let _sqlStorage: any = null;
+
+export async function getSqlStorage(): Promise<any> {
+  if (!_sqlStorage) {
+    try {
+      _sqlStorage = await import('@framers/sql-storage-adapter' as string);
+    } catch {
+      throw new Error(
+        'Missing dependency: @framers/sql-storage-adapter is required for SQLite-backed auth stores. '
+        + 'Install it with: npm install @framers/sql-storage-adapter',
+      );
+    }
+  }
+  return _sqlStorage;
+}
+
+/** Open a database for a store: the caller's shared adapter, or a new file-backed one */
+export async function openSqlAdapter(options: { adapter?: any; filePath?: string }): Promise<any> {
+  if (options.adapter) return options.adapter;
+  const { createDatabase } = await getSqlStorage();
+  return createDatabase({ file: options.filePath });
+}
+
+export function assertTableName(store: string, table: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`[${store}] Invalid table name: ${table}`);
+  }
+}
@@ -24,18 +24,119 @@ export interface JWTPayload {
   mode?: string;
   iat?: number;
   exp?: number;
+  /** Unique token ID, used as the revocation key */
+  jti?: string;
+  /** Token family ID shared by an access/refresh pair and all its rotations */
+  fid?: string;
+  /** Token use: `'access'` (default when absent) or `'refresh'` */
+  typ?: 'access' | 'refresh';
   [key: string]: any;
 }
 
+/**
+ * A revoked token (or token family) held by a revocation store
+ */
+export interface RevocationRecord {
+  /** Token `jti`, or `family:<fid>` for a whole token family */
+  id: string;
+  /** Epoch ms after which the entry can be dropped (the token would have expired anyway) */
+  expiresAt: number;
+  /** Epoch ms when the revocation happened */
+  revokedAt: number;
+  /** Why the token was revoked, e.g. `'revoked'`, `'rotated'`, `'reuse-detected'` */
+  reason?: string;
+}
+
+/**
+ * Pluggable backend for token revocations.
+ *
+ * Implementations must treat entries whose `expiresAt` has passed as absent.
+ */
+export interface ITokenRevocationStore {
+  initialize?(): Promise<void>;
+  revoke(record: RevocationRecord): Promise<void>;
+  /**
+   * Store `record` only if no live entry with its id exists, as one atomic
+   * step. Returns `true` when this call stored it; of several concurrent
+   * calls for the same id, exactly one wins.
+   */
+  revokeIfAbsent(record: RevocationRecord): Promise<boolean>;
+  get(id: string): Promise<RevocationRecord | null>;
+  /** Drop expired entries; returns how many were removed */
+  purgeExpired(now?: number): Promise<number>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Access/refresh token pair issued by `JWTAuthAdapter.issueTokenPair`
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  /** Family shared by every rotation of this pair */
+  familyId: string;
+  /** Access token expiry (epoch seconds) */
+  accessTokenExpiresAt: number;
+  /** Refresh token expiry (epoch seconds) */
+  refreshTokenExpiresAt: number;
+}
+
+/**
+ * JWS algorithms supported by the keyring
+ */
+export type JWTAlgorithm =
+  | 'HS256' | 'HS384' | 'HS512'
+  | 'RS256' | 'RS384' | 'RS512'
+  | 'ES256' | 'ES384' | 'ES512'
+  | 'EdDSA';
+
+/**
+ * A signing/verification key, indexed by `kid`
+ */
+export interface JWTSigningKey {
+  kid: string;
+  algorithm: JWTAlgorithm;
+  /** Shared secret for HS* algorithms */
+  secret?: string;
+  /** PEM or KeyObject; required for an active asymmetric key */
+  privateKey?: string | import('node:crypto').KeyObject;
+  /** PEM or KeyObject; derived from `privateKey` when omitted */
+  publicKey?: string | import('node:crypto').KeyObject;
+  /** `'active'` signs new tokens; `'retiring'` only verifies (default `'active'`) */
+  status?: 'active' | 'retiring';
+}
+
+/**
+ * JSON Web Key Set document (RFC 7517)
+ */
+export interface JSONWebKeySet {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
 /**
  * Configuration for JWT auth adapter
  */
 export interface JWTAuthConfig {
-  jwtSecret: string;
+  /** Shared HS256 secret; tokens signed with it carry no `kid` */
+  jwtSecret?: string;
+  /** kid-indexed keys; the last `'active'` one signs new tokens */
+  keys?: JWTSigningKey[];
+  /** Local JWKS document (or path to one) whose keys are trusted for verification only */
+  jwks?: JSONWebKeySet | string;
+  /** `iss` claim set on issued tokens and required on validated ones */
+  issuer?: string;
+  /** `aud` claim set on issued tokens; validated tokens must match one of these */
+  audience?: string | string[];
+  /** Seconds of clock skew tolerated for `exp`/`nbf` (default 0) */
+  clockTolerance?: number;
   jwtExpiresIn?: string;
   bcryptSaltRounds?: number;
   enableTokenRefresh?: boolean;
   refreshWindow?: number;
+  /** Lifetime of refresh tokens issued by `issueTokenPair` (default `'30d'`) */
+  refreshTokenExpiresIn?: string;
+  /** Where revocations are kept (default: in-memory) */
+  revocationStore?: ITokenRevocationStore;
 }
 
 /**
@@ -48,11 +149,126 @@ export interface SubscriptionConfig {
     level: number;
     features?: string[];
     isActive?: boolean;
+    /** Max tool calls in flight at once per user (unlimited when absent) */
     maxConcurrentRequests?: number;
+    /** Max requests per user per rate window, one minute by default (unlimited when absent) */
     rateLimit?: number;
   }>;
 }
 
+/**
+ * Outcome of recording a request against a sliding rate window
+ */
+export interface RateWindowState {
+  allowed: boolean;
+  /** Requests in the window, including this one when allowed */
+  count: number;
+  /** Timestamp (epoch ms) of the oldest request still in the window */
+  oldestAt?: number;
+}
+
+/**
+ * Outcome of trying to take a concurrency slot
+ */
+export interface SlotState {
+  acquired: boolean;
+  /** Slots held, including this one when acquired */
+  inFlight: number;
+  /** Earliest expiry (epoch ms) among the held slots */
+  nextExpiryAt?: number;
+}
+
+/**
+ * Pluggable backend for per-user quota state.
+ *
+ * `consumeRate` and `acquireSlot` must check and record atomically so replicas
+ * sharing a store can't overshoot a limit.
+ */
+export interface IQuotaStore {
+  initialize?(): Promise<void>;
+  /** Record a request for `key` unless `limit` requests already fall in the window ending at `now` */
+  consumeRate(key: string, now: number, windowMs: number, limit: number): Promise<RateWindowState>;
+  /** Take slot `slotId` for `key` unless `limit` unexpired slots are already held */
+  acquireSlot(key: string, slotId: string, expiresAt: number, limit: number, now: number): Promise<SlotState>;
+  releaseSlot(key: string, slotId: string): Promise<void>;
+  /** Current counts without recording anything */
+  getUsage(key: string, now: number, windowMs: number): Promise<{ requests: number; inFlight: number }>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Condition on a single tool argument. Every operator present must hold.
+ */
+export interface ToolArgumentCondition {
+  eq?: unknown;
+  neq?: unknown;
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  in?: unknown[];
+  notIn?: unknown[];
+  /** Regular expression source the (string) argument must match */
+  matches?: string;
+  /** `true`: argument must be present; `false`: must be absent */
+  exists?: boolean;
+}
+
+/**
+ * One rule in a tool policy. Rules are evaluated in order; the first rule
+ * whose tools, roles, tiers and argument conditions all match decides.
+ */
+export interface ToolPolicyRule {
+  id: string;
+  description?: string;
+  effect: 'allow' | 'deny';
+  /** Tool IDs or names to match; `*` is a wildcard (`'twitter*'`, `'*'`) */
+  tools: string | string[];
+  /** Rule applies only to callers holding any of these roles */
+  roles?: string[];
+  /** Rule applies only to callers on any of these tiers */
+  tiers?: string[];
+  /** Argument conditions keyed by dotted path into the tool arguments (`'recipient.address'`) */
+  when?: Record<string, ToolArgumentCondition | string | number | boolean | null>;
+}
+
+/**
+ * Declarative tool access policy
+ */
+export interface ToolPolicy {
+  /** Decision when no rule matches (default `'allow'`); tools with a `when`-constrained allow rule are denied instead */
+  defaultEffect?: 'allow' | 'deny';
+  rules: ToolPolicyRule[];
+}
+
+/**
+ * How a single rule fared against a request
+ */
+export interface ToolPolicyRuleTrace {
+  ruleId: string;
+  effect: 'allow' | 'deny';
+  matched: boolean;
+  /** Why the rule did or didn't match, one entry per check */
+  reasons: string[];
+}
+
+/**
+ * Result of evaluating a request against a policy
+ */
+export interface ToolPolicyDecision {
+  allowed: boolean;
+  /** The rule that decided, absent when the default effect applied */
+  matchedRule?: ToolPolicyRule;
+  reason: string;
+}
+
+/**
+ * Dry-run evaluation with a per-rule trace, for debugging policies
+ */
+export interface ToolPolicyExplanation extends ToolPolicyDecision {
+  trace: ToolPolicyRuleTrace[];
+}
+
 /**
  * Complete auth extension configuration
  */
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { JWTAuthAdapter } from '../src/adapters/JWTAuthAdapter.js';
+import { InMemoryRevocationStore } from '../src/stores/InMemoryRevocationStore.js';
 
 describe('JWTAuthAdapter', () => {
   let auth: JWTAuthAdapter;
@@ -94,6 +95,90 @@ describe('JWTAuthAdapter', () => {
     });
   });
 
+  describe('Revocation Store', () => {
+    it('should revoke by jti so a shared store covers other adapter instances', async () => {
+      const store = new InMemoryRevocationStore();
+      const a = new JWTAuthAdapter({ jwtSecret: 'shared', revocationStore: store });
+      const b = new JWTAuthAdapter({ jwtSecret: 'shared', revocationStore: store });
+
+      const token = a.generateToken('user123');
+      await a.revokeToken(token);
+
+      const decoded = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+      expect(await store.get(decoded.jti)).toMatchObject({ reason: 'revoked' });
+      expect(await b.validateToken(token)).toBeNull();
+    });
+
+    it('should expire revocation entries with the token', async () => {
+      const store = new InMemoryRevocationStore();
+      const shortAuth = new JWTAuthAdapter({ jwtSecret: 'secret', jwtExpiresIn: '1h', revocationStore: store });
+      const token = shortAuth.generateToken('user123');
+      await shortAuth.revokeToken(token);
+
+      expect(await store.purgeExpired(Date.now() + 2 * 3600 * 1000)).toBe(1);
+    });
+  });
+
+  describe('Refresh Token Rotation', () => {
+    it('should issue an access/refresh pair sharing a family', async () => {
+      const pair = await auth.issueTokenPair('user123', { tier: 'pro' });
+
+      expect(pair.familyId).toBeTruthy();
+      expect(pair.refreshTokenExpiresAt).toBeGreaterThan(pair.accessTokenExpiresAt);
+
+      const user = await auth.validateToken(pair.accessToken);
+      expect(user?.tier).toBe('pro');
+      expect(user?.metadata.fid).toBe(pair.familyId);
+    });
+
+    it('should not accept a refresh token as an access token', async () => {
+      const pair = await auth.issueTokenPair('user123');
+      expect(await auth.validateToken(pair.refreshToken)).toBeNull();
+    });
+
+    it('should rotate a refresh token into a new pair', async () => {
+      const pair = await auth.issueTokenPair('user123', { email: 'test@example.com' });
+      const next = await auth.rotateRefreshToken(pair.refreshToken);
+
+      expect(next).toBeTruthy();
+      expect(next!.familyId).toBe(pair.familyId);
+      expect(next!.refreshToken).not.toBe(pair.refreshToken);
+      expect((await auth.validateToken(next!.accessToken))?.email).toBe('test@example.com');
+    });
+
+    it('should revoke the whole family when a rotated refresh token is replayed', async () => {
+      const pair = await auth.issueTokenPair('user123');
+      const next = await auth.rotateRefreshToken(pair.refreshToken);
+
+      // Replay of the already-rotated token
+      expect(await auth.rotateRefreshToken(pair.refreshToken)).toBeNull();
+
+      // Every descendant is now dead too
+      expect(await auth.validateToken(next!.accessToken)).toBeNull();
+      expect(await auth.rotateRefreshToken(next!.refreshToken)).toBeNull();
+    });
+
+    it('should treat concurrent uses of one refresh token as reuse', async () => {
+      const pair = await auth.issueTokenPair('user123');
+      const results = await Promise.all([
+        auth.rotateRefreshToken(pair.refreshToken),
+        auth.rotateRefreshToken(pair.refreshToken),
+      ]);
+
+      const winners = results.filter(Boolean);
+      expect(winners).toHaveLength(1);
+
+      // The loser's attempt revoked the family, including the winner's pair
+      expect(await auth.validateToken(winners[0]!.accessToken)).toBeNull();
+      expect(await auth.rotateRefreshToken(winners[0]!.refreshToken)).toBeNull();
+    });
+
+    it('should reject access tokens for rotation', async () => {
+      const pair = await auth.issueTokenPair('user123');
+      expect(await auth.rotateRefreshToken(pair.accessToken)).toBeNull();
+    });
+  });
+
   describe('Token Refresh', () => {
     it('should refresh a token within refresh window', async () => {
       // Create auth with short expiry for testing
@@ -119,6 +204,22 @@ describe('JWTAuthAdapter', () => {
       expect(user?.email).toBe('test@example.com');
     });
 
+    it('should keep the family id so family revocation covers refreshed tokens', async () => {
+      const shortAuth = new JWTAuthAdapter({
+        jwtSecret: 'test-secret',
+        jwtExpiresIn: '10s',
+        refreshWindow: 20,
+      });
+
+      const pair = await shortAuth.issueTokenPair('user123');
+      const refreshed = await shortAuth.refreshToken(pair.accessToken);
+      expect((await shortAuth.validateToken(refreshed!))?.metadata.fid).toBe(pair.familyId);
+
+      await shortAuth.revokeTokenFamily(pair.familyId);
+      expect(await shortAuth.validateToken(refreshed!)).toBeNull();
+      expect(await shortAuth.refreshToken(refreshed!)).toBeNull();
+    });
+
     it('should not refresh when disabled', async () => {
       const noRefreshAuth = new JWTAuthAdapter({
         jwtSecret: 'test-secret',
@@ -0,0 +1,172 @@
+// @ts-nocheck
+/**
+ * @file Tests for asymmetric keys, JWKS and key rotation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { JWTAuthAdapter } from '../src/adapters/JWTAuthAdapter.js';
+import { JWTKeyring } from '../src/keys/JWTKeyring.js';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const ed = generateKeyPairSync('ed25519');
+
+const header = (token: string) =>
+  JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+describe('JWTKeyring', () => {
+  describe('Asymmetric signing', () => {
+    const cases = [
+      ['RS256', rsa.privateKey],
+      ['ES256', ec.privateKey],
+      ['EdDSA', ed.privateKey],
+    ] as const;
+
+    for (const [algorithm, privateKey] of cases) {
+      it(`should sign and validate ${algorithm} tokens`, async () => {
+        const auth = new JWTAuthAdapter({
+          keys: [{ kid: `${algorithm}-1`, algorithm, privateKey }],
+        });
+
+        const token = auth.generateToken('user123', { tier: 'pro' });
+        expect(header(token)).toMatchObject({ alg: algorithm, kid: `${algorithm}-1` });
+
+        const user = await auth.validateToken(token);
+        expect(user?.id).toBe('user123');
+        expect(user?.tier).toBe('pro');
+      });
+    }
+
+    it('should reject a tampered EdDSA token', async () => {
+      const auth = new JWTAuthAdapter({ keys: [{ kid: 'ed', algorithm: 'EdDSA', privateKey: ed.privateKey }] });
+      const [h, , s] = auth.generateToken('user123').split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'admin', exp: 9999999999 })).toString('base64url');
+
+      expect(await auth.validateToken(`${h}.${forged}.${s}`)).toBeNull();
+    });
+
+    it('should reject a token whose alg does not match the key', async () => {
+      const auth = new JWTAuthAdapter({ keys: [{ kid: 'rsa', algorithm: 'RS256', privateKey: rsa.privateKey }] });
+      const token = auth.generateToken('user123');
+      const body = token.split('.')[1];
+      const noneHeader = Buffer.from(JSON.stringify({ alg: 'none', kid: 'rsa' })).toString('base64url');
+
+      expect(await auth.validateToken(`${noneHeader}.${body}.`)).toBeNull();
+    });
+  });
+
+  describe('Key rotation', () => {
+    it('should keep validating tokens from a retiring key', async () => {
+      const auth = new JWTAuthAdapter({
+        keys: [{ kid: 'k1', algorithm: 'ES256', privateKey: ec.privateKey }],
+      });
+      const oldToken = auth.generateToken('user123');
+
+      auth.rotateSigningKey({ kid: 'k2', algorithm: 'EdDSA', privateKey: ed.privateKey });
+      const newToken = auth.generateToken('user123');
+
+      expect(header(newToken).kid).toBe('k2');
+      expect(await auth.validateToken(oldToken)).toBeTruthy();
+      expect(await auth.validateToken(newToken)).toBeTruthy();
+      expect(auth.getKeyring().listKeys()).toEqual([
+        { kid: 'k1', algorithm: 'ES256', status: 'retiring' },
+        { kid: 'k2', algorithm: 'EdDSA', status: 'active' },
+      ]);
+
+      auth.removeSigningKey('k1');
+      expect(await auth.validateToken(oldToken)).toBeNull();
+    });
+
+    it('should keep legacy jwtSecret tokens valid after moving to kid-indexed keys', async () => {
+      const legacy = new JWTAuthAdapter({ jwtSecret: 'shared-secret' });
+      const legacyToken = legacy.generateToken('user123');
+
+      const migrated = new JWTAuthAdapter({
+        jwtSecret: 'shared-secret',
+        keys: [{ kid: 'rsa-1', algorithm: 'RS256', privateKey: rsa.privateKey }],
+      });
+
+      expect(header(migrated.generateToken('user123')).kid).toBe('rsa-1');
+      expect(await migrated.validateToken(legacyToken)).toBeTruthy();
+    });
+
+    it('should refuse an active asymmetric key without a private key', () => {
+      expect(() => new JWTKeyring([{ kid: 'pub', algorithm: 'RS256', publicKey: rsa.publicKey }])).toThrow(
+        /secret or private key/,
+      );
+    });
+  });
+
+  describe('JWKS', () => {
+    it('should publish only asymmetric public keys', () => {
+      const keyring = new JWTKeyring([
+        { kid: 'hs', algorithm: 'HS256', secret: 'secret', status: 'retiring' },
+        { kid: 'ec', algorithm: 'ES256', privateKey: ec.privateKey },
+      ]);
+
+      const jwks = keyring.toJWKS();
+      expect(jwks.keys).toHaveLength(1);
+      expect(jwks.keys[0]).toMatchObject({ kid: 'ec', alg: 'ES256', use: 'sig', kty: 'EC' });
+      expect(jwks.keys[0].d).toBeUndefined();
+    });
+
+    it('should verify tokens against a local JWKS file', async () => {
+      const issuerService = new JWTAuthAdapter({
+        keys: [{ kid: 'ed-1', algorithm: 'EdDSA', privateKey: ed.privateKey }],
+        issuer: 'https://auth.agentos.local',
+        audience: 'agentos-gateway',
+      });
+
+      const dir = await mkdtemp(path.join(tmpdir(), 'agentos-jwks-'));
+      const jwksPath = path.join(dir, 'jwks.json');
+      await writeFile(jwksPath, JSON.stringify(issuerService.getJWKS()));
+
+      try {
+        const gateway = new JWTAuthAdapter({
+          jwks: jwksPath,
+          issuer: 'https://auth.agentos.local',
+          audience: 'agentos-gateway',
+        });
+
+        const user = await gateway.validateToken(issuerService.generateToken('user123'));
+        expect(user?.id).toBe('user123');
+        expect(() => gateway.generateToken('user123')).toThrow(/No active signing key/);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Audience and issuer enforcement', () => {
+    const key = { kid: 'rsa-1', algorithm: 'RS256' as const, privateKey: rsa.privateKey };
+
+    it('should reject tokens minted for another audience', async () => {
+      const billing = new JWTAuthAdapter({ keys: [key], issuer: 'agentos', audience: 'billing' });
+      const gateway = new JWTAuthAdapter({ keys: [key], issuer: 'agentos', audience: 'gateway' });
+
+      const token = billing.generateToken('user123');
+      expect(await billing.validateToken(token)).toBeTruthy();
+      expect(await gateway.validateToken(token)).toBeNull();
+    });
+
+    it('should reject tokens from another issuer', async () => {
+      const other = new JWTAuthAdapter({ keys: [key], issuer: 'someone-else', audience: 'gateway' });
+      const gateway = new JWTAuthAdapter({ keys: [key], issuer: 'agentos', audience: 'gateway' });
+
+      expect(await gateway.validateToken(other.generateToken('user123'))).toBeNull();
+    });
+
+    it('should carry iss/aud through refresh-token rotation', async () => {
+      const auth = new JWTAuthAdapter({ keys: [key], issuer: 'agentos', audience: 'gateway' });
+      const pair = await auth.issueTokenPair('user123');
+      const next = await auth.rotateRefreshToken(pair.refreshToken);
+
+      const user = await auth.validateToken(next!.accessToken);
+      expect(user?.metadata).toMatchObject({ iss: 'agentos', aud: 'gateway' });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+// @ts-nocheck
+/**
+ * @file Tests for the persistent revocation stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FileRevocationStore } from '../src/stores/FileRevocationStore.js';
+import { SqliteRevocationStore } from '../src/stores/SqliteRevocationStore.js';
+import { JWTAuthAdapter } from '../src/adapters/JWTAuthAdapter.js';
+
+const record = (id: string, ttlMs = 60_000) => ({
+  id,
+  expiresAt: Date.now() + ttlMs,
+  revokedAt: Date.now(),
+  reason: 'revoked',
+});
+
+describe('Persistent revocation stores', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'agentos-auth-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('FileRevocationStore', () => {
+    it('should survive a restart', async () => {
+      const file = path.join(dir, 'revoked.json');
+      const first = new FileRevocationStore(file);
+      await first.initialize();
+      await first.revoke(record('jti-1'));
+
+      const second = new FileRevocationStore(file);
+      await second.initialize();
+      expect(await second.get('jti-1')).toMatchObject({ id: 'jti-1', reason: 'revoked' });
+    });
+
+    it('should see revocations written by another instance', async () => {
+      const file = path.join(dir, 'revoked.json');
+      const a = new FileRevocationStore(file);
+      const b = new FileRevocationStore(file);
+      await a.initialize();
+      await b.initialize();
+
+      await a.revoke(record('jti-2'));
+      expect(await b.get('jti-2')).not.toBeNull();
+    });
+
+    it('should let exactly one concurrent revokeIfAbsent win', async () => {
+      const store = new FileRevocationStore(path.join(dir, 'revoked.json'));
+      const results = await Promise.all([store.revokeIfAbsent(record('jti-4')), store.revokeIfAbsent(record('jti-4'))]);
+
+      expect(results.sort()).toEqual([false, true]);
+    });
+
+    it('should ignore and purge expired entries', async () => {
+      const store = new FileRevocationStore(path.join(dir, 'revoked.json'));
+      await store.revoke(record('old', -1));
+      await store.revoke(record('new'));
+
+      expect(await store.get('old')).toBeNull();
+      expect(await store.purgeExpired()).toBe(1);
+      expect(await store.get('new')).not.toBeNull();
+    });
+  });
+
+  describe('SqliteRevocationStore', () => {
+    it('should persist revocations across instances', async () => {
+      const filePath = path.join(dir, 'auth.db');
+      const first = new SqliteRevocationStore({ filePath });
+      await first.revoke(record('jti-3'));
+      await first.close();
+
+      const second = new SqliteRevocationStore({ filePath });
+      expect(await second.get('jti-3')).toMatchObject({ id: 'jti-3', reason: 'revoked' });
+      await second.close();
+    });
+
+    it('should purge expired entries', async () => {
+      const store = new SqliteRevocationStore({ filePath: path.join(dir, 'auth.db') });
+      await store.revoke(record('old', -1));
+      await store.revoke(record('new'));
+
+      expect(await store.get('old')).toBeNull();
+      expect(await store.purgeExpired()).toBe(1);
+      await store.close();
+    });
+
+    it('should store with revokeIfAbsent only when no live entry exists', async () => {
+      const store = new SqliteRevocationStore({ filePath: path.join(dir, 'auth.db') });
+      await store.revoke(record('old', -1));
+
+      expect(await store.revokeIfAbsent(record('jti-5'))).toBe(true);
+      expect(await store.revokeIfAbsent({ ...record('jti-5'), reason: 'rotated' })).toBe(false);
+      expect((await store.get('jti-5'))?.reason).toBe('revoked');
+
+      // An expired row does not block a new claim
+      expect(await store.revokeIfAbsent(record('old'))).toBe(true);
+      expect(await store.get('old')).not.toBeNull();
+      await store.close();
+    });
+
+    it('should reject unsafe table names', () => {
+      expect(() => new SqliteRevocationStore({ filePath: 'x.db', tableName: 'x; DROP TABLE y' })).toThrow();
+    });
+
+    it('should back JWTAuthAdapter revocations', async () => {
+      const store = new SqliteRevocationStore({ filePath: path.join(dir, 'auth.db') });
+      const auth = new JWTAuthAdapter({ jwtSecret: 'secret', revocationStore: store });
+
+      const token = auth.generateToken('user123');
+      await auth.revokeToken(token);
+
+      const restarted = new JWTAuthAdapter({ jwtSecret: 'secret', revocationStore: store });
+      expect(await restarted.validateToken(token)).toBeNull();
+      await store.close();
+    });
+  });
+});
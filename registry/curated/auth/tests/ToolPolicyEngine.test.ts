@@ -0,0 +1,163 @@
+// @ts-nocheck
+/**
+ * @file Tests for tool permission policies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ToolPolicyEngine } from '../src/policy/ToolPolicyEngine.js';
+import { ToolPermissionProvider } from '../src/providers/ToolPermissionProvider.js';
+import { SubscriptionAdapter } from '../src/adapters/SubscriptionAdapter.js';
+
+const policy = {
+  defaultEffect: 'deny' as const,
+  rules: [
+    { id: 'shell-admins', effect: 'allow' as const, tools: 'shell_execute', roles: ['admin'] },
+    { id: 'shell-others', effect: 'deny' as const, tools: 'shell_execute', description: 'Shell is admin-only' },
+    { id: 'no-dms', effect: 'deny' as const, tools: 'twitterDm' },
+    { id: 'twitter', effect: 'allow' as const, tools: 'twitter*' },
+    {
+      id: 'small-sends',
+      effect: 'allow' as const,
+      tools: 'sendCrypto',
+      when: { amount: { lt: 100 }, 'recipient.chain': { in: ['solana', 'base'] } },
+    },
+    { id: 'search', effect: 'allow' as const, tools: ['web-search', 'news-search'], tiers: ['pro'] },
+  ],
+};
+
+describe('ToolPolicyEngine', () => {
+  const engine = new ToolPolicyEngine(policy);
+
+  it('should allow shell_execute only for admins', () => {
+    expect(engine.evaluate({ toolId: 'shell_execute', roles: ['admin'] })).toMatchObject({
+      allowed: true,
+      matchedRule: { id: 'shell-admins' },
+    });
+
+    const denied = engine.evaluate({ toolId: 'shell_execute', roles: ['user'] });
+    expect(denied.allowed).toBe(false);
+    expect(denied.matchedRule?.id).toBe('shell-others');
+    expect(denied.reason).toContain('Shell is admin-only');
+  });
+
+  it('should let a narrow deny win over a wildcard allow', () => {
+    expect(engine.evaluate({ toolId: 'twitter-post', toolName: 'twitterPost' }).allowed).toBe(true);
+    expect(engine.evaluate({ toolId: 'twitter-dm', toolName: 'twitterDm' })).toMatchObject({
+      allowed: false,
+      matchedRule: { id: 'no-dms' },
+    });
+  });
+
+  it('should constrain tool arguments', () => {
+    const send = (args) => engine.evaluate({ toolId: 'sendCrypto', args });
+
+    expect(send({ amount: 50, recipient: { chain: 'solana' } }).allowed).toBe(true);
+    expect(send({ amount: 500, recipient: { chain: 'solana' } }).allowed).toBe(false);
+    expect(send({ amount: 50, recipient: { chain: 'ethereum' } }).allowed).toBe(false);
+    // Missing arguments never satisfy a comparison
+    expect(send({}).allowed).toBe(false);
+    expect(send({ amount: '50', recipient: { chain: 'solana' } }).allowed).toBe(false);
+  });
+
+  it('should deny constrained tools whose arguments match no rule, even with a default allow', () => {
+    const permissive = new ToolPolicyEngine({
+      rules: [{ id: 'small-sends', effect: 'allow', tools: 'sendCrypto', when: { amount: { lt: 100 } } }],
+    });
+
+    expect(permissive.evaluate({ toolId: 'sendCrypto', args: { amount: 50 } }).allowed).toBe(true);
+    const large = permissive.explain({ toolId: 'sendCrypto', args: { amount: 500 } });
+    expect(large.allowed).toBe(false);
+    expect(large.matchedRule).toBeUndefined();
+    expect(large.reason).toContain("fail the constraints of 'small-sends'");
+    expect(permissive.evaluate({ toolId: 'otherTool' }).allowed).toBe(true);
+  });
+
+  it('should match tiers', () => {
+    expect(engine.evaluate({ toolId: 'web-search', tier: 'pro' }).allowed).toBe(true);
+    expect(engine.evaluate({ toolId: 'web-search', tier: 'free' }).allowed).toBe(false);
+  });
+
+  it('should fall back to the default effect', () => {
+    const decision = engine.evaluate({ toolId: 'unknown-tool' });
+    expect(decision.allowed).toBe(false);
+    expect(decision.matchedRule).toBeUndefined();
+
+    const permissive = new ToolPolicyEngine({ rules: [] });
+    expect(permissive.evaluate({ toolId: 'anything' }).allowed).toBe(true);
+  });
+
+  it('should explain every rule without changing the decision', () => {
+    const request = { toolId: 'sendCrypto', args: { amount: 250, recipient: { chain: 'base' } } };
+    const explanation = engine.explain(request);
+
+    expect(explanation.allowed).toBe(engine.evaluate(request).allowed);
+    expect(explanation.trace).toHaveLength(policy.rules.length);
+
+    const smallSends = explanation.trace.find((t) => t.ruleId === 'small-sends');
+    expect(smallSends?.matched).toBe(false);
+    expect(smallSends?.reasons).toContain('args.amount 250 fails lt 100');
+    expect(smallSends?.reasons).toContain('args.recipient.chain "base" satisfies in ["solana","base"]');
+  });
+
+  it('should reject malformed policies', () => {
+    expect(() => new ToolPolicyEngine({ rules: [{ id: 'a', effect: 'allow', tools: [] }] })).toThrow(/tool pattern/);
+    expect(
+      () =>
+        new ToolPolicyEngine({
+          rules: [
+            { id: 'a', effect: 'allow', tools: '*' },
+            { id: 'a', effect: 'deny', tools: '*' },
+          ],
+        }),
+    ).toThrow(/Duplicate rule id/);
+    expect(
+      () => new ToolPolicyEngine({ rules: [{ id: 'a', effect: 'allow', tools: '*', when: { x: { below: 1 } } }] }),
+    ).toThrow(/unknown operator/);
+  });
+});
+
+describe('ToolPermissionProvider with policies', () => {
+  const subscriptions = new SubscriptionAdapter({
+    defaultTier: 'pro',
+    tiers: [{ name: 'pro', level: 1, features: ['FEATURE_WALLET'] }],
+  });
+  const permissions = new ToolPermissionProvider(subscriptions, { policy });
+
+  it('should report the matching rule on denial', async () => {
+    const result = await permissions.checkToolAccess({
+      userId: 'user123',
+      toolId: 'shell_execute',
+      toolName: 'shell_execute',
+      roles: ['user'],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.matchedRule?.id).toBe('shell-others');
+  });
+
+  it('should apply feature checks before the policy', async () => {
+    const result = await permissions.checkToolAccess({
+      userId: 'user123',
+      toolId: 'sendCrypto',
+      toolName: 'sendCrypto',
+      requiredFeatures: ['FEATURE_ENTERPRISE'],
+      args: { amount: 1, recipient: { chain: 'solana' } },
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.missingFeatures).toEqual(['FEATURE_ENTERPRISE']);
+  });
+
+  it('should explain access decisions', async () => {
+    const explanation = await permissions.explainToolAccess({
+      userId: 'user123',
+      toolId: 'sendCrypto',
+      toolName: 'sendCrypto',
+      requiredFeatures: ['FEATURE_WALLET'],
+      args: { amount: 10, recipient: { chain: 'solana' } },
+    });
+
+    expect(explanation).toMatchObject({ allowed: true, tier: 'pro', missingFeatures: [] });
+    expect(explanation.policy?.matchedRule?.id).toBe('small-sends');
+  });
+});
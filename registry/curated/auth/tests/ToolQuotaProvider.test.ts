@@ -0,0 +1,168 @@
+// @ts-nocheck
+/**
+ * @file Tests for ToolQuotaProvider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { SubscriptionAdapter } from '../src/adapters/SubscriptionAdapter.js';
+import { ToolQuotaProvider } from '../src/providers/ToolQuotaProvider.js';
+import { SqliteQuotaStore } from '../src/stores/SqliteQuotaStore.js';
+
+const call = (userId = 'user123') => ({ userId, toolId: 'web-search', toolName: 'webSearch' });
+
+describe('ToolQuotaProvider', () => {
+  let subscriptions: SubscriptionAdapter;
+
+  beforeEach(() => {
+    subscriptions = new SubscriptionAdapter({
+      defaultTier: 'free',
+      tiers: [
+        { name: 'free', level: 0, features: [], rateLimit: 2, maxConcurrentRequests: 1 },
+        { name: 'pro', level: 1, features: [], rateLimit: 100, maxConcurrentRequests: 3 },
+        { name: 'unlimited', level: 2, features: [] },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Rate limits', () => {
+    it('should deny requests over the tier rate limit with a retry-after hint', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      const quotas = new ToolQuotaProvider(subscriptions, { rateWindowMs: 60_000 });
+
+      await (await quotas.acquire(call())).release!();
+      vi.advanceTimersByTime(10_000);
+      await (await quotas.acquire(call())).release!();
+
+      const denied = await quotas.acquire(call());
+      expect(denied).toMatchObject({
+        allowed: false,
+        code: 'RATE_LIMITED',
+        tier: 'free',
+        limit: 2,
+        current: 2,
+        retryAfterMs: 50_000,
+      });
+
+      // Once the first request leaves the window, a new one is admitted
+      vi.advanceTimersByTime(50_000);
+      expect((await quotas.acquire(call())).allowed).toBe(true);
+    });
+
+    it('should track users independently', async () => {
+      const quotas = new ToolQuotaProvider(subscriptions);
+      await quotas.acquire(call('a'));
+      await quotas.acquire(call('a'));
+
+      expect((await quotas.acquire(call('a'))).allowed).toBe(false);
+      expect((await quotas.acquire(call('b'))).allowed).toBe(true);
+    });
+
+    it('should not limit tiers without limits', async () => {
+      subscriptions.setUserTier('user123', 'unlimited');
+      const quotas = new ToolQuotaProvider(subscriptions);
+
+      for (let i = 0; i < 10; i++) {
+        expect((await quotas.acquire(call())).allowed).toBe(true);
+      }
+    });
+  });
+
+  describe('Concurrency caps', () => {
+    it('should cap in-flight calls until they are released', async () => {
+      const quotas = new ToolQuotaProvider(subscriptions);
+
+      const first = await quotas.acquire(call());
+      const second = await quotas.acquire(call());
+      expect(second).toMatchObject({ allowed: false, code: 'CONCURRENCY_LIMITED', limit: 1, current: 1 });
+      expect(second.retryAfterMs).toBeGreaterThan(0);
+
+      await first.release!();
+      expect((await quotas.acquire(call())).allowed).toBe(true);
+    });
+
+    it('should not consume rate budget when denied for concurrency', async () => {
+      const quotas = new ToolQuotaProvider(subscriptions);
+      const held = await quotas.acquire(call());
+      await quotas.acquire(call());
+
+      expect((await quotas.getUsage('user123')).requests).toBe(1);
+      await held.release!();
+    });
+
+    it('should free slots of callers that never release', async () => {
+      vi.useFakeTimers();
+      const quotas = new ToolQuotaProvider(subscriptions, { slotTtlMs: 1000, rateWindowMs: 10 });
+
+      await quotas.acquire(call());
+      vi.advanceTimersByTime(1001);
+      expect((await quotas.acquire(call())).allowed).toBe(true);
+    });
+
+    it('should release the slot after runWithQuota settles, even on failure', async () => {
+      subscriptions.setUserTier('user123', 'pro');
+      const quotas = new ToolQuotaProvider(subscriptions);
+
+      await expect(
+        quotas.runWithQuota(call(), async () => {
+          throw new Error('tool failed');
+        }),
+      ).rejects.toThrow('tool failed');
+
+      const ok = await quotas.runWithQuota(call(), async () => 42);
+      expect(ok).toEqual({ allowed: true, result: 42 });
+      expect((await quotas.getUsage('user123')).inFlight).toBe(0);
+    });
+  });
+
+  it('should deny users without a subscription', async () => {
+    const noTiers = new SubscriptionAdapter({ defaultTier: 'missing', tiers: [] });
+    const quotas = new ToolQuotaProvider(noTiers);
+
+    expect(await quotas.acquire(call())).toMatchObject({ allowed: false, code: 'NO_SUBSCRIPTION' });
+  });
+
+  describe('SqliteQuotaStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'agentos-quota-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep limits across restarts', async () => {
+      const filePath = path.join(dir, 'quota.db');
+      const first = new SqliteQuotaStore({ filePath });
+      const quotas = new ToolQuotaProvider(subscriptions, { store: first });
+      await (await quotas.acquire(call())).release!();
+      await (await quotas.acquire(call())).release!();
+      await first.close();
+
+      const second = new SqliteQuotaStore({ filePath });
+      const restarted = new ToolQuotaProvider(subscriptions, { store: second });
+      expect(await restarted.acquire(call())).toMatchObject({ allowed: false, code: 'RATE_LIMITED' });
+      await second.close();
+    });
+
+    it('should enforce concurrency through the store', async () => {
+      const store = new SqliteQuotaStore({ filePath: path.join(dir, 'quota.db') });
+      const quotas = new ToolQuotaProvider(subscriptions, { store });
+
+      const held = await quotas.acquire(call());
+      expect((await quotas.acquire(call())).code).toBe('CONCURRENCY_LIMITED');
+      await held.release!();
+      expect((await quotas.getUsage('user123')).inFlight).toBe(0);
+      await store.close();
+    });
+  });
+});
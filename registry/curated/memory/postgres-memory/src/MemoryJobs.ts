@@ -0,0 +1,360 @@
+// @ts-nocheck
+/**
+ * @fileoverview Background maintenance jobs for the postgres-memory store.
+ *
+ * - **expire**: retires `prospective` memories whose due time has passed.
+ * - **dedupe**: merges near-duplicate episodic records into the oldest one.
+ * - **summarize**: clusters old episodic records by similarity and replaces
+ *   each large enough cluster with one semantic summary record.
+ * - **decay**: recomputes every active record's decay score from its age
+ *   (since last access) and importance; retrieval ranking is weighted by it.
+ *
+ * Similarity is cosine similarity of embeddings when both records have one
+ * of the same dimension, otherwise Jaccard similarity of their word sets.
+ * Every job writes its changes and audit entries in one transaction, so the
+ * audit trail always matches what was merged, summarised or expired.
+ *
+ * @module postgres-memory/MemoryJobs
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import {
+  cosineSimilarity,
+  type MemoryAuditEntry,
+  type MemoryJobChanges,
+  type MemoryRecordRow,
+  type SqlMemoryStore,
+  type StoredMemoryRecord,
+} from './SqlMemoryStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MemoryJobName = 'expire' | 'dedupe' | 'summarize' | 'decay';
+
+export interface MemoryJobOptions {
+  /** Interval between scheduled runs of every job (default: 1 hour; 0 disables scheduling). */
+  intervalMs?: number;
+  /** Similarity at or above which episodic records are merged (default 0.95). */
+  duplicateThreshold?: number;
+  /** Episodic records older than this are summarised (default 7 days). */
+  summarizeAfterDays?: number;
+  /** Similarity to a cluster's first record needed to join it (default 0.8). */
+  clusterThreshold?: number;
+  /** Smallest cluster worth summarising (default 3). */
+  minClusterSize?: number;
+  /** Days for an importance-0 record's decay score to halve (default 30). */
+  halfLifeDays?: number;
+  /** Writes the summary text for a cluster (default: the records' contents as a list). */
+  summarize?: (records: MemoryRecordRow[]) => Promise<string>;
+  /** Embeds summary text (default: the normalised mean of the source embeddings). */
+  embed?: (text: string) => Promise<number[]>;
+  /** Clock, for tests. */
+  now?: () => Date;
+}
+
+export interface MemoryJobReport {
+  runId: string;
+  job: MemoryJobName;
+  /** Records merged, summarised, expired or re-scored. */
+  affected: number;
+}
+
+/**
+ * Decay score in (0, 1]: halves every `halfLifeDays`, stretched up to
+ * threefold for importance 1. Age counts from the last retrieval, or from
+ * creation for records never retrieved.
+ */
+export function computeDecayScore(
+  record: Pick<MemoryRecordRow, 'createdAt' | 'lastAccessedAt' | 'importance'>,
+  now: Date,
+  halfLifeDays = 30,
+): number {
+  const since = Date.parse(record.lastAccessedAt ?? record.createdAt);
+  const ageDays = Math.max(0, (now.getTime() - since) / DAY_MS);
+  const importance = Math.max(0, Math.min(1, record.importance ?? 0.5));
+  return 0.5 ** (ageDays / (halfLifeDays * (1 + 2 * importance)));
+}
+
+/**
+ * Runs the maintenance jobs against a {@link SqlMemoryStore}, on demand or
+ * on a timer started with {@link MemoryJobRunner.start}.
+ */
+export class MemoryJobRunner {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<MemoryJobReport[]> | null = null;
+
+  constructor(
+    private store: SqlMemoryStore,
+    private options: MemoryJobOptions = {},
+  ) {}
+
+  /**
+   * Run every job in order: expire, dedupe, summarize, decay. Overlapping
+   * calls share the run in progress.
+   */
+  runAll(): Promise<MemoryJobReport[]> {
+    if (!this.running) {
+      this.running = (async () => {
+        const runId = randomUUID();
+        return [
+          await this.expireProspective(runId),
+          await this.dedupeEpisodic(runId),
+          await this.summarizeEpisodic(runId),
+          await this.applyDecay(runId),
+        ];
+      })().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Run a single job by name. */
+  run(job: MemoryJobName): Promise<MemoryJobReport> {
+    switch (job) {
+      case 'expire': return this.expireProspective();
+      case 'dedupe': return this.dedupeEpisodic();
+      case 'summarize': return this.summarizeEpisodic();
+      case 'decay': return this.applyDecay();
+      default: throw new Error(`Unknown memory job "${job}"`);
+    }
+  }
+
+  /** Retire prospective memories that are past due. */
+  async expireProspective(runId = randomUUID()): Promise<MemoryJobReport> {
+    const now = this.now();
+    const due = await this.store.listRecords({ type: 'prospective', expiresBy: now.toISOString() });
+
+    await this.commit({
+      retire: [{ ids: due.map((record) => record.id), status: 'expired' }],
+      audit: due.map((record) =>
+        this.audit(runId, 'expire', 'expired', record, { details: { expiresAt: record.expiresAt } })),
+    });
+    return { runId, job: 'expire', affected: due.length };
+  }
+
+  /**
+   * Merge near-duplicate episodic records, per collection, into the oldest
+   * of them. The survivor keeps the highest importance and the summed
+   * access count. Pairwise, so quadratic in the number of episodic records.
+   */
+  async dedupeEpisodic(runId = randomUUID()): Promise<MemoryJobReport> {
+    const threshold = this.options.duplicateThreshold ?? 0.95;
+    const changes: Required<Pick<MemoryJobChanges, 'retire' | 'update' | 'audit'>> = {
+      retire: [], update: [], audit: [],
+    };
+    let affected = 0;
+
+    const records = await this.store.listRecords({ type: 'episodic' });
+    for (const group of groupByCollection(records)) {
+      const kept: Array<{ record: MemoryRecordRow; duplicates: Array<{ record: MemoryRecordRow; similarity: number }> }> = [];
+      for (const record of group) {
+        let best: { entry: (typeof kept)[number]; similarity: number } | null = null;
+        for (const entry of kept) {
+          const similarity = recordSimilarity(entry.record, record);
+          if (similarity >= threshold && (!best || similarity > best.similarity)) best = { entry, similarity };
+        }
+        if (best) best.entry.duplicates.push({ record, similarity: best.similarity });
+        else kept.push({ record, duplicates: [] });
+      }
+
+      for (const { record: survivor, duplicates } of kept) {
+        if (duplicates.length === 0) continue;
+        const merged = duplicates.map((d) => d.record);
+        changes.retire.push({ ids: merged.map((r) => r.id), status: 'merged', consolidatedInto: survivor.id });
+        changes.update.push({
+          id: survivor.id,
+          importance: Math.max(survivor.importance, ...merged.map((r) => r.importance)),
+          accessCount: merged.reduce((sum, r) => sum + r.accessCount, survivor.accessCount),
+        });
+        for (const { record, similarity } of duplicates) {
+          changes.audit.push(this.audit(runId, 'dedupe', 'merged', record, {
+            targetId: survivor.id,
+            details: { similarity, content: record.content },
+          }));
+        }
+        affected += merged.length;
+      }
+    }
+
+    await this.commit(changes);
+    return { runId, job: 'dedupe', affected };
+  }
+
+  /**
+   * Replace clusters of old episodic records with semantic summaries. A
+   * record joins the first cluster whose seed (oldest record) is similar
+   * enough; clusters below `minClusterSize` are left alone.
+   */
+  async summarizeEpisodic(runId = randomUUID()): Promise<MemoryJobReport> {
+    const now = this.now();
+    const threshold = this.options.clusterThreshold ?? 0.8;
+    const minSize = this.options.minClusterSize ?? 3;
+    const cutoff = new Date(now.getTime() - (this.options.summarizeAfterDays ?? 7) * DAY_MS);
+    const changes: Required<Pick<MemoryJobChanges, 'insert' | 'retire' | 'audit'>> = {
+      insert: [], retire: [], audit: [],
+    };
+    let affected = 0;
+
+    const records = await this.store.listRecords({ type: 'episodic', createdBefore: cutoff.toISOString() });
+    for (const group of groupByCollection(records)) {
+      const clusters: MemoryRecordRow[][] = [];
+      for (const record of group) {
+        const cluster = clusters.find((c) => recordSimilarity(c[0], record) >= threshold);
+        if (cluster) cluster.push(record);
+        else clusters.push([record]);
+      }
+
+      for (const cluster of clusters) {
+        if (cluster.length < minSize) continue;
+        const summary = await this.buildSummary(cluster, now);
+        changes.insert.push(summary);
+        changes.retire.push({ ids: cluster.map((r) => r.id), status: 'summarized', consolidatedInto: summary.id });
+        changes.audit.push(this.audit(runId, 'summarize', 'created', summary, {
+          details: { sourceIds: cluster.map((r) => r.id) },
+        }));
+        for (const record of cluster) {
+          changes.audit.push(this.audit(runId, 'summarize', 'summarized', record, { targetId: summary.id }));
+        }
+        affected += cluster.length;
+      }
+    }
+
+    await this.commit(changes);
+    return { runId, job: 'summarize', affected };
+  }
+
+  /** Recompute decay scores of all active records; only changed scores are written. */
+  async applyDecay(runId = randomUUID()): Promise<MemoryJobReport> {
+    const now = this.now();
+    const halfLifeDays = this.options.halfLifeDays ?? 30;
+
+    const update = [];
+    for (const record of await this.store.listRecords()) {
+      const decayScore = computeDecayScore(record, now, halfLifeDays);
+      if (Math.abs(decayScore - record.decayScore) >= 1e-4) update.push({ id: record.id, decayScore });
+    }
+
+    await this.commit({
+      update,
+      audit: update.length > 0
+        ? [{ runId, job: 'decay', action: 'decayed', details: { updated: update.length, halfLifeDays }, createdAt: now.toISOString() }]
+        : [],
+    });
+    return { runId, job: 'decay', affected: update.length };
+  }
+
+  /** Run all jobs every `intervalMs` until {@link stop}; failures are logged and retried next tick. */
+  start(): void {
+    const intervalMs = this.options.intervalMs ?? 60 * 60 * 1000;
+    if (this.timer || intervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.runAll().catch((err) => console.warn('[postgres-memory] Maintenance run failed:', err));
+    }, intervalMs);
+    // Don't keep the process alive just for maintenance
+    this.timer.unref?.();
+  }
+
+  /** Stop the schedule and wait for a run in progress. */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.running?.catch(() => undefined);
+  }
+
+  // ── Internals ──
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date();
+  }
+
+  private async commit(changes: MemoryJobChanges): Promise<void> {
+    const empty = !changes.insert?.length && !changes.update?.length && !changes.audit?.length &&
+      !changes.retire?.some((r) => r.ids.length > 0);
+    if (!empty) await this.store.commitJobChanges(changes);
+  }
+
+  private audit(
+    runId: string,
+    job: MemoryJobName,
+    action: string,
+    record: Pick<StoredMemoryRecord, 'id' | 'collectionId'>,
+    extra: Pick<MemoryAuditEntry, 'targetId' | 'details'> = {},
+  ): MemoryAuditEntry {
+    return {
+      runId,
+      job,
+      action,
+      collectionId: record.collectionId,
+      recordId: record.id,
+      ...extra,
+      createdAt: this.now().toISOString(),
+    };
+  }
+
+  private async buildSummary(cluster: MemoryRecordRow[], now: Date): Promise<StoredMemoryRecord> {
+    const content = this.options.summarize
+      ? await this.options.summarize(cluster)
+      : cluster.map((record) => `- ${record.content}`).join('\n');
+    const embedding = this.options.embed
+      ? await this.options.embed(content)
+      : meanEmbedding(cluster);
+    const period = { from: cluster[0].createdAt, to: cluster[cluster.length - 1].createdAt };
+    const timestamp = now.toISOString();
+
+    return {
+      id: randomUUID(),
+      collectionId: cluster[0].collectionId,
+      type: 'semantic',
+      content,
+      data: { type: 'semantic', content, sourceIds: cluster.map((r) => r.id), period },
+      embedding,
+      importance: Math.max(...cluster.map((r) => r.importance)),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+  }
+}
+
+function groupByCollection(records: MemoryRecordRow[]): MemoryRecordRow[][] {
+  const groups = new Map<string, MemoryRecordRow[]>();
+  for (const record of records) {
+    const group = groups.get(record.collectionId);
+    if (group) group.push(record);
+    else groups.set(record.collectionId, [record]);
+  }
+  return [...groups.values()];
+}
+
+function recordSimilarity(a: MemoryRecordRow, b: MemoryRecordRow): number {
+  if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  return jaccard(words(a.content), words(b.content));
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Unit-length mean of the records' embeddings, if they all share a dimension. */
+function meanEmbedding(records: MemoryRecordRow[]): number[] | undefined {
+  const dims = records[0].embedding?.length;
+  if (!dims || records.some((r) => r.embedding?.length !== dims)) return undefined;
+
+  const sum = new Array<number>(dims).fill(0);
+  for (const record of records) {
+    const norm = Math.hypot(...record.embedding!) || 1;
+    record.embedding!.forEach((value, i) => { sum[i] += value / norm; });
+  }
+  const norm = Math.hypot(...sum) || 1;
+  return sum.map((value) => value / norm);
+}
@@ -0,0 +1,473 @@
+// @ts-nocheck
+/**
+ * @fileoverview SQL-backed memory record store (via @framers/sql-storage-adapter).
+ *
+ * Runs against Postgres + pgvector when a connection string is configured,
+ * otherwise against an embedded SQLite database (in-memory unless a file is
+ * given), which is meant for local development and tests. Cosine-similarity
+ * ranking happens in SQL with pgvector and in process on SQLite; both apply
+ * the same collection and memory-type filters.
+ *
+ * Only `active` records are retrieved. The maintenance jobs (see
+ * `MemoryJobRunner`) retire records as `merged`, `summarized` or `expired`
+ * and keep each record's decay score, which weights retrieval ranking; their
+ * changes and audit entries are written together by
+ * {@link SqlMemoryStore.commitJobChanges}.
+ *
+ * @module postgres-memory/SqlMemoryStore
+ */
+
+import { createDatabase, createSqlJsAdapter } from '@framers/sql-storage-adapter';
+
+import { migrateMemorySchema, type MemorySqlDialect } from './migrations.js';
+
+export type SupportedMemoryType =
+  | 'episodic'
+  | 'semantic'
+  | 'procedural'
+  | 'prospective'
+  | 'relational';
+
+/** Lifecycle state of a record; only `active` records are retrieved. */
+export type MemoryRecordStatus = 'active' | 'merged' | 'summarized' | 'expired';
+
+export interface StoredMemoryRecord {
+  id: string;
+  collectionId: string;
+  type: SupportedMemoryType;
+  content: string;
+  data: unknown;
+  embedding?: number[];
+  /** 0–1, slows decay (default 0.5). */
+  importance?: number;
+  /** When a `prospective` memory falls due; it expires once this passes. */
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A record as read back by the maintenance jobs. */
+export interface MemoryRecordRow extends StoredMemoryRecord {
+  status: MemoryRecordStatus;
+  importance: number;
+  decayScore: number;
+  accessCount: number;
+  lastAccessedAt?: string;
+  /** The record this one was merged or summarised into. */
+  consolidatedInto?: string;
+}
+
+/** A record returned by {@link SqlMemoryStore.search}. */
+export interface MemorySearchHit extends Omit<StoredMemoryRecord, 'embedding' | 'expiresAt'> {
+  importance: number;
+  decayScore: number;
+  /** Cosine similarity to the query embedding; absent for text matches. */
+  similarity?: number;
+  /** Ranking score, similarity times decay score; absent for text matches. */
+  score?: number;
+}
+
+export interface MemorySearchOptions {
+  collectionId: string;
+  type?: SupportedMemoryType;
+  /** Case-insensitive substring filter, used when no embedding is given. */
+  text?: string;
+  /** Rank by cosine similarity to this vector instead of matching text. */
+  embedding?: number[];
+  limit: number;
+}
+
+export interface MemoryRecordFilter {
+  collectionId?: string;
+  type?: SupportedMemoryType;
+  /** Default `active`. */
+  status?: MemoryRecordStatus;
+  /** Only records created before this ISO timestamp. */
+  createdBefore?: string;
+  /** Only records due at or before this ISO timestamp. */
+  expiresBy?: string;
+}
+
+/** One line of the maintenance audit trail. */
+export interface MemoryAuditEntry {
+  runId: string;
+  job: string;
+  /** `merged`, `summarized`, `created`, `expired` or `decayed`. */
+  action: string;
+  collectionId?: string;
+  /** The record acted on. */
+  recordId?: string;
+  /** The record it was merged or summarised into. */
+  targetId?: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface MemoryAuditFilter {
+  runId?: string;
+  job?: string;
+  /** Entries where the record was acted on or was the merge target. */
+  recordId?: string;
+  /** Default 100. */
+  limit?: number;
+}
+
+/** Writes produced by one maintenance job, applied in a single transaction. */
+export interface MemoryJobChanges {
+  insert?: StoredMemoryRecord[];
+  retire?: Array<{ ids: string[]; status: Exclude<MemoryRecordStatus, 'active'>; consolidatedInto?: string }>;
+  update?: Array<{ id: string; importance?: number; accessCount?: number; decayScore?: number }>;
+  audit?: MemoryAuditEntry[];
+}
+
+export interface SqlMemoryStoreOptions {
+  /** Postgres connection string; when absent the SQLite fallback is used. */
+  connectionString?: string;
+  /** SQLite database file for the fallback (default: in memory). */
+  sqliteFile?: string;
+  /**
+   * Pre-opened sql-storage-adapter instance, or a function that opens it on
+   * first use. The store never closes an adapter it was given.
+   */
+  adapter?: any | (() => Promise<any>);
+}
+
+/**
+ * Persists memory records with optional embeddings. Every method opens the
+ * database and applies pending migrations on first use.
+ */
+export class SqlMemoryStore {
+  private db: any = null;
+  private dialect: MemorySqlDialect = 'sqlite';
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqlMemoryStoreOptions = {}) {}
+
+  /** Open the database and apply pending migrations. */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        this.db = await this.open();
+        this.dialect = this.db.kind === 'postgres' ? 'postgres' : 'sqlite';
+        await migrateMemorySchema(this.db, this.dialect);
+      })().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async insert(record: StoredMemoryRecord): Promise<void> {
+    await this.initialize();
+    await insertRecord(this.db, record);
+  }
+
+  /**
+   * Active records in a collection, optionally of one memory type. With an
+   * embedding they are ranked by cosine similarity times decay score
+   * (records without a same-dimension embedding are skipped); otherwise
+   * they are filtered by text and ranked by decay score, oldest first on
+   * ties. Returned records count as accessed, which resets their decay.
+   */
+  async search(options: MemorySearchOptions): Promise<MemorySearchHit[]> {
+    await this.initialize();
+
+    const where = ['collection_id = ?', "status = 'active'"];
+    const params: unknown[] = [options.collectionId];
+    if (options.type) { where.push('type = ?'); params.push(options.type); }
+
+    let hits: MemorySearchHit[];
+    if (options.embedding?.length) {
+      hits = this.dialect === 'postgres'
+        ? await this.searchPgvector(where, params, options.embedding, options.limit)
+        : await this.searchInProcess(where, params, options.embedding, options.limit);
+    } else {
+      if (options.text) {
+        where.push("LOWER(content) LIKE ? ESCAPE '\\'");
+        params.push(`%${options.text.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`);
+      }
+      const rows = await this.db.all(
+        `SELECT * FROM memory_records WHERE ${where.join(' AND ')}
+         ORDER BY decay_score DESC, seq LIMIT ?`,
+        [...params, options.limit],
+      );
+      hits = rows.map(toHit);
+    }
+
+    await this.touch(hits.map((hit) => hit.id));
+    return hits;
+  }
+
+  /** Records matching `filter`, oldest first, including embeddings and maintenance columns. */
+  async listRecords(filter: MemoryRecordFilter = {}): Promise<MemoryRecordRow[]> {
+    await this.initialize();
+
+    const where = ['status = ?'];
+    const params: unknown[] = [filter.status ?? 'active'];
+    if (filter.collectionId) { where.push('collection_id = ?'); params.push(filter.collectionId); }
+    if (filter.type) { where.push('type = ?'); params.push(filter.type); }
+    if (filter.createdBefore) { where.push('created_at < ?'); params.push(filter.createdBefore); }
+    if (filter.expiresBy) { where.push('expires_at IS NOT NULL AND expires_at <= ?'); params.push(filter.expiresBy); }
+
+    const rows = await this.db.all(
+      `SELECT * FROM memory_records WHERE ${where.join(' AND ')} ORDER BY seq`,
+      params,
+    );
+    return rows.map(toRow);
+  }
+
+  /** Apply one maintenance job's inserts, retirements, updates and audit entries atomically. */
+  async commitJobChanges(changes: MemoryJobChanges): Promise<void> {
+    await this.initialize();
+    const now = new Date().toISOString();
+
+    await this.db.transaction(async (trx: any) => {
+      for (const record of changes.insert ?? []) {
+        await insertRecord(trx, record);
+      }
+      for (const { ids, status, consolidatedInto } of changes.retire ?? []) {
+        if (ids.length === 0) continue;
+        await trx.run(
+          `UPDATE memory_records SET status = ?, consolidated_into = ?, updated_at = ?
+           WHERE id IN (${ids.map(() => '?').join(', ')})`,
+          [status, consolidatedInto ?? null, now, ...ids],
+        );
+      }
+      for (const { id, importance, accessCount, decayScore } of changes.update ?? []) {
+        await trx.run(
+          `UPDATE memory_records SET
+             importance = COALESCE(?, importance),
+             access_count = COALESCE(?, access_count),
+             decay_score = COALESCE(?, decay_score)
+           WHERE id = ?`,
+          [importance ?? null, accessCount ?? null, decayScore ?? null, id],
+        );
+      }
+      for (const entry of changes.audit ?? []) {
+        await trx.run(
+          `INSERT INTO memory_job_audit
+             (run_id, job, action, collection_id, record_id, target_id, details, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            entry.runId,
+            entry.job,
+            entry.action,
+            entry.collectionId ?? null,
+            entry.recordId ?? null,
+            entry.targetId ?? null,
+            entry.details ? JSON.stringify(entry.details) : null,
+            entry.createdAt,
+          ],
+        );
+      }
+    });
+  }
+
+  /** Maintenance audit entries matching `filter`, newest first. */
+  async listAudit(filter: MemoryAuditFilter = {}): Promise<MemoryAuditEntry[]> {
+    await this.initialize();
+
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (filter.runId) { where.push('run_id = ?'); params.push(filter.runId); }
+    if (filter.job) { where.push('job = ?'); params.push(filter.job); }
+    if (filter.recordId) {
+      where.push('(record_id = ? OR target_id = ?)');
+      params.push(filter.recordId, filter.recordId);
+    }
+
+    const rows = await this.db.all(
+      `SELECT * FROM memory_job_audit
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY seq DESC LIMIT ?`,
+      [...params, filter.limit ?? 100],
+    );
+    return rows.map(toAuditEntry);
+  }
+
+  async delete(collectionId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.initialize();
+    await this.db.run(
+      `DELETE FROM memory_records WHERE collection_id = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+      [collectionId, ...ids],
+    );
+  }
+
+  /** Counts of active records. */
+  async getStats(): Promise<{ collections: number; documents: number; size: number }> {
+    await this.initialize();
+    const row = await this.db.get(
+      `SELECT COUNT(DISTINCT collection_id) AS collections, COUNT(*) AS documents
+       FROM memory_records WHERE status = 'active'`,
+    );
+    const documents = Number(row?.documents ?? 0);
+    return { collections: Number(row?.collections ?? 0), documents, size: documents };
+  }
+
+  async close(): Promise<void> {
+    if (this.db && !this.options.adapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+
+  // ── Internals ──
+
+  private async open(): Promise<any> {
+    if (typeof this.options.adapter === 'function') return this.options.adapter();
+    if (this.options.adapter) return this.options.adapter;
+    if (this.options.connectionString) {
+      return createDatabase({ type: 'postgres', url: this.options.connectionString });
+    }
+    if (this.options.sqliteFile) return createDatabase({ file: this.options.sqliteFile });
+
+    try {
+      return await createDatabase({ type: 'memory' });
+    } catch {
+      // No native SQLite; sql.js would write a file literally named ":memory:", so open it without a path
+      const db = createSqlJsAdapter();
+      await db.open();
+      return db;
+    }
+  }
+
+  /** Mark records as just retrieved; decay is measured from the last access. */
+  private async touch(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.run(
+      `UPDATE memory_records SET last_accessed_at = ?, access_count = access_count + 1
+       WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      [new Date().toISOString(), ...ids],
+    );
+  }
+
+  private async searchPgvector(
+    where: string[],
+    params: unknown[],
+    embedding: number[],
+    limit: number,
+  ): Promise<MemorySearchHit[]> {
+    const vector = encodeVector(embedding);
+    const rows = await this.db.all(
+      `SELECT *, 1 - (embedding <=> ?::vector) AS similarity
+       FROM memory_records
+       WHERE ${where.join(' AND ')} AND embedding IS NOT NULL AND vector_dims(embedding) = ?
+       ORDER BY (1 - (embedding <=> ?::vector)) * decay_score DESC, seq
+       LIMIT ?`,
+      [vector, ...params, embedding.length, vector, limit],
+    );
+    return rows.map((row: any) => withSimilarity(toHit(row), Number(row.similarity)));
+  }
+
+  private async searchInProcess(
+    where: string[],
+    params: unknown[],
+    embedding: number[],
+    limit: number,
+  ): Promise<MemorySearchHit[]> {
+    const rows = await this.db.all(
+      `SELECT * FROM memory_records WHERE ${where.join(' AND ')} AND embedding IS NOT NULL ORDER BY seq`,
+      params,
+    );
+
+    const scored: MemorySearchHit[] = [];
+    for (const row of rows) {
+      const candidate = JSON.parse(row.embedding) as number[];
+      if (candidate.length !== embedding.length) continue;
+      scored.push(withSimilarity(toHit(row), cosineSimilarity(embedding, candidate)));
+    }
+    // Array#sort is stable, so equal scores keep insertion order
+    return scored.sort((a, b) => b.score! - a.score!).slice(0, limit);
+  }
+}
+
+/** Cosine similarity in [-1, 1]; 0 when either vector has zero length. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** pgvector's text format and SQLite's JSON column happen to coincide. */
+function encodeVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/** Insert through the adapter or inside a transaction. */
+async function insertRecord(db: any, record: StoredMemoryRecord): Promise<void> {
+  await db.run(
+    `INSERT INTO memory_records
+       (id, collection_id, type, content, data, embedding, importance, expires_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      record.id,
+      record.collectionId,
+      record.type,
+      record.content,
+      JSON.stringify(record.data ?? null),
+      record.embedding ? encodeVector(record.embedding) : null,
+      record.importance ?? 0.5,
+      record.expiresAt ?? null,
+      record.createdAt,
+      record.updatedAt,
+    ],
+  );
+}
+
+/** JSONB comes back parsed from Postgres, TEXT as a string from SQLite. */
+function parseJson(value: unknown): any {
+  return typeof value === 'string' ? JSON.parse(value) : value ?? null;
+}
+
+function withSimilarity(hit: MemorySearchHit, similarity: number): MemorySearchHit {
+  return { ...hit, similarity, score: similarity * hit.decayScore };
+}
+
+function toHit(row: any): MemorySearchHit {
+  return {
+    id: row.id,
+    type: row.type,
+    content: row.content,
+    collectionId: row.collection_id,
+    data: parseJson(row.data),
+    importance: Number(row.importance),
+    decayScore: Number(row.decay_score),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRow(row: any): MemoryRecordRow {
+  return {
+    ...toHit(row),
+    // pgvector returns its "[1,2,3]" text form, which parses as JSON too
+    embedding: row.embedding ? (parseJson(row.embedding) as number[]) : undefined,
+    expiresAt: row.expires_at ?? undefined,
+    status: row.status,
+    accessCount: Number(row.access_count),
+    lastAccessedAt: row.last_accessed_at ?? undefined,
+    consolidatedInto: row.consolidated_into ?? undefined,
+  };
+}
+
+function toAuditEntry(row: any): MemoryAuditEntry {
+  return {
+    runId: row.run_id,
+    job: row.job,
+    action: row.action,
+    collectionId: row.collection_id ?? undefined,
+    recordId: row.record_id ?? undefined,
+    targetId: row.target_id ?? undefined,
+    details: parseJson(row.details) ?? undefined,
+    createdAt: row.created_at,
+  };
+}
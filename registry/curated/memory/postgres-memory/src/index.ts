@@ -3,13 +3,26 @@
  * @packageDocumentation
  * @module @framers/agentos-ext-postgres-memory
  *
- * Wilds foundation memory provider for AgentOS.
+ * Wilds memory provider for AgentOS backed by Postgres + pgvector.
  *
- * The long-term target is a Postgres + pgvector-backed provider using
- * @framers/sql-storage-adapter. This foundation implementation already exposes
- * a real `memory-provider` descriptor and a deterministic in-process store so
- * the extension can register, execute, and be validated before the SQL layer
- * is wired in.
+ * Records are persisted through @framers/sql-storage-adapter (see
+ * {@link SqlMemoryStore}). When no Postgres connection string is configured
+ * the provider falls back to an embedded SQLite database, in memory unless
+ * `sqliteFile` is set, so it also runs in local development and tests.
+ *
+ * Records carry an optional embedding, taken from `data.embedding` or
+ * computed with the configured `embed` function. Queries with an embedding
+ * (given directly or embedded from the query text) are ranked by cosine
+ * similarity; without one they fall back to substring matching. Both are
+ * filtered by collection and {@link SupportedMemoryType}, and weighted by
+ * each record's decay score.
+ *
+ * A {@link MemoryJobRunner} runs hourly by default (configure or disable it
+ * with the `maintenance` option): it expires past-due `prospective` memories
+ * (due time from `data.dueAt`), merges near-duplicate episodic records,
+ * summarises old episodic clusters into semantic records, and decays scores
+ * by age and `data.importance` (0–1). Every change is recorded in an audit
+ * trail, readable through `getAuditTrail()`.
  */
 
 import { randomUUID } from 'node:crypto';
@@ -22,21 +35,24 @@ import {
   type MemoryProviderPayload,
 } from '@framers/agentos';
 
-type SupportedMemoryType =
-  | 'episodic'
-  | 'semantic'
-  | 'procedural'
-  | 'prospective'
-  | 'relational';
-
-interface StoredMemoryRecord {
-  id: string;
-  collectionId: string;
-  type: SupportedMemoryType;
-  content: string;
-  data: unknown;
-  createdAt: string;
-  updatedAt: string;
+import { MemoryJobRunner, type MemoryJobName, type MemoryJobOptions } from './MemoryJobs.js';
+import {
+  SqlMemoryStore,
+  type MemoryAuditFilter,
+  type SupportedMemoryType,
+} from './SqlMemoryStore.js';
+
+/** Turns text into an embedding vector (e.g. an embedding model client). */
+type EmbedFn = (text: string) => Promise<number[]>;
+
+interface PostgresMemoryOptions {
+  priority?: number;
+  /** Embedding function used for records and text queries without vectors. */
+  embed?: EmbedFn;
+  /** SQLite file for the fallback store (default: in-memory). */
+  sqliteFile?: string;
+  /** Maintenance job settings, or `false` to never run them on a schedule. */
+  maintenance?: MemoryJobOptions | false;
 }
 
 function extractMemoryType(data: unknown): SupportedMemoryType {
@@ -77,7 +93,55 @@ function extractSearchableText(data: unknown): string {
   return JSON.stringify(data);
 }
 
-function parseQuery(query: unknown): { text: string; type?: SupportedMemoryType; limit: number } {
+function extractImportance(data: unknown): number | undefined {
+  const candidate =
+    typeof data === 'object' && data !== null ? (data as { importance?: unknown }).importance : undefined;
+  return typeof candidate === 'number' && Number.isFinite(candidate)
+    ? Math.max(0, Math.min(1, candidate))
+    : undefined;
+}
+
+/** When a prospective memory falls due, normalised to an ISO timestamp. */
+function extractDueAt(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const { dueAt, triggerAt, remindAt, expiresAt } = data as Record<string, unknown>;
+  const candidate = dueAt ?? triggerAt ?? remindAt ?? expiresAt;
+  if (typeof candidate !== 'string' && typeof candidate !== 'number' && !(candidate instanceof Date)) {
+    return undefined;
+  }
+  const time = new Date(candidate).getTime();
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function toVector(candidate: unknown): number[] | undefined {
+  return Array.isArray(candidate) &&
+    candidate.length > 0 &&
+    candidate.every((n) => typeof n === 'number' && Number.isFinite(n))
+    ? candidate
+    : undefined;
+}
+
+function extractEmbedding(data: unknown): number[] | undefined {
+  return typeof data === 'object' && data !== null
+    ? toVector((data as { embedding?: unknown }).embedding)
+    : undefined;
+}
+
+/** The caller's data without its embedding, which is stored in its own column. */
+function withoutEmbedding(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null || Array.isArray(data) || !('embedding' in data)) {
+    return data;
+  }
+  const { embedding: _embedding, ...rest } = data as Record<string, unknown>;
+  return rest;
+}
+
+function parseQuery(query: unknown): {
+  text: string;
+  type?: SupportedMemoryType;
+  embedding?: number[];
+  limit: number;
+} {
   if (typeof query === 'string') {
     return { text: query.trim(), limit: 10 };
   }
@@ -103,6 +167,9 @@ function parseQuery(query: unknown): { text: string; type?: SupportedMemoryType;
     return {
       text: text.trim(),
       type: typeCandidate,
+      embedding: toVector(
+        (query as { embedding?: unknown }).embedding ?? (query as { vector?: unknown }).vector,
+      ),
       limit: limitCandidate,
     };
   }
@@ -113,23 +180,31 @@ function parseQuery(query: unknown): { text: string; type?: SupportedMemoryType;
 /**
  * Creates the postgres-memory extension pack.
  *
- * The provider accepts Postgres configuration, but currently stores records in
- * memory until the real sql-storage-adapter + pgvector layer is implemented.
+ * The connection string comes from `initialize({ connectionString })`, the
+ * `POSTGRES_CONNECTION_STRING` secret, or the `POSTGRES_CONNECTION_STRING` /
+ * `DATABASE_URL` environment variables; without one, records go to SQLite.
  */
 export function createExtensionPack(
-  context: ExtensionContext<{ priority?: number }> = {},
+  context: ExtensionContext<PostgresMemoryOptions> = {},
 ): ExtensionPack {
-  const collections = new Map<string, Map<string, StoredMemoryRecord>>();
   let connectionString =
     context.getSecret?.('POSTGRES_CONNECTION_STRING') ??
     process.env['POSTGRES_CONNECTION_STRING'] ??
     process.env['DATABASE_URL'] ??
     undefined;
+  let sqliteFile = context.options?.sqliteFile;
+  let embed: EmbedFn | undefined = context.options?.embed;
+  let maintenance = context.options?.maintenance;
+  let store = new SqlMemoryStore({ connectionString, sqliteFile });
+  let jobs = new MemoryJobRunner(store, maintenance || {});
+
+  const embedText = async (text: string): Promise<number[] | undefined> =>
+    embed && text ? toVector(await embed(text)) : undefined;
 
   const payload: MemoryProviderPayload = {
     name: 'postgres-memory',
     description:
-      'Wilds foundation memory provider with Postgres configuration hooks and an in-process fallback store.',
+      'Wilds memory provider on Postgres + pgvector with decay-weighted cosine-similarity retrieval, consolidation jobs and an embedded SQLite fallback.',
     supportedTypes: ['episodic', 'semantic', 'procedural', 'prospective', 'relational'],
     initialize: async (config: Record<string, unknown>) => {
       const configured =
@@ -138,73 +213,65 @@ export function createExtensionPack(
           : typeof config.postgresConnectionString === 'string'
             ? config.postgresConnectionString
             : connectionString;
+      if (typeof config.sqliteFile === 'string') sqliteFile = config.sqliteFile;
+      if (typeof config.embed === 'function') embed = config.embed as EmbedFn;
+      if (config.maintenance === false || (typeof config.maintenance === 'object' && config.maintenance !== null)) {
+        maintenance = config.maintenance as MemoryJobOptions | false;
+      }
 
+      // Reopen against the configured database before anything is stored
+      await jobs.stop();
+      await store.close();
       connectionString = configured;
+      store = new SqlMemoryStore({ connectionString, sqliteFile });
+      jobs = new MemoryJobRunner(store, maintenance || {});
+      await store.initialize();
+      if (maintenance !== false) jobs.start();
     },
     store: async (collectionId: string, data: unknown) => {
       const now = new Date().toISOString();
       const id = randomUUID();
-      const record: StoredMemoryRecord = {
+      const content = extractSearchableText(data);
+      const type = extractMemoryType(data);
+
+      await store.insert({
         id,
         collectionId,
-        type: extractMemoryType(data),
-        content: extractSearchableText(data),
-        data,
+        type,
+        content,
+        data: withoutEmbedding(data),
+        embedding: extractEmbedding(data) ?? (await embedText(content)),
+        importance: extractImportance(data),
+        expiresAt: type === 'prospective' ? extractDueAt(data) : undefined,
         createdAt: now,
         updatedAt: now,
-      };
-
-      const collection = collections.get(collectionId) ?? new Map<string, StoredMemoryRecord>();
-      collection.set(id, record);
-      collections.set(collectionId, collection);
+      });
 
       return id;
     },
     query: async (collectionId: string, query: unknown) => {
-      const collection = collections.get(collectionId);
-      if (!collection) return [];
-
       const parsed = parseQuery(query);
-      const normalizedText = parsed.text.toLowerCase();
-
-      return [...collection.values()]
-        .filter((record) => {
-          const matchesText =
-            !normalizedText || record.content.toLowerCase().includes(normalizedText);
-          const matchesType = !parsed.type || record.type === parsed.type;
-          return matchesText && matchesType;
-        })
-        .slice(0, parsed.limit)
-        .map((record) => ({
-          id: record.id,
-          type: record.type,
-          content: record.content,
-          collectionId: record.collectionId,
-          data: record.data,
-          createdAt: record.createdAt,
-          updatedAt: record.updatedAt,
-        }));
-    },
-    delete: async (collectionId: string, ids: string[]) => {
-      const collection = collections.get(collectionId);
-      if (!collection) return;
 
-      ids.forEach((id) => collection.delete(id));
-      if (collection.size === 0) {
-        collections.delete(collectionId);
-      }
+      return store.search({
+        collectionId,
+        type: parsed.type,
+        text: parsed.text,
+        embedding: parsed.embedding ?? (await embedText(parsed.text)),
+        limit: parsed.limit,
+      });
     },
-    getStats: async () => {
-      const documents = [...collections.values()].reduce((sum, collection) => sum + collection.size, 0);
-      return {
-        collections: collections.size,
-        documents,
-        size: documents,
-      };
+    delete: async (collectionId: string, ids: string[]) => {
+      await store.delete(collectionId, ids);
     },
+    getStats: async () => store.getStats(),
     shutdown: async () => {
-      collections.clear();
+      await jobs.stop();
+      await store.close();
     },
+    /** Run one maintenance job, or all of them, now. */
+    runMaintenance: async (job?: MemoryJobName) => (job ? [await jobs.run(job)] : jobs.runAll()),
+    /** What the maintenance jobs merged, summarised, expired or decayed, newest first. */
+    getAuditTrail: async (filter?: MemoryAuditFilter) => store.listAudit(filter),
   };
 
   const descriptor: MemoryProviderDescriptor = {
@@ -214,8 +281,8 @@ export function createExtensionPack(
     enableByDefault: true,
     requiredSecrets: [{ id: 'POSTGRES_CONNECTION_STRING', optional: true }],
     metadata: {
-      implementationStatus: 'foundation-scaffold',
-      storageMode: connectionString ? 'configured-postgres-fallback-store' : 'in-memory-fallback',
+      implementationStatus: 'sql',
+      storageMode: connectionString ? 'postgres-pgvector' : 'sqlite-fallback',
     },
     payload,
   };
@@ -227,4 +294,23 @@ export function createExtensionPack(
   };
 }
 
+export { SqlMemoryStore, cosineSimilarity } from './SqlMemoryStore.js';
+export type {
+  SupportedMemoryType,
+  MemoryRecordStatus,
+  StoredMemoryRecord,
+  MemoryRecordRow,
+  MemorySearchHit,
+  MemorySearchOptions,
+  MemoryRecordFilter,
+  MemoryAuditEntry,
+  MemoryAuditFilter,
+  MemoryJobChanges,
+  SqlMemoryStoreOptions,
+} from './SqlMemoryStore.js';
+export { MemoryJobRunner, computeDecayScore } from './MemoryJobs.js';
+export type { MemoryJobName, MemoryJobOptions, MemoryJobReport } from './MemoryJobs.js';
+export { MEMORY_MIGRATIONS, migrateMemorySchema, getMemorySchemaVersion } from './migrations.js';
+export type { MemoryMigration, MemorySqlDialect } from './migrations.js';
+
 export default createExtensionPack;
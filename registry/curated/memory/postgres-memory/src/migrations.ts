@@ -0,0 +1,163 @@
+// @ts-nocheck
+/**
+ * @fileoverview Versioned schema for the postgres-memory store.
+ *
+ * Every migration carries one script per dialect: Postgres stores embeddings
+ * in a pgvector `vector` column, the embedded SQLite fallback stores them as
+ * JSON text. Migrations are append-only: never edit one that has shipped, add
+ * a new version instead. Applied versions are tracked in
+ * `memory_schema_migrations`.
+ *
+ * @module postgres-memory/migrations
+ */
+
+export type MemorySqlDialect = 'postgres' | 'sqlite';
+
+export interface MemoryMigration {
+  version: number;
+  name: string;
+  postgres: string;
+  sqlite: string;
+}
+
+export const MEMORY_MIGRATIONS: MemoryMigration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    postgres: `
+      CREATE EXTENSION IF NOT EXISTS vector;
+
+      CREATE TABLE IF NOT EXISTS memory_records (
+        seq BIGSERIAL PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        collection_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        data JSONB,
+        -- No fixed dimension so any embedding model can be used; queries only
+        -- compare vectors of the query's dimension
+        embedding vector,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_records_collection_type
+        ON memory_records (collection_id, type, seq);
+    `,
+    sqlite: `
+      CREATE TABLE IF NOT EXISTS memory_records (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        collection_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        data TEXT,
+        -- JSON array of numbers
+        embedding TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_records_collection_type
+        ON memory_records (collection_id, type, seq);
+    `,
+  },
+  {
+    version: 2,
+    name: 'consolidation',
+    postgres: `
+      -- status: active | merged | summarized | expired; only active records are retrieved
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS importance DOUBLE PRECISION NOT NULL DEFAULT 0.5;
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS decay_score DOUBLE PRECISION NOT NULL DEFAULT 1;
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS access_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS last_accessed_at TEXT;
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS expires_at TEXT;
+      ALTER TABLE memory_records ADD COLUMN IF NOT EXISTS consolidated_into TEXT;
+      CREATE INDEX IF NOT EXISTS idx_memory_records_status_type
+        ON memory_records (status, type, collection_id, seq);
+
+      CREATE TABLE IF NOT EXISTS memory_job_audit (
+        seq BIGSERIAL PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        job TEXT NOT NULL,
+        action TEXT NOT NULL,
+        collection_id TEXT,
+        record_id TEXT,
+        target_id TEXT,
+        details JSONB,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_job_audit_run ON memory_job_audit (run_id);
+      CREATE INDEX IF NOT EXISTS idx_memory_job_audit_record ON memory_job_audit (record_id);
+    `,
+    sqlite: `
+      -- status: active | merged | summarized | expired; only active records are retrieved
+      ALTER TABLE memory_records ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+      ALTER TABLE memory_records ADD COLUMN importance REAL NOT NULL DEFAULT 0.5;
+      ALTER TABLE memory_records ADD COLUMN decay_score REAL NOT NULL DEFAULT 1;
+      ALTER TABLE memory_records ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memory_records ADD COLUMN last_accessed_at TEXT;
+      ALTER TABLE memory_records ADD COLUMN expires_at TEXT;
+      ALTER TABLE memory_records ADD COLUMN consolidated_into TEXT;
+      CREATE INDEX IF NOT EXISTS idx_memory_records_status_type
+        ON memory_records (status, type, collection_id, seq);
+
+      CREATE TABLE IF NOT EXISTS memory_job_audit (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        job TEXT NOT NULL,
+        action TEXT NOT NULL,
+        collection_id TEXT,
+        record_id TEXT,
+        target_id TEXT,
+        details TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_job_audit_run ON memory_job_audit (run_id);
+      CREATE INDEX IF NOT EXISTS idx_memory_job_audit_record ON memory_job_audit (record_id);
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the database's current version, each in
+ * its own transaction.
+ *
+ * @returns Versions applied by this call
+ */
+export async function migrateMemorySchema(
+  db: any,
+  dialect: MemorySqlDialect,
+  migrations: MemoryMigration[] = MEMORY_MIGRATIONS,
+): Promise<number[]> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS memory_schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at BIGINT NOT NULL
+    );
+  `);
+
+  const current = await getMemorySchemaVersion(db);
+  const applied: number[] = [];
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= current) continue;
+
+    await db.transaction(async (trx: any) => {
+      await trx.exec(migration[dialect]);
+      await trx.run(
+        'INSERT INTO memory_schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, Date.now()],
+      );
+    });
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
+
+/** Highest migration version applied to the database (0 when none). */
+export async function getMemorySchemaVersion(db: any): Promise<number> {
+  const row = await db.get('SELECT MAX(version) AS version FROM memory_schema_migrations');
+  return Number(row?.version ?? 0);
+}
@@ -0,0 +1,210 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSqlJsAdapter } from '@framers/sql-storage-adapter';
+
+import { SqlMemoryStore } from '../src/SqlMemoryStore';
+import { MemoryJobRunner, computeDecayScore } from '../src/MemoryJobs';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * DAY_MS).toISOString();
+}
+
+function record(id: string, overrides = {}) {
+  return {
+    id,
+    collectionId: 'agent-1',
+    type: 'episodic',
+    content: `memory ${id}`,
+    data: null,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+let db;
+let store: SqlMemoryStore;
+
+beforeEach(async () => {
+  db = createSqlJsAdapter();
+  await db.open();
+  store = new SqlMemoryStore({ adapter: db });
+  await store.initialize();
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await db.close();
+});
+
+// ---------------------------------------------------------------------------
+// Jobs
+// ---------------------------------------------------------------------------
+
+describe('MemoryJobRunner.expireProspective', () => {
+  it('expires prospective memories due at or before now and keeps later ones', async () => {
+    await store.insert(record('past', { type: 'prospective', expiresAt: daysAgo(1) }));
+    await store.insert(record('exact', { type: 'prospective', expiresAt: NOW.toISOString() }));
+    await store.insert(record('future', { type: 'prospective', expiresAt: new Date(NOW.getTime() + 1).toISOString() }));
+    await store.insert(record('undated', { type: 'prospective' }));
+    await store.insert(record('episodic-past', { expiresAt: daysAgo(1) }));
+
+    const report = await new MemoryJobRunner(store, { now: () => NOW }).run('expire');
+
+    expect(report.affected).toBe(2);
+    expect((await store.listRecords({ status: 'expired' })).map((r) => r.id)).toEqual(['past', 'exact']);
+    expect((await store.listRecords()).map((r) => r.id)).toEqual(['future', 'undated', 'episodic-past']);
+    expect((await store.listAudit({ runId: report.runId })).map((a) => a.recordId).sort()).toEqual(['exact', 'past']);
+  });
+});
+
+describe('MemoryJobRunner.dedupeEpisodic', () => {
+  it('merges near-duplicates into the oldest record within each collection', async () => {
+    await store.insert(record('first', { content: 'Met Ana at the cafe', importance: 0.2 }));
+    await store.insert(record('copy', { content: 'met ana at the cafe!', importance: 0.9 }));
+    await store.insert(record('elsewhere', { content: 'Met Ana at the cafe', collectionId: 'agent-2' }));
+    await store.insert(record('different', { content: 'Booked a dentist appointment' }));
+
+    const report = await new MemoryJobRunner(store, { now: () => NOW }).run('dedupe');
+
+    expect(report.affected).toBe(1);
+    expect(await store.listRecords({ status: 'merged' })).toMatchObject([{ id: 'copy', consolidatedInto: 'first' }]);
+    const first = (await store.listRecords()).find((r) => r.id === 'first');
+    expect(first.importance).toBe(0.9);
+  });
+});
+
+describe('MemoryJobRunner.summarizeEpisodic', () => {
+  it('summarises only clusters older than the cutoff', async () => {
+    for (const [id, age] of [['a', 10], ['b', 9], ['c', 8], ['recent', 6.9]]) {
+      await store.insert(record(id, { content: 'walked the dog in the park', createdAt: daysAgo(age) }));
+    }
+    const summarize = vi.fn(async (records) => `Walked the dog ${records.length} times`);
+
+    const report = await new MemoryJobRunner(store, { now: () => NOW, summarizeAfterDays: 7, summarize }).run('summarize');
+
+    expect(report.affected).toBe(3);
+    expect(summarize.mock.calls[0][0].map((r) => r.id)).toEqual(['a', 'b', 'c']);
+    const active = await store.listRecords();
+    expect(active.map((r) => [r.id, r.type])).toEqual([['recent', 'episodic'], [expect.any(String), 'semantic']]);
+    expect(active[1]).toMatchObject({ content: 'Walked the dog 3 times', data: { sourceIds: ['a', 'b', 'c'] } });
+  });
+
+  it('leaves clusters smaller than minClusterSize alone', async () => {
+    await store.insert(record('a', { content: 'walked the dog', createdAt: daysAgo(10) }));
+    await store.insert(record('b', { content: 'walked the dog', createdAt: daysAgo(10) }));
+
+    const report = await new MemoryJobRunner(store, { now: () => NOW, minClusterSize: 3 }).run('summarize');
+    expect(report.affected).toBe(0);
+    expect(await store.listAudit()).toEqual([]);
+  });
+});
+
+describe('MemoryJobRunner.applyDecay', () => {
+  it('halves the score of an importance-0 record after one half-life', async () => {
+    await store.insert(record('old', { createdAt: daysAgo(30), importance: 0 }));
+    await store.insert(record('new'));
+
+    const report = await new MemoryJobRunner(store, { now: () => NOW, halfLifeDays: 30 }).run('decay');
+
+    expect(report.affected).toBe(1);
+    const scores = Object.fromEntries((await store.listRecords()).map((r) => [r.id, r.decayScore]));
+    expect(scores.old).toBeCloseTo(0.5);
+    expect(scores.new).toBe(1);
+  });
+
+  it('slows decay for important records', () => {
+    const base = { createdAt: daysAgo(30) };
+    expect(computeDecayScore({ ...base, importance: 1 }, NOW, 30)).toBeCloseTo(0.5 ** (1 / 3));
+    expect(computeDecayScore({ ...base, lastAccessedAt: NOW.toISOString(), importance: 0 }, NOW, 30)).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+describe('MemoryJobRunner scheduling', () => {
+  it('runs every job on each interval tick', async () => {
+    vi.useFakeTimers();
+    const runner = new MemoryJobRunner(store, { intervalMs: 1_000 });
+    const runAll = vi.spyOn(runner, 'runAll').mockResolvedValue([]);
+
+    runner.start();
+    runner.start();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(runAll).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2_001);
+    expect(runAll).toHaveBeenCalledTimes(3);
+    await runner.stop();
+  });
+
+  it('does not schedule when intervalMs is 0', async () => {
+    vi.useFakeTimers();
+    const runner = new MemoryJobRunner(store, { intervalMs: 0 });
+    const runAll = vi.spyOn(runner, 'runAll').mockResolvedValue([]);
+
+    runner.start();
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(runAll).not.toHaveBeenCalled();
+  });
+
+  it('logs a failed run and tries again on the next tick', async () => {
+    vi.useFakeTimers();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const runner = new MemoryJobRunner(store, { intervalMs: 1_000 });
+    const runAll = vi.spyOn(runner, 'runAll').mockRejectedValueOnce(new Error('db down')).mockResolvedValue([]);
+
+    runner.start();
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect(warn).toHaveBeenCalledWith('[postgres-memory] Maintenance run failed:', expect.any(Error));
+    expect(runAll).toHaveBeenCalledTimes(2);
+    await runner.stop();
+  });
+
+  it('stops the timer and waits for the run in progress', async () => {
+    vi.useFakeTimers();
+    const runner = new MemoryJobRunner(store, { intervalMs: 1_000 });
+    let finish: () => void;
+    const applyDecay = vi.spyOn(runner, 'applyDecay').mockImplementation(
+      () => new Promise((resolve) => { finish = () => resolve({ runId: 'r', job: 'decay', affected: 0 }); }),
+    );
+
+    runner.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+    await vi.waitFor(() => expect(applyDecay).toHaveBeenCalledTimes(1));
+
+    let stopped = false;
+    const stopping = runner.stop().then(() => { stopped = true; });
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finish();
+    await stopping;
+    expect(stopped).toBe(true);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(applyDecay).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one run between overlapping runAll calls', async () => {
+    const runner = new MemoryJobRunner(store, { now: () => NOW });
+    const expire = vi.spyOn(runner, 'expireProspective');
+
+    const [first, second] = await Promise.all([runner.runAll(), runner.runAll()]);
+    expect(first).toBe(second);
+    expect(expire).toHaveBeenCalledTimes(1);
+    expect(first.map((r) => r.job)).toEqual(['expire', 'dedupe', 'summarize', 'decay']);
+  });
+});
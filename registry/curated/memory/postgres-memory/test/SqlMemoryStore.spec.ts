@@ -0,0 +1,258 @@
+// @ts-nocheck
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPostgresAdapter, createSqlJsAdapter } from '@framers/sql-storage-adapter';
+
+import { SqlMemoryStore } from '../src/SqlMemoryStore';
+import { MEMORY_MIGRATIONS, getMemorySchemaVersion, migrateMemorySchema } from '../src/migrations';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const T0 = '2026-01-01T00:00:00.000Z';
+
+function record(id: string, overrides = {}) {
+  return {
+    id,
+    collectionId: 'agent-1',
+    type: 'episodic',
+    content: `memory ${id}`,
+    data: { note: id },
+    createdAt: T0,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+async function openSqlJs() {
+  const db = createSqlJsAdapter();
+  await db.open();
+  return db;
+}
+
+/**
+ * A real Postgres adapter over a fake `pg` pool, so the `?` → `$n`
+ * placeholder translation runs without a server. `respond` answers each
+ * query from its translated text.
+ */
+async function openFakePostgres(respond: (text: string, values?: unknown[]) => unknown[] = () => []) {
+  const queries: Array<{ text: string; values?: unknown[] }> = [];
+  const query = async (text: string, values?: unknown[]) => {
+    queries.push({ text, values });
+    const rows = respond(text, values);
+    return { rows, rowCount: rows.length };
+  };
+  class Pool {
+    query = query;
+    async connect() {
+      return { query, release() {} };
+    }
+    async end() {}
+  }
+
+  const db = createPostgresAdapter({ connectionString: 'postgres://memory-test' });
+  db.pgModule = { Pool };
+  await db.open();
+  return { db, queries };
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+describe('migrateMemorySchema', () => {
+  let db;
+
+  beforeEach(async () => {
+    db = await openSqlJs();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('applies every migration once and is a no-op when re-run', async () => {
+    const versions = MEMORY_MIGRATIONS.map((m) => m.version);
+
+    expect(await migrateMemorySchema(db, 'sqlite')).toEqual(versions);
+    expect(await migrateMemorySchema(db, 'sqlite')).toEqual([]);
+    expect(await getMemorySchemaVersion(db)).toBe(Math.max(...versions));
+
+    const applied = await db.all('SELECT version, name FROM memory_schema_migrations ORDER BY version');
+    expect(applied).toEqual(MEMORY_MIGRATIONS.map(({ version, name }) => ({ version, name })));
+  });
+
+  it('applies only migrations newer than the recorded version', async () => {
+    expect(await migrateMemorySchema(db, 'sqlite', MEMORY_MIGRATIONS.slice(0, 1))).toEqual([1]);
+    expect(await migrateMemorySchema(db, 'sqlite')).toEqual([2]);
+
+    const columns = (await db.all('PRAGMA table_info(memory_records)')).map((c) => c.name);
+    expect(columns).toEqual(expect.arrayContaining(['status', 'decay_score', 'expires_at']));
+  });
+
+  it('rolls back a failing migration and leaves its version unrecorded', async () => {
+    const broken = [...MEMORY_MIGRATIONS, { version: 99, name: 'broken', postgres: '', sqlite: 'CREATE TABLE broken (' }];
+
+    await expect(migrateMemorySchema(db, 'sqlite', broken)).rejects.toThrow();
+    expect(await getMemorySchemaVersion(db)).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SqlMemoryStore on sql.js
+// ---------------------------------------------------------------------------
+
+describe('SqlMemoryStore (sql.js)', () => {
+  let db;
+  let store: SqlMemoryStore;
+
+  beforeEach(async () => {
+    db = await openSqlJs();
+    store = new SqlMemoryStore({ adapter: db });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await db.close();
+  });
+
+  it('migrates on first use and shares the schema with later stores', async () => {
+    await store.initialize();
+    const again = new SqlMemoryStore({ adapter: db });
+    await again.initialize();
+
+    expect(await getMemorySchemaVersion(db)).toBe(2);
+    expect(await db.all('SELECT version FROM memory_schema_migrations')).toHaveLength(MEMORY_MIGRATIONS.length);
+  });
+
+  it('stores records and reads them back with their data and embedding', async () => {
+    await store.insert(record('a', { embedding: [1, 0], importance: 0.9 }));
+
+    const [row] = await store.listRecords();
+    expect(row).toMatchObject({
+      id: 'a',
+      collectionId: 'agent-1',
+      data: { note: 'a' },
+      embedding: [1, 0],
+      importance: 0.9,
+      status: 'active',
+      decayScore: 1,
+      accessCount: 0,
+    });
+    expect(await store.getStats()).toEqual({ collections: 1, documents: 1, size: 1 });
+  });
+
+  it('filters text queries by collection, type and an escaped substring', async () => {
+    await store.insert(record('a', { content: 'Paid 100% of the invoice' }));
+    await store.insert(record('b', { content: 'Paid 100 dollars', type: 'semantic' }));
+    await store.insert(record('c', { content: 'Paid 100% elsewhere', collectionId: 'agent-2' }));
+
+    const hits = await store.search({ collectionId: 'agent-1', text: '100%', limit: 10 });
+    expect(hits.map((h) => h.id)).toEqual(['a']);
+
+    const semantic = await store.search({ collectionId: 'agent-1', type: 'semantic', text: 'paid', limit: 10 });
+    expect(semantic.map((h) => h.id)).toEqual(['b']);
+  });
+
+  it('ranks embedding queries by similarity and skips other dimensions', async () => {
+    await store.insert(record('far', { embedding: [0, 1] }));
+    await store.insert(record('near', { embedding: [1, 0.1] }));
+    await store.insert(record('other-dims', { embedding: [1, 0, 0] }));
+
+    const hits = await store.search({ collectionId: 'agent-1', embedding: [1, 0], limit: 5 });
+    expect(hits.map((h) => h.id)).toEqual(['near', 'far']);
+    expect(hits[0].similarity).toBeCloseTo(0.995, 3);
+    expect(hits[0].score).toBeCloseTo(hits[0].similarity * hits[0].decayScore);
+  });
+
+  it('counts retrieved records as accessed', async () => {
+    await store.insert(record('a'));
+    await store.search({ collectionId: 'agent-1', text: 'memory', limit: 1 });
+
+    const [row] = await store.listRecords();
+    expect(row.accessCount).toBe(1);
+    expect(row.lastAccessedAt).toBeDefined();
+  });
+
+  it('applies job updates and retirements in one transaction', async () => {
+    await store.insert(record('a'));
+    await store.insert(record('b'));
+
+    await store.commitJobChanges({
+      retire: [{ ids: ['b'], status: 'merged', consolidatedInto: 'a' }],
+      update: [{ id: 'a', importance: 0.8, decayScore: 0.5 }],
+      audit: [{ runId: 'r1', job: 'dedupe', action: 'merged', collectionId: 'agent-1', recordId: 'b', targetId: 'a', createdAt: T0 }],
+    });
+
+    expect((await store.listRecords()).map((r) => [r.id, r.importance, r.decayScore])).toEqual([['a', 0.8, 0.5]]);
+    expect(await store.listRecords({ status: 'merged' })).toMatchObject([{ id: 'b', consolidatedInto: 'a' }]);
+    expect(await store.listAudit({ recordId: 'a' })).toMatchObject([{ runId: 'r1', recordId: 'b', targetId: 'a' }]);
+
+    await expect(store.commitJobChanges({
+      insert: [record('c')],
+      audit: [{ runId: 'r2', job: 'dedupe', action: 'merged', createdAt: null }],
+    })).rejects.toThrow();
+    expect((await store.listRecords()).map((r) => r.id)).toEqual(['a']);
+  });
+
+  it('deletes records only within the given collection', async () => {
+    await store.insert(record('a'));
+    await store.insert(record('b', { collectionId: 'agent-2' }));
+
+    await store.delete('agent-1', ['a', 'b']);
+    expect((await store.listRecords()).map((r) => r.id)).toEqual(['b']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SqlMemoryStore on the Postgres adapter
+// ---------------------------------------------------------------------------
+
+describe('SqlMemoryStore (Postgres placeholders)', () => {
+  /** Every `$n` in a statement, in order of appearance. */
+  const placeholders = (text: string) => (text.match(/\$\d+/g) ?? []).map((p) => Number(p.slice(1)));
+
+  it('runs the Postgres migrations with numbered parameters', async () => {
+    const { db, queries } = await openFakePostgres((text) =>
+      text.startsWith('SELECT MAX(version)') ? [{ version: null }] : []);
+    await new SqlMemoryStore({ adapter: db }).initialize();
+
+    expect(queries.some((q) => q.text.includes('CREATE EXTENSION IF NOT EXISTS vector'))).toBe(true);
+    const inserts = queries.filter((q) => q.text.startsWith('INSERT INTO memory_schema_migrations'));
+    expect(inserts.map((q) => q.text)).toEqual(MEMORY_MIGRATIONS.map(() =>
+      'INSERT INTO memory_schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)'));
+    expect(inserts.map((q) => q.values.slice(0, 2))).toEqual(MEMORY_MIGRATIONS.map((m) => [m.version, m.name]));
+  });
+
+  it('numbers every placeholder in pgvector searches, inserts and deletes', async () => {
+    const { db, queries } = await openFakePostgres((text) => {
+      if (text.startsWith('SELECT MAX(version)')) return [{ version: 2 }];
+      if (text.includes('<=>')) {
+        return [{ id: 'a', collection_id: 'agent-1', type: 'semantic', content: 'x', data: { k: 1 }, importance: 0.5, decay_score: 0.5, similarity: 0.9 }];
+      }
+      return [];
+    });
+    const store = new SqlMemoryStore({ adapter: db });
+
+    await store.insert(record('a', { embedding: [0.5, 0.25] }));
+    const [hit] = await store.search({ collectionId: 'agent-1', type: 'semantic', embedding: [0.5, 0.25], limit: 3 });
+    await store.delete('agent-1', ['a', 'b']);
+
+    expect(hit).toMatchObject({ id: 'a', data: { k: 1 }, similarity: 0.9, score: 0.45 });
+    for (const { text, values = [] } of queries) {
+      expect(text).not.toContain('?');
+      expect(placeholders(text).sort((a, b) => a - b)).toEqual(values.map((_, i) => i + 1));
+    }
+
+    const search = queries.find((q) => q.text.includes('<=>'));
+    expect(search.text).toContain('embedding <=> $1::vector');
+    expect(search.text).toContain('vector_dims(embedding) = $4');
+    expect(search.values).toEqual(['[0.5,0.25]', 'agent-1', 'semantic', 2, '[0.5,0.25]', 3]);
+
+    const insert = queries.find((q) => q.text.includes('INSERT INTO memory_records'));
+    expect(insert.values[5]).toBe('[0.5,0.25]');
+
+    const del = queries.find((q) => q.text.startsWith('DELETE FROM memory_records'));
+    expect(del.values).toEqual(['agent-1', 'a', 'b']);
+  });
+});
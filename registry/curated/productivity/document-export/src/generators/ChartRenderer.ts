@@ -15,6 +15,10 @@
  * each row, giving readers an at-a-glance proportional representation
  * (e.g. `████████░░░░`). Pie and doughnut charts include a percentage
  * column. Scatter charts flatten each dataset's x/y pairs into rows.
+ *
+ * Formats that can embed vector graphics (HTML, EPUB) use
+ * {@link ChartRenderer.renderSvg} instead, which draws the chart as a
+ * standalone inline SVG coloured with a theme's chart palette.
  */
 
 import type { ChartSpec, ChartDataSet, TableData } from '../types.js';
@@ -32,6 +36,24 @@ const BLOCK_EMPTY = '\u2591'; // ░
 /** Total character width of the ASCII bar visualisation column. */
 const BAR_WIDTH = 16;
 
+/** Width of the SVG viewBox in user units. */
+const SVG_WIDTH = 640;
+
+/** Height of the SVG viewBox in user units. */
+const SVG_HEIGHT = 360;
+
+/** Plot-area insets inside the SVG viewBox (title, axes, and legend). */
+const SVG_PADDING = { top: 44, right: 24, bottom: 72, left: 64 };
+
+/** Number of intervals between gridlines on value axes. */
+const SVG_TICKS = 5;
+
+/** Fallback palette used when a theme provides no chart colours. */
+const DEFAULT_SVG_PALETTE = ['#2563eb', '#dc2626', '#16a34a', '#ca8a04', '#9333ea', '#0891b2'];
+
+/** Font stack used for all SVG text. */
+const SVG_FONT = 'Helvetica, Arial, sans-serif';
+
 // ---------------------------------------------------------------------------
 // Public class
 // ---------------------------------------------------------------------------
@@ -86,6 +108,66 @@ export class ChartRenderer {
     }
   }
 
+  /**
+   * Render a chart specification as a self-contained SVG string suitable
+   * for inlining in HTML or XHTML documents.
+   *
+   * | Type              | Drawing                                         |
+   * | ----------------- | ----------------------------------------------- |
+   * | bar               | Grouped vertical bars per category              |
+   * | line / area       | One polyline per dataset (area adds a fill)     |
+   * | scatter           | Points; numeric categories become x-values      |
+   * | pie / doughnut    | Slices of the first dataset with a legend       |
+   *
+   * Series colours come from `palette` (cycled when there are more series
+   * than colours), unless a dataset sets its own `color`. The SVG carries
+   * `role="img"` and a `<title>` holding the same summary as
+   * {@link ChartRenderer.renderChart}'s `description`, so screen readers
+   * and e-readers without SVG support still get a text alternative.
+   *
+   * @param chart   - The chart specification to draw.
+   * @param palette - Ordered series colours, typically a theme's
+   *   `chartPalette`.
+   * @returns An `<svg>` element string with an explicit XML namespace.
+   */
+  renderSvg(chart: ChartSpec, palette: string[] = DEFAULT_SVG_PALETTE): string {
+    const colors = palette.length > 0 ? palette : DEFAULT_SVG_PALETTE;
+    const { description } = this.renderChart(chart);
+
+    let body: string;
+    switch (chart.type) {
+      case 'bar':
+      case 'line':
+      case 'area':
+        body = this.svgCategoryChart(chart, colors);
+        break;
+
+      case 'pie':
+      case 'doughnut':
+        body = this.svgPieChart(chart, colors);
+        break;
+
+      case 'scatter':
+        body = this.svgScatterChart(chart, colors);
+        break;
+
+      default: {
+        const _exhaustive: never = chart.type;
+        throw new Error(`Unsupported chart type: ${_exhaustive}`);
+      }
+    }
+
+    const title = chart.title
+      ? `<text x="${SVG_WIDTH / 2}" y="26" text-anchor="middle" font-size="16" font-weight="bold">${escapeXml(chart.title)}</text>`
+      : '';
+
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SVG_WIDTH} ${SVG_HEIGHT}" ` +
+      `width="100%" role="img" font-family="${SVG_FONT}" fill="currentColor">` +
+      `<title>${escapeXml(description)}</title>${title}${body}</svg>`
+    );
+  }
+
   // -----------------------------------------------------------------------
   // Private — category-axis charts (bar / line / area)
   // -----------------------------------------------------------------------
@@ -219,6 +301,274 @@ export class ChartRenderer {
     return { description, tableData: { headers, rows } };
   }
 
+  // -----------------------------------------------------------------------
+  // Private — SVG drawing
+  // -----------------------------------------------------------------------
+
+  /**
+   * Draw bar, line, or area charts on a shared value axis. Bars for the
+   * same category are grouped side by side; line and area series are
+   * plotted at the category centres.
+   *
+   * @param chart  - A chart spec with type `bar`, `line`, or `area`.
+   * @param colors - Series colours.
+   * @returns SVG markup for axes, series, and legend.
+   */
+  private svgCategoryChart(chart: ChartSpec, colors: string[]): string {
+    const categories = this.resolveCategories(chart.data);
+    const axis = this.valueAxis(chart.data.flatMap((ds) => ds.values));
+    const plot = this.plotArea();
+    const band = plot.width / Math.max(categories.length, 1);
+    const y = (v: number) => plot.bottom - ((v - axis.min) / (axis.max - axis.min)) * plot.height;
+    const parts: string[] = [this.svgValueGrid(axis, y, plot)];
+
+    // Category labels along the x-axis
+    categories.forEach((cat, i) => {
+      parts.push(
+        `<text x="${round(plot.left + band * (i + 0.5))}" y="${plot.bottom + 18}" text-anchor="middle" font-size="11">${escapeXml(cat)}</text>`,
+      );
+    });
+
+    chart.data.forEach((ds, dsIdx) => {
+      const color = this.seriesColor(ds, dsIdx, colors);
+
+      if (chart.type === 'bar') {
+        const groupWidth = band * 0.8;
+        const barWidth = groupWidth / Math.max(chart.data.length, 1);
+        categories.forEach((_, i) => {
+          const v = ds.values[i] ?? 0;
+          const x = plot.left + band * i + (band - groupWidth) / 2 + barWidth * dsIdx;
+          parts.push(
+            `<rect x="${round(x)}" y="${round(Math.min(y(v), y(0)))}" width="${round(barWidth)}" height="${round(Math.abs(y(v) - y(0)))}" fill="${color}"/>`,
+          );
+        });
+        return;
+      }
+
+      const points = categories.map((_, i) => [plot.left + band * (i + 0.5), y(ds.values[i] ?? 0)]);
+      const path = points.map(([px, py]) => `${round(px)},${round(py)}`).join(' ');
+      if (chart.type === 'area' && points.length > 0) {
+        const baseline = round(y(0));
+        parts.push(
+          `<polygon points="${round(points[0][0])},${baseline} ${path} ${round(points[points.length - 1][0])},${baseline}" fill="${color}" fill-opacity="0.25"/>`,
+        );
+      }
+      parts.push(`<polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"/>`);
+      for (const [px, py] of points) {
+        parts.push(`<circle cx="${round(px)}" cy="${round(py)}" r="3" fill="${color}"/>`);
+      }
+    });
+
+    parts.push(this.svgAxisLabels(chart, plot));
+    parts.push(this.svgLegend(chart.data.map((ds, i) => [ds.label, this.seriesColor(ds, i, colors)])));
+    return parts.join('');
+  }
+
+  /**
+   * Draw a scatter chart. X-values are taken from each dataset's
+   * categories when they are all numeric; otherwise the point index is used.
+   *
+   * @param chart  - A chart spec with type `scatter`.
+   * @param colors - Series colours.
+   * @returns SVG markup for axes, points, and legend.
+   */
+  private svgScatterChart(chart: ChartSpec, colors: string[]): string {
+    const series = chart.data.map((ds) => {
+      const numeric = ds.categories?.length === ds.values.length
+        && ds.categories.every((c) => c.trim() !== '' && Number.isFinite(Number(c)));
+      return ds.values.map((v, i) => [numeric ? Number(ds.categories![i]) : i, v]);
+    });
+    const points = series.flat();
+    const xAxis = this.valueAxis(points.map(([px]) => px));
+    const yAxis = this.valueAxis(points.map(([, py]) => py));
+    const plot = this.plotArea();
+    const x = (v: number) => plot.left + ((v - xAxis.min) / (xAxis.max - xAxis.min)) * plot.width;
+    const y = (v: number) => plot.bottom - ((v - yAxis.min) / (yAxis.max - yAxis.min)) * plot.height;
+    const parts: string[] = [this.svgValueGrid(yAxis, y, plot)];
+
+    for (const tick of xAxis.ticks) {
+      parts.push(
+        `<text x="${round(x(tick))}" y="${plot.bottom + 18}" text-anchor="middle" font-size="11">${this.formatNumber(tick)}</text>`,
+      );
+    }
+
+    series.forEach((pts, dsIdx) => {
+      const color = this.seriesColor(chart.data[dsIdx], dsIdx, colors);
+      for (const [px, py] of pts) {
+        parts.push(`<circle cx="${round(x(px))}" cy="${round(y(py))}" r="4" fill="${color}" fill-opacity="0.8"/>`);
+      }
+    });
+
+    parts.push(this.svgAxisLabels(chart, plot));
+    parts.push(this.svgLegend(chart.data.map((ds, i) => [ds.label, this.seriesColor(ds, i, colors)])));
+    return parts.join('');
+  }
+
+  /**
+   * Draw a pie or doughnut chart from the first dataset, with a legend of
+   * slice labels and percentages on the right. Further datasets are not
+   * drawn (the tabular rendering lists them all).
+   *
+   * @param chart  - A chart spec with type `pie` or `doughnut`.
+   * @param colors - Slice colours.
+   * @returns SVG markup for slices and legend.
+   */
+  private svgPieChart(chart: ChartSpec, colors: string[]): string {
+    const ds = chart.data[0];
+    if (!ds) return '';
+
+    const cx = SVG_WIDTH * 0.35;
+    const cy = (SVG_HEIGHT + SVG_PADDING.top) / 2;
+    const r = (SVG_HEIGHT - SVG_PADDING.top - 24) / 2;
+    // Doughnuts are drawn as ring segments so the hole shows the page background
+    const inner = chart.type === 'doughnut' ? r * 0.55 : 0;
+    const values = ds.values.map((v) => Math.max(v ?? 0, 0));
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const labels = ds.categories ?? values.map((_, i) => `Slice ${i + 1}`);
+    const parts: string[] = [];
+
+    let angle = -Math.PI / 2;
+    values.forEach((v, i) => {
+      if (total <= 0 || v <= 0) return;
+      const sweep = (v / total) * Math.PI * 2;
+      const color = escapeXml(colors[i % colors.length]);
+      if (sweep >= Math.PI * 2 - 1e-9) {
+        // A single full slice cannot be drawn as an arc
+        parts.push(
+          `<circle cx="${round(cx)}" cy="${round(cy)}" r="${round((r + inner) / 2)}" ` +
+          (inner > 0 ? `fill="none" stroke="${color}" stroke-width="${round(r - inner)}"/>` : `fill="${color}"/>`),
+        );
+      } else {
+        parts.push(`<path d="${this.arcPath(cx, cy, r, inner, angle, angle + sweep)}" fill="${color}"/>`);
+      }
+      angle += sweep;
+    });
+
+    values.forEach((v, i) => {
+      const ly = SVG_PADDING.top + 12 + i * 22;
+      const pct = total > 0 ? (v / total) * 100 : 0;
+      parts.push(
+        `<rect x="${SVG_WIDTH * 0.65}" y="${ly - 10}" width="12" height="12" fill="${escapeXml(colors[i % colors.length])}"/>` +
+        `<text x="${SVG_WIDTH * 0.65 + 18}" y="${ly}" font-size="12">${escapeXml(labels[i] ?? `Slice ${i + 1}`)} (${pct.toFixed(1)}%)</text>`,
+      );
+    });
+
+    return parts.join('');
+  }
+
+  /**
+   * Build an SVG path for a pie slice (or, when `inner > 0`, a ring
+   * segment) between two angles in radians, clockwise from the positive
+   * x-axis.
+   */
+  private arcPath(cx: number, cy: number, r: number, inner: number, start: number, end: number): string {
+    const point = (radius: number, angle: number) =>
+      `${round(cx + radius * Math.cos(angle))},${round(cy + radius * Math.sin(angle))}`;
+    const largeArc = end - start > Math.PI ? 1 : 0;
+    const outerArc = `A${round(r)},${round(r)} 0 ${largeArc} 1 ${point(r, end)}`;
+
+    if (inner <= 0) return `M${round(cx)},${round(cy)} L${point(r, start)} ${outerArc} Z`;
+    return `M${point(r, start)} ${outerArc} L${point(inner, end)} A${round(inner)},${round(inner)} 0 ${largeArc} 0 ${point(inner, start)} Z`;
+  }
+
+  /**
+   * Horizontal gridlines with value labels on the left edge of the plot.
+   * The zero line is drawn stronger than the others.
+   */
+  private svgValueGrid(
+    axis: { ticks: number[] },
+    y: (v: number) => number,
+    plot: { left: number; right: number },
+  ): string {
+    return axis.ticks
+      .map((tick) => {
+        const ty = round(y(tick));
+        return (
+          `<line x1="${plot.left}" y1="${ty}" x2="${plot.right}" y2="${ty}" stroke="currentColor" stroke-opacity="${tick === 0 ? 0.6 : 0.15}"/>` +
+          `<text x="${plot.left - 8}" y="${ty + 4}" text-anchor="end" font-size="11">${this.formatNumber(tick)}</text>`
+        );
+      })
+      .join('');
+  }
+
+  /**
+   * X- and y-axis titles, when the chart spec provides them.
+   */
+  private svgAxisLabels(chart: ChartSpec, plot: { left: number; right: number; top: number; bottom: number }): string {
+    const parts: string[] = [];
+    if (chart.xAxisLabel) {
+      parts.push(
+        `<text x="${round((plot.left + plot.right) / 2)}" y="${plot.bottom + 36}" text-anchor="middle" font-size="12">${escapeXml(chart.xAxisLabel)}</text>`,
+      );
+    }
+    if (chart.yAxisLabel) {
+      const my = round((plot.top + plot.bottom) / 2);
+      parts.push(
+        `<text x="16" y="${my}" text-anchor="middle" font-size="12" transform="rotate(-90 16 ${my})">${escapeXml(chart.yAxisLabel)}</text>`,
+      );
+    }
+    return parts.join('');
+  }
+
+  /**
+   * A single-row legend of colour swatches along the bottom edge.
+   */
+  private svgLegend(entries: Array<[string, string]>): string {
+    const ly = SVG_HEIGHT - 12;
+    let lx = SVG_PADDING.left;
+    return entries
+      .map(([label, color]) => {
+        const item =
+          `<rect x="${lx}" y="${ly - 10}" width="12" height="12" fill="${color}"/>` +
+          `<text x="${lx + 18}" y="${ly}" font-size="12">${escapeXml(label)}</text>`;
+        // Approximate text width; real font metrics are not available here
+        lx += 36 + label.length * 7;
+        return item;
+      })
+      .join('');
+  }
+
+  /**
+   * Compute a value axis covering `values` and zero, rounded out to
+   * evenly spaced "nice" tick values (1, 2, 2.5 or 5 times a power of ten).
+   */
+  private valueAxis(values: number[]): { min: number; max: number; ticks: number[] } {
+    const finite = values.filter((v) => Number.isFinite(v));
+    let min = Math.min(0, ...finite);
+    let max = Math.max(0, ...finite);
+    if (min === max) max = min + 1;
+
+    const rawStep = (max - min) / SVG_TICKS;
+    const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+    const step = [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s >= rawStep) ?? rawStep;
+    min = Math.floor(min / step) * step;
+    max = Math.ceil(max / step) * step;
+
+    const ticks: number[] = [];
+    for (let t = min; t <= max + step / 2; t += step) {
+      ticks.push(Number(t.toPrecision(12)));
+    }
+    return { min, max, ticks };
+  }
+
+  /**
+   * Bounds of the plotting area inside the SVG viewBox.
+   */
+  private plotArea(): { left: number; right: number; top: number; bottom: number; width: number; height: number } {
+    const left = SVG_PADDING.left;
+    const right = SVG_WIDTH - SVG_PADDING.right;
+    const top = SVG_PADDING.top;
+    const bottom = SVG_HEIGHT - SVG_PADDING.bottom;
+    return { left, right, top, bottom, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Colour for a dataset: its own override, else the palette entry.
+   */
+  private seriesColor(ds: ChartDataSet, index: number, colors: string[]): string {
+    return escapeXml(ds.color ?? colors[index % colors.length]);
+  }
+
   // -----------------------------------------------------------------------
   // Private — utilities
   // -----------------------------------------------------------------------
@@ -324,3 +674,32 @@ export class ChartRenderer {
     return `${typeLabel} chart${titlePart} — ${datasetCount} dataset${datasetCount !== 1 ? 's' : ''}, ${itemCount} ${itemLabel}`;
   }
 }
+
+// ---------------------------------------------------------------------------
+// Module-private helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Escape text for use in SVG element content and attribute values.
+ *
+ * @param text - Raw text.
+ * @returns The text with XML special characters replaced by entities.
+ */
+function escapeXml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Round a coordinate to two decimals to keep SVG output compact.
+ *
+ * @param n - Coordinate value.
+ * @returns The rounded number.
+ */
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
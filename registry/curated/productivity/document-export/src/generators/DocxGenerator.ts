@@ -15,6 +15,11 @@
  *   tables with themed header rows and alternating row shading, bullet
  *   and numbered lists, key-value definition tables, charts rendered as
  *   tabular fallbacks, and embedded images from URL or base64 data.
+ * - **Long-form apparatus** (see {@link ReferenceResolver}) — native Word
+ *   footnotes for `[^id]` markers, "[n]" citation links to a References
+ *   section, numbered table / figure captions bookmarked as targets for
+ *   `[#id]` cross-reference links, and an optional native table of
+ *   contents field (see {@link ExportOptions.tableOfContents}).
  *
  * The generator is stateless: every call to {@link DocxGenerator.generate}
  * produces an independent DOCX buffer with no side-effects.
@@ -22,13 +27,16 @@
 
 import {
   AlignmentType,
+  Bookmark,
   BorderStyle,
   Document,
   ExternalHyperlink,
   Footer,
+  FootnoteReferenceRun,
   Header,
   HeadingLevel,
   ImageRun,
+  InternalHyperlink,
   LevelFormat,
   Packer,
   PageBreak,
@@ -37,6 +45,7 @@ import {
   ShadingType,
   Table,
   TableCell,
+  TableOfContents,
   TableRow,
   TextRun,
   WidthType,
@@ -54,6 +63,7 @@ import type {
 } from '../types.js';
 
 import { getTheme } from '../themes/SlideThemes.js';
+import { REFERENCE_MARKER, REFERENCES_HEADING, ReferenceResolver } from './ReferenceResolver.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -93,26 +103,34 @@ function normaliseHex(hex: string | undefined): string {
 
 /**
  * Parse inline markdown-like formatting from a paragraph string and return
- * an array of {@link ParagraphChild} instances (TextRuns and
- * ExternalHyperlinks).
+ * an array of {@link ParagraphChild} instances (TextRuns, hyperlinks, and
+ * footnote references).
  *
  * Supported patterns:
+ * - `[^id]` — native footnote reference
+ * - `[@id]` — "[n]" citation linked to its References entry
+ * - `[#id]` — cross-reference label linked to its bookmarked target
  * - `**text**` — bold
  * - `*text*`   — italic (only single asterisks that are not part of `**`)
  * - `[text](url)` — external hyperlink
  *
- * Everything else is emitted as a plain {@link TextRun}.
+ * Undefined markers and everything else are emitted as plain
+ * {@link TextRun}s.
  *
  * @param text - The raw paragraph string to parse.
+ * @param refs - Resolver for reference markers.
  * @returns An ordered array of paragraph children.
  */
-function parseInlineFormatting(text: string): ParagraphChild[] {
+function parseInlineFormatting(text: string, refs: ReferenceResolver): ParagraphChild[] {
   const children: ParagraphChild[] = [];
 
-  // Combined regex that matches bold (**...**), links ([...](...)), or
-  // italic (*...*) — in that precedence order so that ** is consumed
-  // before single *.
-  const pattern = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)]+)\)|\*(.+?)\*/g;
+  // Combined regex that matches reference markers, bold (**...**), links
+  // ([...](...)), or italic (*...*) — in that precedence order so that
+  // markers are not taken for links and ** is consumed before single *.
+  const pattern = new RegExp(
+    `${REFERENCE_MARKER.source}|\\*\\*(.+?)\\*\\*|\\[([^\\]]+)\\]\\(([^)]+)\\)|\\*(.+?)\\*`,
+    'g',
+  );
 
   let lastIndex = 0;
   let match: RegExpExecArray | null;
@@ -124,24 +142,44 @@ function parseInlineFormatting(text: string): ParagraphChild[] {
     }
 
     if (match[1] !== undefined) {
+      // Reference marker: [^id], [@id], [#id]
+      const ref = refs.lookup(match[1], match[2]);
+      if (!ref) {
+        children.push(new TextRun(match[0]));
+      } else if (ref.kind === 'footnote') {
+        children.push(new FootnoteReferenceRun(ref.number!));
+      } else {
+        children.push(
+          new InternalHyperlink({
+            anchor: ref.anchor,
+            children: [
+              new TextRun({
+                text: ref.kind === 'citation' ? `[${ref.number}]` : ref.label!,
+                style: 'Hyperlink',
+              }),
+            ],
+          }),
+        );
+      }
+    } else if (match[3] !== undefined) {
       // Bold: **text**
-      children.push(new TextRun({ text: match[1], bold: true }));
-    } else if (match[2] !== undefined && match[3] !== undefined) {
+      children.push(new TextRun({ text: refs.resolveText(match[3]), bold: true }));
+    } else if (match[4] !== undefined && match[5] !== undefined) {
       // Link: [text](url)
       children.push(
         new ExternalHyperlink({
           children: [
             new TextRun({
-              text: match[2],
+              text: match[4],
               style: 'Hyperlink',
             }),
           ],
-          link: match[3],
+          link: match[5],
         }),
       );
-    } else if (match[4] !== undefined) {
+    } else if (match[6] !== undefined) {
       // Italic: *text*
-      children.push(new TextRun({ text: match[4], italics: true }));
+      children.push(new TextRun({ text: refs.resolveText(match[6]), italics: true }));
     }
 
     lastIndex = match.index + match[0].length;
@@ -267,13 +305,14 @@ export class DocxGenerator {
    * 1. Resolve the visual theme (colours for table headers, accents).
    * 2. Build an optional cover page section (title, subtitle, author, date)
    *    followed by a page break.
-   * 3. Iterate over each {@link DocumentSection}, rendering headings,
+   * 3. Optionally add a table of contents field followed by a page break.
+   * 4. Iterate over each {@link DocumentSection}, rendering headings,
    *    paragraphs (with inline formatting), tables, charts (as tables),
    *    images, lists, and key-value pairs into an array of `FileChild`
-   *    nodes.
-   * 4. Wrap everything in a `Document` with header/footer configuration
-   *    and a numbered-list numbering definition.
-   * 5. Serialise via `Packer.toBuffer()`.
+   *    nodes, then append the References section.
+   * 5. Wrap everything in a `Document` with header/footer configuration,
+   *    footnotes, and a numbered-list numbering definition.
+   * 6. Serialise via `Packer.toBuffer()`.
    *
    * @param content - The structured document content to render.
    * @param options - Optional export configuration overrides.
@@ -285,6 +324,7 @@ export class DocxGenerator {
   ): Promise<Buffer> {
     const theme = getTheme(content.theme);
     const accentHex = normaliseHex(theme.accentColor);
+    const refs = new ReferenceResolver(content);
     const children: FileChild[] = [];
 
     // ------------------------------------------------------------------
@@ -297,18 +337,47 @@ export class DocxGenerator {
     }
 
     // ------------------------------------------------------------------
-    // 2. Section content
+    // 2. Table of contents (Word fills the field in when the file opens)
+    // ------------------------------------------------------------------
+    const showToc = options?.tableOfContents === true;
+
+    if (showToc) {
+      children.push(
+        new Paragraph({
+          spacing: { after: 240 },
+          children: [new TextRun({ text: 'Contents', bold: true, size: 32 })],
+        }),
+      );
+      children.push(
+        new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-3' }),
+      );
+      children.push(new Paragraph({ children: [new PageBreak()] }));
+    }
+
+    // ------------------------------------------------------------------
+    // 3. Section content and bibliography
     // ------------------------------------------------------------------
     for (const section of content.sections) {
-      await this.renderSection(section, children, accentHex);
+      await this.renderSection(section, children, accentHex, refs);
     }
 
+    this.renderReferences(refs, children);
+
     // ------------------------------------------------------------------
-    // 3. Assemble Document
+    // 4. Assemble Document
     // ------------------------------------------------------------------
+    const footnotes = Object.fromEntries(
+      refs.notes().map((note) => [
+        note.number,
+        { children: [new Paragraph({ children: parseInlineFormatting(note.text, refs) })] },
+      ]),
+    );
+
     const doc = new Document({
       title: content.title,
       creator: content.author ?? 'Document Export Extension',
+      features: showToc ? { updateFields: true } : undefined,
+      footnotes,
       numbering: {
         config: [
           {
@@ -370,7 +439,7 @@ export class DocxGenerator {
     });
 
     // ------------------------------------------------------------------
-    // 4. Pack and return
+    // 5. Pack and return
     // ------------------------------------------------------------------
     return Buffer.from(await Packer.toBuffer(doc));
   }
@@ -479,20 +548,27 @@ export class DocxGenerator {
    * @param section  - The section to render.
    * @param children - The mutable array to append FileChild nodes into.
    * @param accentHex - Uppercase hex colour (no `#`) for table headers.
+   * @param refs     - Resolver for markers, captions, and bookmarks.
    */
   private async renderSection(
     section: DocumentSection,
     children: FileChild[],
     accentHex: string,
+    refs: ReferenceResolver,
   ): Promise<void> {
-    // ---- Heading ----
+    // ---- Heading (bookmarked as a cross-reference target) ----
     if (section.heading) {
       const headingLevel = this.resolveHeadingLevel(section.level);
       children.push(
         new Paragraph({
           heading: headingLevel,
           spacing: { before: 240, after: 120 },
-          children: [new TextRun({ text: section.heading, bold: true })],
+          children: [
+            new Bookmark({
+              id: refs.sectionAnchor(section)!,
+              children: [new TextRun({ text: section.heading, bold: true })],
+            }),
+          ],
         }),
       );
     }
@@ -503,27 +579,45 @@ export class DocxGenerator {
         children.push(
           new Paragraph({
             spacing: { after: 120 },
-            children: parseInlineFormatting(para),
+            children: parseInlineFormatting(para, refs),
           }),
         );
       }
     }
 
-    // ---- Table ----
+    // ---- Table (numbered caption above) ----
     if (section.table) {
-      children.push(this.buildTable(section.table, accentHex));
+      const caption = refs.caption(section.table);
+      if (caption) {
+        children.push(
+          new Paragraph({
+            spacing: { before: 120, after: 60 },
+            children: [
+              new Bookmark({
+                id: caption.anchor,
+                children: [new TextRun({ text: refs.captionText(section.table)!, bold: true })],
+              }),
+            ],
+          }),
+        );
+      }
+
+      const rows = section.table.rows.map((row) => row.map((cell) => refs.resolveText(cell ?? '')));
+      children.push(this.buildTable({ ...section.table, rows }, accentHex));
       // Spacer after table
       children.push(new Paragraph({ spacing: { after: 120 }, text: '' }));
     }
 
     // ---- Chart (rendered as a table with a heading) ----
     if (section.chart) {
-      const chartTitle = section.chart.title ?? 'Chart Data';
+      const caption = refs.caption(section.chart);
+      const chartTitle = refs.captionText(section.chart) ?? section.chart.title ?? 'Chart Data';
+      const titleRun = new TextRun({ text: chartTitle, bold: true, italics: true });
       children.push(
         new Paragraph({
           spacing: { before: 120, after: 60 },
           children: [
-            new TextRun({ text: chartTitle, bold: true, italics: true }),
+            caption ? new Bookmark({ id: caption.anchor, children: [titleRun] }) : titleRun,
           ],
         }),
       );
@@ -535,21 +629,69 @@ export class DocxGenerator {
 
     // ---- Image ----
     if (section.image) {
-      await this.renderImage(section.image, children);
+      await this.renderImage(section.image, children, refs);
     }
 
     // ---- List ----
     if (section.list) {
-      this.renderList(section.list, children);
+      this.renderList(section.list, children, refs);
     }
 
     // ---- Key-values ----
     if (section.keyValues && section.keyValues.length > 0) {
-      children.push(this.buildKeyValueTable(section.keyValues));
+      children.push(
+        this.buildKeyValueTable(
+          section.keyValues.map((kv) => ({ key: kv.key, value: refs.resolveText(kv.value) })),
+        ),
+      );
       children.push(new Paragraph({ spacing: { after: 120 }, text: '' }));
     }
   }
 
+  // =====================================================================
+  // Private — bibliography
+  // =====================================================================
+
+  /**
+   * Append the References section: a level-1 heading followed by one
+   * "[n] entry" paragraph per bibliography entry, each bookmarked so the
+   * citation links in the body resolve. Nothing is appended when the
+   * document has no citations.
+   *
+   * @param refs     - Resolver holding the numbered bibliography.
+   * @param children - The mutable array to append FileChild nodes into.
+   */
+  private renderReferences(refs: ReferenceResolver, children: FileChild[]): void {
+    const entries = refs.references();
+    if (entries.length === 0) return;
+
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 240, after: 120 },
+        children: [
+          new Bookmark({
+            id: 'references',
+            children: [new TextRun({ text: REFERENCES_HEADING, bold: true })],
+          }),
+        ],
+      }),
+    );
+
+    for (const entry of entries) {
+      children.push(
+        new Paragraph({
+          spacing: { after: 80 },
+          indent: { left: 480, hanging: 480 },
+          children: [
+            new Bookmark({ id: entry.anchor, children: [new TextRun(`[${entry.number}]\t`)] }),
+            new TextRun(entry.text),
+          ],
+        }),
+      );
+    }
+  }
+
   // =====================================================================
   // Private — table builder
   // =====================================================================
@@ -679,10 +821,12 @@ export class DocxGenerator {
    *
    * @param image    - The image specification (URL or base64 + dimensions).
    * @param children - The mutable array to append FileChild nodes into.
+   * @param refs     - Resolver for the numbered figure caption.
    */
   private async renderImage(
     image: ImageSpec,
     children: FileChild[],
+    refs: ReferenceResolver,
   ): Promise<void> {
     let imageBuffer: Buffer | null = null;
     let imageType: 'jpg' | 'png' | 'gif' | 'bmp' = 'png';
@@ -732,20 +876,20 @@ export class DocxGenerator {
       }),
     );
 
-    // Caption
-    if (image.caption) {
+    // Caption, bookmarked when the image is a numbered figure
+    const caption = refs.caption(image);
+    if (caption || image.caption) {
+      const captionRun = new TextRun({
+        text: refs.captionText(image) ?? image.caption!,
+        italics: true,
+        size: 20, // 10pt
+        color: '666666',
+      });
       children.push(
         new Paragraph({
           alignment: AlignmentType.CENTER,
           spacing: { before: 40, after: 120 },
-          children: [
-            new TextRun({
-              text: image.caption,
-              italics: true,
-              size: 20, // 10pt
-              color: '666666',
-            }),
-          ],
+          children: [caption ? new Bookmark({ id: caption.anchor, children: [captionRun] }) : captionRun],
         }),
       );
     }
@@ -762,23 +906,25 @@ export class DocxGenerator {
    *
    * @param list     - The list specification (`items` + `ordered` flag).
    * @param children - The mutable array to append FileChild nodes into.
+   * @param refs     - Resolver for reference markers in the items.
    */
   private renderList(
     list: { items: string[]; ordered?: boolean },
     children: FileChild[],
+    refs: ReferenceResolver,
   ): void {
     for (const item of list.items) {
       if (list.ordered) {
         children.push(
           new Paragraph({
-            children: parseInlineFormatting(item),
+            children: parseInlineFormatting(item, refs),
             numbering: { reference: NUMBERING_REFERENCE, level: 0 },
           }),
         );
       } else {
         children.push(
           new Paragraph({
-            children: parseInlineFormatting(item),
+            children: parseInlineFormatting(item, refs),
             bullet: { level: 0 },
           }),
         );
@@ -0,0 +1,410 @@
+// @ts-nocheck
+/**
+ * @module EpubGenerator
+ *
+ * Generates an EPUB 3 e-book from structured {@link DocumentContent} using
+ * `jszip` for the container. The book contains:
+ *
+ * - **Title page** — title, subtitle, author, and date (can be disabled
+ *   via {@link ExportOptions.coverPage}).
+ * - **Chapters** — one XHTML document per top-level (level 1) section;
+ *   deeper sections flow into the preceding chapter. Sections before the
+ *   first level-1 heading form an opening chapter named after the title.
+ * - **Navigation** — an EPUB 3 `nav.xhtml` table of contents listing
+ *   every chapter.
+ * - **References** — markers, captions, and the Notes and References
+ *   chapters come from {@link ReferenceResolver.toPlainContent}.
+ * - **Styling and charts** — the themed stylesheet and section markup
+ *   come from {@link HtmlGenerator}, so charts are inline SVG and the
+ *   palette matches the other formats.
+ * - **Images** — embedded in the package (EPUB readers do not load remote
+ *   images): base64 data URIs are decoded and URLs are fetched. Images
+ *   that cannot be obtained are replaced by a text placeholder.
+ *
+ * The generator is stateless: every call produces an independent buffer.
+ */
+
+import { randomUUID } from 'node:crypto';
+import JSZip from 'jszip';
+
+import type {
+  DocumentContent,
+  DocumentSection,
+  ExportOptions,
+  ImageSpec,
+} from '../types.js';
+import { getTheme } from '../themes/SlideThemes.js';
+import { HtmlGenerator } from './HtmlGenerator.js';
+import { ReferenceResolver } from './ReferenceResolver.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Timeout (ms) for fetching remote images. */
+const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+
+/** File extensions for the image media types EPUB 3 readers must support. */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+/** One chapter document inside the package. */
+interface Chapter {
+  /** File name inside `OEBPS/`. */
+  href: string;
+  /** Title shown in the table of contents. */
+  title: string;
+  /** Sections rendered into this chapter. */
+  sections: DocumentSection[];
+}
+
+/** One embedded image resource. */
+interface EmbeddedImage {
+  /** Path inside `OEBPS/`. */
+  href: string;
+  /** Media type recorded in the package manifest. */
+  mediaType: string;
+  /** Raw image bytes. */
+  data: Buffer;
+}
+
+// ---------------------------------------------------------------------------
+// EpubGenerator
+// ---------------------------------------------------------------------------
+
+/**
+ * Stateless EPUB generator that converts {@link DocumentContent} into an
+ * EPUB 3 buffer.
+ *
+ * @example
+ * ```ts
+ * const epub = new EpubGenerator();
+ * const buffer = await epub.generate(content);
+ * fs.writeFileSync('report.epub', buffer);
+ * ```
+ */
+export class EpubGenerator {
+  /** HTML generator providing the stylesheet and section markup. */
+  private readonly htmlGenerator = new HtmlGenerator();
+
+  /**
+   * Generate a complete EPUB buffer from structured document content.
+   *
+   * Processing pipeline:
+   *
+   * 1. Resolve reference markers and append the Notes and References
+   *    sections.
+   * 2. Embed every section image, remembering its package path.
+   * 3. Split sections into chapters at level-1 headings.
+   * 4. Render the title page, chapters, navigation document, stylesheet,
+   *    and package document (`content.opf`).
+   * 5. Zip everything with the uncompressed `mimetype` entry first, as
+   *    the OCF container format requires.
+   *
+   * @param input   - The structured document content to render.
+   * @param options - Optional export configuration overrides. Only
+   *   `coverPage` is honoured; page layout options do not apply.
+   * @returns A Buffer containing the EPUB (ZIP) binary data.
+   */
+  async generate(input: DocumentContent, options?: ExportOptions): Promise<Buffer> {
+    const content = new ReferenceResolver(input).toPlainContent();
+    const theme = getTheme(content.theme);
+    const images = await this.embedImages(content.sections);
+    const chapters = this.splitChapters(content);
+    const showTitlePage = options?.coverPage !== false;
+
+    const imageSrc = (image: ImageSpec) => images.get(image)?.href;
+    const documents: Array<{ href: string; title: string; body: string }> = [];
+
+    if (showTitlePage) {
+      documents.push({
+        href: 'title.xhtml',
+        title: content.title,
+        body: this.htmlGenerator.renderTitleBlock(content, true),
+      });
+    }
+    for (const chapter of chapters) {
+      documents.push({
+        href: chapter.href,
+        title: chapter.title,
+        body: chapter.sections
+          .map((section) => this.htmlGenerator.renderSection(section, theme, { headingOffset: 0, imageSrc }))
+          .join('\n'),
+      });
+    }
+
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', this.buildContainer());
+    zip.file('OEBPS/styles.css', this.htmlGenerator.buildStylesheet(theme));
+    zip.file('OEBPS/nav.xhtml', this.buildNav(content, chapters));
+    for (const doc of documents) {
+      zip.file(`OEBPS/${doc.href}`, this.buildXhtml(doc.title, doc.body));
+    }
+    for (const image of new Set(images.values())) {
+      zip.file(`OEBPS/${image.href}`, image.data);
+    }
+    zip.file('OEBPS/content.opf', this.buildPackage(content, documents, [...new Set(images.values())]));
+
+    return zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      mimeType: 'application/epub+zip',
+    });
+  }
+
+  // =====================================================================
+  // Private — structure
+  // =====================================================================
+
+  /**
+   * Group sections into chapters. A section with a heading at level 1
+   * (the default level) starts a new chapter; everything else joins the
+   * current one.
+   *
+   * @param content - The document content.
+   * @returns Chapters in reading order (at least one).
+   */
+  private splitChapters(content: DocumentContent): Chapter[] {
+    const chapters: Chapter[] = [];
+
+    for (const section of content.sections) {
+      const startsChapter = Boolean(section.heading) && (section.level ?? 1) === 1;
+      if (startsChapter || chapters.length === 0) {
+        chapters.push({
+          href: `chapter-${chapters.length + 1}.xhtml`,
+          title: startsChapter ? section.heading! : content.title,
+          sections: [],
+        });
+      }
+      chapters[chapters.length - 1].sections.push(section);
+    }
+
+    if (chapters.length === 0) {
+      chapters.push({ href: 'chapter-1.xhtml', title: content.title, sections: [] });
+    }
+    return chapters;
+  }
+
+  /**
+   * Decode or fetch every section image. Identical sources share one
+   * embedded file.
+   *
+   * @param sections - All document sections.
+   * @returns A map from image spec to its embedded resource; images that
+   *   could not be obtained are absent.
+   */
+  private async embedImages(sections: DocumentSection[]): Promise<Map<ImageSpec, EmbeddedImage>> {
+    const bySource = new Map<string, EmbeddedImage | null>();
+    const embedded = new Map<ImageSpec, EmbeddedImage>();
+
+    for (const section of sections) {
+      const image = section.image;
+      const source = image?.base64 ?? image?.url;
+      if (!image || !source) continue;
+
+      if (!bySource.has(source)) {
+        const loaded = image.base64 ? decodeDataUri(image.base64) : await fetchImage(source);
+        const extension = loaded && IMAGE_EXTENSIONS[loaded.mediaType];
+        bySource.set(
+          source,
+          extension
+            ? { href: `images/image-${bySource.size + 1}.${extension}`, mediaType: loaded!.mediaType, data: loaded!.data }
+            : null,
+        );
+      }
+
+      const resource = bySource.get(source);
+      if (resource) embedded.set(image, resource);
+    }
+
+    return embedded;
+  }
+
+  // =====================================================================
+  // Private — package files
+  // =====================================================================
+
+  /**
+   * `META-INF/container.xml`, pointing readers at the package document.
+   */
+  private buildContainer(): string {
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+      '  <rootfiles>',
+      '    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+      '  </rootfiles>',
+      '</container>',
+    ].join('\n');
+  }
+
+  /**
+   * Wrap body markup in an XHTML content document linked to the
+   * stylesheet.
+   *
+   * @param title - Document `<title>`.
+   * @param body  - Body markup from {@link HtmlGenerator}.
+   * @returns The XHTML document.
+   */
+  private buildXhtml(title: string, body: string): string {
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<!DOCTYPE html>',
+      '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">',
+      '<head>',
+      '<meta charset="utf-8"/>',
+      `<title>${escapeXml(title)}</title>`,
+      '<link rel="stylesheet" type="text/css" href="styles.css"/>',
+      '</head>',
+      '<body>',
+      body,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+
+  /**
+   * The EPUB 3 navigation document (table of contents).
+   *
+   * @param content  - The document content (for the heading).
+   * @param chapters - Chapters in reading order.
+   * @returns The `nav.xhtml` document.
+   */
+  private buildNav(content: DocumentContent, chapters: Chapter[]): string {
+    const items = chapters
+      .map((chapter) => `<li><a href="${chapter.href}">${escapeXml(chapter.title)}</a></li>`)
+      .join('\n');
+    return this.buildXhtml(
+      content.title,
+      `<nav epub:type="toc" id="toc">\n<h1>${escapeXml(content.title)}</h1>\n<ol>\n${items}\n</ol>\n</nav>`,
+    );
+  }
+
+  /**
+   * The package document: metadata, manifest of every resource, and the
+   * reading order (spine).
+   *
+   * @param content   - The document content (metadata).
+   * @param documents - Content documents in reading order.
+   * @param images    - Embedded image resources.
+   * @returns The `content.opf` document.
+   */
+  private buildPackage(
+    content: DocumentContent,
+    documents: Array<{ href: string; body: string }>,
+    images: EmbeddedImage[],
+  ): string {
+    // dcterms:modified must be an ISO timestamp without milliseconds
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const id = (href: string) => href.replace(/[^a-zA-Z0-9]/g, '-');
+
+    const metadata = [
+      `<dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>`,
+      `<dc:title>${escapeXml(content.title)}</dc:title>`,
+      '<dc:language>en</dc:language>',
+      content.author ? `<dc:creator>${escapeXml(content.author)}</dc:creator>` : '',
+      content.subtitle ? `<dc:description>${escapeXml(content.subtitle)}</dc:description>` : '',
+      content.date ? `<dc:date>${escapeXml(content.date)}</dc:date>` : '',
+      `<meta property="dcterms:modified">${modified}</meta>`,
+    ].filter(Boolean);
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="css" href="styles.css" media-type="text/css"/>',
+      ...documents.map((doc) => {
+        // Content documents with inline SVG must declare it
+        const properties = doc.body.includes('<svg') ? ' properties="svg"' : '';
+        return `<item id="${id(doc.href)}" href="${doc.href}" media-type="application/xhtml+xml"${properties}/>`;
+      }),
+      ...images.map((image) => `<item id="${id(image.href)}" href="${image.href}" media-type="${image.mediaType}"/>`),
+    ];
+
+    const spine = documents.map((doc) => `<itemref idref="${id(doc.href)}"/>`);
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">',
+      '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      ...metadata,
+      '</metadata>',
+      '<manifest>',
+      ...manifest,
+      '</manifest>',
+      '<spine>',
+      ...spine,
+      '</spine>',
+      '</package>',
+    ].join('\n');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module-private helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Escape text for XML element content and attribute values.
+ *
+ * @param text - Raw text.
+ * @returns The escaped text.
+ */
+function escapeXml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode a base64 data URI into its media type and bytes.
+ *
+ * @param dataUri - A string in the format `data:<mime>;base64,<data>`.
+ * @returns The decoded image; the media type defaults to PNG when the URI
+ *   has no prefix.
+ */
+function decodeDataUri(dataUri: string): { mediaType: string; data: Buffer } {
+  const match = /^data:([^;,]+)[^,]*,/.exec(dataUri);
+  const commaIndex = dataUri.indexOf(',');
+  const raw = commaIndex >= 0 ? dataUri.slice(commaIndex + 1) : dataUri;
+  return { mediaType: match?.[1].toLowerCase() ?? 'image/png', data: Buffer.from(raw, 'base64') };
+}
+
+/**
+ * Fetch a remote image with a timeout. The media type comes from the
+ * `Content-Type` header, falling back to the URL's file extension.
+ *
+ * @param url     - The remote image URL.
+ * @param timeout - Timeout in milliseconds.
+ * @returns The image, or `null` on any failure.
+ */
+async function fetchImage(
+  url: string,
+  timeout: number = IMAGE_FETCH_TIMEOUT_MS,
+): Promise<{ mediaType: string; data: Buffer } | null> {
+  try {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    const response = await fetch(url, { signal: controller.signal });
+    clearTimeout(timer);
+
+    if (!response.ok) return null;
+
+    const header = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase().replace('jpeg', 'jpg');
+    const byExtension = Object.keys(IMAGE_EXTENSIONS).find((type) => IMAGE_EXTENSIONS[type] === extension);
+    const mediaType = header && IMAGE_EXTENSIONS[header] ? header : byExtension;
+    if (!mediaType) return null;
+
+    return { mediaType, data: Buffer.from(await response.arrayBuffer()) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,343 @@
+// @ts-nocheck
+/**
+ * @module HtmlGenerator
+ *
+ * Generates a standalone, single-file HTML page from structured
+ * {@link DocumentContent}. Everything the page needs is inline, so it can
+ * be attached to an email, dropped into a wiki, or opened offline:
+ *
+ * - **Themed stylesheet** — an inline `<style>` block built from the same
+ *   {@link SlideTheme} palette and fonts the PPTX/PDF generators use.
+ * - **Title block** — title, subtitle, author, and date (subtitle and
+ *   byline can be disabled via {@link ExportOptions.coverPage}).
+ * - **Rich section rendering** — headings, paragraphs with inline
+ *   markdown-like formatting (`**bold**`, `*italic*`, `[text](url)`),
+ *   tables with themed header rows, bullet and numbered lists, key-value
+ *   definition lists, images, and charts drawn as inline SVG by
+ *   {@link ChartRenderer.renderSvg} in the theme's chart palette.
+ * - **References** — footnote, citation, and cross-reference markers are
+ *   resolved to plain text by {@link ReferenceResolver}, tables and
+ *   figures carry their numbered captions, and Notes and References
+ *   sections are appended.
+ *
+ * The markup is also well-formed XHTML (void elements are self-closed and
+ * only XML entities are used), which lets {@link EpubGenerator} reuse
+ * {@link HtmlGenerator.renderSection} and {@link HtmlGenerator.buildStylesheet}
+ * for its chapter documents.
+ *
+ * The generator is stateless: every call produces an independent buffer.
+ */
+
+import type {
+  DocumentContent,
+  DocumentSection,
+  ExportOptions,
+  ImageSpec,
+  SlideTheme,
+  TableData,
+} from '../types.js';
+import { getTheme } from '../themes/SlideThemes.js';
+import { ChartRenderer } from './ChartRenderer.js';
+import { ReferenceResolver } from './ReferenceResolver.js';
+
+/**
+ * Options for {@link HtmlGenerator.renderSection}.
+ */
+export interface HtmlSectionOptions {
+  /**
+   * Added to a section's `level` to pick the heading element. The
+   * standalone page uses `1` (its title is the only `<h1>`); EPUB chapters
+   * use `0`. Defaults to `1`.
+   */
+  headingOffset?: number;
+
+  /**
+   * Resolve the `src` for an image. Return `undefined` when the image is
+   * unavailable and a placeholder should be shown instead. Defaults to the
+   * image's `base64` data URI, else its `url`.
+   */
+  imageSrc?: (image: ImageSpec) => string | undefined;
+}
+
+/**
+ * Stateless HTML generator that converts {@link DocumentContent} into a
+ * themed, self-contained HTML page.
+ *
+ * @example
+ * ```ts
+ * const html = new HtmlGenerator();
+ * const buffer = await html.generate({ ...content, theme: 'dark' });
+ * fs.writeFileSync('report.html', buffer);
+ * ```
+ */
+export class HtmlGenerator {
+  /** Chart renderer instance used to draw ChartSpec → SVG. */
+  private readonly chartRenderer = new ChartRenderer();
+
+  /**
+   * Generate a complete HTML page from structured document content.
+   *
+   * @param input   - The structured document content to render.
+   * @param options - Optional export configuration overrides. Only
+   *   `coverPage` is honoured; page layout options do not apply.
+   * @returns A UTF-8 encoded Buffer containing the HTML document.
+   */
+  async generate(input: DocumentContent, options?: ExportOptions): Promise<Buffer> {
+    const content = new ReferenceResolver(input).toPlainContent();
+    const theme = getTheme(content.theme);
+    const body = content.sections
+      .map((section) => this.renderSection(section, theme))
+      .join('\n');
+
+    const html = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8"/>',
+      '<meta name="viewport" content="width=device-width, initial-scale=1"/>',
+      `<title>${escapeHtml(content.title)}</title>`,
+      content.author ? `<meta name="author" content="${escapeHtml(content.author)}"/>` : '',
+      `<style>\n${this.buildStylesheet(theme)}\n</style>`,
+      '</head>',
+      '<body>',
+      '<main>',
+      this.renderTitleBlock(content, options?.coverPage !== false),
+      body,
+      '</main>',
+      '</body>',
+      '</html>',
+    ].filter(Boolean);
+
+    return Buffer.from(`${html.join('\n')}\n`, 'utf-8');
+  }
+
+  /**
+   * Render the document title block: the title as `<h1>`, plus subtitle
+   * and author/date byline when `withDetails` is true.
+   *
+   * @param content     - The document content (title, subtitle, author, date).
+   * @param withDetails - Whether to include subtitle and byline.
+   * @returns A `<header>` element.
+   */
+  renderTitleBlock(content: DocumentContent, withDetails: boolean): string {
+    const parts = [`<h1 class="doc-title">${escapeHtml(content.title)}</h1>`];
+
+    if (withDetails) {
+      if (content.subtitle) {
+        parts.push(`<p class="doc-subtitle">${escapeHtml(content.subtitle)}</p>`);
+      }
+      const byline = [content.author, content.date ?? new Date().toISOString().slice(0, 10)]
+        .filter(Boolean)
+        .map((part) => escapeHtml(part!))
+        .join(' &#183; ');
+      parts.push(`<p class="doc-byline">${byline}</p>`);
+    }
+
+    return `<header class="doc-header">\n${parts.join('\n')}\n</header>`;
+  }
+
+  /**
+   * Render a single {@link DocumentSection} as a `<section>` element.
+   * Content is emitted in the same order as the other generators:
+   * heading, paragraphs, table, chart, image, list, key-values.
+   *
+   * @param section - The section to render.
+   * @param theme   - Theme whose chart palette colours the SVG charts.
+   * @param options - Heading offset and image source resolution.
+   * @returns Well-formed (X)HTML markup for the section.
+   */
+  renderSection(section: DocumentSection, theme: SlideTheme, options: HtmlSectionOptions = {}): string {
+    const parts: string[] = [];
+    const headingOffset = options.headingOffset ?? 1;
+    const imageSrc = options.imageSrc ?? ((image: ImageSpec) => image.base64 ?? image.url);
+
+    // ---- Heading ----
+    if (section.heading) {
+      const tag = `h${Math.min((section.level ?? 1) + headingOffset, 6)}`;
+      parts.push(`<${tag}>${escapeHtml(section.heading)}</${tag}>`);
+    }
+
+    // ---- Paragraphs ----
+    for (const para of section.paragraphs ?? []) {
+      if (para.trim()) parts.push(`<p>${formatInline(para.trim())}</p>`);
+    }
+
+    // ---- Table ----
+    if (section.table) {
+      parts.push(this.renderTable(section.table));
+    }
+
+    // ---- Chart (inline SVG) ----
+    if (section.chart) {
+      const svg = this.chartRenderer.renderSvg(section.chart, theme.chartPalette);
+      parts.push(`<figure class="chart">${svg}</figure>`);
+    }
+
+    // ---- Image ----
+    if (section.image) {
+      parts.push(this.renderImage(section.image, imageSrc(section.image)));
+    }
+
+    // ---- List ----
+    if (section.list && section.list.items.length > 0) {
+      const tag = section.list.ordered ? 'ol' : 'ul';
+      const items = section.list.items.map((item) => `<li>${formatInline(item)}</li>`).join('\n');
+      parts.push(`<${tag}>\n${items}\n</${tag}>`);
+    }
+
+    // ---- Key-values ----
+    if (section.keyValues && section.keyValues.length > 0) {
+      const entries = section.keyValues
+        .map((kv) => `<dt>${escapeHtml(kv.key)}</dt><dd>${formatInline(kv.value)}</dd>`)
+        .join('\n');
+      parts.push(`<dl class="key-values">\n${entries}\n</dl>`);
+    }
+
+    return `<section>\n${parts.join('\n')}\n</section>`;
+  }
+
+  /**
+   * Build the stylesheet for a theme: page colours and fonts, themed table
+   * header rows with alternating row shading, and chart/figure sizing.
+   *
+   * @param theme - The theme to style with.
+   * @returns CSS text (without a surrounding `<style>` element).
+   */
+  buildStylesheet(theme: SlideTheme): string {
+    return `
+body {
+  margin: 0;
+  background: ${theme.background};
+  color: ${theme.textColor};
+  font-family: ${cssFont(theme.bodyFont)};
+  line-height: 1.6;
+}
+main { max-width: 52rem; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+h1, h2, h3, h4, h5, h6 { color: ${theme.titleColor}; font-family: ${cssFont(theme.titleFont)}; line-height: 1.25; }
+a { color: ${theme.accentColor}; }
+.doc-header { border-bottom: 3px solid ${theme.accentColor}; margin-bottom: 2rem; padding-bottom: 1rem; }
+.doc-title { margin-bottom: 0.25rem; }
+.doc-subtitle { color: ${theme.mutedColor}; font-size: 1.25rem; font-style: italic; margin: 0; }
+.doc-byline { color: ${theme.mutedColor}; margin: 0.5rem 0 0; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th { background: ${theme.accentColor}; color: #ffffff; text-align: left; }
+th, td { border: 1px solid ${theme.mutedColor}; padding: 0.4rem 0.6rem; }
+tbody tr:nth-child(even) { background: rgba(127, 127, 127, 0.08); }
+figure { margin: 1.5rem 0; text-align: center; }
+figure.chart svg { max-width: 40rem; height: auto; }
+figure img { max-width: 100%; height: auto; }
+caption { caption-side: top; font-weight: bold; text-align: left; padding-bottom: 0.4rem; }
+figcaption, .placeholder { color: ${theme.mutedColor}; font-style: italic; }
+dl.key-values { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dl.key-values dt { font-weight: bold; }
+dl.key-values dd { margin: 0; }
+`.trim();
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — block renderers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Render {@link TableData} as a `<table>` with an optional `<caption>`
+   * and a header row. Cells use inline formatting like paragraphs do.
+   *
+   * @param table - The table to render.
+   * @returns The table markup.
+   */
+  private renderTable(table: TableData): string {
+    const head = table.headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+    const rows = table.rows
+      .map((row) => `<tr>${row.map((cell) => `<td>${formatInline(cell ?? '')}</td>`).join('')}</tr>`)
+      .join('\n');
+    const caption = table.caption ? `<caption>${escapeHtml(table.caption)}</caption>\n` : '';
+    return `<table>\n${caption}<thead><tr>${head}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+  }
+
+  /**
+   * Render an image as a `<figure>` with optional caption, or an italic
+   * placeholder when no source is available.
+   *
+   * @param image - The image spec (caption and width).
+   * @param src   - Resolved image source, or `undefined` if unavailable.
+   * @returns The figure or placeholder markup.
+   */
+  private renderImage(image: ImageSpec, src: string | undefined): string {
+    if (!src) {
+      return `<p class="placeholder">[Image not available${image.caption ? `: ${escapeHtml(image.caption)}` : ''}]</p>`;
+    }
+
+    const width = image.width ? ` width="${Math.round(image.width)}"` : '';
+    const caption = image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : '';
+    return `<figure><img src="${escapeHtml(src)}" alt="${escapeHtml(image.caption ?? '')}"${width}/>${caption}</figure>`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module-private helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Escape text for use in element content and quoted attribute values.
+ * Only the five XML entities are produced, keeping the output valid XHTML.
+ *
+ * @param text - Raw text.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert markdown-like inline formatting to HTML, escaping everything
+ * else. Supported markers (same as the DOCX generator):
+ *
+ * - `**text**` — `<strong>`
+ * - `*text*`   — `<em>`
+ * - `[text](url)` — `<a>`, for `http(s):` and `mailto:` URLs only;
+ *   other schemes are rendered as plain text
+ *
+ * @param text - Raw paragraph text.
+ * @returns HTML markup for the paragraph content.
+ */
+function formatInline(text: string): string {
+  const pattern = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)]+)\)|\*(.+?)\*/g;
+  let html = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    html += escapeHtml(text.slice(lastIndex, match.index));
+
+    if (match[1] !== undefined) {
+      html += `<strong>${escapeHtml(match[1])}</strong>`;
+    } else if (match[2] !== undefined) {
+      const url = match[3].trim();
+      html += /^(https?:|mailto:)/i.test(url)
+        ? `<a href="${escapeHtml(url)}">${escapeHtml(match[2])}</a>`
+        : escapeHtml(match[2]);
+    } else {
+      html += `<em>${escapeHtml(match[4])}</em>`;
+    }
+
+    lastIndex = pattern.lastIndex;
+  }
+
+  return html + escapeHtml(text.slice(lastIndex));
+}
+
+/**
+ * Build a CSS `font-family` value with a generic fallback.
+ *
+ * @param font - Theme font name (may contain spaces).
+ * @returns A quoted font family followed by a fallback.
+ */
+function cssFont(font: string): string {
+  const serif = /georgia|times|serif/i.test(font) && !/sans/i.test(font);
+  return `"${font.replace(/"/g, '')}", ${serif ? 'serif' : 'sans-serif'}`;
+}
@@ -0,0 +1,207 @@
+// @ts-nocheck
+/**
+ * @module MarkdownGenerator
+ *
+ * Generates a GitHub-Flavoured Markdown document from structured
+ * {@link DocumentContent}, for pasting into wikis, issue trackers, chat,
+ * and email. The output includes:
+ *
+ * - **Title block** — `#` title followed by subtitle, author, and date
+ *   (the metadata lines can be disabled via {@link ExportOptions.coverPage}).
+ * - **Sections** — headings one level below the title (`##`–`####`),
+ *   paragraphs passed through verbatim (they already use markdown-like
+ *   inline formatting), GFM pipe tables, bullet and numbered lists,
+ *   key-value tables, and images as `![caption](src)`.
+ * - **Charts** — rendered as tables via {@link ChartRenderer}, since
+ *   Markdown has no portable way to embed vector graphics.
+ * - **References** — footnote, citation, and cross-reference markers are
+ *   resolved to plain text by {@link ReferenceResolver}, tables and
+ *   figures carry their numbered captions, and Notes and References
+ *   sections are appended.
+ *
+ * The generator is stateless: every call produces an independent buffer.
+ */
+
+import type {
+  DocumentContent,
+  DocumentSection,
+  ExportOptions,
+  TableData,
+} from '../types.js';
+import { ChartRenderer } from './ChartRenderer.js';
+import { ReferenceResolver } from './ReferenceResolver.js';
+
+/**
+ * Stateless Markdown generator that converts {@link DocumentContent} into a
+ * UTF-8 encoded `.md` buffer.
+ *
+ * @example
+ * ```ts
+ * const markdown = new MarkdownGenerator();
+ * const buffer = await markdown.generate(content);
+ * fs.writeFileSync('report.md', buffer);
+ * ```
+ */
+export class MarkdownGenerator {
+  /** Chart renderer instance used to convert ChartSpec → TableData. */
+  private readonly chartRenderer = new ChartRenderer();
+
+  /**
+   * Generate a Markdown buffer from the provided document content.
+   *
+   * Blocks (headings, paragraphs, tables, lists, ...) are separated by a
+   * single blank line and the file ends with a trailing newline.
+   *
+   * @param input   - The structured document content to render.
+   * @param options - Optional export configuration overrides. Only
+   *   `coverPage` is honoured; page layout options do not apply.
+   * @returns A UTF-8 encoded Buffer containing the Markdown text.
+   */
+  async generate(input: DocumentContent, options?: ExportOptions): Promise<Buffer> {
+    const content = new ReferenceResolver(input).toPlainContent();
+    const blocks: string[] = [`# ${singleLine(content.title)}`];
+
+    if (options?.coverPage !== false) {
+      if (content.subtitle) blocks.push(`_${singleLine(content.subtitle)}_`);
+
+      const byline = [content.author, content.date ?? new Date().toISOString().slice(0, 10)]
+        .filter(Boolean)
+        .join(' · ');
+      blocks.push(byline);
+    }
+
+    for (const section of content.sections) {
+      blocks.push(...this.renderSection(section));
+    }
+
+    return Buffer.from(`${blocks.join('\n\n')}\n`, 'utf-8');
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — section renderer
+  // -----------------------------------------------------------------------
+
+  /**
+   * Render a single {@link DocumentSection} into Markdown blocks, in the
+   * same order the other generators use: heading, paragraphs, table,
+   * chart, image, list, key-values.
+   *
+   * @param section - The section to render.
+   * @returns The section's Markdown blocks.
+   */
+  private renderSection(section: DocumentSection): string[] {
+    const blocks: string[] = [];
+
+    // ---- Heading (the document title is the only H1) ----
+    if (section.heading) {
+      blocks.push(`${'#'.repeat((section.level ?? 1) + 1)} ${singleLine(section.heading)}`);
+    }
+
+    // ---- Paragraphs ----
+    for (const para of section.paragraphs ?? []) {
+      if (para.trim()) blocks.push(para.trim());
+    }
+
+    // ---- Table (caption above) ----
+    if (section.table) {
+      if (section.table.caption) blocks.push(`**${singleLine(section.table.caption)}**`);
+      blocks.push(this.renderTable(section.table));
+    }
+
+    // ---- Chart (rendered as a titled table) ----
+    if (section.chart) {
+      const { description, tableData } = this.chartRenderer.renderChart(section.chart);
+      blocks.push(`**${singleLine(section.chart.title ?? 'Chart Data')}**`);
+      blocks.push(this.renderTable(tableData));
+      blocks.push(`_${singleLine(description)}_`);
+    }
+
+    // ---- Image ----
+    if (section.image) {
+      const src = section.image.base64 ?? section.image.url;
+      const alt = singleLine(section.image.caption ?? '').replace(/[[\]]/g, '\\$&');
+      if (src) {
+        blocks.push(`![${alt}](${encodeDestination(src)})`);
+        if (section.image.caption) blocks.push(`_${singleLine(section.image.caption)}_`);
+      }
+    }
+
+    // ---- List ----
+    if (section.list && section.list.items.length > 0) {
+      blocks.push(
+        section.list.items
+          .map((item, i) => `${section.list!.ordered ? `${i + 1}.` : '-'} ${singleLine(item)}`)
+          .join('\n'),
+      );
+    }
+
+    // ---- Key-values ----
+    if (section.keyValues && section.keyValues.length > 0) {
+      blocks.push(
+        this.renderTable({
+          headers: ['Key', 'Value'],
+          rows: section.keyValues.map((kv) => [`**${kv.key}**`, kv.value]),
+        }),
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Render {@link TableData} as a GFM pipe table. Rows shorter than the
+   * header are padded with empty cells so every row has the same width.
+   *
+   * @param table - The table to render.
+   * @returns The pipe table as a single block.
+   */
+  private renderTable(table: TableData): string {
+    const width = Math.max(table.headers.length, ...table.rows.map((row) => row.length), 1);
+    const pad = (cells: string[]) =>
+      Array.from({ length: width }, (_, i) => escapeCell(cells[i] ?? ''));
+
+    const lines = [
+      `| ${pad(table.headers).join(' | ')} |`,
+      `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+      ...table.rows.map((row) => `| ${pad(row).join(' | ')} |`),
+    ];
+    return lines.join('\n');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module-private helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Collapse line breaks so text stays within a single Markdown line
+ * (headings, list items, emphasis).
+ *
+ * @param text - Raw text.
+ * @returns The text with runs of whitespace containing newlines replaced
+ *   by a single space.
+ */
+function singleLine(text: string): string {
+  return String(text).replace(/\s*\r?\n\s*/g, ' ').trim();
+}
+
+/**
+ * Escape a table cell: pipes would end the cell and newlines the row.
+ *
+ * @param text - Raw cell text.
+ * @returns Text safe to place between `|` delimiters.
+ */
+function escapeCell(text: string): string {
+  return String(text).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Percent-encode the characters that would end a Markdown link
+ * destination early (whitespace and parentheses).
+ *
+ * @param src - Image URL or data URI.
+ * @returns The destination safe to place inside `(...)`.
+ */
+function encodeDestination(src: string): string {
+  return src.replace(/[()\s]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
@@ -14,6 +14,12 @@
  * - Images from URLs (fetched) or base64 data URIs, with optional captions
  * - Bulleted and numbered lists
  * - Key-value pairs as inline definitions or two-column mini-tables
+ * - Numbered table and figure captions, with `[#id]` cross-references
+ *   linked to their target
+ * - Footnotes (`[^id]`) as linked note numbers collected in a "Notes"
+ *   section, and citations (`[@id]`) as linked "[n]" markers with a
+ *   "References" bibliography — see {@link ReferenceResolver}
+ * - Optional table of contents with page numbers, linked to each heading
  * - Automatic headers (document title) and footers (page numbers)
  *
  * The generator pipes the PDFDocument to a `PassThrough` stream, collects
@@ -32,6 +38,13 @@ import type {
   ImageSpec,
 } from '../types.js';
 import { ChartRenderer } from './ChartRenderer.js';
+import {
+  NOTES_HEADING,
+  REFERENCE_MARKER,
+  REFERENCES_HEADING,
+  ReferenceResolver,
+} from './ReferenceResolver.js';
+import type { NumberedEntry } from './ReferenceResolver.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -65,6 +78,15 @@ const PAGE_BREAK_THRESHOLD = 80;
 /** Timeout in milliseconds for fetching remote images. */
 const IMAGE_FETCH_TIMEOUT_MS = 10_000;
 
+/** Font size used for footnote numbers in running text. */
+const NOTE_MARKER_FONT_SIZE = 7;
+
+/** Vertical distance between table of contents entries, in points. */
+const TOC_LINE_HEIGHT = 18;
+
+/** Space reserved at the top of the first contents page for its heading. */
+const TOC_HEADING_SPACE = 50;
+
 /** Font size map for heading levels. */
 const HEADING_FONT_SIZES: Record<number, number> = {
   1: 20,
@@ -100,10 +122,15 @@ export class PdfGenerator {
    * 2. Pipe the document to a `PassThrough` stream and collect chunks.
    * 3. Register a `pageAdded` event handler for headers and footers.
    * 4. Optionally render a cover page.
-   * 5. Iterate over all sections, rendering headings, paragraphs, tables,
-   *    charts, images, lists, and key-value pairs in order.
-   * 6. Call `doc.end()` to finalise the stream.
-   * 7. Return the concatenated buffer.
+   * 5. Optionally reserve blank pages for the table of contents.
+   * 6. Iterate over all sections, rendering headings, paragraphs, tables,
+   *    charts, images, lists, and key-value pairs in order, recording the
+   *    page each heading lands on.
+   * 7. Render the Notes and References sections, if any.
+   * 8. Fill in the table of contents and write headers and footers on
+   *    every buffered page.
+   * 9. Call `doc.end()` to finalise the stream and return the
+   *    concatenated buffer.
    *
    * @param content - The structured document content to render.
    * @param options - Optional export configuration overrides.
@@ -114,6 +141,10 @@ export class PdfGenerator {
     const orientation = options?.orientation ?? 'portrait';
     const showCover = options?.coverPage !== false;
     const showPageNumbers = options?.pageNumbers !== false;
+    const refs = new ReferenceResolver(content);
+    const tocEntries = options?.tableOfContents ? refs.tocEntries() : [];
+    // Page index of each heading, by anchor (for the table of contents)
+    const headingPages = new Map<string, number>();
 
     // ---- Create document ----
     const doc = new PDFDocument({
@@ -144,17 +175,38 @@ export class PdfGenerator {
       doc.addPage();
     }
 
+    // ---- Reserve table of contents pages ----
+    const tocStartPage = doc.bufferedPageRange().count - 1;
+    let tocPageCount = 0;
+    if (tocEntries.length > 0) {
+      const perPage = Math.floor((doc.page.height - MARGIN * 2 - TOC_HEADING_SPACE) / TOC_LINE_HEIGHT);
+      tocPageCount = Math.ceil(tocEntries.length / perPage);
+      for (let i = 0; i < tocPageCount; i++) doc.addPage();
+    }
+
     // ---- Render sections ----
     for (const section of content.sections) {
-      await this.renderSection(doc, section, content.title, showPageNumbers);
+      await this.renderSection(doc, section, refs, headingPages);
     }
 
+    // ---- Notes and bibliography ----
+    this.renderEntryList(doc, NOTES_HEADING, 'notes', refs.notes(), refs, headingPages);
+    this.renderEntryList(doc, REFERENCES_HEADING, 'references', refs.references(), refs, headingPages);
+
     // ---- Write headers/footers on all buffered pages ----
     const pageRange = doc.bufferedPageRange();
     const totalPages = pageRange.count;
     // Determine the first content page (skip cover if present)
     const firstContentPage = showCover ? 1 : 0;
 
+    // ---- Fill in the reserved table of contents pages ----
+    if (tocPageCount > 0) {
+      this.renderTableOfContents(doc, tocEntries, tocStartPage, tocPageCount, (anchor) => {
+        const page = headingPages.get(anchor);
+        return page === undefined ? '' : String(page - firstContentPage + 1);
+      });
+    }
+
     for (let i = 0; i < totalPages; i++) {
       doc.switchToPage(i);
 
@@ -262,16 +314,16 @@ export class PdfGenerator {
    * Render a single {@link DocumentSection}, dispatching to the appropriate
    * sub-renderer for each content type present in the section.
    *
-   * @param doc            - The active PDFDocument.
-   * @param section        - The section to render.
-   * @param documentTitle  - The overall document title (for headers).
-   * @param showPageNumbers - Whether page numbers should be shown.
+   * @param doc          - The active PDFDocument.
+   * @param section      - The section to render.
+   * @param refs         - Resolver for markers, captions, and anchors.
+   * @param headingPages - Receives the page index of the section heading.
    */
   private async renderSection(
     doc: PDFKit.PDFDocument,
     section: DocumentSection,
-    documentTitle: string,
-    showPageNumbers: boolean,
+    refs: ReferenceResolver,
+    headingPages: Map<string, number>,
   ): Promise<void> {
     // ---- Heading ----
     if (section.heading) {
@@ -286,8 +338,10 @@ export class PdfGenerator {
         doc.moveDown(1);
       }
 
+      const anchor = refs.sectionAnchor(section)!;
       doc.fontSize(fontSize).font('Helvetica-Bold').fillColor('#000000');
-      doc.text(section.heading, { width: this.contentWidth(doc) });
+      doc.text(section.heading, { width: this.contentWidth(doc), destination: anchor });
+      headingPages.set(anchor, doc.bufferedPageRange().count - 1);
       doc.moveDown(0.5);
     }
 
@@ -295,15 +349,21 @@ export class PdfGenerator {
     if (section.paragraphs) {
       for (const paragraph of section.paragraphs) {
         this.ensureSpace(doc, 30);
-        this.renderMarkdownParagraph(doc, paragraph);
+        this.renderMarkdownParagraph(doc, paragraph, refs);
         doc.moveDown(0.6);
       }
     }
 
-    // ---- Table ----
+    // ---- Table (numbered caption above) ----
     if (section.table) {
       this.ensureSpace(doc, 60);
-      this.renderTable(doc, section.table);
+      const caption = refs.caption(section.table);
+      if (caption) {
+        doc.fontSize(10).font('Helvetica-Bold').fillColor('#000000');
+        doc.text(refs.captionText(section.table)!, { width: this.contentWidth(doc), destination: caption.anchor });
+        doc.moveDown(0.3);
+      }
+      this.renderTable(doc, this.resolveTableCells(section.table, refs));
       doc.moveDown(1);
     }
 
@@ -312,10 +372,12 @@ export class PdfGenerator {
       this.ensureSpace(doc, 60);
       const { description, tableData } = this.chartRenderer.renderChart(section.chart);
 
-      // Chart title heading
+      // Chart title heading — the figure caption when the chart is numbered
+      const caption = refs.caption(section.chart);
       doc.fontSize(13).font('Helvetica-Bold').fillColor('#000000');
-      doc.text(`Chart: ${section.chart.title ?? 'Untitled'}`, {
+      doc.text(caption ? refs.captionText(section.chart)! : `Chart: ${section.chart.title ?? 'Untitled'}`, {
         width: this.contentWidth(doc),
+        destination: caption?.anchor,
       });
       doc.moveDown(0.3);
 
@@ -331,25 +393,135 @@ export class PdfGenerator {
 
     // ---- Image ----
     if (section.image) {
-      await this.renderImage(doc, section.image);
+      await this.renderImage(doc, section.image, refs);
       doc.moveDown(1);
     }
 
     // ---- List ----
     if (section.list) {
       this.ensureSpace(doc, 30);
-      this.renderList(doc, section.list.items, section.list.ordered ?? false);
+      this.renderList(doc, section.list.items.map((item) => refs.resolveText(item)), section.list.ordered ?? false);
       doc.moveDown(0.8);
     }
 
     // ---- Key-values ----
     if (section.keyValues && section.keyValues.length > 0) {
       this.ensureSpace(doc, 40);
-      this.renderKeyValues(doc, section.keyValues);
+      this.renderKeyValues(
+        doc,
+        section.keyValues.map((kv) => ({ key: kv.key, value: refs.resolveText(kv.value) })),
+      );
       doc.moveDown(0.8);
     }
   }
 
+  /**
+   * Copy a table with reference markers in its cells resolved to plain
+   * text (table cells are drawn without inline formatting).
+   *
+   * @param table - The table to resolve.
+   * @param refs  - Resolver for markers.
+   * @returns A table safe to pass to {@link PdfGenerator.renderTable}.
+   */
+  private resolveTableCells(table: TableData, refs: ReferenceResolver): TableData {
+    return { ...table, rows: table.rows.map((row) => row.map((cell) => refs.resolveText(cell ?? ''))) };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — Notes, bibliography, and table of contents
+  // -----------------------------------------------------------------------
+
+  /**
+   * Render a numbered list of notes or bibliography entries under a
+   * level-1 heading. Each entry is a named destination, so the note and
+   * citation markers in the body link to it. Nothing is rendered when
+   * there are no entries.
+   *
+   * @param doc          - The active PDFDocument.
+   * @param heading      - Section heading ("Notes" or "References").
+   * @param anchor       - Destination name of the heading.
+   * @param entries      - The numbered entries.
+   * @param refs         - Resolver for markers inside the entries.
+   * @param headingPages - Receives the page index of the heading.
+   */
+  private renderEntryList(
+    doc: PDFKit.PDFDocument,
+    heading: string,
+    anchor: string,
+    entries: NumberedEntry[],
+    refs: ReferenceResolver,
+    headingPages: Map<string, number>,
+  ): void {
+    if (entries.length === 0) return;
+
+    this.ensureSpace(doc, 40);
+    doc.moveDown(1.5);
+    doc.fontSize(HEADING_FONT_SIZES[1]).font('Helvetica-Bold').fillColor('#000000');
+    doc.text(heading, { width: this.contentWidth(doc), destination: anchor });
+    headingPages.set(anchor, doc.bufferedPageRange().count - 1);
+    doc.moveDown(0.5);
+
+    for (const entry of entries) {
+      this.ensureSpace(doc, 30);
+      doc.addNamedDestination(entry.anchor, 'XYZ', MARGIN, doc.y, null);
+      this.renderMarkdownParagraph(doc, `${entry.number}. ${entry.text}`, refs);
+      doc.moveDown(0.4);
+    }
+  }
+
+  /**
+   * Fill the pages reserved for the table of contents. Each entry is
+   * indented by heading level, shows its page number right-aligned, and
+   * links to the heading.
+   *
+   * @param doc        - The active PDFDocument.
+   * @param entries    - Table of contents entries in document order.
+   * @param startPage  - Index of the first reserved page.
+   * @param pageCount  - Number of reserved pages.
+   * @param pageNumber - Returns the displayed page number of an anchor.
+   */
+  private renderTableOfContents(
+    doc: PDFKit.PDFDocument,
+    entries: Array<{ text: string; level: number; anchor: string }>,
+    startPage: number,
+    pageCount: number,
+    pageNumber: (anchor: string) => string,
+  ): void {
+    const numberWidth = 40;
+    let page = startPage;
+    doc.switchToPage(page);
+
+    doc.fontSize(HEADING_FONT_SIZES[1]).font('Helvetica-Bold').fillColor('#000000');
+    doc.text('Contents', MARGIN, MARGIN, { width: this.contentWidth(doc) });
+    let y = MARGIN + TOC_HEADING_SPACE;
+
+    for (const entry of entries) {
+      if (y + TOC_LINE_HEIGHT > doc.page.height - MARGIN && page < startPage + pageCount - 1) {
+        page += 1;
+        doc.switchToPage(page);
+        y = MARGIN;
+      }
+
+      const indent = (entry.level - 1) * 16;
+      doc
+        .fontSize(entry.level === 1 ? BODY_FONT_SIZE : BODY_FONT_SIZE - 1)
+        .font(entry.level === 1 ? 'Helvetica-Bold' : 'Helvetica')
+        .fillColor('#000000');
+      doc.text(entry.text, MARGIN + indent, y, {
+        width: this.contentWidth(doc) - indent - numberWidth,
+        lineBreak: false,
+        ellipsis: true,
+        goTo: entry.anchor,
+      });
+      doc.text(pageNumber(entry.anchor), MARGIN, y, {
+        width: this.contentWidth(doc),
+        align: 'right',
+        lineBreak: false,
+      });
+      y += TOC_LINE_HEIGHT;
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Private — Markdown paragraph rendering
   // -----------------------------------------------------------------------
@@ -361,27 +533,42 @@ export class PdfGenerator {
    * - `**bold text**` — rendered in Helvetica-Bold
    * - `*italic text*` — rendered in Helvetica-Oblique
    * - `[link text](url)` — rendered in blue, underlined, as a clickable link
+   * - `[^id]` — footnote number, small and linked to its note
+   * - `[@id]` — citation number "[n]", linked to the bibliography entry
+   * - `[#id]` — cross-reference label, linked to its target
    * - Plain text — rendered in Helvetica
    *
-   * The parser splits the paragraph into segments and uses pdfkit's
-   * `continued` option to chain them on the same line flow.
+   * Undefined markers are rendered verbatim. The parser splits the
+   * paragraph into segments and uses pdfkit's `continued` option to chain
+   * them on the same line flow.
    *
    * @param doc       - The active PDFDocument.
    * @param paragraph - The raw paragraph string with optional Markdown.
+   * @param refs      - Resolver for reference markers.
    */
-  private renderMarkdownParagraph(doc: PDFKit.PDFDocument, paragraph: string): void {
+  private renderMarkdownParagraph(
+    doc: PDFKit.PDFDocument,
+    paragraph: string,
+    refs: ReferenceResolver,
+  ): void {
     doc.fontSize(BODY_FONT_SIZE).fillColor('#000000');
 
-    // Regex to match **bold**, *italic*, and [text](url) patterns.
-    // Order matters: **bold** must be tried before *italic*.
-    const segmentRegex = /(\*\*(.+?)\*\*)|(\*(.+?)\*)|(\[([^\]]+)\]\(([^)]+)\))/g;
+    // Regex to match reference markers, **bold**, *italic*, and [text](url)
+    // patterns. Order matters: markers must be tried before links, and
+    // **bold** before *italic*.
+    const segmentRegex = new RegExp(
+      `(${REFERENCE_MARKER.source})|(\\*\\*(.+?)\\*\\*)|(\\*(.+?)\\*)|(\\[([^\\]]+)\\]\\(([^)]+)\\))`,
+      'g',
+    );
 
     let lastIndex = 0;
     const segments: Array<{
       text: string;
       font: string;
       color: string;
+      size?: number;
       link?: string;
+      goTo?: string;
       underline?: boolean;
     }> = [];
 
@@ -397,26 +584,47 @@ export class PdfGenerator {
       }
 
       if (match[1]) {
+        // [^id], [@id], [#id]
+        const ref = refs.lookup(match[2]!, match[3]!);
+        if (!ref) {
+          segments.push({ text: match[1], font: 'Helvetica', color: '#000000' });
+        } else if (ref.kind === 'footnote') {
+          segments.push({
+            text: String(ref.number),
+            font: 'Helvetica',
+            color: ACCENT_HEX,
+            size: NOTE_MARKER_FONT_SIZE,
+            goTo: ref.anchor,
+          });
+        } else {
+          segments.push({
+            text: ref.kind === 'citation' ? `[${ref.number}]` : ref.label!,
+            font: 'Helvetica',
+            color: ACCENT_HEX,
+            goTo: ref.anchor,
+          });
+        }
+      } else if (match[4]) {
         // **bold**
         segments.push({
-          text: match[2]!,
+          text: refs.resolveText(match[5]!),
           font: 'Helvetica-Bold',
           color: '#000000',
         });
-      } else if (match[3]) {
+      } else if (match[6]) {
         // *italic*
         segments.push({
-          text: match[4]!,
+          text: refs.resolveText(match[7]!),
           font: 'Helvetica-Oblique',
           color: '#000000',
         });
-      } else if (match[5]) {
+      } else if (match[8]) {
         // [text](url)
         segments.push({
-          text: match[6]!,
+          text: match[9]!,
           font: 'Helvetica',
           color: ACCENT_HEX,
-          link: match[7]!,
+          link: match[10]!,
           underline: true,
         });
       }
@@ -445,7 +653,7 @@ export class PdfGenerator {
       const seg = segments[i]!;
       const isLast = i === segments.length - 1;
 
-      doc.font(seg.font).fillColor(seg.color);
+      doc.font(seg.font).fontSize(seg.size ?? BODY_FONT_SIZE).fillColor(seg.color);
 
       const textOptions: PDFKit.Mixins.TextOptions = {
         width,
@@ -456,6 +664,9 @@ export class PdfGenerator {
       if (seg.link) {
         textOptions.link = seg.link;
       }
+      if (seg.goTo) {
+        textOptions.goTo = seg.goTo;
+      }
 
       doc.text(seg.text, textOptions);
     }
@@ -581,14 +792,20 @@ export class PdfGenerator {
   /**
    * Render an {@link ImageSpec} by fetching from a URL or decoding base64.
    * The image is embedded with `doc.image()` using a `fit` constraint to
-   * prevent overflow. An optional caption is rendered below in italic.
+   * prevent overflow. An optional caption is rendered below in italic,
+   * prefixed with its figure number when the image is numbered.
    *
    * On fetch failure the image is silently skipped with a console warning.
    *
    * @param doc   - The active PDFDocument.
    * @param image - The image specification.
+   * @param refs  - Resolver for the figure caption.
    */
-  private async renderImage(doc: PDFKit.PDFDocument, image: ImageSpec): Promise<void> {
+  private async renderImage(
+    doc: PDFKit.PDFDocument,
+    image: ImageSpec,
+    refs: ReferenceResolver,
+  ): Promise<void> {
     let imageBuffer: Buffer | null = null;
 
     if (image.base64) {
@@ -640,10 +857,15 @@ export class PdfGenerator {
     }
 
     // Caption
-    if (image.caption) {
+    const caption = refs.caption(image);
+    if (caption || image.caption) {
       doc.moveDown(0.3);
       doc.fontSize(9).font('Helvetica-Oblique').fillColor(MUTED_HEX);
-      doc.text(image.caption, { width: this.contentWidth(doc), align: 'center' });
+      doc.text(refs.captionText(image) ?? image.caption!, {
+        width: this.contentWidth(doc),
+        align: 'center',
+        destination: caption?.anchor,
+      });
     }
   }
 
@@ -0,0 +1,484 @@
+// @ts-nocheck
+/**
+ * @module ReferenceResolver
+ *
+ * Resolves the long-form apparatus of a {@link DocumentContent} — footnotes,
+ * citations, numbered table/figure captions, and cross-references — into
+ * numbers, labels, and anchors that every generator can share, so a
+ * citation is "[3]" and a chart is "Figure 2" no matter which format
+ * renders it.
+ *
+ * On construction the resolver walks the sections in rendering order
+ * (paragraphs, table, chart, image, list, key-values) and assigns:
+ *
+ * - **Table / figure numbers** — tables with a `caption` or `id` become
+ *   "Table N"; charts with a `title` or `id` and images with a `caption`
+ *   or `id` become "Figure N".
+ * - **Footnote numbers** — in order of first `[^id]` reference.
+ * - **Citation numbers** — in order of first `[@id]` reference; uncited
+ *   bibliography entries are numbered after the cited ones.
+ *
+ * Generators with native support (PDF, DOCX) use {@link ReferenceResolver.lookup}
+ * to render markers as links, superscripts, or footnote runs. Formats
+ * without it use {@link ReferenceResolver.toPlainContent}, which rewrites
+ * the content with markers replaced by plain text ("¹", "[3]", "Table 2")
+ * and appends "Notes" and "References" sections.
+ *
+ * Anchors are ASCII letters, digits, and underscores (`sec_2`, `tbl_1`,
+ * `fig_3`, `note_1`, `ref_4`), which is valid as a PDF named destination,
+ * a Word bookmark name, and an HTML id.
+ */
+
+import type {
+  CitationEntry,
+  ChartSpec,
+  DocumentContent,
+  DocumentSection,
+  ImageSpec,
+  TableData,
+} from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Matches one reference marker: `[^id]` (footnote), `[@id]` (citation), or
+ * `[#id]` (cross-reference). Group 1 is the sigil, group 2 the id.
+ */
+export const REFERENCE_MARKER = /\[([\^@#])([A-Za-z0-9_.:-]+)\]/;
+
+/** Heading of the generated footnote section. */
+export const NOTES_HEADING = 'Notes';
+
+/** Heading of the generated bibliography section. */
+export const REFERENCES_HEADING = 'References';
+
+/** Unicode superscript digits, indexed by digit value. */
+const SUPERSCRIPT_DIGITS = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * A resolved reference marker.
+ *
+ * - `footnote` / `citation` — `number` is the note or bibliography number.
+ * - `crossref` — `label` is the target's label ("Table 2", "Figure 1", or
+ *   the section heading).
+ *
+ * `anchor` is the link target: the note, bibliography entry, section
+ * heading, or caption.
+ */
+export interface ResolvedReference {
+  kind: 'footnote' | 'citation' | 'crossref';
+  number?: number;
+  label?: string;
+  anchor: string;
+}
+
+/**
+ * A numbered table or figure caption.
+ */
+export interface ResolvedCaption {
+  /** "Table N" or "Figure N". */
+  label: string;
+
+  /** The caption text with markers still in place, if any. */
+  text?: string;
+
+  /** Anchor of the caption. */
+  anchor: string;
+}
+
+/**
+ * A numbered note or bibliography entry.
+ */
+export interface NumberedEntry {
+  number: number;
+
+  /** Entry text (footnote text with markers in place, or formatted citation). */
+  text: string;
+
+  /** Anchor of the entry. */
+  anchor: string;
+}
+
+/**
+ * A table of contents entry.
+ */
+export interface TocEntry {
+  text: string;
+  level: 1 | 2 | 3;
+  anchor: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public class
+// ---------------------------------------------------------------------------
+
+/**
+ * Numbers and resolves footnotes, citations, captions, and cross-references
+ * for one {@link DocumentContent}. Create one instance per generation.
+ *
+ * @example
+ * ```ts
+ * const refs = new ReferenceResolver(content);
+ * refs.resolveText('Growth slowed [@imf2024], see [#tbl-gdp].');
+ * // → 'Growth slowed [1], see Table 1.'
+ * ```
+ */
+export class ReferenceResolver {
+  /** Anchors of sections with headings, by section. */
+  private readonly sectionAnchors = new Map<DocumentSection, string>();
+
+  /** Numbered tables and figures, by spec. */
+  private readonly captions = new Map<TableData | ChartSpec | ImageSpec, ResolvedCaption>();
+
+  /** Cross-reference targets, by id. */
+  private readonly targets = new Map<string, { label: string; anchor: string }>();
+
+  /** Footnote definitions, by id. */
+  private readonly footnoteDefs = new Map<string, string>();
+
+  /** Citation definitions, by id. */
+  private readonly citationDefs = new Map<string, CitationEntry>();
+
+  /** Footnote numbers in order of first reference, by id. */
+  private readonly footnoteNumbers = new Map<string, number>();
+
+  /** Citation numbers in order of first citation, by id. */
+  private readonly citationNumbers = new Map<string, number>();
+
+  /**
+   * @param content - The document to resolve. It is read, never modified.
+   */
+  constructor(private readonly content: DocumentContent) {
+    for (const note of content.footnotes ?? []) {
+      if (!this.footnoteDefs.has(note.id)) this.footnoteDefs.set(note.id, note.text);
+    }
+    for (const entry of content.citations ?? []) {
+      if (!this.citationDefs.has(entry.id)) this.citationDefs.set(entry.id, entry);
+    }
+
+    this.assignTargets();
+    this.assignNoteNumbers();
+  }
+
+  // -----------------------------------------------------------------------
+  // Lookups
+  // -----------------------------------------------------------------------
+
+  /**
+   * Resolve a single marker.
+   *
+   * @param sigil - `^` (footnote), `@` (citation), or `#` (cross-reference).
+   * @param id    - The marker id.
+   * @returns The resolved reference, or `null` when the id is not defined
+   *   (the marker should then be rendered verbatim).
+   */
+  lookup(sigil: string, id: string): ResolvedReference | null {
+    if (sigil === '^') {
+      const number = this.footnoteNumbers.get(id);
+      return number ? { kind: 'footnote', number, anchor: `note_${number}` } : null;
+    }
+    if (sigil === '@') {
+      const number = this.citationNumbers.get(id);
+      return number ? { kind: 'citation', number, anchor: `ref_${number}` } : null;
+    }
+    const target = this.targets.get(id);
+    return target ? { kind: 'crossref', label: target.label, anchor: target.anchor } : null;
+  }
+
+  /**
+   * Replace every resolvable marker in `text` with plain text: footnotes
+   * become superscript numbers ("¹"), citations "[n]", and
+   * cross-references their label.
+   *
+   * @param text - Text containing markers.
+   * @returns The text with markers resolved.
+   */
+  resolveText(text: string): string {
+    return String(text).replace(new RegExp(REFERENCE_MARKER.source, 'g'), (marker, sigil, id) => {
+      const ref = this.lookup(sigil, id);
+      if (!ref) return marker;
+      if (ref.kind === 'footnote') return superscript(ref.number!);
+      if (ref.kind === 'citation') return `[${ref.number}]`;
+      return ref.label!;
+    });
+  }
+
+  /**
+   * The numbered caption of a table, chart, or image.
+   *
+   * @param spec - A section's `table`, `chart`, or `image`.
+   * @returns The caption, or `null` when the spec is not numbered.
+   */
+  caption(spec: TableData | ChartSpec | ImageSpec): ResolvedCaption | null {
+    return this.captions.get(spec) ?? null;
+  }
+
+  /**
+   * The full caption line of a numbered table or figure with markers
+   * resolved, e.g. "Figure 2: Revenue by quarter".
+   *
+   * @param spec - A section's `table`, `chart`, or `image`.
+   * @returns The caption line, or `undefined` when the spec is not numbered.
+   */
+  captionText(spec: TableData | ChartSpec | ImageSpec): string | undefined {
+    const caption = this.captions.get(spec);
+    if (!caption) return undefined;
+    return caption.text ? `${caption.label}: ${this.resolveText(caption.text)}` : caption.label;
+  }
+
+  /**
+   * The anchor of a section's heading.
+   *
+   * @param section - A section of the document.
+   * @returns The anchor, or `undefined` when the section has no heading.
+   */
+  sectionAnchor(section: DocumentSection): string | undefined {
+    return this.sectionAnchors.get(section);
+  }
+
+  /**
+   * Referenced footnotes in number order.
+   */
+  notes(): NumberedEntry[] {
+    return [...this.footnoteNumbers].map(([id, number]) => ({
+      number,
+      text: this.footnoteDefs.get(id)!,
+      anchor: `note_${number}`,
+    }));
+  }
+
+  /**
+   * Bibliography entries in number order, formatted as plain text
+   * ("Lovelace, A. and Babbage, C. (1843). Title. Source. URL").
+   */
+  references(): NumberedEntry[] {
+    return [...this.citationNumbers].map(([id, number]) => ({
+      number,
+      text: formatCitation(this.citationDefs.get(id)!),
+      anchor: `ref_${number}`,
+    }));
+  }
+
+  /**
+   * Table of contents entries: every section heading, then the Notes and
+   * References sections when the document has them.
+   */
+  tocEntries(): TocEntry[] {
+    const entries: TocEntry[] = [];
+    for (const section of this.content.sections) {
+      const anchor = this.sectionAnchors.get(section);
+      if (anchor) entries.push({ text: section.heading!, level: section.level ?? 1, anchor });
+    }
+    if (this.footnoteNumbers.size > 0) entries.push({ text: NOTES_HEADING, level: 1, anchor: 'notes' });
+    if (this.citationNumbers.size > 0) entries.push({ text: REFERENCES_HEADING, level: 1, anchor: 'references' });
+    return entries;
+  }
+
+  // -----------------------------------------------------------------------
+  // Plain-text fallback
+  // -----------------------------------------------------------------------
+
+  /**
+   * A copy of `section` with every marker resolved to plain text and
+   * numbered captions written out: table captions and image captions are
+   * prefixed with their label, and chart titles become the figure caption.
+   *
+   * @param section - A section of the document.
+   * @returns The resolved copy; the original is not modified.
+   */
+  resolveSection(section: DocumentSection): DocumentSection {
+    const resolved: DocumentSection = { ...section };
+    const text = (value: string) => this.resolveText(value);
+
+    if (section.paragraphs) resolved.paragraphs = section.paragraphs.map(text);
+    if (section.table) {
+      resolved.table = {
+        ...section.table,
+        rows: section.table.rows.map((row) => row.map((cell) => text(cell ?? ''))),
+        caption: this.captionText(section.table) ?? section.table.caption,
+      };
+    }
+    if (section.chart) {
+      resolved.chart = { ...section.chart, title: this.captionText(section.chart) ?? section.chart.title };
+    }
+    if (section.image) {
+      resolved.image = { ...section.image, caption: this.captionText(section.image) ?? section.image.caption };
+    }
+    if (section.list) resolved.list = { ...section.list, items: section.list.items.map(text) };
+    if (section.keyValues) {
+      resolved.keyValues = section.keyValues.map((kv) => ({ key: kv.key, value: text(kv.value) }));
+    }
+    return resolved;
+  }
+
+  /**
+   * "Notes" and "References" sections as numbered lists, for formats
+   * without native footnotes. Sections are omitted when empty.
+   */
+  backMatter(): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    const notes = this.notes();
+    const references = this.references();
+
+    if (notes.length > 0) {
+      sections.push({
+        heading: NOTES_HEADING,
+        level: 1,
+        id: 'notes',
+        list: { ordered: true, items: notes.map((note) => this.resolveText(note.text)) },
+      });
+    }
+    if (references.length > 0) {
+      sections.push({
+        heading: REFERENCES_HEADING,
+        level: 1,
+        id: 'references',
+        list: { ordered: true, items: references.map((entry) => entry.text) },
+      });
+    }
+    return sections;
+  }
+
+  /**
+   * A copy of the whole document with markers resolved, captions written
+   * out, and the back matter appended. Footnote and citation definitions
+   * are dropped since they have been rendered.
+   */
+  toPlainContent(): DocumentContent {
+    const { footnotes, citations, ...rest } = this.content;
+    return {
+      ...rest,
+      sections: [...this.content.sections.map((section) => this.resolveSection(section)), ...this.backMatter()],
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — numbering passes
+  // -----------------------------------------------------------------------
+
+  /**
+   * Assign section anchors and table/figure numbers, and register every
+   * `id` as a cross-reference target. The first definition of an id wins.
+   */
+  private assignTargets(): void {
+    let tables = 0;
+    let figures = 0;
+
+    const register = (id: string | undefined, label: string, anchor: string) => {
+      if (id && !this.targets.has(id)) this.targets.set(id, { label, anchor });
+    };
+
+    this.content.sections.forEach((section, index) => {
+      if (section.heading) {
+        const anchor = `sec_${index + 1}`;
+        this.sectionAnchors.set(section, anchor);
+        register(section.id, section.heading, anchor);
+      }
+
+      if (section.table && (section.table.caption || section.table.id)) {
+        tables += 1;
+        const caption = { label: `Table ${tables}`, text: section.table.caption, anchor: `tbl_${tables}` };
+        this.captions.set(section.table, caption);
+        register(section.table.id, caption.label, caption.anchor);
+      }
+
+      for (const figure of [section.chart, section.image]) {
+        const text = figure === section.chart ? section.chart?.title : section.image?.caption;
+        if (figure && (text || figure.id)) {
+          figures += 1;
+          const caption = { label: `Figure ${figures}`, text, anchor: `fig_${figures}` };
+          this.captions.set(figure, caption);
+          register(figure.id, caption.label, caption.anchor);
+        }
+      }
+    });
+  }
+
+  /**
+   * Number footnotes and citations in order of first reference, scanning
+   * text in rendering order. A footnote's own text is scanned when it is
+   * first referenced, so citations inside notes are numbered in place.
+   * Uncited bibliography entries are numbered last.
+   */
+  private assignNoteNumbers(): void {
+    const pattern = new RegExp(REFERENCE_MARKER.source, 'g');
+
+    const scan = (text: string | undefined) => {
+      if (!text) return;
+      for (const [, sigil, id] of String(text).matchAll(pattern)) {
+        if (sigil === '^' && this.footnoteDefs.has(id) && !this.footnoteNumbers.has(id)) {
+          this.footnoteNumbers.set(id, this.footnoteNumbers.size + 1);
+          scan(this.footnoteDefs.get(id));
+        } else if (sigil === '@' && this.citationDefs.has(id) && !this.citationNumbers.has(id)) {
+          this.citationNumbers.set(id, this.citationNumbers.size + 1);
+        }
+      }
+    };
+
+    for (const section of this.content.sections) {
+      section.paragraphs?.forEach(scan);
+      if (section.table) {
+        scan(section.table.caption);
+        section.table.rows.forEach((row) => row.forEach(scan));
+      }
+      scan(section.chart?.title);
+      scan(section.image?.caption);
+      section.list?.items.forEach(scan);
+      section.keyValues?.forEach((kv) => scan(kv.value));
+    }
+
+    for (const id of this.citationDefs.keys()) {
+      if (!this.citationNumbers.has(id)) this.citationNumbers.set(id, this.citationNumbers.size + 1);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module-private helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a number with Unicode superscript digits.
+ *
+ * @param n - A positive integer.
+ * @returns The superscript string (e.g. 12 → "¹²").
+ */
+function superscript(n: number): string {
+  return String(n).replace(/\d/g, (d) => SUPERSCRIPT_DIGITS[Number(d)]);
+}
+
+/**
+ * Format a bibliography entry as a single line:
+ * `Authors (Year). Title. Source. URL (accessed Date).` — missing parts
+ * are skipped. More than three authors are shortened to "First et al.".
+ *
+ * @param entry - The citation entry.
+ * @returns The formatted entry.
+ */
+function formatCitation(entry: CitationEntry): string {
+  const authors = entry.authors?.filter(Boolean) ?? [];
+  let byline = '';
+  if (authors.length > 3) {
+    byline = `${authors[0]} et al.`;
+  } else if (authors.length > 0) {
+    byline = authors.length === 1 ? authors[0] : `${authors.slice(0, -1).join(', ')} and ${authors[authors.length - 1]}`;
+  }
+  if (entry.year !== undefined && entry.year !== '') {
+    byline = byline ? `${byline} (${entry.year})` : `(${entry.year})`;
+  }
+
+  const parts = [byline, entry.title, entry.source]
+    .filter((part) => part && String(part).trim())
+    .map((part) => String(part).trim().replace(/[^.!?]$/, '$&.'));
+
+  if (entry.url) {
+    parts.push(entry.accessed ? `${entry.url} (accessed ${entry.accessed})` : entry.url);
+  }
+  return parts.join(' ');
+}
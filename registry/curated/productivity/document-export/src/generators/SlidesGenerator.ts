@@ -16,6 +16,12 @@
  * - **Tables** — styled header rows with theme accent colours
  * - **Speaker notes** — attached per-slide when provided
  * - **Slide numbers** — bottom-right with muted theme colour
+ * - **Long-form apparatus** — slides have no footnotes or page flow, so
+ *   {@link ReferenceResolver} markers degrade to plain text (footnotes
+ *   "¹", citations "[n]", cross-references "Table 2"), captions carry
+ *   their table / figure number, and Notes and References are listed on
+ *   closing slides. An optional "Contents" slide links to each top-level
+ *   section slide.
  */
 
 import PptxGenJS from 'pptxgenjs';
@@ -30,6 +36,7 @@ import type {
   TableData,
 } from '../types.js';
 import { getTheme } from '../themes/SlideThemes.js';
+import { NOTES_HEADING, REFERENCES_HEADING, ReferenceResolver } from './ReferenceResolver.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -60,6 +67,13 @@ const CONTENT_W = SLIDE_W - MARGIN_X * 2;
 /** Timeout in milliseconds for fetching remote images. */
 const IMAGE_FETCH_TIMEOUT_MS = 10_000;
 
+/** Maximum lines on one Contents, Notes, or References slide. */
+const LISTING_LINES_PER_SLIDE = 10;
+
+/** Room a table needs on a slide for its header and first row (inches);
+ *  with less left, the table starts on a new slide. */
+const MIN_TABLE_H = 0.7;
+
 // ---------------------------------------------------------------------------
 // Helper: strip leading '#' from hex colours for pptxgenjs
 // ---------------------------------------------------------------------------
@@ -110,10 +124,13 @@ export class SlidesGenerator {
    * 1. Instantiate `PptxGenJS` and configure layout, metadata, and the
    *    slide master derived from the selected theme.
    * 2. Optionally create a title / cover slide (unless `options.coverPage`
-   *    is explicitly `false`).
-   * 3. Iterate over every {@link DocumentSection}, auto-detect or honour
-   *    the `layout` hint, and render the slide accordingly.
-   * 4. Serialise the presentation to a Node.js `Buffer`.
+   *    is explicitly `false`) and a Contents slide (when
+   *    `options.tableOfContents` is `true`).
+   * 3. Iterate over every {@link DocumentSection} with reference markers
+   *    resolved to plain text, auto-detect or honour the `layout` hint, and
+   *    render the slide accordingly.
+   * 4. Append Notes and References slides, if any.
+   * 5. Serialise the presentation to a Node.js `Buffer`.
    *
    * @param content - The structured document content to render.
    * @param options - Optional export configuration overrides.
@@ -136,17 +153,42 @@ export class SlidesGenerator {
     });
 
     // ---- Cover / title slide ----
-    if (options?.coverPage !== false) {
+    const showCover = options?.coverPage !== false;
+    if (showCover) {
       this.addCoverSlide(pptx, content, theme);
     }
 
-    // ---- Content slides ----
-    for (const section of content.sections) {
-      // Skip completely empty sections
-      if (!this.sectionHasContent(section)) {
-        continue;
+    // ---- Contents slide(s), linking to top-level section slides ----
+    const refs = new ReferenceResolver(content);
+    // Completely empty sections get no slide
+    const sections = content.sections.filter((section) => this.sectionHasContent(section));
+
+    if (options?.tableOfContents) {
+      const backMatter = [
+        { text: NOTES_HEADING, count: refs.notes().length },
+        { text: REFERENCES_HEADING, count: refs.references().length },
+      ].filter((entry) => entry.count > 0);
+      const headings = sections
+        .map((section, index) => ({ section, index }))
+        .filter(({ section }) => section.heading && (section.level ?? 1) === 1);
+
+      const contentsSlides = Math.ceil((headings.length + backMatter.length) / LISTING_LINES_PER_SLIDE);
+      const firstSectionSlide = (showCover ? 1 : 0) + contentsSlides + 1;
+
+      const lines = headings.map(({ section, index }) => ({
+        text: section.heading!,
+        slide: firstSectionSlide + index,
+      }));
+      let nextSlide = firstSectionSlide + sections.length;
+      for (const entry of backMatter) {
+        lines.push({ text: entry.text, slide: nextSlide });
+        nextSlide += Math.ceil(entry.count / LISTING_LINES_PER_SLIDE);
       }
+      this.addListingSlides(pptx, 'Contents', lines, theme);
+    }
 
+    // ---- Content slides (markers resolved to plain text) ----
+    for (const section of sections.map((s) => refs.resolveSection(s))) {
       const layout = section.layout ?? this.detectLayout(section);
       const slide = pptx.addSlide({ masterName: 'THEMED_MASTER' });
 
@@ -184,11 +226,25 @@ export class SlidesGenerator {
           break;
         case 'content':
         default:
-          await this.renderContentLayout(slide, section, theme);
+          await this.renderContentLayout(pptx, slide, section, theme);
           break;
       }
     }
 
+    // ---- Notes and References slides ----
+    this.addListingSlides(
+      pptx,
+      NOTES_HEADING,
+      refs.notes().map((note) => ({ text: `${note.number}. ${refs.resolveText(note.text)}` })),
+      theme,
+    );
+    this.addListingSlides(
+      pptx,
+      REFERENCES_HEADING,
+      refs.references().map((entry) => ({ text: `[${entry.number}] ${entry.text}` })),
+      theme,
+    );
+
     // ---- Write buffer ----
     const output = await pptx.write({ outputType: 'nodebuffer' });
     return Buffer.from(output as ArrayBuffer);
@@ -253,6 +309,72 @@ export class SlidesGenerator {
     });
   }
 
+  // -----------------------------------------------------------------------
+  // Listing slides (contents, notes, references)
+  // -----------------------------------------------------------------------
+
+  /**
+   * Add one or more slides listing `lines` under `title`, at most
+   * {@link LISTING_LINES_PER_SLIDE} per slide; continuation slides are
+   * titled "<title> (cont.)". Lines with a `slide` number link to that
+   * slide. Nothing is added when `lines` is empty.
+   *
+   * @param pptx  - The PptxGenJS presentation instance.
+   * @param title - Slide heading.
+   * @param lines - The lines to list, with optional target slide numbers.
+   * @param theme - The active slide theme.
+   */
+  private addListingSlides(
+    pptx: PptxGenJS,
+    title: string,
+    lines: Array<{ text: string; slide?: number }>,
+    theme: SlideTheme,
+  ): void {
+    for (let start = 0; start < lines.length; start += LISTING_LINES_PER_SLIDE) {
+      const slide = pptx.addSlide({ masterName: 'THEMED_MASTER' });
+      slide.slideNumber = {
+        x: '95%',
+        y: '95%',
+        fontSize: 8,
+        color: stripHash(theme.mutedColor),
+      };
+
+      slide.addText(start === 0 ? title : `${title} (cont.)`, {
+        x: MARGIN_X,
+        y: MARGIN_Y,
+        w: CONTENT_W,
+        h: 0.7,
+        fontSize: 28,
+        bold: true,
+        color: stripHash(theme.titleColor),
+        fontFace: theme.titleFont,
+        valign: 'bottom',
+      });
+
+      const textProps: PptxGenJS.TextProps[] = lines
+        .slice(start, start + LISTING_LINES_PER_SLIDE)
+        .map((line) => ({
+          text: line.text,
+          options: {
+            fontSize: 14,
+            color: stripHash(line.slide ? theme.accentColor : theme.textColor),
+            fontFace: theme.bodyFont,
+            breakLine: true,
+            paraSpaceAfter: 6,
+            ...(line.slide ? { hyperlink: { slide: line.slide } } : {}),
+          },
+        }));
+
+      slide.addText(textProps, {
+        x: MARGIN_X,
+        y: MARGIN_Y + 0.85,
+        w: CONTENT_W,
+        h: SLIDE_H - MARGIN_Y - 0.85 - 0.6,
+        valign: 'top',
+      });
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Layout: title
   // -----------------------------------------------------------------------
@@ -309,11 +431,13 @@ export class SlidesGenerator {
    * Render the default "content" layout — heading at the top with body
    * content (paragraphs, lists, key-values, tables, charts, images) below.
    *
+   * @param pptx    - The presentation, for a table that needs a slide of its own.
    * @param slide   - The target pptxgenjs Slide.
    * @param section - The document section to render.
    * @param theme   - The active slide theme.
    */
   private async renderContentLayout(
+    pptx: PptxGenJS,
     slide: PptxGenJS.Slide,
     section: DocumentSection,
     theme: SlideTheme,
@@ -366,7 +490,7 @@ export class SlidesGenerator {
 
     // ---- Table ----
     if (section.table) {
-      this.addTable(slide, section.table, currentY, theme, MARGIN_X, CONTENT_W);
+      this.addTable(pptx, slide, section.table, currentY, theme, MARGIN_X, CONTENT_W);
     }
 
     // ---- Chart ----
@@ -804,8 +928,12 @@ export class SlidesGenerator {
   }
 
   /**
-   * Add a formatted data table to the slide with a styled header row.
+   * Add a formatted data table to the slide with a styled header row and,
+   * when the table has one, a caption line above it. Rows that overflow
+   * continue on new slides; a table with no room for its header and first
+   * row starts on a new slide.
    *
+   * @param pptx  - The presentation the slide belongs to.
    * @param slide - The target pptxgenjs Slide.
    * @param table - The table data (headers + rows).
    * @param y     - Vertical offset (inches).
@@ -814,6 +942,7 @@ export class SlidesGenerator {
    * @param w     - Available width (inches).
    */
   private addTable(
+    pptx: PptxGenJS,
     slide: PptxGenJS.Slide,
     table: TableData,
     y: number,
@@ -821,6 +950,30 @@ export class SlidesGenerator {
     x: number,
     w: number,
   ): void {
+    const captionH = table.caption ? 0.4 : 0;
+    if (y + captionH + MIN_TABLE_H > SLIDE_H - MARGIN_Y) {
+      const next = pptx.addSlide({ masterName: 'THEMED_MASTER' });
+      next.slideNumber = slide.slideNumber;
+      slide = next;
+      y = MARGIN_Y;
+    }
+
+    // Caption
+    if (table.caption) {
+      slide.addText(table.caption, {
+        x,
+        y,
+        w,
+        h: 0.35,
+        fontSize: 11,
+        bold: true,
+        color: stripHash(theme.textColor),
+        fontFace: theme.bodyFont,
+        valign: 'bottom',
+      });
+      y += captionH;
+    }
+
     // Header row
     const headerRow: PptxGenJS.TableRow = table.headers.map((h) => ({
       text: h,
@@ -852,13 +1005,11 @@ export class SlidesGenerator {
     const allRows = [headerRow, ...dataRows];
     const colCount = table.headers.length;
     const colW = w / colCount;
-    const tableH = Math.min(allRows.length * 0.35, SLIDE_H - y - 0.5);
 
     slide.addTable(allRows, {
       x,
       y,
       w,
-      h: tableH,
       colW: table.columnWidths?.map((cw) => cw / 72) ?? Array(colCount).fill(colW),
       border: { type: 'solid', pt: 0.5, color: stripHash(theme.mutedColor) },
       autoPage: true,
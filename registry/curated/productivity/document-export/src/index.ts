@@ -2,12 +2,13 @@
 /**
  * @module index
  *
- * Document Export Extension Pack — generates PDF, DOCX, PPTX, CSV, and
- * XLSX documents from structured content provided by agents.
+ * Document Export Extension Pack — generates PDF, DOCX, PPTX, CSV, XLSX,
+ * Markdown, HTML, and EPUB documents from structured content provided by
+ * agents.
  *
  * Entry point for the extension; follows the standard AgentOS extension
  * pack factory pattern (see {@link createExtensionPack}). The factory
- * wires up all five format generators, the {@link ExportFileManager} for
+ * wires up all eight format generators, the {@link ExportFileManager} for
  * file persistence, and registers both the `document_export` and
  * `document_suggest` tools.
  */
@@ -17,6 +18,9 @@ import { XlsxGenerator } from './generators/XlsxGenerator.js';
 import { PdfGenerator } from './generators/PdfGenerator.js';
 import { DocxGenerator } from './generators/DocxGenerator.js';
 import { SlidesGenerator } from './generators/SlidesGenerator.js';
+import { MarkdownGenerator } from './generators/MarkdownGenerator.js';
+import { HtmlGenerator } from './generators/HtmlGenerator.js';
+import { EpubGenerator } from './generators/EpubGenerator.js';
 import { ExportFileManager } from './delivery/ExportFileManager.js';
 import { DocumentExportTool } from './tools/documentExport.js';
 import { DocumentSuggestTool } from './tools/documentSuggest.js';
@@ -46,7 +50,8 @@ export interface DocumentExportExtensionOptions {
  *
  * 1. Resolves the workspace directory and server port from context options.
  * 2. Creates the {@link ExportFileManager} for file I/O.
- * 3. Instantiates all five format generators (CSV, XLSX, PDF, DOCX, PPTX).
+ * 3. Instantiates all eight format generators (CSV, XLSX, PDF, DOCX, PPTX,
+ *    Markdown, HTML, EPUB).
  * 4. Wires the generators and file manager into the {@link DocumentExportTool}.
  * 5. Creates the stateless {@link DocumentSuggestTool}.
  * 6. Returns both tools as extension pack descriptors with lifecycle hooks.
@@ -72,6 +77,9 @@ export function createExtensionPack(context: any) {
   const pdfGenerator = new PdfGenerator();
   const docxGenerator = new DocxGenerator();
   const slidesGenerator = new SlidesGenerator();
+  const markdownGenerator = new MarkdownGenerator();
+  const htmlGenerator = new HtmlGenerator();
+  const epubGenerator = new EpubGenerator();
 
   // Create tools with all dependencies injected
   const exportTool = new DocumentExportTool(
@@ -80,6 +88,9 @@ export function createExtensionPack(context: any) {
     pdfGenerator,
     docxGenerator,
     slidesGenerator,
+    markdownGenerator,
+    htmlGenerator,
+    epubGenerator,
     fileManager,
   );
 
@@ -104,7 +115,7 @@ export function createExtensionPack(context: any) {
     ],
     onActivate: async () =>
       context.logger?.info(
-        'Document Export activated \u2014 PDF, DOCX, PPTX, CSV, XLSX',
+        'Document Export activated \u2014 PDF, DOCX, PPTX, CSV, XLSX, Markdown, HTML, EPUB',
       ),
     onDeactivate: async () =>
       context.logger?.info('Document Export Extension deactivated'),
@@ -129,6 +140,8 @@ export type {
   TableData,
   DocumentSection,
   DocumentContent,
+  FootnoteEntry,
+  CitationEntry,
   ExportOptions,
   DocumentExportInput,
   DocumentExportOutput,
@@ -67,6 +67,13 @@ export class PreviewGenerator {
       case 'pptx':
         return this.previewPptx(filePath);
 
+      case 'html':
+        return this.previewHtml(filePath);
+
+      case 'md':
+      case 'markdown':
+        return this.previewMarkdown(filePath);
+
       default:
         return this.previewGeneric(filePath, format);
     }
@@ -296,6 +303,39 @@ export class PreviewGenerator {
     return { contentType: 'text/plain', body };
   }
 
+  // -------------------------------------------------------------------------
+  // Private — HTML / Markdown preview
+  // -------------------------------------------------------------------------
+
+  /**
+   * Serve an exported HTML page as its own preview. Generated pages are
+   * standalone (inline styles and SVG), so they render without the
+   * download.
+   *
+   * @param filePath - Absolute path to the HTML file.
+   * @returns An HTML preview result containing the page itself.
+   */
+  private async previewHtml(filePath: string): Promise<PreviewResult> {
+    const body = await readFile(filePath, 'utf-8');
+    return { contentType: 'text/html', body };
+  }
+
+  /**
+   * Return the first 100 lines of a Markdown export as plain text.
+   *
+   * @param filePath - Absolute path to the Markdown file.
+   * @returns A plain-text preview result.
+   */
+  private async previewMarkdown(filePath: string): Promise<PreviewResult> {
+    const raw = await readFile(filePath, 'utf-8');
+    const lines = raw.split('\n');
+    const body = lines.length > 100
+      ? `${lines.slice(0, 100).join('\n')}\n\n… (${lines.length - 100} more lines)`
+      : raw;
+
+    return { contentType: 'text/plain', body };
+  }
+
   // -------------------------------------------------------------------------
   // Private — Generic preview
   // -------------------------------------------------------------------------
@@ -30,6 +30,9 @@ import type { XlsxGenerator } from '../generators/XlsxGenerator.js';
 import type { PdfGenerator } from '../generators/PdfGenerator.js';
 import type { DocxGenerator } from '../generators/DocxGenerator.js';
 import type { SlidesGenerator } from '../generators/SlidesGenerator.js';
+import type { MarkdownGenerator } from '../generators/MarkdownGenerator.js';
+import type { HtmlGenerator } from '../generators/HtmlGenerator.js';
+import type { EpubGenerator } from '../generators/EpubGenerator.js';
 import type { ExportFileManager } from '../delivery/ExportFileManager.js';
 
 /** Set of formats that this tool supports. */
@@ -39,11 +42,20 @@ const SUPPORTED_FORMATS: ReadonlySet<ExportFormat> = new Set([
   'pptx',
   'csv',
   'xlsx',
+  'markdown',
+  'html',
+  'epub',
 ]);
 
+/** File extensions for formats whose name is not their extension. */
+const FILE_EXTENSIONS: Partial<Record<ExportFormat, string>> = {
+  markdown: 'md',
+};
+
 /**
- * Document Export tool — generates PDF, DOCX, PPTX, CSV, or XLSX documents
- * from structured content and saves them to the agent's workspace.
+ * Document Export tool — generates PDF, DOCX, PPTX, CSV, XLSX, Markdown,
+ * HTML, or EPUB documents from structured content and saves them to the
+ * agent's workspace.
  *
  * Follows the standard AgentOS ITool interface. The tool accepts a format,
  * structured content with sections (text, tables, charts, images, lists),
@@ -53,7 +65,7 @@ const SUPPORTED_FORMATS: ReadonlySet<ExportFormat> = new Set([
  *
  * @example
  * ```ts
- * const tool = new DocumentExportTool(csv, xlsx, pdf, docx, slides, fileManager);
+ * const tool = new DocumentExportTool(csv, xlsx, pdf, docx, slides, markdown, html, epub, fileManager);
  * const result = await tool.execute({
  *   format: 'pdf',
  *   content: { title: 'Report', sections: [{ heading: 'Intro', paragraphs: ['Hello'] }] },
@@ -67,7 +79,7 @@ export class DocumentExportTool
   readonly name = 'document_export';
   readonly displayName = 'Document Export';
   readonly description =
-    'Export structured content to PDF, DOCX, PPTX, CSV, or XLSX with charts, tables, and professional themes.';
+    'Export structured content to PDF, DOCX, PPTX, CSV, XLSX, Markdown, HTML, or EPUB with charts, tables, and professional themes.';
   readonly category = 'productivity';
   readonly version = '1.0.0';
   readonly hasSideEffects = true;
@@ -78,8 +90,9 @@ export class DocumentExportTool
     properties: {
       format: {
         type: 'string',
-        enum: ['pdf', 'docx', 'pptx', 'csv', 'xlsx'],
-        description: 'Target document format.',
+        enum: ['pdf', 'docx', 'pptx', 'csv', 'xlsx', 'markdown', 'html', 'epub'],
+        description:
+          'Target document format. Use markdown for wikis and chat, html for email or web pages, epub for e-readers.',
       },
       content: {
         type: 'object',
@@ -101,6 +114,7 @@ export class DocumentExportTool
               type: 'object',
               properties: {
                 heading: { type: 'string', description: 'Section heading.' },
+                id: { type: 'string', description: 'Cross-reference id; cite with [#id].' },
                 level: {
                   type: 'integer',
                   enum: [1, 2, 3],
@@ -109,7 +123,8 @@ export class DocumentExportTool
                 paragraphs: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'Body paragraphs.',
+                  description:
+                    'Body paragraphs. May contain [^id] footnote, [@id] citation, and [#id] cross-reference markers.',
                 },
                 table: {
                   type: 'object',
@@ -126,6 +141,8 @@ export class DocumentExportTool
                         items: { type: 'string' },
                       },
                     },
+                    caption: { type: 'string', description: 'Caption, numbered as "Table N".' },
+                    id: { type: 'string', description: 'Cross-reference id.' },
                   },
                   required: ['headers', 'rows'],
                 },
@@ -137,7 +154,8 @@ export class DocumentExportTool
                       type: 'string',
                       enum: ['bar', 'line', 'pie', 'doughnut', 'area', 'scatter'],
                     },
-                    title: { type: 'string' },
+                    title: { type: 'string', description: 'Title, numbered as "Figure N".' },
+                    id: { type: 'string', description: 'Cross-reference id.' },
                     data: {
                       type: 'array',
                       items: {
@@ -175,6 +193,35 @@ export class DocumentExportTool
               },
             },
           },
+          footnotes: {
+            type: 'array',
+            description: 'Footnotes referenced from text as [^id].',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                text: { type: 'string' },
+              },
+              required: ['id', 'text'],
+            },
+          },
+          citations: {
+            type: 'array',
+            description: 'Bibliography entries referenced from text as [@id], listed under References.',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                authors: { type: 'array', items: { type: 'string' } },
+                title: { type: 'string' },
+                year: { type: 'string' },
+                source: { type: 'string', description: 'Journal, publisher, or website.' },
+                url: { type: 'string' },
+                accessed: { type: 'string', description: 'Date the URL was accessed.' },
+              },
+              required: ['id', 'title'],
+            },
+          },
         },
         required: ['title', 'sections'],
       },
@@ -187,6 +234,10 @@ export class DocumentExportTool
           orientation: { type: 'string', enum: ['portrait', 'landscape'] },
           coverPage: { type: 'boolean', description: 'Whether to generate a cover page.' },
           pageNumbers: { type: 'boolean', description: 'Whether to show page numbers.' },
+          tableOfContents: {
+            type: 'boolean',
+            description: 'Whether to add a table of contents (PDF, DOCX, PPTX).',
+          },
         },
       },
     },
@@ -210,6 +261,15 @@ export class DocumentExportTool
   /** PPTX slides generator instance. */
   private readonly slidesGenerator: SlidesGenerator;
 
+  /** Markdown generator instance. */
+  private readonly markdownGenerator: MarkdownGenerator;
+
+  /** Standalone HTML generator instance. */
+  private readonly htmlGenerator: HtmlGenerator;
+
+  /** EPUB generator instance. */
+  private readonly epubGenerator: EpubGenerator;
+
   /** File manager for saving and resolving export paths. */
   private readonly fileManager: ExportFileManager;
 
@@ -221,6 +281,9 @@ export class DocumentExportTool
    * @param pdfGenerator    - Generator for PDF format output.
    * @param docxGenerator   - Generator for DOCX format output.
    * @param slidesGenerator - Generator for PPTX format output.
+   * @param markdownGenerator - Generator for Markdown format output.
+   * @param htmlGenerator   - Generator for standalone HTML output.
+   * @param epubGenerator   - Generator for EPUB format output.
    * @param fileManager     - File manager for persisting generated documents.
    */
   constructor(
@@ -229,6 +292,9 @@ export class DocumentExportTool
     pdfGenerator: PdfGenerator,
     docxGenerator: DocxGenerator,
     slidesGenerator: SlidesGenerator,
+    markdownGenerator: MarkdownGenerator,
+    htmlGenerator: HtmlGenerator,
+    epubGenerator: EpubGenerator,
     fileManager: ExportFileManager,
   ) {
     this.csvGenerator = csvGenerator;
@@ -236,6 +302,9 @@ export class DocumentExportTool
     this.pdfGenerator = pdfGenerator;
     this.docxGenerator = docxGenerator;
     this.slidesGenerator = slidesGenerator;
+    this.markdownGenerator = markdownGenerator;
+    this.htmlGenerator = htmlGenerator;
+    this.epubGenerator = epubGenerator;
     this.fileManager = fileManager;
   }
 
@@ -273,7 +342,11 @@ export class DocumentExportTool
 
       // Save to disk
       const title = options?.filename ?? content.title;
-      const { filePath, filename } = await this.fileManager.save(buffer, title, format);
+      const { filePath, filename } = await this.fileManager.save(
+        buffer,
+        title,
+        FILE_EXTENSIONS[format] ?? format,
+      );
 
       // Build response
       const output: DocumentExportOutput = {
@@ -329,6 +402,15 @@ export class DocumentExportTool
       case 'pptx':
         return this.slidesGenerator.generate(content, options);
 
+      case 'markdown':
+        return this.markdownGenerator.generate(content, options);
+
+      case 'html':
+        return this.htmlGenerator.generate(content, options);
+
+      case 'epub':
+        return this.epubGenerator.generate(content, options);
+
       default: {
         // Exhaustiveness guard
         const _exhaustive: never = format;
@@ -19,8 +19,11 @@
  * - `pptx` — Microsoft PowerPoint Open XML
  * - `csv`  — Comma-Separated Values (tabular only)
  * - `xlsx` — Microsoft Excel Open XML
+ * - `markdown` — GitHub-Flavoured Markdown (saved as `.md`)
+ * - `html` — Standalone themed HTML page with inline SVG charts
+ * - `epub` — EPUB 3 e-book, one chapter per top-level section
  */
-export type ExportFormat = 'pdf' | 'docx' | 'pptx' | 'csv' | 'xlsx';
+export type ExportFormat = 'pdf' | 'docx' | 'pptx' | 'csv' | 'xlsx' | 'markdown' | 'html' | 'epub';
 
 // ---------------------------------------------------------------------------
 // Slide / presentation themes
@@ -28,7 +31,8 @@ export type ExportFormat = 'pdf' | 'docx' | 'pptx' | 'csv' | 'xlsx';
 
 /**
  * Visual theme definition used primarily for PPTX slide decks but also
- * applied to PDF cover pages and XLSX header styling.
+ * applied to PDF cover pages, XLSX header styling, and the HTML / EPUB
+ * stylesheets.
  *
  * Each theme bundles a cohesive set of colours, fonts, and a chart colour
  * palette so that generated documents look polished out of the box.
@@ -110,6 +114,13 @@ export interface ChartSpec {
 
   /** Label for the vertical axis (bar / line / area / scatter). */
   yAxisLabel?: string;
+
+  /**
+   * Cross-reference target id. Charts with a `title` or an `id` are
+   * numbered as figures ("Figure 2: Revenue by quarter") and can be
+   * referenced from text as `[#id]`.
+   */
+  id?: string;
 }
 
 /**
@@ -126,9 +137,15 @@ export interface ImageSpec {
    */
   base64?: string;
 
-  /** Optional caption rendered below the image. */
+  /**
+   * Optional caption rendered below the image. Images with a caption or
+   * an `id` are numbered as figures ("Figure 3: ...").
+   */
   caption?: string;
 
+  /** Cross-reference target id, referenced from text as `[#id]`. */
+  id?: string;
+
   /**
    * Desired display width in points (PDF) or inches (PPTX).
    * The generator preserves aspect ratio when only width is given.
@@ -156,6 +173,15 @@ export interface TableData {
    * XLSX). When omitted the generator auto-sizes columns.
    */
   columnWidths?: number[];
+
+  /**
+   * Optional caption rendered with the table. Tables with a caption or an
+   * `id` are numbered ("Table 1: Survey respondents by region").
+   */
+  caption?: string;
+
+  /** Cross-reference target id, referenced from text as `[#id]`. */
+  id?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -168,11 +194,28 @@ export interface TableData {
  *
  * For PPTX each section maps to one slide; for PDF/DOCX they flow
  * continuously unless a page break is implied by heading level changes.
+ *
+ * Paragraphs, list items, key-value values, table cells, and captions may
+ * contain reference markers:
+ *
+ * - `[^id]` — footnote, resolved against {@link DocumentContent.footnotes}
+ * - `[@id]` — citation, resolved against {@link DocumentContent.citations}
+ *   and numbered in order of first appearance ("[1]")
+ * - `[#id]` — cross-reference to a section, table, or figure with that
+ *   `id`, rendered as its label ("Table 2", "Figure 1", or the heading)
+ *
+ * Markers whose id is not defined are left in the text unchanged.
  */
 export interface DocumentSection {
   /** Optional section heading text. */
   heading?: string;
 
+  /**
+   * Cross-reference target id for this section's heading, referenced from
+   * text as `[#id]`.
+   */
+  id?: string;
+
   /**
    * Heading depth — 1 is top-level (maps to H1 / Heading1 / slide title),
    * 2 is a sub-heading, 3 is a minor heading.
@@ -270,6 +313,59 @@ export interface DocumentContent {
 
   /** Ordered list of content sections that make up the document body. */
   sections: DocumentSection[];
+
+  /**
+   * Footnote definitions referenced from text as `[^id]`. Footnotes are
+   * numbered in order of first reference; unreferenced entries are
+   * omitted. DOCX renders them as native footnotes, PDF as a "Notes"
+   * section, and the other formats as a trailing "Notes" list.
+   */
+  footnotes?: FootnoteEntry[];
+
+  /**
+   * Structured bibliography entries referenced from text as `[@id]`.
+   * Rendered as a numbered "References" section at the end of the
+   * document: cited entries first, in order of first citation, followed
+   * by any uncited entries in the order given.
+   */
+  citations?: CitationEntry[];
+}
+
+/**
+ * A footnote definition. See {@link DocumentContent.footnotes}.
+ */
+export interface FootnoteEntry {
+  /** Identifier used in `[^id]` markers. */
+  id: string;
+
+  /** Footnote text. May use inline formatting and `[@id]` citations. */
+  text: string;
+}
+
+/**
+ * A bibliography entry. See {@link DocumentContent.citations}.
+ */
+export interface CitationEntry {
+  /** Identifier used in `[@id]` markers. */
+  id: string;
+
+  /** Author names in citation order (e.g. `["Ada Lovelace"]`). */
+  authors?: string[];
+
+  /** Title of the cited work. */
+  title: string;
+
+  /** Publication year (or full date string). */
+  year?: string | number;
+
+  /** Journal, publisher, conference, or website the work appeared in. */
+  source?: string;
+
+  /** Link to the work. */
+  url?: string;
+
+  /** Date the URL was accessed (ISO 8601 preferred). */
+  accessed?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -293,12 +389,25 @@ export interface ExportOptions {
   /** Page orientation for paginated formats. */
   orientation?: 'portrait' | 'landscape';
 
-  /** Whether to generate a cover / title page (PDF, DOCX, PPTX). */
+  /**
+   * Whether to generate a cover / title page (PDF, DOCX, PPTX, EPUB). For
+   * Markdown and HTML this controls the subtitle and author/date byline
+   * under the title.
+   */
   coverPage?: boolean;
 
   /** Whether to add page numbers in the footer (PDF, DOCX). */
   pageNumbers?: boolean;
 
+  /**
+   * Whether to add a table of contents built from the section headings
+   * (and the Notes / References sections). PDF lists page numbers and
+   * links each entry; DOCX inserts a native TOC field that Word fills in
+   * when the file is opened; PPTX adds a "Contents" slide linking to the
+   * top-level section slides. Defaults to `false`.
+   */
+  tableOfContents?: boolean;
+
   /**
    * Explicit worksheet name for single-sheet XLSX exports. When omitted
    * the generator uses section headings or "Sheet 1".
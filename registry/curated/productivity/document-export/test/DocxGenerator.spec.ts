@@ -132,4 +132,55 @@ describe('DocxGenerator', () => {
     expect(buffer[0]).toBe(0x50);
     expect(buffer[1]).toBe(0x4b);
   });
+
+  it('should render footnotes, citations, captions, and cross-references', async () => {
+    const content = makeContent({
+      sections: [
+        {
+          heading: 'Findings',
+          level: 1,
+          id: 'findings',
+          paragraphs: ['Usage grew **sharply** [@smith2024][^weighted], see [#tbl-usage] and [#fig-trend].'],
+          list: { items: ['Details in [#findings]'] },
+        },
+        {
+          heading: 'Usage',
+          level: 2,
+          table: { id: 'tbl-usage', caption: 'Usage by region', headers: ['Region', 'Share'], rows: [['EU', '41% [^eu]']] },
+          chart: {
+            id: 'fig-trend',
+            type: 'line',
+            title: 'Usage over time',
+            data: [{ label: 'Share', values: [1, 2], categories: ['2025', '2026'] }],
+          },
+        },
+      ],
+      footnotes: [
+        { id: 'weighted', text: 'Weighted by population [@who2023].' },
+        { id: 'eu', text: 'Excluding Malta.' },
+      ],
+      citations: [
+        { id: 'smith2024', authors: ['Smith, A.'], title: 'Usage trends', year: 2024 },
+        { id: 'who2023', title: 'World health statistics', url: 'https://example.org/who' },
+      ],
+    });
+
+    const buffer = await generator.generate(content, { tableOfContents: true });
+    expect(buffer[0]).toBe(0x50);
+    expect(buffer[1]).toBe(0x4b);
+
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(buffer);
+    const body = await zip.file('word/document.xml').async('string');
+    const footnotes = await zip.file('word/footnotes.xml').async('string');
+
+    expect(body).toContain('TOC \\h \\o &quot;1-3&quot;');
+    expect(body).toContain('w:footnoteReference');
+    expect(body).toContain('w:name="tbl_1"');
+    expect(body).toContain('w:anchor="fig_1"');
+    expect(body).toContain('Table 1: Usage by region');
+    expect(body).toContain('41% ²');
+    expect(body).toContain('References');
+    expect(footnotes).toContain('Excluding Malta.');
+  });
 });
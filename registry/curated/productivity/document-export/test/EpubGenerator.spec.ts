@@ -0,0 +1,92 @@
+// @ts-nocheck
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { EpubGenerator } from '../src/generators/EpubGenerator.js';
+import type { DocumentContent } from '../src/types.js';
+
+/** 1x1 transparent PNG. */
+const PNG =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function makeContent(overrides?: Partial<DocumentContent>): DocumentContent {
+  return {
+    title: 'Test Book',
+    author: 'Test Author',
+    date: '2026-03-28',
+    sections: [
+      { paragraphs: ['Preface text.'] },
+      { heading: 'Chapter One', level: 1, paragraphs: ['Once upon a time.'] },
+      {
+        heading: 'Figures',
+        level: 2,
+        chart: { type: 'bar', data: [{ label: 'Count', values: [1, 2] }] },
+        image: { base64: PNG, caption: 'Pixel' },
+      },
+      { heading: 'Chapter Two', level: 1, list: { items: ['a', 'b'] } },
+    ],
+    ...overrides,
+  };
+}
+
+async function unzip(content: DocumentContent, options?: any) {
+  const buffer = await new EpubGenerator().generate(content, options);
+  return { buffer, zip: await JSZip.loadAsync(buffer) };
+}
+
+describe('EpubGenerator', () => {
+  it('should store an uncompressed mimetype as the first ZIP entry', async () => {
+    const { buffer } = await unzip(makeContent());
+
+    expect(buffer.subarray(0, 2).toString()).toBe('PK');
+    // Local file header: compression method at offset 8 (0 = stored), name at offset 30
+    expect(buffer.readUInt16LE(8)).toBe(0);
+    expect(buffer.subarray(30, 38).toString()).toBe('mimetype');
+    expect(buffer.subarray(38, 58).toString()).toBe('application/epub+zip');
+  });
+
+  it('should split chapters at level-1 headings and list them in the nav', async () => {
+    const { zip } = await unzip(makeContent());
+    const nav = await zip.file('OEBPS/nav.xhtml').async('string');
+
+    expect(Object.keys(zip.files).filter((f) => /chapter-\d\.xhtml$/.test(f))).toHaveLength(3);
+    expect(nav).toContain('<li><a href="chapter-1.xhtml">Test Book</a></li>');
+    expect(nav).toContain('<li><a href="chapter-2.xhtml">Chapter One</a></li>');
+    expect(nav).toContain('<li><a href="chapter-3.xhtml">Chapter Two</a></li>');
+
+    const chapter2 = await zip.file('OEBPS/chapter-2.xhtml').async('string');
+    expect(chapter2).toContain('<h1>Chapter One</h1>');
+    expect(chapter2).toContain('<h2>Figures</h2>');
+  });
+
+  it('should embed images and declare inline SVG in the package manifest', async () => {
+    const { zip } = await unzip(makeContent());
+    const opf = await zip.file('OEBPS/content.opf').async('string');
+    const chapter2 = await zip.file('OEBPS/chapter-2.xhtml').async('string');
+
+    expect(zip.file('OEBPS/images/image-1.png')).not.toBeNull();
+    expect(chapter2).toContain('<img src="images/image-1.png"');
+    expect(chapter2).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(opf).toContain('<item id="chapter-2-xhtml" href="chapter-2.xhtml" media-type="application/xhtml+xml" properties="svg"/>');
+    expect(opf).toContain('<item id="images-image-1-png" href="images/image-1.png" media-type="image/png"/>');
+    expect(opf).toContain('<dc:creator>Test Author</dc:creator>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ<\/meta>/);
+  });
+
+  it('should add a title page unless coverPage is false', async () => {
+    const withCover = await unzip(makeContent());
+    const withoutCover = await unzip(makeContent(), { coverPage: false });
+
+    const spine = (opf: string) => opf.match(/idref="[^"]+"/g);
+    expect(spine(await withCover.zip.file('OEBPS/content.opf').async('string'))[0]).toBe('idref="title-xhtml"');
+    expect(withoutCover.zip.file('OEBPS/title.xhtml')).toBeNull();
+  });
+
+  it('should replace unavailable images with a placeholder', async () => {
+    const { zip } = await unzip(
+      makeContent({ sections: [{ heading: 'Pics', image: { url: 'http://127.0.0.1:9/missing.png', caption: 'Gone' } }] }),
+    );
+    const chapter = await zip.file('OEBPS/chapter-1.xhtml').async('string');
+
+    expect(chapter).toContain('[Image not available: Figure 1: Gone]');
+  });
+});
@@ -0,0 +1,153 @@
+// @ts-nocheck
+import { describe, it, expect } from 'vitest';
+import { HtmlGenerator } from '../src/generators/HtmlGenerator.js';
+import { ChartRenderer } from '../src/generators/ChartRenderer.js';
+import { getTheme } from '../src/themes/SlideThemes.js';
+import type { DocumentContent } from '../src/types.js';
+
+function makeContent(overrides?: Partial<DocumentContent>): DocumentContent {
+  return {
+    title: 'Test Report',
+    author: 'Test Author',
+    date: '2026-03-28',
+    sections: [
+      {
+        heading: 'Summary',
+        level: 1,
+        paragraphs: ['Text with **bold**, *italic* and a [link](https://example.com?a=1&b=2).'],
+      },
+      {
+        heading: 'Chart',
+        level: 2,
+        chart: {
+          type: 'line',
+          title: 'Growth',
+          data: [{ label: 'Users', values: [1, 4, 9], categories: ['Jan', 'Feb', 'Mar'] }],
+        },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+async function render(content: DocumentContent, options?: any): Promise<string> {
+  return (await new HtmlGenerator().generate(content, options)).toString('utf-8');
+}
+
+describe('HtmlGenerator', () => {
+  it('should produce a standalone page with an inline themed stylesheet', async () => {
+    const theme = getTheme('dark');
+    const html = await render(makeContent({ theme: 'dark' }));
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Test Report</title>');
+    expect(html).toContain(`background: ${theme.background};`);
+    expect(html).toContain(`th { background: ${theme.accentColor};`);
+    expect(html).not.toMatch(/<link |<script/);
+  });
+
+  it('should render inline formatting and escape everything else', async () => {
+    const html = await render(
+      makeContent({
+        title: 'A <b> & "C"',
+        sections: [
+          { paragraphs: ['Text with **bold**, *italic* and a [link](https://example.com?a=1&b=2).'] },
+          { paragraphs: ['<script>alert(1)</script> [bad](javascript:void)'] },
+        ],
+      }),
+    );
+
+    expect(html).toContain('<h1 class="doc-title">A &lt;b&gt; &amp; &quot;C&quot;</h1>');
+    expect(html).toContain(
+      '<p>Text with <strong>bold</strong>, <em>italic</em> and a <a href="https://example.com?a=1&amp;b=2">link</a>.</p>',
+    );
+    expect(html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt; bad</p>');
+  });
+
+  it('should render charts as inline SVG in the theme palette', async () => {
+    const theme = getTheme('corporate');
+    const html = await render(makeContent({ theme: 'corporate' }));
+
+    expect(html).toContain('<figure class="chart"><svg xmlns="http://www.w3.org/2000/svg"');
+    expect(html).toContain(`stroke="${theme.chartPalette[0]}"`);
+    expect(html).toContain('<title>Line chart: Figure 1: Growth — 1 dataset, 3 categories</title>');
+  });
+
+  it('should render tables, lists, key-values, and images', async () => {
+    const html = await render(
+      makeContent({
+        sections: [
+          {
+            table: { headers: ['Name'], rows: [['Alice']] },
+            list: { items: ['One'], ordered: true },
+            keyValues: [{ key: 'Status', value: 'Done' }],
+            image: { base64: 'data:image/png;base64,AAAA', caption: 'Logo', width: 120 },
+          },
+        ],
+      }),
+    );
+
+    expect(html).toContain('<thead><tr><th>Name</th></tr></thead>');
+    expect(html).toContain('<ol>\n<li>One</li>\n</ol>');
+    expect(html).toContain('<dt>Status</dt><dd>Done</dd>');
+    expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="Figure 1: Logo" width="120"/><figcaption>Figure 1: Logo</figcaption>');
+  });
+});
+
+describe('ChartRenderer.renderSvg', () => {
+  const renderer = new ChartRenderer();
+
+  it('should draw one bar per category and dataset', () => {
+    const svg = renderer.renderSvg(
+      {
+        type: 'bar',
+        data: [
+          { label: 'A', values: [1, 2, 3], categories: ['x', 'y', 'z'] },
+          { label: 'B', values: [3, 2, 1], color: '#123456' },
+        ],
+      },
+      ['#ff0000'],
+    );
+
+    expect(svg.match(/<rect [^>]*fill="#ff0000"/g)).toHaveLength(4); // 3 bars + legend swatch
+    expect(svg.match(/<rect [^>]*fill="#123456"/g)).toHaveLength(4);
+  });
+
+  it('should draw pie and doughnut slices', () => {
+    const chart = { type: 'pie', data: [{ label: 'Share', values: [1, 1, 2], categories: ['a', 'b', 'c'] }] };
+
+    expect(renderer.renderSvg(chart).match(/<path /g)).toHaveLength(3);
+    expect(renderer.renderSvg({ ...chart, type: 'doughnut' })).toContain('c (50.0%)');
+  });
+
+  it('should escape labels', () => {
+    const svg = renderer.renderSvg({
+      type: 'scatter',
+      title: 'x < y',
+      data: [{ label: 'R&D', values: [1, 2], categories: ['0.5', '1.5'] }],
+    });
+
+    expect(svg).toContain('x &lt; y');
+    expect(svg).toContain('R&amp;D');
+  });
+
+  it('should render table captions and append notes and references', async () => {
+    const html = await render(
+      makeContent({
+        sections: [
+          {
+            paragraphs: ['See [#tbl-usage][^eu] and [@smith2024].'],
+            table: { id: 'tbl-usage', caption: 'Usage & share', headers: ['Region'], rows: [['EU']] },
+          },
+        ],
+        footnotes: [{ id: 'eu', text: 'Excluding Malta.' }],
+        citations: [{ id: 'smith2024', title: 'Usage trends' }],
+      }),
+    );
+
+    expect(html).toContain('<p>See Table 1¹ and [1].</p>');
+    expect(html).toContain('<table>\n<caption>Table 1: Usage &amp; share</caption>\n<thead>');
+    expect(html).toContain('<h2>Notes</h2>\n<ol>\n<li>Excluding Malta.</li>\n</ol>');
+    expect(html).toContain('<h2>References</h2>\n<ol>\n<li>Usage trends.</li>\n</ol>');
+  });
+});
@@ -0,0 +1,107 @@
+// @ts-nocheck
+import { describe, it, expect } from 'vitest';
+import { MarkdownGenerator } from '../src/generators/MarkdownGenerator.js';
+import type { DocumentContent } from '../src/types.js';
+
+function makeContent(overrides?: Partial<DocumentContent>): DocumentContent {
+  return {
+    title: 'Test Report',
+    subtitle: 'Quarterly numbers',
+    author: 'Test Author',
+    date: '2026-03-28',
+    sections: [
+      {
+        heading: 'Summary',
+        level: 1,
+        paragraphs: ['This is a test paragraph with **bold** and *italic* text.'],
+      },
+      {
+        heading: 'Data',
+        level: 2,
+        table: {
+          headers: ['Name', 'Score'],
+          rows: [
+            ['Alice', '95'],
+            ['Bob | Jr.', '87'],
+          ],
+        },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+async function render(content: DocumentContent, options?: any): Promise<string> {
+  return (await new MarkdownGenerator().generate(content, options)).toString('utf-8');
+}
+
+describe('MarkdownGenerator', () => {
+  it('should render the title block and nest section headings under it', async () => {
+    const md = await render(makeContent());
+
+    expect(md.startsWith('# Test Report\n\n_Quarterly numbers_\n\nTest Author · 2026-03-28\n\n')).toBe(true);
+    expect(md).toContain('\n## Summary\n');
+    expect(md).toContain('\n### Data\n');
+    expect(md.endsWith('\n')).toBe(true);
+  });
+
+  it('should omit subtitle and byline when coverPage is false', async () => {
+    const md = await render(makeContent(), { coverPage: false });
+
+    expect(md.startsWith('# Test Report\n\n## Summary')).toBe(true);
+    expect(md).not.toContain('Test Author');
+  });
+
+  it('should pass inline formatting through and render GFM tables with escaped pipes', async () => {
+    const md = await render(makeContent());
+
+    expect(md).toContain('This is a test paragraph with **bold** and *italic* text.');
+    expect(md).toContain('| Name | Score |\n| --- | --- |\n| Alice | 95 |\n| Bob \\| Jr. | 87 |');
+  });
+
+  it('should render lists, key-values, images, and charts as tables', async () => {
+    const md = await render(
+      makeContent({
+        sections: [
+          {
+            list: { items: ['First', 'Second'], ordered: true },
+            keyValues: [{ key: 'Status', value: 'Done' }],
+            image: { url: 'https://example.com/a (1).png', caption: 'Figure [1]' },
+            chart: {
+              type: 'bar',
+              title: 'Revenue',
+              data: [{ label: 'Sales', values: [10, 20], categories: ['Q1', 'Q2'] }],
+            },
+          },
+        ],
+      }),
+    );
+
+    expect(md).toContain('1. First\n2. Second');
+    expect(md).toContain('| **Status** | Done |');
+    expect(md).toContain('![Figure 2: Figure \\[1\\]](https://example.com/a%20%281%29.png)');
+    expect(md).toContain('**Figure 1: Revenue**\n\n| Category | Sales | Visual |');
+    expect(md).toContain('| Q2 | 20 |');
+  });
+
+  it('should resolve reference markers and append notes and references', async () => {
+    const md = await render(
+      makeContent({
+        sections: [
+          {
+            heading: 'Findings',
+            paragraphs: ['Usage grew [@smith2024][^weighted], see [#tbl-usage].'],
+            table: { id: 'tbl-usage', caption: 'Usage by region', headers: ['Region'], rows: [['EU']] },
+          },
+        ],
+        footnotes: [{ id: 'weighted', text: 'Weighted by population.' }],
+        citations: [{ id: 'smith2024', authors: ['Smith, A.'], title: 'Usage trends', year: 2024 }],
+      }),
+    );
+
+    expect(md).toContain('Usage grew [1]¹, see Table 1.');
+    expect(md).toContain('**Table 1: Usage by region**\n\n| Region |');
+    expect(md).toContain('## Notes\n\n1. Weighted by population.');
+    expect(md).toContain('## References\n\n1. Smith, A. (2024). Usage trends.');
+  });
+});
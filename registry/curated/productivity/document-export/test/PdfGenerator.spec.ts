@@ -130,4 +130,48 @@ describe('PdfGenerator', () => {
     expect(buffer.length).toBeGreaterThan(0);
     expect(buffer.subarray(0, 4).toString('ascii')).toBe('%PDF');
   });
+
+  it('should render footnotes, citations, captions, and cross-references', async () => {
+    const content = makeContent({
+      sections: [
+        {
+          heading: 'Findings',
+          level: 1,
+          id: 'findings',
+          paragraphs: ['Usage grew **sharply** [@smith2024][^weighted], see [#tbl-usage] and [#fig-trend].'],
+          list: { items: ['Details in [#findings]'] },
+        },
+        {
+          heading: 'Usage',
+          level: 2,
+          table: { id: 'tbl-usage', caption: 'Usage by region', headers: ['Region', 'Share'], rows: [['EU', '41% [^eu]']] },
+          chart: {
+            id: 'fig-trend',
+            type: 'line',
+            title: 'Usage over time',
+            data: [{ label: 'Share', values: [1, 2], categories: ['2025', '2026'] }],
+          },
+        },
+      ],
+      footnotes: [
+        { id: 'weighted', text: 'Weighted by population [@who2023].' },
+        { id: 'eu', text: 'Excluding Malta.' },
+      ],
+      citations: [
+        { id: 'smith2024', authors: ['Smith, A.'], title: 'Usage trends', year: 2024 },
+        { id: 'who2023', title: 'World health statistics', url: 'https://example.org/who' },
+      ],
+    });
+
+    const plain = await generator.generate(makeContent());
+    const buffer = await generator.generate(content, { tableOfContents: true });
+    const pdf = buffer.toString('latin1');
+
+    expect(buffer.subarray(0, 4).toString('ascii')).toBe('%PDF');
+    // Named destinations for headings, captions, notes, and references
+    for (const anchor of ['sec_1', 'tbl_1', 'fig_1', 'note_1', 'note_2', 'ref_1', 'ref_2', 'references']) {
+      expect(pdf).toContain(`(${anchor})`);
+    }
+    expect(buffer.length).toBeGreaterThan(plain.length);
+  });
 });
@@ -0,0 +1,156 @@
+// @ts-nocheck
+import { describe, it, expect } from 'vitest';
+import { ReferenceResolver } from '../src/generators/ReferenceResolver.js';
+import type { DocumentContent } from '../src/types.js';
+
+function makeContent(overrides?: Partial<DocumentContent>): DocumentContent {
+  return {
+    title: 'Research Report',
+    sections: [
+      {
+        heading: 'Introduction',
+        id: 'intro',
+        level: 1,
+        paragraphs: [
+          'Adoption doubled [@smith2024][^method], see [#tbl-adoption] and [#fig-trend].',
+          'Earlier work [@lee2022] agrees [@smith2024].',
+        ],
+      },
+      {
+        heading: 'Adoption',
+        level: 2,
+        table: {
+          id: 'tbl-adoption',
+          caption: 'Adoption by region',
+          headers: ['Region', 'Share'],
+          rows: [['EU', '41% [^eu]']],
+        },
+      },
+      {
+        heading: 'Untitled data',
+        level: 2,
+        table: { headers: ['A'], rows: [['1']] },
+        chart: {
+          id: 'fig-trend',
+          type: 'line',
+          title: 'Adoption over time',
+          data: [{ label: 'Share', values: [1, 2] }],
+        },
+      },
+      {
+        image: { base64: 'data:image/png;base64,AAAA', caption: 'Survey form' },
+        list: { items: ['Back to [#intro]'] },
+      },
+    ],
+    footnotes: [
+      { id: 'method', text: 'Weighted by population, as in [@who2023].' },
+      { id: 'eu', text: 'Excluding Malta.' },
+      { id: 'unused', text: 'Never referenced.' },
+    ],
+    citations: [
+      { id: 'lee2022', authors: ['Lee, J.'], title: 'Earlier survey', year: 2022, source: 'Journal of Surveys' },
+      { id: 'smith2024', authors: ['Smith, A.', 'Jones, B.'], title: 'Adoption trends', year: 2024 },
+      { id: 'who2023', title: 'World health statistics', url: 'https://example.org/who', accessed: '2026-01-05' },
+      { id: 'uncited', authors: ['A', 'B', 'C', 'D'], title: 'Background reading' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('ReferenceResolver', () => {
+  it('should number citations and footnotes in order of first reference', () => {
+    const refs = new ReferenceResolver(makeContent());
+
+    expect(refs.lookup('@', 'smith2024')).toEqual({ kind: 'citation', number: 1, anchor: 'ref_1' });
+    // Cited inside the first footnote, which is scanned where it is referenced
+    expect(refs.lookup('@', 'who2023')?.number).toBe(2);
+    expect(refs.lookup('@', 'lee2022')?.number).toBe(3);
+    expect(refs.lookup('@', 'uncited')?.number).toBe(4);
+
+    expect(refs.lookup('^', 'method')).toEqual({ kind: 'footnote', number: 1, anchor: 'note_1' });
+    expect(refs.lookup('^', 'eu')?.number).toBe(2);
+    expect(refs.lookup('^', 'unused')).toBeNull();
+    expect(refs.notes().map((note) => note.text)).toEqual([
+      'Weighted by population, as in [@who2023].',
+      'Excluding Malta.',
+    ]);
+  });
+
+  it('should number only captioned or identified tables and figures', () => {
+    const content = makeContent();
+    const refs = new ReferenceResolver(content);
+    const [, adoption, data, survey] = content.sections;
+
+    expect(refs.caption(adoption.table)).toEqual({ label: 'Table 1', text: 'Adoption by region', anchor: 'tbl_1' });
+    expect(refs.caption(data.table)).toBeNull();
+    expect(refs.captionText(data.chart)).toBe('Figure 1: Adoption over time');
+    expect(refs.captionText(survey.image)).toBe('Figure 2: Survey form');
+    expect(refs.sectionAnchor(content.sections[0])).toBe('sec_1');
+    expect(refs.sectionAnchor(survey)).toBeUndefined();
+  });
+
+  it('should resolve markers to plain text and leave undefined ones verbatim', () => {
+    const refs = new ReferenceResolver(makeContent());
+
+    expect(refs.resolveText('Adoption doubled [@smith2024][^method], see [#tbl-adoption] and [#fig-trend].')).toBe(
+      'Adoption doubled [1]¹, see Table 1 and Figure 1.',
+    );
+    expect(refs.resolveText('Back to [#intro]')).toBe('Back to Introduction');
+    expect(refs.resolveText('Missing [@nope], [^nope], [#nope]')).toBe('Missing [@nope], [^nope], [#nope]');
+  });
+
+  it('should format bibliography entries, listing uncited entries last', () => {
+    const refs = new ReferenceResolver(makeContent());
+
+    expect(refs.references().map((entry) => entry.text)).toEqual([
+      'Smith, A. and Jones, B. (2024). Adoption trends.',
+      'World health statistics. https://example.org/who (accessed 2026-01-05)',
+      'Lee, J. (2022). Earlier survey. Journal of Surveys.',
+      'A et al. Background reading.',
+    ]);
+  });
+
+  it('should list headings and back matter as table of contents entries', () => {
+    const refs = new ReferenceResolver(makeContent());
+
+    expect(refs.tocEntries()).toEqual([
+      { text: 'Introduction', level: 1, anchor: 'sec_1' },
+      { text: 'Adoption', level: 2, anchor: 'sec_2' },
+      { text: 'Untitled data', level: 2, anchor: 'sec_3' },
+      { text: 'Notes', level: 1, anchor: 'notes' },
+      { text: 'References', level: 1, anchor: 'references' },
+    ]);
+  });
+
+  it('should produce plain content with captions written out and back matter appended', () => {
+    const content = makeContent();
+    const plain = new ReferenceResolver(content).toPlainContent();
+
+    expect(plain.footnotes).toBeUndefined();
+    expect(plain.citations).toBeUndefined();
+    expect(plain.sections).toHaveLength(6);
+    expect(plain.sections[1].table.caption).toBe('Table 1: Adoption by region');
+    expect(plain.sections[1].table.rows[0][1]).toBe('41% ²');
+    expect(plain.sections[2].chart.title).toBe('Figure 1: Adoption over time');
+    expect(plain.sections[3].image.caption).toBe('Figure 2: Survey form');
+    expect(plain.sections[4]).toMatchObject({
+      heading: 'Notes',
+      list: { ordered: true, items: ['Weighted by population, as in [2].', 'Excluding Malta.'] },
+    });
+    expect(plain.sections[5].heading).toBe('References');
+    expect(plain.sections[5].list.items).toHaveLength(4);
+
+    // The input is left untouched
+    expect(content.sections[1].table.caption).toBe('Adoption by region');
+    expect(content.sections).toHaveLength(4);
+  });
+
+  it('should leave content without references unchanged', () => {
+    const plain = new ReferenceResolver({
+      title: 'Plain',
+      sections: [{ heading: 'Only', paragraphs: ['Nothing to resolve [x](https://example.org).'] }],
+    }).toPlainContent();
+
+    expect(plain.sections).toEqual([{ heading: 'Only', paragraphs: ['Nothing to resolve [x](https://example.org).'] }]);
+  });
+});
@@ -4,9 +4,8 @@ import { SlidesGenerator } from '../src/generators/SlidesGenerator.js';
 import type { DocumentContent } from '../src/types.js';
 
 /**
- * Default content helper for Slides tests. Does NOT include a table section
- * because the SlidesGenerator.addTable method has a known pptxgenjs
- * compatibility issue with the array shape it passes to slide.addTable().
+ * Default content helper for Slides tests. Tables are exercised by their
+ * own cases below.
  */
 function makeContent(overrides?: Partial<DocumentContent>): DocumentContent {
   return {
@@ -166,4 +165,97 @@ describe('SlidesGenerator', () => {
     expect(buffer[0]).toBe(0x50);
     expect(buffer[1]).toBe(0x4b);
   });
+
+  it('should render footnotes, citations, captions, and cross-references', async () => {
+    const content = makeContent({
+      sections: [
+        {
+          heading: 'Findings',
+          level: 1,
+          id: 'findings',
+          paragraphs: ['Usage grew **sharply** [@smith2024][^weighted], see [#tbl-usage] and [#fig-trend].'],
+          list: { items: ['Details in [#findings]'] },
+        },
+        {
+          heading: 'Usage',
+          level: 2,
+          table: { id: 'tbl-usage', caption: 'Usage by region', headers: ['Region', 'Share'], rows: [['EU', '41% [^eu]']] },
+          chart: {
+            id: 'fig-trend',
+            type: 'line',
+            title: 'Usage over time',
+            data: [{ label: 'Share', values: [1, 2], categories: ['2025', '2026'] }],
+          },
+        },
+      ],
+      footnotes: [
+        { id: 'weighted', text: 'Weighted by population [@who2023].' },
+        { id: 'eu', text: 'Excluding Malta.' },
+      ],
+      citations: [
+        { id: 'smith2024', authors: ['Smith, A.'], title: 'Usage trends', year: 2024 },
+        { id: 'who2023', title: 'World health statistics', url: 'https://example.org/who' },
+      ],
+    });
+
+    // Keep the table on the slide (a chart alone would pick chart-full)
+    content.sections[1].layout = 'content';
+
+    const buffer = await generator.generate(content, { tableOfContents: true });
+    expect(buffer[0]).toBe(0x50);
+    expect(buffer[1]).toBe(0x4b);
+
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(buffer);
+    const slides = await Promise.all(
+      Object.keys(zip.files)
+        .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+        .map((name) => zip.file(name).async('string')),
+    );
+    const text = slides.join('\n');
+
+    // Cover, Contents, two section slides, Notes, References
+    expect(slides).toHaveLength(6);
+    expect(text).toContain('Contents');
+    expect(text).toContain('Usage grew');
+    expect(text).toContain('[1]¹, see Table 1 and Figure 1.');
+    expect(text).toContain('Table 1: Usage by region');
+    expect(text).toContain('1. Weighted by population [2].');
+    expect(text).toContain('[1] Smith, A. (2024). Usage trends.');
+  });
+
+  it('should move a table with no room left on its slide to a new slide', async () => {
+    const content = makeContent({
+      sections: [
+        {
+          heading: 'Crowded',
+          layout: 'content',
+          paragraphs: Array.from({ length: 16 }, (_, i) => `Paragraph ${i + 1} fills the slide.`),
+          table: { caption: 'Late table', headers: ['Name', 'Score'], rows: [['Alice', '95']] },
+        },
+        {
+          heading: 'Roomy',
+          layout: 'content',
+          table: { caption: 'Short table', headers: ['Name'], rows: [['Bob']] },
+        },
+      ],
+    });
+
+    const buffer = await generator.generate(content, { coverPage: false });
+
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(buffer);
+    const slides = await Promise.all(
+      ['ppt/slides/slide1.xml', 'ppt/slides/slide2.xml', 'ppt/slides/slide3.xml'].map((name) =>
+        zip.file(name).async('string'),
+      ),
+    );
+
+    expect(slides[0]).toContain('Paragraph 16');
+    expect(slides[0]).not.toContain('Late table');
+    expect(slides[1]).toContain('Late table');
+    expect(slides[1]).toContain('Alice');
+    expect(slides[2]).toContain('Short table');
+    expect(slides[2]).toContain('Bob');
+  });
 });
@@ -5,9 +5,15 @@
  * Provides URL content extraction, YouTube transcript retrieval,
  * Wikipedia article extraction, PDF text extraction, and structured
  * data extraction via CSS selectors.
+ *
+ * Requests can optionally go through an on-disk {@link HttpCache}, which
+ * also records and replays cassettes for offline runs.
  */
 
 import axios, { AxiosInstance } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { HttpCache } from '@framers/agentos-research-shared';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -74,6 +80,59 @@ export interface StructuredExtractionResult {
   links: Array<{ text: string; href: string }>;
 }
 
+export interface ContentExtractionServiceOptions {
+  /** Route every request through an on-disk HTTP cache or cassette directory. */
+  httpCache?: HttpCache | HttpCacheOptions;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP cache adapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Axios adapter that performs requests with {@link HttpCache.fetch}.
+ * Response bodies are returned as text (or a Buffer for `arraybuffer`) so
+ * axios's usual response transforms and `validateStatus` still apply.
+ * Credential fields in request bodies are redacted by the cache before keying.
+ */
+function httpCacheAdapter(cache: HttpCache) {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const rawHeaders = config.headers?.toJSON?.() ?? config.headers ?? {};
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(rawHeaders)) {
+      if (value !== undefined && value !== null && value !== false) headers[name] = String(value);
+    }
+
+    const response = await cache.fetch(axios.getUri(config), {
+      method: (config.method ?? 'get').toUpperCase(),
+      headers,
+      body: config.data,
+      signal: config.signal ?? (config.timeout ? AbortSignal.timeout(config.timeout) : undefined),
+    });
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const result: AxiosResponse = {
+      data: config.responseType === 'arraybuffer' ? buffer : buffer.toString('utf-8'),
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers),
+      config,
+      request: {},
+    };
+
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new axios.AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? axios.AxiosError.ERR_BAD_RESPONSE : axios.AxiosError.ERR_BAD_REQUEST,
+        config,
+        result.request,
+        result,
+      );
+    }
+    return result;
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -82,10 +141,15 @@ export class ContentExtractionService {
   private httpClient: AxiosInstance;
   private running = false;
 
-  constructor() {
+  constructor(options: ContentExtractionServiceOptions = {}) {
+    const cache = options.httpCache
+      ? options.httpCache instanceof HttpCache ? options.httpCache : new HttpCache(options.httpCache)
+      : null;
+
     this.httpClient = axios.create({
       timeout: 30000,
       headers: { 'User-Agent': 'AgentOS-ContentExtraction/0.1.0' },
+      ...(cache ? { adapter: httpCacheAdapter(cache) } : {}),
     });
   }
 
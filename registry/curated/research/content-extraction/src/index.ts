@@ -9,6 +9,8 @@
  */
 
 import { ContentExtractionService } from './ContentExtractionService.js';
+import { httpCacheOptionsFromEnv } from '@framers/agentos-research-shared';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
 import { ExtractUrlTool } from './tools/url.js';
 import { ExtractYouTubeTool } from './tools/youtube.js';
 import { ExtractWikipediaTool } from './tools/wikipedia.js';
@@ -21,6 +23,11 @@ import { ExtractStructuredTool } from './tools/structured.js';
 
 export interface ContentExtractionOptions {
   secrets?: Record<string, string>;
+  /**
+   * On-disk HTTP cache or record/replay cassette directory.  Defaults to
+   * `AGENTOS_HTTP_CACHE_DIR` / `AGENTOS_HTTP_CACHE_MODE` when set.
+   */
+  httpCache?: HttpCacheOptions;
 }
 
 // ---------------------------------------------------------------------------
@@ -45,7 +52,10 @@ export interface ExtensionPack {
 // ---------------------------------------------------------------------------
 
 export function createExtensionPack(context: ExtensionContext): ExtensionPack {
-  const service = new ContentExtractionService();
+  const options = (context.options ?? {}) as ContentExtractionOptions;
+  const service = new ContentExtractionService({
+    httpCache: options.httpCache ?? httpCacheOptionsFromEnv(),
+  });
 
   const urlTool = new ExtractUrlTool(service);
   const youtubeTool = new ExtractYouTubeTool(service);
@@ -77,7 +87,10 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
 // ---------------------------------------------------------------------------
 
 export { ContentExtractionService } from './ContentExtractionService.js';
+export { HttpCache, HttpCacheMissError, httpCacheOptionsFromEnv } from '@framers/agentos-research-shared';
+export type { HttpCacheMode, HttpCacheOptions } from '@framers/agentos-research-shared';
 export type {
+  ContentExtractionServiceOptions,
   UrlExtractionResult,
   YouTubeExtractionResult,
   WikipediaExtractionResult,
@@ -0,0 +1,96 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ContentExtractionService } from '../src/ContentExtractionService';
+
+// ---------------------------------------------------------------------------
+// Real axios, mocked global fetch underneath the HTTP cache adapter
+// ---------------------------------------------------------------------------
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const ARTICLE = '<html><head><title>Cached Article</title></head><body><p>Recorded body text.</p></body></html>';
+
+async function createService(dir: string, mode: string) {
+  const service = new ContentExtractionService({ httpCache: { dir, mode } });
+  await service.initialize();
+  return service;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ContentExtractionService – HTTP cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    dir = await mkdtemp(join(tmpdir(), 'extraction-cassette-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded pages without network access', async () => {
+    mockFetch.mockResolvedValue(new Response(ARTICLE, { headers: { 'content-type': 'text/html' } }));
+    const recorder = await createService(dir, 'record');
+    await recorder.extractUrl('https://example.com/article');
+    expect(mockFetch.mock.calls[0][1].headers.get('user-agent')).toBe('AgentOS-ContentExtraction/0.1.0');
+
+    mockFetch.mockReset();
+    const player = await createService(dir, 'replay');
+    const result = await player.extractUrl('https://example.com/article');
+
+    expect(result.title).toBe('Cached Article');
+    expect(result.content).toContain('Recorded body text.');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should key requests by their query params and parse JSON responses', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/rest_v1/')
+        ? Response.json({ title: 'Alan Turing', extract: 'Summary.' })
+        : Response.json({ query: { pages: { 1: { extract: 'Full article.', categories: [{ title: 'Category:Logicians' }] } } } }),
+    );
+    await (await createService(dir, 'record')).extractWikipedia('Alan Turing');
+    expect(mockFetch.mock.calls[1][0]).toContain('titles=Alan+Turing');
+
+    mockFetch.mockReset();
+    const result = await (await createService(dir, 'replay')).extractWikipedia('Alan Turing');
+
+    expect(result.content).toBe('Full article.');
+    expect(result.metadata.categories).toEqual(['Logicians']);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should return binary bodies for arraybuffer requests', async () => {
+    const pdf = Buffer.from('%PDF-1.4\n/Title (Cassette)\n');
+    mockFetch.mockResolvedValue(new Response(pdf, { headers: { 'content-type': 'application/pdf' } }));
+    await (await createService(dir, 'record')).extractPdf('https://example.com/doc.pdf');
+
+    const result = await (await createService(dir, 'replay')).extractPdf('https://example.com/doc.pdf');
+    expect(result.metadata.title).toBe('Cassette');
+  });
+
+  it('should reject recorded error statuses like a live axios request', async () => {
+    mockFetch.mockResolvedValue(new Response('Not Found', { status: 404, statusText: 'Not Found' }));
+    await expect((await createService(dir, 'record')).extractUrl('https://example.com/missing'))
+      .rejects.toMatchObject({ name: 'AxiosError', response: { status: 404 } });
+
+    await expect((await createService(dir, 'replay')).extractUrl('https://example.com/missing'))
+      .rejects.toMatchObject({ name: 'AxiosError', response: { status: 404 } });
+  });
+
+  it('should fail unrecorded requests in replay mode', async () => {
+    const player = await createService(dir, 'replay');
+
+    await expect(player.extractUrl('https://example.com/unrecorded'))
+      .rejects.toThrow('No recorded response for GET https://example.com/unrecorded');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
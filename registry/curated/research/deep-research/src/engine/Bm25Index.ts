@@ -0,0 +1,89 @@
+// @ts-nocheck
+/**
+ * @fileoverview In-memory BM25 full-text index.
+ *
+ * Scores documents with Okapi BM25 over lowercase word tokens. Used by
+ * {@link LocalCorpusSource} to rank passages of local documents.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'which', 'with',
+]);
+
+/** Split text into lowercase word tokens, dropping stopwords and single characters. */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+export interface Bm25Options {
+  /** Term-frequency saturation. Default: 1.2. */
+  k1?: number;
+  /** Document-length normalization. Default: 0.75. */
+  b?: number;
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+}
+
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly docIds: string[] = [];
+  private readonly docLengths: number[] = [];
+  /** term → (doc index → term frequency) */
+  private readonly postings = new Map<string, Map<number, number>>();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.docIds.length;
+  }
+
+  add(id: string, text: string): void {
+    const doc = this.docIds.length;
+    const tokens = tokenize(text);
+    this.docIds.push(id);
+    this.docLengths.push(tokens.length);
+    this.totalLength += tokens.length;
+
+    for (const token of tokens) {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(token, posting);
+      }
+      posting.set(doc, (posting.get(doc) ?? 0) + 1);
+    }
+  }
+
+  /** Best-matching documents first; documents sharing no query term are omitted. */
+  search(query: string, limit = 10): Bm25Hit[] {
+    const n = this.docIds.length;
+    if (n === 0) return [];
+    const avgLength = this.totalLength / n || 1;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [doc, tf] of posting) {
+        const norm = tf + this.k1 * (1 - this.b + (this.b * this.docLengths[doc]) / avgLength);
+        scores.set(doc, (scores.get(doc) ?? 0) + (idf * tf * (this.k1 + 1)) / norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([doc, score]) => ({ id: this.docIds[doc], score }));
+  }
+}
@@ -7,7 +7,9 @@
  *   2. **Iterate**  — search → extract → gap-analysis loop
  *   3. **Synthesize** — produce a structured report (mid-tier LLM)
  *
- * Budget tracking enforces cost/time limits at every step.
+ * Budget tracking enforces cost/time limits at every step. Each run is
+ * checkpointed to a {@link IResearchRunStore} as its nodes change status, so
+ * an interrupted run can be resumed where it stopped.
  */
 
 import { randomUUID as uuid } from 'node:crypto';
@@ -15,10 +17,16 @@ import type {
   DeepResearchEngineConfig,
   DeepResearchInput,
   DeepResearchOutput,
-  ResearchBudget,
+  ExtractedContent,
+  IResearchRunStore,
+  NodeStatus,
   ResearchDepth,
   ResearchNode,
+  ResearchRun,
+  ResearchRunFilter,
+  ResearchSourceType,
   ResearchTree,
+  ResumeResearchOptions,
   SearchResultItem,
   SourceCitation,
   Finding,
@@ -28,6 +36,7 @@ import type {
 import { BUDGET_DEFAULTS, ITERATION_DEFAULTS } from './types.js';
 import { DECOMPOSITION_PROMPT, GAP_ANALYSIS_PROMPT, SYNTHESIS_PROMPT, parseJsonArray } from './prompts.js';
 import { ResearchBudgetTracker } from './ResearchBudgetTracker.js';
+import { InMemoryResearchRunStore } from './ResearchRunStore.js';
 
 // ── Helpers ──
 
@@ -51,7 +60,8 @@ async function parallelLimit<T>(tasks: (() => Promise<T>)[], limit: number): Pro
 function normalizeUrl(url: string): string {
   try {
     const u = new URL(url);
-    u.hash = '';
+    // Local corpus URLs keep their #char= fragment: it identifies the passage
+    if (u.protocol !== 'file:') u.hash = '';
     u.searchParams.delete('utm_source');
     u.searchParams.delete('utm_medium');
     u.searchParams.delete('utm_campaign');
@@ -73,6 +83,16 @@ function truncate(text: string, maxChars: number): string {
   return text.length <= maxChars ? text : text.slice(0, maxChars) + '...';
 }
 
+// ── Errors ──
+
+/** A research run failed; its last checkpoint can be resumed by ID. */
+export class ResearchRunError extends Error {
+  constructor(public readonly runId: string, reason: string) {
+    super(`Research run ${runId} failed: ${reason}`);
+    this.name = 'ResearchRunError';
+  }
+}
+
 // ── Engine ──
 
 export class DeepResearchEngine {
@@ -81,9 +101,13 @@ export class DeepResearchEngine {
   private activeProgressOverride: ((event: ResearchProgressEvent) => void) | null = null;
   /** Optional Firecrawl client for enhanced content extraction. */
   private readonly firecrawlClient?: import('./FirecrawlClient.js').FirecrawlClient;
+  private readonly runStore: IResearchRunStore;
+  /** Runs executing in this process, so one is never resumed twice at once. */
+  private readonly activeRunIds = new Set<string>();
 
   constructor(config: DeepResearchEngineConfig) {
     this.config = config;
+    this.runStore = config.runStore ?? new InMemoryResearchRunStore();
     if (config.firecrawlApiKey) {
       // Lazy import to avoid hard dependency
       try {
@@ -98,89 +122,189 @@ export class DeepResearchEngine {
 
   /**
    * Run the research pipeline.
+   *
+   * The run is checkpointed to the run store whenever a node changes status,
+   * so it can be picked up with {@link resume} after a crash or budget cut-off.
+   * Its ID is returned in `metadata.runId`.
+   *
    * @param input Research query and options.
    * @param onProgressOverride Optional per-call progress callback that takes
    *   priority over the one provided at construction time. This allows callers
    *   (like DeepResearchTool) to forward runtime progress to the tool-calling
    *   layer without rebuilding the engine.
+   * @throws {ResearchRunError} When the run fails; the checkpoint stays resumable.
    */
   async research(
     input: DeepResearchInput,
     onProgressOverride?: (event: ResearchProgressEvent) => void,
   ): Promise<DeepResearchOutput> {
-    this.activeProgressOverride = onProgressOverride ?? null;
-    try {
     const depth: ResearchDepth = input.depth ?? 'moderate';
-    const maxIterations = input.maxIterations ?? ITERATION_DEFAULTS[depth];
-    const budgetConfig: ResearchBudget = { ...BUDGET_DEFAULTS[depth], ...input.budget };
-    const budget = new ResearchBudgetTracker(budgetConfig);
-    const seenUrls = new Set<string>();
-
-    // ── Build tree ──
     const rootId = uuid();
-    const tree: ResearchTree = {
-      rootQuery: input.query,
-      rootId,
-      nodes: {
-        [rootId]: this.createNode(rootId, input.query, null, 0),
+    const now = Date.now();
+    const run: ResearchRun = {
+      id: uuid(),
+      input,
+      depth,
+      maxIterations: input.maxIterations ?? ITERATION_DEFAULTS[depth],
+      budget: { ...BUDGET_DEFAULTS[depth], ...input.budget },
+      budgetUsed: { searchesUsed: 0, extractionsUsed: 0, llmCallsUsed: 0, elapsedMs: 0 },
+      status: 'running',
+      phase: 'decomposing',
+      iteration: 0,
+      tree: {
+        rootQuery: input.query,
+        rootId,
+        nodes: {
+          [rootId]: this.createNode(rootId, input.query, null, 0),
+        },
+        maxDepth: depth === 'quick' ? 1 : depth === 'moderate' ? 2 : 3,
+        iterations: 0,
       },
-      maxDepth: depth === 'quick' ? 1 : depth === 'moderate' ? 2 : 3,
-      iterations: 0,
+      claimedUrls: {},
+      createdAt: now,
+      updatedAt: now,
+      checkpointCount: 0,
+      resumeCount: 0,
     };
+    return this.execute(run, onProgressOverride);
+  }
+
+  /**
+   * Continue a run from its last checkpoint. Budget already used still
+   * counts; pass `options.budget` to raise the caps of a run that ran out.
+   */
+  async resume(
+    runId: string,
+    options: ResumeResearchOptions = {},
+    onProgressOverride?: (event: ResearchProgressEvent) => void,
+  ): Promise<DeepResearchOutput> {
+    const run = await this.runStore.get(runId);
+    if (!run) throw new Error(`Research run ${runId} not found.`);
+    if (run.status === 'completed') throw new Error(`Research run ${runId} is already completed.`);
+    if (this.activeRunIds.has(runId)) throw new Error(`Research run ${runId} is already in progress.`);
+
+    run.budget = { ...run.budget, ...options.budget };
+    run.maxIterations = options.maxIterations ?? run.maxIterations;
+    run.status = 'running';
+    run.error = undefined;
+    run.resumeCount++;
+    // A run that ran out of budget re-enters the loop rather than re-synthesizing as-is
+    if (run.phase === 'complete') run.phase = 'searching';
+
+    // A node cut off mid-search has nothing to show for it; search it again
+    for (const node of Object.values(run.tree.nodes)) {
+      if (node.status === 'searching' && node.searchResults.length === 0) node.status = 'pending';
+    }
+    return this.execute(run, onProgressOverride);
+  }
+
+  /** Checkpointed runs, most recently updated first. */
+  async listRuns(filter?: ResearchRunFilter): Promise<ResearchRun[]> {
+    return this.runStore.list(filter);
+  }
+
+  async getRun(runId: string): Promise<ResearchRun | null> {
+    return this.runStore.get(runId);
+  }
+
+  // ── Private: Run lifecycle ──
+
+  private async execute(
+    run: ResearchRun,
+    onProgressOverride?: (event: ResearchProgressEvent) => void,
+  ): Promise<DeepResearchOutput> {
+    this.activeProgressOverride = onProgressOverride ?? null;
+    this.activeRunIds.add(run.id);
+    const budget = new ResearchBudgetTracker(run.budget, run.budgetUsed);
+    try {
+      await this.checkpoint(run, budget);
+      return await this.runPipeline(run, budget);
+    } catch (error: any) {
+      run.status = 'failed';
+      run.error = error?.message || String(error);
+      await this.checkpoint(run, budget).catch(() => { /* keep the original error */ });
+      throw new ResearchRunError(run.id, run.error);
+    } finally {
+      this.activeRunIds.delete(run.id);
+      this.activeProgressOverride = null;
+    }
+  }
+
+  private async runPipeline(run: ResearchRun, budget: ResearchBudgetTracker): Promise<DeepResearchOutput> {
+    const { input, tree, depth, maxIterations } = run;
+    const budgetConfig = run.budget;
+    const rootId = tree.rootId;
+    const claimedUrls = new Map(Object.entries(run.claimedUrls));
 
     // ── Phase 1: Decompose ──
-    this.emitProgress('decomposing', 0, maxIterations, budget, tree, input.query);
-
-    let subQueries: string[];
-    if (budget.canCallLLM()) {
-      const focusSection = input.focusAreas?.length
-        ? `\nFocus especially on: ${input.focusAreas.join(', ')}`
-        : '';
-      const prompt = DECOMPOSITION_PROMPT
-        .replace('{query}', input.query)
-        .replace('{focusAreas}', focusSection);
-      try {
-        const raw = await this.config.smallInvoker(prompt);
-        budget.recordLLMCall();
-        subQueries = parseJsonArray(raw);
-      } catch {
+    if (run.phase === 'decomposing') {
+      this.emitProgress('decomposing', 0, maxIterations, budget, tree, input.query);
+
+      let subQueries: string[];
+      if (budget.canCallLLM()) {
+        const focusSection = input.focusAreas?.length
+          ? `\nFocus especially on: ${input.focusAreas.join(', ')}`
+          : '';
+        const prompt = DECOMPOSITION_PROMPT
+          .replace('{query}', input.query)
+          .replace('{focusAreas}', focusSection);
+        try {
+          const raw = await this.config.smallInvoker(prompt);
+          budget.recordLLMCall();
+          subQueries = parseJsonArray(raw);
+        } catch {
+          subQueries = [input.query];
+        }
+      } else {
         subQueries = [input.query];
       }
-    } else {
-      subQueries = [input.query];
-    }
 
-    // Add sub-queries as children of root
-    const rootNode = tree.nodes[rootId];
-    rootNode.subQueries = subQueries;
-    for (const sq of subQueries) {
-      const childId = uuid();
-      tree.nodes[childId] = this.createNode(childId, sq, rootId, 1);
-      rootNode.children.push(childId);
+      // Add sub-queries as children of root
+      const rootNode = tree.nodes[rootId];
+      rootNode.subQueries = subQueries;
+      for (const sq of subQueries) {
+        const childId = uuid();
+        tree.nodes[childId] = this.createNode(childId, sq, rootId, 1);
+        rootNode.children.push(childId);
+      }
+
+      run.phase = 'searching';
+      await this.checkpoint(run, budget);
     }
 
     // ── Phase 2: Iterative Search/Extract/Gap loop ──
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
-      if (budget.isExhausted()) break;
+    let stoppedByBudget = false;
+    for (let iteration = run.iteration; iteration < maxIterations; iteration++) {
+      if (budget.isExhausted()) {
+        stoppedByBudget = true;
+        break;
+      }
+      run.iteration = iteration;
       tree.iterations = iteration + 1;
 
-      // 2a — Search pending leaf nodes
+      // 2a — Search pending leaf nodes; nodes interrupted after their search go straight to extraction
       const pendingNodes = this.getPendingLeaves(tree);
-      if (pendingNodes.length === 0) break;
+      const interruptedNodes = Object.values(tree.nodes).filter(
+        (n) => n.status === 'searching' || n.status === 'extracting',
+      );
+      if (pendingNodes.length === 0 && interruptedNodes.length === 0) break;
 
       this.emitProgress('searching', iteration, maxIterations, budget, tree);
 
       const searchTasks = pendingNodes
         .filter(() => budget.canSearch())
         .map((node) => async () => {
-          node.status = 'searching';
+          await this.setNodeStatus(run, budget, node, 'searching');
           try {
             const results = await this.searchNode(node, input.sources);
             budget.recordSearch();
             node.searchResults = results;
+            // Nothing to extract; don't leave the node looking interrupted
+            if (results.length === 0) node.status = 'complete';
           } catch {
             node.status = 'failed';
           }
+          await this.checkpoint(run, budget);
         });
 
       await parallelLimit(searchTasks, 5);
@@ -188,38 +312,35 @@ export class DeepResearchEngine {
       // 2b — Extract content from top URLs
       this.emitProgress('extracting', iteration, maxIterations, budget, tree);
 
-      const extractableNodes = pendingNodes.filter(
+      const extractableNodes = [...interruptedNodes, ...pendingNodes].filter(
         (n) => n.searchResults.length > 0 && n.status !== 'failed',
       );
 
       for (const node of extractableNodes) {
         if (!budget.canExtract()) break;
-        node.status = 'extracting';
+        await this.setNodeStatus(run, budget, node, 'extracting');
+
+        const resultsByUrl = new Map(node.searchResults.map((r) => [r.url, r]));
 
-        // Take top 3 URLs per node that we haven't seen
+        // Take top 3 URLs per node that no other node has claimed
         const urls = node.searchResults
           .map((r) => r.url)
           .filter((url) => {
             const norm = normalizeUrl(url);
-            if (seenUrls.has(norm)) return false;
-            seenUrls.add(norm);
+            const owner = claimedUrls.get(norm);
+            if (owner && owner !== node.id) return false;
+            claimedUrls.set(norm, node.id);
+            run.claimedUrls[norm] = node.id;
             return true;
           })
-          .slice(0, 3);
+          .slice(0, 3)
+          .filter((url) => !node.extractedContent.some((c) => c.url === url));
 
         for (const url of urls) {
           if (!budget.canExtract()) break;
           try {
-            const extracted = await this.extractUrl(url);
+            node.extractedContent.push(await this.extractResult(url, resultsByUrl.get(url)?.providerId));
             budget.recordExtraction();
-            node.extractedContent.push({
-              url,
-              title: extracted.title,
-              content: truncate(extracted.content, 2000),
-              wordCount: extracted.wordCount,
-              type: detectUrlType(url),
-              extractedAt: new Date().toISOString(),
-            });
           } catch {
             // Skip failed extractions
           }
@@ -227,8 +348,14 @@ export class DeepResearchEngine {
 
         // Build findings from extracted content
         node.findings = this.buildFindings(node);
-        node.status = 'complete';
         node.confidenceScore = node.findings.length > 0 ? Math.min(node.findings.length / 3, 1) : 0;
+        await this.setNodeStatus(run, budget, node, 'complete');
+      }
+
+      // Nodes the budget left unsearched or unextracted keep this iteration open for a resume
+      if ([...interruptedNodes, ...pendingNodes].some((n) => n.status !== 'complete' && n.status !== 'failed')) {
+        stoppedByBudget = true;
+        break;
       }
 
       // 2c — Gap analysis (skip on last iteration)
@@ -263,61 +390,70 @@ export class DeepResearchEngine {
           }
         }
       }
+
+      run.iteration = iteration + 1;
+      await this.checkpoint(run, budget);
     }
 
-    // ── Phase 2b: Firecrawl deep crawl (deep depth only) ──
-    if (
-      input.depth === 'deep' &&
-      this.firecrawlClient &&
-      this.config.firecrawl?.enableCrawl
-    ) {
-      this.emitProgress('extracting', tree.iterations, maxIterations, budget, tree);
-
-      const domainCounts = new Map<string, number>();
-      for (const node of Object.values(tree.nodes)) {
-        for (const result of node.searchResults) {
-          try {
-            const domain = new URL(result.url).hostname;
-            domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
-          } catch { /* skip invalid URLs */ }
+    if (run.phase === 'searching') {
+      // ── Phase 2b: Firecrawl deep crawl (deep depth only) ──
+      if (
+        depth === 'deep' &&
+        this.firecrawlClient &&
+        this.config.firecrawl?.enableCrawl
+      ) {
+        this.emitProgress('extracting', tree.iterations, maxIterations, budget, tree);
+
+        const domainCounts = new Map<string, number>();
+        for (const node of Object.values(tree.nodes)) {
+          for (const result of node.searchResults) {
+            if (result.providerId) continue;
+            try {
+              const domain = new URL(result.url).hostname;
+              domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+            } catch { /* skip invalid URLs */ }
+          }
         }
-      }
 
-      const topDomains = [...domainCounts.entries()]
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([domain]) => domain);
+        const topDomains = [...domainCounts.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([domain]) => domain);
 
-      for (const domain of topDomains) {
-        if (budget.isExhausted()) break;
-        try {
-          const crawlResult = await this.firecrawlClient.crawl(`https://${domain}`);
-          const rootNode = tree.nodes[tree.rootId];
-          for (const page of crawlResult.pages) {
-            if (budget.isExhausted()) break;
-            rootNode.extractedContent.push({
-              url: page.url,
-              title: page.title,
-              content: page.content.slice(0, 5000),
-              wordCount: page.wordCount,
-              type: 'web',
-              extractedAt: new Date().toISOString(),
-            });
-            budget.recordExtraction();
-          }
-        } catch { /* crawl failed for this domain — continue */ }
+        for (const domain of topDomains) {
+          if (budget.isExhausted()) break;
+          try {
+            const crawlResult = await this.firecrawlClient.crawl(`https://${domain}`);
+            const rootNode = tree.nodes[tree.rootId];
+            for (const page of crawlResult.pages) {
+              if (budget.isExhausted()) break;
+              rootNode.extractedContent.push({
+                url: page.url,
+                title: page.title,
+                content: page.content.slice(0, 5000),
+                wordCount: page.wordCount,
+                type: 'web',
+                extractedAt: new Date().toISOString(),
+              });
+              budget.recordExtraction();
+            }
+          } catch { /* crawl failed for this domain — continue */ }
+        }
       }
-    }
 
-    // ── Phase 2c: Rerank findings before synthesis ──
-    if (this.config.rerankFindingsFn) {
-      const preRankFindings = this.collectAllFindings(tree);
-      if (preRankFindings.length > 0) {
-        try {
-          const reranked = await this.config.rerankFindingsFn(input.query, preRankFindings);
-          tree.nodes[tree.rootId].findings = reranked;
-        } catch { /* reranking failed — proceed with unranked */ }
+      // ── Phase 2c: Rerank findings before synthesis ──
+      if (this.config.rerankFindingsFn) {
+        const preRankFindings = this.collectAllFindings(tree);
+        if (preRankFindings.length > 0) {
+          try {
+            const reranked = await this.config.rerankFindingsFn(input.query, preRankFindings);
+            tree.nodes[tree.rootId].findings = reranked;
+          } catch { /* reranking failed — proceed with unranked */ }
+        }
       }
+
+      run.phase = 'synthesizing';
+      await this.checkpoint(run, budget);
     }
 
     // ── Phase 3: Synthesize ──
@@ -360,7 +496,7 @@ export class DeepResearchEngine {
 
     const used = budget.getUsed();
 
-    return {
+    const output: DeepResearchOutput = {
       executiveSummary,
       detailedFindings: allFindings,
       sources,
@@ -374,11 +510,34 @@ export class DeepResearchEngine {
         totalLLMCalls: used.llmCallsUsed,
         totalTimeMs: budget.getElapsedMs(),
         iterations: tree.iterations,
+        runId: run.id,
       },
     };
-    } finally {
-      this.activeProgressOverride = null;
-    }
+
+    // A run cut off by its budget can be resumed later with a bigger one
+    run.status = stoppedByBudget ? 'budget_exhausted' : 'completed';
+    run.phase = 'complete';
+    run.output = output;
+    await this.checkpoint(run, budget);
+
+    return output;
+  }
+
+  private async setNodeStatus(
+    run: ResearchRun,
+    budget: ResearchBudgetTracker,
+    node: ResearchNode,
+    status: NodeStatus,
+  ): Promise<void> {
+    node.status = status;
+    await this.checkpoint(run, budget);
+  }
+
+  private async checkpoint(run: ResearchRun, budget: ResearchBudgetTracker): Promise<void> {
+    run.budgetUsed = { ...budget.getUsed(), elapsedMs: budget.getElapsedMs() };
+    run.updatedAt = Date.now();
+    run.checkpointCount++;
+    await this.runStore.save(run);
   }
 
   // ── Private: Node helpers ──
@@ -408,13 +567,33 @@ export class DeepResearchEngine {
 
   // ── Private: Search ──
 
+  /**
+   * Search source providers, then the web. `sources: ['local']` or
+   * `webSearch: false` keeps the search to providers only.
+   */
   private async searchNode(
     node: ResearchNode,
-    sources?: Array<'web' | 'academic' | 'news' | 'social'>,
+    sources?: ResearchSourceType[],
   ): Promise<SearchResultItem[]> {
+    const results: SearchResultItem[] = [];
+    if (!sources || sources.includes('local')) {
+      for (const provider of this.config.sourceProviders ?? []) {
+        try {
+          const found = await provider.search(node.query, 10);
+          results.push(...found.map((r) => ({ ...r, providerId: provider.id })));
+        } catch { /* provider failed — continue with the others */ }
+      }
+    }
+
+    const wantsWeb = !sources || sources.some((s) => s !== 'local');
+    if (this.config.webSearch === false || !wantsWeb) return results;
+    return [...results, ...(await this.searchWeb(node.query))];
+  }
+
+  private async searchWeb(query: string): Promise<SearchResultItem[]> {
     const searchFn = this.config.searchFn;
     if (searchFn) {
-      return searchFn(node.query, 10);
+      return searchFn(query, 10);
     }
 
     // Fallback: use DuckDuckGo HTML scraping
@@ -423,7 +602,7 @@ export class DeepResearchEngine {
       const resp = await fetch('https://html.duckduckgo.com/html/', {
         method: 'POST',
         headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': 'AgentOS-DeepResearch/1.0' },
-        body: `q=${encodeURIComponent(node.query)}`,
+        body: `q=${encodeURIComponent(query)}`,
       });
       const html = await resp.text();
       const linkRegex = /<a[^>]*class="result__a"[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
@@ -456,6 +635,22 @@ export class DeepResearchEngine {
 
   // ── Private: Extraction ──
 
+  private async extractResult(url: string, providerId?: string): Promise<ExtractedContent> {
+    const provider = providerId ? this.config.sourceProviders?.find((p) => p.id === providerId) : undefined;
+    if (providerId && !provider) throw new Error(`Unknown source provider: ${providerId}`);
+
+    const extracted = provider ? await provider.extract(url) : await this.extractUrl(url);
+    return {
+      url,
+      title: extracted.title,
+      content: truncate(extracted.content, 2000),
+      wordCount: extracted.wordCount,
+      type: provider ? 'local' : detectUrlType(url),
+      extractedAt: new Date().toISOString(),
+      ...(extracted.location ? { location: extracted.location } : {}),
+    };
+  }
+
   private async extractUrl(url: string): Promise<{ title: string; content: string; wordCount: number }> {
     // Priority 1: Firecrawl scrape (JS-rendered, anti-bot, clean markdown)
     if (this.firecrawlClient && this.config.firecrawl?.scrapeForIterate !== false) {
@@ -586,6 +781,7 @@ export class DeepResearchEngine {
             relevance: 0.8,
             confidence: 0.8,
             citedInFindings: [],
+            ...(ec.location ? { location: ec.location } : {}),
           });
         }
       }
@@ -0,0 +1,186 @@
+// @ts-nocheck
+/**
+ * @fileoverview ITool for inspecting and resuming checkpointed deep research runs.
+ *
+ * Exposed as `deep_research_runs` with four actions: `list` recent runs,
+ * `get` a run's status and budget, show its research `tree`, or `resume`
+ * it from the last checkpoint.
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ResearchBudget, ResearchRun, ResearchRunStatus, ResearchTree } from './types.js';
+import { DeepResearchEngine } from './DeepResearchEngine.js';
+import { buildProgressBridge } from './DeepResearchTool.js';
+
+const BUDGET_KEYS: string[] = ['maxSearchQueries', 'maxPageExtractions', 'maxLLMCalls', 'maxTotalTimeMs', 'maxOutputTokens'];
+
+export interface DeepResearchRunsInput {
+  action: 'list' | 'get' | 'tree' | 'resume';
+  runId?: string;
+  status?: ResearchRunStatus;
+  limit?: number;
+  /** Raised caps for `resume`; unspecified caps keep the run's current values. */
+  budget?: Partial<ResearchBudget>;
+  maxIterations?: number;
+}
+
+export interface ResearchRunSummary {
+  id: string;
+  query: string;
+  depth: string;
+  status: ResearchRunStatus;
+  phase: string;
+  iteration: number;
+  maxIterations: number;
+  nodes: number;
+  budget: ResearchBudget;
+  budgetUsed: ResearchRun['budgetUsed'];
+  checkpointCount: number;
+  resumeCount: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function summarize(run: ResearchRun): ResearchRunSummary {
+  return {
+    id: run.id,
+    query: run.input.query,
+    depth: run.depth,
+    status: run.status,
+    phase: run.phase,
+    iteration: run.iteration,
+    maxIterations: run.maxIterations,
+    nodes: Object.keys(run.tree.nodes).length,
+    budget: run.budget,
+    budgetUsed: run.budgetUsed,
+    checkpointCount: run.checkpointCount,
+    resumeCount: run.resumeCount,
+    error: run.error,
+    createdAt: new Date(run.createdAt).toISOString(),
+    updatedAt: new Date(run.updatedAt).toISOString(),
+  };
+}
+
+export class DeepResearchRunsTool implements ITool<DeepResearchRunsInput, unknown> {
+  public readonly id = 'deep-research-runs-v1';
+  public readonly name = 'deep_research_runs';
+  public readonly displayName = 'Deep Research Runs';
+  public readonly description =
+    'List, inspect and resume past deep research runs. Runs that failed or ran out of ' +
+    'budget keep their research tree and can be resumed from the last checkpoint, ' +
+    'optionally with a larger budget.';
+  public readonly category = 'research';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['action'],
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'get', 'tree', 'resume'],
+        description: 'list runs, get one run, show its research tree, or resume it',
+      },
+      runId: {
+        type: 'string',
+        description: 'Run ID (required for get, tree and resume)',
+      },
+      status: {
+        type: 'string',
+        enum: ['running', 'budget_exhausted', 'failed', 'completed'],
+        description: 'Only list runs with this status',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 100,
+        description: 'Maximum runs to list (default 20)',
+      },
+      budget: {
+        type: 'object',
+        description: 'Budget caps to raise when resuming',
+        properties: {
+          maxSearchQueries: { type: 'integer', minimum: 0 },
+          maxPageExtractions: { type: 'integer', minimum: 0 },
+          maxLLMCalls: { type: 'integer', minimum: 0 },
+          maxTotalTimeMs: { type: 'integer', minimum: 0, description: 'Total active research time in milliseconds' },
+          maxOutputTokens: { type: 'integer', minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+      maxIterations: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 10,
+        description: 'Iteration cap when resuming',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private readonly engine: DeepResearchEngine) {}
+
+  async execute(
+    input: DeepResearchRunsInput,
+    context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<unknown>> {
+    try {
+      if (input.action === 'list') {
+        const runs = await this.engine.listRuns({ status: input.status, limit: input.limit ?? 20 });
+        return { success: true, output: { runs: runs.map(summarize) } };
+      }
+
+      if (input.action === 'resume') {
+        const output = await this.engine.resume(
+          input.runId!,
+          { budget: input.budget, maxIterations: input.maxIterations },
+          buildProgressBridge(context),
+        );
+        return { success: true, output };
+      }
+
+      const run = await this.engine.getRun(input.runId!);
+      if (!run) return { success: false, error: `Research run ${input.runId} not found.` };
+      if (input.action === 'tree') {
+        const tree: ResearchTree = run.tree;
+        return { success: true, output: { run: summarize(run), tree } };
+      }
+      return { success: true, output: { run: summarize(run) } };
+    } catch (error: any) {
+      return { success: false, error: error?.message || String(error) };
+    }
+  }
+
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!['list', 'get', 'tree', 'resume'].includes(input.action)) {
+      errors.push('action must be list, get, tree, or resume');
+    } else if (input.action !== 'list' && (typeof input.runId !== 'string' || !input.runId)) {
+      errors.push(`runId is required for ${input.action}`);
+    }
+
+    if (input.budget !== undefined) {
+      if (typeof input.budget !== 'object' || input.budget === null || Array.isArray(input.budget)) {
+        errors.push('budget must be an object');
+      } else {
+        for (const [key, value] of Object.entries(input.budget)) {
+          if (!BUDGET_KEYS.includes(key)) {
+            errors.push(`budget.${key} is not a budget field (use ${BUDGET_KEYS.join(', ')})`);
+          } else if (typeof value !== 'number' || value < 0) {
+            errors.push(`budget.${key} must be a non-negative number`);
+          }
+        }
+      }
+    }
+
+    if (input.maxIterations !== undefined) {
+      if (typeof input.maxIterations !== 'number' || input.maxIterations < 1 || input.maxIterations > 10) {
+        errors.push('maxIterations must be 1-10');
+      }
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
@@ -20,6 +20,32 @@ const PHASE_LABELS: Record<ResearchPhase, string> = {
   complete: 'Research complete',
 };
 
+/**
+ * Build a per-call progress bridge: translate ResearchProgressEvent into
+ * the generic onToolProgress shape expected by the wunderland runtime.
+ */
+export function buildProgressBridge(
+  context: ToolExecutionContext,
+): ((event: ResearchProgressEvent) => void) | undefined {
+  const ctxAny = context as unknown as Record<string, unknown>;
+  const runtimeProgressCb = typeof ctxAny['onToolProgress'] === 'function'
+    ? ctxAny['onToolProgress'] as (info: { phase: string; message: string; progress?: number }) => void
+    : null;
+
+  return runtimeProgressCb
+    ? (event: ResearchProgressEvent) => {
+        const label = PHASE_LABELS[event.phase] ?? event.phase;
+        const detail = event.currentQuery ? ` "${event.currentQuery}"` : '';
+        const sources = event.sourcesCount > 0 ? `, ${event.sourcesCount} sources` : '';
+        const message = `${label}${detail} (iter ${event.iteration}/${event.totalIterations}, ${event.findingsCount} findings${sources})`;
+        const progress = event.totalIterations > 0
+          ? Math.min(event.iteration / event.totalIterations, 1)
+          : undefined;
+        runtimeProgressCb({ phase: event.phase, message, progress });
+      }
+    : undefined;
+}
+
 export class DeepResearchTool implements ITool<DeepResearchInput, DeepResearchOutput> {
   public readonly id = 'deep-research-v1';
   public readonly name = 'deep_research';
@@ -53,8 +79,8 @@ export class DeepResearchTool implements ITool<DeepResearchInput, DeepResearchOu
       },
       sources: {
         type: 'array',
-        items: { type: 'string', enum: ['web', 'academic', 'news', 'social'] },
-        description: 'Source types to search',
+        items: { type: 'string', enum: ['web', 'academic', 'news', 'social', 'local'] },
+        description: "Source types to search. 'local' searches the configured document corpus; ['local'] alone keeps research offline",
       },
       focusAreas: {
         type: 'array',
@@ -73,25 +99,7 @@ export class DeepResearchTool implements ITool<DeepResearchInput, DeepResearchOu
     input: DeepResearchInput,
     context: ToolExecutionContext,
   ): Promise<ToolExecutionResult<DeepResearchOutput>> {
-    // Build a per-call progress bridge: translate ResearchProgressEvent into
-    // the generic onToolProgress shape expected by the wunderland runtime.
-    const ctxAny = context as unknown as Record<string, unknown>;
-    const runtimeProgressCb = typeof ctxAny['onToolProgress'] === 'function'
-      ? ctxAny['onToolProgress'] as (info: { phase: string; message: string; progress?: number }) => void
-      : null;
-
-    const onProgress = runtimeProgressCb
-      ? (event: ResearchProgressEvent) => {
-          const label = PHASE_LABELS[event.phase] ?? event.phase;
-          const detail = event.currentQuery ? ` "${event.currentQuery}"` : '';
-          const sources = event.sourcesCount > 0 ? `, ${event.sourcesCount} sources` : '';
-          const message = `${label}${detail} (iter ${event.iteration}/${event.totalIterations}, ${event.findingsCount} findings${sources})`;
-          const progress = event.totalIterations > 0
-            ? Math.min(event.iteration / event.totalIterations, 1)
-            : undefined;
-          runtimeProgressCb({ phase: event.phase, message, progress });
-        }
-      : undefined;
+    const onProgress = buildProgressBridge(context);
 
     try {
       const result = await this.engine.research(input, onProgress);
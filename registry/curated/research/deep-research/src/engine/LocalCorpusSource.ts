@@ -0,0 +1,275 @@
+// @ts-nocheck
+/**
+ * @fileoverview Local document corpus as a research source.
+ *
+ * Walks one or more directories of markdown, text, HTML and PDF files, splits
+ * each document into overlapping passages and ranks them with BM25. Results
+ * are `file://` URLs with an RFC 5147 `#char=start,end` fragment, so every
+ * finding can be cited by file path and character offsets. No network access
+ * is needed.
+ *
+ * Offsets are character positions in the plain text a parser extracts, not
+ * byte positions in the file. Markdown and text files are indexed as their
+ * decoded UTF-8 content, HTML as its tag-stripped text and PDFs as the page
+ * text unpdf extracts (pages separated by blank lines), so re-running the same
+ * parser over the file reproduces the cited span.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, extname, join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { IResearchSourceProvider, SearchResultItem, SourceLocation } from './types.js';
+import { Bm25Index } from './Bm25Index.js';
+import type { Bm25Options } from './Bm25Index.js';
+
+/** Converts a file's bytes to plain text; citation offsets index into the returned string. */
+export type DocumentParser = (data: Buffer, path: string) => string | Promise<string>;
+
+export interface LocalCorpusOptions extends Bm25Options {
+  /** Directories (searched recursively) or individual files to index. */
+  paths: string[];
+  /** Provider ID reported on results. Default: 'local'. */
+  id?: string;
+  /** Passage length in characters. Default: 1200. */
+  chunkSize?: number;
+  /** Characters shared between consecutive passages. Default: 200. */
+  chunkOverlap?: number;
+  /** Files larger than this are skipped. Default: 20 MB. */
+  maxFileBytes?: number;
+  /** Parsers by lowercase extension (with dot); these override the built-ins. */
+  parsers?: Record<string, DocumentParser>;
+}
+
+/** A file that matched a parser but was left out of the index. */
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+interface Passage {
+  title: string;
+  path: string;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+// ── Text extraction ──
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[\s\S]*?<\/style>/gi, '')
+      .replace(/<\/(p|div|h[1-6]|li|tr|section|article)>|<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Plain text of a PDF via unpdf (the parser behind AgentOS's PdfLoader),
+ * loaded on first use. Pages are joined with blank lines; citation offsets
+ * for PDFs index into this text.
+ */
+export async function extractPdfText(data: Buffer): Promise<string> {
+  const { extractText } = await import('unpdf');
+  const { text } = await extractText(new Uint8Array(data), { mergePages: false });
+  return text
+    .map((page) => page.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+const BUILTIN_PARSERS: Record<string, DocumentParser> = {
+  '.md': (data) => data.toString('utf8'),
+  '.markdown': (data) => data.toString('utf8'),
+  '.txt': (data) => data.toString('utf8'),
+  '.html': (data) => htmlToText(data.toString('utf8')),
+  '.htm': (data) => htmlToText(data.toString('utf8')),
+  '.pdf': (data) => extractPdfText(data),
+};
+
+function titleFor(data: Buffer, ext: string, text: string, fallback: string): string {
+  if (ext === '.html' || ext === '.htm') {
+    const title = data.toString('utf8').match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    if (title?.trim()) return decodeEntities(title.trim());
+  }
+  if (ext === '.md' || ext === '.markdown') {
+    const heading = text.match(/^#\s+(.+)$/m)?.[1];
+    if (heading) return heading.trim();
+  }
+  return fallback;
+}
+
+/** Split text into passages of about `size` characters, breaking on whitespace. */
+function chunkText(text: string, size: number, overlap: number): Array<{ start: number; end: number }> {
+  const chunks: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  while (start < text.length) {
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (start >= text.length) break;
+
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const cut = text.slice(start, end).search(/\s\S*$/);
+      if (cut > size / 2) end = start + cut;
+    }
+    chunks.push({ start, end });
+    if (end >= text.length) break;
+
+    let next = Math.max(end - overlap, start + 1);
+    // Start the overlap on a word boundary
+    while (next < end && !/\s/.test(text[next - 1])) next++;
+    start = next;
+  }
+  return chunks;
+}
+
+// ── Source ──
+
+export class LocalCorpusSource implements IResearchSourceProvider {
+  public readonly id: string;
+  private readonly options: LocalCorpusOptions;
+  private loading: Promise<void> | null = null;
+  private index = new Bm25Index();
+  private passages = new Map<string, Passage>();
+  private skippedFiles: SkippedFile[] = [];
+
+  constructor(options: LocalCorpusOptions) {
+    if (!options.paths?.length) throw new Error('LocalCorpusSource requires at least one path.');
+    this.options = options;
+    this.id = options.id ?? 'local';
+  }
+
+  /** Number of indexed passages (indexes on first call). */
+  async size(): Promise<number> {
+    await this.load();
+    return this.passages.size;
+  }
+
+  /** Files that were too large or failed to read or parse (indexes on first call). */
+  async skipped(): Promise<SkippedFile[]> {
+    await this.load();
+    return [...this.skippedFiles];
+  }
+
+  /** Re-read the corpus from disk on next use. */
+  refresh(): void {
+    this.loading = null;
+  }
+
+  async search(query: string, maxResults: number): Promise<SearchResultItem[]> {
+    await this.load();
+    return this.index.search(query, maxResults).map(({ id }) => {
+      const passage = this.passages.get(id)!;
+      return {
+        title: passage.title,
+        url: id,
+        snippet: passage.text.replace(/\s+/g, ' ').slice(0, 300),
+        providerId: this.id,
+        location: this.locationOf(passage),
+      };
+    });
+  }
+
+  async extract(url: string): Promise<{ title: string; content: string; wordCount: number; location: SourceLocation }> {
+    await this.load();
+    const passage = this.passages.get(url);
+    if (!passage) throw new Error(`Unknown local source: ${url}`);
+    return {
+      title: passage.title,
+      content: passage.text,
+      wordCount: passage.text.split(/\s+/).filter(Boolean).length,
+      location: this.locationOf(passage),
+    };
+  }
+
+  private locationOf(passage: Passage): SourceLocation {
+    return { path: passage.path, startOffset: passage.startOffset, endOffset: passage.endOffset };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.buildIndex().catch((err) => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async buildIndex(): Promise<void> {
+    const index = new Bm25Index(this.options);
+    const passages = new Map<string, Passage>();
+    const skipped: SkippedFile[] = [];
+    const parsers = { ...BUILTIN_PARSERS, ...this.options.parsers };
+    const chunkSize = this.options.chunkSize ?? 1200;
+    const chunkOverlap = Math.min(this.options.chunkOverlap ?? 200, chunkSize - 1);
+    const maxFileBytes = this.options.maxFileBytes ?? 20 * 1024 * 1024;
+
+    for (const root of this.options.paths.map((p) => resolve(p))) {
+      for (const file of await this.listFiles(root)) {
+        const ext = extname(file).toLowerCase();
+        const parser = parsers[ext];
+        if (!parser) continue;
+
+        let text: string;
+        let data: Buffer;
+        try {
+          if ((await stat(file)).size > maxFileBytes) {
+            skipped.push({ path: file, reason: `larger than ${maxFileBytes} bytes` });
+            continue;
+          }
+          data = await readFile(file);
+          text = await parser(data, file);
+        } catch (err) {
+          skipped.push({ path: file, reason: err instanceof Error ? err.message : String(err) });
+          continue;
+        }
+
+        const relPath = relative(root, file) || basename(file);
+        const title = titleFor(data, ext, text, relPath);
+        const baseUrl = pathToFileURL(file).href;
+        for (const { start, end } of chunkText(text, chunkSize, chunkOverlap)) {
+          const url = `${baseUrl}#char=${start},${end}`;
+          const passageText = text.slice(start, end);
+          passages.set(url, { title, path: file, text: passageText, startOffset: start, endOffset: end });
+          index.add(url, `${title}\n${passageText}`);
+        }
+      }
+    }
+
+    this.index = index;
+    this.passages = passages;
+    this.skippedFiles = skipped;
+  }
+
+  private async listFiles(path: string): Promise<string[]> {
+    const info = await stat(path);
+    if (!info.isDirectory()) return [path];
+
+    const files: string[] = [];
+    const entries = await readdir(path, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      const full = join(path, entry.name);
+      if (entry.isDirectory()) files.push(...(await this.listFiles(full)));
+      else if (entry.isFile()) files.push(full);
+    }
+    return files;
+  }
+}
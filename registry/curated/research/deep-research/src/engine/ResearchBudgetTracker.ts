@@ -3,10 +3,11 @@
  * @fileoverview Budget enforcement for the Deep Research Engine.
  *
  * Tracks search queries, page extractions, LLM calls, and wall-clock time
- * against hard caps defined by {@link ResearchBudget}.
+ * against hard caps defined by {@link ResearchBudget}. A resumed run starts
+ * from the usage recorded in its last checkpoint.
  */
 
-import type { ResearchBudget } from './types.js';
+import type { ResearchBudget, ResearchBudgetUsage } from './types.js';
 
 export class ResearchBudgetTracker {
   private searchesUsed = 0;
@@ -14,8 +15,11 @@ export class ResearchBudgetTracker {
   private llmCallsUsed = 0;
   private readonly startTime: number;
 
-  constructor(private readonly budget: ResearchBudget) {
-    this.startTime = Date.now();
+  constructor(private readonly budget: ResearchBudget, used?: ResearchBudgetUsage) {
+    this.searchesUsed = used?.searchesUsed ?? 0;
+    this.extractionsUsed = used?.extractionsUsed ?? 0;
+    this.llmCallsUsed = used?.llmCallsUsed ?? 0;
+    this.startTime = Date.now() - (used?.elapsedMs ?? 0);
   }
 
   // ── Queries ──
@@ -0,0 +1,101 @@
+// @ts-nocheck
+/**
+ * @fileoverview Checkpoint stores for research runs.
+ *
+ * {@link InMemoryResearchRunStore} keeps runs for the life of the process;
+ * {@link FileResearchRunStore} writes one JSON file per run so they survive
+ * crashes and restarts.
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { IResearchRunStore, ResearchRun, ResearchRunFilter } from './types.js';
+
+function matchesFilter(run: ResearchRun, filter: ResearchRunFilter): boolean {
+  if (!filter.status) return true;
+  const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+  return statuses.includes(run.status);
+}
+
+function sortAndLimit(runs: ResearchRun[], filter: ResearchRunFilter): ResearchRun[] {
+  const sorted = runs
+    .filter((run) => matchesFilter(run, filter))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return filter.limit ? sorted.slice(0, filter.limit) : sorted;
+}
+
+export class InMemoryResearchRunStore implements IResearchRunStore {
+  private readonly runs = new Map<string, ResearchRun>();
+
+  async save(run: ResearchRun): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+
+  async get(id: string): Promise<ResearchRun | null> {
+    const run = this.runs.get(id);
+    return run ? structuredClone(run) : null;
+  }
+
+  async list(filter: ResearchRunFilter = {}): Promise<ResearchRun[]> {
+    return sortAndLimit([...this.runs.values()], filter).map((run) => structuredClone(run));
+  }
+}
+
+/**
+ * Stores each run as `<dir>/<runId>.json`, written to a temp file and
+ * renamed so a crash mid-write never leaves a torn checkpoint.
+ */
+export class FileResearchRunStore implements IResearchRunStore {
+  /** Serializes writes so a slow earlier checkpoint cannot overwrite a later one. */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  save(run: ResearchRun): Promise<void> {
+    const json = JSON.stringify(run, null, 2);
+    const filePath = this.pathFor(run.id);
+    const write = this.writeQueue.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(`${filePath}.tmp`, json, 'utf8');
+      await rename(`${filePath}.tmp`, filePath);
+    });
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  async get(id: string): Promise<ResearchRun | null> {
+    await this.writeQueue;
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf8')) as ResearchRun;
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async list(filter: ResearchRunFilter = {}): Promise<ResearchRun[]> {
+    await this.writeQueue;
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const runs: ResearchRun[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        runs.push(JSON.parse(await readFile(join(this.dir, file), 'utf8')));
+      } catch {
+        // Skip unreadable checkpoints rather than hiding every other run
+      }
+    }
+    return sortAndLimit(runs, filter);
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid research run ID: ${id}`);
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -3,8 +3,13 @@
  * @fileoverview Barrel exports for the Deep Research Engine.
  */
 
-export { DeepResearchEngine } from './DeepResearchEngine.js';
+export { DeepResearchEngine, ResearchRunError } from './DeepResearchEngine.js';
 export { DeepResearchTool } from './DeepResearchTool.js';
+export { DeepResearchRunsTool } from './DeepResearchRunsTool.js';
 export { ResearchBudgetTracker } from './ResearchBudgetTracker.js';
+export { InMemoryResearchRunStore, FileResearchRunStore } from './ResearchRunStore.js';
+export { LocalCorpusSource, extractPdfText } from './LocalCorpusSource.js';
+export type { LocalCorpusOptions, DocumentParser, SkippedFile } from './LocalCorpusSource.js';
+export { Bm25Index, tokenize } from './Bm25Index.js';
 export * from './types.js';
 export { parseJsonArray, DECOMPOSITION_PROMPT, GAP_ANALYSIS_PROMPT, SYNTHESIS_PROMPT } from './prompts.js';
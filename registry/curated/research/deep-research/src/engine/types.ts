@@ -41,19 +41,30 @@ export interface Finding {
   category: string;
 }
 
+/** Where a passage sits inside a local document. Offsets are character offsets into the parser's extracted plain text, not the file's bytes. */
+export interface SourceLocation {
+  path: string;
+  startOffset: number;
+  endOffset: number;
+}
+
 export interface ExtractedContent {
   url: string;
   title: string;
   content: string;
   wordCount: number;
-  type: 'web' | 'pdf' | 'youtube' | 'wikipedia' | 'academic';
+  type: 'web' | 'pdf' | 'youtube' | 'wikipedia' | 'academic' | 'local';
   extractedAt: string;
+  location?: SourceLocation;
 }
 
 export interface SearchResultItem {
   title: string;
   url: string;
   snippet: string;
+  /** Set when the result came from a source provider rather than web search. */
+  providerId?: string;
+  location?: SourceLocation;
 }
 
 export type NodeStatus = 'pending' | 'searching' | 'extracting' | 'complete' | 'failed';
@@ -91,6 +102,26 @@ export interface SourceCitation {
   relevance: number;
   confidence: number;
   citedInFindings: string[];
+  /** File path and offsets, for sources from a local corpus. */
+  location?: SourceLocation;
+}
+
+// ---------------------------------------------------------------------------
+// Source Providers
+// ---------------------------------------------------------------------------
+
+export type ResearchSourceType = 'web' | 'academic' | 'news' | 'social' | 'local';
+
+/**
+ * A non-web evidence source, e.g. a local document index. Providers are
+ * searched alongside web search and extract their own results, so they work
+ * without network access.
+ */
+export interface IResearchSourceProvider {
+  readonly id: string;
+  search(query: string, maxResults: number): Promise<SearchResultItem[]>;
+  /** Full text for a URL returned by {@link search}. */
+  extract(url: string): Promise<{ title: string; content: string; wordCount: number; location?: SourceLocation }>;
 }
 
 // ---------------------------------------------------------------------------
@@ -118,7 +149,8 @@ export interface DeepResearchInput {
   query: string;
   depth?: ResearchDepth;
   maxIterations?: number;
-  sources?: Array<'web' | 'academic' | 'news' | 'social'>;
+  /** Source types to search. `['local']` restricts research to the configured source providers. */
+  sources?: ResearchSourceType[];
   focusAreas?: string[];
   budget?: Partial<ResearchBudget>;
 }
@@ -137,9 +169,76 @@ export interface DeepResearchOutput {
     totalLLMCalls: number;
     totalTimeMs: number;
     iterations: number;
+    /** Run ID, for inspecting or resuming the run later. */
+    runId?: string;
   };
 }
 
+// ---------------------------------------------------------------------------
+// Research Runs (checkpoints)
+// ---------------------------------------------------------------------------
+
+/**
+ * - running: in progress, or interrupted by a crash (resumable)
+ * - budget_exhausted: report produced, but the budget ran out with work left (resumable with more budget)
+ * - failed: threw before producing a report (resumable)
+ * - completed: finished normally
+ */
+export type ResearchRunStatus = 'running' | 'budget_exhausted' | 'failed' | 'completed';
+
+/** Budget consumed so far; carried over when a run resumes. */
+export interface ResearchBudgetUsage {
+  searchesUsed: number;
+  extractionsUsed: number;
+  llmCallsUsed: number;
+  /** Active research time, excluding time the run spent stopped. */
+  elapsedMs: number;
+}
+
+/** Checkpointed state of one research run. */
+export interface ResearchRun {
+  id: string;
+  input: DeepResearchInput;
+  depth: ResearchDepth;
+  maxIterations: number;
+  budget: ResearchBudget;
+  budgetUsed: ResearchBudgetUsage;
+  status: ResearchRunStatus;
+  /** Phase reached; resuming skips phases already done. */
+  phase: ResearchPhase;
+  /** Iteration in progress (0-based); completed iterations are not repeated. */
+  iteration: number;
+  tree: ResearchTree;
+  /** Normalized URL → ID of the node that claimed it for extraction. */
+  claimedUrls: Record<string, string>;
+  output?: DeepResearchOutput;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  checkpointCount: number;
+  resumeCount: number;
+}
+
+export interface ResearchRunFilter {
+  status?: ResearchRunStatus | ResearchRunStatus[];
+  limit?: number;
+}
+
+export interface ResumeResearchOptions {
+  /** Raise caps (e.g. `maxTotalTimeMs`) for a run that ran out; usage so far still counts. */
+  budget?: Partial<ResearchBudget>;
+  maxIterations?: number;
+}
+
+/** Persistence for research run checkpoints. */
+export interface IResearchRunStore {
+  /** Insert or replace a run. Implementations must snapshot it before returning. */
+  save(run: ResearchRun): Promise<void>;
+  get(id: string): Promise<ResearchRun | null>;
+  /** Most recently updated first. */
+  list(filter?: ResearchRunFilter): Promise<ResearchRun[]>;
+}
+
 // ---------------------------------------------------------------------------
 // Engine Config
 // ---------------------------------------------------------------------------
@@ -171,4 +270,10 @@ export interface DeepResearchEngineConfig {
   };
   /** Optional reranker function — runs on findings before synthesis. */
   rerankFindingsFn?: (query: string, findings: Finding[]) => Promise<Finding[]>;
+  /** Where run checkpoints are kept. Defaults to an in-memory store. */
+  runStore?: IResearchRunStore;
+  /** Extra evidence sources, e.g. a {@link LocalCorpusSource}, searched before the web. */
+  sourceProviders?: IResearchSourceProvider[];
+  /** Set to false to never search or fetch the web (source providers only). Default: true. */
+  webSearch?: boolean;
 }
@@ -3,11 +3,13 @@
  * @fileoverview Deep Research Extension for AgentOS.
  *
  * Provides 5 tools for multi-source investigation, academic search,
- * content scraping, aggregate search, and trend discovery.
+ * content scraping, aggregate search, and trend discovery, plus the
+ * deep research engine and a tool to list and resume its runs.
  *
  * @module @framers/agentos-ext-deep-research
  */
 
+import { join } from 'node:path';
 import { ResearchService } from './ResearchService.js';
 import type { ResearchConfig } from './ResearchService.js';
 import { ResearchInvestigateTool } from './tools/investigate.js';
@@ -17,6 +19,9 @@ import { ResearchAggregateTool } from './tools/aggregate.js';
 import { ResearchTrendingTool } from './tools/trending.js';
 import { DeepResearchEngine } from './engine/DeepResearchEngine.js';
 import { DeepResearchTool } from './engine/DeepResearchTool.js';
+import { DeepResearchRunsTool } from './engine/DeepResearchRunsTool.js';
+import { FileResearchRunStore } from './engine/ResearchRunStore.js';
+import { LocalCorpusSource } from './engine/LocalCorpusSource.js';
 import type { LLMInvoker, SearchResultItem } from './engine/types.js';
 
 // ---------------------------------------------------------------------------
@@ -38,6 +43,19 @@ export interface DeepResearchOptions {
   smallModel?: string;
   /** Synthesis model (default: gpt-4o). */
   synthesisModel?: string;
+  /** Agent workspace directory; run checkpoints go under it. Defaults to the current working directory. */
+  workspaceDir?: string;
+  /**
+   * Directory for research run checkpoints, so runs survive restarts and can
+   * be resumed. Defaults to `research-runs` inside `workspaceDir`.
+   */
+  runStorePath?: string;
+  /** Set to false to keep research runs in memory only; they are lost on restart. Default: true. */
+  persistRuns?: boolean;
+  /** Directories or files (markdown, text, HTML, PDF) to index as a local research corpus. */
+  localCorpusPaths?: string[];
+  /** Set to false to research only the local corpus, with no web search or fetching. Default: true. */
+  webSearch?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -175,6 +193,13 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
     smallInvoker,
     synthesisInvoker,
     searchFn: config.serperApiKey ? searchFn : undefined, // Only use searchFn if we have API keys
+    runStore: opts.persistRuns === false
+      ? undefined
+      : new FileResearchRunStore(opts.runStorePath ?? join(opts.workspaceDir ?? process.cwd(), 'research-runs')),
+    sourceProviders: opts.localCorpusPaths?.length
+      ? [new LocalCorpusSource({ paths: opts.localCorpusPaths })]
+      : undefined,
+    webSearch: opts.webSearch,
     onProgress: (event) => {
       if (process.env.DEBUG) {
         console.log(`[DeepResearch] ${event.phase} — iteration ${event.iteration}/${event.totalIterations}, findings: ${event.findingsCount}, sources: ${event.sourcesCount}`);
@@ -183,6 +208,7 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
   });
 
   const deepResearchTool = new DeepResearchTool(engine);
+  const deepResearchRunsTool = new DeepResearchRunsTool(engine);
 
   return {
     name: '@framers/agentos-ext-deep-research',
@@ -194,6 +220,7 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
       { id: 'researchAggregate', kind: 'tool', priority: 50, payload: aggregateTool },
       { id: 'researchTrending', kind: 'tool', priority: 50, payload: trendingTool },
       { id: 'deepResearch', kind: 'tool', priority: 90, payload: deepResearchTool },
+      { id: 'deepResearchRuns', kind: 'tool', priority: 50, payload: deepResearchRunsTool },
     ],
     onActivate: async () => {
       await service.initialize();
@@ -222,9 +249,14 @@ export { ResearchAcademicTool } from './tools/academic.js';
 export { ResearchScrapeTool } from './tools/scrape.js';
 export { ResearchAggregateTool } from './tools/aggregate.js';
 export { ResearchTrendingTool } from './tools/trending.js';
-export { DeepResearchEngine } from './engine/DeepResearchEngine.js';
+export { DeepResearchEngine, ResearchRunError } from './engine/DeepResearchEngine.js';
 export { DeepResearchTool } from './engine/DeepResearchTool.js';
+export { DeepResearchRunsTool } from './engine/DeepResearchRunsTool.js';
 export { ResearchBudgetTracker } from './engine/ResearchBudgetTracker.js';
+export { InMemoryResearchRunStore, FileResearchRunStore } from './engine/ResearchRunStore.js';
+export { LocalCorpusSource, extractPdfText } from './engine/LocalCorpusSource.js';
+export type { LocalCorpusOptions, DocumentParser, SkippedFile } from './engine/LocalCorpusSource.js';
+export { Bm25Index } from './engine/Bm25Index.js';
 export type {
   DeepResearchInput,
   DeepResearchOutput,
@@ -232,4 +264,13 @@ export type {
   ResearchBudget,
   LLMInvoker,
   DeepResearchEngineConfig,
+  IResearchRunStore,
+  ResearchRun,
+  ResearchRunStatus,
+  ResearchRunFilter,
+  ResumeResearchOptions,
+  IResearchSourceProvider,
+  ResearchSourceType,
+  SourceLocation,
+  SourceCitation,
 } from './engine/types.js';
@@ -0,0 +1,226 @@
+// @ts-nocheck
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DeepResearchEngine, ResearchRunError } from '../src/engine/DeepResearchEngine';
+import { DeepResearchRunsTool } from '../src/engine/DeepResearchRunsTool';
+import { FileResearchRunStore, InMemoryResearchRunStore } from '../src/engine/ResearchRunStore';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createEngine(overrides: Record<string, unknown> = {}) {
+  const searchFn = vi.fn(async (query: string) => [
+    { title: `${query} A`, url: `https://example.com/${encodeURIComponent(query)}/a`, snippet: 'a' },
+    { title: `${query} B`, url: `https://example.com/${encodeURIComponent(query)}/b`, snippet: 'b' },
+  ]);
+  const extractFn = vi.fn(async (url: string) => ({
+    title: url,
+    content: `Content for ${url}. It is long enough to yield a finding sentence.`,
+    wordCount: 12,
+  }));
+  const engine = new DeepResearchEngine({
+    smallInvoker: async () => '["sub one", "sub two"]',
+    synthesisInvoker: async () => '## Executive Summary\nDone.',
+    searchFn,
+    extractFn,
+    ...overrides,
+  });
+  return { engine, searchFn, extractFn };
+}
+
+// ---------------------------------------------------------------------------
+// Checkpointing
+// ---------------------------------------------------------------------------
+
+describe('DeepResearchEngine — run checkpoints', () => {
+  it('stores a completed run with its tree and budget usage', async () => {
+    const runStore = new InMemoryResearchRunStore();
+    const save = vi.spyOn(runStore, 'save');
+    const { engine } = createEngine({ runStore });
+
+    const output = await engine.research({ query: 'solar storage', depth: 'quick' });
+
+    expect(output.metadata.runId).toBeTruthy();
+    const run = await engine.getRun(output.metadata.runId);
+    expect(run.status).toBe('completed');
+    expect(run.phase).toBe('complete');
+    expect(Object.keys(run.tree.nodes)).toHaveLength(3);
+    expect(run.budgetUsed.searchesUsed).toBe(output.metadata.totalSearches);
+    expect(run.output.executiveSummary).toBe(output.executiveSummary);
+    expect(run.checkpointCount).toBe(save.mock.calls.length);
+    expect(save.mock.calls.length).toBeGreaterThan(5);
+  });
+
+  it('lists runs newest first and filters by status', async () => {
+    const { engine } = createEngine();
+    await engine.research({ query: 'first query', depth: 'quick' });
+    // Both runs can finish within the same millisecond; make the second one newer
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1_000);
+    const second = await engine.research({ query: 'second query', depth: 'quick' });
+    now.mockRestore();
+
+    const runs = await engine.listRuns();
+    expect(runs[0].id).toBe(second.metadata.runId);
+    expect(await engine.listRuns({ status: 'failed' })).toEqual([]);
+    expect(await engine.listRuns({ limit: 1 })).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resume
+// ---------------------------------------------------------------------------
+
+describe('DeepResearchEngine — resume', () => {
+  it('marks a run that hit its search cap as budget_exhausted and resumes it with a larger budget', async () => {
+    const { engine, searchFn } = createEngine();
+    const first = await engine.research({
+      query: 'battery chemistry',
+      depth: 'quick',
+      maxIterations: 2,
+      budget: { maxSearchQueries: 0 },
+    });
+    const runId = first.metadata.runId;
+    expect((await engine.getRun(runId)).status).toBe('budget_exhausted');
+    expect(searchFn).not.toHaveBeenCalled();
+
+    const resumed = await engine.resume(runId, { budget: { maxSearchQueries: 10 } });
+
+    const run = await engine.getRun(runId);
+    expect(run.status).toBe('completed');
+    expect(run.resumeCount).toBe(1);
+    expect(resumed.metadata.runId).toBe(runId);
+    // Usage carries over from the first attempt rather than restarting at zero
+    expect(resumed.metadata.totalSearches).toBe(searchFn.mock.calls.length);
+    expect(resumed.metadata.totalSearches).toBeGreaterThan(0);
+  });
+
+  it('resumes a failed run without repeating completed searches or extractions', async () => {
+    let crash = true;
+    const { engine, searchFn, extractFn } = createEngine({
+      onProgress: (event) => {
+        if (event.phase === 'synthesizing' && crash) throw new Error('process died');
+      },
+    });
+
+    const err = await engine.research({ query: 'grid inertia', depth: 'quick' }).catch((e) => e);
+    expect(err).toBeInstanceOf(ResearchRunError);
+    expect(err.message).toContain('process died');
+
+    const failed = await engine.getRun(err.runId);
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('process died');
+    const searches = searchFn.mock.calls.length;
+    const extractions = extractFn.mock.calls.length;
+
+    crash = false;
+    const output = await engine.resume(err.runId);
+
+    expect(searchFn).toHaveBeenCalledTimes(searches);
+    expect(extractFn).toHaveBeenCalledTimes(extractions);
+    expect(output.detailedFindings.length).toBeGreaterThan(0);
+    expect((await engine.getRun(err.runId)).status).toBe('completed');
+  });
+
+  it('re-searches nodes that were cut off mid-search', async () => {
+    const runStore = new InMemoryResearchRunStore();
+    const { engine, searchFn } = createEngine({ runStore });
+    const output = await engine.research({ query: 'tidal power', depth: 'quick', budget: { maxSearchQueries: 0 } });
+
+    // Simulate a crash between marking a node as searching and getting results
+    const run = await runStore.get(output.metadata.runId);
+    const leaf = Object.values(run.tree.nodes).find((n) => n.depth === 1);
+    leaf.status = 'searching';
+    run.status = 'running';
+    await runStore.save(run);
+
+    await engine.resume(run.id, { budget: { maxSearchQueries: 10 } });
+    expect(searchFn.mock.calls.map((c) => c[0])).toContain(leaf.query);
+  });
+
+  it('rejects unknown and completed runs', async () => {
+    const { engine } = createEngine();
+    await expect(engine.resume('missing')).rejects.toThrow('not found');
+
+    const output = await engine.research({ query: 'heat pumps', depth: 'quick' });
+    await expect(engine.resume(output.metadata.runId)).rejects.toThrow('already completed');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// FileResearchRunStore
+// ---------------------------------------------------------------------------
+
+describe('FileResearchRunStore', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists runs across engine instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'research-runs-'));
+    const { engine } = createEngine({ runStore: new FileResearchRunStore(dir) });
+    const output = await engine.research({ query: 'wind farms', depth: 'quick', budget: { maxSearchQueries: 0 } });
+
+    expect(await readdir(dir)).toEqual([`${output.metadata.runId}.json`]);
+
+    const { engine: restarted } = createEngine({ runStore: new FileResearchRunStore(dir) });
+    const runs = await restarted.listRuns({ status: 'budget_exhausted' });
+    expect(runs.map((r) => r.id)).toEqual([output.metadata.runId]);
+
+    await restarted.resume(output.metadata.runId, { budget: { maxSearchQueries: 10 } });
+    expect((await restarted.getRun(output.metadata.runId)).status).toBe('completed');
+  });
+
+  it('rejects run IDs that are not safe file names', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'research-runs-'));
+    const store = new FileResearchRunStore(dir);
+    await expect(store.get('../escape')).rejects.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DeepResearchRunsTool
+// ---------------------------------------------------------------------------
+
+describe('DeepResearchRunsTool', () => {
+  it('lists, inspects and resumes runs', async () => {
+    const { engine } = createEngine();
+    const tool = new DeepResearchRunsTool(engine);
+    const output = await engine.research({ query: 'hydrogen storage', depth: 'quick', budget: { maxSearchQueries: 0 } });
+    const runId = output.metadata.runId;
+
+    const listed = await tool.execute({ action: 'list' }, {});
+    expect(listed.output.runs[0]).toMatchObject({ id: runId, query: 'hydrogen storage', status: 'budget_exhausted' });
+
+    const tree = await tool.execute({ action: 'tree', runId }, {});
+    expect(tree.output.tree.rootQuery).toBe('hydrogen storage');
+
+    const resumed = await tool.execute({ action: 'resume', runId, budget: { maxSearchQueries: 10 } }, {});
+    expect(resumed.success).toBe(true);
+
+    const got = await tool.execute({ action: 'get', runId }, {});
+    expect(got.output.run).toMatchObject({ status: 'completed', resumeCount: 1 });
+  });
+
+  it('reports unknown runs and validates arguments', async () => {
+    const tool = new DeepResearchRunsTool(createEngine().engine);
+    expect(await tool.execute({ action: 'get', runId: 'nope' }, {})).toMatchObject({ success: false });
+    expect(tool.validateArgs({ action: 'resume' }).isValid).toBe(false);
+    expect(tool.validateArgs({ action: 'list' }).isValid).toBe(true);
+  });
+
+  it('accepts only real budget fields when resuming', async () => {
+    const tool = new DeepResearchRunsTool(createEngine().engine);
+    expect(tool.inputSchema.properties.budget.properties).toHaveProperty('maxTotalTimeMs');
+    expect(tool.validateArgs({ action: 'resume', runId: 'r', budget: { maxTotalTimeMs: 60_000 } }).isValid).toBe(true);
+
+    const unknown = tool.validateArgs({ action: 'resume', runId: 'r', budget: { maxTimeMs: 60_000 } });
+    expect(unknown.isValid).toBe(false);
+    expect(unknown.errors[0]).toContain('budget.maxTimeMs');
+    expect(tool.validateArgs({ action: 'resume', runId: 'r', budget: { maxLLMCalls: -1 } }).isValid).toBe(false);
+  });
+});
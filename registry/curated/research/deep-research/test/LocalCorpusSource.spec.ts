@@ -0,0 +1,241 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+import { Bm25Index } from '../src/engine/Bm25Index';
+import { LocalCorpusSource, extractPdfText } from '../src/engine/LocalCorpusSource';
+import { DeepResearchEngine } from '../src/engine/DeepResearchEngine';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A minimal one-page PDF with a valid cross-reference table. */
+function pdfWithText(lines: string[], compress = false): Buffer {
+  const ops = lines.map((line, i) => `BT /F1 12 Tf 72 ${700 - i * 20} Td (${line.replace(/[()\\]/g, '\\$&')}) Tj ET`).join('\n');
+  const content = compress ? deflateSync(Buffer.from(ops, 'latin1')) : Buffer.from(ops, 'latin1');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>',
+    null,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  const push = (chunk: Buffer) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    if (body !== null) {
+      push(Buffer.from(`${i + 1} 0 obj\n${body}\nendobj\n`, 'latin1'));
+      return;
+    }
+    const filter = compress ? ' /Filter /FlateDecode' : '';
+    push(Buffer.from(`${i + 1} 0 obj\n<< /Length ${content.length}${filter} >>\nstream\n`, 'latin1'));
+    push(content);
+    push(Buffer.from('\nendstream\nendobj\n', 'latin1'));
+  });
+  const xref = offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  push(
+    Buffer.from(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${xref}` +
+        `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`,
+      'latin1',
+    ),
+  );
+  return Buffer.concat(chunks);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'local-corpus-'));
+  await mkdir(join(dir, 'notes'));
+  await writeFile(
+    join(dir, 'notes', 'batteries.md'),
+    '# Battery Notes\n\nLithium iron phosphate cells tolerate deep cycling and resist thermal runaway.\n',
+  );
+  await writeFile(
+    join(dir, 'wind.html'),
+    '<html><head><title>Wind &amp; Grid</title><script>var x = "turbine";</script></head>' +
+      '<body><p>Offshore wind turbines reach capacity factors above forty percent.</p></body></html>',
+  );
+  await writeFile(join(dir, 'solar.pdf'), pdfWithText(['Perovskite solar cells degrade under humidity.'], true));
+  await writeFile(join(dir, 'ignored.bin'), 'lithium lithium lithium');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Bm25Index
+// ---------------------------------------------------------------------------
+
+describe('Bm25Index', () => {
+  it('ranks documents by term relevance and skips non-matching ones', () => {
+    const index = new Bm25Index();
+    index.add('a', 'solar panels and solar inverters');
+    index.add('b', 'wind turbines with a solar backup');
+    index.add('c', 'hydro dams');
+
+    const hits = index.search('solar inverters');
+    expect(hits.map((h) => h.id)).toEqual(['a', 'b']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('returns nothing for stopword-only queries', () => {
+    const index = new Bm25Index();
+    index.add('a', 'the grid');
+    expect(index.search('the and of')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// LocalCorpusSource
+// ---------------------------------------------------------------------------
+
+describe('LocalCorpusSource', () => {
+  it('indexes markdown, HTML and PDF files recursively', async () => {
+    const source = new LocalCorpusSource({ paths: [dir] });
+
+    const [battery] = await source.search('thermal runaway lithium', 5);
+    expect(battery.title).toBe('Battery Notes');
+    expect(battery.providerId).toBe('local');
+    expect(battery.location.path).toBe(join(dir, 'notes', 'batteries.md'));
+    expect(battery.url).toMatch(/^file:\/\/.*batteries\.md#char=\d+,\d+$/);
+
+    const [wind] = await source.search('offshore capacity', 5);
+    expect(wind.title).toBe('Wind & Grid');
+    expect(wind.snippet).not.toContain('var x');
+
+    const [solar] = await source.search('perovskite humidity', 5);
+    expect(solar.title).toBe('solar.pdf');
+    expect(solar.snippet).toContain('Perovskite solar cells degrade under humidity.');
+
+    expect(await source.search('lithium lithium', 5)).toHaveLength(1);
+  });
+
+  it('cites passages by character offsets into the document text', async () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Sentence ${i} about grid storage.`).join(' ') + ' Final pumped hydro remark.';
+    await writeFile(join(dir, 'long.txt'), text);
+    const source = new LocalCorpusSource({ paths: [join(dir, 'long.txt')], chunkSize: 200, chunkOverlap: 40 });
+
+    expect(await source.size()).toBeGreaterThan(5);
+    const [hit] = await source.search('pumped hydro', 1);
+    const extracted = await source.extract(hit.url);
+    const { startOffset, endOffset } = extracted.location;
+
+    expect(text.slice(startOffset, endOffset)).toBe(extracted.content);
+    expect(extracted.content).toContain('pumped hydro');
+    expect(endOffset - startOffset).toBeLessThanOrEqual(200);
+  });
+
+  it('cites PDF passages by offsets into the extracted page text', async () => {
+    const source = new LocalCorpusSource({ paths: [join(dir, 'solar.pdf')] });
+    const [hit] = await source.search('perovskite', 1);
+    const { content, location } = await source.extract(hit.url);
+
+    const text = await extractPdfText(await readFile(join(dir, 'solar.pdf')));
+    expect(text.slice(location.startOffset, location.endOffset)).toBe(content);
+  });
+
+  it('uses custom parsers over the built-ins', async () => {
+    const parser = vi.fn(() => 'Custom parsed geothermal text');
+    const source = new LocalCorpusSource({ paths: [dir], parsers: { '.pdf': parser } });
+
+    const [hit] = await source.search('geothermal', 5);
+    expect(parser).toHaveBeenCalledWith(expect.any(Buffer), join(dir, 'solar.pdf'));
+    expect(hit.location.path).toBe(join(dir, 'solar.pdf'));
+  });
+
+  it('reports files it could not parse or that are too large', async () => {
+    await writeFile(join(dir, 'broken.pdf'), 'not a pdf');
+    await writeFile(join(dir, 'big.txt'), 'x'.repeat(2048));
+    const source = new LocalCorpusSource({ paths: [dir], maxFileBytes: 1024 });
+
+    const skipped = await source.skipped();
+    expect(skipped.map((s) => s.path).sort()).toEqual([join(dir, 'big.txt'), join(dir, 'broken.pdf')]);
+    expect(skipped.find((s) => s.path.endsWith('big.txt'))!.reason).toContain('1024 bytes');
+    expect(await source.search('perovskite', 5)).toHaveLength(1);
+  });
+
+  it('rejects URLs it did not produce', async () => {
+    const source = new LocalCorpusSource({ paths: [dir] });
+    await expect(source.extract('file:///etc/passwd#char=0,10')).rejects.toThrow('Unknown local source');
+  });
+
+  it('picks up new files after refresh', async () => {
+    const source = new LocalCorpusSource({ paths: [dir] });
+    expect(await source.search('tidal', 5)).toEqual([]);
+
+    await writeFile(join(dir, 'tidal.txt'), 'Tidal lagoons generate predictable power.');
+    source.refresh();
+    expect(await source.search('tidal', 5)).toHaveLength(1);
+  });
+});
+
+describe('extractPdfText', () => {
+  it('reads uncompressed and Flate-compressed pages', async () => {
+    expect(await extractPdfText(pdfWithText(['Hello (PDF) world']))).toBe('Hello (PDF) world');
+    expect(await extractPdfText(pdfWithText(['Grid scale', 'storage'], true))).toBe('Grid scale\nstorage');
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(extractPdfText(Buffer.from('not a pdf'))).rejects.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Engine integration
+// ---------------------------------------------------------------------------
+
+describe('DeepResearchEngine with a local corpus', () => {
+  it('researches offline and cites file paths and offsets', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const searchFn = vi.fn(async () => []);
+    const engine = new DeepResearchEngine({
+      smallInvoker: async () => '["lithium thermal runaway", "offshore wind capacity"]',
+      synthesisInvoker: async () => '## Executive Summary\nLocal findings.',
+      searchFn,
+      sourceProviders: [new LocalCorpusSource({ paths: [dir] })],
+      webSearch: false,
+    });
+
+    const output = await engine.research({ query: 'energy storage and generation', depth: 'quick' });
+
+    expect(searchFn).not.toHaveBeenCalled();
+    expect(fetchSpy).not.toHaveBeenCalled();
+    const battery = output.sources.find((s) => s.location?.path === join(dir, 'notes', 'batteries.md'));
+    expect(battery).toBeDefined();
+    const file = await readFile(join(dir, 'notes', 'batteries.md'), 'utf8');
+    expect(file.slice(battery.location.startOffset, battery.location.endOffset)).toContain('thermal runaway');
+    expect(output.detailedFindings.some((f) => f.sources.includes(battery.url))).toBe(true);
+    fetchSpy.mockRestore();
+  });
+
+  it("restricts a run to providers with sources: ['local']", async () => {
+    const searchFn = vi.fn(async () => [{ title: 'Web', url: 'https://example.com/a', snippet: 'web result' }]);
+    const engine = new DeepResearchEngine({
+      smallInvoker: async () => '["offshore wind"]',
+      synthesisInvoker: async () => '',
+      searchFn,
+      extractFn: async () => ({ title: 'Web', content: 'web page', wordCount: 2 }),
+      sourceProviders: [new LocalCorpusSource({ paths: [dir] })],
+    });
+
+    const local = await engine.research({ query: 'offshore wind', depth: 'quick', sources: ['local'] });
+    expect(searchFn).not.toHaveBeenCalled();
+    expect(local.sources.every((s) => s.url.startsWith('file://'))).toBe(true);
+
+    const mixed = await engine.research({ query: 'offshore wind', depth: 'quick' });
+    expect(searchFn).toHaveBeenCalled();
+    expect(mixed.sources.some((s) => s.url.startsWith('file://'))).toBe(true);
+  });
+});
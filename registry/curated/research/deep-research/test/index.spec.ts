@@ -1,6 +1,9 @@
 // @ts-nocheck
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createExtensionPack } from '../src/index';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createExtensionPack, FileResearchRunStore } from '../src/index';
 import type { ExtensionContext, ExtensionPack } from '../src/index';
 
 // ---------------------------------------------------------------------------
@@ -47,8 +50,8 @@ describe('Deep Research – createExtensionPack', () => {
 
   // ── Descriptor count and IDs ──
 
-  it('should contain exactly 6 tool descriptors', () => {
-    expect(pack.descriptors).toHaveLength(6);
+  it('should contain exactly 7 tool descriptors', () => {
+    expect(pack.descriptors).toHaveLength(7);
   });
 
   it('should have all expected descriptor IDs', () => {
@@ -60,6 +63,7 @@ describe('Deep Research – createExtensionPack', () => {
       'researchAggregate',
       'researchTrending',
       'deepResearch',
+      'deepResearchRuns',
     ]);
   });
 
@@ -82,6 +86,7 @@ describe('Deep Research – createExtensionPack', () => {
       researchAggregate: 50,
       researchTrending: 50,
       deepResearch: 90,
+      deepResearchRuns: 50,
     };
     for (const d of pack.descriptors) {
       expect(d.priority).toBe(expectedPriority[d.id]);
@@ -153,7 +158,33 @@ describe('Deep Research – createExtensionPack', () => {
       },
     };
     const p = createExtensionPack(ctx);
-    expect(p.descriptors).toHaveLength(6);
+    expect(p.descriptors).toHaveLength(7);
     p.onDeactivate?.();
   });
+
+  // ── Run persistence ──
+
+  it('should persist research runs under the agent workspace unless opted out', async () => {
+    const workspaceDir = await mkdtemp(join(tmpdir(), 'deep-research-ws-'));
+    const run = {
+      id: 'run-1', input: { query: 'q' }, depth: 'quick', maxIterations: 1, budget: {}, budgetUsed: {},
+      status: 'completed', phase: 'done', iteration: 0, tree: { nodes: {} }, claimedUrls: {},
+      createdAt: 1, updatedAt: 1, checkpointCount: 1, resumeCount: 0,
+    };
+    await new FileResearchRunStore(join(workspaceDir, 'research-runs')).save(run);
+    const listRuns = async (options) => {
+      const p = createExtensionPack({ options: { workspaceDir, ...options } });
+      const tool = p.descriptors.find((d) => d.id === 'deepResearchRuns')!.payload as any;
+      const result = await tool.execute({ action: 'list' }, {});
+      await p.onDeactivate?.();
+      return result.output.runs.map((r) => r.id);
+    };
+
+    try {
+      expect(await listRuns({})).toEqual(['run-1']);
+      expect(await listRuns({ persistRuns: false })).toEqual([]);
+    } finally {
+      await rm(workspaceDir, { recursive: true, force: true });
+    }
+  });
 });
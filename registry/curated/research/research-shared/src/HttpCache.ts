@@ -0,0 +1,491 @@
+// @ts-nocheck
+/**
+ * HttpCache — On-disk HTTP response cache with record/replay cassettes.
+ *
+ * A drop-in wrapper around `fetch()` with three modes:
+ *
+ * - **cache** — a private HTTP cache.  `GET`/`HEAD` responses are stored
+ *   and reused while fresh according to `Cache-Control: max-age` /
+ *   `Expires` (or a per-domain TTL override).  Stale entries with an
+ *   `ETag` or `Last-Modified` are revalidated with a conditional request;
+ *   a `304` refreshes the stored copy.  `no-store` is always honoured.
+ * - **record** — every request goes to the network and its response
+ *   (any method, any status) is written to the directory, overwriting
+ *   older recordings.  The directory then serves as a cassette.
+ * - **replay** — requests are answered only from the directory; nothing
+ *   touches the network and an unrecorded request throws
+ *   {@link HttpCacheMissError}.  Freshness is ignored.
+ *
+ * Entries are keyed by method, URL and request-body hash.  Credentials in
+ * query parameters and in JSON or form request bodies (`api_key`, `token`,
+ * …) are redacted before keying and storing, so cassettes can be committed
+ * and replayed without the keys.  Credential request headers named by a
+ * response's `Vary` are stored only as a digest.  Every returned response carries an
+ * `x-agentos-cache` header: `hit`, `revalidated`, `miss`, `record` or
+ * `replay`.
+ *
+ * The web-scraper, content-extraction and web-search extensions all use
+ * this module and the `AGENTOS_HTTP_CACHE_*` environment variables, so they
+ * can share one cache or cassette directory.
+ *
+ * @module @framers/agentos-research-shared/HttpCache
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/* -------------------------------------------------------------------------- */
+/*  Types                                                                     */
+/* -------------------------------------------------------------------------- */
+
+/** How {@link HttpCache} uses the network and the directory. */
+export type HttpCacheMode = 'cache' | 'record' | 'replay';
+
+/** Options for {@link HttpCache}. */
+export interface HttpCacheOptions {
+  /** Directory for cache entries or cassette recordings. */
+  dir: string;
+  /** Default `cache`. */
+  mode?: HttpCacheMode;
+  /**
+   * Freshness lifetime for responses that declare none (no `max-age` or
+   * `Expires`).  Default 0: such responses are stored only when they can
+   * be revalidated.
+   */
+  defaultTtlMs?: number;
+  /**
+   * Freshness lifetime per hostname or parent domain, overriding the
+   * response's own `Cache-Control` / `Expires` (but never `no-store`).
+   *
+   * @example { "en.wikipedia.org": 3_600_000, "example.com": 0 }
+   */
+  domainTtlMs?: Record<string, number>;
+  /** Underlying fetch implementation (default: the global `fetch`). */
+  fetch?: typeof fetch;
+}
+
+/** One stored response, as written to disk. */
+export interface HttpCacheEntry {
+  /** Format version. */
+  version: 1;
+  method: string;
+  /** Request URL with credentials redacted. */
+  url: string;
+  status: number;
+  statusText: string;
+  /** Response headers (lowercase names; cookies and encodings dropped). */
+  headers: Record<string, string>;
+  /** Response body, base64-encoded. */
+  body: string;
+  /** Request header values named by the response's `Vary` header (credentials as digests). */
+  vary?: Record<string, string>;
+  /** Unix ms when the response was received or last revalidated. */
+  storedAt: number;
+}
+
+/** Thrown in replay mode when a request has no recording. */
+export class HttpCacheMissError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly url: string,
+  ) {
+    super(`No recorded response for ${method} ${url}`);
+    this.name = 'HttpCacheMissError';
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Constants                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Response header reporting how the cache handled a request. */
+export const HTTP_CACHE_STATUS_HEADER = 'x-agentos-cache';
+
+/** Statuses that may be stored in cache mode (RFC 9111 heuristically cacheable). */
+const CACHEABLE_STATUSES = new Set([200, 203, 204, 300, 301, 308, 404, 410]);
+
+/** Statuses whose responses must not carry a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Query parameters and body fields whose values are secrets. */
+const SECRET_PARAMS = /^(api[_-]?key|key|apikey|token|access[_-]?token|auth|secret|client[_-]?secret|password|sig|signature)$/i;
+
+/** Request headers whose values are secrets; stored in `vary` only as a digest. */
+const SECRET_HEADERS = /^(authorization|proxy-authorization|cookie|x-api-key|api-key|x-auth-token|x-access-token|x-[a-z0-9-]*-(key|token|secret))$/i;
+
+/** Prefix of a redacted `vary` value; the rest is a digest of the header. */
+const REDACTED_VARY_PREFIX = 'REDACTED:';
+
+/** Response headers that are never stored. */
+const UNSTORED_HEADERS = new Set(['set-cookie', 'content-encoding', 'content-length', 'transfer-encoding', 'connection']);
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Replace the values of credential-like query parameters with `REDACTED`.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    let changed = false;
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAMS.test(key)) {
+        parsed.searchParams.set(key, 'REDACTED');
+        changed = true;
+      }
+    }
+    return changed ? parsed.toString() : url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Replace the values of credential-like fields in a JSON or form-encoded
+ * request body with `REDACTED`, at any depth.  Byte bodies and bodies
+ * without such fields are returned unchanged.
+ */
+export function redactBody(body: Uint8Array | string): Uint8Array | string {
+  if (typeof body !== 'string' || body === '') return body;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    json = undefined;
+  }
+  if (json !== null && typeof json === 'object') {
+    let changed = false;
+    const redact = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(redact);
+      if (value === null || typeof value !== 'object') return value;
+      const out: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(value)) {
+        if (SECRET_PARAMS.test(key) && typeof field === 'string') {
+          out[key] = 'REDACTED';
+          changed = true;
+        } else {
+          out[key] = redact(field);
+        }
+      }
+      return out;
+    };
+    const redacted = redact(json);
+    return changed ? JSON.stringify(redacted) : body;
+  }
+
+  if (!body.includes('=')) return body;
+  const params = new URLSearchParams(body);
+  let changed = false;
+  for (const key of [...params.keys()]) {
+    if (SECRET_PARAMS.test(key)) {
+      params.set(key, 'REDACTED');
+      changed = true;
+    }
+  }
+  return changed ? params.toString() : body;
+}
+
+/**
+ * The value stored in an entry's `vary` for a request header: credential
+ * headers become a truncated SHA-256 digest so cassettes never hold them.
+ */
+function varyValue(name: string, value: string): string {
+  if (!value || !SECRET_HEADERS.test(name)) return value;
+  return REDACTED_VARY_PREFIX + createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+/** Parse a `Cache-Control` header into lowercase directives. */
+function parseCacheControl(value: string | null): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of (value ?? '').split(',')) {
+    const [rawName, ...rest] = part.split('=');
+    const name = rawName?.trim().toLowerCase();
+    if (!name) continue;
+    directives[name] = rest.length > 0 ? rest.join('=').trim().replace(/^"|"$/g, '') : true;
+  }
+  return directives;
+}
+
+/** Request body as bytes for hashing, or `null` when it cannot be read synchronously. */
+function bodyBytes(body: unknown): Uint8Array | string | null {
+  if (body === undefined || body === null) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  HttpCache                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Fetch wrapper backed by an on-disk response store.
+ *
+ * @example
+ * ```ts
+ * const cache = new HttpCache({ dir: '.cache/http', domainTtlMs: { 'example.com': 600_000 } });
+ * const res = await cache.fetch('https://example.com/page');
+ * res.headers.get('x-agentos-cache'); // "miss", then "hit"
+ * ```
+ */
+export class HttpCache {
+  readonly dir: string;
+  readonly mode: HttpCacheMode;
+  private readonly defaultTtlMs: number;
+  private readonly domainTtlMs: Map<string, number>;
+  private readonly baseFetch: typeof fetch;
+
+  constructor(opts: HttpCacheOptions) {
+    if (!opts?.dir) throw new Error('HttpCache requires a directory');
+    this.dir = opts.dir;
+    this.mode = opts.mode ?? 'cache';
+    this.defaultTtlMs = opts.defaultTtlMs ?? 0;
+    this.domainTtlMs = new Map(
+      Object.entries(opts.domainTtlMs ?? {}).map(([domain, ttl]) => [domain.toLowerCase(), ttl]),
+    );
+    // Resolved per call so a stubbed global fetch is picked up
+    this.baseFetch = opts.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  /**
+   * Perform a request through the cache.  Accepts the same arguments as
+   * `fetch()`; only string and byte request bodies are supported for
+   * keyed (non-`GET`) requests — others bypass the cache.
+   */
+  async fetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = (init.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const headers = new Headers(input instanceof Request ? input.headers : undefined);
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+    const requestInit: RequestInit = { ...init, method, headers };
+
+    const body = bodyBytes(init.body);
+    if (body === null) {
+      if (this.mode === 'replay') throw new HttpCacheMissError(method, redactUrl(url));
+      return this.baseFetch(url, requestInit);
+    }
+
+    const storedUrl = redactUrl(url);
+    const path = this.entryPath(method, storedUrl, body);
+
+    if (this.mode === 'replay') {
+      const entry = await this.load(path);
+      if (!entry || !this.varyMatches(entry, headers)) throw new HttpCacheMissError(method, storedUrl);
+      return this.toResponse(entry, 'replay');
+    }
+
+    if (this.mode === 'record') {
+      const response = await this.baseFetch(url, requestInit);
+      const entry = await this.toEntry(method, storedUrl, headers, response);
+      await this.store(path, entry);
+      return this.toResponse(entry, 'record');
+    }
+
+    return this.cachedFetch(url, method, headers, requestInit, storedUrl, path);
+  }
+
+  /** Delete every stored entry. */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Cache mode                                                            */
+  /* ---------------------------------------------------------------------- */
+
+  private async cachedFetch(
+    url: string,
+    method: string,
+    headers: Headers,
+    requestInit: RequestInit,
+    storedUrl: string,
+    path: string,
+  ): Promise<Response> {
+    const requestCc = parseCacheControl(headers.get('cache-control'));
+    if ((method !== 'GET' && method !== 'HEAD') || requestCc['no-store']) {
+      return this.baseFetch(url, requestInit);
+    }
+
+    let entry = await this.load(path);
+    if (entry && !this.varyMatches(entry, headers)) entry = null;
+
+    if (entry && !requestCc['no-cache'] && this.isFresh(entry, url)) {
+      return this.toResponse(entry, 'hit');
+    }
+
+    // Revalidate a stale entry when it has validators
+    const conditional = new Headers(headers);
+    if (entry?.headers.etag) conditional.set('if-none-match', entry.headers.etag);
+    if (entry?.headers['last-modified']) conditional.set('if-modified-since', entry.headers['last-modified']);
+
+    const response = await this.baseFetch(url, { ...requestInit, headers: conditional });
+
+    if (entry && response.status === 304) {
+      const refreshed: HttpCacheEntry = { ...entry, headers: { ...entry.headers }, storedAt: Date.now() };
+      response.headers.forEach((value, name) => {
+        if (!UNSTORED_HEADERS.has(name)) refreshed.headers[name] = value;
+      });
+      await this.store(path, refreshed);
+      return this.toResponse(refreshed, 'revalidated');
+    }
+
+    const fresh = await this.toEntry(method, storedUrl, headers, response);
+    if (this.isStorable(fresh, url)) await this.store(path, fresh);
+    return this.toResponse(fresh, 'miss');
+  }
+
+  /** Freshness lifetime of an entry in ms. */
+  private lifetimeMs(entry: HttpCacheEntry, url: string): number {
+    const domainTtl = this.domainTtlFor(url);
+    if (domainTtl !== undefined) return domainTtl;
+
+    const cc = parseCacheControl(entry.headers['cache-control'] ?? null);
+    if (cc['no-cache']) return 0;
+    if (typeof cc['max-age'] === 'string') {
+      const seconds = Number(cc['max-age']);
+      return Number.isFinite(seconds) ? seconds * 1_000 : 0;
+    }
+    if (entry.headers.expires) {
+      const expires = Date.parse(entry.headers.expires);
+      const date = Date.parse(entry.headers.date ?? '') || entry.storedAt;
+      return Number.isFinite(expires) ? Math.max(0, expires - date) : 0;
+    }
+    return this.defaultTtlMs;
+  }
+
+  private isFresh(entry: HttpCacheEntry, url: string): boolean {
+    const ageHeader = Number(entry.headers.age ?? 0);
+    const age = Date.now() - entry.storedAt + (Number.isFinite(ageHeader) ? ageHeader * 1_000 : 0);
+    return age < this.lifetimeMs(entry, url);
+  }
+
+  private isStorable(entry: HttpCacheEntry, url: string): boolean {
+    const cc = parseCacheControl(entry.headers['cache-control'] ?? null);
+    if (cc['no-store'] || entry.headers.vary?.trim() === '*') return false;
+    if (!CACHEABLE_STATUSES.has(entry.status)) return false;
+    return this.lifetimeMs(entry, url) > 0 || Boolean(entry.headers.etag || entry.headers['last-modified']);
+  }
+
+  /** TTL override for a URL's hostname or its nearest parent domain. */
+  private domainTtlFor(url: string): number | undefined {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+    const labels = host.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const ttl = this.domainTtlMs.get(labels.slice(i).join('.'));
+      if (ttl !== undefined) return ttl;
+    }
+    return undefined;
+  }
+
+  private varyMatches(entry: HttpCacheEntry, headers: Headers): boolean {
+    return Object.entries(entry.vary ?? {}).every(([name, value]) => {
+      const current = headers.get(name) ?? '';
+      // Cassettes replay with any credential, as with redacted query keys
+      if (this.mode === 'replay' && value.startsWith(REDACTED_VARY_PREFIX)) return current !== '';
+      return varyValue(name, current) === value;
+    });
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Storage                                                               */
+  /* ---------------------------------------------------------------------- */
+
+  private entryPath(method: string, url: string, body: Uint8Array | string): string {
+    const bodyHash = createHash('sha256').update(redactBody(body)).digest('hex');
+    const key = createHash('sha256').update(`${method} ${url} ${bodyHash}`).digest('hex');
+    return join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  private async load(path: string): Promise<HttpCacheEntry | null> {
+    try {
+      const entry = JSON.parse(await readFile(path, 'utf-8')) as HttpCacheEntry;
+      return entry?.version === 1 ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async store(path: string, entry: HttpCacheEntry): Promise<void> {
+    await mkdir(join(path, '..'), { recursive: true });
+    const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry, null, 2), 'utf-8');
+    await rename(tmp, path);
+  }
+
+  private async toEntry(
+    method: string,
+    url: string,
+    requestHeaders: Headers,
+    response: Response,
+  ): Promise<HttpCacheEntry> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!UNSTORED_HEADERS.has(name)) headers[name] = value;
+    });
+
+    let vary: Record<string, string> | undefined;
+    if (headers.vary && headers.vary.trim() !== '*') {
+      vary = {};
+      for (const name of headers.vary.split(',').map((h) => h.trim().toLowerCase()).filter(Boolean)) {
+        vary[name] = varyValue(name, requestHeaders.get(name) ?? '');
+      }
+    }
+
+    const body = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return {
+      version: 1,
+      method,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body,
+      vary,
+      storedAt: Date.now(),
+    };
+  }
+
+  private toResponse(entry: HttpCacheEntry, state: string): Response {
+    const hasBody = entry.method !== 'HEAD' && !NULL_BODY_STATUSES.has(entry.status);
+    return new Response(hasBody ? Buffer.from(entry.body, 'base64') : null, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: { ...entry.headers, [HTTP_CACHE_STATUS_HEADER]: state },
+    });
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Environment                                                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Read cache options from `AGENTOS_HTTP_CACHE_DIR` (required to enable the
+ * cache), `AGENTOS_HTTP_CACHE_MODE` (`cache` | `record` | `replay`) and
+ * `AGENTOS_HTTP_CACHE_TTL_MS` (default TTL).
+ *
+ * @returns Options, or `undefined` when no directory is configured.
+ */
+export function httpCacheOptionsFromEnv(env: Record<string, string | undefined> = process.env): HttpCacheOptions | undefined {
+  const dir = env.AGENTOS_HTTP_CACHE_DIR;
+  if (!dir) return undefined;
+
+  const mode = env.AGENTOS_HTTP_CACHE_MODE?.toLowerCase();
+  const ttl = Number(env.AGENTOS_HTTP_CACHE_TTL_MS);
+  return {
+    dir,
+    mode: mode === 'record' || mode === 'replay' ? mode : 'cache',
+    defaultTtlMs: Number.isFinite(ttl) && ttl > 0 ? ttl : undefined,
+  };
+}
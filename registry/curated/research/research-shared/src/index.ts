@@ -0,0 +1,10 @@
+// @ts-nocheck
+export {
+  HttpCache,
+  HttpCacheMissError,
+  HTTP_CACHE_STATUS_HEADER,
+  httpCacheOptionsFromEnv,
+  redactBody,
+  redactUrl,
+} from './HttpCache.js';
+export type { HttpCacheMode, HttpCacheOptions, HttpCacheEntry } from './HttpCache.js';
@@ -0,0 +1,293 @@
+// @ts-nocheck
+/**
+ * HttpCache — Unit Tests
+ *
+ * Verifies cache-mode freshness (`max-age`, `Expires`, per-domain TTLs),
+ * conditional revalidation, `no-store` / `Vary` handling, record and replay
+ * cassettes, credential redaction, and environment configuration.
+ *
+ * The underlying fetch is a mock passed in through the options; entries are
+ * written to a fresh temporary directory per test.
+ *
+ * @module test/HttpCache
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  HttpCache,
+  HttpCacheMissError,
+  httpCacheOptionsFromEnv,
+  redactBody,
+  redactUrl,
+} from '../src/HttpCache.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Fixtures                                                                  */
+/* -------------------------------------------------------------------------- */
+
+let dir: string;
+const mockFetch = vi.fn();
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'http-cache-'));
+  mockFetch.mockReset();
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(dir, { recursive: true, force: true });
+});
+
+function respond(body: string, headers: Record<string, string> = {}, status = 200) {
+  return new Response(status === 304 ? null : body, { status, headers });
+}
+
+function cache(opts = {}) {
+  return new HttpCache({ dir, fetch: mockFetch, ...opts });
+}
+
+/** All entry files written under the cache directory. */
+async function storedEntries() {
+  const entries = [];
+  for (const shard of await readdir(dir)) {
+    for (const file of await readdir(join(dir, shard))) {
+      entries.push(JSON.parse(await readFile(join(dir, shard, file), 'utf-8')));
+    }
+  }
+  return entries;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Cache mode                                                                */
+/* -------------------------------------------------------------------------- */
+
+describe('HttpCache — cache mode', () => {
+  it('should serve fresh responses from disk until max-age runs out', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    mockFetch.mockImplementation(async () => respond('<p>v1</p>', { 'cache-control': 'max-age=60' }));
+    const http = cache();
+
+    const first = await http.fetch('https://example.com/page');
+    expect(first.headers.get('x-agentos-cache')).toBe('miss');
+    expect(await first.text()).toBe('<p>v1</p>');
+
+    const second = await http.fetch('https://example.com/page');
+    expect(second.headers.get('x-agentos-cache')).toBe('hit');
+    expect(await second.text()).toBe('<p>v1</p>');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    await http.fetch('https://example.com/page');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should persist entries across instances', async () => {
+    mockFetch.mockResolvedValue(respond('cached', { 'cache-control': 'max-age=300' }));
+    await cache().fetch('https://example.com/');
+
+    const res = await cache().fetch('https://example.com/');
+    expect(res.headers.get('x-agentos-cache')).toBe('hit');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honour Expires relative to the Date header', async () => {
+    const date = new Date();
+    mockFetch.mockResolvedValue(respond('x', {
+      date: date.toUTCString(),
+      expires: new Date(date.getTime() + 120_000).toUTCString(),
+    }));
+    const http = cache();
+    await http.fetch('https://example.com/');
+
+    expect((await http.fetch('https://example.com/')).headers.get('x-agentos-cache')).toBe('hit');
+  });
+
+  it('should revalidate stale entries with If-None-Match and reuse the body on 304', async () => {
+    const http = cache();
+    mockFetch.mockResolvedValueOnce(respond('<p>body</p>', { etag: '"abc"', 'cache-control': 'no-cache' }));
+    await http.fetch('https://example.com/doc');
+
+    mockFetch.mockResolvedValueOnce(respond('', { etag: '"abc"' }, 304));
+    const res = await http.fetch('https://example.com/doc');
+
+    expect(mockFetch.mock.calls[1][1].headers.get('if-none-match')).toBe('"abc"');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-agentos-cache')).toBe('revalidated');
+    expect(await res.text()).toBe('<p>body</p>');
+  });
+
+  it('should replace the entry when revalidation returns a new body', async () => {
+    const http = cache();
+    mockFetch.mockResolvedValueOnce(respond('old', { 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }));
+    await http.fetch('https://example.com/doc');
+
+    mockFetch.mockResolvedValueOnce(respond('new', { 'last-modified': 'Tue, 02 Jan 2024 00:00:00 GMT' }));
+    const res = await http.fetch('https://example.com/doc');
+
+    expect(mockFetch.mock.calls[1][1].headers.get('if-modified-since')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(res.headers.get('x-agentos-cache')).toBe('miss');
+    expect(await res.text()).toBe('new');
+    expect((await storedEntries())[0].headers['last-modified']).toBe('Tue, 02 Jan 2024 00:00:00 GMT');
+  });
+
+  it('should never store no-store responses or non-GET requests', async () => {
+    const http = cache({ defaultTtlMs: 60_000 });
+    mockFetch.mockResolvedValueOnce(respond('secret', { 'cache-control': 'no-store, max-age=600' }));
+    await http.fetch('https://example.com/account');
+    mockFetch.mockResolvedValueOnce(respond('ok'));
+    await http.fetch('https://example.com/api', { method: 'POST', body: '{"q":1}' });
+
+    await expect(readdir(dir)).resolves.toEqual([]);
+  });
+
+  it('should not store responses it could neither reuse nor revalidate', async () => {
+    mockFetch.mockResolvedValue(respond('plain'));
+    await cache().fetch('https://example.com/');
+
+    await expect(readdir(dir)).resolves.toEqual([]);
+  });
+
+  it('should apply per-domain TTLs over the response headers, matching parent domains', async () => {
+    mockFetch.mockImplementation(async () => respond('x', { 'cache-control': 'no-cache' }));
+    const http = cache({ domainTtlMs: { 'example.com': 60_000 } });
+
+    await http.fetch('https://docs.example.com/a');
+    expect((await http.fetch('https://docs.example.com/a')).headers.get('x-agentos-cache')).toBe('hit');
+
+    await http.fetch('https://other.test/a');
+    await http.fetch('https://other.test/a');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep separate entries per Vary header value', async () => {
+    mockFetch.mockImplementation(async (_url, init) =>
+      respond(`lang=${init.headers.get('accept-language')}`, { 'cache-control': 'max-age=60', vary: 'Accept-Language' }));
+    const http = cache();
+
+    await http.fetch('https://example.com/', { headers: { 'Accept-Language': 'en' } });
+    const fr = await http.fetch('https://example.com/', { headers: { 'Accept-Language': 'fr' } });
+    expect(await fr.text()).toBe('lang=fr');
+
+    const fr2 = await http.fetch('https://example.com/', { headers: { 'Accept-Language': 'fr' } });
+    expect(fr2.headers.get('x-agentos-cache')).toBe('hit');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Record / replay                                                           */
+/* -------------------------------------------------------------------------- */
+
+describe('HttpCache — record and replay', () => {
+  it('should record every response and replay it without the network', async () => {
+    mockFetch.mockResolvedValueOnce(respond('{"hits":3}', { 'content-type': 'application/json' }));
+    mockFetch.mockResolvedValueOnce(respond('gone', {}, 500));
+    const recorder = cache({ mode: 'record' });
+    await recorder.fetch('https://api.test/search', { method: 'POST', body: '{"q":"cats"}' });
+    await recorder.fetch('https://api.test/broken');
+
+    mockFetch.mockReset();
+    const player = cache({ mode: 'replay' });
+    const res = await player.fetch('https://api.test/search', { method: 'POST', body: '{"q":"cats"}' });
+    expect(res.headers.get('x-agentos-cache')).toBe('replay');
+    expect(await res.json()).toEqual({ hits: 3 });
+    expect((await player.fetch('https://api.test/broken')).status).toBe(500);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should throw HttpCacheMissError for unrecorded requests in replay mode', async () => {
+    const player = cache({ mode: 'replay' });
+
+    await expect(player.fetch('https://api.test/search', { method: 'POST', body: '{"q":"dogs"}' }))
+      .rejects.toBeInstanceOf(HttpCacheMissError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should replay POST bodies recorded with a different API key', async () => {
+    mockFetch.mockResolvedValue(respond('{"results":[]}'));
+    await cache({ mode: 'record' }).fetch('https://api.tavily.com/search', {
+      method: 'POST',
+      body: JSON.stringify({ api_key: 'tvly-live-123', query: 'cats' }),
+    });
+
+    const res = await cache({ mode: 'replay' }).fetch('https://api.tavily.com/search', {
+      method: 'POST',
+      body: JSON.stringify({ api_key: 'tvly-other', query: 'cats' }),
+    });
+    expect(await res.json()).toEqual({ results: [] });
+    await expect(cache({ mode: 'replay' }).fetch('https://api.tavily.com/search', {
+      method: 'POST',
+      body: JSON.stringify({ api_key: 'tvly-other', query: 'dogs' }),
+    })).rejects.toBeInstanceOf(HttpCacheMissError);
+  });
+
+  it('should redact credentials in query strings and still replay requests with any key', async () => {
+    mockFetch.mockResolvedValue(respond('ok'));
+    await cache({ mode: 'record' }).fetch('https://api.test/search?q=x&api_key=sk-live-123');
+
+    const [entry] = await storedEntries();
+    expect(entry.url).toBe('https://api.test/search?q=x&api_key=REDACTED');
+    expect(JSON.stringify(entry)).not.toContain('sk-live-123');
+
+    const res = await cache({ mode: 'replay' }).fetch('https://api.test/search?q=x&api_key=other-key');
+    expect(await res.text()).toBe('ok');
+  });
+
+  it('should store Vary-listed credential headers only as digests', async () => {
+    mockFetch.mockImplementation(async (_url, init) =>
+      respond(`for ${init.headers.get('authorization')}`, { 'cache-control': 'max-age=60', vary: 'Authorization, Accept' }));
+    const auth = (token: string) => ({ headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' } });
+    await cache({ mode: 'record' }).fetch('https://api.test/me', auth('sk-live-123'));
+
+    const [entry] = await storedEntries();
+    expect(entry.vary.accept).toBe('application/json');
+    expect(entry.vary.authorization).toMatch(/^REDACTED:/);
+    expect(JSON.stringify(entry)).not.toContain('sk-live-123');
+
+    const replayed = await cache({ mode: 'replay' }).fetch('https://api.test/me', auth('other-key'));
+    expect(await replayed.text()).toBe('for Bearer sk-live-123');
+
+    const http = cache();
+    expect((await http.fetch('https://api.test/me', auth('sk-live-123'))).headers.get('x-agentos-cache')).toBe('hit');
+    expect((await http.fetch('https://api.test/me', auth('other-key'))).headers.get('x-agentos-cache')).toBe('miss');
+  });
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+describe('redactUrl()', () => {
+  it('should leave URLs without credentials untouched', () => {
+    expect(redactUrl('https://example.com/a?b=1&c=2')).toBe('https://example.com/a?b=1&c=2');
+    expect(redactUrl('https://example.com/?token=t&page=2')).toBe('https://example.com/?token=REDACTED&page=2');
+  });
+});
+
+describe('redactBody()', () => {
+  it('should redact credential fields in JSON and form bodies and leave others untouched', () => {
+    expect(JSON.parse(redactBody('{"api_key":"tvly-123","query":"x","opts":{"token":"t"}}'))).toEqual({
+      api_key: 'REDACTED',
+      query: 'x',
+      opts: { token: 'REDACTED' },
+    });
+    expect(redactBody('q=x&apiKey=k')).toBe('q=x&apiKey=REDACTED');
+    expect(redactBody('{"query":"x"}')).toBe('{"query":"x"}');
+    expect(redactBody('plain text')).toBe('plain text');
+  });
+});
+
+describe('httpCacheOptionsFromEnv()', () => {
+  it('should be disabled without a directory and read mode and TTL otherwise', () => {
+    expect(httpCacheOptionsFromEnv({})).toBeUndefined();
+    expect(httpCacheOptionsFromEnv({
+      AGENTOS_HTTP_CACHE_DIR: '/tmp/cassettes',
+      AGENTOS_HTTP_CACHE_MODE: 'REPLAY',
+      AGENTOS_HTTP_CACHE_TTL_MS: '5000',
+    })).toEqual({ dir: '/tmp/cassettes', mode: 'replay', defaultTtlMs: 5000 });
+    expect(httpCacheOptionsFromEnv({ AGENTOS_HTTP_CACHE_DIR: 'd', AGENTOS_HTTP_CACHE_MODE: 'bogus' }).mode).toBe('cache');
+  });
+});
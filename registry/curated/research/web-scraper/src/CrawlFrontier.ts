@@ -0,0 +1,305 @@
+// @ts-nocheck
+/**
+ * CrawlFrontier — URL queue, scope rules and deduplication for crawls.
+ *
+ * The frontier decides *which* pages {@link WebScraperService.crawl} fetches
+ * and in what order (breadth-first):
+ *
+ * - **Scope** — links are followed up to `maxDepth` hops from a start URL,
+ *   optionally only on the start URLs' origins, and filtered through the
+ *   include/exclude {@link UrlPattern}s.  Links to obvious binary files
+ *   (images, archives, media) and `rel="nofollow"` links are skipped.
+ * - **URL deduplication** — URLs are normalised (fragment dropped, tracking
+ *   parameters removed, query sorted) before they are queued, and each
+ *   normalised URL is queued at most once.
+ * - **Content deduplication** — a page whose `<link rel="canonical">` or
+ *   text hash matches an earlier page is reported as a duplicate and its
+ *   links are not followed.
+ *
+ * All progress lives in a JSON-serialisable {@link CrawlState}, so a crawl
+ * can be persisted between pages and resumed later.
+ *
+ * @module CrawlFrontier
+ */
+
+import { createHash } from 'node:crypto';
+import { load } from 'cheerio';
+
+import type {
+  CrawlInput,
+  CrawlQueueEntry,
+  CrawlState,
+  UrlPattern,
+} from './types.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Constants                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Default link depth followed from the start URLs. */
+const DEFAULT_MAX_DEPTH = 2;
+
+/** Default page budget for a crawl. */
+const DEFAULT_MAX_PAGES = 50;
+
+/** Query parameters that only track the click and never change the page. */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid)$/i;
+
+/** File extensions that are never HTML pages. */
+const SKIPPED_EXTENSIONS =
+  /\.(png|jpe?g|gif|webp|svg|ico|bmp|tiff?|mp[34]|m4a|wav|ogg|webm|mov|avi|zip|gz|tgz|rar|7z|tar|exe|dmg|iso|woff2?|ttf|eot|css|js)$/i;
+
+/* -------------------------------------------------------------------------- */
+/*  URL helpers                                                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Resolve and normalise a URL for crawl deduplication.
+ *
+ * Drops the fragment and tracking parameters and sorts the query string.
+ * Host case and default ports are normalised by the URL parser.
+ *
+ * @param href - Absolute or relative URL.
+ * @param base - Base URL for relative `href`s.
+ * @returns The normalised URL, or `null` for invalid or non-http(s) URLs.
+ */
+export function normalizeCrawlUrl(href: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+  return url.toString();
+}
+
+/**
+ * Whether a URL matches a {@link UrlPattern}.
+ */
+export function matchesUrlPattern(url: string, pattern: UrlPattern): boolean {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * Find the followable links and the canonical URL of an HTML page.
+ *
+ * Honours `<base href>` and skips `rel="nofollow"` links.
+ *
+ * @param html    - Page HTML.
+ * @param pageUrl - URL the page was fetched from.
+ */
+export function extractPageLinks(html: string, pageUrl: string): { links: string[]; canonicalUrl?: string } {
+  const $ = load(html);
+  const base = normalizeCrawlUrl($('base[href]').first().attr('href') ?? '', pageUrl) ?? pageUrl;
+
+  const links: string[] = [];
+  $('a[href], area[href]').each((_, el) => {
+    const rel = ($(el).attr('rel') ?? '').toLowerCase().split(/\s+/);
+    if (rel.includes('nofollow')) return;
+    const url = normalizeCrawlUrl($(el).attr('href')!, base);
+    if (url) links.push(url);
+  });
+
+  const canonicalHref = $('link[rel~="canonical"][href]').first().attr('href');
+  const canonicalUrl = canonicalHref ? normalizeCrawlUrl(canonicalHref, base) ?? undefined : undefined;
+
+  return { links, canonicalUrl };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  CrawlFrontier                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Breadth-first crawl queue with scope rules and deduplication.
+ *
+ * @example
+ * ```ts
+ * const frontier = saved
+ *   ? CrawlFrontier.fromState(input, saved)
+ *   : new CrawlFrontier(input);
+ * for await (const page of scraper.crawl(input, frontier)) {
+ *   await save(frontier.toJSON());
+ * }
+ * ```
+ */
+export class CrawlFrontier {
+  private readonly maxDepth: number;
+  private readonly maxPages: number;
+  private readonly include: UrlPattern[];
+  private readonly exclude: UrlPattern[];
+  /** Allowed origins, or `null` when links may leave the start origins. */
+  private readonly origins: Set<string> | null;
+
+  private readonly queue: CrawlQueueEntry[];
+  private readonly seen: Set<string>;
+  private readonly canonicals: Map<string, string>;
+  private readonly contentHashes: Map<string, string>;
+  private pagesFetched: number;
+
+  /**
+   * @param input - Crawl configuration.  Start URLs are queued unless
+   *                `state` is given.
+   * @param state - Progress from an earlier {@link toJSON} call.
+   */
+  constructor(input: CrawlInput, state?: CrawlState) {
+    this.maxDepth = Math.max(0, input.maxDepth ?? DEFAULT_MAX_DEPTH);
+    this.maxPages = Math.max(0, input.maxPages ?? DEFAULT_MAX_PAGES);
+    this.include = input.include ?? [];
+    this.exclude = input.exclude ?? [];
+
+    const startUrls = input.startUrls
+      .map((url) => normalizeCrawlUrl(url))
+      .filter((url): url is string => url !== null);
+    this.origins = input.sameOrigin === false
+      ? null
+      : new Set(startUrls.map((url) => new URL(url).origin));
+
+    if (state) {
+      if (state.version !== 1) throw new Error(`Unsupported crawl state version: ${state.version}`);
+      this.queue = state.queue.map((entry) => ({ ...entry }));
+      this.seen = new Set(state.seen);
+      this.canonicals = new Map(Object.entries(state.canonicals));
+      this.contentHashes = new Map(Object.entries(state.contentHashes));
+      this.pagesFetched = state.pagesFetched;
+    } else {
+      this.queue = [];
+      this.seen = new Set();
+      this.canonicals = new Map();
+      this.contentHashes = new Map();
+      this.pagesFetched = 0;
+      for (const url of startUrls) {
+        if (this.seen.has(url)) continue;
+        this.seen.add(url);
+        this.queue.push({ url, depth: 0 });
+      }
+    }
+  }
+
+  /**
+   * Resume a crawl from a saved {@link CrawlState}.  Scope settings come
+   * from `input`, so limits such as `maxPages` can be raised on resume.
+   */
+  static fromState(input: CrawlInput, state: CrawlState): CrawlFrontier {
+    return new CrawlFrontier(input, state);
+  }
+
+  /** Number of URLs waiting to be fetched. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Pages fetched so far, including those before a resume. */
+  get fetched(): number {
+    return this.pagesFetched;
+  }
+
+  /** Whether the crawl has nothing left to do within its page budget. */
+  get done(): boolean {
+    return this.queue.length === 0 || this.pagesFetched >= this.maxPages;
+  }
+
+  /**
+   * The next URL to fetch, or `undefined` when the crawl is done.  The
+   * entry stays queued until {@link complete} is called, so a snapshot
+   * taken mid-fetch still contains it.
+   */
+  next(): CrawlQueueEntry | undefined {
+    return this.done ? undefined : this.queue[0];
+  }
+
+  /** Mark the entry returned by {@link next} as fetched. */
+  complete(entry: CrawlQueueEntry): void {
+    const index = this.queue.indexOf(entry);
+    if (index !== -1) this.queue.splice(index, 1);
+    this.pagesFetched++;
+  }
+
+  /**
+   * Record a fetched page for deduplication.
+   *
+   * @param url          - URL the page was fetched from.
+   * @param canonicalUrl - The page's canonical URL (or `url`).
+   * @param text         - Visible page text, hashed to detect mirrors.
+   * @returns The earlier URL this page duplicates, if any.
+   */
+  recordPage(url: string, canonicalUrl: string, text: string): string | undefined {
+    const byCanonical = this.canonicals.get(canonicalUrl);
+    if (byCanonical !== undefined && byCanonical !== url) return byCanonical;
+
+    const normalizedText = text.replace(/\s+/g, ' ').trim();
+    const hash = normalizedText
+      ? createHash('sha256').update(normalizedText).digest('hex')
+      : null;
+    const byContent = hash ? this.contentHashes.get(hash) : undefined;
+    if (byContent !== undefined && byContent !== url) return byContent;
+
+    this.canonicals.set(canonicalUrl, url);
+    // The canonical URL is this same page — no need to fetch it again
+    this.seen.add(canonicalUrl);
+    if (hash) this.contentHashes.set(hash, url);
+    return undefined;
+  }
+
+  /**
+   * Queue the in-scope, unseen links found on a page.
+   *
+   * @param links  - Normalised link URLs from {@link extractPageLinks}.
+   * @param parent - The queue entry of the page the links were found on.
+   * @returns The URLs that were added to the queue.
+   */
+  enqueue(links: string[], parent: CrawlQueueEntry): string[] {
+    const depth = parent.depth + 1;
+    if (depth > this.maxDepth) return [];
+
+    const queued: string[] = [];
+    for (const url of links) {
+      if (this.seen.has(url) || !this.inScope(url)) continue;
+      this.seen.add(url);
+      this.queue.push({ url, depth, parentUrl: parent.url });
+      queued.push(url);
+    }
+    return queued;
+  }
+
+  /** JSON-serialisable snapshot of the crawl's progress. */
+  toJSON(): CrawlState {
+    return {
+      version: 1,
+      queue: this.queue.map((entry) => ({ ...entry })),
+      seen: [...this.seen],
+      canonicals: Object.fromEntries(this.canonicals),
+      contentHashes: Object.fromEntries(this.contentHashes),
+      pagesFetched: this.pagesFetched,
+    };
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Internals                                                             */
+  /* ---------------------------------------------------------------------- */
+
+  private inScope(url: string): boolean {
+    const parsed = new URL(url);
+    if (this.origins && !this.origins.has(parsed.origin)) return false;
+    if (SKIPPED_EXTENSIONS.test(parsed.pathname)) return false;
+    if (this.include.length > 0 && !this.include.some((p) => matchesUrlPattern(url, p))) return false;
+    return !this.exclude.some((p) => matchesUrlPattern(url, p));
+  }
+}
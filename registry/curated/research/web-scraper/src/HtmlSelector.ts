@@ -0,0 +1,206 @@
+// @ts-nocheck
+/**
+ * HtmlSelector — Selector evaluation over a parsed HTML tree.
+ *
+ * Extraction selectors are full CSS selectors (combinators, attribute
+ * selectors, `:nth-child()`, `:not()`, `:contains()` and the rest of what
+ * `cheerio`/`css-select` supports), optionally followed by ` @attr` to read
+ * an attribute instead of text:
+ *
+ * - `article h2.title a` — text of the first matching element
+ * - `ul > li:nth-child(2)` — structural pseudo-classes
+ * - `a[href^="/film/"] @href` — attribute value
+ * - `@data-id` — attribute of the context element itself (list items)
+ *
+ * Selectors prefixed with `xpath:` are translated to CSS.  The supported
+ * XPath subset is `/` and `//` steps with element names or `*`, the
+ * predicates `[@a]`, `[@a='v']`, `[contains(@a,'v')]`,
+ * `[starts-with(@a,'v')]`, `[contains(text(),'v')]`, `[n]` and
+ * `[last()]`, and a final `/@attr` or `/text()` step.  Paths are evaluated
+ * from the context element (the document, or the list item).
+ *
+ * Because extraction always runs on an HTML string — the fetched body in
+ * tier 1, `page.content()` in the Playwright tiers — every tier produces the
+ * same result for the same markup.
+ *
+ * @module HtmlSelector
+ */
+
+import { load } from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+/* -------------------------------------------------------------------------- */
+/*  Selector parsing                                                          */
+/* -------------------------------------------------------------------------- */
+
+/** A field selector split into its element and value parts. */
+export interface FieldSelector {
+  /** CSS selector for the element; empty means the context element itself. */
+  css: string;
+  /** Attribute to read instead of the element's text. */
+  attr?: string;
+}
+
+/** Prefix marking a selector as XPath rather than CSS. */
+const XPATH_PREFIX = 'xpath:';
+
+/** Quote a value for use inside a CSS attribute selector. */
+function cssString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Translate one XPath predicate (without brackets) to CSS.
+ */
+function xpathPredicateToCss(predicate: string, nodeTest: string, xpath: string): string {
+  const p = predicate.trim();
+  const str = `\\s*(?:'([^']*)'|"([^"]*)")\\s*`;
+  let m: RegExpMatchArray | null;
+
+  if ((m = p.match(/^\d+$/))) {
+    return nodeTest === '*' ? `:nth-child(${p})` : `:nth-of-type(${p})`;
+  }
+  if (p === 'last()') return nodeTest === '*' ? ':last-child' : ':last-of-type';
+  if ((m = p.match(/^@([\w:-]+)$/))) return `[${m[1]}]`;
+  if ((m = p.match(new RegExp(`^@([\\w:-]+)\\s*=${str}$`)))) return `[${m[1]}=${cssString(m[2] ?? m[3]!)}]`;
+  if ((m = p.match(new RegExp(`^contains\\(\\s*@([\\w:-]+)\\s*,${str}\\)$`)))) {
+    return `[${m[1]}*=${cssString(m[2] ?? m[3]!)}]`;
+  }
+  if ((m = p.match(new RegExp(`^starts-with\\(\\s*@([\\w:-]+)\\s*,${str}\\)$`)))) {
+    return `[${m[1]}^=${cssString(m[2] ?? m[3]!)}]`;
+  }
+  if ((m = p.match(new RegExp(`^contains\\(\\s*(?:text\\(\\)|\\.)\\s*,${str}\\)$`)))) {
+    return `:contains(${cssString(m[1] ?? m[2]!)})`;
+  }
+  throw new Error(`Unsupported XPath predicate [${predicate}] in ${xpath}`);
+}
+
+/**
+ * Translate the supported XPath subset (see module docs) to a
+ * {@link FieldSelector}.
+ *
+ * @throws Error when the expression uses unsupported syntax.
+ */
+export function xpathToSelector(xpath: string): FieldSelector {
+  let rest = xpath.trim();
+  let css = '';
+  let attr: string | undefined;
+  let first = true;
+
+  // "." and "./" refer to the context element; relative paths start at its children
+  if (rest.startsWith('./')) rest = rest.slice(1);
+  else if (rest === '.') rest = '';
+  else if (rest && !rest.startsWith('/')) rest = `/${rest}`;
+
+  while (rest) {
+    const m = rest.match(/^(\/\/?)(@[\w:-]+|text\(\)|\*|[\w-]+)((?:\[(?:[^\]'"]|'[^']*'|"[^"]*")*\])*)/);
+    if (!m) throw new Error(`Unsupported XPath: ${xpath}`);
+    const [whole, axis, nodeTest, predicates] = m;
+    rest = rest.slice(whole.length);
+
+    if (nodeTest.startsWith('@') || nodeTest === 'text()') {
+      if (rest || predicates || axis !== '/') throw new Error(`Unsupported XPath: ${xpath}`);
+      if (nodeTest.startsWith('@')) attr = nodeTest.slice(1);
+      break;
+    }
+
+    const combinator = axis === '//' ? ' ' : first ? ':scope > ' : ' > ';
+    let step = nodeTest;
+    for (const pm of predicates.matchAll(/\[((?:[^\]'"]|'[^']*'|"[^"]*")*)\]/g)) {
+      step += xpathPredicateToCss(pm[1]!, nodeTest, xpath);
+    }
+    css = first && axis === '//' ? step : `${css}${combinator}${step}`;
+    first = false;
+  }
+
+  return { css: css.trim(), attr };
+}
+
+/**
+ * Split a field selector into its CSS and attribute parts, translating
+ * `xpath:` selectors.
+ */
+export function parseFieldSelector(selector: string): FieldSelector {
+  const trimmed = selector.trim();
+  if (trimmed.toLowerCase().startsWith(XPATH_PREFIX)) {
+    return xpathToSelector(trimmed.slice(XPATH_PREFIX.length));
+  }
+
+  // "selector @attr" or a bare "@attr"
+  const attrMatch = trimmed.match(/^(?:(.*?)\s+)?@([\w:-]+)$/);
+  if (attrMatch) return { css: (attrMatch[1] ?? '').trim(), attr: attrMatch[2] };
+  return { css: trimmed };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Evaluation                                                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A parsed HTML document that field and list selectors are evaluated
+ * against.
+ *
+ * @example
+ * ```ts
+ * const doc = new HtmlSelector(html);
+ * doc.value('h1');                     // first <h1> text
+ * doc.list('.result').map((item) => item.value('a @href'));
+ * ```
+ */
+export class HtmlSelector {
+  private readonly $: CheerioAPI;
+  private readonly context: Cheerio<any>;
+
+  /**
+   * @param html    - HTML to parse, or an already-loaded document.
+   * @param context - Element selection that selectors are scoped to.
+   */
+  constructor(html: string | CheerioAPI, context?: Cheerio<any>) {
+    this.$ = typeof html === 'string' ? load(html) : html;
+    this.context = context ?? this.$.root();
+  }
+
+  /**
+   * Text (or attribute) of the first element matching `selector`, trimmed.
+   * Returns an empty string when nothing matches or the selector is invalid.
+   *
+   * Within a list item the item itself is a candidate, so `a @href` reads
+   * the href of an `<a>` container.
+   */
+  value(selector: string): string {
+    try {
+      const { css, attr } = parseFieldSelector(selector);
+      const el = this.first(css);
+      if (!el || el.length === 0) return '';
+      if (attr) return (el.attr(attr) ?? '').trim();
+      return el.text().trim();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Every element matching `selector`, each wrapped as its own scope for
+   * per-item field extraction.  An `@attr` suffix is ignored.
+   */
+  list(selector: string): HtmlSelector[] {
+    try {
+      const { css } = parseFieldSelector(selector);
+      if (!css) return [];
+      return this.context
+        .find(css)
+        .toArray()
+        .map((node) => new HtmlSelector(this.$, this.$(node)));
+    } catch {
+      return [];
+    }
+  }
+
+  /** First element matching `css`, with the context itself tried first for list items. */
+  private first(css: string): Cheerio<any> | null {
+    if (!css) return this.context.first();
+    const isItemScope = this.context[0] !== this.$.root()[0];
+    if (isItemScope && this.context.is(css)) return this.context.first();
+    return this.context.find(css).first();
+  }
+}
@@ -20,11 +20,17 @@ import { join, basename } from 'node:path';
 import { homedir } from 'node:os';
 import { fileURLToPath } from 'node:url';
 import YAML from 'yaml';
+import Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
 
 import type {
+  ExtractConfig,
   Recipe,
+  RecipeCondition,
   RecipeInput,
   RecipeResult,
+  RecipeStep,
+  RecipeValidationError,
   ScrapeResult,
 } from './types.js';
 import type { WebScraperService } from './WebScraperService.js';
@@ -46,6 +52,18 @@ const BUILTIN_RECIPES_DIR = join(
 /** User-specific recipe directory under the wunderland config root. */
 const USER_RECIPES_DIR = join(homedir(), '.wunderland', 'scraper-recipes');
 
+/** Default page cap for paginated steps. */
+const DEFAULT_MAX_PAGES = 10;
+
+/** Default iteration cap for `forEach` steps. */
+const DEFAULT_MAX_ITERATIONS = 25;
+
+/** Reserved extract field carrying a paginated step's next-page URL. */
+const NEXT_PAGE_FIELD = '__nextPage';
+
+/** Shared JSON Schema validator for recipe `outputSchema`s. */
+const ajv = new Ajv({ allErrors: true, strict: false });
+
 /* -------------------------------------------------------------------------- */
 /*  RecipeEngine                                                               */
 /* -------------------------------------------------------------------------- */
@@ -61,7 +79,13 @@ const USER_RECIPES_DIR = join(homedir(), '.wunderland', 'scraper-recipes');
  *   in a previous step's list extraction result.
  *
  * Steps execute sequentially so that later steps can reference data extracted
- * by earlier ones.
+ * by earlier ones.  A step may also:
+ * - run only `when` a condition on earlier results holds,
+ * - run `forEach` item of an earlier list step (`{{item.field}}`),
+ * - `paginate` by following next-page links or incrementing a page number.
+ *
+ * A recipe's `outputSchema` (JSON Schema) is checked against the aggregated
+ * output, with violations reported by JSON Pointer path.
  *
  * @example
  * ```ts
@@ -83,6 +107,9 @@ export class RecipeEngine {
   /** Reference to the scraper service used to execute each step. */
   private readonly scraper: WebScraperService;
 
+  /** Compiled `outputSchema` validators per recipe. */
+  private readonly validators = new WeakMap<Recipe, ValidateFunction>();
+
   /**
    * @param scraper - The {@link WebScraperService} instance used for all HTTP
    *                  fetching and extraction within recipe steps.
@@ -113,6 +140,30 @@ export class RecipeEngine {
     await this.loadRecipesFromDir(USER_RECIPES_DIR);
   }
 
+  /**
+   * Load a single recipe file and register it, replacing any recipe with
+   * the same name.
+   *
+   * @param path - Path to a `.yaml` / `.yml` recipe definition.
+   * @returns The parsed recipe.
+   * @throws Error when the file cannot be read or is not a valid recipe.
+   */
+  async loadRecipeFile(path: string): Promise<Recipe> {
+    const recipe = this.parseRecipe(await readFile(path, 'utf-8'), basename(path));
+    this.registerRecipe(recipe);
+    return recipe;
+  }
+
+  /**
+   * Register an in-memory recipe, replacing any recipe with the same name.
+   *
+   * @throws Error when the recipe has no steps or an invalid `outputSchema`.
+   */
+  registerRecipe(recipe: Recipe): void {
+    this.checkRecipe(recipe, recipe.name);
+    this.recipes.set(recipe.name, recipe);
+  }
+
   /**
    * List the names of all currently loaded recipes.
    *
@@ -140,8 +191,11 @@ export class RecipeEngine {
    * Execute a named recipe with the provided parameters.
    *
    * Each step's URL template is interpolated against (a) the input params and
-   * (b) accumulated results from prior steps.  Steps run sequentially; if any
-   * step fails the recipe is aborted and the partial results returned.
+   * (b) accumulated results from prior steps.  Steps run sequentially; a step
+   * whose `when` condition fails is skipped, a `forEach` step runs once per
+   * item of an earlier list step, and a `paginate` step keeps fetching pages.
+   * If any step fails the recipe is aborted and the partial results returned.
+   * Finally the aggregated data is checked against `outputSchema`, if any.
    *
    * @param input - The recipe name (or path) and runtime parameters.
    * @returns A {@link RecipeResult} containing aggregated step data.
@@ -164,21 +218,17 @@ export class RecipeEngine {
     // Accumulator for per-step results, keyed by step name
     const stepResults: Record<string, ScrapeResult> = {};
     const aggregatedData: Record<string, unknown> = {};
+    const skipped: string[] = [];
 
     for (const step of recipe.steps) {
-      // Interpolate the URL template using params + prior step results
-      const resolvedUrl = this.interpolate(step.url, params, stepResults);
-
-      // Interpolate any selector strings that contain templates (rare but supported)
-      const resolvedExtract = step.extract
-        ? this.interpolateExtract(step.extract, params, stepResults)
-        : undefined;
+      if (step.when !== undefined && !this.evaluateCondition(step.when, params, stepResults)) {
+        skipped.push(step.name);
+        continue;
+      }
 
-      const result = await this.scraper.scrape({
-        url: resolvedUrl,
-        extract: resolvedExtract,
-        options: step.options,
-      });
+      const result = step.forEach
+        ? await this.runForEach(step, params, stepResults)
+        : await this.runStep(step, params, stepResults);
 
       // Store raw result for downstream step references
       stepResults[step.name] = result;
@@ -189,14 +239,10 @@ export class RecipeEngine {
           recipe: input.recipe,
           data: aggregatedData,
           error: `Step "${step.name}" failed: ${result.error}`,
+          ...(skipped.length > 0 ? { skipped } : {}),
         };
       }
 
-      // Apply maxItems cap if configured on this step
-      if (result.items && step.options?.maxItems) {
-        result.items = result.items.slice(0, step.options.maxItems);
-      }
-
       // Aggregate: prefer items for list steps, data for single-record steps
       if (result.items) {
         aggregatedData[step.name] = result.items;
@@ -207,11 +253,264 @@ export class RecipeEngine {
       }
     }
 
-    return {
+    const output: RecipeResult = {
       success: true,
       recipe: input.recipe,
       data: aggregatedData,
+      ...(skipped.length > 0 ? { skipped } : {}),
     };
+
+    if (recipe.outputSchema) {
+      const validationErrors = this.validateOutput(recipe, aggregatedData);
+      if (validationErrors.length > 0) {
+        output.success = false;
+        output.validationErrors = validationErrors;
+        output.error = 'Output does not match the recipe\'s outputSchema: '
+          + validationErrors.map((e) => `${e.path} ${e.message}`).join('; ');
+      }
+    }
+
+    return output;
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Step execution                                                        */
+  /* ---------------------------------------------------------------------- */
+
+  /**
+   * Run one step (one iteration, for `forEach` steps), following its
+   * pagination if configured.
+   *
+   * @param step        - The step definition.
+   * @param params      - Resolved params, plus loop variables.
+   * @param stepResults - Prior step results.
+   * @param item        - Current `forEach` item, if any.
+   */
+  private async runStep(
+    step: RecipeStep,
+    params: Record<string, string>,
+    stepResults: Record<string, ScrapeResult>,
+    item?: Record<string, string>,
+  ): Promise<ScrapeResult> {
+    // Interpolate any selector strings that contain templates (rare but supported)
+    const extract = step.extract
+      ? this.interpolateExtract(step.extract, params, stepResults, item)
+      : undefined;
+
+    const result = step.paginate
+      ? await this.runPaginated(step, extract, params, stepResults, item)
+      : await this.scraper.scrape({
+        url: this.interpolate(step.url, params, stepResults, item),
+        extract,
+        options: step.options,
+      });
+
+    // Apply maxItems cap if configured on this step
+    if (result.success && result.items && step.options?.maxItems) {
+      result.items = result.items.slice(0, step.options.maxItems);
+    }
+    return result;
+  }
+
+  /**
+   * Fetch a step's pages and merge them: list items are concatenated,
+   * single-record data comes from the first page.
+   *
+   * Link pagination stops when the next-page selector finds nothing or
+   * points at a page already fetched; numbered pagination stops at the
+   * first page that fails or has no items.  Only a failure of the first
+   * page fails the step.
+   */
+  private async runPaginated(
+    step: RecipeStep,
+    extract: ExtractConfig | undefined,
+    params: Record<string, string>,
+    stepResults: Record<string, ScrapeResult>,
+    item?: Record<string, string>,
+  ): Promise<ScrapeResult> {
+    const paginate = step.paginate!;
+    const maxPages = Math.max(1, paginate.maxPages ?? DEFAULT_MAX_PAGES);
+    const pageParam = paginate.pageParam;
+    let pageNumber = paginate.start ?? 1;
+
+    // The next-page link is extracted alongside the step's own fields
+    const pageExtract: ExtractConfig = { ...extract };
+    if (paginate.next) {
+      pageExtract.fields = {
+        ...pageExtract.fields,
+        [NEXT_PAGE_FIELD]: this.interpolate(paginate.next, params, stepResults, item),
+      };
+    }
+
+    const urlFor = (page: number) => this.interpolate(
+      step.url,
+      pageParam ? { ...params, [pageParam]: String(page) } : params,
+      stepResults,
+      item,
+    );
+
+    let url = urlFor(pageNumber);
+    const visited = new Set<string>();
+    let first: ScrapeResult | null = null;
+    const items: Record<string, string>[] = [];
+    const texts: string[] = [];
+
+    for (let page = 0; page < maxPages; page++) {
+      visited.add(url);
+      const result = await this.scraper.scrape({
+        url,
+        extract: Object.keys(pageExtract).length > 0 ? pageExtract : undefined,
+        options: step.options,
+      });
+      if (!result.success) {
+        if (!first) return result;
+        break;
+      }
+
+      const nextHref = result.data?.[NEXT_PAGE_FIELD];
+      if (result.data) {
+        delete result.data[NEXT_PAGE_FIELD];
+        if (!extract?.fields) delete result.data;
+      }
+      if (!first) first = result;
+      if (result.items) items.push(...result.items);
+      if (result.text) texts.push(result.text);
+
+      if (pageParam) {
+        if (!result.items?.length) break;
+        url = urlFor(++pageNumber);
+      } else {
+        if (!nextHref) break;
+        try {
+          url = new URL(nextHref, result.url || url).toString();
+        } catch {
+          break;
+        }
+        if (visited.has(url)) break;
+      }
+    }
+
+    const merged: ScrapeResult = { ...first! };
+    if (first!.items) merged.items = items;
+    if (first!.text) merged.text = texts.join('\n\n');
+    return merged;
+  }
+
+  /**
+   * Run a `forEach` step once per item of the referenced list and merge
+   * the iterations into one list result.  Iterations that extract lists
+   * contribute their items; others contribute their data (or text).
+   */
+  private async runForEach(
+    step: RecipeStep,
+    params: Record<string, string>,
+    stepResults: Record<string, ScrapeResult>,
+  ): Promise<ScrapeResult> {
+    const source = this.resolveItems(step.forEach!, stepResults);
+    if (!source) {
+      return {
+        success: false,
+        url: step.url,
+        tier: 0,
+        statusCode: 0,
+        error: `forEach source "${step.forEach}" is not a list of a previous step`,
+      };
+    }
+
+    const merged: Record<string, string>[] = [];
+    let last: ScrapeResult | null = null;
+    const iterations = source.slice(0, step.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+
+    for (const [index, item] of iterations.entries()) {
+      const result = await this.runStep(step, { ...params, index: String(index) }, stepResults, item);
+      if (!result.success) {
+        return { ...result, error: `item ${index}: ${result.error}` };
+      }
+      last = result;
+      if (result.items) merged.push(...result.items);
+      else if (result.data) merged.push(result.data);
+      else if (result.text) merged.push({ text: result.text });
+    }
+
+    return {
+      success: true,
+      url: last?.url ?? step.url,
+      tier: last?.tier ?? 0,
+      statusCode: last?.statusCode ?? 0,
+      items: merged,
+    };
+  }
+
+  /**
+   * Look up the list named by a `forEach` expression such as
+   * `steps.search.items` (a `{{...}}` wrapper is tolerated).
+   */
+  private resolveItems(
+    expr: string,
+    stepResults: Record<string, ScrapeResult>,
+  ): Record<string, string>[] | null {
+    const match = expr.trim().replace(/^\{\{\s*|\s*\}\}$/g, '').match(/^steps\.([^.]+)\.items$/);
+    if (!match) return null;
+    return stepResults[match[1]!]?.items ?? null;
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Conditions and validation                                             */
+  /* ---------------------------------------------------------------------- */
+
+  /**
+   * Decide whether a step's `when` condition holds.
+   */
+  private evaluateCondition(
+    condition: string | RecipeCondition,
+    params: Record<string, string>,
+    stepResults: Record<string, ScrapeResult>,
+  ): boolean {
+    if (typeof condition === 'string') {
+      return this.interpolate(condition, params, stepResults).trim() !== '';
+    }
+
+    const value = this.interpolate(condition.value ?? '', params, stepResults).trim();
+    const checks: boolean[] = [];
+
+    if (condition.exists !== undefined) checks.push((value !== '') === condition.exists);
+    if (condition.equals !== undefined) checks.push(value === String(condition.equals));
+    if (condition.notEquals !== undefined) checks.push(value !== String(condition.notEquals));
+    if (condition.matches !== undefined) checks.push(new RegExp(condition.matches).test(value));
+    if (condition.gt !== undefined) checks.push(value !== '' && Number(value) > condition.gt);
+    if (condition.lt !== undefined) checks.push(value !== '' && Number(value) < condition.lt);
+
+    return checks.length > 0 ? checks.every(Boolean) : value !== '';
+  }
+
+  /**
+   * Validate aggregated output against the recipe's `outputSchema`.
+   *
+   * @returns Violations with JSON Pointer paths into the output data.
+   */
+  private validateOutput(recipe: Recipe, data: Record<string, unknown>): RecipeValidationError[] {
+    let validate = this.validators.get(recipe);
+    if (!validate) {
+      try {
+        validate = ajv.compile(recipe.outputSchema!);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return [{ path: '/', message: `invalid outputSchema: ${msg}` }];
+      }
+      this.validators.set(recipe, validate);
+    }
+
+    if (validate(data)) return [];
+    return (validate.errors ?? []).map((err) => {
+      // Point at the offending property rather than its parent object
+      if (err.keyword === 'required') {
+        return { path: `${err.instancePath}/${err.params.missingProperty}`, message: 'is required' };
+      }
+      if (err.keyword === 'additionalProperties') {
+        return { path: `${err.instancePath}/${err.params.additionalProperty}`, message: 'is not allowed' };
+      }
+      return { path: err.instancePath || '/', message: err.message ?? 'is invalid' };
+    });
   }
 
   /* ---------------------------------------------------------------------- */
@@ -241,23 +540,61 @@ export class RecipeEngine {
     for (const file of yamlFiles) {
       try {
         const raw = await readFile(join(dir, file), 'utf-8');
-        const parsed = YAML.parse(raw) as Recipe;
+        const parsed = this.parseRecipe(raw, file);
+        this.recipes.set(parsed.name, parsed);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.warn(`[RecipeEngine] Skipping "${file}": ${msg}`);
+      }
+    }
+  }
 
-        // Derive recipe name from filename if not set in the YAML
-        if (!parsed.name) {
-          parsed.name = basename(file, file.endsWith('.yaml') ? '.yaml' : '.yml');
-        }
+  /**
+   * Parse and check one recipe YAML document.
+   *
+   * @param raw  - YAML source.
+   * @param file - File name, used for the default recipe name and errors.
+   * @throws Error when the YAML is invalid or the recipe fails {@link checkRecipe}.
+   */
+  private parseRecipe(raw: string, file: string): Recipe {
+    const parsed = YAML.parse(raw) as Recipe;
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('not a recipe object');
+    }
 
-        // Basic validation: must have at least one step
-        if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
-          console.warn(`[RecipeEngine] Skipping "${file}": no steps defined`);
-          continue;
-        }
+    // Derive recipe name from filename if not set in the YAML
+    if (!parsed.name) {
+      parsed.name = basename(file, file.endsWith('.yaml') ? '.yaml' : '.yml');
+    }
+    parsed.params ??= {};
 
-        this.recipes.set(parsed.name, parsed);
+    this.checkRecipe(parsed, file);
+    return parsed;
+  }
+
+  /**
+   * Basic validation: a recipe needs at least one step, every `when.matches`
+   * must be a valid regex, and its `outputSchema` (if any) must compile.
+   */
+  private checkRecipe(recipe: Recipe, source: string): void {
+    if (!Array.isArray(recipe.steps) || recipe.steps.length === 0) {
+      throw new Error(`no steps defined in ${source}`);
+    }
+    for (const step of recipe.steps) {
+      const matches = typeof step.when === 'object' ? step.when?.matches : undefined;
+      if (matches === undefined) continue;
+      try {
+        new RegExp(matches);
+      } catch {
+        throw new Error(`invalid when.matches regex in step "${step.name}" of ${source}: ${matches}`);
+      }
+    }
+    if (recipe.outputSchema) {
+      try {
+        this.validators.set(recipe, ajv.compile(recipe.outputSchema));
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
-        console.warn(`[RecipeEngine] Failed to parse "${file}": ${msg}`);
+        throw new Error(`invalid outputSchema in ${source}: ${msg}`);
       }
     }
   }
@@ -304,18 +641,22 @@ export class RecipeEngine {
    *   single-record extraction data.
    * - `{{steps.stepName.items[N].field}}` — lookup a field from the Nth item
    *   in a prior step's list extraction result.
+   * - `{{steps.stepName.items.length}}` — number of items in a prior step's list.
+   * - `{{item.field}}` — a field of the current `forEach` item.
    *
    * Unresolved placeholders are replaced with empty strings.
    *
    * @param template    - String containing `{{...}}` tokens.
    * @param params      - Top-level param values.
    * @param stepResults - Prior step results keyed by step name.
+   * @param item        - Current `forEach` item, if any.
    * @returns The interpolated string.
    */
   private interpolate(
     template: string,
     params: Record<string, string>,
     stepResults: Record<string, ScrapeResult>,
+    item?: Record<string, string>,
   ): string {
     return template.replace(/\{\{(.+?)\}\}/g, (_match, expr: string) => {
       const trimmed = expr.trim();
@@ -326,6 +667,11 @@ export class RecipeEngine {
         return this.resolveStepRef(trimmed, stepResults);
       }
 
+      // Current forEach item: item.fieldName
+      if (item && trimmed.startsWith('item.')) {
+        return item[trimmed.slice(5)] ?? '';
+      }
+
       // Plain param lookup
       return params[trimmed] ?? '';
     });
@@ -354,6 +700,11 @@ export class RecipeEngine {
 
     const accessor = parts[2]!;
 
+    // Handle "items.length"
+    if (accessor === 'items' && parts[3] === 'length' && parts.length === 4) {
+      return String(result.items?.length ?? 0);
+    }
+
     // Handle "data.fieldName"
     if (accessor === 'data' && parts.length >= 4) {
       const fieldName = parts.slice(3).join('.');
@@ -381,30 +732,32 @@ export class RecipeEngine {
    * @param extract     - The original extraction config.
    * @param params      - Resolved parameters.
    * @param stepResults - Prior step results.
+   * @param item        - Current `forEach` item, if any.
    * @returns A new {@link ExtractConfig} with all selectors interpolated.
    */
   private interpolateExtract(
-    extract: import('./types.js').ExtractConfig,
+    extract: ExtractConfig,
     params: Record<string, string>,
     stepResults: Record<string, ScrapeResult>,
-  ): import('./types.js').ExtractConfig {
-    const interpolated: import('./types.js').ExtractConfig = {};
+    item?: Record<string, string>,
+  ): ExtractConfig {
+    const interpolated: ExtractConfig = {};
 
     if (extract.fields) {
       interpolated.fields = {};
       for (const [key, selector] of Object.entries(extract.fields)) {
-        interpolated.fields[key] = this.interpolate(selector, params, stepResults);
+        interpolated.fields[key] = this.interpolate(selector, params, stepResults, item);
       }
     }
 
     if (extract.list) {
-      interpolated.list = this.interpolate(extract.list, params, stepResults);
+      interpolated.list = this.interpolate(extract.list, params, stepResults, item);
     }
 
     if (extract.listFields) {
       interpolated.listFields = {};
       for (const [key, selector] of Object.entries(extract.listFields)) {
-        interpolated.listFields[key] = this.interpolate(selector, params, stepResults);
+        interpolated.listFields[key] = this.interpolate(selector, params, stepResults, item);
       }
     }
 
@@ -0,0 +1,208 @@
+// @ts-nocheck
+/**
+ * RecipeTester — Offline regression tests for scraping recipes.
+ *
+ * A test suite ({@link RecipeTestSuite}, usually a `*.test.yaml` file) names
+ * a recipe and lists cases.  Each case maps the URLs the recipe will request
+ * to saved HTML fixture files and states the expected output.  The recipe
+ * runs through the normal {@link RecipeEngine}, but every request is served
+ * from the fixtures by a {@link FixtureScraper}, which applies the same
+ * extraction as {@link WebScraperService} — so a change to a recipe's
+ * selectors, pagination or schema can be checked without network access.
+ *
+ * @example
+ * ```ts
+ * const results = await runRecipeTests('test/recipes/generic-article.test.yaml');
+ * for (const r of results) if (!r.passed) console.log(r.name, r.failures);
+ * ```
+ *
+ * @module RecipeTester
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import YAML from 'yaml';
+
+import type {
+  RecipeTestCase,
+  RecipeTestCaseResult,
+  RecipeTestSuite,
+  ScrapeInput,
+  ScrapeResult,
+} from './types.js';
+import { RecipeEngine } from './RecipeEngine.js';
+import { WebScraperService } from './WebScraperService.js';
+
+/* -------------------------------------------------------------------------- */
+/*  FixtureScraper                                                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Stand-in for {@link WebScraperService} that serves saved HTML instead of
+ * fetching.  Results have the same shape as a tier 1 scrape.
+ */
+export class FixtureScraper {
+  /** URLs requested so far, in order. */
+  readonly requests: string[] = [];
+
+  /** Used only for its extraction and text conversion. */
+  private readonly extractor = new WebScraperService();
+
+  /**
+   * @param pages - Map of URL to HTML.
+   */
+  constructor(private readonly pages: Record<string, string>) {}
+
+  /** Serve `input.url` from the fixtures, applying `input.extract`. */
+  async scrape(input: ScrapeInput): Promise<ScrapeResult> {
+    const { url, extract } = input;
+    this.requests.push(url);
+
+    const html = this.pages[url];
+    if (html === undefined) {
+      return { success: false, url, tier: 1, statusCode: 404, error: `No fixture for ${url}` };
+    }
+
+    if (extract) {
+      return { success: true, url, tier: 1, statusCode: 200, ...this.extractor.extractFromHtml(html, extract) };
+    }
+    return { success: true, url, tier: 1, statusCode: 200, html, text: this.extractor.htmlToText(html) };
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Running suites                                                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Run every case of a recipe test suite file.
+ *
+ * @param suitePath - Path to the suite YAML file.
+ * @returns One result per case, in order.
+ * @throws Error when the suite, its recipe or a fixture file cannot be loaded.
+ */
+export async function runRecipeTests(suitePath: string): Promise<RecipeTestCaseResult[]> {
+  const suite = YAML.parse(await readFile(suitePath, 'utf-8')) as RecipeTestSuite;
+  if (!suite || !Array.isArray(suite.cases)) {
+    throw new Error(`${suitePath}: a recipe test suite needs a "cases" list`);
+  }
+  return runRecipeTestSuite(suite, dirname(resolve(suitePath)));
+}
+
+/**
+ * Run every case of an in-memory recipe test suite.
+ *
+ * @param suite   - The suite definition.
+ * @param baseDir - Directory that `recipeFile` and fixture paths are relative to.
+ * @returns One result per case, in order.
+ */
+export async function runRecipeTestSuite(
+  suite: RecipeTestSuite,
+  baseDir: string,
+): Promise<RecipeTestCaseResult[]> {
+  const results: RecipeTestCaseResult[] = [];
+  for (const testCase of suite.cases) {
+    results.push(await runCase(suite, testCase, baseDir));
+  }
+  return results;
+}
+
+/** Run one case against a fresh engine and fixture set. */
+async function runCase(
+  suite: RecipeTestSuite,
+  testCase: RecipeTestCase,
+  baseDir: string,
+): Promise<RecipeTestCaseResult> {
+  const pages: Record<string, string> = {};
+  for (const [url, file] of Object.entries(testCase.fixtures ?? {})) {
+    pages[url] = await readFile(resolve(baseDir, file), 'utf-8');
+  }
+
+  const scraper = new FixtureScraper(pages);
+  const engine = new RecipeEngine(scraper as unknown as WebScraperService);
+
+  let recipeName = suite.recipe;
+  if (suite.recipeFile) {
+    recipeName = (await engine.loadRecipeFile(resolve(baseDir, suite.recipeFile))).name;
+  } else {
+    await engine.loadRecipes();
+  }
+  if (!recipeName) throw new Error('A recipe test suite needs "recipe" or "recipeFile"');
+
+  const result = await engine.execute({ recipe: recipeName, params: testCase.params ?? {} });
+  const failures = checkExpectation(testCase, result, scraper.requests);
+
+  return {
+    name: testCase.name,
+    passed: failures.length === 0,
+    failures,
+    result,
+    requests: scraper.requests,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Expectations                                                              */
+/* -------------------------------------------------------------------------- */
+
+function checkExpectation(
+  testCase: RecipeTestCase,
+  result: RecipeTestCaseResult['result'],
+  requests: string[],
+): string[] {
+  const expected = testCase.expect ?? {};
+  const failures: string[] = [];
+
+  if (expected.success !== undefined && result.success !== expected.success) {
+    failures.push(
+      `success: expected ${expected.success}, got ${result.success}${result.error ? ` (${result.error})` : ''}`,
+    );
+  }
+  if (expected.error !== undefined && !(result.error ?? '').includes(expected.error)) {
+    failures.push(`error: expected to contain ${JSON.stringify(expected.error)}, got ${JSON.stringify(result.error ?? '')}`);
+  }
+  if (expected.skipped !== undefined) {
+    failures.push(...matchValue(result.skipped ?? [], expected.skipped, '/skipped'));
+  }
+  if (expected.requests !== undefined) {
+    failures.push(...matchValue(requests, expected.requests, '/requests'));
+  }
+  if (expected.data !== undefined) {
+    failures.push(...matchValue(result.data, expected.data, ''));
+  }
+  return failures;
+}
+
+/**
+ * Compare a value against an expectation.  Objects match on the expected
+ * keys only; arrays must have the same length; anything else must be
+ * strictly equal.
+ *
+ * @returns Mismatches as `"<pointer>: expected …, got …"` lines.
+ */
+function matchValue(actual: unknown, expected: unknown, path: string): string[] {
+  const at = path || '/';
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return [`${at}: expected an array, got ${describe(actual)}`];
+    if (actual.length !== expected.length) {
+      return [`${at}: expected ${expected.length} item(s), got ${actual.length}`];
+    }
+    return expected.flatMap((value, i) => matchValue(actual[i], value, `${path}/${i}`));
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      return [`${at}: expected an object, got ${describe(actual)}`];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      matchValue((actual as Record<string, unknown>)[key], value, `${path}/${key}`),
+    );
+  }
+
+  return actual === expected ? [] : [`${at}: expected ${describe(expected)}, got ${describe(actual)}`];
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
@@ -0,0 +1,351 @@
+// @ts-nocheck
+/**
+ * robots.txt — Parser, matcher and per-origin cache.
+ *
+ * Implements the parts of RFC 9309 (Robots Exclusion Protocol) that a
+ * polite scraper needs:
+ *
+ * - **Group matching** — rules come from the groups whose `User-agent`
+ *   equals our product token (case-insensitive); if none match, from the
+ *   `*` groups.  Several groups for the same agent are merged.
+ * - **Longest match** — the matching `Allow`/`Disallow` rule with the
+ *   longest path wins; on a tie `Allow` wins.  `*` wildcards and a
+ *   trailing `$` anchor are supported.
+ * - **Crawl-delay** — the non-standard but widely used directive is
+ *   reported so callers can space out requests.
+ * - **Availability** — a 4xx robots.txt means no restrictions; a 5xx or
+ *   network error means the whole site is treated as disallowed until the
+ *   file can be fetched (a previously cached result, file or 4xx, is reused
+ *   if there is one).
+ *
+ * @module RobotsTxt
+ */
+
+import type { RobotsDecision } from './types.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Parsed representation                                                     */
+/* -------------------------------------------------------------------------- */
+
+/** A single `Allow` or `Disallow` line. */
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern as written (may contain `*` and a trailing `$`). */
+  path: string;
+}
+
+/** One `User-agent` group with its rules. */
+export interface RobotsGroup {
+  /** Lowercased product tokens from the group's `User-agent` lines. */
+  userAgents: string[];
+  rules: RobotsRule[];
+  /** `Crawl-delay` in seconds, when given. */
+  crawlDelay?: number;
+}
+
+/** A parsed robots.txt file. */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/** Result of matching a path against a parsed robots.txt. */
+export interface RobotsMatch {
+  allowed: boolean;
+  /** The winning rule's path, when any rule matched. */
+  rule?: string;
+  /** `Crawl-delay` in seconds for the matched group. */
+  crawlDelay?: number;
+}
+
+/** Only the first 500 KiB of a robots.txt is parsed (RFC 9309 §2.5). */
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/* -------------------------------------------------------------------------- */
+/*  Parsing                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parse robots.txt content into groups.  Unknown directives and rules
+ * that appear before any `User-agent` line are ignored.
+ *
+ * @param content - Raw robots.txt text.
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive User-agent lines share one group; a rule line closes the header
+  let inHeader = false;
+
+  for (const rawLine of content.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    switch (key) {
+      case 'user-agent': {
+        if (!current || !inHeader) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          inHeader = true;
+        }
+        // "Googlebot/2.1" → "googlebot"
+        const token = value.split(/[\/\s]/)[0]?.toLowerCase();
+        if (token) current.userAgents.push(token);
+        break;
+      }
+      case 'allow':
+      case 'disallow':
+        inHeader = false;
+        // An empty Disallow allows everything, which is the same as no rule
+        if (current && value) current.rules.push({ allow: key === 'allow', path: value });
+        break;
+      case 'crawl-delay': {
+        inHeader = false;
+        const seconds = Number(value);
+        if (current && Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Matching                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Whether a robots.txt path pattern matches a URL path (path + query).
+ */
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  if (!body.includes('*')) {
+    return anchored ? path === body : path.startsWith(body);
+  }
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Check a path against parsed rules for a user-agent product token.
+ *
+ * @param robots    - Parsed robots.txt.
+ * @param path      - URL path including any query string (e.g. `/a?b=1`).
+ * @param userAgent - Our product token (e.g. `AgentOS-WebScraper`).
+ */
+export function matchRobots(robots: RobotsTxt, path: string, userAgent: string): RobotsMatch {
+  const token = userAgent.toLowerCase();
+  let groups = robots.groups.filter((g) => g.userAgents.includes(token));
+  if (groups.length === 0) groups = robots.groups.filter((g) => g.userAgents.includes('*'));
+  if (groups.length === 0) return { allowed: true };
+
+  const crawlDelay = groups.find((g) => g.crawlDelay !== undefined)?.crawlDelay;
+  if (path === '/robots.txt') return { allowed: true, crawlDelay };
+
+  let best: RobotsRule | null = null;
+  for (const group of groups) {
+    for (const rule of group.rules) {
+      if (!patternMatches(rule.path, path)) continue;
+      if (
+        !best
+        || rule.path.length > best.path.length
+        || (rule.path.length === best.path.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+  }
+
+  return { allowed: best ? best.allow : true, rule: best?.path, crawlDelay };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Fetching and caching                                                      */
+/* -------------------------------------------------------------------------- */
+
+/** Options for {@link RobotsTxtCache}. */
+export interface RobotsTxtOptions {
+  /**
+   * Product token matched against `User-agent` lines and sent when
+   * fetching robots.txt.  Default `AgentOS-WebScraper`.
+   */
+  userAgent?: string;
+  /** How long a fetched robots.txt is reused (default 24 hours). */
+  cacheTtlMs?: number;
+  /** How long an unreachable robots.txt result is reused (default 5 minutes). */
+  errorCacheTtlMs?: number;
+  /** Timeout for fetching robots.txt (default 10 seconds). */
+  timeoutMs?: number;
+  /** Upper bound applied to `Crawl-delay` values (default 30 seconds). */
+  maxCrawlDelayMs?: number;
+  /** Fetch implementation used for robots.txt (default: the global `fetch`). */
+  fetch?: typeof fetch;
+}
+
+/** Per-origin cache entry. */
+interface RobotsCacheEntry {
+  /** Parsed file, or `null` when the origin has no usable robots.txt. */
+  robots: RobotsTxt | null;
+  /** When `robots` is `null`: whether everything is allowed (4xx) or disallowed (5xx). */
+  allowAll: boolean;
+  /** robots.txt could not be fetched and there was no earlier result to reuse. */
+  unreachable?: boolean;
+  expiresMs: number;
+}
+
+/** Maximum origins kept in the cache. */
+const ROBOTS_CACHE_MAX = 500;
+
+/** Default product token used for robots.txt group matching. */
+export const DEFAULT_ROBOTS_USER_AGENT = 'AgentOS-WebScraper';
+
+/**
+ * Fetches, caches and evaluates robots.txt per origin.
+ *
+ * Concurrent checks for the same origin share a single fetch.
+ *
+ * @example
+ * ```ts
+ * const robots = new RobotsTxtCache({ userAgent: 'MyBot' });
+ * const decision = await robots.check('https://example.com/private/page');
+ * if (!decision.allowed) console.log(`Blocked by ${decision.rule}`);
+ * ```
+ */
+export class RobotsTxtCache {
+  readonly userAgent: string;
+  private readonly cacheTtlMs: number;
+  private readonly errorCacheTtlMs: number;
+  private readonly timeoutMs: number;
+  private readonly maxCrawlDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly cache = new Map<string, RobotsCacheEntry>();
+  private readonly inFlight = new Map<string, Promise<RobotsCacheEntry>>();
+
+  constructor(opts?: RobotsTxtOptions) {
+    this.userAgent = opts?.userAgent ?? DEFAULT_ROBOTS_USER_AGENT;
+    this.cacheTtlMs = opts?.cacheTtlMs ?? 24 * 60 * 60 * 1_000;
+    this.errorCacheTtlMs = opts?.errorCacheTtlMs ?? 5 * 60 * 1_000;
+    this.timeoutMs = opts?.timeoutMs ?? 10_000;
+    this.maxCrawlDelayMs = opts?.maxCrawlDelayMs ?? 30_000;
+    this.fetchImpl = opts?.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Decide whether `url` may be fetched.  URLs that are not http(s) are
+   * always allowed.
+   */
+  async check(url: string): Promise<RobotsDecision> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: true, robotsUrl: '' };
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { allowed: true, robotsUrl: '' };
+    }
+
+    const robotsUrl = `${parsed.origin}/robots.txt`;
+    const entry = await this.entryFor(parsed.origin, robotsUrl);
+
+    if (!entry.robots) {
+      return entry.allowAll
+        ? { allowed: true, robotsUrl }
+        : { allowed: false, robotsUrl, rule: '*', unreachable: true };
+    }
+
+    const match = matchRobots(entry.robots, parsed.pathname + parsed.search, this.userAgent);
+    return {
+      allowed: match.allowed,
+      robotsUrl,
+      rule: match.rule,
+      crawlDelayMs: match.crawlDelay !== undefined
+        ? Math.min(match.crawlDelay * 1_000, this.maxCrawlDelayMs)
+        : undefined,
+    };
+  }
+
+  /** Drop all cached robots.txt files. */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /* ---------------------------------------------------------------------- */
+  /*  Internals                                                             */
+  /* ---------------------------------------------------------------------- */
+
+  private async entryFor(origin: string, robotsUrl: string): Promise<RobotsCacheEntry> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresMs > Date.now()) return cached;
+
+    let pending = this.inFlight.get(origin);
+    if (!pending) {
+      pending = this.fetchEntry(robotsUrl, cached)
+        .then((entry) => {
+          this.store(origin, entry);
+          return entry;
+        })
+        .finally(() => this.inFlight.delete(origin));
+      this.inFlight.set(origin, pending);
+    }
+    return pending;
+  }
+
+  private async fetchEntry(robotsUrl: string, previous?: RobotsCacheEntry): Promise<RobotsCacheEntry> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.fetchImpl(robotsUrl, {
+        headers: { 'User-Agent': this.userAgent, Accept: 'text/plain' },
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+
+      if (response.ok) {
+        return {
+          robots: parseRobotsTxt(await response.text()),
+          allowAll: true,
+          expiresMs: Date.now() + this.cacheTtlMs,
+        };
+      }
+      // 429 is a server-side throttle, not "no robots.txt" — treat like 5xx
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        return { robots: null, allowAll: true, expiresMs: Date.now() + this.cacheTtlMs };
+      }
+    } catch {
+      // Network error or timeout — fall through to "unreachable"
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // Unreachable: keep using the last good result (a file or a 4xx) if we have one, else disallow all
+    if (previous && !previous.unreachable) {
+      return { ...previous, expiresMs: Date.now() + this.errorCacheTtlMs };
+    }
+    return { robots: null, allowAll: false, unreachable: true, expiresMs: Date.now() + this.errorCacheTtlMs };
+  }
+
+  private store(origin: string, entry: RobotsCacheEntry): void {
+    if (this.cache.size >= ROBOTS_CACHE_MAX && !this.cache.has(origin)) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest as string);
+    }
+    this.cache.delete(origin);
+    this.cache.set(origin, entry);
+  }
+}
@@ -13,10 +13,17 @@
  *            agent runtime handles structured extraction via LLM
  *
  * Additional features:
- * - Per-domain rate limiting with random jitter (500ms–2s)
+ * - Per-domain rate limiting with random jitter (500ms–2s), per-domain
+ *   politeness overrides, and robots.txt `Crawl-delay`
+ * - Optional robots.txt enforcement — disallowed URLs are never fetched
  * - Domain-tier cache (remembers which tier works for each domain)
  * - Round-robin proxy rotation
- * - CSS-like field extraction via regex (no DOM parser dependency)
+ * - Optional on-disk HTTP cache with record/replay cassettes for the
+ *   fetch-based tiers (see {@link HttpCache})
+ * - Multi-page crawling with link following, URL/content deduplication and
+ *   a resumable frontier (see {@link CrawlFrontier})
+ * - CSS selector (and XPath subset) field extraction over a parsed HTML tree,
+ *   identical for every tier
  * - Script/style/nav/footer stripping for clean text output
  *
  * @module WebScraperService
@@ -28,8 +35,17 @@ import type {
   ScrapeOptions,
   ScrapeTier,
   ExtractConfig,
+  DomainPolicy,
+  CrawlInput,
+  CrawlPage,
 } from './types.js';
 import { randomUserAgent, browserHeaders } from './UserAgentPool.js';
+import { RobotsTxtCache } from './RobotsTxt.js';
+import { HtmlSelector } from './HtmlSelector.js';
+import { CrawlFrontier, extractPageLinks } from './CrawlFrontier.js';
+import { HttpCache } from '@framers/agentos-research-shared';
+import type { RobotsTxtOptions } from './RobotsTxt.js';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
 
 /* -------------------------------------------------------------------------- */
 /*  Internal types                                                            */
@@ -58,6 +74,25 @@ export interface WebScraperServiceOptions {
   proxyUrl?: string;
   /** Comma-separated or array of proxy URLs for round-robin rotation. */
   proxyList?: string | string[];
+  /**
+   * Honour robots.txt: skip disallowed URLs and wait at least the
+   * `Crawl-delay` between requests to a domain.  `true` uses the default
+   * {@link RobotsTxtOptions}.  Off by default.
+   */
+  robots?: boolean | RobotsTxtOptions;
+  /**
+   * Per-domain delay overrides, keyed by hostname or parent domain.
+   *
+   * @example { "example.com": { minDelayMs: 5000, maxDelayMs: 8000 } }
+   */
+  domainPolicies?: Record<string, DomainPolicy>;
+  /**
+   * HTTP response cache for tier 1, tier 4 and robots.txt requests.  In
+   * `replay` mode the browser tiers (2 and 3) are skipped and no rate-limit
+   * delay is applied, so scrapes run deterministically without network
+   * access.  Off by default.
+   */
+  httpCache?: HttpCache | HttpCacheOptions;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -79,7 +114,7 @@ const DEFAULT_TIMEOUT_MS = 30_000;
 
 /**
  * Progressive web scraper with 4-tier fallback chain, per-domain rate
- * limiting, proxy rotation, and regex-based field extraction.
+ * limiting, proxy rotation, and CSS selector field extraction.
  *
  * @example
  * ```ts
@@ -111,6 +146,15 @@ export class WebScraperService {
   /** Per-domain rate-limit tracker. */
   private readonly domainTimestamps = new Map<string, DomainTimestamp>();
 
+  /** Per-domain delay overrides, keyed by lowercase domain. */
+  private readonly domainPolicies: Map<string, DomainPolicy>;
+
+  /** robots.txt cache, or `null` when robots.txt is not enforced. */
+  private readonly robots: RobotsTxtCache | null;
+
+  /** HTTP response cache, or `null` when requests always hit the network. */
+  private readonly httpCache: HttpCache | null;
+
   /**
    * Domain-tier cache — remembers which tier last succeeded so subsequent
    * requests to the same domain can skip lower tiers.  Evicts entries
@@ -140,6 +184,21 @@ export class WebScraperService {
     } else {
       this.proxies = [];
     }
+
+    this.domainPolicies = new Map(
+      Object.entries(opts?.domainPolicies ?? {}).map(([domain, policy]) => [domain.toLowerCase(), policy]),
+    );
+
+    this.httpCache = opts?.httpCache
+      ? opts.httpCache instanceof HttpCache ? opts.httpCache : new HttpCache(opts.httpCache)
+      : null;
+
+    if (opts?.robots) {
+      const robotsOpts = opts.robots === true ? {} : opts.robots;
+      this.robots = new RobotsTxtCache({ fetch: (input, init) => this.httpFetch(input, init), ...robotsOpts });
+    } else {
+      this.robots = null;
+    }
   }
 
   /* ---------------------------------------------------------------------- */
@@ -150,7 +209,8 @@ export class WebScraperService {
    * Scrape a URL using the 4-tier progressive fallback chain.
    *
    * The method starts at the configured (or cached) tier and escalates
-   * on failure up to `options.maxTier`.
+   * on failure up to `options.maxTier`.  When robots.txt enforcement is on,
+   * a disallowed URL is not fetched at all and comes back with `blocked`.
    *
    * @param input - Scrape request payload.
    * @returns A {@link ScrapeResult} indicating success or failure.
@@ -173,8 +233,32 @@ export class WebScraperService {
     // Ensure startTier does not exceed maxTier
     if (startTier > maxTier) startTier = maxTier;
 
-    // Rate limit — wait for jitter delay
-    await this.rateLimit(domain);
+    // robots.txt — refuse disallowed URLs before any request is made
+    const robotsDecision = this.robots ? await this.robots.check(url) : null;
+    if (robotsDecision && !robotsDecision.allowed) {
+      const rule = robotsDecision.rule ?? '*';
+      return {
+        success: false,
+        url,
+        tier: 0,
+        statusCode: 0,
+        error: robotsDecision.unreachable
+          ? `robots.txt at ${robotsDecision.robotsUrl} is unreachable — treating ${domain} as disallowed`
+          : `Disallowed by robots.txt (${rule})`,
+        blocked: {
+          reason: 'robots_txt',
+          robotsUrl: robotsDecision.robotsUrl,
+          userAgent: this.robots!.userAgent,
+          rule,
+          ...(robotsDecision.unreachable ? { unreachable: true } : {}),
+        },
+      };
+    }
+
+    // Rate limit — wait for jitter delay (at least the robots.txt Crawl-delay).
+    // Replayed responses never reach the site, so there is nothing to throttle.
+    const replaying = this.httpCache?.mode === 'replay';
+    if (!replaying) await this.rateLimit(domain, robotsDecision?.crawlDelayMs);
 
     // Resolve proxy for this request
     const proxy = options?.proxy ?? this.nextProxy();
@@ -182,6 +266,8 @@ export class WebScraperService {
     // Walk the tiers
     let lastError = '';
     for (let tier = startTier; tier <= maxTier; tier++) {
+      // Browser tiers bypass the HTTP cache and cannot be replayed
+      if (replaying && (tier === 2 || tier === 3)) continue;
       try {
         const result = await this.executeTier(
           tier as ScrapeTier,
@@ -213,6 +299,57 @@ export class WebScraperService {
     };
   }
 
+  /**
+   * Crawl from `input.startUrls`, following links breadth-first, and yield
+   * each page as soon as it is fetched.
+   *
+   * Every page is fetched through {@link scrape}, so tier escalation, the
+   * domain-tier cache, rate limiting and robots.txt apply per page.  Links
+   * are read from the page HTML before `input.extract` is applied.
+   * Duplicate pages (same canonical URL or identical text as an earlier
+   * page) are yielded with `duplicateOf` and their links are not followed.
+   *
+   * Pass your own {@link CrawlFrontier} to persist progress: it is updated
+   * before each page is yielded, and {@link CrawlFrontier.toJSON} can be
+   * saved and restored with {@link CrawlFrontier.fromState}.
+   *
+   * @param input    - Crawl scope, limits and per-page scrape settings.
+   * @param frontier - Frontier to crawl from (new one from `input` by default).
+   */
+  async *crawl(
+    input: CrawlInput,
+    frontier: CrawlFrontier = new CrawlFrontier(input),
+  ): AsyncGenerator<CrawlPage> {
+    let entry = frontier.next();
+    while (entry) {
+      const fetched = await this.scrape({ url: entry.url, options: input.options });
+      const page: CrawlPage = {
+        url: entry.url,
+        depth: entry.depth,
+        parentUrl: entry.parentUrl,
+        canonicalUrl: entry.url,
+        queued: [],
+        result: fetched,
+      };
+
+      if (fetched.success && fetched.html !== undefined) {
+        const { links, canonicalUrl } = extractPageLinks(fetched.html, entry.url);
+        page.canonicalUrl = canonicalUrl ?? entry.url;
+        page.duplicateOf = frontier.recordPage(
+          entry.url,
+          page.canonicalUrl,
+          fetched.text ?? this.htmlToText(fetched.html),
+        );
+        if (!page.duplicateOf) page.queued = frontier.enqueue(links, entry);
+        page.result = this.applyCrawlExtraction(fetched, input.extract);
+      }
+
+      frontier.complete(entry);
+      yield page;
+      entry = frontier.next();
+    }
+  }
+
   /* ---------------------------------------------------------------------- */
   /*  Extraction utilities (public for direct use)                          */
   /* ---------------------------------------------------------------------- */
@@ -224,8 +361,8 @@ export class WebScraperService {
    * 1. **fields** — extract one value per named field.
    * 2. **list + listFields** — extract a repeating set of records.
    *
-   * Uses a simplified regex-based micro-selector engine. See
-   * {@link ExtractConfig} for the supported selector syntax.
+   * Selectors are evaluated against a parsed HTML tree — see
+   * {@link ExtractConfig} and {@link HtmlSelector} for the syntax.
    *
    * @param html   - Raw HTML string.
    * @param config - Extraction configuration.
@@ -236,25 +373,25 @@ export class WebScraperService {
     config: ExtractConfig,
   ): { data?: Record<string, string>; items?: Record<string, string>[] } {
     const result: { data?: Record<string, string>; items?: Record<string, string>[] } = {};
+    const doc = new HtmlSelector(html);
 
     // Single-record extraction
     if (config.fields) {
       const data: Record<string, string> = {};
       for (const [fieldName, selector] of Object.entries(config.fields)) {
-        data[fieldName] = this.extractSelector(html, selector);
+        data[fieldName] = doc.value(selector);
       }
       result.data = data;
     }
 
-    // List extraction
+    // List extraction — field selectors are scoped to each container
     if (config.list && config.listFields) {
-      const containers = this.extractListContainers(html, config.list);
       const items: Record<string, string>[] = [];
 
-      for (const containerHtml of containers) {
+      for (const container of doc.list(config.list)) {
         const item: Record<string, string> = {};
         for (const [fieldName, selector] of Object.entries(config.listFields)) {
-          item[fieldName] = this.extractSelector(containerHtml, selector);
+          item[fieldName] = container.value(selector);
         }
         items.push(item);
       }
@@ -308,6 +445,13 @@ export class WebScraperService {
   /*  Tier executors                                                        */
   /* ---------------------------------------------------------------------- */
 
+  /**
+   * `fetch()` through the HTTP cache when one is configured.
+   */
+  private httpFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    return this.httpCache ? this.httpCache.fetch(input, init) : fetch(input, init);
+  }
+
   /**
    * Dispatch to the appropriate tier handler.
    */
@@ -349,7 +493,7 @@ export class WebScraperService {
     const timer = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.httpFetch(url, {
         headers,
         signal: controller.signal,
         redirect: 'follow',
@@ -586,7 +730,7 @@ export class WebScraperService {
     const timer = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const response = await fetch(url, {
+      const response = await this.httpFetch(url, {
         headers,
         signal: controller.signal,
         redirect: 'follow',
@@ -655,153 +799,19 @@ export class WebScraperService {
     return { success: true, url, tier, statusCode, html, text };
   }
 
-  /* ---------------------------------------------------------------------- */
-  /*  Regex-based extraction engine                                         */
-  /* ---------------------------------------------------------------------- */
-
-  /**
-   * Extract a single value from HTML using the micro-selector syntax.
-   *
-   * Supported selectors:
-   * - `tag` — match first `<tag>...</tag>`
-   * - `.class` — first element with `class="...class..."`
-   * - `#id` — element with `id="id"`
-   * - `tag.class` — `<tag class="...class...">`
-   * - `selector @attr` — extract attribute value instead of text content
-   *
-   * @param html     - HTML to search within.
-   * @param selector - Micro-selector string.
-   * @returns Extracted text (or attribute value), or empty string if no match.
-   */
-  private extractSelector(html: string, selector: string): string {
-    // Split off optional @attr suffix
-    const attrMatch = selector.match(/^(.+?)\s+@(\w+)$/);
-    const baseSelector = attrMatch ? attrMatch[1]! : selector;
-    const attrName = attrMatch ? attrMatch[2] : null;
-
-    // When extracting an attribute, use a simpler regex that matches just
-    // the opening tag (handles self-closing elements like <img>, <input>).
-    if (attrName) {
-      const tagRegex = this.selectorToOpeningTagRegex(baseSelector);
-      if (!tagRegex) return '';
-      const tagMatch = html.match(tagRegex);
-      if (!tagMatch) return '';
-      const attrRegex = new RegExp(`${this.escapeRegex(attrName)}\\s*=\\s*["']([^"']*)["']`, 'i');
-      const attrVal = tagMatch[0].match(attrRegex);
-      return attrVal ? attrVal[1]!.trim() : '';
-    }
-
-    // Build a regex that matches the full element (opening + content + closing)
-    const elementRegex = this.selectorToRegex(baseSelector);
-    if (!elementRegex) return '';
-
-    const match = html.match(elementRegex);
-    if (!match) return '';
-
-    // Return the inner text content (tag-stripped).
-    // For #id and .class selectors the regex has two capture groups
-    // (group 1 = tag name for backreference, group 2 = inner HTML),
-    // while tag.class and plain tag selectors put content in group 1.
-    // We prefer group 2 when present, falling back to group 1.
-    const innerHtml = match[2] ?? match[1] ?? match[0] ?? '';
-    return innerHtml.replace(/<[^>]+>/g, '').trim();
-  }
-
-  /**
-   * Convert a micro-selector into a regex that captures the element's
-   * inner HTML in group 1.
-   *
-   * @param selector - Base selector (without `@attr` suffix).
-   * @returns A RegExp or `null` if the selector is not recognised.
-   */
-  private selectorToRegex(selector: string): RegExp | null {
-    // #id
-    if (selector.startsWith('#')) {
-      const id = this.escapeRegex(selector.slice(1));
-      return new RegExp(`<(\\w+)[^>]*\\bid\\s*=\\s*["']${id}["'][^>]*>([\\s\\S]*?)<\\/\\1>`, 'i');
-    }
-
-    // .class (standalone, no tag prefix)
-    if (selector.startsWith('.')) {
-      const cls = this.escapeRegex(selector.slice(1));
-      return new RegExp(
-        `<(\\w+)[^>]*\\bclass\\s*=\\s*["'][^"']*\\b${cls}\\b[^"']*["'][^>]*>([\\s\\S]*?)<\\/\\1>`,
-        'i',
-      );
-    }
-
-    // tag.class
-    const tagClassMatch = selector.match(/^(\w+)\.(.+)$/);
-    if (tagClassMatch) {
-      const tag = this.escapeRegex(tagClassMatch[1]!);
-      const cls = this.escapeRegex(tagClassMatch[2]!);
-      return new RegExp(
-        `<${tag}[^>]*\\bclass\\s*=\\s*["'][^"']*\\b${cls}\\b[^"']*["'][^>]*>([\\s\\S]*?)<\\/${tag}>`,
-        'i',
-      );
-    }
-
-    // Plain tag name
-    if (/^\w+$/.test(selector)) {
-      const tag = this.escapeRegex(selector);
-      return new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i');
-    }
-
-    return null;
-  }
-
   /**
-   * Convert a micro-selector into a regex that matches just the opening tag
-   * (including attributes). Handles self-closing elements like `<img>`, `<input>`.
-   *
-   * @param selector - Base selector (without `@attr` suffix).
-   * @returns A RegExp matching the opening tag, or `null` if unrecognised.
+   * Reshape a crawl page fetched without extraction into what
+   * {@link scrape} would have returned with `extract`.
    */
-  private selectorToOpeningTagRegex(selector: string): RegExp | null {
-    if (selector.startsWith('#')) {
-      const id = this.escapeRegex(selector.slice(1));
-      return new RegExp(`<\\w+[^>]*\\bid\\s*=\\s*["']${id}["'][^>]*/?>`, 'i');
-    }
-    if (selector.startsWith('.')) {
-      const cls = this.escapeRegex(selector.slice(1));
-      return new RegExp(`<\\w+[^>]*\\bclass\\s*=\\s*["'][^"']*\\b${cls}\\b[^"']*["'][^>]*/?>`, 'i');
-    }
-    const tagClassMatch = selector.match(/^(\w+)\.(.+)$/);
-    if (tagClassMatch) {
-      const tag = this.escapeRegex(tagClassMatch[1]!);
-      const cls = this.escapeRegex(tagClassMatch[2]!);
-      return new RegExp(`<${tag}[^>]*\\bclass\\s*=\\s*["'][^"']*\\b${cls}\\b[^"']*["'][^>]*/?>`, 'i');
-    }
-    if (/^\w+$/.test(selector)) {
-      const tag = this.escapeRegex(selector);
-      return new RegExp(`<${tag}\\b[^>]*/?>`, 'i');
-    }
-    return null;
-  }
+  private applyCrawlExtraction(fetched: ScrapeResult, extract?: ExtractConfig): ScrapeResult {
+    if (!extract) return fetched;
+    const { url, tier, statusCode } = fetched;
 
-  /**
-   * Extract all container blocks matching a list selector, returning
-   * each container's full inner HTML for per-item field extraction.
-   *
-   * @param html     - Full page HTML.
-   * @param selector - Selector for the repeating container element.
-   * @returns Array of HTML strings, one per container match.
-   */
-  private extractListContainers(html: string, selector: string): string[] {
-    const regex = this.selectorToRegex(selector);
-    if (!regex) return [];
-
-    // Make it global so we can find all matches
-    const globalRegex = new RegExp(regex.source, 'gi');
-    const containers: string[] = [];
-    let m: RegExpExecArray | null;
-
-    while ((m = globalRegex.exec(html)) !== null) {
-      // Push the full match so per-item selectors can find attributes
-      containers.push(m[0]!);
+    // Tier 4 leaves structured extraction to the agent's LLM
+    if (tier === 4) {
+      return { success: true, url, tier, statusCode, text: fetched.text, _llmExtractionRequired: true };
     }
-
-    return containers;
+    return this.buildResult(url, tier, statusCode, fetched.html!, extract);
   }
 
   /* ---------------------------------------------------------------------- */
@@ -812,26 +822,47 @@ export class WebScraperService {
    * Enforce per-domain rate limiting with randomised jitter.
    *
    * If a request to the same domain was made within the jitter window,
-   * this method sleeps for the remaining time.
+   * this method sleeps for the remaining time.  The window comes from the
+   * domain's {@link DomainPolicy} (or the service defaults) and is never
+   * shorter than the robots.txt `Crawl-delay`.  The slot is reserved
+   * before sleeping so concurrent requests queue up rather than firing
+   * together.
    *
-   * @param domain - The domain being requested.
+   * @param domain       - The domain being requested.
+   * @param crawlDelayMs - Minimum spacing required by robots.txt.
    */
-  private async rateLimit(domain: string): Promise<void> {
+  private async rateLimit(domain: string, crawlDelayMs = 0): Promise<void> {
     const now = Date.now();
     const entry = this.domainTimestamps.get(domain);
+    let scheduledMs = now;
 
     if (entry) {
-      const jitter = this.minDelayMs + Math.random() * (this.maxDelayMs - this.minDelayMs);
-      const elapsed = now - entry.lastRequestMs;
-
-      if (elapsed < jitter) {
-        const sleepMs = jitter - elapsed;
-        await new Promise((resolve) => setTimeout(resolve, sleepMs));
-      }
+      const policy = this.domainPolicyFor(domain);
+      const minDelay = policy?.minDelayMs ?? this.minDelayMs;
+      const maxDelay = Math.max(policy?.maxDelayMs ?? this.maxDelayMs, minDelay);
+      const jitter = minDelay + Math.random() * (maxDelay - minDelay);
+      scheduledMs = Math.max(now, entry.lastRequestMs + Math.max(jitter, crawlDelayMs));
     }
 
     // Record this request's timestamp
-    this.domainTimestamps.set(domain, { lastRequestMs: Date.now() });
+    this.domainTimestamps.set(domain, { lastRequestMs: scheduledMs });
+
+    if (scheduledMs > now) {
+      await new Promise((resolve) => setTimeout(resolve, scheduledMs - now));
+    }
+  }
+
+  /**
+   * Find the politeness override for a hostname, trying the hostname
+   * itself and then each parent domain.
+   */
+  private domainPolicyFor(domain: string): DomainPolicy | undefined {
+    const labels = domain.toLowerCase().split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const policy = this.domainPolicies.get(labels.slice(i).join('.'));
+      if (policy) return policy;
+    }
+    return undefined;
   }
 
   /* ---------------------------------------------------------------------- */
@@ -927,14 +958,6 @@ export class WebScraperService {
     }
   }
 
-  /**
-   * Escape special regex characters in a string so it can be safely
-   * embedded in a `new RegExp()` pattern.
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
-
   /**
    * Detect whether HTML content is a Cloudflare challenge page rather
    * than genuine site content.
@@ -3,21 +3,27 @@
  * Web Scraper Extension Pack — intelligent web scraping with progressive
  * fallbacks, proxy rotation, and LLM-assisted extraction.
  *
- * Provides two tools:
+ * Provides three tools:
  * - `web_scrape` — scrape and extract structured data from a single URL
  * - `web_scrape_recipe` — execute named multi-step scraping recipes
+ * - `web_crawl` — follow links across many pages with deduplication
  *
  * The extension pack factory ({@link createExtensionPack}) wires up the
- * {@link WebScraperService}, {@link RecipeEngine}, and both tool instances
+ * {@link WebScraperService}, {@link RecipeEngine}, and the tool instances
  * from context-provided options, secrets, or environment variables.
  *
  * @packageDocumentation
  */
 
 import { WebScraperService } from './WebScraperService.js';
+import type { RobotsTxtOptions } from './RobotsTxt.js';
+import { httpCacheOptionsFromEnv } from '@framers/agentos-research-shared';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
+import type { DomainPolicy } from './types.js';
 import { RecipeEngine } from './RecipeEngine.js';
 import { WebScrapeTool } from './tools/webScrape.js';
 import { WebScrapeRecipeTool } from './tools/webScrapeRecipe.js';
+import { WebCrawlTool } from './tools/webCrawl.js';
 
 /* -------------------------------------------------------------------------- */
 /*  Extension options                                                          */
@@ -38,6 +44,20 @@ export interface WebScraperExtensionOptions {
   minDelayMs?: number;
   /** Maximum inter-request delay in milliseconds (default 2000). */
   maxDelayMs?: number;
+  /**
+   * Honour robots.txt Allow/Disallow rules and Crawl-delay (default `true`).
+   * Also disabled by `WEB_SCRAPER_RESPECT_ROBOTS=false`.
+   */
+  respectRobotsTxt?: boolean;
+  /** robots.txt fetch, cache and user-agent settings. */
+  robots?: RobotsTxtOptions;
+  /** Per-domain delay overrides, keyed by hostname or parent domain. */
+  domainPolicies?: Record<string, DomainPolicy>;
+  /**
+   * On-disk HTTP cache or record/replay cassette directory.  Defaults to
+   * `AGENTOS_HTTP_CACHE_DIR` / `AGENTOS_HTTP_CACHE_MODE` when set.
+   */
+  httpCache?: HttpCacheOptions;
   /** Descriptor priority for tool ordering (default 50). */
   priority?: number;
 }
@@ -54,7 +74,10 @@ export interface WebScraperExtensionOptions {
  * 2. `context.getSecret?.('scraper.proxyUrl')` / `context.getSecret?.('scraper.proxyList')`
  * 3. `WEB_SCRAPER_PROXY_URL` / `WEB_SCRAPER_PROXY_LIST` environment variables
  *
- * Instantiates the scraper service, recipe engine, and both ITool implementations,
+ * The HTTP cache comes from `context.options.httpCache`, else from the
+ * `AGENTOS_HTTP_CACHE_*` environment variables (see {@link httpCacheOptionsFromEnv}).
+ *
+ * Instantiates the scraper service, recipe engine, and the ITool implementations,
  * loading recipes from built-in and user directories before returning the pack.
  *
  * @param context - Extension activation context provided by the AgentOS runtime.
@@ -77,12 +100,20 @@ export function createExtensionPack(context: any) {
     || process.env.WEB_SCRAPER_PROXY_LIST
     || undefined;
 
+  // robots.txt is enforced unless switched off explicitly
+  const respectRobotsTxt =
+    options.respectRobotsTxt
+    ?? process.env.WEB_SCRAPER_RESPECT_ROBOTS?.toLowerCase() !== 'false';
+
   // Create the core scraper service
   const scraper = new WebScraperService({
     proxyUrl,
     proxyList,
     minDelayMs: options.minDelayMs,
     maxDelayMs: options.maxDelayMs,
+    robots: respectRobotsTxt ? (options.robots ?? true) : false,
+    domainPolicies: options.domainPolicies,
+    httpCache: options.httpCache ?? httpCacheOptionsFromEnv(),
   });
 
   // Create and initialise the recipe engine
@@ -91,6 +122,7 @@ export function createExtensionPack(context: any) {
   // Create tool instances
   const scrapeTool = new WebScrapeTool(scraper);
   const recipeTool = new WebScrapeRecipeTool(recipeEngine);
+  const crawlTool = new WebCrawlTool(scraper);
 
   return {
     name: '@framers/agentos-ext-web-scraper',
@@ -108,6 +140,12 @@ export function createExtensionPack(context: any) {
         priority: options.priority || 50,
         payload: recipeTool,
       },
+      {
+        id: crawlTool.name,
+        kind: 'tool' as const,
+        priority: options.priority || 50,
+        payload: crawlTool,
+      },
     ],
     onActivate: async () => {
       // Load recipes from built-in and user directories on activation
@@ -128,9 +166,29 @@ export function createExtensionPack(context: any) {
 
 export { WebScraperService } from './WebScraperService.js';
 export type { WebScraperServiceOptions } from './WebScraperService.js';
+export {
+  RobotsTxtCache,
+  parseRobotsTxt,
+  matchRobots,
+  DEFAULT_ROBOTS_USER_AGENT,
+} from './RobotsTxt.js';
+export type { RobotsTxt, RobotsGroup, RobotsRule, RobotsMatch, RobotsTxtOptions } from './RobotsTxt.js';
+export { HttpCache, HttpCacheMissError, HTTP_CACHE_STATUS_HEADER, httpCacheOptionsFromEnv, redactUrl } from '@framers/agentos-research-shared';
+export type { HttpCacheMode, HttpCacheOptions, HttpCacheEntry } from '@framers/agentos-research-shared';
+export { HtmlSelector, parseFieldSelector, xpathToSelector } from './HtmlSelector.js';
+export type { FieldSelector } from './HtmlSelector.js';
+export {
+  CrawlFrontier,
+  normalizeCrawlUrl,
+  matchesUrlPattern,
+  extractPageLinks,
+} from './CrawlFrontier.js';
 export { RecipeEngine } from './RecipeEngine.js';
+export { FixtureScraper, runRecipeTests, runRecipeTestSuite } from './RecipeTester.js';
 export { WebScrapeTool } from './tools/webScrape.js';
 export { WebScrapeRecipeTool } from './tools/webScrapeRecipe.js';
+export { WebCrawlTool } from './tools/webCrawl.js';
+export type { WebCrawlInput } from './tools/webCrawl.js';
 export { randomUserAgent, browserHeaders } from './UserAgentPool.js';
 export type {
   ScrapeInput,
@@ -138,10 +196,26 @@ export type {
   ScrapeOptions,
   ScrapeTier,
   ExtractConfig,
+  RobotsBlock,
+  RobotsDecision,
+  DomainPolicy,
+  UrlPattern,
+  CrawlInput,
+  CrawlQueueEntry,
+  CrawlState,
+  CrawlPage,
+  CrawlResult,
   RecipeStep,
   Recipe,
   RecipeInput,
   RecipeResult,
+  RecipeCondition,
+  RecipePagination,
+  RecipeValidationError,
+  RecipeTestSuite,
+  RecipeTestCase,
+  RecipeTestExpectation,
+  RecipeTestCaseResult,
 } from './types.js';
 
 export default createExtensionPack;
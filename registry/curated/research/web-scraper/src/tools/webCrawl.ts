@@ -0,0 +1,221 @@
+// @ts-nocheck
+/**
+ * Web Crawl Tool — ITool implementation for multi-page crawling.
+ *
+ * Exposes {@link WebScraperService.crawl} as a tool callable by any AgentOS
+ * GMI.  Agents give start URLs and scope limits; the tool follows links,
+ * deduplicates pages and returns every crawled page at once.  When the page
+ * budget runs out first, the result carries a `state` that can be passed
+ * back as `resumeState` to continue the crawl.
+ *
+ * @module tools/webCrawl
+ */
+
+import type {
+  ITool,
+  ToolExecutionContext,
+  ToolExecutionResult,
+  JSONSchemaObject,
+} from '@framers/agentos';
+
+import type { CrawlInput, CrawlPage, CrawlResult, CrawlState } from '../types.js';
+import type { WebScraperService } from '../WebScraperService.js';
+import { CrawlFrontier } from '../CrawlFrontier.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Constants                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Page text longer than this is truncated in tool output. */
+const MAX_TEXT_CHARS = 4_000;
+
+/** Input accepted by {@link WebCrawlTool}. */
+export interface WebCrawlInput extends CrawlInput {
+  /** `state` from an earlier, unfinished `web_crawl` result. */
+  resumeState?: CrawlState;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  WebCrawlTool                                                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * ITool implementation that crawls a site from one or more start URLs.
+ *
+ * @example
+ * ```ts
+ * const tool = new WebCrawlTool(scraperService);
+ * const result = await tool.execute(
+ *   { startUrls: ['https://example.com/docs/'], include: ['https://example.com/docs/*'], maxPages: 20 },
+ *   context,
+ * );
+ * ```
+ */
+export class WebCrawlTool implements ITool<WebCrawlInput, CrawlResult> {
+  readonly id = 'web-crawl-v1';
+  readonly name = 'web_crawl';
+  readonly displayName = 'Web Crawl';
+  readonly description =
+    'Crawl a website: start from one or more URLs and follow links ' +
+    'breadth-first up to `maxDepth` hops and `maxPages` pages, staying on ' +
+    'the start origins by default.  Use `include`/`exclude` URL globs (`*` ' +
+    'matches anything) to scope the crawl and `extract` to pull the same ' +
+    'fields from every page.  Duplicate pages (same canonical URL or ' +
+    'identical text) are flagged with `duplicateOf`.  If the result is not ' +
+    '`done`, pass its `state` back as `resumeState` (with a higher ' +
+    '`maxPages`) to continue.';
+  readonly category = 'research';
+  readonly version = '1.0.0';
+  readonly hasSideEffects = false;
+
+  readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    properties: {
+      startUrls: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        description: 'URLs to start crawling from.',
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only follow links matching one of these URL globs, e.g. "https://example.com/blog/*".',
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Never follow links matching any of these URL globs.',
+      },
+      maxDepth: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Link hops to follow from the start URLs (default 2).',
+      },
+      maxPages: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum pages to fetch over the whole crawl (default 50).',
+      },
+      sameOrigin: {
+        type: 'boolean',
+        description: 'Only follow links on the start URLs\' origins (default true).',
+      },
+      extract: {
+        type: 'object',
+        description:
+          'Extraction configuration applied to every page — same shape as ' +
+          'the `web_scrape` tool\'s `extract`.',
+        properties: {
+          fields: { type: 'object', additionalProperties: { type: 'string' } },
+          list: { type: 'string' },
+          listFields: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+      },
+      options: {
+        type: 'object',
+        description: 'Per-page scrape settings — same shape as the `web_scrape` tool\'s `options`.',
+      },
+      resumeState: {
+        type: 'object',
+        description: '`state` from an unfinished `web_crawl` result, to continue that crawl.',
+      },
+    },
+    required: ['startUrls'],
+  };
+
+  readonly requiredCapabilities = ['capability:web_scrape'];
+
+  /** Reference to the shared scraper service. */
+  private readonly scraper: WebScraperService;
+
+  /**
+   * @param scraper - A pre-configured {@link WebScraperService} instance.
+   */
+  constructor(scraper: WebScraperService) {
+    this.scraper = scraper;
+  }
+
+  /**
+   * Run the crawl to completion (or until the page budget is spent).
+   *
+   * @param args     - Crawl input, optionally with a `resumeState`.
+   * @param _context - Tool execution context (unused but required by ITool contract).
+   * @returns A {@link ToolExecutionResult} wrapping the {@link CrawlResult}.
+   */
+  async execute(
+    args: WebCrawlInput,
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<CrawlResult>> {
+    try {
+      const { resumeState, ...input } = args;
+      const frontier = resumeState
+        ? CrawlFrontier.fromState(input, resumeState)
+        : new CrawlFrontier(input);
+
+      const pages: CrawlPage[] = [];
+      for await (const page of this.scraper.crawl(input, frontier)) {
+        pages.push(this.compactPage(page));
+      }
+
+      const done = frontier.pending === 0;
+      const result: CrawlResult = {
+        success: pages.some((p) => p.result.success),
+        pages,
+        pagesFetched: frontier.fetched,
+        duplicates: pages.filter((p) => p.duplicateOf).length,
+        failed: pages.filter((p) => !p.result.success).length,
+        done,
+        state: done ? undefined : frontier.toJSON(),
+      };
+      if (!result.success) {
+        result.error = pages.length === 0
+          ? 'No pages were crawled (no valid start URLs or page budget already spent)'
+          : 'No page could be fetched successfully';
+      }
+
+      return { success: result.success, output: result, error: result.error };
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return {
+        success: false,
+        error: `web_crawl execution failed: ${msg}`,
+      };
+    }
+  }
+
+  /**
+   * Custom validation: ensure `startUrls` is a non-empty array of strings.
+   *
+   * @param args - Raw arguments from the LLM.
+   * @returns Validation result with error details if invalid.
+   */
+  validateArgs(args: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (
+      !Array.isArray(args.startUrls)
+      || args.startUrls.length === 0
+      || args.startUrls.some((url: unknown) => typeof url !== 'string')
+    ) {
+      errors.push('`startUrls` must be a non-empty array of URL strings.');
+    }
+
+    for (const key of ['include', 'exclude']) {
+      if (args[key] !== undefined && !Array.isArray(args[key])) {
+        errors.push(`\`${key}\` must be an array of URL glob strings.`);
+      }
+    }
+
+    return { isValid: errors.length === 0, errors: errors.length > 0 ? errors : undefined };
+  }
+
+  /** Drop raw HTML and cap text so many pages fit in one tool result. */
+  private compactPage(page: CrawlPage): CrawlPage {
+    const { html: _html, ...result } = page.result;
+    if (result.text && result.text.length > MAX_TEXT_CHARS) {
+      result.text = `${result.text.slice(0, MAX_TEXT_CHARS)}…`;
+    }
+    return { ...page, result };
+  }
+}
@@ -25,7 +25,7 @@ import type { WebScraperService } from '../WebScraperService.js';
 
 /**
  * ITool implementation that scrapes a single URL and optionally extracts
- * structured data using CSS-like selectors.
+ * structured data using CSS (or XPath) selectors.
  *
  * Delegates all fetching to a shared {@link WebScraperService} instance,
  * inheriting its rate limiting, proxy rotation, domain-tier caching, and
@@ -45,11 +45,13 @@ export class WebScrapeTool implements ITool<ScrapeInput, ScrapeResult> {
   readonly name = 'web_scrape';
   readonly displayName = 'Web Scrape';
   readonly description =
-    'Scrape a web page and optionally extract structured data using CSS-like ' +
-    'selectors.  Supports a 4-tier progressive fallback chain: plain fetch, ' +
+    'Scrape a web page and optionally extract structured data using CSS ' +
+    '(or `xpath:`-prefixed XPath) selectors.  Supports a 4-tier progressive fallback chain: plain fetch, ' +
     'headless Playwright, stealth Playwright, and LLM-assisted extraction.  ' +
     'Use the `extract` parameter to specify fields to pull from the page, ' +
-    'or omit it to receive the raw HTML and cleaned plain text.';
+    'or omit it to receive the raw HTML and cleaned plain text.  URLs ' +
+    "disallowed by the site's robots.txt are not fetched; the result then " +
+    'carries a `blocked` object instead of content.';
   readonly category = 'research';
   readonly version = '1.0.0';
   readonly hasSideEffects = false;
@@ -70,7 +72,7 @@ export class WebScrapeTool implements ITool<ScrapeInput, ScrapeResult> {
           fields: {
             type: 'object',
             description:
-              'Map of output field name to CSS-like selector.  ' +
+              'Map of output field name to CSS selector (or `xpath:` expression).  ' +
               'Append ` @attr` to extract an attribute value instead of text content.',
             additionalProperties: { type: 'string' },
           },
@@ -92,13 +92,13 @@ export interface ScrapeOptions {
  * 2. **List** — populate `list` with a repeating container selector and
  *    `listFields` with per-item field selectors.
  *
- * Selectors use a simplified CSS-like micro-syntax handled entirely by
- * regex (no DOM parser required):
- * - `tag` — first matching HTML tag
- * - `.class` — first element with that class
- * - `#id` — element by id
- * - `tag.class` — tag with class
+ * Selectors are full CSS selectors evaluated against a parsed HTML tree
+ * (combinators, attribute selectors, `:nth-child()`, `:not()`, …):
+ * - `article h2.title a` — text of the first matching element
  * - `tag @attr` — extract an attribute value instead of text content
+ * - `@attr` — attribute of the list item itself (in `listFields`)
+ * - `xpath://div[@class='price']/text()` — a supported XPath subset,
+ *   translated to CSS (see `HtmlSelector`)
  *
  * @example
  * ```ts
@@ -113,7 +113,7 @@ export interface ScrapeOptions {
  */
 export interface ExtractConfig {
   /**
-   * Map of output field name to a CSS-like selector.
+   * Map of output field name to a CSS (or `xpath:`) selector.
    * Each selector extracts a single text value (or attribute when
    * the `@attr` suffix is present).
    */
@@ -194,6 +194,12 @@ export interface ScrapeResult {
   /** Human-readable error message when `success` is `false`. */
   error?: string;
 
+  /**
+   * Present when the URL was not fetched because the site's robots.txt
+   * disallows it for our user-agent.  `success` is `false` and `tier` is `0`.
+   */
+  blocked?: RobotsBlock;
+
   /**
    * When `true`, the raw text was retrieved but structured extraction
    * could not be performed locally.  The agent runtime should apply
@@ -203,6 +209,216 @@ export interface ScrapeResult {
   _llmExtractionRequired?: boolean;
 }
 
+/* -------------------------------------------------------------------------- */
+/*  robots.txt                                                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Why a URL was refused by the robots.txt policy.
+ */
+export interface RobotsBlock {
+  /** Discriminant for the kind of block. */
+  reason: 'robots_txt';
+
+  /** The robots.txt URL whose rules applied. */
+  robotsUrl: string;
+
+  /** Product token the rules were matched against. */
+  userAgent: string;
+
+  /**
+   * The winning `Disallow` rule path, or `'*'` when the whole site is
+   * treated as disallowed because robots.txt was unreachable (5xx or
+   * network error).
+   */
+  rule: string;
+
+  /** `true` when the block is because robots.txt could not be fetched. */
+  unreachable?: boolean;
+}
+
+/**
+ * Outcome of checking a URL against robots.txt.
+ */
+export interface RobotsDecision {
+  /** Whether the URL may be fetched. */
+  allowed: boolean;
+
+  /** The robots.txt URL that was consulted. */
+  robotsUrl: string;
+
+  /** The longest matching rule path, when any rule matched. */
+  rule?: string;
+
+  /** `true` when robots.txt could not be fetched and there is no earlier copy to fall back on. */
+  unreachable?: boolean;
+
+  /** `Crawl-delay` for the matched group, in milliseconds. */
+  crawlDelayMs?: number;
+}
+
+/**
+ * Per-domain politeness overrides.  Keys of
+ * {@link WebScraperServiceOptions.domainPolicies} match the hostname or
+ * any parent domain (`example.com` covers `www.example.com`).
+ */
+export interface DomainPolicy {
+  /** Minimum delay between requests to this domain in milliseconds. */
+  minDelayMs?: number;
+
+  /** Maximum delay between requests to this domain in milliseconds. */
+  maxDelayMs?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Crawling                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A URL pattern for crawl include/exclude lists.  Strings are globs matched
+ * against the whole normalised URL, where `*` matches any run of
+ * characters; regular expressions are tested as-is.
+ *
+ * @example "https://example.com/blog/*"
+ */
+export type UrlPattern = string | RegExp;
+
+/**
+ * Input payload for a multi-page crawl.
+ *
+ * Every fetched page goes through {@link WebScraperService.scrape}, so tier
+ * escalation, the domain-tier cache, rate limiting and robots.txt apply to
+ * each page exactly as they do for single scrapes.
+ */
+export interface CrawlInput {
+  /** URLs to start from (depth 0).  Always crawled, even if excluded. */
+  startUrls: string[];
+
+  /** Only follow links matching at least one of these patterns. */
+  include?: UrlPattern[];
+
+  /** Never follow links matching any of these patterns. */
+  exclude?: UrlPattern[];
+
+  /**
+   * How many links away from a start URL to follow.  `0` crawls only the
+   * start URLs.  Defaults to `2`.
+   */
+  maxDepth?: number;
+
+  /**
+   * Maximum pages to fetch over the whole crawl, including pages fetched
+   * before a resume.  Defaults to `50`.
+   */
+  maxPages?: number;
+
+  /**
+   * Only follow links on the same origin as one of the start URLs.
+   * Defaults to `true`.
+   */
+  sameOrigin?: boolean;
+
+  /** Extraction config applied to every crawled page. */
+  extract?: ExtractConfig;
+
+  /** Scrape options applied to every page request. */
+  options?: ScrapeOptions;
+}
+
+/** A URL waiting in the crawl frontier. */
+export interface CrawlQueueEntry {
+  /** Normalised URL to fetch. */
+  url: string;
+
+  /** Link distance from the nearest start URL. */
+  depth: number;
+
+  /** Page the link was found on (absent for start URLs). */
+  parentUrl?: string;
+}
+
+/**
+ * JSON-serialisable crawl progress.  Persist it (e.g. after every page)
+ * and hand it back to {@link CrawlFrontier.fromState} to resume.
+ */
+export interface CrawlState {
+  /** Format version of this snapshot. */
+  version: 1;
+
+  /** URLs still to fetch, in crawl order.  Includes the page in flight. */
+  queue: CrawlQueueEntry[];
+
+  /** Every URL ever queued or found as a canonical URL. */
+  seen: string[];
+
+  /** Canonical URL → first crawled URL that declared it. */
+  canonicals: Record<string, string>;
+
+  /** SHA-256 of page text → first crawled URL with that content. */
+  contentHashes: Record<string, string>;
+
+  /** Pages fetched so far (successful or not). */
+  pagesFetched: number;
+}
+
+/**
+ * One page of crawl output, yielded as soon as the page is fetched.
+ */
+export interface CrawlPage {
+  /** URL that was fetched. */
+  url: string;
+
+  /** Link distance from the nearest start URL. */
+  depth: number;
+
+  /** Page the link was found on (absent for start URLs). */
+  parentUrl?: string;
+
+  /** The page's `<link rel="canonical">` URL, or `url` when it has none. */
+  canonicalUrl: string;
+
+  /**
+   * Set when the page duplicates one crawled earlier — same canonical URL
+   * or identical text.  Links on duplicate pages are not followed.
+   */
+  duplicateOf?: string;
+
+  /** URLs newly added to the frontier from this page. */
+  queued: string[];
+
+  /** The scrape result, shaped as for a single `scrape()` call. */
+  result: ScrapeResult;
+}
+
+/**
+ * Aggregated output of the `web_crawl` tool.
+ */
+export interface CrawlResult {
+  /** Whether at least one page was fetched successfully. */
+  success: boolean;
+
+  /** Crawled pages in fetch order (HTML omitted, text truncated). */
+  pages: CrawlPage[];
+
+  /** Pages fetched over the whole crawl, including before a resume. */
+  pagesFetched: number;
+
+  /** Pages in this run that duplicated an earlier page. */
+  duplicates: number;
+
+  /** Pages in this run that could not be fetched or were blocked. */
+  failed: number;
+
+  /** `true` when the frontier is empty; otherwise `state` can resume it. */
+  done: boolean;
+
+  /** Frontier snapshot to pass back as `resumeState` when not `done`. */
+  state?: CrawlState;
+
+  /** Human-readable error message when `success` is `false`. */
+  error?: string;
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Recipes                                                                   */
 /* -------------------------------------------------------------------------- */
@@ -236,6 +452,80 @@ export interface RecipeStep {
      */
     maxItems?: number;
   };
+
+  /**
+   * Run the step only when this condition holds; otherwise it is skipped
+   * and listed in `RecipeResult.skipped`.  A string is interpolated and
+   * passes when non-empty.
+   *
+   * @example "{{steps.search.items[0].url}}"
+   */
+  when?: string | RecipeCondition;
+
+  /**
+   * Run the step once per item of a previous list step, e.g.
+   * `steps.search.items`.  Inside the step `{{item.field}}` and
+   * `{{index}}` refer to the current item.
+   */
+  forEach?: string;
+
+  /** Cap on `forEach` iterations (default 25). */
+  maxIterations?: number;
+
+  /** Fetch further pages and concatenate their list items. */
+  paginate?: RecipePagination;
+}
+
+/**
+ * A step condition.  `value` is interpolated, then every check given must
+ * pass.  With no checks the condition passes when `value` is non-empty.
+ */
+export interface RecipeCondition {
+  /** Template to evaluate, e.g. `{{steps.search.items.length}}`. */
+  value: string;
+
+  /** `true`: value must be non-empty; `false`: value must be empty. */
+  exists?: boolean;
+
+  /** Value must equal this string. */
+  equals?: string;
+
+  /** Value must not equal this string. */
+  notEquals?: string;
+
+  /** Value must match this regular expression. */
+  matches?: string;
+
+  /** Value must be a number greater than this. */
+  gt?: number;
+
+  /** Value must be a number less than this. */
+  lt?: number;
+}
+
+/**
+ * How a step fetches further pages.  Use `next` to follow next-page links
+ * until there are none, or `pageParam` for numbered pages, which stops at
+ * the first page without list items.
+ */
+export interface RecipePagination {
+  /**
+   * Selector for the next-page URL, e.g. `a[rel=next] @href`.  Relative
+   * URLs are resolved against the current page.
+   */
+  next?: string;
+
+  /**
+   * Name of the page-number placeholder used in the step URL, e.g. `page`
+   * for `https://example.com/list?p={{page}}`.
+   */
+  pageParam?: string;
+
+  /** First page number for `pageParam` (default 1). */
+  start?: number;
+
+  /** Maximum pages fetched, including the first (default 10). */
+  maxPages?: number;
 }
 
 /**
@@ -273,6 +563,12 @@ export interface Recipe {
    * the extraction configs on each step.
    */
   output?: string;
+
+  /**
+   * JSON Schema the aggregated `RecipeResult.data` must satisfy.  When it
+   * does not, the result fails with `validationErrors`.
+   */
+  outputSchema?: Record<string, unknown>;
 }
 
 /**
@@ -311,4 +607,112 @@ export interface RecipeResult {
 
   /** Human-readable error message when `success` is `false`. */
   error?: string;
+
+  /** Names of steps whose `when` condition did not hold. */
+  skipped?: string[];
+
+  /** Output schema violations, when `Recipe.outputSchema` was not met. */
+  validationErrors?: RecipeValidationError[];
+}
+
+/**
+ * One output schema violation.
+ */
+export interface RecipeValidationError {
+  /** JSON Pointer into `RecipeResult.data`, e.g. `/filmPage/title`. */
+  path: string;
+
+  /** What is wrong at `path`, e.g. `must be string`. */
+  message: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Recipe tests                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A recipe regression-test suite, usually a `*.test.yaml` file.  Each case
+ * runs the recipe offline against saved HTML fixtures.
+ *
+ * @example
+ * ```yaml
+ * recipe: generic-article
+ * cases:
+ *   - name: blog post
+ *     params: { url: "https://blog.example.com/post" }
+ *     fixtures:
+ *       "https://blog.example.com/post": fixtures/blog-post.html
+ *     expect:
+ *       data:
+ *         article: { title: "Hello" }
+ * ```
+ */
+export interface RecipeTestSuite {
+  /** Name of a built-in or user recipe to test. */
+  recipe?: string;
+
+  /** Path to a recipe file, relative to the suite file.  Wins over `recipe`. */
+  recipeFile?: string;
+
+  /** Test cases, run in order. */
+  cases: RecipeTestCase[];
+}
+
+/** One recipe test case. */
+export interface RecipeTestCase {
+  /** Case label used in reports. */
+  name: string;
+
+  /** Recipe parameters. */
+  params?: Record<string, string>;
+
+  /**
+   * URL → HTML fixture file (relative to the suite file).  Requests for
+   * any other URL fail as if the server returned 404.
+   */
+  fixtures: Record<string, string>;
+
+  /** What the run must produce. */
+  expect: RecipeTestExpectation;
+}
+
+/**
+ * Expected outcome of a recipe test case.  Only the keys given are checked.
+ */
+export interface RecipeTestExpectation {
+  /** Expected `RecipeResult.success`. */
+  success?: boolean;
+
+  /**
+   * Expected `RecipeResult.data`.  Objects match when every expected key
+   * matches (extra keys are ignored); arrays must have the same length.
+   */
+  data?: unknown;
+
+  /** Substring expected in `RecipeResult.error`. */
+  error?: string;
+
+  /** Expected `RecipeResult.skipped`. */
+  skipped?: string[];
+
+  /** URLs the recipe must request, in order. */
+  requests?: string[];
+}
+
+/** Outcome of one recipe test case. */
+export interface RecipeTestCaseResult {
+  /** Case label. */
+  name: string;
+
+  /** Whether every expectation held. */
+  passed: boolean;
+
+  /** One line per mismatch, prefixed with a JSON Pointer where relevant. */
+  failures: string[];
+
+  /** The recipe run's result. */
+  result: RecipeResult;
+
+  /** URLs the recipe requested, in order. */
+  requests: string[];
 }
@@ -0,0 +1,165 @@
+// @ts-nocheck
+/**
+ * CrawlFrontier — Unit Tests
+ *
+ * Verifies URL normalisation, include/exclude glob matching, link and
+ * canonical discovery, scope rules (depth, origin, patterns), canonical and
+ * content-hash deduplication, and state round-tripping for resume.
+ *
+ * @module test/CrawlFrontier
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CrawlFrontier,
+  normalizeCrawlUrl,
+  matchesUrlPattern,
+  extractPageLinks,
+} from '../src/CrawlFrontier.js';
+
+/* -------------------------------------------------------------------------- */
+/*  URL helpers                                                               */
+/* -------------------------------------------------------------------------- */
+
+describe('normalizeCrawlUrl()', () => {
+  it('should drop fragments and tracking parameters and sort the query', () => {
+    expect(normalizeCrawlUrl('HTTPS://Example.COM:443/a?b=2&utm_source=x&a=1#top'))
+      .toBe('https://example.com/a?a=1&b=2');
+  });
+
+  it('should resolve relative URLs against a base', () => {
+    expect(normalizeCrawlUrl('../c', 'https://example.com/a/b/')).toBe('https://example.com/a/c');
+  });
+
+  it('should reject non-http(s) and invalid URLs', () => {
+    expect(normalizeCrawlUrl('mailto:a@example.com')).toBeNull();
+    expect(normalizeCrawlUrl('javascript:void(0)', 'https://example.com/')).toBeNull();
+    expect(normalizeCrawlUrl('not a url')).toBeNull();
+  });
+});
+
+describe('matchesUrlPattern()', () => {
+  it('should treat * as a wildcard and anchor the whole URL', () => {
+    expect(matchesUrlPattern('https://example.com/blog/post', 'https://example.com/blog/*')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/shop/item', 'https://example.com/blog/*')).toBe(false);
+    expect(matchesUrlPattern('https://example.com/a.pdf?x=1', '*.pdf*')).toBe(true);
+  });
+
+  it('should test regular expressions as-is', () => {
+    expect(matchesUrlPattern('https://example.com/p/42', /\/p\/\d+$/)).toBe(true);
+  });
+});
+
+describe('extractPageLinks()', () => {
+  it('should resolve links against <base>, skip nofollow and read the canonical URL', () => {
+    const html = `
+      <head>
+        <base href="https://example.com/docs/">
+        <link rel="canonical" href="/docs/intro">
+      </head>
+      <a href="guide">Guide</a>
+      <a href="/login" rel="nofollow">Log in</a>
+      <a href="#section">Jump</a>
+      <a href="mailto:team@example.com">Mail</a>
+    `;
+    const { links, canonicalUrl } = extractPageLinks(html, 'https://example.com/docs/intro?ref=nav');
+
+    expect(links).toEqual(['https://example.com/docs/guide', 'https://example.com/docs/']);
+    expect(canonicalUrl).toBe('https://example.com/docs/intro');
+  });
+});
+
+/* -------------------------------------------------------------------------- */
+/*  CrawlFrontier                                                             */
+/* -------------------------------------------------------------------------- */
+
+describe('CrawlFrontier', () => {
+  it('should queue each normalised start URL once', () => {
+    const frontier = new CrawlFrontier({
+      startUrls: ['https://example.com/', 'https://example.com/#top', 'ftp://example.com/'],
+    });
+    expect(frontier.toJSON().queue).toEqual([{ url: 'https://example.com/', depth: 0 }]);
+  });
+
+  it('should only queue unseen, in-scope links up to maxDepth', () => {
+    const frontier = new CrawlFrontier({
+      startUrls: ['https://example.com/'],
+      maxDepth: 1,
+      include: ['https://example.com/blog/*', 'https://example.com/about'],
+      exclude: ['*/blog/drafts/*'],
+    });
+    const root = frontier.next();
+
+    const queued = frontier.enqueue([
+      'https://example.com/blog/one',
+      'https://example.com/blog/one',
+      'https://example.com/blog/drafts/two',
+      'https://example.com/shop',
+      'https://other.test/blog/three',
+      'https://example.com/blog/logo.png',
+      'https://example.com/about',
+    ], root);
+    expect(queued).toEqual(['https://example.com/blog/one', 'https://example.com/about']);
+
+    frontier.complete(root);
+    const child = frontier.next();
+    expect(child).toEqual({ url: 'https://example.com/blog/one', depth: 1, parentUrl: 'https://example.com/' });
+    expect(frontier.enqueue(['https://example.com/blog/deeper'], child)).toEqual([]);
+  });
+
+  it('should follow links to other origins when sameOrigin is false', () => {
+    const frontier = new CrawlFrontier({ startUrls: ['https://example.com/'], sameOrigin: false });
+    expect(frontier.enqueue(['https://other.test/'], frontier.next())).toEqual(['https://other.test/']);
+  });
+
+  it('should stop handing out URLs once maxPages is reached', () => {
+    const frontier = new CrawlFrontier({ startUrls: ['https://a.test/', 'https://b.test/'], maxPages: 1 });
+    frontier.complete(frontier.next());
+
+    expect(frontier.next()).toBeUndefined();
+    expect(frontier.done).toBe(true);
+    expect(frontier.pending).toBe(1);
+  });
+
+  it('should detect duplicates by canonical URL and by page text', () => {
+    const frontier = new CrawlFrontier({ startUrls: ['https://example.com/'] });
+
+    expect(frontier.recordPage('https://example.com/a', 'https://example.com/a', 'Alpha  page')).toBeUndefined();
+    expect(frontier.recordPage('https://example.com/a?ref=1', 'https://example.com/a', 'Other text')).toBe('https://example.com/a');
+    expect(frontier.recordPage('https://example.com/mirror', 'https://example.com/mirror', 'Alpha page')).toBe('https://example.com/a');
+    expect(frontier.recordPage('https://example.com/b', 'https://example.com/b', '')).toBeUndefined();
+    expect(frontier.recordPage('https://example.com/c', 'https://example.com/c', '')).toBeUndefined();
+  });
+
+  it('should not queue a URL already crawled under its canonical form', () => {
+    const frontier = new CrawlFrontier({ startUrls: ['https://example.com/a?ref=1'] });
+    const entry = frontier.next();
+    frontier.recordPage(entry.url, 'https://example.com/a', 'Alpha');
+
+    expect(frontier.enqueue(['https://example.com/a'], entry)).toEqual([]);
+  });
+
+  it('should round-trip its state through JSON and keep the in-flight page queued', () => {
+    const input = { startUrls: ['https://example.com/'], maxPages: 10 };
+    const frontier = new CrawlFrontier(input);
+    const root = frontier.next();
+    frontier.recordPage(root.url, root.url, 'Home');
+    frontier.enqueue(['https://example.com/a', 'https://example.com/b'], root);
+    frontier.complete(root);
+    frontier.next(); // /a is in flight
+
+    const state = JSON.parse(JSON.stringify(frontier.toJSON()));
+    expect(state.queue.map((e) => e.url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(state.pagesFetched).toBe(1);
+
+    const resumed = CrawlFrontier.fromState(input, state);
+    expect(resumed.next().url).toBe('https://example.com/a');
+    expect(resumed.fetched).toBe(1);
+    expect(resumed.enqueue(['https://example.com/b'], resumed.next())).toEqual([]);
+    expect(resumed.recordPage('https://example.com/copy', 'https://example.com/copy', 'Home')).toBe('https://example.com/');
+  });
+
+  it('should reject state snapshots from an unknown version', () => {
+    expect(() => CrawlFrontier.fromState({ startUrls: [] }, { version: 2 })).toThrow('Unsupported crawl state version');
+  });
+});
@@ -4,8 +4,9 @@
  *
  * Verifies template interpolation (plain params, step data references, step
  * item references), recipe loading from the built-in recipes directory,
- * error handling for missing recipes and missing required params, and
- * multi-step execution with step data forwarding.
+ * error handling for missing recipes and missing required params,
+ * multi-step execution with step data forwarding, pagination, conditional
+ * and forEach steps, and outputSchema validation.
  *
  * The {@link WebScraperService} is mocked so no real HTTP calls are made.
  *
@@ -308,3 +309,176 @@ describe('RecipeEngine — error handling', () => {
     expect(call[0].url).toBe('https://example.com/search?q=');
   });
 });
+
+/* -------------------------------------------------------------------------- */
+/*  Pagination, conditions, loops and output schemas                          */
+/* -------------------------------------------------------------------------- */
+
+describe('RecipeEngine — authoring features', () => {
+  function register(engine: RecipeEngine, recipe: Record<string, unknown>) {
+    engine.registerRecipe({ name: 'r', description: 'Test', version: '1.0.0', params: {}, ...recipe });
+  }
+
+  it('should follow next-page links and concatenate items', async () => {
+    const mockScraper = createMockScraper([
+      { success: true, url: 'https://example.com/list', items: [{ n: '1' }], data: { __nextPage: '/list?p=2' } },
+      { success: true, url: 'https://example.com/list?p=2', items: [{ n: '2' }], data: { __nextPage: '?p=3' } },
+      { success: true, url: 'https://example.com/list?p=3', items: [{ n: '3' }], data: { __nextPage: '' } },
+    ]);
+    const engine = new RecipeEngine(mockScraper);
+    register(engine, {
+      steps: [{
+        name: 'list',
+        url: 'https://example.com/list',
+        extract: { list: '.row', listFields: { n: '.n' } },
+        paginate: { next: 'a.next @href' },
+      }],
+    });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    const calls = (mockScraper.scrape as ReturnType<typeof vi.fn>).mock.calls;
+    expect(calls.map(([input]) => input.url)).toEqual([
+      'https://example.com/list',
+      'https://example.com/list?p=2',
+      'https://example.com/list?p=3',
+    ]);
+    expect(calls[0][0].extract.fields).toEqual({ __nextPage: 'a.next @href' });
+    expect(result.data.list).toEqual([{ n: '1' }, { n: '2' }, { n: '3' }]);
+  });
+
+  it('should stop numbered pagination at the first empty page or maxPages', async () => {
+    const mockScraper = createMockScraper([
+      { success: true, items: [{ n: '1' }] },
+      { success: true, items: [{ n: '2' }] },
+      { success: true, items: [] },
+    ]);
+    const engine = new RecipeEngine(mockScraper);
+    register(engine, {
+      steps: [{
+        name: 'list',
+        url: 'https://example.com/list?page={{page}}',
+        extract: { list: '.row', listFields: { n: '.n' } },
+        paginate: { pageParam: 'page', start: 0, maxPages: 5 },
+      }],
+    });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    const urls = (mockScraper.scrape as ReturnType<typeof vi.fn>).mock.calls.map(([input]) => input.url);
+    expect(urls).toEqual([
+      'https://example.com/list?page=0',
+      'https://example.com/list?page=1',
+      'https://example.com/list?page=2',
+    ]);
+    expect(result.data.list).toEqual([{ n: '1' }, { n: '2' }]);
+  });
+
+  it('should skip steps whose when condition fails', async () => {
+    const mockScraper = createMockScraper([
+      { success: true, items: [] },
+      { success: true, text: 'fallback page' },
+    ]);
+    const engine = new RecipeEngine(mockScraper);
+    register(engine, {
+      steps: [
+        { name: 'search', url: 'https://example.com/s', extract: { list: '.r', listFields: { url: 'a @href' } } },
+        { name: 'detail', url: '{{steps.search.items[0].url}}', when: '{{steps.search.items[0].url}}' },
+        {
+          name: 'fallback',
+          url: 'https://example.com/browse',
+          when: { value: '{{steps.search.items.length}}', lt: 1 },
+        },
+      ],
+    });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.skipped).toEqual(['detail']);
+    expect(result.data.fallback).toEqual({ text: 'fallback page' });
+  });
+
+  it('should run forEach steps once per item with {{item.*}} and {{index}}', async () => {
+    const mockScraper = createMockScraper([
+      { success: true, items: [{ slug: 'a' }, { slug: 'b' }, { slug: 'c' }] },
+      { success: true, data: { title: 'A' } },
+      { success: true, data: { title: 'B' } },
+    ]);
+    const engine = new RecipeEngine(mockScraper);
+    register(engine, {
+      steps: [
+        { name: 'list', url: 'https://example.com/', extract: { list: '.i', listFields: { slug: '.s' } } },
+        {
+          name: 'pages',
+          forEach: 'steps.list.items',
+          maxIterations: 2,
+          url: 'https://example.com/{{item.slug}}?i={{index}}',
+          extract: { fields: { title: 'h1' } },
+        },
+      ],
+    });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    const urls = (mockScraper.scrape as ReturnType<typeof vi.fn>).mock.calls.map(([input]) => input.url);
+    expect(urls.slice(1)).toEqual(['https://example.com/a?i=0', 'https://example.com/b?i=1']);
+    expect(result.data.pages).toEqual([{ title: 'A' }, { title: 'B' }]);
+  });
+
+  it('should fail a forEach step that does not reference a list', async () => {
+    const engine = new RecipeEngine(createMockScraper());
+    register(engine, { steps: [{ name: 'loop', forEach: 'steps.nope.items', url: 'https://example.com/' }] });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('forEach source "steps.nope.items"');
+  });
+
+  it('should validate output against outputSchema with JSON Pointer paths', async () => {
+    const mockScraper = createMockScraper([{ success: true, data: { title: '', extra: 'x' } }]);
+    const engine = new RecipeEngine(mockScraper);
+    register(engine, {
+      steps: [{ name: 'page', url: 'https://example.com/', extract: { fields: { title: 'h1' } } }],
+      outputSchema: {
+        type: 'object',
+        properties: {
+          page: {
+            type: 'object',
+            required: ['title', 'author'],
+            properties: { title: { type: 'string', minLength: 1 } },
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+
+    const result = await engine.execute({ recipe: 'r', params: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.data.page).toEqual({ title: '', extra: 'x' });
+    expect(result.validationErrors).toEqual(expect.arrayContaining([
+      { path: '/page/author', message: 'is required' },
+      { path: '/page/extra', message: 'is not allowed' },
+      { path: '/page/title', message: 'must NOT have fewer than 1 characters' },
+    ]));
+    expect(result.error).toContain('outputSchema');
+  });
+
+  it('should reject recipes whose when.matches is not a valid regex', () => {
+    const engine = new RecipeEngine(createMockScraper());
+    expect(() => register(engine, {
+      steps: [{ name: 'page', url: 'https://example.com/', when: { value: '{{q}}', matches: '(' } }],
+    })).toThrow('invalid when.matches regex in step "page"');
+    expect(engine.getRecipeNames()).toEqual([]);
+  });
+
+  it('should reject recipes with an invalid outputSchema', () => {
+    const engine = new RecipeEngine(createMockScraper());
+    expect(() => register(engine, {
+      steps: [{ name: 'page', url: 'https://example.com/' }],
+      outputSchema: { type: 'not-a-type' },
+    })).toThrow('invalid outputSchema');
+  });
+});
@@ -0,0 +1,66 @@
+// @ts-nocheck
+/**
+ * Recipe fixtures — Offline regression tests for recipes.
+ *
+ * Runs every `test/recipes/*.test.yaml` suite through the
+ * {@link runRecipeTests} harness, serving saved HTML instead of fetching.
+ * Add a suite (and its fixtures) next to the others to cover a new recipe;
+ * `npm run test:recipes` runs just these.
+ *
+ * @module test/RecipeFixtures
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runRecipeTests, runRecipeTestSuite } from '../src/RecipeTester.js';
+
+const SUITES_DIR = join(fileURLToPath(new URL('.', import.meta.url)), 'recipes');
+const suites = readdirSync(SUITES_DIR).filter((f) => f.endsWith('.test.yaml')).sort();
+
+/* -------------------------------------------------------------------------- */
+/*  Recipe suites                                                             */
+/* -------------------------------------------------------------------------- */
+
+describe.each(suites)('recipe suite %s', (suite) => {
+  it('should pass every case', async () => {
+    const results = await runRecipeTests(join(SUITES_DIR, suite));
+
+    expect(results.length).toBeGreaterThan(0);
+    for (const result of results) {
+      expect({ case: result.name, failures: result.failures }).toEqual({ case: result.name, failures: [] });
+    }
+  });
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Harness                                                                   */
+/* -------------------------------------------------------------------------- */
+
+describe('runRecipeTestSuite()', () => {
+  it('should report mismatches with JSON Pointer paths', async () => {
+    const [result] = await runRecipeTestSuite(
+      {
+        recipe: 'generic-article',
+        cases: [{
+          name: 'wrong expectations',
+          params: { url: 'https://fieldnotes.example/static-sites' },
+          fixtures: { 'https://fieldnotes.example/static-sites': 'fixtures/blog-post.html' },
+          expect: {
+            success: true,
+            data: { article: { title: 'Other title', author: 'Ada Park' } },
+            requests: [],
+          },
+        }],
+      },
+      SUITES_DIR,
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      '/requests: expected 0 item(s), got 1',
+      '/article/title: expected "Other title", got "Static Sites, Revisited"',
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+// @ts-nocheck
+/**
+ * RobotsTxt — Unit Tests
+ *
+ * Verifies robots.txt parsing, user-agent group selection, longest-match
+ * Allow/Disallow semantics with wildcards, Crawl-delay reporting, and the
+ * per-origin cache's handling of 2xx / 4xx / 5xx responses.
+ *
+ * All HTTP calls are mocked via `globalThis.fetch`.
+ *
+ * @module test/RobotsTxt
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRobotsTxt, matchRobots, RobotsTxtCache } from '../src/RobotsTxt.js';
+
+/* -------------------------------------------------------------------------- */
+/*  Global fetch mock                                                         */
+/* -------------------------------------------------------------------------- */
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+beforeEach(() => {
+  mockFetch.mockReset();
+});
+
+function robotsResponse(body: string, status = 200) {
+  return { ok: status >= 200 && status < 300, status, text: async () => body };
+}
+
+const ROBOTS = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/public-page
+Crawl-delay: 2
+
+User-agent: AgentOS-WebScraper
+User-agent: OtherBot
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/about
+Crawl-delay: 1.5
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+/* -------------------------------------------------------------------------- */
+/*  parseRobotsTxt() / matchRobots()                                          */
+/* -------------------------------------------------------------------------- */
+
+describe('parseRobotsTxt()', () => {
+  it('should group consecutive User-agent lines and collect sitemaps', () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[1].userAgents).toEqual(['agentos-webscraper', 'otherbot']);
+    expect(robots.groups[1].crawlDelay).toBe(1.5);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should ignore rules before any User-agent and empty Disallow lines', () => {
+    const robots = parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:\n');
+    expect(robots.groups).toEqual([{ userAgents: ['*'], rules: [] }]);
+  });
+});
+
+describe('matchRobots()', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+
+  it('should use the group naming our product token over the * group', () => {
+    const match = matchRobots(robots, '/private/x', 'AgentOS-WebScraper');
+    expect(match.allowed).toBe(true);
+    expect(match.crawlDelay).toBe(1.5);
+  });
+
+  it('should fall back to the * group for unknown agents', () => {
+    expect(matchRobots(robots, '/private/x', 'SomeBot')).toEqual({ allowed: false, rule: '/private/', crawlDelay: 2 });
+    expect(matchRobots(robots, '/private/public-page', 'SomeBot').allowed).toBe(true);
+  });
+
+  it('should apply the longest matching rule', () => {
+    expect(matchRobots(robots, '/search?q=1', 'agentos-webscraper').allowed).toBe(false);
+    expect(matchRobots(robots, '/search/about', 'agentos-webscraper').allowed).toBe(true);
+  });
+
+  it('should prefer Allow when rules tie on length', () => {
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page\n');
+    expect(matchRobots(tie, '/page', 'bot').allowed).toBe(true);
+  });
+
+  it('should support * wildcards and the $ end anchor', () => {
+    expect(matchRobots(robots, '/files/report.pdf', 'agentos-webscraper').allowed).toBe(false);
+    expect(matchRobots(robots, '/files/report.pdf?download=1', 'agentos-webscraper').allowed).toBe(true);
+  });
+
+  it('should always allow /robots.txt and allow everything without matching groups', () => {
+    const all = parseRobotsTxt('User-agent: *\nDisallow: /\n');
+    expect(matchRobots(all, '/robots.txt', 'bot').allowed).toBe(true);
+    expect(matchRobots(parseRobotsTxt(''), '/anything', 'bot').allowed).toBe(true);
+  });
+});
+
+/* -------------------------------------------------------------------------- */
+/*  RobotsTxtCache                                                            */
+/* -------------------------------------------------------------------------- */
+
+describe('RobotsTxtCache', () => {
+  it('should fetch robots.txt once per origin with our user-agent', async () => {
+    mockFetch.mockResolvedValue(robotsResponse(ROBOTS));
+    const robots = new RobotsTxtCache();
+
+    const [a, b] = await Promise.all([
+      robots.check('https://example.com/search?q=x'),
+      robots.check('https://example.com/search/about'),
+    ]);
+
+    expect(a).toEqual({ allowed: false, robotsUrl: 'https://example.com/robots.txt', rule: '/search', crawlDelayMs: 1500 });
+    expect(b.allowed).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/robots.txt');
+    expect(mockFetch.mock.calls[0][1].headers['User-Agent']).toBe('AgentOS-WebScraper');
+  });
+
+  it('should cap Crawl-delay at maxCrawlDelayMs', async () => {
+    mockFetch.mockResolvedValue(robotsResponse('User-agent: *\nCrawl-delay: 3600\n'));
+    const robots = new RobotsTxtCache({ maxCrawlDelayMs: 10_000 });
+    expect((await robots.check('https://slow.test/')).crawlDelayMs).toBe(10_000);
+  });
+
+  it('should allow everything when robots.txt is a 4xx', async () => {
+    mockFetch.mockResolvedValue(robotsResponse('', 404));
+    const robots = new RobotsTxtCache();
+    expect(await robots.check('https://none.test/anything')).toEqual({
+      allowed: true,
+      robotsUrl: 'https://none.test/robots.txt',
+    });
+  });
+
+  it('should disallow everything when robots.txt is unreachable', async () => {
+    mockFetch.mockResolvedValueOnce(robotsResponse('', 503));
+    const robots = new RobotsTxtCache();
+    expect(await robots.check('https://down.test/page')).toMatchObject({ allowed: false, rule: '*', unreachable: true });
+
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+    expect((await robots.check('https://reset.test/page')).allowed).toBe(false);
+  });
+
+  it('should keep the last good copy when a refresh fails', async () => {
+    const robots = new RobotsTxtCache({ cacheTtlMs: 0 });
+    mockFetch.mockResolvedValueOnce(robotsResponse('User-agent: *\nDisallow: /admin\n'));
+    expect((await robots.check('https://flaky.test/page')).allowed).toBe(true);
+
+    mockFetch.mockResolvedValueOnce(robotsResponse('', 500));
+    expect((await robots.check('https://flaky.test/page')).allowed).toBe(true);
+    expect((await robots.check('https://flaky.test/admin')).allowed).toBe(false);
+  });
+
+  it('should keep allowing everything when a refresh after a 4xx fails', async () => {
+    const robots = new RobotsTxtCache({ cacheTtlMs: 0, errorCacheTtlMs: 0 });
+    mockFetch.mockResolvedValueOnce(robotsResponse('', 404));
+    expect((await robots.check('https://gone.test/page')).allowed).toBe(true);
+
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+    expect((await robots.check('https://gone.test/page')).allowed).toBe(true);
+    mockFetch.mockResolvedValueOnce(robotsResponse('', 503));
+    expect((await robots.check('https://gone.test/page')).allowed).toBe(true);
+  });
+
+  it('should allow non-http URLs without fetching', async () => {
+    const robots = new RobotsTxtCache();
+    expect((await robots.check('file:///etc/hosts')).allowed).toBe(true);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
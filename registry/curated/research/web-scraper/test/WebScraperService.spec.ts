@@ -4,7 +4,8 @@
  *
  * Verifies the core scraping engine's HTML-to-text conversion, CSS-like
  * selector extraction, tiered fetch with fallback escalation, per-domain
- * rate limiting, and round-robin proxy rotation.
+ * rate limiting, round-robin proxy rotation, HTTP cache record/replay, and
+ * multi-page crawling.
  *
  * All HTTP calls are mocked via `globalThis.fetch` — no network access
  * is needed to run these tests.
@@ -13,7 +14,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { WebScraperService } from '../src/WebScraperService.js';
+import { CrawlFrontier } from '../src/CrawlFrontier.js';
 
 /* -------------------------------------------------------------------------- */
 /*  Global fetch mock                                                         */
@@ -130,8 +135,6 @@ describe('WebScraperService.extractFromHtml()', () => {
   });
 
   it('should extract attribute values with @attr suffix', () => {
-    // Note: the regex-based micro-selector requires opening + closing tags
-    // (void elements like <img> are not matched), so we use an anchor tag.
     const html = '<a class="hero" href="https://example.com/photo.jpg">View Photo</a>';
     const result = scraper.extractFromHtml(html, {
       fields: { link: '.hero @href' },
@@ -171,6 +174,78 @@ describe('WebScraperService.extractFromHtml()', () => {
     expect(result.items![1]!.name).toBe('Bob');
     expect(result.items![1]!.score).toBe('87');
   });
+
+  it('should read attributes from void elements', () => {
+    const html = '<figure><img class="hero" src="/photo.jpg" alt="Hero"></figure>';
+    const result = scraper.extractFromHtml(html, {
+      fields: { src: 'img.hero @src', alt: 'figure > img @alt' },
+    });
+    expect(result.data).toEqual({ src: '/photo.jpg', alt: 'Hero' });
+  });
+
+  it('should match nested elements, combinators and attribute selectors', () => {
+    const html = `
+      <div class="card"><div class="card"><span>inner</span></div><b>outer</b></div>
+      <ul><li>one</li><li data-x="2">two</li><li>three</li></ul>
+      <a href="/film/42">Film</a><a href="/tv/7">Show</a>
+    `;
+    const result = scraper.extractFromHtml(html, {
+      fields: {
+        nested: '.card .card span',
+        second: 'ul > li:nth-child(2)',
+        attr: 'li[data-x="2"]',
+        sibling: 'li:first-child + li + li',
+        link: 'a[href^="/tv/"]',
+        notFirst: 'li:not(:first-child)',
+      },
+    });
+    expect(result.data).toEqual({
+      nested: 'inner',
+      second: 'two',
+      attr: 'two',
+      sibling: 'three',
+      link: 'Show',
+      notFirst: 'two',
+    });
+  });
+
+  it('should support xpath: selectors', () => {
+    const html = `
+      <div class="price"><span>$5</span></div>
+      <table><tr><td>a</td><td>b</td></tr></table>
+      <a href="/next" rel="next">More</a>
+    `;
+    const result = scraper.extractFromHtml(html, {
+      fields: {
+        price: "xpath://div[@class='price']/span/text()",
+        cell: 'xpath://tr/td[2]',
+        next: "xpath://a[contains(text(),'More')]/@href",
+      },
+    });
+    expect(result.data).toEqual({ price: '$5', cell: 'b', next: '/next' });
+  });
+
+  it('should let list fields read attributes of the item itself', () => {
+    const html = `
+      <a class="row" href="/a" data-id="1"><span class="name">A</span></a>
+      <a class="row" href="/b" data-id="2"><span class="name">B</span></a>
+    `;
+    const result = scraper.extractFromHtml(html, {
+      list: 'a.row',
+      listFields: { id: '@data-id', url: 'a @href', name: '.name' },
+    });
+    expect(result.items).toEqual([
+      { id: '1', url: '/a', name: 'A' },
+      { id: '2', url: '/b', name: 'B' },
+    ]);
+  });
+
+  it('should return empty string for invalid selectors', () => {
+    const result = scraper.extractFromHtml('<p>x</p>', {
+      fields: { bad: 'p[[', badXpath: 'xpath://p[position()>1]' },
+    });
+    expect(result.data).toEqual({ bad: '', badXpath: '' });
+  });
 });
 
 /* -------------------------------------------------------------------------- */
@@ -444,6 +519,154 @@ describe('WebScraperService — rate limiting', () => {
   });
 });
 
+/* -------------------------------------------------------------------------- */
+/*  robots.txt and politeness                                                 */
+/* -------------------------------------------------------------------------- */
+
+describe('WebScraperService — robots.txt', () => {
+  const page = { ok: true, status: 200, statusText: 'OK', text: async () => '<p>OK</p>' };
+
+  function robotsThenPages(robotsTxt: string) {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/robots.txt')
+        ? { ok: true, status: 200, statusText: 'OK', text: async () => robotsTxt }
+        : page,
+    );
+  }
+
+  it('should not fetch robots.txt unless enabled', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    mockFetch.mockResolvedValue(page);
+
+    await scraper.scrape({ url: 'https://robots-off.test/private', options: { maxTier: 1 } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://robots-off.test/private');
+  });
+
+  it('should return a blocked result for disallowed URLs without fetching them', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, robots: true });
+    robotsThenPages('User-agent: *\nDisallow: /private\n');
+
+    const result = await scraper.scrape({ url: 'https://robots-on.test/private/x', options: { maxTier: 1 } });
+
+    expect(result.success).toBe(false);
+    expect(result.tier).toBe(0);
+    expect(result.blocked).toEqual({
+      reason: 'robots_txt',
+      robotsUrl: 'https://robots-on.test/robots.txt',
+      userAgent: 'AgentOS-WebScraper',
+      rule: '/private',
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    const allowed = await scraper.scrape({ url: 'https://robots-on.test/public', options: { maxTier: 1 } });
+    expect(allowed.success).toBe(true);
+    expect(allowed.blocked).toBeUndefined();
+  });
+
+  it('should tell a Disallow: * rule apart from an unreachable robots.txt', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, robots: true });
+    robotsThenPages('User-agent: *\nDisallow: *\n');
+
+    const ruled = await scraper.scrape({ url: 'https://star.test/page', options: { maxTier: 1 } });
+    expect(ruled.error).toBe('Disallowed by robots.txt (*)');
+    expect(ruled.blocked).toMatchObject({ rule: '*' });
+    expect(ruled.blocked.unreachable).toBeUndefined();
+
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable', text: async () => '' });
+    const down = await scraper.scrape({ url: 'https://down.test/page', options: { maxTier: 1 } });
+    expect(down.error).toMatch(/robots\.txt at https:\/\/down\.test\/robots\.txt is unreachable/);
+    expect(down.blocked).toMatchObject({ rule: '*', unreachable: true });
+  });
+
+  it('should match rules against a configured product token', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, robots: { userAgent: 'ResearchBot' } });
+    robotsThenPages('User-agent: ResearchBot\nDisallow: /\n\nUser-agent: *\nAllow: /\n');
+
+    const result = await scraper.scrape({ url: 'https://token.test/page', options: { maxTier: 1 } });
+    expect(result.blocked?.userAgent).toBe('ResearchBot');
+  });
+
+  it('should wait at least the Crawl-delay between requests to a domain', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, robots: true });
+    robotsThenPages('User-agent: *\nCrawl-delay: 0.3\n');
+
+    const start = Date.now();
+    await scraper.scrape({ url: 'https://crawl-delay.test/a', options: { maxTier: 1 } });
+    await scraper.scrape({ url: 'https://crawl-delay.test/b', options: { maxTier: 1 } });
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(280);
+  });
+});
+
+describe('WebScraperService — HTTP cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scraper-cassette-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded pages and robots.txt without network access or delays', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/robots.txt')
+        ? new Response('User-agent: *\nDisallow: /private\n')
+        : new Response('<h1>Recorded</h1>'),
+    );
+    const recorder = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, robots: true, httpCache: { dir, mode: 'record' } });
+    await recorder.scrape({ url: 'https://cassette.test/page', options: { maxTier: 1 } });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    mockFetch.mockReset();
+    const player = new WebScraperService({ robots: true, httpCache: { dir, mode: 'replay' } });
+    const start = Date.now();
+    const result = await player.scrape({ url: 'https://cassette.test/page', extract: { fields: { title: 'h1' } } });
+    const blocked = await player.scrape({ url: 'https://cassette.test/private/x' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ title: 'Recorded' });
+    expect(blocked.blocked?.rule).toBe('/private');
+    expect(Date.now() - start).toBeLessThan(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should fail unrecorded URLs in replay mode without trying the browser tiers', async () => {
+    const player = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0, httpCache: { dir, mode: 'replay' } });
+
+    const result = await player.scrape({ url: 'https://cassette.test/missing' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No recorded response for GET https://cassette.test/missing');
+    expect(result.error).not.toContain('playwright');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebScraperService — domain policies', () => {
+  it('should apply per-domain delays to subdomains', async () => {
+    const scraper = new WebScraperService({
+      minDelayMs: 0,
+      maxDelayMs: 0,
+      domainPolicies: { 'slow.test': { minDelayMs: 250, maxDelayMs: 250 } },
+    });
+    mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK', text: async () => '<p>OK</p>' });
+
+    const start = Date.now();
+    await scraper.scrape({ url: 'https://www.slow.test/a', options: { maxTier: 1 } });
+    await scraper.scrape({ url: 'https://www.slow.test/b', options: { maxTier: 1 } });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(230);
+
+    const fastStart = Date.now();
+    await scraper.scrape({ url: 'https://fast.test/a', options: { maxTier: 1 } });
+    await scraper.scrape({ url: 'https://fast.test/b', options: { maxTier: 1 } });
+    expect(Date.now() - fastStart).toBeLessThan(200);
+  });
+});
+
 /* -------------------------------------------------------------------------- */
 /*  Proxy rotation                                                            */
 /* -------------------------------------------------------------------------- */
@@ -497,3 +720,129 @@ describe('WebScraperService — proxy rotation', () => {
     expect(scraper).toBeInstanceOf(WebScraperService);
   });
 });
+
+/* -------------------------------------------------------------------------- */
+/*  Crawling                                                                  */
+/* -------------------------------------------------------------------------- */
+
+describe('WebScraperService.crawl()', () => {
+  /** Serve a small site from a URL → HTML map; unknown URLs return 404. */
+  function serveSite(pages: Record<string, string>) {
+    mockFetch.mockImplementation(async (url: string) =>
+      url in pages
+        ? { ok: true, status: 200, statusText: 'OK', text: async () => pages[url] }
+        : { ok: false, status: 404, statusText: 'Not Found', text: async () => '' },
+    );
+  }
+
+  async function collect(iterable: AsyncIterable<any>) {
+    const out = [];
+    for await (const item of iterable) out.push(item);
+    return out;
+  }
+
+  const site = {
+    'https://crawl.test/': `
+      <h1>Home</h1>
+      <a href="/a">A</a> <a href="/b">B</a> <a href="https://elsewhere.test/">Away</a>`,
+    'https://crawl.test/a': `
+      <h1>Page A</h1>
+      <a href="/a/deep">Deep</a> <a href="/b?utm_source=nav">B again</a> <a href="/missing">Gone</a>`,
+    'https://crawl.test/b': '<h1>Page B</h1><a href="/b/mirror">Mirror</a>',
+    'https://crawl.test/a/deep': '<h1>Deep</h1>',
+    'https://crawl.test/b/mirror': '<h1>Page B</h1><a href="/never">Mirror</a>',
+  };
+
+  it('should crawl breadth-first within depth and origin, streaming each page', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    serveSite(site);
+
+    const pages = await collect(scraper.crawl({
+      startUrls: ['https://crawl.test/'],
+      maxDepth: 2,
+      options: { maxTier: 1 },
+    }));
+
+    expect(pages.map((p) => [p.url, p.depth])).toEqual([
+      ['https://crawl.test/', 0],
+      ['https://crawl.test/a', 1],
+      ['https://crawl.test/b', 1],
+      ['https://crawl.test/a/deep', 2],
+      ['https://crawl.test/missing', 2],
+      ['https://crawl.test/b/mirror', 2],
+    ]);
+    expect(pages[0].queued).toEqual(['https://crawl.test/a', 'https://crawl.test/b']);
+    expect(pages[1].parentUrl).toBe('https://crawl.test/');
+    expect(pages[4].result.success).toBe(false);
+    expect(pages[0].result.text).toContain('Home');
+    expect(mockFetch.mock.calls.map(([url]) => url)).not.toContain('https://elsewhere.test/');
+  });
+
+  it('should flag duplicate content and not follow its links', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    serveSite(site);
+
+    const pages = await collect(scraper.crawl({
+      startUrls: ['https://crawl.test/b'],
+      maxDepth: 3,
+      options: { maxTier: 1 },
+    }));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1].url).toBe('https://crawl.test/b/mirror');
+    expect(pages[1].duplicateOf).toBe('https://crawl.test/b');
+    expect(pages[1].queued).toEqual([]);
+  });
+
+  it('should apply the extract config to every page', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    serveSite(site);
+
+    const pages = await collect(scraper.crawl({
+      startUrls: ['https://crawl.test/'],
+      maxDepth: 1,
+      include: ['https://crawl.test/a*'],
+      extract: { fields: { heading: 'h1' } },
+      options: { maxTier: 1 },
+    }));
+
+    expect(pages.map((p) => p.result.data?.heading)).toEqual(['Home', 'Page A']);
+    expect(pages[0].result.html).toBeUndefined();
+  });
+
+  it('should resume from a saved frontier without refetching pages', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    serveSite(site);
+    const input = { startUrls: ['https://crawl.test/'], maxDepth: 1, maxPages: 2, options: { maxTier: 1 } };
+
+    const frontier = new CrawlFrontier(input);
+    const first = await collect(scraper.crawl(input, frontier));
+    expect(first.map((p) => p.url)).toEqual(['https://crawl.test/', 'https://crawl.test/a']);
+
+    const saved = JSON.parse(JSON.stringify(frontier.toJSON()));
+    mockFetch.mockClear();
+    const resumedInput = { ...input, maxPages: 10 };
+    const rest = await collect(scraper.crawl(resumedInput, CrawlFrontier.fromState(resumedInput, saved)));
+
+    expect(rest.map((p) => p.url)).toEqual(['https://crawl.test/b']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse the domain-tier cache across crawled pages', async () => {
+    const scraper = new WebScraperService({ minDelayMs: 0, maxDelayMs: 0 });
+    const filler = '<p>' + 'Long enough content for the LLM fallback tier. '.repeat(10) + '</p>';
+    let calls = 0;
+    mockFetch.mockImplementation(async (url: string) => {
+      calls++;
+      if (calls === 1) return { ok: false, status: 503, statusText: 'Unavailable', text: async () => '' };
+      const body = url.endsWith('/next') ? `<h1>Next</h1>${filler}` : `<h1>Start</h1><a href="/next">n</a>${filler}`;
+      return { ok: true, status: 200, statusText: 'OK', text: async () => body };
+    });
+
+    const pages = await collect(scraper.crawl({ startUrls: ['https://tiers.test/'], maxDepth: 1 }));
+
+    expect(pages.map((p) => p.result.tier)).toEqual([4, 4]);
+    // Tier 1 was tried only for the first page; the second went straight to tier 4
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -14,6 +14,8 @@ import { WebSearchTool } from './tools/webSearch.js';
 import { ResearchAggregatorTool } from './tools/researchAggregator.js';
 import { FactCheckTool } from './tools/factCheck.js';
 import { SearchProviderService } from './services/searchProvider.js';
+import { httpCacheOptionsFromEnv } from '@framers/agentos-research-shared';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
 
 /**
  * Extension configuration options
@@ -38,6 +40,11 @@ export interface WebSearchExtensionOptions {
     maxRequests: number;
     windowMs: number;
   };
+  /**
+   * On-disk HTTP cache or record/replay cassette directory for provider
+   * requests (defaults to AGENTOS_HTTP_CACHE_DIR / AGENTOS_HTTP_CACHE_MODE)
+   */
+  httpCache?: HttpCacheOptions;
   /** Default multi-provider parallel search for all search tools */
   defaultMultiSearch?: boolean;
   /** Extension priority in the stack */
@@ -86,7 +93,8 @@ export function createExtensionPack(context: ExtensionPackContext): ExtensionPac
     tavilyApiKey,
     firecrawlApiKey,
     searxngUrl,
-    rateLimit: options.rateLimit
+    rateLimit: options.rateLimit,
+    httpCache: options.httpCache ?? httpCacheOptionsFromEnv()
   });
   
   const defaultMultiSearch = options.defaultMultiSearch ?? false;
@@ -147,6 +155,8 @@ export function createExtensionPack(context: ExtensionPackContext): ExtensionPac
 export { WebSearchTool, ResearchAggregatorTool, FactCheckTool };
 export { SearchProviderService, SearchResult, ProviderResponse } from './services/searchProvider.js';
 export type { SearchProviderConfig, MultiSearchResult, MultiSearchResponse } from './services/searchProvider.js';
+export { HttpCache, HttpCacheMissError, httpCacheOptionsFromEnv } from '@framers/agentos-research-shared';
+export type { HttpCacheMode, HttpCacheOptions } from '@framers/agentos-research-shared';
 
 // Default export for convenience
 export default createExtensionPack;
@@ -1,4 +1,7 @@
 // @ts-nocheck
+import { HttpCache } from '@framers/agentos-research-shared';
+import type { HttpCacheOptions } from '@framers/agentos-research-shared';
+
 /**
  * Configuration for search providers
  */
@@ -14,6 +17,8 @@ export interface SearchProviderConfig {
     maxRequests: number;
     windowMs: number;
   };
+  /** On-disk HTTP cache or record/replay cassette directory for provider requests */
+  httpCache?: HttpCache | HttpCacheOptions;
 }
 
 /**
@@ -89,6 +94,7 @@ export interface MultiSearchResponse {
 export class SearchProviderService {
   private config: SearchProviderConfig;
   private rateLimitState: Map<string, { count: number; resetTime: number }>;
+  private httpCache: HttpCache | null;
   
   /**
    * Creates an instance of SearchProviderService
@@ -110,8 +116,20 @@ export class SearchProviderService {
       },
     };
     this.rateLimitState = new Map();
+    this.httpCache = config.httpCache
+      ? config.httpCache instanceof HttpCache ? config.httpCache : new HttpCache(config.httpCache)
+      : null;
   }
   
+  /**
+   * Performs an HTTP request, through the HTTP cache when one is configured
+   * 
+   * @private
+   */
+  private http(...args: Parameters<typeof fetch>): Promise<Response> {
+    return this.httpCache ? this.httpCache.fetch(...args) : fetch(...args);
+  }
+
   /**
    * Performs a search across available providers with automatic fallback
    * 
@@ -266,7 +284,7 @@ export class SearchProviderService {
    * @returns {Promise<SearchResult[]>} Search results
    */
   private async searchSerper(query: string, maxResults: number): Promise<SearchResult[]> {
-    const response = await fetch('https://google.serper.dev/search', {
+    const response = await this.http('https://google.serper.dev/search', {
       method: 'POST',
       headers: {
         'X-API-KEY': this.config.serperApiKey!,
@@ -301,7 +319,7 @@ export class SearchProviderService {
       num: maxResults.toString()
     });
     
-    const response = await fetch(`https://serpapi.com/search?${params}`);
+    const response = await this.http(`https://serpapi.com/search?${params}`);
     if (!response.ok) throw new Error(`SerpAPI error: ${response.statusText}`);
     
     const data = (await response.json()) as any;
@@ -327,7 +345,7 @@ export class SearchProviderService {
       count: maxResults.toString()
     });
     
-    const response = await fetch(`https://api.search.brave.com/res/v1/web/search?${params}`, {
+    const response = await this.http(`https://api.search.brave.com/res/v1/web/search?${params}`, {
       headers: {
         'X-Subscription-Token': this.config.braveApiKey!
       }
@@ -421,7 +439,7 @@ export class SearchProviderService {
    */
   private async scrapeDuckDuckGoHTML(query: string, maxResults: number): Promise<SearchResult[]> {
     const body = new URLSearchParams({ q: query, b: '' });
-    const response = await fetch('https://html.duckduckgo.com/html/', {
+    const response = await this.http('https://html.duckduckgo.com/html/', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -486,7 +504,7 @@ export class SearchProviderService {
       skip_disambig: '1',
     });
 
-    const response = await fetch(`https://api.duckduckgo.com/?${params}`);
+    const response = await this.http(`https://api.duckduckgo.com/?${params}`);
     const data = (await response.json()) as any;
 
     const results: SearchResult[] = [];
@@ -536,7 +554,7 @@ export class SearchProviderService {
     });
 
     const baseUrl = this.config.searxngUrl!.replace(/\/+$/, '');
-    const response = await fetch(`${baseUrl}/search?${params}`);
+    const response = await this.http(`${baseUrl}/search?${params}`);
 
     if (!response.ok) throw new Error(`SearXNG API error: ${response.statusText}`);
 
@@ -578,7 +596,7 @@ export class SearchProviderService {
     const timeout = setTimeout(() => controller.abort(), 15_000);
 
     try {
-      const res = await fetch('https://api.tavily.com/search', {
+      const res = await this.http('https://api.tavily.com/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -621,7 +639,7 @@ export class SearchProviderService {
     const timeout = setTimeout(() => controller.abort(), 15_000);
 
     try {
-      const res = await fetch('https://api.firecrawl.dev/v1/search', {
+      const res = await this.http('https://api.firecrawl.dev/v1/search', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
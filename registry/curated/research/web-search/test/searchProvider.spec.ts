@@ -1,5 +1,8 @@
 // @ts-nocheck
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { SearchProviderService } from '../src/services/searchProvider';
 
 // Mock fetch
@@ -456,6 +459,66 @@ describe('SearchProviderService', () => {
     });
   });
 
+  describe('httpCache', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'search-cassette-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should replay recorded provider responses without network access', async () => {
+      const mockFetch = global.fetch as any;
+      mockFetch.mockResolvedValueOnce(Response.json({
+        organic: [{ title: 'Recorded', link: 'https://example.com/r', snippet: 'From the cassette', position: 1 }]
+      }));
+      const recorder = new SearchProviderService({ serperApiKey: 'k', httpCache: { dir, mode: 'record' } });
+      await recorder.search('cassettes', { provider: 'serper' });
+
+      mockFetch.mockReset();
+      const player = new SearchProviderService({ serperApiKey: 'k', httpCache: { dir, mode: 'replay' } });
+      const result = await player.search('cassettes', { provider: 'serper' });
+
+      expect(result.results[0].title).toBe('Recorded');
+      expect(mockFetch).not.toHaveBeenCalled();
+      await expect(player.search('something else', { provider: 'serper' })).rejects.toThrow('No recorded response');
+    });
+
+    it('should not write API keys from query strings to the cassette', async () => {
+      const mockFetch = global.fetch as any;
+      mockFetch.mockResolvedValueOnce(Response.json({ organic_results: [] }));
+      const recorder = new SearchProviderService({ serpApiKey: 'serp-secret', httpCache: { dir, mode: 'record' } });
+      await recorder.search('keys', { provider: 'serpapi' });
+
+      const [shard] = await readdir(dir);
+      const [file] = await readdir(join(dir, shard));
+      const entry = await readFile(join(dir, shard, file), 'utf-8');
+      expect(entry).not.toContain('serp-secret');
+
+      const player = new SearchProviderService({ serpApiKey: 'another-key', httpCache: { dir, mode: 'replay' } });
+      await expect(player.search('keys', { provider: 'serpapi' })).resolves.toMatchObject({ provider: 'serpapi' });
+    });
+
+    it('should replay Tavily searches recorded with a different API key in the body', async () => {
+      const mockFetch = global.fetch as any;
+      mockFetch.mockResolvedValueOnce(Response.json({
+        results: [{ title: 'Recorded', url: 'https://example.com/t', content: 'From the cassette', score: 1 }]
+      }));
+      const recorder = new SearchProviderService({ tavilyApiKey: 'tvly-secret', httpCache: { dir, mode: 'record' } });
+      await recorder.search('keys', { provider: 'tavily' });
+
+      mockFetch.mockReset();
+      const player = new SearchProviderService({ tavilyApiKey: 'tvly-other', httpCache: { dir, mode: 'replay' } });
+      const result = await player.search('keys', { provider: 'tavily' });
+
+      expect(result.results[0].title).toBe('Recorded');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getRecommendedProviders', () => {
     it('should return provider recommendations including SearXNG', () => {
       const providers = SearchProviderService.getRecommendedProviders();
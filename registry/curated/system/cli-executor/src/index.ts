@@ -20,6 +20,14 @@ import { FileWriteTool } from './tools/fileWrite.js';
 import { ListDirectoryTool } from './tools/listDir.js';
 import { CreateSpreadsheetTool } from './tools/createSpreadsheet.js';
 import { CreateDocumentTool } from './tools/createDocument.js';
+import { ProcessStartTool } from './tools/processStart.js';
+import { ProcessOutputTool } from './tools/processOutput.js';
+import { ProcessInputTool } from './tools/processInput.js';
+import { ProcessStatusTool } from './tools/processStatus.js';
+import { ProcessKillTool } from './tools/processKill.js';
+import { FileEditTool } from './tools/fileEdit.js';
+import { FileSnapshotsTool } from './tools/fileSnapshots.js';
+import { FileRestoreTool } from './tools/fileRestore.js';
 import type { ShellConfig } from './types.js';
 
 /**
@@ -95,6 +103,14 @@ export function createExtensionPack(context: {
       }
     : undefined;
 
+  // Only the agent workspace is writable inside the sandbox unless configured otherwise
+  const sandbox = options.sandbox
+    ? {
+        ...options.sandbox,
+        writableRoots: options.sandbox.writableRoots ?? (workspaceDir ? [workspaceDir] : []),
+      }
+    : undefined;
+
   // Initialize shell service with configuration
   const shellService = new ShellService({
     defaultShell: options.defaultShell,
@@ -106,6 +122,10 @@ export function createExtensionPack(context: {
     blockedCommands: options.blockedCommands,
     dangerouslySkipSecurityChecks: options.dangerouslySkipSecurityChecks,
     env: options.env,
+    sandbox,
+    backgroundOutputLimit: options.backgroundOutputLimit,
+    maxBackgroundProcesses: options.maxBackgroundProcesses,
+    snapshots: options.snapshots,
   });
 
   // Create tool instances
@@ -115,6 +135,14 @@ export function createExtensionPack(context: {
   const listDirectoryTool = new ListDirectoryTool(shellService);
   const createSpreadsheetTool = new CreateSpreadsheetTool();
   const createDocumentTool = new CreateDocumentTool();
+  const processStartTool = new ProcessStartTool(shellService);
+  const processOutputTool = new ProcessOutputTool(shellService);
+  const processInputTool = new ProcessInputTool(shellService);
+  const processStatusTool = new ProcessStatusTool(shellService);
+  const processKillTool = new ProcessKillTool(shellService);
+  const fileEditTool = new FileEditTool(shellService);
+  const fileSnapshotsTool = new FileSnapshotsTool(shellService);
+  const fileRestoreTool = new FileRestoreTool(shellService);
 
   return {
     name: '@framers/agentos-ext-cli-executor',
@@ -156,6 +184,54 @@ export function createExtensionPack(context: {
         priority: options.priority || 50,
         payload: createDocumentTool,
       },
+      {
+        id: processStartTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: processStartTool,
+      },
+      {
+        id: processOutputTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: processOutputTool,
+      },
+      {
+        id: processInputTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: processInputTool,
+      },
+      {
+        id: processStatusTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: processStatusTool,
+      },
+      {
+        id: processKillTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: processKillTool,
+      },
+      {
+        id: fileEditTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: fileEditTool,
+      },
+      {
+        id: fileSnapshotsTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: fileSnapshotsTool,
+      },
+      {
+        id: fileRestoreTool.name,
+        kind: 'tool',
+        priority: options.priority || 50,
+        payload: fileRestoreTool,
+      },
     ],
 
     /**
@@ -171,6 +247,12 @@ export function createExtensionPack(context: {
           await fs.mkdir(path.join(workspaceDir, sub), { recursive: true });
         }
       }
+      if (sandbox?.enabled) {
+        // Commands will fail while the sandbox is unavailable; say why up front
+        await shellService.checkSandbox().catch((error) => {
+          context.logger?.info(`CLI Executor: ${error.message}. Commands will be refused.`);
+        });
+      }
       context.logger?.info('CLI Executor Extension activated');
     },
 
@@ -178,6 +260,8 @@ export function createExtensionPack(context: {
      * Called when extension is deactivated
      */
     onDeactivate: async () => {
+      // Don't leave dev servers or watchers running after the agent is gone
+      await shellService.shutdown();
       if (context.onDeactivate) {
         await context.onDeactivate();
       }
@@ -194,6 +278,25 @@ export { FileWriteTool } from './tools/fileWrite.js';
 export { ListDirectoryTool } from './tools/listDir.js';
 export { CreateSpreadsheetTool } from './tools/createSpreadsheet.js';
 export { CreateDocumentTool } from './tools/createDocument.js';
+export { ProcessStartTool } from './tools/processStart.js';
+export { ProcessOutputTool } from './tools/processOutput.js';
+export { ProcessInputTool } from './tools/processInput.js';
+export { ProcessStatusTool } from './tools/processStatus.js';
+export { ProcessKillTool } from './tools/processKill.js';
+export { FileEditTool } from './tools/fileEdit.js';
+export { FileSnapshotsTool } from './tools/fileSnapshots.js';
+export { FileRestoreTool } from './tools/fileRestore.js';
+export { OutputBuffer } from './services/outputBuffer.js';
+export { EditConflictError, applyUnifiedDiff, applySearchReplace } from './services/patch.js';
+export { FileSnapshotStore, SNAPSHOT_DIR } from './services/snapshotStore.js';
+export {
+  SandboxUnavailableError,
+  DEFAULT_SANDBOX_LIMITS,
+  SANDBOX_SYSTEM_PATHS,
+  buildSandboxCommand,
+  buildSandboxEnv,
+  probeSandbox,
+} from './services/sandbox.js';
 export * from './types.js';
 
 // Default export for convenience
@@ -0,0 +1,64 @@
+// @ts-nocheck
+/**
+ * Output Buffer
+ * Bounded ring buffer for background process output.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+/**
+ * Keeps the most recent `limit` characters of a stream. Offsets count every
+ * character ever appended, so readers can resume where they left off and
+ * tell when output they have not seen was dropped.
+ */
+export class OutputBuffer {
+  private chunks: string[] = [];
+  private size = 0;
+  private total = 0;
+
+  constructor(private readonly limit: number) {}
+
+  /** Offset just past the last character written */
+  get end(): number {
+    return this.total;
+  }
+
+  /** Offset of the oldest character still held */
+  get start(): number {
+    return this.total - this.size;
+  }
+
+  append(text: string): void {
+    if (!text) return;
+    this.chunks.push(text);
+    this.size += text.length;
+    this.total += text.length;
+
+    while (this.size > this.limit) {
+      const excess = this.size - this.limit;
+      const first = this.chunks[0];
+      if (first.length <= excess) {
+        this.chunks.shift();
+        this.size -= first.length;
+      } else {
+        this.chunks[0] = first.slice(excess);
+        this.size -= excess;
+      }
+    }
+  }
+
+  /**
+   * Output written after `offset`, the offset to resume from, and whether
+   * part of it was already dropped.
+   */
+  read(offset = 0): { text: string; offset: number; truncated: boolean } {
+    const held = this.chunks.join('');
+    // Reads are frequent while a process streams, so keep the joined form
+    this.chunks = held ? [held] : [];
+    return {
+      text: held.slice(Math.max(0, offset - this.start)),
+      offset: this.total,
+      truncated: offset < this.start,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+// @ts-nocheck
+/**
+ * Patch
+ * Applies unified diffs and search/replace blocks to file content.
+ *
+ * Both forms are all-or-nothing: every hunk or block is checked against the
+ * current content, and if any of them does not match, nothing is applied and
+ * an {@link EditConflictError} lists each mismatch.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { SearchReplaceEdit } from '../types.js';
+
+/**
+ * Thrown when an edit does not match the file it is applied to
+ */
+export class EditConflictError extends Error {
+  constructor(public readonly conflicts: string[]) {
+    super(`Edit does not apply cleanly:\n${conflicts.map((c) => `- ${c}`).join('\n')}`);
+    this.name = 'EditConflictError';
+  }
+}
+
+/**
+ * Apply search/replace blocks in order. Each `search` must match exactly
+ * once, unless `replaceAll` is set, in which case it must match at least once.
+ *
+ * @returns The edited content and the number of replacements made
+ */
+export function applySearchReplace(
+  content: string,
+  edits: SearchReplaceEdit[]
+): { content: string; changes: number } {
+  const conflicts: string[] = [];
+  let changes = 0;
+
+  edits.forEach((edit, i) => {
+    if (!edit.search) {
+      conflicts.push(`edit ${i + 1}: search text is empty`);
+      return;
+    }
+    const matches = content.split(edit.search).length - 1;
+    if (matches === 0) {
+      conflicts.push(`edit ${i + 1}: search text not found: ${preview(edit.search)}`);
+    } else if (matches > 1 && !edit.replaceAll) {
+      conflicts.push(
+        `edit ${i + 1}: search text matches ${matches} times; include more context or set replaceAll: ${preview(edit.search)}`,
+      );
+    } else {
+      // Split/join rather than String#replace, so `$` in the replacement is literal
+      content = content.split(edit.search).join(edit.replace);
+      changes += matches;
+    }
+  });
+
+  if (conflicts.length > 0) throw new EditConflictError(conflicts);
+  return { content, changes };
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  /** "\ No newline at end of file" followed a line of the new side */
+  newNoFinalNewline: boolean;
+}
+
+/**
+ * Apply a unified diff (as produced by `diff -u` or `git diff`) for a single
+ * file. File headers are ignored. Hunks whose line numbers are off are
+ * applied at the nearest position where their context and removed lines
+ * match exactly.
+ *
+ * @returns The patched content and the number of hunks applied
+ */
+export function applyUnifiedDiff(content: string, diff: string): { content: string; changes: number } {
+  const hunks = parseHunks(diff);
+  if (hunks.length === 0) {
+    throw new EditConflictError(['diff contains no hunks (expected "@@ -a,b +c,d @@" headers)']);
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  let finalNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  if (content.endsWith('\n')) lines.pop();
+
+  const conflicts: string[] = [];
+  let offset = 0;
+  let minStart = 0;
+
+  for (const hunk of hunks) {
+    // A pure insertion at "-N,0" goes after line N; otherwise line N is the first old line
+    const expected = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = findHunk(lines, hunk.oldLines, Math.max(minStart, expected + offset), minStart);
+    if (at === -1) {
+      conflicts.push(`hunk ${hunk.header}: context does not match the current file`);
+      continue;
+    }
+
+    const reachesEnd = at + hunk.oldLines.length === lines.length;
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+    minStart = at + hunk.newLines.length;
+
+    // A hunk ending at EOF says whether the new file ends with a newline
+    if (reachesEnd) finalNewline = !hunk.newNoFinalNewline;
+  }
+
+  if (conflicts.length > 0) throw new EditConflictError(conflicts);
+
+  const joined = lines.join(eol);
+  return { content: joined && finalNewline ? joined + eol : joined, changes: hunks.length };
+}
+
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let last: ' ' | '-' | '+' | null = null;
+
+  for (const raw of diff.replace(/\r?\n$/, '').split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const header = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/.exec(line);
+    if (header) {
+      current = {
+        header: header[0],
+        oldStart: Number(header[1]),
+        oldLines: [],
+        newLines: [],
+        newNoFinalNewline: false,
+      };
+      hunks.push(current);
+      oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+      newRemaining = header[3] === undefined ? 1 : Number(header[3]);
+      last = null;
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('\\')) {
+      if (last === '+' || last === ' ') current.newNoFinalNewline = true;
+      continue;
+    }
+    // Counts from the header tell where the hunk ends, so "--- "/"+++ " lines inside it are content
+    if (oldRemaining === 0 && newRemaining === 0) {
+      if (line.startsWith('+++ ')) {
+        throw new EditConflictError(['diff changes more than one file; edit one file at a time']);
+      }
+      // Dropping lines past the counts would apply only part of the change
+      if (/^[-+ ]/.test(line) && !line.startsWith('--- ')) {
+        throw new EditConflictError([
+          `hunk ${current.header}: has more lines than its header counts; fix the counts or split the hunk`,
+        ]);
+      }
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+      oldRemaining--;
+      last = '-';
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+      newRemaining--;
+      last = '+';
+    } else {
+      // Some tools strip the space from empty context lines
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+      oldRemaining--;
+      newRemaining--;
+      last = ' ';
+    }
+  }
+
+  return hunks;
+}
+
+/** Index of the match of `needle` nearest to `expected`, not before `min`; -1 if none */
+function findHunk(lines: string[], needle: string[], expected: number, min: number): number {
+  const matchesAt = (i: number) => needle.every((line, j) => lines[i + j] === line);
+  const max = lines.length - needle.length;
+  if (max < min) return -1;
+
+  const start = Math.min(Math.max(expected, min), max);
+  for (let distance = 0; start - distance >= min || start + distance <= max; distance++) {
+    if (start + distance <= max && matchesAt(start + distance)) return start + distance;
+    if (distance > 0 && start - distance >= min && matchesAt(start - distance)) return start - distance;
+  }
+  return -1;
+}
+
+function preview(text: string): string {
+  const firstLine = text.split('\n')[0];
+  return JSON.stringify(firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine);
+}
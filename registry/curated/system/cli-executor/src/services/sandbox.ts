@@ -0,0 +1,143 @@
+// @ts-nocheck
+/**
+ * Sandbox
+ * Runs commands inside Linux namespaces with resource limits.
+ *
+ * Commands are wrapped in bubblewrap (`bwrap`), which unshares the user,
+ * PID, IPC, UTS, cgroup and (unless allowed) network namespaces, mounts
+ * only the system directories, the working directory and the configured
+ * roots (read-only unless writable), and gives the command a private `/tmp`
+ * and a minimal environment. Inside, util-linux `prlimit` applies CPU-time,
+ * address-space and process-count limits; wall-clock time is the regular
+ * command timeout, or `backgroundTimeoutMs` for background commands.
+ * Killing the bwrap process tears down the whole PID namespace.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import type { SandboxConfig } from '../types.js';
+
+/** Limits used when the sandbox config leaves them unset */
+export const DEFAULT_SANDBOX_LIMITS = {
+  cpuSeconds: 60,
+  memoryMb: 1024,
+  maxProcesses: 256,
+  backgroundTimeoutMs: 30 * 60 * 1000,
+} as const;
+
+/** Host directories mounted read-only: programs, libraries and configuration */
+export const SANDBOX_SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc'];
+
+/** Host variables passed into the sandbox; everything else must be set via `env` */
+const SANDBOX_ENV_VARS = ['PATH', 'LANG', 'LC_ALL', 'TERM', 'TZ'];
+
+/**
+ * Thrown when the host cannot run the sandbox (not Linux, bwrap or prlimit
+ * missing, or unprivileged user namespaces disabled)
+ */
+export class SandboxUnavailableError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Sandbox unavailable: ${reason}`);
+    this.name = 'SandboxUnavailableError';
+  }
+}
+
+/**
+ * Environment for a sandboxed command: a few host variables (locale, `PATH`)
+ * plus the configured ones. Host secrets such as API keys stay outside.
+ */
+export function buildSandboxEnv(...extra: Array<Record<string, string> | undefined>): Record<string, string> {
+  const env: Record<string, string> = { HOME: '/tmp', TMPDIR: '/tmp' };
+  for (const name of SANDBOX_ENV_VARS) {
+    if (process.env[name] !== undefined) env[name] = process.env[name]!;
+  }
+  return Object.assign(env, ...extra);
+}
+
+/**
+ * Build the bwrap invocation that runs `command` with `shellPath -c` in the
+ * sandbox
+ */
+export function buildSandboxCommand(
+  command: string,
+  shellPath: string,
+  options: { cwd: string; sandbox: SandboxConfig }
+): { file: string; args: string[] } {
+  const { sandbox } = options;
+  const cpuSeconds = sandbox.cpuSeconds ?? DEFAULT_SANDBOX_LIMITS.cpuSeconds;
+  const memoryMb = sandbox.memoryMb ?? DEFAULT_SANDBOX_LIMITS.memoryMb;
+  const maxProcesses = sandbox.maxProcesses ?? DEFAULT_SANDBOX_LIMITS.maxProcesses;
+
+  const args = [
+    '--unshare-all',
+    ...(sandbox.network ? ['--share-net'] : []),
+    '--die-with-parent',
+    '--new-session',
+  ];
+  // `-try` skips paths this host lacks (e.g. /lib64 on 32-bit systems)
+  for (const dir of SANDBOX_SYSTEM_PATHS) args.push('--ro-bind-try', dir, dir);
+  args.push(
+    '--dev', '/dev',
+    '--proc', '/proc',
+    '--tmpfs', '/tmp',
+  );
+  const readOnlyRoots = (sandbox.readOnlyRoots ?? []).map((root) => path.resolve(root));
+  const writableRoots = (sandbox.writableRoots ?? []).map((root) => path.resolve(root));
+  // The working directory stays readable when no other mount covers it
+  const cwd = path.resolve(options.cwd);
+  const covers = (dir: string) => cwd === dir || cwd.startsWith(`${dir}/`);
+  if (cwd !== '/' && cwd !== '/tmp' && ![...SANDBOX_SYSTEM_PATHS, ...readOnlyRoots, ...writableRoots].some(covers)) {
+    args.push('--ro-bind', cwd, cwd);
+  }
+  for (const root of readOnlyRoots) args.push('--ro-bind', root, root);
+  for (const root of writableRoots) args.push('--bind', root, root);
+  args.push(
+    '--chdir', options.cwd,
+    '--',
+    'prlimit',
+    `--cpu=${cpuSeconds}`,
+    `--as=${memoryMb * 1024 * 1024}`,
+    `--nproc=${maxProcesses}`,
+    '--',
+    shellPath, '-c', command,
+  );
+
+  return { file: 'bwrap', args };
+}
+
+/**
+ * Check that this host can run the sandbox by starting a trivial command in
+ * it. Rejects with a {@link SandboxUnavailableError} naming what is missing.
+ */
+export async function probeSandbox(): Promise<void> {
+  if (process.platform !== 'linux') {
+    throw new SandboxUnavailableError(`requires Linux namespaces, but this host is ${process.platform}`);
+  }
+
+  const { file, args } = buildSandboxCommand('true', '/bin/sh', {
+    cwd: '/',
+    sandbox: { cpuSeconds: 5, maxProcesses: DEFAULT_SANDBOX_LIMITS.maxProcesses },
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    execFile(file, args, { timeout: 10000 }, (error: any, _stdout, stderr) => {
+      if (!error) return resolve();
+
+      const message = String(stderr || error.message).trim();
+      if (error.code === 'ENOENT') {
+        reject(new SandboxUnavailableError('bubblewrap (bwrap) is not installed'));
+      } else if (/prlimit/.test(message)) {
+        reject(new SandboxUnavailableError(`prlimit (util-linux) is not usable inside the sandbox: ${message}`));
+      } else if (/namespace|permission|operation not permitted/i.test(message)) {
+        reject(new SandboxUnavailableError(
+          `the kernel does not allow unprivileged user namespaces (${message}); ` +
+          'enable them (e.g. sysctl kernel.unprivileged_userns_clone=1) or run in a host that does',
+        ));
+      } else {
+        reject(new SandboxUnavailableError(message));
+      }
+    });
+  });
+}
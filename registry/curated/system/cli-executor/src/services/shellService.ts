@@ -6,7 +6,7 @@
  * @module @framers/agentos-ext-cli-executor
  */
 
-import { exec, spawn } from 'child_process';
+import { exec, execFile, spawn, type ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -23,9 +23,22 @@ import type {
   ListDirectoryResult,
   DirectoryEntry,
   SecurityCheckResult,
+  BackgroundProcessOptions,
+  BackgroundProcessInfo,
+  ProcessOutputOptions,
+  ProcessOutputResult,
+  FileEditOptions,
+  FileEditResult,
+  FileSnapshot,
+  FileRestoreResult,
 } from '../types.js';
+import { OutputBuffer } from './outputBuffer.js';
+import { buildSandboxCommand, buildSandboxEnv, DEFAULT_SANDBOX_LIMITS, probeSandbox } from './sandbox.js';
+import { FileSnapshotStore, SNAPSHOT_DIR } from './snapshotStore.js';
+import { applySearchReplace, applyUnifiedDiff } from './patch.js';
 
 const execPromise = promisify(exec);
+const execFilePromise = promisify(execFile);
 
 /**
  * Dangerous command patterns to block by default
@@ -46,11 +59,36 @@ const DANGEROUS_PATTERNS = [
   /chown\s+.+:\s*\//i,                      // chown root /
 ];
 
+/** Finished background processes kept for status and output reads */
+const MAX_FINISHED_PROCESSES = 20;
+
+/** Time a process group gets to exit after SIGTERM before SIGKILL */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * A background process and its bounded output
+ */
+interface BackgroundProcess {
+  info: Omit<BackgroundProcessInfo, 'duration'>;
+  child: ChildProcess;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  /** Resolves once the process has exited and its output is drained */
+  exited: Promise<void>;
+  /** Readers waiting for new output or exit */
+  waiters: Set<() => void>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
 /**
  * Shell service for executing commands
  */
 export class ShellService {
   private config: ShellConfig;
+  private processes = new Map<string, BackgroundProcess>();
+  private nextProcessId = 1;
+  private sandboxCheck: Promise<void> | null = null;
+  private snapshots: FileSnapshotStore;
 
   constructor(config: ShellConfig = {}) {
     this.config = {
@@ -60,6 +98,7 @@ export class ShellService {
       dangerouslySkipSecurityChecks: false,
       ...config,
     };
+    this.snapshots = new FileSnapshotStore(this.config.snapshots?.maxPerFile ?? 20);
   }
 
   /**
@@ -135,8 +174,15 @@ export class ShellService {
     }
   }
 
-  private async assertFilesystemAllowed(op: 'read' | 'write' | 'list', absolutePath: string): Promise<void> {
-    if (!this.isFilesystemPolicyEnabled()) return;
+  /**
+   * Throws unless the policy allows `op` on the path. Returns the innermost
+   * matching root and the symlink-resolved path (undefined without a policy).
+   */
+  private async assertFilesystemAllowed(
+    op: 'read' | 'write' | 'list',
+    absolutePath: string
+  ): Promise<{ root: string; resolvedPath: string } | undefined> {
+    if (!this.isFilesystemPolicyEnabled()) return undefined;
 
     const policy = this.config.filesystem!;
     const allow =
@@ -165,10 +211,12 @@ export class ShellService {
     );
 
     const authPath = await this.resolvePathForAuthorization(absolutePath, op);
-    const allowed = roots.some((root) => this.isWithinRoot(authPath, root));
-    if (!allowed) {
+    const matching = roots.filter((root) => this.isWithinRoot(authPath, root));
+    if (matching.length === 0) {
       throw new Error(`Path is outside allowed filesystem ${op} roots: ${absolutePath}`);
     }
+    const root = matching.reduce((a, b) => (b.length > a.length ? b : a));
+    return { root, resolvedPath: authPath };
   }
 
   /**
@@ -189,6 +237,25 @@ export class ShellService {
     }
   }
 
+  /** Shell binary passed to child_process */
+  private shellPath(shell: string): string {
+    return shell === 'powershell' ? 'powershell.exe' : shell;
+  }
+
+  private isSandboxed(): boolean {
+    return this.config.sandbox?.enabled === true;
+  }
+
+  /**
+   * Verify the host can run the sandbox. The first check is cached, so a
+   * host without the needed kernel features fails fast on every command.
+   * Rejects with a SandboxUnavailableError.
+   */
+  checkSandbox(): Promise<void> {
+    if (!this.sandboxCheck) this.sandboxCheck = probeSandbox();
+    return this.sandboxCheck;
+  }
+
   /**
    * Check if a command is safe to execute
    */
@@ -299,16 +366,48 @@ export class ShellService {
       };
     }
 
-    try {
-      const env = { ...process.env, ...this.config.env, ...options?.env };
+    const sandboxed = this.isSandboxed();
+    if (sandboxed) {
+      try {
+        await this.checkSandbox();
+      } catch (error: any) {
+        // Never fall back to running the command unsandboxed
+        return {
+          command,
+          exitCode: 1,
+          stdout: '',
+          stderr: error.message,
+          duration: 0,
+          success: false,
+          cwd,
+          shell,
+          sandboxed,
+        };
+      }
+    }
 
-      const { stdout, stderr } = await execPromise(command, {
+    try {
+      const env = sandboxed
+        ? buildSandboxEnv(this.config.env, options?.env)
+        : { ...process.env, ...this.config.env, ...options?.env };
+      const execOptions = {
         cwd,
         env,
         timeout,
-        shell: shell === 'powershell' ? 'powershell.exe' : shell,
         maxBuffer: 10 * 1024 * 1024, // 10MB
-      });
+      };
+
+      let output: { stdout: string | Buffer; stderr: string | Buffer };
+      if (sandboxed) {
+        const { file, args } = buildSandboxCommand(command, this.shellPath(shell), {
+          cwd,
+          sandbox: this.config.sandbox!,
+        });
+        output = await execFilePromise(file, args, execOptions);
+      } else {
+        output = await execPromise(command, { ...execOptions, shell: this.shellPath(shell) });
+      }
+      const { stdout, stderr } = output;
 
       return {
         command,
@@ -319,6 +418,7 @@ export class ShellService {
         success: true,
         cwd,
         shell,
+        ...(sandboxed && { sandboxed }),
       };
     } catch (error: any) {
       return {
@@ -330,6 +430,7 @@ export class ShellService {
         success: false,
         cwd,
         shell,
+        ...(sandboxed && { sandboxed }),
       };
     }
   }
@@ -341,11 +442,43 @@ export class ShellService {
     scriptPath: string,
     options?: ScriptOptions
   ): Promise<ScriptResult> {
-    const startTime = Date.now();
     const cwd = options?.cwd || this.config.workingDirectory || process.cwd();
     const timeout = options?.timeout || this.config.timeout || 60000;
+    const { command, interpreter } = this.scriptCommand(scriptPath, options);
+
+    const result = await this.execute(command, { cwd, env: options?.env, timeout });
 
-    // Detect interpreter from file extension if not specified
+    return {
+      ...result,
+      scriptPath,
+      interpreter,
+    };
+  }
+
+  /**
+   * Start a script file as a background process
+   */
+  async startScript(
+    scriptPath: string,
+    options?: ScriptOptions
+  ): Promise<BackgroundProcessInfo & { scriptPath: string; interpreter: string }> {
+    const { command, interpreter } = this.scriptCommand(scriptPath, options);
+    const info = await this.startBackground(command, {
+      cwd: options?.cwd,
+      env: options?.env,
+      timeout: options?.timeout,
+    });
+    return { ...info, scriptPath, interpreter };
+  }
+
+  /**
+   * Build the command line for a script, detecting the interpreter from the
+   * file extension if not specified
+   */
+  private scriptCommand(
+    scriptPath: string,
+    options?: ScriptOptions
+  ): { command: string; interpreter: string } {
     let interpreter = options?.interpreter;
     if (!interpreter) {
       const ext = path.extname(scriptPath).toLowerCase();
@@ -362,17 +495,274 @@ export class ShellService {
     }
 
     const args = options?.args || [];
-    const command = `${interpreter} "${scriptPath}" ${args.join(' ')}`;
+    return { command: `${interpreter} "${scriptPath}" ${args.join(' ')}`, interpreter };
+  }
 
-    const result = await this.execute(command, { cwd, env: options?.env, timeout });
+  /**
+   * Start a command in the background and return its handle immediately.
+   * The command runs in its own process group so it can be killed together
+   * with anything it spawns. Unlike execute(), there is no default timeout
+   * unless the sandbox is enabled, whose `backgroundTimeoutMs` applies.
+   */
+  async startBackground(
+    command: string,
+    options?: BackgroundProcessOptions
+  ): Promise<BackgroundProcessInfo> {
+    const shell = this.detectShell();
+    const cwd = options?.cwd || this.config.workingDirectory || process.cwd();
+
+    const securityCheck = this.checkSecurity(command);
+    if (!securityCheck.allowed) {
+      throw new Error(`Security violation: ${securityCheck.reason}`);
+    }
+
+    const limit = this.config.maxBackgroundProcesses ?? 8;
+    const running = [...this.processes.values()].filter((p) => p.info.status === 'running').length;
+    if (running >= limit) {
+      throw new Error(`Too many background processes running (limit ${limit})`);
+    }
+
+    const sandboxed = this.isSandboxed();
+    if (sandboxed) await this.checkSandbox();
+
+    let timeout = options?.timeout;
+    if (sandboxed) {
+      const limit = this.config.sandbox!.backgroundTimeoutMs ?? DEFAULT_SANDBOX_LIMITS.backgroundTimeoutMs;
+      timeout = Math.min(timeout ?? limit, limit);
+    }
+
+    const spawnOptions = {
+      cwd,
+      env: sandboxed
+        ? buildSandboxEnv(this.config.env, options?.env)
+        : { ...process.env, ...this.config.env, ...options?.env },
+      // Own process group (POSIX), so killing it also reaches grandchildren
+      detached: process.platform !== 'win32',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      windowsHide: true,
+    };
+    let child: ChildProcess;
+    if (sandboxed) {
+      const { file, args } = buildSandboxCommand(command, this.shellPath(shell), {
+        cwd,
+        sandbox: this.config.sandbox!,
+      });
+      child = spawn(file, args, spawnOptions);
+    } else {
+      child = spawn(command, { ...spawnOptions, shell: this.shellPath(shell) });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+
+    const bufferSize = this.config.backgroundOutputLimit ?? 1024 * 1024;
+    const proc: BackgroundProcess = {
+      info: {
+        id: `proc-${this.nextProcessId++}`,
+        command,
+        pid: child.pid!,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        startedAt: new Date().toISOString(),
+        cwd,
+        shell,
+        ...(sandboxed && { sandboxed }),
+      },
+      child,
+      stdout: new OutputBuffer(bufferSize),
+      stderr: new OutputBuffer(bufferSize),
+      exited: undefined as any,
+      waiters: new Set(),
+    };
+
+    const notify = () => {
+      for (const wake of proc.waiters) wake();
+      proc.waiters.clear();
+    };
+    child.stdout!.setEncoding('utf8');
+    child.stderr!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => { proc.stdout.append(chunk); notify(); });
+    child.stderr!.on('data', (chunk: string) => { proc.stderr.append(chunk); notify(); });
+    // Writes to a process that stopped reading fail here rather than crash the host
+    child.stdin!.on('error', () => {});
+    child.on('error', (error) => { proc.stderr.append(`${error.message}\n`); notify(); });
+
+    // 'close' rather than 'exit': output may still be in the pipes when the shell exits
+    proc.exited = new Promise<void>((resolve) => {
+      child.once('close', (code, signal) => {
+        if (proc.timer) clearTimeout(proc.timer);
+        proc.info.exitCode = code;
+        proc.info.signal = signal;
+        proc.info.endedAt = new Date().toISOString();
+        if (proc.info.status === 'running') proc.info.status = 'exited';
+        resolve();
+        notify();
+      });
+    });
+
+    if (timeout) {
+      proc.timer = setTimeout(() => {
+        void this.terminate(proc, 'timed_out');
+      }, timeout);
+      proc.timer.unref?.();
+    }
+
+    this.pruneFinishedProcesses();
+    this.processes.set(proc.info.id, proc);
+    return this.describe(proc);
+  }
+
+  /**
+   * Status of a background process
+   */
+  getProcess(id: string): BackgroundProcessInfo {
+    return this.describe(this.requireProcess(id));
+  }
+
+  /**
+   * Status of all tracked background processes, oldest first
+   */
+  listProcesses(): BackgroundProcessInfo[] {
+    return [...this.processes.values()].map((proc) => this.describe(proc));
+  }
+
+  /**
+   * Read output written since the given offsets. With `waitMs`, waits for
+   * new output or exit first when there is none yet.
+   */
+  async readProcessOutput(id: string, options?: ProcessOutputOptions): Promise<ProcessOutputResult> {
+    const proc = this.requireProcess(id);
+    const stdoutOffset = options?.stdoutOffset ?? 0;
+    const stderrOffset = options?.stderrOffset ?? 0;
+
+    const hasNewOutput = () => proc.stdout.end > stdoutOffset || proc.stderr.end > stderrOffset;
+    if (options?.waitMs && proc.info.status === 'running' && !hasNewOutput()) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, options.waitMs);
+        function done() {
+          clearTimeout(timer);
+          proc.waiters.delete(done);
+          resolve();
+        }
+        proc.waiters.add(done);
+      });
+    }
 
+    const stdout = proc.stdout.read(stdoutOffset);
+    const stderr = proc.stderr.read(stderrOffset);
     return {
-      ...result,
-      scriptPath,
-      interpreter,
+      ...this.describe(proc),
+      stdout: stdout.text,
+      stderr: stderr.text,
+      stdoutOffset: stdout.offset,
+      stderrOffset: stderr.offset,
+      truncated: stdout.truncated || stderr.truncated,
     };
   }
 
+  /**
+   * Write to a background process's stdin; `end` closes it afterwards
+   */
+  async writeProcessInput(
+    id: string,
+    data: string,
+    options?: { end?: boolean }
+  ): Promise<{ id: string; bytesWritten: number }> {
+    const proc = this.requireProcess(id);
+    const stdin = proc.child.stdin;
+    if (proc.info.status !== 'running' || !stdin || !stdin.writable) {
+      throw new Error(`Background process ${id} is not accepting input`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(data, (err) => (err ? reject(err) : resolve()));
+    });
+    if (options?.end) stdin.end();
+
+    return { id, bytesWritten: Buffer.byteLength(data) };
+  }
+
+  /**
+   * Kill a background process and its process group. SIGTERM (or the given
+   * signal) first, then SIGKILL if it has not exited after a grace period.
+   */
+  async killProcess(id: string, signal: NodeJS.Signals = 'SIGTERM'): Promise<BackgroundProcessInfo> {
+    const proc = this.requireProcess(id);
+    await this.terminate(proc, 'killed', signal);
+    return this.describe(proc);
+  }
+
+  /**
+   * Kill every running background process group and wait for them to exit.
+   * Call when the extension is deactivated.
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all(
+      [...this.processes.values()].map((proc) => this.terminate(proc, 'killed')),
+    );
+  }
+
+  private requireProcess(id: string): BackgroundProcess {
+    const proc = this.processes.get(id);
+    if (!proc) {
+      throw new Error(`Unknown background process: ${id}`);
+    }
+    return proc;
+  }
+
+  private describe(proc: BackgroundProcess): BackgroundProcessInfo {
+    const end = proc.info.endedAt ? Date.parse(proc.info.endedAt) : Date.now();
+    return { ...proc.info, duration: end - Date.parse(proc.info.startedAt) };
+  }
+
+  private async terminate(
+    proc: BackgroundProcess,
+    status: 'killed' | 'timed_out',
+    signal: NodeJS.Signals = 'SIGTERM'
+  ): Promise<void> {
+    if (proc.info.status !== 'running') return;
+    proc.info.status = status;
+
+    this.signalGroup(proc, signal);
+    if (await this.waitForExit(proc, KILL_GRACE_MS)) return;
+    this.signalGroup(proc, 'SIGKILL');
+    await this.waitForExit(proc, KILL_GRACE_MS);
+  }
+
+  private signalGroup(proc: BackgroundProcess, signal: NodeJS.Signals): void {
+    try {
+      if (process.platform === 'win32') {
+        // No process groups; taskkill /T walks the process tree instead
+        spawn('taskkill', ['/pid', String(proc.info.pid), '/T', '/F'], { windowsHide: true });
+      } else {
+        process.kill(-proc.info.pid, signal);
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  private async waitForExit(proc: BackgroundProcess, ms: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), ms);
+    });
+    const exited = await Promise.race([proc.exited.then(() => true), timedOut]);
+    clearTimeout(timer);
+    return exited;
+  }
+
+  /** Drop the oldest finished processes beyond MAX_FINISHED_PROCESSES */
+  private pruneFinishedProcesses(): void {
+    const finished = [...this.processes.values()].filter((p) => p.info.status !== 'running');
+    for (const proc of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_PROCESSES))) {
+      this.processes.delete(proc.info.id);
+    }
+  }
+
   /**
    * Read a file
    */
@@ -446,7 +836,8 @@ export class ShellService {
     const encoding = options?.encoding || 'utf-8';
     const absolutePath = this.resolveAbsolutePath(filePath);
 
-    await this.assertFilesystemAllowed('write', absolutePath);
+    const allowed = await this.assertFilesystemAllowed('write', absolutePath);
+    this.assertNotSnapshotPath(allowed, filePath);
 
     // Check if file exists
     let fileExists = true;
@@ -456,6 +847,10 @@ export class ShellService {
       fileExists = false;
     }
 
+    const snapshot = fileExists
+      ? await this.snapshotBeforeWrite(allowed, options?.append ? 'append' : 'write')
+      : undefined;
+
     // Create parent directories if needed
     if (options?.createDirs) {
       await fs.mkdir(path.dirname(absolutePath), { recursive: true });
@@ -473,9 +868,122 @@ export class ShellService {
       bytesWritten: Buffer.byteLength(content, encoding),
       created: !fileExists,
       appended: options?.append || false,
+      ...(snapshot && { snapshotVersion: snapshot.version }),
     };
   }
 
+  /**
+   * Edit a text file with a unified diff or search/replace blocks. Nothing
+   * is written unless every hunk or block applies (EditConflictError).
+   */
+  async editFile(filePath: string, options: FileEditOptions): Promise<FileEditResult> {
+    const hasDiff = typeof options.diff === 'string';
+    const hasEdits = Array.isArray(options.edits);
+    if (hasDiff === hasEdits) {
+      throw new Error('Provide either a unified diff or search/replace edits');
+    }
+
+    const absolutePath = this.resolveAbsolutePath(filePath);
+    const allowed = await this.assertFilesystemAllowed('write', absolutePath);
+    this.assertNotSnapshotPath(allowed, filePath);
+
+    const original = await fs.readFile(absolutePath, 'utf-8');
+    const { content, changes } = hasDiff
+      ? applyUnifiedDiff(original, options.diff!)
+      : applySearchReplace(original, options.edits!);
+
+    const result: FileEditResult = {
+      path: absolutePath,
+      mode: hasDiff ? 'diff' : 'search_replace',
+      changes,
+      bytesWritten: 0,
+      dryRun: options.dryRun === true,
+    };
+    if (options.dryRun) return result;
+
+    const snapshot = await this.snapshotBeforeWrite(allowed, 'edit');
+    await fs.writeFile(absolutePath, content, 'utf-8');
+
+    return {
+      ...result,
+      bytesWritten: Buffer.byteLength(content),
+      ...(snapshot && { snapshotVersion: snapshot.version }),
+    };
+  }
+
+  /**
+   * Prior versions of a file inside the write roots, newest first
+   */
+  async listSnapshots(filePath: string): Promise<FileSnapshot[]> {
+    const absolutePath = this.resolveAbsolutePath(filePath);
+    const allowed = this.requireSnapshotRoot(await this.assertFilesystemAllowed('write', absolutePath));
+    const snapshots = await this.snapshots.list(allowed.root, allowed.resolvedPath);
+    return snapshots.map((snapshot) => ({ ...snapshot, path: absolutePath }));
+  }
+
+  /**
+   * Restore a prior version of a file. The content it replaces is
+   * snapshotted first, so a restore can itself be undone.
+   */
+  async restoreSnapshot(filePath: string, version: number): Promise<FileRestoreResult> {
+    const absolutePath = this.resolveAbsolutePath(filePath);
+    const allowed = this.requireSnapshotRoot(await this.assertFilesystemAllowed('write', absolutePath));
+    this.assertNotSnapshotPath(allowed, filePath);
+    const content = await this.snapshots.read(allowed.root, allowed.resolvedPath, version);
+
+    let snapshot: FileSnapshot | undefined;
+    try {
+      await fs.access(absolutePath);
+      snapshot = await this.snapshotBeforeWrite(allowed, 'restore');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      // Restoring a deleted file
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    }
+    await fs.writeFile(absolutePath, content);
+
+    return {
+      path: absolutePath,
+      restoredVersion: version,
+      bytesWritten: content.length,
+      ...(snapshot && { snapshotVersion: snapshot.version }),
+    };
+  }
+
+  private snapshotsEnabled(): boolean {
+    return this.config.snapshots?.enabled !== false;
+  }
+
+  private requireSnapshotRoot(
+    allowed: { root: string; resolvedPath: string } | undefined
+  ): { root: string; resolvedPath: string } {
+    if (!allowed || !this.snapshotsEnabled()) {
+      throw new Error('File snapshots require a filesystem policy with writeRoots and snapshots enabled');
+    }
+    return allowed;
+  }
+
+  /** Snapshots are the undo history; the file tools must not rewrite them */
+  private assertNotSnapshotPath(
+    allowed: { root: string; resolvedPath: string } | undefined,
+    filePath: string
+  ): void {
+    if (allowed && this.snapshots.isSnapshotPath(allowed.root, allowed.resolvedPath)) {
+      throw new Error(`Writing inside the ${SNAPSHOT_DIR} directory is not allowed: ${filePath}`);
+    }
+  }
+
+  /** Snapshot the current content of a file in a write root before it is replaced */
+  private async snapshotBeforeWrite(
+    allowed: { root: string; resolvedPath: string } | undefined,
+    reason: FileSnapshot['reason']
+  ): Promise<FileSnapshot | undefined> {
+    if (!allowed || !this.snapshotsEnabled()) return undefined;
+
+    const current = await fs.readFile(allowed.resolvedPath);
+    return this.snapshots.save(allowed.root, allowed.resolvedPath, current, reason);
+  }
+
   /**
    * List directory contents
    */
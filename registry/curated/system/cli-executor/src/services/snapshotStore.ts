@@ -0,0 +1,135 @@
+// @ts-nocheck
+/**
+ * Snapshot Store
+ * Keeps prior versions of files written inside a filesystem write root.
+ *
+ * Snapshots live in a hidden `.agentos-snapshots` directory at the top of
+ * the write root, one subdirectory per file (named by a hash of its path
+ * relative to the root) holding an `index.json` and one `v<N>` file per
+ * version. Only the newest `maxPerFile` versions are kept. Saves to one
+ * file run in turn, and each version file is created exclusively, so
+ * concurrent writers never share or overwrite a version.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { FileSnapshot } from '../types.js';
+
+/** Snapshot directory name inside each write root */
+export const SNAPSHOT_DIR = '.agentos-snapshots';
+
+interface SnapshotIndex {
+  /** File path relative to the root */
+  path: string;
+  nextVersion: number;
+  /** Oldest first */
+  snapshots: Array<Omit<FileSnapshot, 'path'>>;
+}
+
+/**
+ * Stores and retrieves file snapshots
+ */
+export class FileSnapshotStore {
+  /** Per-file lock, shared by all stores, so concurrent saves apply in turn */
+  private static readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly maxPerFile = 20) {}
+
+  /** Whether `absolutePath` is inside the snapshot directory of `root` */
+  isSnapshotPath(root: string, absolutePath: string): boolean {
+    const rel = path.relative(path.join(root, SNAPSHOT_DIR), absolutePath);
+    return rel === '' || (!rel.startsWith(`..${path.sep}`) && rel !== '..' && !path.isAbsolute(rel));
+  }
+
+  /**
+   * Record `content` as the next version of `absolutePath`
+   */
+  async save(
+    root: string,
+    absolutePath: string,
+    content: Buffer,
+    reason: FileSnapshot['reason']
+  ): Promise<FileSnapshot> {
+    const dir = this.fileDir(root, absolutePath);
+    return this.withLock(dir, async () => {
+      await fs.mkdir(dir, { recursive: true });
+      const index = await this.readIndex(root, absolutePath);
+
+      // Another process may already hold this version; take the next free one
+      let version = index.nextVersion;
+      for (;;) {
+        try {
+          await fs.writeFile(path.join(dir, `v${version}`), content, { flag: 'wx' });
+          break;
+        } catch (error: any) {
+          if (error.code !== 'EEXIST') throw error;
+          version += 1;
+        }
+      }
+
+      const snapshot = {
+        version,
+        createdAt: new Date().toISOString(),
+        size: content.length,
+        reason,
+      };
+      index.nextVersion = version + 1;
+      index.snapshots.push(snapshot);
+      const dropped = index.snapshots.splice(0, Math.max(0, index.snapshots.length - this.maxPerFile));
+      const tmp = path.join(dir, `index.json.${process.pid}.tmp`);
+      await fs.writeFile(tmp, JSON.stringify(index, null, 2));
+      await fs.rename(tmp, path.join(dir, 'index.json'));
+      await Promise.all(dropped.map((old) => fs.rm(path.join(dir, `v${old.version}`), { force: true })));
+
+      return { ...snapshot, path: absolutePath };
+    });
+  }
+
+  /**
+   * Snapshots of `absolutePath`, newest first
+   */
+  async list(root: string, absolutePath: string): Promise<FileSnapshot[]> {
+    const index = await this.readIndex(root, absolutePath);
+    return index.snapshots.map((s) => ({ ...s, path: absolutePath })).reverse();
+  }
+
+  /**
+   * Content of one snapshot version
+   */
+  async read(root: string, absolutePath: string, version: number): Promise<Buffer> {
+    const index = await this.readIndex(root, absolutePath);
+    if (!index.snapshots.some((s) => s.version === version)) {
+      throw new Error(`No snapshot v${version} of ${absolutePath}`);
+    }
+    return fs.readFile(path.join(this.fileDir(root, absolutePath), `v${version}`));
+  }
+
+  private withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const locks = FileSnapshotStore.locks;
+    const previous = locks.get(key) ?? Promise.resolve();
+    const run = previous.catch(() => {}).then(fn);
+    const settled = run.catch(() => {});
+    locks.set(key, settled);
+    settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return run;
+  }
+
+    private fileDir(root: string, absolutePath: string): string {
+    const key = createHash('sha256').update(path.relative(root, absolutePath)).digest('hex').slice(0, 16);
+    return path.join(root, SNAPSHOT_DIR, key);
+  }
+
+  private async readIndex(root: string, absolutePath: string): Promise<SnapshotIndex> {
+    try {
+      const raw = await fs.readFile(path.join(this.fileDir(root, absolutePath), 'index.json'), 'utf-8');
+      return JSON.parse(raw);
+    } catch {
+      return { path: path.relative(root, absolutePath), nextVersion: 1, snapshots: [] };
+    }
+  }
+}
@@ -0,0 +1,127 @@
+// @ts-nocheck
+/**
+ * File Edit Tool
+ * Apply a unified diff or search/replace blocks to a file.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { FileEditResult, SearchReplaceEdit } from '../types.js';
+
+/**
+ * Tool for structured file edits
+ */
+export class FileEditTool implements ITool {
+  public readonly id = 'cli-file-edit-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'file_edit';
+  public readonly displayName = 'Edit File';
+  public readonly description =
+    'Edit a text file by applying a unified diff or search/replace blocks. ' +
+    'All changes apply or none do: if any hunk context or search text does not match, the file is left unchanged and each conflict is reported.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['path'],
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path to edit',
+      },
+      diff: {
+        type: 'string',
+        description: 'Unified diff for this one file ("@@ -a,b +c,d @@" hunks). Use either diff or edits.',
+      },
+      edits: {
+        type: 'array',
+        description: 'Search/replace blocks applied in order. Use either diff or edits.',
+        items: {
+          type: 'object',
+          required: ['search', 'replace'],
+          properties: {
+            search: {
+              type: 'string',
+              description: 'Exact text to find; must match once unless replaceAll is set',
+            },
+            replace: {
+              type: 'string',
+              description: 'Replacement text',
+            },
+            replaceAll: {
+              type: 'boolean',
+              default: false,
+              description: 'Replace every occurrence',
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+      dryRun: {
+        type: 'boolean',
+        default: false,
+        description: 'Check that the edit applies without writing the file',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Edit file
+   */
+  async execute(
+    input: {
+    path: string;
+    diff?: string;
+    edits?: SearchReplaceEdit[];
+    dryRun?: boolean;
+    },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<FileEditResult>> {
+    try {
+      const result = await this.shellService.editFile(input.path, {
+        diff: input.diff,
+        edits: input.edits,
+        dryRun: input.dryRun,
+      });
+
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.path) {
+      errors.push('Path is required');
+    } else if (typeof input.path !== 'string') {
+      errors.push('Path must be a string');
+    }
+
+    const hasDiff = input.diff !== undefined;
+    const hasEdits = input.edits !== undefined;
+    if (hasDiff === hasEdits) {
+      errors.push('Provide exactly one of diff or edits');
+    } else if (hasDiff && typeof input.diff !== 'string') {
+      errors.push('Diff must be a string');
+    } else if (hasEdits) {
+      if (!Array.isArray(input.edits) || input.edits.length === 0) {
+        errors.push('Edits must be a non-empty array');
+      } else if (input.edits.some((e: any) => typeof e?.search !== 'string' || typeof e?.replace !== 'string')) {
+        errors.push('Each edit needs string search and replace fields');
+      }
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
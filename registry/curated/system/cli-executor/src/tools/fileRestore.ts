@@ -0,0 +1,78 @@
+// @ts-nocheck
+/**
+ * File Restore Tool
+ * Restore a file to a prior snapshot.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { FileRestoreResult } from '../types.js';
+
+/**
+ * Tool for restoring file snapshots
+ */
+export class FileRestoreTool implements ITool {
+  public readonly id = 'cli-file-restore-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'file_restore';
+  public readonly displayName = 'Restore File';
+  public readonly description =
+    'Restore a file to a version listed by file_snapshots. The current content is snapshotted first, so the restore can be undone.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['path', 'version'],
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path to restore',
+      },
+      version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Snapshot version to restore',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Restore file
+   */
+  async execute(
+    input: { path: string; version: number },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<FileRestoreResult>> {
+    try {
+      const result = await this.shellService.restoreSnapshot(input.path, input.version);
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.path) {
+      errors.push('Path is required');
+    } else if (typeof input.path !== 'string') {
+      errors.push('Path must be a string');
+    }
+
+    if (!Number.isInteger(input.version) || input.version < 1) {
+      errors.push('Version must be a positive integer');
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
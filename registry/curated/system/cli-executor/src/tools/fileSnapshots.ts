@@ -0,0 +1,69 @@
+// @ts-nocheck
+/**
+ * File Snapshots Tool
+ * List prior versions of a file.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { FileSnapshot } from '../types.js';
+
+/**
+ * Tool for listing file snapshots
+ */
+export class FileSnapshotsTool implements ITool {
+  public readonly id = 'cli-file-snapshots-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'file_snapshots';
+  public readonly displayName = 'List File Snapshots';
+  public readonly description =
+    'List the saved prior versions of a file (newest first). A snapshot is taken before every overwrite, append, edit or restore.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = false;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['path'],
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * List snapshots
+   */
+  async execute(
+    input: { path: string },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<{ path: string; snapshots: FileSnapshot[] }>> {
+    try {
+      const snapshots = await this.shellService.listSnapshots(input.path);
+      return { success: true, output: { path: input.path, snapshots } };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.path) {
+      errors.push('Path is required');
+    } else if (typeof input.path !== 'string') {
+      errors.push('Path must be a string');
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
@@ -0,0 +1,78 @@
+// @ts-nocheck
+/**
+ * Process Input Tool
+ * Write to the stdin of a background process.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+
+/**
+ * Tool for sending input to background processes
+ */
+export class ProcessInputTool implements ITool {
+  public readonly id = 'cli-shell-input-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'shell_input';
+  public readonly displayName = 'Send Input to Background Process';
+  public readonly description =
+    'Write text to the stdin of a background process started with shell_start. Include "\\n" to submit a line.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['id', 'input'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Process id returned by shell_start',
+      },
+      input: {
+        type: 'string',
+        description: 'Text to write to stdin',
+      },
+      end: {
+        type: 'boolean',
+        description: 'Close stdin after writing (sends EOF)',
+        default: false,
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Write input
+   */
+  async execute(
+    input: { id: string; input: string; end?: boolean },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<{ id: string; bytesWritten: number }>> {
+    try {
+      const result = await this.shellService.writeProcessInput(input.id, input.input, { end: input.end });
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.id || typeof input.id !== 'string') {
+      errors.push('Process id is required');
+    }
+    if (typeof input.input !== 'string') {
+      errors.push('Input must be a string');
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
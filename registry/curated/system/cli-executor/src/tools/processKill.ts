@@ -0,0 +1,76 @@
+// @ts-nocheck
+/**
+ * Process Kill Tool
+ * Stop a background process and everything it started.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { BackgroundProcessInfo } from '../types.js';
+
+/**
+ * Tool for killing background processes
+ */
+export class ProcessKillTool implements ITool {
+  public readonly id = 'cli-shell-kill-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'shell_kill';
+  public readonly displayName = 'Kill Background Process';
+  public readonly description =
+    'Kill a background process and its child processes. Sends SIGTERM, then SIGKILL if it does not exit.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Process id returned by shell_start',
+      },
+      signal: {
+        type: 'string',
+        enum: ['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGKILL'],
+        description: 'Signal to send first',
+        default: 'SIGTERM',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Kill process
+   */
+  async execute(
+    input: { id: string; signal?: 'SIGTERM' | 'SIGINT' | 'SIGHUP' | 'SIGKILL' },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<BackgroundProcessInfo>> {
+    try {
+      const result = await this.shellService.killProcess(input.id, input.signal);
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.id || typeof input.id !== 'string') {
+      errors.push('Process id is required');
+    }
+    if (input.signal !== undefined && !['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGKILL'].includes(input.signal)) {
+      errors.push('Signal must be one of SIGTERM, SIGINT, SIGHUP, SIGKILL');
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
@@ -0,0 +1,97 @@
+// @ts-nocheck
+/**
+ * Process Output Tool
+ * Read incremental output of a background process.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { ProcessOutputResult } from '../types.js';
+
+/**
+ * Tool for tailing background process output
+ */
+export class ProcessOutputTool implements ITool {
+  public readonly id = 'cli-shell-output-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'shell_output';
+  public readonly displayName = 'Read Background Process Output';
+  public readonly description =
+    'Read stdout/stderr a background process wrote since the given offsets, plus its status. ' +
+    'Pass the returned offsets to the next call to get only new output.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = false;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Process id returned by shell_start',
+      },
+      stdoutOffset: {
+        type: 'number',
+        description: 'stdoutOffset from the previous read',
+        default: 0,
+      },
+      stderrOffset: {
+        type: 'number',
+        description: 'stderrOffset from the previous read',
+        default: 0,
+      },
+      waitMs: {
+        type: 'number',
+        description: 'Wait up to this many milliseconds for new output if there is none yet',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Read output
+   */
+  async execute(
+    input: {
+    id: string;
+    stdoutOffset?: number;
+    stderrOffset?: number;
+    waitMs?: number;
+    },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<ProcessOutputResult>> {
+    try {
+      const result = await this.shellService.readProcessOutput(input.id, {
+        stdoutOffset: input.stdoutOffset,
+        stderrOffset: input.stderrOffset,
+        waitMs: input.waitMs,
+      });
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.id || typeof input.id !== 'string') {
+      errors.push('Process id is required');
+    }
+
+    for (const key of ['stdoutOffset', 'stderrOffset', 'waitMs']) {
+      if (input[key] !== undefined && (typeof input[key] !== 'number' || input[key] < 0)) {
+        errors.push(`${key} must be a non-negative number`);
+      }
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
@@ -0,0 +1,98 @@
+// @ts-nocheck
+/**
+ * Process Start Tool
+ * Start a shell command in the background.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { BackgroundProcessInfo } from '../types.js';
+
+/**
+ * Tool for starting long-running commands (dev servers, watch builds, test suites)
+ */
+export class ProcessStartTool implements ITool {
+  public readonly id = 'cli-shell-start-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'shell_start';
+  public readonly displayName = 'Start Background Process';
+  public readonly description =
+    'Start a long-running shell command in the background and return a process id. ' +
+    'Use shell_output to read its output, shell_input to write to stdin, shell_status and shell_kill to manage it.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = true;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    required: ['command'],
+    properties: {
+      command: {
+        type: 'string',
+        description: 'Shell command to start',
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory for command',
+      },
+      env: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Environment variables',
+      },
+      timeout: {
+        type: 'number',
+        description: 'Kill the process after this many milliseconds (default: no limit; 30 minutes in the sandbox)',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Start command
+   */
+  async execute(
+    input: {
+    command: string;
+    cwd?: string;
+    env?: Record<string, string>;
+    timeout?: number;
+    },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<BackgroundProcessInfo>> {
+    try {
+      const result = await this.shellService.startBackground(input.command, {
+        cwd: input.cwd,
+        env: input.env,
+        timeout: input.timeout,
+      });
+      return { success: true, output: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    const errors: string[] = [];
+
+    if (!input.command) {
+      errors.push('Command is required');
+    } else if (typeof input.command !== 'string') {
+      errors.push('Command must be a string');
+    }
+
+    if (input.timeout !== undefined) {
+      if (typeof input.timeout !== 'number' || input.timeout <= 0) {
+        errors.push('Timeout must be a positive number');
+      }
+    }
+
+    return errors.length === 0 ? { isValid: true } : { isValid: false, errors };
+  }
+}
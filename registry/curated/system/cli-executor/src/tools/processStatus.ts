@@ -0,0 +1,65 @@
+// @ts-nocheck
+/**
+ * Process Status Tool
+ * Check the status of background processes.
+ *
+ * @module @framers/agentos-ext-cli-executor
+ */
+
+import type { ITool, JSONSchemaObject, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos';
+import type { ShellService } from '../services/shellService.js';
+import type { BackgroundProcessInfo } from '../types.js';
+
+/**
+ * Tool for checking one or all background processes
+ */
+export class ProcessStatusTool implements ITool {
+  public readonly id = 'cli-shell-status-v1';
+  /** Tool call name used by the LLM / ToolExecutor. */
+  public readonly name = 'shell_status';
+  public readonly displayName = 'Background Process Status';
+  public readonly description =
+    'Get the status, exit code and run time of a background process, or of all of them when no id is given.';
+  public readonly category = 'system';
+  public readonly hasSideEffects = false;
+
+  public readonly inputSchema: JSONSchemaObject = {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Process id returned by shell_start (omit to list all)',
+      },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private shellService: ShellService) {}
+
+  /**
+   * Get status
+   */
+  async execute(
+    input: { id?: string },
+    _context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult<BackgroundProcessInfo | { processes: BackgroundProcessInfo[] }>> {
+    try {
+      const output = input.id
+        ? this.shellService.getProcess(input.id)
+        : { processes: this.shellService.listProcesses() };
+      return { success: true, output };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validate input
+   */
+  validateArgs(input: Record<string, any>): { isValid: boolean; errors?: any[] } {
+    if (input.id !== undefined && typeof input.id !== 'string') {
+      return { isValid: false, errors: ['Process id must be a string'] };
+    }
+    return { isValid: true };
+  }
+}
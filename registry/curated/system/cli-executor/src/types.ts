@@ -30,6 +30,17 @@ export interface ShellConfig {
     /** Allowed root directories for writes. */
     writeRoots?: string[];
   };
+  /**
+   * Snapshots of files overwritten inside `filesystem.writeRoots`, for
+   * listing and restoring prior versions. Enabled whenever a filesystem
+   * policy is set.
+   */
+  snapshots?: {
+    /** Default: true. */
+    enabled?: boolean;
+    /** Versions kept per file. Default: 20. */
+    maxPerFile?: number;
+  };
   /**
    * Optional per-agent workspace helper. When provided, the extension can
    * auto-create an agent-specific directory and (optionally) default the
@@ -58,6 +69,54 @@ export interface ShellConfig {
   dangerouslySkipSecurityChecks?: boolean;
   /** Environment variables to inject */
   env?: Record<string, string>;
+  /**
+   * Run commands in a Linux namespace sandbox with resource limits (see
+   * {@link SandboxConfig}). The pattern/allowlist checks still apply.
+   */
+  sandbox?: SandboxConfig;
+  /** Characters of stdout/stderr kept per background process stream (default: 1 MiB) */
+  backgroundOutputLimit?: number;
+  /** Maximum number of background processes running at once (default: 8) */
+  maxBackgroundProcesses?: number;
+}
+
+/**
+ * Sandbox options for command execution.
+ *
+ * Requires Linux with unprivileged user namespaces, bubblewrap (`bwrap`) and
+ * util-linux `prlimit`. When these are missing, commands fail with an
+ * explicit "Sandbox unavailable" error instead of running unsandboxed.
+ */
+export interface SandboxConfig {
+  /** Run commands in the sandbox. Default: false. */
+  enabled?: boolean;
+  /** Allow network access. Default: false. */
+  network?: boolean;
+  /** CPU time limit per command (seconds). Default: 60. Wall-clock time is `timeout`. */
+  cpuSeconds?: number;
+  /**
+   * Wall-clock limit for background commands (ms), which otherwise have no
+   * timeout. Also caps a longer per-process `timeout`. Default: 30 minutes.
+   */
+  backgroundTimeoutMs?: number;
+  /** Address-space limit per process (MiB). Default: 1024. */
+  memoryMb?: number;
+  /**
+   * Process/thread limit. Default: 256. This is RLIMIT_NPROC, which the
+   * kernel counts per host user, so it includes that user's other processes.
+   */
+  maxProcesses?: number;
+  /**
+   * Directories the command may write to; `/tmp` is private. Defaults to the
+   * agent workspace directory.
+   */
+  writableRoots?: string[];
+  /**
+   * Extra host directories the command may read (e.g. a toolchain under the
+   * home directory). Only the system directories (`/usr`, `/etc`, …), the
+   * working directory and the writable roots are mounted otherwise.
+   */
+  readOnlyRoots?: string[];
 }
 
 /**
@@ -80,6 +139,8 @@ export interface ExecutionResult {
   cwd: string;
   /** Shell used */
   shell: string;
+  /** Whether the command ran in the sandbox */
+  sandboxed?: boolean;
 }
 
 /**
@@ -108,6 +169,81 @@ export interface ScriptResult extends ExecutionResult {
   interpreter: string;
 }
 
+/**
+ * Background process options
+ */
+export interface BackgroundProcessOptions {
+  /** Working directory */
+  cwd?: string;
+  /** Environment variables */
+  env?: Record<string, string>;
+  /** Kill the process group after this many ms (default: no limit, or the sandbox's `backgroundTimeoutMs`) */
+  timeout?: number;
+}
+
+/**
+ * Lifecycle state of a background process
+ */
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed' | 'timed_out';
+
+/**
+ * Background process handle and status
+ */
+export interface BackgroundProcessInfo {
+  /** Process handle (e.g. `proc-1`) */
+  id: string;
+  /** Command that was started */
+  command: string;
+  /** OS process id of the shell */
+  pid: number;
+  /** Current state */
+  status: BackgroundProcessStatus;
+  /** Exit code once exited (null while running or when killed by a signal) */
+  exitCode: number | null;
+  /** Signal that ended the process, if any */
+  signal: string | null;
+  /** Start time (ISO) */
+  startedAt: string;
+  /** End time (ISO) */
+  endedAt?: string;
+  /** Run time so far (ms) */
+  duration: number;
+  /** Working directory used */
+  cwd: string;
+  /** Shell used */
+  shell: string;
+  /** Whether the process runs in the sandbox */
+  sandboxed?: boolean;
+}
+
+/**
+ * Incremental output read options
+ */
+export interface ProcessOutputOptions {
+  /** Return stdout after this offset (from a previous read; default 0) */
+  stdoutOffset?: number;
+  /** Return stderr after this offset (from a previous read; default 0) */
+  stderrOffset?: number;
+  /** Wait up to this many ms for new output or exit when there is none yet */
+  waitMs?: number;
+}
+
+/**
+ * Incremental output of a background process
+ */
+export interface ProcessOutputResult extends BackgroundProcessInfo {
+  /** Stdout written since `stdoutOffset` */
+  stdout: string;
+  /** Stderr written since `stderrOffset` */
+  stderr: string;
+  /** Offset to pass to the next read */
+  stdoutOffset: number;
+  /** Offset to pass to the next read */
+  stderrOffset: number;
+  /** Whether output since the requested offsets was dropped from the bounded buffer */
+  truncated: boolean;
+}
+
 /**
  * File read options
  */
@@ -166,6 +302,80 @@ export interface FileWriteResult {
   created: boolean;
   /** Whether content was appended */
   appended: boolean;
+  /** Snapshot version holding the previous content, if one was taken */
+  snapshotVersion?: number;
+}
+
+/**
+ * Search/replace edit block
+ */
+export interface SearchReplaceEdit {
+  /** Exact text to find; must match once unless replaceAll is set */
+  search: string;
+  /** Replacement text */
+  replace: string;
+  /** Replace every occurrence */
+  replaceAll?: boolean;
+}
+
+/**
+ * File edit options; give either `diff` or `edits`
+ */
+export interface FileEditOptions {
+  /** Unified diff for this file */
+  diff?: string;
+  /** Search/replace blocks, applied in order */
+  edits?: SearchReplaceEdit[];
+  /** Check that the edit applies without writing */
+  dryRun?: boolean;
+}
+
+/**
+ * File edit result
+ */
+export interface FileEditResult {
+  /** File path */
+  path: string;
+  /** How the edit was given */
+  mode: 'diff' | 'search_replace';
+  /** Hunks applied (diff) or replacements made (search_replace) */
+  changes: number;
+  /** Bytes written (0 for dry runs) */
+  bytesWritten: number;
+  /** Whether this was a dry run */
+  dryRun: boolean;
+  /** Snapshot version holding the previous content, if one was taken */
+  snapshotVersion?: number;
+}
+
+/**
+ * A stored prior version of a file
+ */
+export interface FileSnapshot {
+  /** Version number, increasing per file */
+  version: number;
+  /** File path */
+  path: string;
+  /** When the snapshot was taken (ISO) */
+  createdAt: string;
+  /** Size in bytes */
+  size: number;
+  /** Operation that replaced this version */
+  reason: 'write' | 'append' | 'edit' | 'restore';
+}
+
+/**
+ * File restore result
+ */
+export interface FileRestoreResult {
+  /** File path */
+  path: string;
+  /** Version that was restored */
+  restoredVersion: number;
+  /** Bytes written */
+  bytesWritten: number;
+  /** Snapshot version holding the content replaced by the restore, if any */
+  snapshotVersion?: number;
 }
 
 /**
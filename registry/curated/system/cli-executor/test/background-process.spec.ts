@@ -0,0 +1,208 @@
+// @ts-nocheck
+/**
+ * Tests for background processes in ShellService and the shell_start /
+ * shell_output / shell_input / shell_status / shell_kill tools.
+ *
+ *   - Start returns a handle immediately; status and exit code follow the process
+ *   - Incremental output reads with offsets and waitMs
+ *   - stdin input
+ *   - Killing the whole process group, timeouts and shutdown()
+ *   - Bounded output buffers and the running-process limit
+ *
+ * These spawn real `sh` processes with short sleeps.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+
+import { ShellService } from '../src/services/shellService';
+import { OutputBuffer } from '../src/services/outputBuffer';
+import { ProcessStartTool } from '../src/tools/processStart';
+import { ProcessOutputTool } from '../src/tools/processOutput';
+import { ProcessKillTool } from '../src/tools/processKill';
+
+const ctx = {} as any;
+
+let service: ShellService;
+
+function createService(config = {}) {
+  service = new ShellService({ defaultShell: 'sh', ...config });
+  return service;
+}
+
+/** Read until the process exits, following the offsets. */
+async function readUntilExit(id: string) {
+  let stdout = '';
+  let offsets = { stdoutOffset: 0, stderrOffset: 0 };
+  for (;;) {
+    const result = await service.readProcessOutput(id, { ...offsets, waitMs: 1000 });
+    stdout += result.stdout;
+    offsets = { stdoutOffset: result.stdoutOffset, stderrOffset: result.stderrOffset };
+    if (result.status !== 'running') return { ...result, stdout };
+  }
+}
+
+/** Running and not a zombie (killed orphans may wait for a reaper). */
+function isAlive(pid: number) {
+  try {
+    return !execSync(`ps -o stat= -p ${pid}`).toString().trim().startsWith('Z');
+  } catch {
+    return false;
+  }
+}
+
+afterEach(async () => {
+  await service?.shutdown();
+});
+
+describe('ShellService background processes', () => {
+  it('returns a running handle and reports the exit code when done', async () => {
+    createService();
+    const started = await service.startBackground('sleep 0.2; echo done; exit 3');
+
+    expect(started.id).toBe('proc-1');
+    expect(started.status).toBe('running');
+    expect(started.pid).toBeGreaterThan(0);
+
+    const result = await readUntilExit(started.id);
+    expect(result.status).toBe('exited');
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout).toBe('done\n');
+    expect(result.endedAt).toBeDefined();
+  });
+
+  it('returns only output written since the given offsets', async () => {
+    createService();
+    const { id } = await service.startBackground('echo one; sleep 0.3; echo two >&2; echo three');
+
+    const first = await service.readProcessOutput(id, { waitMs: 2000 });
+    expect(first.stdout).toBe('one\n');
+
+    const rest = await readUntilExit(id);
+    const second = await service.readProcessOutput(id, { stdoutOffset: first.stdoutOffset, stderrOffset: 0 });
+
+    expect(rest.stdout).toBe('one\nthree\n');
+    expect(second.stdout).toBe('three\n');
+    expect(second.stderr).toBe('two\n');
+    expect(second.truncated).toBe(false);
+  });
+
+  it('passes stdin through to the process', async () => {
+    createService();
+    const { id } = await service.startBackground('read line; echo "got $line"');
+
+    await service.writeProcessInput(id, 'hello\n');
+    const result = await readUntilExit(id);
+
+    expect(result.stdout).toBe('got hello\n');
+    await expect(service.writeProcessInput(id, 'late\n')).rejects.toThrow(/not accepting input/);
+  });
+
+  it('kills the whole process group, including grandchildren', async () => {
+    createService();
+    const { id } = await service.startBackground('sleep 30 & echo $!; wait');
+    const { stdout } = await service.readProcessOutput(id, { waitMs: 2000 });
+    const grandchild = Number(stdout.trim());
+    expect(isAlive(grandchild)).toBe(true);
+
+    const killed = await service.killProcess(id);
+
+    expect(killed.status).toBe('killed');
+    expect(killed.signal).toBe('SIGTERM');
+    expect(isAlive(grandchild)).toBe(false);
+  });
+
+  it('kills processes that exceed their timeout', async () => {
+    createService();
+    const { id } = await service.startBackground('sleep 30', { timeout: 100 });
+
+    const result = await readUntilExit(id);
+    expect(result.status).toBe('timed_out');
+  });
+
+  it('kills every running process on shutdown()', async () => {
+    createService();
+    const a = await service.startBackground('sleep 30');
+    const b = await service.startBackground('sleep 30');
+
+    await service.shutdown();
+
+    expect(service.listProcesses().map((p) => p.status)).toEqual(['killed', 'killed']);
+    expect(isAlive(a.pid)).toBe(false);
+    expect(isAlive(b.pid)).toBe(false);
+  });
+
+  it('keeps only the most recent output and flags dropped output', async () => {
+    createService({ backgroundOutputLimit: 10 });
+    const { id } = await service.startBackground('printf 0123456789abcdefghij');
+
+    await readUntilExit(id);
+    const result = await service.readProcessOutput(id);
+    expect(result.stdout).toBe('abcdefghij');
+    expect(result.stdoutOffset).toBe(20);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('limits how many processes run at once', async () => {
+    createService({ maxBackgroundProcesses: 1 });
+    await service.startBackground('sleep 30');
+
+    await expect(service.startBackground('sleep 30')).rejects.toThrow(/Too many background processes/);
+  });
+
+  it('applies the security checks before starting', async () => {
+    createService();
+
+    await expect(service.startBackground('rm -rf /')).rejects.toThrow(/Security violation/);
+    expect(service.listProcesses()).toEqual([]);
+  });
+
+  it('rejects unknown process ids', async () => {
+    createService();
+
+    expect(() => service.getProcess('proc-99')).toThrow('Unknown background process: proc-99');
+  });
+});
+
+describe('OutputBuffer', () => {
+  it('drops the oldest characters past the limit across chunks', () => {
+    const buffer = new OutputBuffer(5);
+    buffer.append('abc');
+    buffer.append('defg');
+
+    expect(buffer.read(0)).toEqual({ text: 'cdefg', offset: 7, truncated: true });
+    expect(buffer.read(4)).toEqual({ text: 'efg', offset: 7, truncated: false });
+    expect(buffer.read(7)).toEqual({ text: '', offset: 7, truncated: false });
+  });
+});
+
+describe('background process tools', () => {
+  it('start, tail and kill a process through the tools', async () => {
+    createService();
+    const start = new ProcessStartTool(service);
+    const output = new ProcessOutputTool(service);
+    const kill = new ProcessKillTool(service);
+
+    const started = await start.execute({ command: 'echo ready; sleep 30' }, ctx);
+    expect(started.success).toBe(true);
+
+    const tail = await output.execute({ id: started.output.id, waitMs: 2000 }, ctx);
+    expect(tail.output.stdout).toBe('ready\n');
+
+    const killed = await kill.execute({ id: started.output.id }, ctx);
+    expect(killed.output.status).toBe('killed');
+
+    expect(await output.execute({ id: 'nope' }, ctx)).toEqual({
+      success: false,
+      error: 'Unknown background process: nope',
+    });
+  });
+
+  it('validate their arguments', () => {
+    createService();
+
+    expect(new ProcessStartTool(service).validateArgs({}).isValid).toBe(false);
+    expect(new ProcessOutputTool(service).validateArgs({ id: 'proc-1', stdoutOffset: -1 }).isValid).toBe(false);
+    expect(new ProcessKillTool(service).validateArgs({ id: 'proc-1', signal: 'SIGUSR1' }).isValid).toBe(false);
+  });
+});
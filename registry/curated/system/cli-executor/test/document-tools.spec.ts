@@ -518,8 +518,8 @@ describe('createExtensionPack', () => {
     logger: { info: () => undefined },
   });
 
-  it('includes all 6 tool descriptors', () => {
-    expect(pack.descriptors).toHaveLength(6);
+  it('includes all 14 tool descriptors', () => {
+    expect(pack.descriptors).toHaveLength(14);
     expect(pack.descriptors.every((d: any) => d.kind === 'tool')).toBe(true);
   });
 
@@ -528,10 +528,18 @@ describe('createExtensionPack', () => {
     expect(names).toEqual([
       'create_document',
       'create_spreadsheet',
+      'file_edit',
       'file_read',
+      'file_restore',
+      'file_snapshots',
       'file_write',
       'list_directory',
       'shell_execute',
+      'shell_input',
+      'shell_kill',
+      'shell_output',
+      'shell_start',
+      'shell_status',
     ]);
   });
 });
@@ -0,0 +1,261 @@
+// @ts-nocheck
+/**
+ * Tests for structured edits and file snapshots.
+ *
+ *   - applySearchReplace / applyUnifiedDiff: matching, drifted hunks,
+ *     line endings, final newlines and all-or-nothing conflicts
+ *   - file_edit tool: dry runs and unchanged files on conflict
+ *   - Snapshots on write/append/edit, listing, restore and pruning
+ *
+ * Uses real tmp directories for actual filesystem operations.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+
+import { ShellService } from '../src/services/shellService';
+import { applySearchReplace, applyUnifiedDiff, EditConflictError } from '../src/services/patch';
+import { SNAPSHOT_DIR } from '../src/services/snapshotStore';
+import { FileEditTool } from '../src/tools/fileEdit';
+import { FileSnapshotsTool } from '../src/tools/fileSnapshots';
+import { FileRestoreTool } from '../src/tools/fileRestore';
+
+const ctx = {} as any;
+
+describe('applySearchReplace', () => {
+  it('replaces a unique match and treats $ in the replacement literally', () => {
+    const result = applySearchReplace('a = 1;\nb = 2;\n', [{ search: 'b = 2', replace: 'b = $&' }]);
+    expect(result).toEqual({ content: 'a = 1;\nb = $&;\n', changes: 1 });
+  });
+
+  it('reports every missing or ambiguous block and applies none', () => {
+    let error: EditConflictError | undefined;
+    try {
+      applySearchReplace('x\nx\n', [
+        { search: 'x', replace: 'y' },
+        { search: 'z', replace: 'y' },
+      ]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect(error.conflicts).toHaveLength(2);
+    expect(error.conflicts[0]).toMatch(/matches 2 times/);
+    expect(error.conflicts[1]).toMatch(/not found/);
+  });
+
+  it('replaces every occurrence with replaceAll', () => {
+    expect(applySearchReplace('x\nx\n', [{ search: 'x', replace: 'y', replaceAll: true }])).toEqual({
+      content: 'y\ny\n',
+      changes: 2,
+    });
+  });
+});
+
+describe('applyUnifiedDiff', () => {
+  const original = 'one\ntwo\nthree\nfour\nfive\n';
+
+  it('applies a hunk at its stated position', () => {
+    const diff = '--- a/f\n+++ b/f\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n';
+    expect(applyUnifiedDiff(original, diff)).toEqual({
+      content: 'one\ntwo\nTHREE\nfour\nfive\n',
+      changes: 1,
+    });
+  });
+
+  it('finds hunks whose line numbers have drifted', () => {
+    const diff = '@@ -1,2 +1,2 @@\n four\n-five\n+FIVE\n';
+    expect(applyUnifiedDiff(original, diff).content).toBe('one\ntwo\nthree\nfour\nFIVE\n');
+  });
+
+  it('keeps CRLF line endings', () => {
+    const diff = '@@ -1,2 +1,2 @@\n-a\n+A\n b\n';
+    expect(applyUnifiedDiff('a\r\nb\r\n', diff).content).toBe('A\r\nb\r\n');
+  });
+
+  it('honours "No newline at end of file" on the new side', () => {
+    const diff = '@@ -1 +1 @@\n-a\n+b\n\\ No newline at end of file\n';
+    expect(applyUnifiedDiff('a\n', diff).content).toBe('b');
+  });
+
+  it('rejects the whole diff when any hunk does not match', () => {
+    const diff = '@@ -1,1 +1,1 @@\n-one\n+ONE\n@@ -4,1 +4,1 @@\n-missing\n+x\n';
+    expect(() => applyUnifiedDiff(original, diff)).toThrow(/@@ -4,1 \+4,1 @@: context does not match/);
+  });
+
+  it('rejects hunks with more lines than their header counts', () => {
+    const diff = '@@ -1,2 +1,2 @@\n-a\n+A\n b\n-c\n+C\n';
+    expect(() => applyUnifiedDiff('a\nb\nc\nd\ne\n', diff)).toThrow(
+      /@@ -1,2 \+1,2 @@: has more lines than its header counts/,
+    );
+  });
+
+  it('allows file headers between hunks', () => {
+    const diff = 'diff --git a/f b/f\nindex 1..2 100644\n--- a/f\n+++ b/f\n@@ -1 +1 @@\n-one\n+ONE\n\n';
+    expect(applyUnifiedDiff(original, diff).content).toBe('ONE\ntwo\nthree\nfour\nfive\n');
+  });
+
+  it('refuses diffs for several files', () => {
+    const diff = '--- a/f\n+++ b/f\n@@ -1 +1 @@\n-one\n+ONE\n--- a/g\n+++ b/g\n@@ -1 +1 @@\n-x\n+y\n';
+    expect(() => applyUnifiedDiff(original, diff)).toThrow(/more than one file/);
+  });
+});
+
+describe('file_edit and snapshots', () => {
+  let root: string;
+  let file: string;
+  let service: ShellService;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'agentos-fileedit-')));
+    file = path.join(root, 'notes.txt');
+    service = new ShellService({
+      workingDirectory: root,
+      filesystem: { allowRead: true, allowWrite: true, readRoots: [root], writeRoots: [root] },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('edits a file and snapshots the previous content', async () => {
+    await fs.writeFile(file, 'hello world\n');
+    const tool = new FileEditTool(service);
+
+    const result = await tool.execute({ path: file, edits: [{ search: 'world', replace: 'there' }] }, ctx);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({ mode: 'search_replace', changes: 1, dryRun: false, snapshotVersion: 1 });
+    expect(await fs.readFile(file, 'utf8')).toBe('hello there\n');
+    expect(await service.listSnapshots(file)).toMatchObject([{ version: 1, reason: 'edit', size: 12 }]);
+  });
+
+  it('leaves the file untouched on dry runs and conflicts', async () => {
+    await fs.writeFile(file, 'hello world\n');
+    const tool = new FileEditTool(service);
+
+    const dry = await tool.execute({ path: file, diff: '@@ -1 +1 @@\n-hello world\n+bye\n', dryRun: true }, ctx);
+    const conflict = await tool.execute({ path: file, edits: [{ search: 'nope', replace: 'x' }] }, ctx);
+
+    expect(dry.output).toMatchObject({ mode: 'diff', changes: 1, dryRun: true, bytesWritten: 0 });
+    expect(conflict.success).toBe(false);
+    expect(conflict.error).toMatch(/Edit does not apply cleanly/);
+    expect(await fs.readFile(file, 'utf8')).toBe('hello world\n');
+    expect(await service.listSnapshots(file)).toEqual([]);
+  });
+
+  it('snapshots overwrites and appends, but not new files', async () => {
+    const created = await service.writeFile(file, 'v1');
+    const overwritten = await service.writeFile(file, 'v2');
+    const appended = await service.writeFile(file, '+', { append: true });
+
+    expect(created.snapshotVersion).toBeUndefined();
+    expect(overwritten.snapshotVersion).toBe(1);
+    expect(appended.snapshotVersion).toBe(2);
+
+    const listed = await new FileSnapshotsTool(service).execute({ path: file }, ctx);
+    expect(listed.output.snapshots.map((s) => [s.version, s.reason])).toEqual([
+      [2, 'append'],
+      [1, 'write'],
+    ]);
+  });
+
+  it('restores a version and snapshots what it replaces', async () => {
+    await service.writeFile(file, 'original');
+    await service.writeFile(file, 'broken');
+    const restore = new FileRestoreTool(service);
+
+    const result = await restore.execute({ path: file, version: 1 }, ctx);
+
+    expect(result.output).toMatchObject({ restoredVersion: 1, bytesWritten: 8, snapshotVersion: 2 });
+    expect(await fs.readFile(file, 'utf8')).toBe('original');
+
+    await restore.execute({ path: file, version: 2 }, ctx);
+    expect(await fs.readFile(file, 'utf8')).toBe('broken');
+  });
+
+  it('restores deleted files', async () => {
+    await service.writeFile(file, 'keep me');
+    await service.writeFile(file, 'gone soon');
+    await fs.rm(file);
+
+    await service.restoreSnapshot(file, 1);
+
+    expect(await fs.readFile(file, 'utf8')).toBe('keep me');
+  });
+
+  it('keeps only maxPerFile versions', async () => {
+    service = new ShellService({
+      filesystem: { allowWrite: true, writeRoots: [root] },
+      snapshots: { maxPerFile: 2 },
+    });
+    for (const content of ['a', 'b', 'c', 'd']) await service.writeFile(file, content);
+
+    expect((await service.listSnapshots(file)).map((s) => s.version)).toEqual([3, 2]);
+    await expect(service.restoreSnapshot(file, 1)).rejects.toThrow(/No snapshot v1/);
+    const dirs = await fs.readdir(path.join(root, SNAPSHOT_DIR));
+    expect(await fs.readdir(path.join(root, SNAPSHOT_DIR, dirs[0]))).toEqual(['index.json', 'v2', 'v3'].sort());
+  });
+
+  it('gives concurrent saves distinct versions and keeps every one', async () => {
+    await service.writeFile(file, 'v0');
+    await Promise.all(Array.from({ length: 5 }, (_, i) => service.writeFile(file, `v${i + 1}`)));
+
+    const versions = (await service.listSnapshots(file)).map((s) => s.version);
+    expect(versions).toEqual([5, 4, 3, 2, 1]);
+    const dirs = await fs.readdir(path.join(root, SNAPSHOT_DIR));
+    expect((await fs.readdir(path.join(root, SNAPSHOT_DIR, dirs[0]))).sort()).toEqual(
+      ['index.json', 'v1', 'v2', 'v3', 'v4', 'v5'],
+    );
+  });
+
+  it('takes the next free version when another process already created one', async () => {
+    await service.writeFile(file, 'a');
+    await service.writeFile(file, 'b');
+    const [dir] = await fs.readdir(path.join(root, SNAPSHOT_DIR));
+    await fs.writeFile(path.join(root, SNAPSHOT_DIR, dir, 'v2'), 'written elsewhere');
+
+    const result = await service.writeFile(file, 'c');
+
+    expect(result.snapshotVersion).toBe(3);
+    expect(await fs.readFile(path.join(root, SNAPSHOT_DIR, dir, 'v2'), 'utf-8')).toBe('written elsewhere');
+  });
+
+  it('refuses file_write and file_edit inside the snapshot directory', async () => {
+    await service.writeFile(file, 'original\n');
+    await service.writeFile(file, 'changed\n');
+    const [dir] = await fs.readdir(path.join(root, SNAPSHOT_DIR));
+    const stored = path.join(root, SNAPSHOT_DIR, dir, 'v1');
+
+    await expect(service.writeFile(stored, 'forged\n')).rejects.toThrow(/inside the \.agentos-snapshots directory/);
+    const edit = await new FileEditTool(service).execute(
+      { path: stored, edits: [{ search: 'original', replace: 'forged' }] },
+      ctx,
+    );
+    expect(edit.success).toBe(false);
+    expect(await fs.readFile(stored, 'utf-8')).toBe('original\n');
+  });
+
+  it('requires a write root for snapshots', async () => {
+    const unrestricted = new ShellService({ workingDirectory: root });
+    await unrestricted.writeFile(file, 'a');
+    const result = await unrestricted.writeFile(file, 'b');
+
+    expect(result.snapshotVersion).toBeUndefined();
+    await expect(unrestricted.listSnapshots(file)).rejects.toThrow(/require a filesystem policy with writeRoots/);
+  });
+
+  it('can be disabled', async () => {
+    service = new ShellService({
+      filesystem: { allowWrite: true, writeRoots: [root] },
+      snapshots: { enabled: false },
+    });
+    await service.writeFile(file, 'a');
+
+    expect((await service.writeFile(file, 'b')).snapshotVersion).toBeUndefined();
+  });
+});
@@ -0,0 +1,273 @@
+// @ts-nocheck
+/**
+ * Tests for sandboxed command execution.
+ *
+ *   - bwrap/prlimit invocation: namespaces, network, mounts, limits
+ *   - ShellService.execute routes through the sandbox when enabled
+ *   - Sandboxed commands get a minimal environment; background ones a wall-clock limit
+ *   - Explicit "Sandbox unavailable" errors, never an unsandboxed fallback
+ *   - Writable roots default to the agent workspace
+ *
+ * child_process.execFile and spawn are mocked; bwrap is never actually run.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import * as childProcess from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { ShellService } from '../src/services/shellService';
+import {
+  buildSandboxCommand,
+  probeSandbox,
+  SandboxUnavailableError,
+  SANDBOX_SYSTEM_PATHS,
+} from '../src/services/sandbox';
+import { createExtensionPack } from '../src/index';
+
+vi.mock('node:child_process', async (importOriginal) => {
+  const original = await importOriginal<typeof childProcess>();
+  return { ...original, exec: vi.fn(), execFile: vi.fn(), spawn: vi.fn() };
+});
+
+const mockedExec = childProcess.exec as unknown as ReturnType<typeof vi.fn>;
+const mockedExecFile = childProcess.execFile as unknown as ReturnType<typeof vi.fn>;
+const mockedSpawn = childProcess.spawn as unknown as ReturnType<typeof vi.fn>;
+
+const ctx = {} as any;
+
+/** Probe runs `true`; anything else is a real command. */
+function isProbe(args: string[]) {
+  return args[args.length - 1] === 'true';
+}
+
+function mockSandboxAvailable(stdout = 'ok\n') {
+  mockedExecFile.mockImplementation((_file, args, _opts, cb) => {
+    if (isProbe(args)) cb(null, '', '');
+    else cb(null, { stdout, stderr: '' });
+    return { kill: vi.fn() } as any;
+  });
+}
+
+function mockProbeFailure(error: any, stderr = '') {
+  mockedExecFile.mockImplementation((_file, _args, _opts, cb) => {
+    cb(error, '', stderr);
+    return { kill: vi.fn() } as any;
+  });
+}
+
+const originalPlatform = process.platform;
+
+beforeEach(() => {
+  mockedExec.mockReset();
+  mockedExecFile.mockReset();
+  mockedSpawn.mockReset();
+  Object.defineProperty(process, 'platform', { value: 'linux' });
+});
+
+afterEach(() => {
+  Object.defineProperty(process, 'platform', { value: originalPlatform });
+});
+
+describe('buildSandboxCommand', () => {
+  it('unshares every namespace, including the network, by default', () => {
+    const { file, args } = buildSandboxCommand('ls', 'bash', { cwd: '/work', sandbox: {} });
+
+    expect(file).toBe('bwrap');
+    expect(args).toContain('--unshare-all');
+    expect(args).not.toContain('--share-net');
+    expect(args.join(' ')).toContain('--dev /dev --proc /proc --tmpfs /tmp');
+    expect(args.slice(-3)).toEqual(['bash', '-c', 'ls']);
+  });
+
+  it('mounts only the system directories and the working directory, never the whole host', () => {
+    const { args } = buildSandboxCommand('ls', 'bash', {
+      cwd: '/work/app',
+      sandbox: { readOnlyRoots: ['/opt/toolchain'] },
+    });
+    const mounts = args.flatMap((arg, i) => (arg.startsWith('--ro-bind') ? [args[i + 1]] : []));
+
+    expect(mounts).toEqual([...SANDBOX_SYSTEM_PATHS, '/work/app', '/opt/toolchain']);
+    expect(mounts).not.toContain('/');
+    expect(args).toEqual(expect.arrayContaining(['--ro-bind-try', '/usr', '/usr']));
+  });
+
+  it('shares the network only when allowed', () => {
+    const { args } = buildSandboxCommand('curl x', 'bash', { cwd: '/', sandbox: { network: true } });
+    expect(args).toContain('--share-net');
+  });
+
+  it('binds writable roots read-write and runs in cwd', () => {
+    const { args } = buildSandboxCommand('ls', 'bash', {
+      cwd: '/work/app',
+      sandbox: { writableRoots: ['/work'] },
+    });
+
+    expect(args.join(' ')).toContain('--bind /work /work');
+    expect(args.join(' ')).toContain('--chdir /work/app');
+  });
+
+  it('applies CPU, memory and process limits with prlimit', () => {
+    const defaults = buildSandboxCommand('ls', 'sh', { cwd: '/', sandbox: {} }).args;
+    expect(defaults).toEqual(expect.arrayContaining(['prlimit', '--cpu=60', `--as=${1024 * 1024 * 1024}`, '--nproc=256']));
+
+    const custom = buildSandboxCommand('ls', 'sh', {
+      cwd: '/',
+      sandbox: { cpuSeconds: 5, memoryMb: 256, maxProcesses: 16 },
+    }).args;
+    expect(custom).toEqual(expect.arrayContaining(['--cpu=5', `--as=${256 * 1024 * 1024}`, '--nproc=16']));
+  });
+});
+
+describe('probeSandbox', () => {
+  it('explains a missing bwrap', async () => {
+    mockProbeFailure(Object.assign(new Error('spawn bwrap ENOENT'), { code: 'ENOENT' }));
+
+    await expect(probeSandbox()).rejects.toThrow('Sandbox unavailable: bubblewrap (bwrap) is not installed');
+  });
+
+  it('explains disabled user namespaces', async () => {
+    mockProbeFailure(
+      Object.assign(new Error('Command failed'), { code: 1 }),
+      'bwrap: No permissions to creating new namespace, likely because the kernel does not allow non-privileged user namespaces',
+    );
+
+    await expect(probeSandbox()).rejects.toThrow(/unprivileged user namespaces/);
+  });
+
+  it('refuses non-Linux hosts without running anything', async () => {
+    Object.defineProperty(process, 'platform', { value: 'darwin' });
+
+    await expect(probeSandbox()).rejects.toBeInstanceOf(SandboxUnavailableError);
+    expect(mockedExecFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('ShellService with sandbox enabled', () => {
+  it('runs commands through bwrap and marks results sandboxed', async () => {
+    mockSandboxAvailable('hello\n');
+    const service = new ShellService({ defaultShell: 'bash', sandbox: { enabled: true } });
+
+    const result = await service.execute('echo hello', { cwd: '/tmp' });
+
+    expect(result.success).toBe(true);
+    expect(result.stdout).toBe('hello\n');
+    expect(result.sandboxed).toBe(true);
+    expect(mockedExec).not.toHaveBeenCalled();
+    const [file, args] = mockedExecFile.mock.calls[1];
+    expect(file).toBe('bwrap');
+    expect(args.slice(-3)).toEqual(['bash', '-c', 'echo hello']);
+  });
+
+  it('probes the host once', async () => {
+    mockSandboxAvailable();
+    const service = new ShellService({ sandbox: { enabled: true } });
+
+    await service.execute('echo 1');
+    await service.execute('echo 2');
+
+    expect(mockedExecFile.mock.calls.filter(([, args]) => isProbe(args))).toHaveLength(1);
+  });
+
+  it('fails with an explicit error instead of running unsandboxed', async () => {
+    mockProbeFailure(Object.assign(new Error('spawn bwrap ENOENT'), { code: 'ENOENT' }));
+    const service = new ShellService({ sandbox: { enabled: true } });
+
+    const result = await service.execute('echo hello');
+
+    expect(result.success).toBe(false);
+    expect(result.sandboxed).toBe(true);
+    expect(result.stderr).toBe('Sandbox unavailable: bubblewrap (bwrap) is not installed');
+    expect(mockedExec).not.toHaveBeenCalled();
+    await expect(service.startBackground('sleep 1')).rejects.toThrow(SandboxUnavailableError);
+  });
+
+  it('passes a minimal environment instead of the host one', async () => {
+    mockSandboxAvailable();
+    process.env.SANDBOX_TEST_SECRET = 'host-secret';
+    const service = new ShellService({ sandbox: { enabled: true }, env: { CONFIGURED: '1' } });
+
+    await service.execute('env', { env: { PER_CALL: '2' } });
+    delete process.env.SANDBOX_TEST_SECRET;
+
+    const { env } = mockedExecFile.mock.calls[1][2];
+    expect(env).not.toHaveProperty('SANDBOX_TEST_SECRET');
+    expect(env).toMatchObject({ CONFIGURED: '1', PER_CALL: '2', HOME: '/tmp', PATH: process.env.PATH });
+  });
+
+  it('kills background commands after the wall-clock limit', async () => {
+    mockSandboxAvailable();
+    const child = Object.assign(new EventEmitter(), {
+      pid: 4242,
+      stdin: new PassThrough(),
+      stdout: new PassThrough(),
+      stderr: new PassThrough(),
+    });
+    mockedSpawn.mockImplementation(() => {
+      queueMicrotask(() => child.emit('spawn'));
+      return child;
+    });
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => {
+      child.emit('close', null, 'SIGTERM');
+      return true;
+    });
+    process.env.SANDBOX_TEST_SECRET = 'host-secret';
+    const service = new ShellService({ sandbox: { enabled: true, backgroundTimeoutMs: 50 } });
+
+    const started = await service.startBackground('sleep 1000', { timeout: 60_000 });
+    delete process.env.SANDBOX_TEST_SECRET;
+    expect(mockedSpawn.mock.calls[0][0]).toBe('bwrap');
+    expect(mockedSpawn.mock.calls[0][2].env).not.toHaveProperty('SANDBOX_TEST_SECRET');
+
+    await vi.waitFor(() => expect(service.getProcess(started.id).status).toBe('timed_out'));
+    expect(kill).toHaveBeenCalledWith(-4242, 'SIGTERM');
+    kill.mockRestore();
+  });
+
+  it('still applies the pattern checks', async () => {
+    mockSandboxAvailable();
+    const service = new ShellService({ sandbox: { enabled: true } });
+
+    const result = await service.execute('rm -rf /');
+
+    expect(result.stderr).toMatch(/Security violation/);
+    expect(mockedExecFile).not.toHaveBeenCalled();
+  });
+
+  it('leaves commands unsandboxed when disabled', async () => {
+    mockedExec.mockImplementation((_cmd, _opts, cb) => {
+      cb(null, { stdout: 'plain\n', stderr: '' });
+      return { kill: vi.fn() } as any;
+    });
+    const service = new ShellService({ sandbox: { enabled: false } });
+
+    const result = await service.execute('echo plain');
+
+    expect(result.sandboxed).toBeUndefined();
+    expect(mockedExecFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('createExtensionPack sandbox option', () => {
+  it('makes only the agent workspace writable by default', async () => {
+    mockSandboxAvailable();
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentos-sandbox-'));
+    const workspace = path.join(baseDir, 'agent-1');
+
+    const pack = createExtensionPack({
+      options: { agentWorkspace: { agentId: 'agent-1', baseDir }, sandbox: { enabled: true } },
+    });
+    const tool = pack.descriptors.find((d: any) => d.id === 'shell_execute').payload;
+    await tool.execute({ command: 'touch out.txt' }, ctx);
+
+    const args = mockedExecFile.mock.calls[1][1];
+    const binds = args.flatMap((arg, i) => (arg === '--bind' ? [args[i + 1]] : []));
+    expect(binds).toEqual([workspace]);
+    expect(args.join(' ')).toContain(`--chdir ${workspace}`);
+
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+});
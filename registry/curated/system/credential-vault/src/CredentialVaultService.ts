@@ -2,12 +2,28 @@
 /**
  * @fileoverview Credential Vault service layer.
  *
- * Provides AES-256-GCM encrypted in-memory credential storage
- * with platform-scoped keys, rotation, and import/export support.
+ * Provides AES-256-GCM encrypted credential storage with platform-scoped
+ * keys, rotation, and import/export support. Credentials live in memory and,
+ * when a store is configured, are persisted (still encrypted) after every
+ * change. Every access is recorded in a hash-chained audit log, and tools
+ * can be handed short-lived leases scoped to a single platform.
  * Uses Node.js built-in crypto module (no external dependencies).
  */
 
 import * as crypto from 'crypto';
+import { CredentialAuditLog } from './audit/CredentialAuditLog.js';
+import type { CredentialActor } from './audit/types.js';
+import {
+  VAULT_FORMAT_VERSION,
+  createKdfParams,
+  createKeyCheck,
+  deriveMasterKey,
+  open,
+  seal,
+  verifyKeyCheck,
+} from './envelope.js';
+import type { SealedValue, VaultKdfParams } from './envelope.js';
+import type { ICredentialVaultStore, VaultDocument } from './stores/types.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -17,11 +33,17 @@ export interface CredentialEntry {
   platform: string;
   key: string;
   encryptedValue: string;
+  /** Per-entry HKDF salt; each entry is encrypted under its own subkey */
+  salt: string;
   iv: string;
   authTag: string;
   createdAt: string;
   updatedAt: string;
   rotatedAt?: string;
+  /** ISO timestamp after which the credential no longer works */
+  expiresAt?: string;
+  /** Rotation policy: rotate once this many ms have passed since the last rotation (or creation) */
+  rotateEvery?: number;
 }
 
 export interface CredentialInfo {
@@ -31,6 +53,72 @@ export interface CredentialInfo {
   createdAt: string;
   updatedAt: string;
   rotatedAt?: string;
+  expiresAt?: string;
+  rotateEvery?: number;
+}
+
+/** Expiry and rotation policy for a credential; `null` clears a field */
+export interface CredentialMetadata {
+  expiresAt?: string | null;
+  rotateEvery?: number | null;
+}
+
+export type CredentialHealthStatus = 'ok' | 'expiring' | 'rotation_due' | 'expired';
+
+export interface CredentialHealth {
+  platform: string;
+  key: string;
+  /** Most urgent condition; `expired` beats `rotation_due` beats `expiring` */
+  status: CredentialHealthStatus;
+  expiresAt?: string;
+  rotateEvery?: number;
+  /** When the rotation policy next calls for a new value */
+  nextRotationAt?: string;
+  warnings: string[];
+}
+
+export interface CredentialHealthOptions {
+  /** Flag credentials expiring within this window (default 7 days) */
+  warnWithinMs?: number;
+  now?: number;
+}
+
+export interface CredentialVaultServiceOptions {
+  /** Where the encrypted vault is persisted; omit for a memory-only vault */
+  store?: ICredentialVaultStore;
+  /** Access log (default: in-memory) */
+  auditLog?: CredentialAuditLog;
+  /** Upper bound on lease lifetimes (default 1 hour) */
+  maxLeaseTtlMs?: number;
+  /**
+   * Principals (user IDs) allowed to issue leases. When set, every lease
+   * needs an `issuedBy` from this list that is not the agent it is issued
+   * to, so an agent cannot grant itself access. Unset, anyone can issue.
+   */
+  leaseIssuers?: string[];
+}
+
+/** Time-boxed permission to read credentials of one platform */
+export interface CredentialLease {
+  id: string;
+  platform: string;
+  /** Keys the lease covers; every key on the platform when omitted */
+  keys?: string[];
+  issuedTo?: CredentialActor;
+  /** Principal that granted the lease */
+  issuedBy?: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface IssueLeaseOptions {
+  keys?: string[];
+  /** Lease lifetime (default 5 minutes) */
+  ttlMs?: number;
+  /** Who the lease is for; recorded in the audit log. Reads are limited to `issuedTo.agentId` when set */
+  issuedTo?: CredentialActor;
+  /** Principal granting the lease; must be one of `leaseIssuers` when those are configured */
+  issuedBy?: string;
 }
 
 export interface ImportResult {
@@ -45,21 +133,70 @@ export interface ImportResult {
 
 export class CredentialVaultService {
   private store: Map<string, CredentialEntry> = new Map();
-  private masterKey: Buffer;
+  private masterKey: Buffer | null = null;
+  private kdf: VaultKdfParams | null = null;
+  private keyCheck: SealedValue | null = null;
+  private persistence: ICredentialVaultStore | null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** Settles when an in-flight {@link rekey} finishes; null when none is running */
+  private rekeying: Promise<void> | null = null;
+  private auditLog: CredentialAuditLog;
+  private leases: Map<string, CredentialLease> = new Map();
+  private maxLeaseTtlMs: number;
+  private leaseIssuers: ReadonlySet<string> | null;
   private running = false;
 
-  constructor(passphrase: string) {
-    // Derive a 256-bit key from the passphrase using scrypt
-    this.masterKey = crypto.scryptSync(passphrase, 'agentos-credential-vault-salt', 32);
+  constructor(
+    private passphrase: string,
+    options: CredentialVaultServiceOptions = {},
+  ) {
+    this.persistence = options.store ?? null;
+    this.auditLog = options.auditLog ?? new CredentialAuditLog();
+    this.maxLeaseTtlMs = options.maxLeaseTtlMs ?? 60 * 60_000;
+    this.leaseIssuers = options.leaseIssuers ? new Set(options.leaseIssuers) : null;
   }
 
+  /**
+   * Derive the master key and load persisted credentials, if any.
+   *
+   * @throws If the stored vault was written with a different passphrase
+   */
   async initialize(): Promise<void> {
+    if (this.running) return;
+
+    const doc = this.persistence ? await this.persistence.load() : null;
+
+    if (!doc) {
+      this.kdf = createKdfParams();
+      this.masterKey = await deriveMasterKey(this.passphrase, this.kdf);
+      this.keyCheck = createKeyCheck(this.masterKey);
+      this.running = true;
+      return;
+    }
+
+    if (doc.version > VAULT_FORMAT_VERSION) {
+      throw new Error(`Unsupported credential vault format version ${doc.version}`);
+    }
+
+    const masterKey = await deriveMasterKey(this.passphrase, doc.kdf);
+    if (!verifyKeyCheck(masterKey, doc.keyCheck)) {
+      throw new Error('Invalid vault passphrase');
+    }
+
+    this.masterKey = masterKey;
+    this.kdf = doc.kdf;
+    this.keyCheck = doc.keyCheck;
+    this.store = new Map(doc.entries.map((entry) => [this.buildKey(entry.platform, entry.key), entry]));
     this.running = true;
   }
 
   async shutdown(): Promise<void> {
-    // Clear all credentials from memory on shutdown
+    // Let pending writes land, then clear all credentials and key material from memory
+    await this.writeQueue;
+    await this.persistence?.close?.();
     this.store.clear();
+    this.leases.clear();
+    this.masterKey = null;
     this.running = false;
   }
 
@@ -69,38 +206,262 @@ export class CredentialVaultService {
 
   // ── Set Credential ──
 
-  async setCredential(platform: string, key: string, value: string): Promise<void> {
+  async setCredential(
+    platform: string,
+    key: string,
+    value: string,
+    actor?: CredentialActor,
+    metadata?: CredentialMetadata,
+  ): Promise<void> {
     this.requireRunning();
+    if (metadata) validateMetadata(metadata);
+    if (this.rekeying) await this.settleRekey();
 
-    const { encrypted, iv, authTag } = this.encrypt(value);
-    const storeKey = this.buildKey(platform, key);
-    const now = new Date().toISOString();
+    const entry = this.putEntry(platform, key, value);
+    if (metadata) applyMetadata(entry, metadata);
+    await this.persist();
+    await this.auditLog.record({ action: 'set', outcome: 'success', actor, platform, key });
+  }
 
-    const existing = this.store.get(storeKey);
+  /**
+   * Change a credential's expiry or rotation policy without touching its value.
+   *
+   * @returns false if there is no such credential
+   */
+  async setCredentialMetadata(
+    platform: string,
+    key: string,
+    metadata: CredentialMetadata,
+    actor?: CredentialActor,
+  ): Promise<boolean> {
+    this.requireRunning();
+    validateMetadata(metadata);
+    if (this.rekeying) await this.settleRekey();
 
-    this.store.set(storeKey, {
+    const entry = this.store.get(this.buildKey(platform, key));
+    if (!entry) {
+      await this.auditLog.record({ action: 'metadata', outcome: 'not_found', actor, platform, key });
+      return false;
+    }
+
+    applyMetadata(entry, metadata);
+    await this.persist();
+    await this.auditLog.record({
+      action: 'metadata',
+      outcome: 'success',
+      actor,
       platform,
       key,
-      encryptedValue: encrypted,
-      iv,
-      authTag,
-      createdAt: existing?.createdAt ?? now,
-      updatedAt: now,
-      rotatedAt: existing?.rotatedAt,
+      details: { expiresAt: entry.expiresAt, rotateEvery: entry.rotateEvery },
     });
+    return true;
+  }
+
+  // ── Rotate Credential ──
+
+  /**
+   * Replace an existing credential's value and stamp `rotatedAt`. Any
+   * previous `expiresAt` is dropped unless `metadata` supplies a new one.
+   *
+   * @returns false if there is no such credential
+   */
+  async rotateCredential(
+    platform: string,
+    key: string,
+    value: string,
+    actor?: CredentialActor,
+    metadata?: CredentialMetadata,
+  ): Promise<boolean> {
+    this.requireRunning();
+    if (metadata) validateMetadata(metadata);
+    if (this.rekeying) await this.settleRekey();
+
+    if (!this.store.has(this.buildKey(platform, key))) {
+      await this.auditLog.record({ action: 'rotate', outcome: 'not_found', actor, platform, key });
+      return false;
+    }
+
+    const entry = this.putEntry(platform, key, value);
+    entry.rotatedAt = entry.updatedAt;
+    // The old expiry belonged to the old value
+    applyMetadata(entry, { ...metadata, expiresAt: metadata?.expiresAt === undefined ? null : metadata.expiresAt });
+    await this.persist();
+    await this.auditLog.record({ action: 'rotate', outcome: 'success', actor, platform, key });
+    return true;
   }
 
   // ── Get Credential ──
 
-  async getCredential(platform: string, key: string): Promise<string | null> {
+  async getCredential(platform: string, key: string, actor?: CredentialActor): Promise<string | null> {
     this.requireRunning();
 
     const storeKey = this.buildKey(platform, key);
     const entry = this.store.get(storeKey);
 
-    if (!entry) return null;
+    if (!entry) {
+      await this.auditLog.record({ action: 'get', outcome: 'not_found', actor, platform, key });
+      return null;
+    }
+
+    const value = this.decrypt(entry);
+    // Record before handing out the plaintext: no audit entry, no credential
+    await this.auditLog.record({ action: 'get', outcome: 'success', actor, platform, key });
+    return value;
+  }
+
+  // ── Leases ──
+
+  /**
+   * Issue a short-lived lease that lets its holder read credentials of one
+   * platform (optionally only some keys) via {@link getCredentialWithLease}.
+   *
+   * A lease limits only the reads made through it; {@link getCredential}
+   * does not check for one. Hosts that want tool reads confined to leases
+   * configure `credentialsGet` with `requireLease`, and `leaseIssuers` so
+   * that the agent reading under a lease is not the one granting it.
+   *
+   * @throws If the TTL is out of range, or `issuedBy` may not issue this lease
+   */
+  async issueLease(platform: string, options: IssueLeaseOptions = {}): Promise<CredentialLease> {
+    this.requireRunning();
+
+    const ttlMs = options.ttlMs ?? 5 * 60_000;
+    if (!(ttlMs > 0) || ttlMs > this.maxLeaseTtlMs) {
+      throw new Error(`Lease TTL must be between 1 and ${this.maxLeaseTtlMs} ms`);
+    }
+
+    if (this.leaseIssuers) {
+      let denial: string | null = null;
+      if (!options.issuedBy || !this.leaseIssuers.has(options.issuedBy)) {
+        denial = `${options.issuedBy ?? 'Caller'} is not a configured lease issuer`;
+      } else if (options.issuedBy === options.issuedTo?.agentId) {
+        denial = 'An agent cannot issue a lease to itself';
+      }
+      if (denial) {
+        await this.auditLog.record({
+          action: 'lease.issue',
+          outcome: 'denied',
+          actor: options.issuedTo,
+          platform,
+          reason: denial,
+          details: { issuedBy: options.issuedBy },
+        });
+        throw new Error(denial);
+      }
+    }
+
+    const now = Date.now();
+    const lease: CredentialLease = {
+      id: crypto.randomBytes(24).toString('hex'),
+      platform,
+      keys: options.keys?.length ? [...options.keys] : undefined,
+      issuedTo: options.issuedTo,
+      issuedBy: options.issuedBy,
+      issuedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+
+    this.leases.set(lease.id, lease);
+    await this.auditLog.record({
+      action: 'lease.issue',
+      outcome: 'success',
+      actor: options.issuedTo,
+      platform,
+      leaseRef: leaseRef(lease.id),
+      details: { keys: lease.keys, expiresAt: lease.expiresAt, issuedBy: lease.issuedBy },
+    });
+    return { ...lease };
+  }
+
+  /**
+   * Read a credential under a lease.
+   *
+   * @throws If the lease is unknown, expired or doesn't cover `platform`/`key`
+   */
+  async getCredentialWithLease(
+    leaseId: string,
+    platform: string,
+    key: string,
+    actor?: CredentialActor,
+  ): Promise<string | null> {
+    this.requireRunning();
 
-    return this.decrypt(entry.encryptedValue, entry.iv, entry.authTag);
+    const lease = this.leases.get(leaseId);
+    let denial: string | null = null;
+    if (!lease) {
+      denial = 'Unknown or revoked lease';
+    } else if (Date.parse(lease.expiresAt) <= Date.now()) {
+      this.leases.delete(leaseId);
+      denial = `Lease expired at ${lease.expiresAt}`;
+    } else if (lease.platform !== platform || (lease.keys && !lease.keys.includes(key))) {
+      denial = `Lease does not cover ${platform}/${key}`;
+    } else if (lease.issuedTo?.agentId && lease.issuedTo.agentId !== actor?.agentId) {
+      denial = 'Lease was issued to another agent';
+    }
+
+    if (denial) {
+      await this.auditLog.record({
+        action: 'get',
+        outcome: 'denied',
+        actor,
+        platform,
+        key,
+        leaseRef: leaseRef(leaseId),
+        reason: denial,
+      });
+      throw new Error(denial);
+    }
+
+    const entry = this.store.get(this.buildKey(platform, key));
+    if (!entry) {
+      await this.auditLog.record({ action: 'get', outcome: 'not_found', actor, platform, key, leaseRef: leaseRef(leaseId) });
+      return null;
+    }
+
+    const value = this.decrypt(entry);
+    await this.auditLog.record({ action: 'get', outcome: 'success', actor, platform, key, leaseRef: leaseRef(leaseId) });
+    return value;
+  }
+
+  async revokeLease(leaseId: string, actor?: CredentialActor): Promise<boolean> {
+    this.requireRunning();
+
+    const lease = this.leases.get(leaseId);
+    if (!lease) return false;
+
+    this.leases.delete(leaseId);
+    await this.auditLog.record({
+      action: 'lease.revoke',
+      outcome: 'success',
+      actor,
+      platform: lease.platform,
+      leaseRef: leaseRef(leaseId),
+    });
+    return true;
+  }
+
+  /** Whether lease issuance is restricted to configured `leaseIssuers` */
+  hasLeaseIssuers(): boolean {
+    return this.leaseIssuers !== null;
+  }
+
+  /** Unexpired leases, optionally for one platform */
+  listLeases(platform?: string): CredentialLease[] {
+    const now = Date.now();
+    const active: CredentialLease[] = [];
+
+    for (const [id, lease] of this.leases) {
+      if (Date.parse(lease.expiresAt) <= now) {
+        this.leases.delete(id);
+        continue;
+      }
+      if (!platform || lease.platform === platform) active.push({ ...lease });
+    }
+    return active;
+  }
+
+  getAuditLog(): CredentialAuditLog {
+    return this.auditLog;
   }
 
   // ── List Credentials ──
@@ -112,34 +473,108 @@ export class CredentialVaultService {
 
     for (const entry of this.store.values()) {
       if (platform && entry.platform !== platform) continue;
+      results.push(this.toInfo(entry));
+    }
+
+    return results.sort((a, b) => {
+      const cmp = a.platform.localeCompare(b.platform);
+      return cmp !== 0 ? cmp : a.key.localeCompare(b.key);
+    });
+  }
+
+  /** Metadata and masked value of one credential, without touching the others */
+  getCredentialInfo(platform: string, key: string): CredentialInfo | null {
+    this.requireRunning();
+    const entry = this.store.get(this.buildKey(platform, key));
+    return entry ? this.toInfo(entry) : null;
+  }
+
+  private toInfo(entry: CredentialEntry): CredentialInfo {
+    // Decrypt to get value length for masking, then discard
+    const maskedValue = this.maskValue(this.decrypt(entry));
+    return {
+      platform: entry.platform,
+      key: entry.key,
+      maskedValue,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+      rotatedAt: entry.rotatedAt,
+      expiresAt: entry.expiresAt,
+      rotateEvery: entry.rotateEvery,
+    };
+  }
+
+  // ── Credential Health ──
+
+  /**
+   * Expiry and rotation status of every credential that has a policy, most
+   * urgent first. Values are never decrypted.
+   */
+  getCredentialHealth(options: CredentialHealthOptions = {}): CredentialHealth[] {
+    this.requireRunning();
+
+    const now = options.now ?? Date.now();
+    const warnWithinMs = options.warnWithinMs ?? 7 * 24 * 60 * 60_000;
+    const results: CredentialHealth[] = [];
 
-      // Decrypt to get value length for masking, then discard
-      const value = this.decrypt(entry.encryptedValue, entry.iv, entry.authTag);
-      const maskedValue = this.maskValue(value);
+    for (const entry of this.store.values()) {
+      if (!entry.expiresAt && !entry.rotateEvery) continue;
+
+      const name = `${entry.platform}/${entry.key}`;
+      const warnings: string[] = [];
+      let status: CredentialHealthStatus = 'ok';
+      let nextRotationAt: string | undefined;
+
+      if (entry.rotateEvery) {
+        const next = Date.parse(entry.rotatedAt ?? entry.createdAt) + entry.rotateEvery;
+        nextRotationAt = new Date(next).toISOString();
+        if (next <= now) {
+          status = 'rotation_due';
+          warnings.push(`${name} is past its rotation age (due ${formatAge(now - next)} ago)`);
+        }
+      }
+
+      if (entry.expiresAt) {
+        const expires = Date.parse(entry.expiresAt);
+        if (expires <= now) {
+          status = 'expired';
+          warnings.unshift(`${name} expired ${formatAge(now - expires)} ago`);
+        } else if (expires - now <= warnWithinMs) {
+          if (status === 'ok') status = 'expiring';
+          warnings.push(`${name} expires in ${formatAge(expires - now)}`);
+        }
+      }
 
       results.push({
         platform: entry.platform,
         key: entry.key,
-        maskedValue,
-        createdAt: entry.createdAt,
-        updatedAt: entry.updatedAt,
-        rotatedAt: entry.rotatedAt,
+        status,
+        expiresAt: entry.expiresAt,
+        rotateEvery: entry.rotateEvery,
+        nextRotationAt,
+        warnings,
       });
     }
 
-    return results.sort((a, b) => {
-      const cmp = a.platform.localeCompare(b.platform);
-      return cmp !== 0 ? cmp : a.key.localeCompare(b.key);
-    });
+    return results.sort(
+      (a, b) =>
+        HEALTH_SEVERITY[b.status] - HEALTH_SEVERITY[a.status] ||
+        a.platform.localeCompare(b.platform) ||
+        a.key.localeCompare(b.key),
+    );
   }
 
   // ── Delete Credential ──
 
-  async deleteCredential(platform: string, key: string): Promise<boolean> {
+  async deleteCredential(platform: string, key: string, actor?: CredentialActor): Promise<boolean> {
     this.requireRunning();
+    if (this.rekeying) await this.settleRekey();
 
     const storeKey = this.buildKey(platform, key);
-    return this.store.delete(storeKey);
+    const deleted = this.store.delete(storeKey);
+    if (deleted) await this.persist();
+    await this.auditLog.record({ action: 'delete', outcome: deleted ? 'success' : 'not_found', actor, platform, key });
+    return deleted;
   }
 
   // ── Import Credentials ──
@@ -147,10 +582,13 @@ export class CredentialVaultService {
   async importCredentials(
     data: string,
     format: 'json' | 'csv' = 'json',
+    actor?: CredentialActor,
   ): Promise<ImportResult> {
     this.requireRunning();
+    if (this.rekeying) await this.settleRekey();
 
     const result: ImportResult = { imported: 0, skipped: 0, errors: [] };
+    const importedKeys: string[] = [];
 
     if (format === 'json') {
       try {
@@ -165,7 +603,8 @@ export class CredentialVaultService {
           }
 
           try {
-            await this.setCredential(entry.platform, entry.key, entry.value);
+            this.putEntry(entry.platform, entry.key, entry.value);
+            importedKeys.push(this.buildKey(entry.platform, entry.key));
             result.imported++;
           } catch (err: any) {
             result.errors.push(`Failed to import ${entry.platform}/${entry.key}: ${err.message}`);
@@ -193,7 +632,8 @@ export class CredentialVaultService {
         const [platform, key, value] = parts;
 
         try {
-          await this.setCredential(platform.trim(), key.trim(), value.trim());
+          this.putEntry(platform.trim(), key.trim(), value.trim());
+          importedKeys.push(this.buildKey(platform.trim(), key.trim()));
           result.imported++;
         } catch (err: any) {
           result.errors.push(`Line ${i + 1}: ${err.message}`);
@@ -202,12 +642,22 @@ export class CredentialVaultService {
       }
     }
 
+    if (result.imported > 0) await this.persist();
+    await this.auditLog.record({
+      action: 'import',
+      outcome: result.imported > 0 || result.errors.length === 0 ? 'success' : 'error',
+      actor,
+      details: { format, imported: result.imported, skipped: result.skipped, keys: importedKeys },
+    });
     return result;
   }
 
   // ── Export Credentials ──
 
-  async exportCredentials(platform?: string): Promise<Array<{ platform: string; key: string; value: string }>> {
+  async exportCredentials(
+    platform?: string,
+    actor?: CredentialActor,
+  ): Promise<Array<{ platform: string; key: string; value: string }>> {
     this.requireRunning();
 
     const exported: Array<{ platform: string; key: string; value: string }> = [];
@@ -215,44 +665,146 @@ export class CredentialVaultService {
     for (const entry of this.store.values()) {
       if (platform && entry.platform !== platform) continue;
 
-      const value = this.decrypt(entry.encryptedValue, entry.iv, entry.authTag);
+      const value = this.decrypt(entry);
       exported.push({ platform: entry.platform, key: entry.key, value });
     }
 
+    await this.auditLog.record({
+      action: 'export',
+      outcome: 'success',
+      actor,
+      platform,
+      details: { count: exported.length },
+    });
+
     return exported.sort((a, b) => {
       const cmp = a.platform.localeCompare(b.platform);
       return cmp !== 0 ? cmp : a.key.localeCompare(b.key);
     });
   }
 
+  // ── Re-key ──
+
+  /**
+   * Re-encrypt every credential under a new passphrase (and a fresh salt).
+   *
+   * The re-encrypted vault is saved in a single write before the in-memory
+   * state switches over, so a failure leaves the old passphrase in effect.
+   * The re-key takes its turn on the write queue, and changes requested
+   * while it runs wait for it, so nothing is saved under the old key after
+   * the re-keyed vault.
+   */
+  async rekey(newPassphrase: string, actor?: CredentialActor): Promise<void> {
+    this.requireRunning();
+    if (!newPassphrase) throw new Error('New passphrase must not be empty');
+    if (this.rekeying) await this.settleRekey();
+
+    const write = this.writeQueue.then(() => this.reencrypt(newPassphrase));
+    this.writeQueue = write.catch(() => {});
+    const rekeying = this.writeQueue.then(() => {
+      this.rekeying = null;
+    });
+    this.rekeying = rekeying;
+
+    await write;
+    await this.auditLog.record({ action: 'rekey', outcome: 'success', actor, details: { entries: this.store.size } });
+  }
+
+  /**
+   * Wait out an in-flight re-key, so no change is sealed under the key it
+   * replaces. Callers check `rekeying` first, so that without a re-key they
+   * make their change without yielding to one that starts meanwhile.
+   */
+  private async settleRekey(): Promise<void> {
+    while (this.rekeying) await this.rekeying;
+  }
+
+  /** Seal every entry under a key derived from `passphrase`, save, then switch over */
+  private async reencrypt(passphrase: string): Promise<void> {
+    const kdf = createKdfParams();
+    const masterKey = await deriveMasterKey(passphrase, kdf);
+    const entries = new Map<string, CredentialEntry>();
+
+    for (const [storeKey, entry] of this.store) {
+      const sealed = seal(masterKey, storeKey, this.decrypt(entry));
+      entries.set(storeKey, {
+        ...entry,
+        encryptedValue: sealed.ciphertext,
+        salt: sealed.salt,
+        iv: sealed.iv,
+        authTag: sealed.authTag,
+      });
+    }
+
+    const keyCheck = createKeyCheck(masterKey);
+    if (this.persistence) {
+      await this.persistence.save(this.buildDocument(kdf, keyCheck, entries));
+    }
+
+    this.passphrase = passphrase;
+    this.masterKey = masterKey;
+    this.kdf = kdf;
+    this.keyCheck = keyCheck;
+    this.store = entries;
+  }
+
   // ── Private: Encryption ──
 
-  private encrypt(plaintext: string): { encrypted: string; iv: string; authTag: string } {
-    const iv = crypto.randomBytes(12); // 96-bit IV for GCM
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv);
+  private putEntry(platform: string, key: string, value: string): CredentialEntry {
+    const storeKey = this.buildKey(platform, key);
+    const sealed = seal(this.masterKey!, storeKey, value);
+    const now = new Date().toISOString();
 
-    let encrypted = cipher.update(plaintext, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+    const existing = this.store.get(storeKey);
 
-    const authTag = cipher.getAuthTag().toString('hex');
+    this.store.set(storeKey, {
+      platform,
+      key,
+      encryptedValue: sealed.ciphertext,
+      salt: sealed.salt,
+      iv: sealed.iv,
+      authTag: sealed.authTag,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      rotatedAt: existing?.rotatedAt,
+      expiresAt: existing?.expiresAt,
+      rotateEvery: existing?.rotateEvery,
+    });
+    return this.store.get(storeKey)!;
+  }
 
-    return {
-      encrypted,
-      iv: iv.toString('hex'),
-      authTag,
-    };
+  private decrypt(entry: CredentialEntry): string {
+    return open(this.masterKey!, this.buildKey(entry.platform, entry.key), {
+      salt: entry.salt,
+      iv: entry.iv,
+      authTag: entry.authTag,
+      ciphertext: entry.encryptedValue,
+    });
   }
 
-  private decrypt(encryptedHex: string, ivHex: string, authTagHex: string): string {
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, iv);
-    decipher.setAuthTag(authTag);
+  // ── Private: Persistence ──
 
-    let decrypted = decipher.update(encryptedHex, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+  /** Queue a save of the current state; saves run one at a time in call order */
+  private persist(): Promise<void> {
+    if (!this.persistence) return Promise.resolve();
+
+    const doc = this.buildDocument(this.kdf!, this.keyCheck!, this.store);
+    const write = this.writeQueue.then(() => this.persistence!.save(doc));
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
 
-    return decrypted;
+  private buildDocument(
+    kdf: VaultKdfParams,
+    keyCheck: SealedValue,
+    entries: Map<string, CredentialEntry>,
+  ): VaultDocument {
+    return {
+      version: VAULT_FORMAT_VERSION,
+      kdf,
+      keyCheck,
+      entries: [...entries.values()].map((entry) => ({ ...entry })),
+    };
   }
 
   // ── Private: Helpers ──
@@ -298,3 +850,41 @@ export class CredentialVaultService {
     if (!this.running) throw new Error('CredentialVaultService not initialized');
   }
 }
+
+const HEALTH_SEVERITY: Record<CredentialHealthStatus, number> = {
+  ok: 0,
+  expiring: 1,
+  rotation_due: 2,
+  expired: 3,
+};
+
+function validateMetadata(metadata: CredentialMetadata): void {
+  if (metadata.expiresAt != null && Number.isNaN(Date.parse(metadata.expiresAt))) {
+    throw new Error(`Invalid expiresAt: ${metadata.expiresAt}`);
+  }
+  if (metadata.rotateEvery != null && !(metadata.rotateEvery > 0)) {
+    throw new Error(`Invalid rotateEvery: ${metadata.rotateEvery}`);
+  }
+}
+
+/** Callers validate first, so a bad field never leaves a change half-applied */
+function applyMetadata(entry: CredentialEntry, metadata: CredentialMetadata): void {
+  if (metadata.expiresAt !== undefined) {
+    entry.expiresAt = metadata.expiresAt === null ? undefined : new Date(metadata.expiresAt).toISOString();
+  }
+  if (metadata.rotateEvery !== undefined) {
+    entry.rotateEvery = metadata.rotateEvery ?? undefined;
+  }
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function leaseRef(leaseId: string): string {
+  return leaseId.slice(0, 12);
+}
@@ -0,0 +1,120 @@
+// @ts-nocheck
+/**
+ * @fileoverview Append-only, hash-chained log of credential vault access.
+ */
+
+import * as crypto from 'crypto';
+import { InMemoryCredentialAuditStore } from './InMemoryCredentialAuditStore.js';
+import type {
+  CredentialAuditEntry,
+  CredentialAuditEvent,
+  CredentialAuditQuery,
+  CredentialAuditVerification,
+  ICredentialAuditStore,
+} from './types.js';
+
+/** `prevHash` of the first entry */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Records who accessed which credential and when. Each entry stores the hash
+ * of the one before it, so {@link verify} detects any entry that was edited,
+ * removed or reordered after the fact. Entries never contain credential values.
+ */
+export class CredentialAuditLog {
+  private store: ICredentialAuditStore;
+  private head: Promise<{ seq: number; hash: string }> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(store?: ICredentialAuditStore) {
+    this.store = store ?? new InMemoryCredentialAuditStore();
+  }
+
+  /** Append an event; appends are serialized so the chain stays linear */
+  record(event: CredentialAuditEvent): Promise<CredentialAuditEntry> {
+    const write = this.queue.then(async () => {
+      const head = await this.getHead();
+      const body = {
+        seq: head.seq + 1,
+        timestamp: new Date().toISOString(),
+        ...stripUndefined(event),
+        prevHash: head.hash,
+      };
+      const entry = { ...body, hash: hashEntry(body) } as CredentialAuditEntry;
+
+      await this.store.append(entry);
+      this.head = Promise.resolve({ seq: entry.seq, hash: entry.hash });
+      return entry;
+    });
+    this.queue = write.catch(() => {});
+    return write;
+  }
+
+  /** Matching entries, oldest first */
+  async query(filter: CredentialAuditQuery = {}): Promise<CredentialAuditEntry[]> {
+    await this.queue;
+    const matches = (await this.store.readAll()).filter(
+      (entry) =>
+        (!filter.platform || entry.platform === filter.platform) &&
+        (!filter.key || entry.key === filter.key) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.agentId || entry.actor?.agentId === filter.agentId) &&
+        (!filter.toolId || entry.actor?.toolId === filter.toolId) &&
+        (!filter.since || entry.timestamp >= filter.since),
+    );
+    return filter.limit ? matches.slice(-filter.limit) : matches;
+  }
+
+  /** Recompute the chain and report the first entry that doesn't fit */
+  async verify(): Promise<CredentialAuditVerification> {
+    await this.queue;
+    const entries = await this.store.readAll();
+    let prevHash = AUDIT_GENESIS_HASH;
+
+    for (let i = 0; i < entries.length; i++) {
+      const { hash, ...body } = entries[i];
+      if (body.seq !== i + 1 || body.prevHash !== prevHash || hashEntry(body) !== hash) {
+        return { valid: false, entries: entries.length, brokenAt: body.seq ?? i + 1 };
+      }
+      prevHash = hash;
+    }
+
+    return { valid: true, entries: entries.length };
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+    await this.store.close?.();
+  }
+
+  private getHead(): Promise<{ seq: number; hash: string }> {
+    if (!this.head) {
+      this.head = this.store.readAll().then((entries) => {
+        const last = entries[entries.length - 1];
+        return last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: AUDIT_GENESIS_HASH };
+      });
+      this.head.catch(() => {
+        this.head = null;
+      });
+    }
+    return this.head;
+  }
+}
+
+function hashEntry(body: Omit<CredentialAuditEntry, 'hash'>): string {
+  return crypto.createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+/** JSON with sorted object keys, so the hash doesn't depend on property order */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((k) => (value as any)[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson((value as any)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function stripUndefined<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
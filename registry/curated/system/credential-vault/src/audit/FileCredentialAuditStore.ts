@@ -0,0 +1,38 @@
+// @ts-nocheck
+/**
+ * @fileoverview JSON Lines audit store: one entry per line, only ever appended to.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { CredentialAuditEntry, ICredentialAuditStore } from './types.js';
+
+export class FileCredentialAuditStore implements ICredentialAuditStore {
+  constructor(private filePath: string) {}
+
+  async append(entry: CredentialAuditEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  async readAll(): Promise<CredentialAuditEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    return raw
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as CredentialAuditEntry;
+        } catch {
+          throw new Error(`Corrupt credential audit log ${this.filePath} at line ${i + 1}`);
+        }
+      });
+  }
+}
@@ -0,0 +1,18 @@
+// @ts-nocheck
+/**
+ * @fileoverview In-process audit store; entries are lost on restart.
+ */
+
+import type { CredentialAuditEntry, ICredentialAuditStore } from './types.js';
+
+export class InMemoryCredentialAuditStore implements ICredentialAuditStore {
+  private entries: CredentialAuditEntry[] = [];
+
+  async append(entry: CredentialAuditEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async readAll(): Promise<CredentialAuditEntry[]> {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+}
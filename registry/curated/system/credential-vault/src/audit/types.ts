@@ -0,0 +1,79 @@
+// @ts-nocheck
+/**
+ * @fileoverview Types for the credential access audit log.
+ */
+
+/** Who touched a credential. Tools fill this from their execution context. */
+export interface CredentialActor {
+  /** Calling agent (GMI) */
+  agentId?: string;
+  /** Tool that made the call */
+  toolId?: string;
+  userId?: string;
+}
+
+export type CredentialAuditAction =
+  | 'get'
+  | 'set'
+  | 'rotate'
+  | 'metadata'
+  | 'delete'
+  | 'export'
+  | 'import'
+  | 'rekey'
+  | 'lease.issue'
+  | 'lease.revoke';
+
+export type CredentialAuditOutcome = 'success' | 'not_found' | 'denied' | 'error';
+
+export interface CredentialAuditEvent {
+  action: CredentialAuditAction;
+  outcome: CredentialAuditOutcome;
+  actor?: CredentialActor;
+  platform?: string;
+  key?: string;
+  /** First characters of the lease ID; full IDs are bearer secrets and never logged */
+  leaseRef?: string;
+  /** Why the call was denied or failed */
+  reason?: string;
+  /** Action-specific counts and timestamps; never credential values */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One link in the audit chain. `hash` covers every other field including
+ * `prevHash`, so editing, dropping or reordering entries breaks the chain.
+ */
+export interface CredentialAuditEntry extends CredentialAuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface CredentialAuditQuery {
+  platform?: string;
+  key?: string;
+  action?: CredentialAuditAction;
+  agentId?: string;
+  toolId?: string;
+  /** ISO timestamp; only entries at or after it */
+  since?: string;
+  /** Most recent N entries (default: all) */
+  limit?: number;
+}
+
+export interface CredentialAuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Sequence number of the first entry that fails verification */
+  brokenAt?: number;
+}
+
+/** Append-only persistence for audit entries */
+export interface ICredentialAuditStore {
+  append(entry: CredentialAuditEntry): Promise<void>;
+  /** Every entry, oldest first */
+  readAll(): Promise<CredentialAuditEntry[]>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,128 @@
+// @ts-nocheck
+/**
+ * @fileoverview Versioned encryption envelope for persisted vaults.
+ *
+ * The master key is derived with scrypt from the passphrase and a random
+ * per-vault salt. Each entry is then encrypted with AES-256-GCM under its own
+ * subkey, derived with HKDF from the master key and a random per-entry salt,
+ * and authenticated against its `platform::key` identity so ciphertexts can't
+ * be swapped between entries.
+ */
+
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Current on-disk vault format. Bump when the layout or crypto changes. */
+export const VAULT_FORMAT_VERSION = 1;
+
+export interface VaultKdfParams {
+  algorithm: 'scrypt';
+  /** Hex-encoded random per-vault salt */
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  keyLength: 32;
+}
+
+export interface SealedValue {
+  /** Hex-encoded random per-entry HKDF salt */
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+const KEY_CHECK_PLAINTEXT = 'agentos-credential-vault-key-check';
+const KEY_CHECK_AAD = '__key_check__';
+const HKDF_INFO = 'agentos-credential-vault/v1/entry';
+
+// ---------------------------------------------------------------------------
+// Key derivation
+// ---------------------------------------------------------------------------
+
+export function createKdfParams(): VaultKdfParams {
+  return {
+    algorithm: 'scrypt',
+    salt: crypto.randomBytes(16).toString('hex'),
+    N: 16384,
+    r: 8,
+    p: 1,
+    keyLength: 32,
+  };
+}
+
+export async function deriveMasterKey(passphrase: string, kdf: VaultKdfParams): Promise<Buffer> {
+  if (kdf.algorithm !== 'scrypt') {
+    throw new Error(`Unsupported vault KDF: ${kdf.algorithm}`);
+  }
+  return scryptAsync(passphrase, Buffer.from(kdf.salt, 'hex'), kdf.keyLength, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 128 * kdf.N * kdf.r * 2,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Sealing
+// ---------------------------------------------------------------------------
+
+export function seal(masterKey: Buffer, aad: string, plaintext: string): SealedValue {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12); // 96-bit IV for GCM
+  const cipher = crypto.createCipheriv('aes-256-gcm', entryKey(masterKey, salt), iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    salt: salt.toString('hex'),
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+export function open(masterKey: Buffer, aad: string, sealed: SealedValue): string {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    entryKey(masterKey, Buffer.from(sealed.salt, 'hex')),
+    Buffer.from(sealed.iv, 'hex'),
+  );
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(Buffer.from(sealed.authTag, 'hex'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(sealed.ciphertext, 'hex')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/** Encrypt a fixed marker so a wrong passphrase is reported up front rather than per entry */
+export function createKeyCheck(masterKey: Buffer): SealedValue {
+  return seal(masterKey, KEY_CHECK_AAD, KEY_CHECK_PLAINTEXT);
+}
+
+export function verifyKeyCheck(masterKey: Buffer, keyCheck: SealedValue): boolean {
+  try {
+    return open(masterKey, KEY_CHECK_AAD, keyCheck) === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+function entryKey(masterKey: Buffer, salt: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, salt, HKDF_INFO, 32));
+}
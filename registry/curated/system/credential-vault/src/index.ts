@@ -2,18 +2,33 @@
 /**
  * @fileoverview Credential Vault Extension for AgentOS.
  *
- * Provides 5 tools for encrypted credential management — store, retrieve,
- * list, rotate, and import credentials using AES-256-GCM encryption.
+ * Provides 8 tools for encrypted credential management — store, retrieve,
+ * list, rotate, and import credentials using AES-256-GCM encryption, issue
+ * scoped leases, review the hash-chained access log, and check credentials
+ * for expiry and overdue rotation.
  *
  * @module @framers/agentos-ext-credential-vault
  */
 
 import { CredentialVaultService } from './CredentialVaultService.js';
+import { CredentialAuditLog } from './audit/CredentialAuditLog.js';
+import { FileCredentialAuditStore } from './audit/FileCredentialAuditStore.js';
+import { CredentialRotationScheduler } from './rotation/CredentialRotationScheduler.js';
+import type {
+  CredentialRotationHandler,
+  CredentialRotationSchedulerOptions,
+} from './rotation/CredentialRotationScheduler.js';
+import { EncryptedFileVaultStore } from './stores/EncryptedFileVaultStore.js';
+import { SqliteVaultStore } from './stores/SqliteVaultStore.js';
+import type { ICredentialVaultStore } from './stores/types.js';
 import { CredentialsSetTool } from './tools/set.js';
 import { CredentialsGetTool } from './tools/get.js';
 import { CredentialsListTool } from './tools/list.js';
 import { CredentialsRotateTool } from './tools/rotate.js';
 import { CredentialsImportTool } from './tools/import.js';
+import { CredentialsLeaseTool } from './tools/lease.js';
+import { CredentialsAccessLogTool } from './tools/accessLog.js';
+import { CredentialsHealthTool } from './tools/health.js';
 
 // ---------------------------------------------------------------------------
 // Options
@@ -22,6 +37,35 @@ import { CredentialsImportTool } from './tools/import.js';
 export interface CredentialVaultOptions {
   passphrase?: string;
   secrets?: Record<string, string>;
+  /** Persist the encrypted vault to this file; omit to keep credentials in memory only */
+  storePath?: string;
+  /** Backend for `storePath` (default `file`) */
+  storeType?: 'file' | 'sqlite';
+  /** Custom persistence backend; takes precedence over `storePath` */
+  store?: ICredentialVaultStore;
+  /** Append the access audit log to this JSON Lines file; omit to keep it in memory */
+  auditLogPath?: string;
+  /** Upper bound on lease lifetimes in milliseconds (default 1 hour) */
+  maxLeaseTtlMs?: number;
+  /**
+   * Make `credentialsGet` read only under a lease, so an expired or revoked
+   * lease cuts off the tool's access. Without it leases are advisory:
+   * `credentialsGet` without a `leaseId` reads any credential.
+   *
+   * With `requireLease`, `credentialsLease` issues leases only when
+   * `leaseIssuers` are configured; otherwise leases come only from host code
+   * calling `CredentialVaultService.issueLease`.
+   */
+  requireLease?: boolean;
+  /** User IDs allowed to issue leases through `credentialsLease` (never to themselves) */
+  leaseIssuers?: string[];
+  /**
+   * Rotation handlers keyed by platform (`github`) or platform and key
+   * (`github::accessToken`). The rotation scheduler runs while the extension
+   * is active if any are given.
+   */
+  rotationHandlers?: Record<string, CredentialRotationHandler>;
+  rotation?: CredentialRotationSchedulerOptions;
 }
 
 // ---------------------------------------------------------------------------
@@ -37,6 +81,14 @@ function resolvePassphrase(opts: CredentialVaultOptions, secrets: Record<string,
   );
 }
 
+function resolveStore(opts: CredentialVaultOptions): ICredentialVaultStore | undefined {
+  if (opts.store) return opts.store;
+  if (!opts.storePath) return undefined;
+  return opts.storeType === 'sqlite'
+    ? new SqliteVaultStore({ filePath: opts.storePath })
+    : new EncryptedFileVaultStore(opts.storePath);
+}
+
 // ---------------------------------------------------------------------------
 // Extension Context (matches AgentOS extension protocol)
 // ---------------------------------------------------------------------------
@@ -63,13 +115,29 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
   const secrets = opts.secrets ?? context.secrets ?? {};
   const passphrase = resolvePassphrase(opts, secrets);
 
-  const service = new CredentialVaultService(passphrase);
+  const service = new CredentialVaultService(passphrase, {
+    store: resolveStore(opts),
+    auditLog: new CredentialAuditLog(
+      opts.auditLogPath ? new FileCredentialAuditStore(opts.auditLogPath) : undefined,
+    ),
+    maxLeaseTtlMs: opts.maxLeaseTtlMs,
+    leaseIssuers: opts.leaseIssuers,
+  });
+
+  const scheduler = new CredentialRotationScheduler(service, opts.rotation);
+  for (const [target, handler] of Object.entries(opts.rotationHandlers ?? {})) {
+    const [platform, key] = target.split('::');
+    scheduler.registerHandler(platform, handler, key);
+  }
 
   const setTool = new CredentialsSetTool(service);
-  const getTool = new CredentialsGetTool(service);
+  const getTool = new CredentialsGetTool(service, { requireLease: opts.requireLease });
   const listTool = new CredentialsListTool(service);
   const rotateTool = new CredentialsRotateTool(service);
   const importTool = new CredentialsImportTool(service);
+  const healthTool = new CredentialsHealthTool(service);
+  const leaseTool = new CredentialsLeaseTool(service, { requireIssuer: opts.requireLease });
+  const accessLogTool = new CredentialsAccessLogTool(service);
 
   return {
     name: '@framers/agentos-ext-credential-vault',
@@ -80,11 +148,16 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
       { id: 'credentialsList', kind: 'tool', priority: 50, payload: listTool },
       { id: 'credentialsRotate', kind: 'tool', priority: 50, payload: rotateTool },
       { id: 'credentialsImport', kind: 'tool', priority: 50, payload: importTool },
+      { id: 'credentialsLease', kind: 'tool', priority: 50, payload: leaseTool },
+      { id: 'credentialsAccessLog', kind: 'tool', priority: 50, payload: accessLogTool },
+      { id: 'credentialsHealth', kind: 'tool', priority: 50, payload: healthTool },
     ],
     onActivate: async () => {
       await service.initialize();
+      if (scheduler.hasHandlers()) scheduler.start();
     },
     onDeactivate: async () => {
+      await scheduler.stop();
       await service.shutdown();
     },
   };
@@ -95,9 +168,53 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
 // ---------------------------------------------------------------------------
 
 export { CredentialVaultService } from './CredentialVaultService.js';
-export type { CredentialEntry, CredentialInfo, ImportResult } from './CredentialVaultService.js';
+export type {
+  CredentialEntry,
+  CredentialInfo,
+  CredentialHealth,
+  CredentialHealthOptions,
+  CredentialHealthStatus,
+  CredentialLease,
+  CredentialMetadata,
+  CredentialVaultServiceOptions,
+  ImportResult,
+  IssueLeaseOptions,
+} from './CredentialVaultService.js';
+export { CredentialRotationScheduler } from './rotation/CredentialRotationScheduler.js';
+export type {
+  CredentialRotationHandler,
+  CredentialRotationSchedulerOptions,
+  RotationContext,
+  RotationOutcome,
+  RotationResult,
+} from './rotation/CredentialRotationScheduler.js';
+export { createOAuthRefreshHandler } from './rotation/oauthRefresh.js';
+export type { OAuthRefreshHandlerOptions } from './rotation/oauthRefresh.js';
+export { CredentialAuditLog, AUDIT_GENESIS_HASH } from './audit/CredentialAuditLog.js';
+export { InMemoryCredentialAuditStore } from './audit/InMemoryCredentialAuditStore.js';
+export { FileCredentialAuditStore } from './audit/FileCredentialAuditStore.js';
+export type {
+  CredentialActor,
+  CredentialAuditAction,
+  CredentialAuditEntry,
+  CredentialAuditEvent,
+  CredentialAuditOutcome,
+  CredentialAuditQuery,
+  CredentialAuditVerification,
+  ICredentialAuditStore,
+} from './audit/types.js';
+export { EncryptedFileVaultStore } from './stores/EncryptedFileVaultStore.js';
+export { SqliteVaultStore } from './stores/SqliteVaultStore.js';
+export type { SqliteVaultStoreOptions } from './stores/SqliteVaultStore.js';
+export type { ICredentialVaultStore, VaultDocument } from './stores/types.js';
+export { VAULT_FORMAT_VERSION } from './envelope.js';
+export type { SealedValue, VaultKdfParams } from './envelope.js';
 export { CredentialsSetTool } from './tools/set.js';
 export { CredentialsGetTool } from './tools/get.js';
+export type { CredentialsGetToolOptions } from './tools/get.js';
 export { CredentialsListTool } from './tools/list.js';
 export { CredentialsRotateTool } from './tools/rotate.js';
 export { CredentialsImportTool } from './tools/import.js';
+export { CredentialsLeaseTool } from './tools/lease.js';
+export { CredentialsAccessLogTool } from './tools/accessLog.js';
+export { CredentialsHealthTool } from './tools/health.js';
@@ -0,0 +1,200 @@
+// @ts-nocheck
+/**
+ * @fileoverview Periodic rotation of credentials that are expiring or past
+ * their rotation age, through registered rotation handlers.
+ */
+
+import type { CredentialActor } from '../audit/types.js';
+import type { CredentialHealth, CredentialVaultService } from '../CredentialVaultService.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RotationContext {
+  platform: string;
+  key: string;
+  /** Value being replaced */
+  currentValue: string;
+  health: CredentialHealth;
+  /** For handlers that need sibling credentials, e.g. a stored refresh token */
+  vault: CredentialVaultService;
+  /** Identity to attribute vault reads/writes to */
+  actor: CredentialActor;
+}
+
+export interface RotationOutcome {
+  value: string;
+  /** Expiry of the new value, if the provider reports one */
+  expiresAt?: string;
+}
+
+export interface CredentialRotationHandler {
+  (context: RotationContext): Promise<RotationOutcome>;
+  /**
+   * Keys on the same platform the handler reads to do its work, such as a
+   * stored refresh token. A platform-wide registration never rotates these;
+   * they need a handler registered for the key itself.
+   */
+  readonly dependsOn?: readonly string[];
+}
+
+export interface RotationResult {
+  platform: string;
+  key: string;
+  status: 'rotated' | 'failed' | 'no_handler' | 'backing_off';
+  expiresAt?: string;
+  error?: string;
+}
+
+export interface CredentialRotationSchedulerOptions {
+  /** How often to check for due credentials (default 1 minute) */
+  intervalMs?: number;
+  /** Rotate credentials this close to `expiresAt` (default 1 hour) */
+  expiryLeadMs?: number;
+  /** Wait this long before retrying a failed rotation (default 5 minutes) */
+  retryDelayMs?: number;
+}
+
+const SCHEDULER_ACTOR: CredentialActor = { toolId: 'credentialRotationScheduler' };
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+/**
+ * Rotates credentials when they are expired, about to expire, or older than
+ * their `rotateEvery` policy. Handlers are registered per platform, or per
+ * platform and key; the more specific registration wins. A platform-wide
+ * handler skips the keys it lists in `dependsOn`:
+ *
+ * ```typescript
+ * scheduler.registerHandler('github', createOAuthRefreshHandler({ tokenUrl, clientId }), 'accessToken');
+ * scheduler.start();
+ * ```
+ */
+export class CredentialRotationScheduler {
+  private handlers: Map<string, CredentialRotationHandler> = new Map();
+  private failures: Map<string, number> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<RotationResult[]> | null = null;
+  private intervalMs: number;
+  private expiryLeadMs: number;
+  private retryDelayMs: number;
+
+  constructor(
+    private vault: CredentialVaultService,
+    options: CredentialRotationSchedulerOptions = {},
+  ) {
+    this.intervalMs = options.intervalMs ?? 60_000;
+    this.expiryLeadMs = options.expiryLeadMs ?? 60 * 60_000;
+    this.retryDelayMs = options.retryDelayMs ?? 5 * 60_000;
+  }
+
+  registerHandler(platform: string, handler: CredentialRotationHandler, key?: string): void {
+    this.handlers.set(handlerKey(platform, key), handler);
+  }
+
+  unregisterHandler(platform: string, key?: string): boolean {
+    return this.handlers.delete(handlerKey(platform, key));
+  }
+
+  hasHandlers(): boolean {
+    return this.handlers.size > 0;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch((err) => {
+        console.warn('[CredentialRotationScheduler] Rotation pass failed:', err);
+      });
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => {});
+  }
+
+  /**
+   * Rotate everything that is due now. Overlapping calls share one pass.
+   */
+  runOnce(now: number = Date.now()): Promise<RotationResult[]> {
+    if (!this.running) {
+      this.running = this.rotateDue(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Credentials the next pass would try to rotate */
+  getDue(now: number = Date.now()): CredentialHealth[] {
+    return this.vault
+      .getCredentialHealth({ now, warnWithinMs: this.expiryLeadMs })
+      .filter((health) => health.status !== 'ok');
+  }
+
+  private async rotateDue(now: number): Promise<RotationResult[]> {
+    if (!this.vault.isRunning) return [];
+
+    const results: RotationResult[] = [];
+
+    for (const health of this.getDue(now)) {
+      const { platform, key } = health;
+      const id = handlerKey(platform, key);
+
+      const handler = this.handlers.get(id) ?? this.platformHandler(platform, key);
+      if (!handler) {
+        results.push({ platform, key, status: 'no_handler' });
+        continue;
+      }
+
+      const failedAt = this.failures.get(id);
+      if (failedAt !== undefined && now - failedAt < this.retryDelayMs) {
+        results.push({ platform, key, status: 'backing_off' });
+        continue;
+      }
+
+      try {
+        const currentValue = await this.vault.getCredential(platform, key, SCHEDULER_ACTOR);
+        if (currentValue === null) continue; // deleted since the health check
+
+        const outcome = await handler({
+          platform,
+          key,
+          currentValue,
+          health,
+          vault: this.vault,
+          actor: SCHEDULER_ACTOR,
+        });
+        if (!outcome?.value) throw new Error('Rotation handler returned no value');
+
+        await this.vault.rotateCredential(platform, key, outcome.value, SCHEDULER_ACTOR, {
+          expiresAt: outcome.expiresAt ?? null,
+        });
+        this.failures.delete(id);
+        results.push({ platform, key, status: 'rotated', expiresAt: outcome.expiresAt });
+      } catch (err: any) {
+        this.failures.set(id, now);
+        results.push({ platform, key, status: 'failed', error: err?.message ?? String(err) });
+      }
+    }
+
+    return results;
+  }
+
+  private platformHandler(platform: string, key: string): CredentialRotationHandler | undefined {
+    const handler = this.handlers.get(handlerKey(platform));
+    return handler?.dependsOn?.includes(key) ? undefined : handler;
+  }
+}
+
+function handlerKey(platform: string, key?: string): string {
+  return key ? `${platform}::${key}` : `${platform}::*`;
+}
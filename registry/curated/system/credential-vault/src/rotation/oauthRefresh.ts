@@ -0,0 +1,71 @@
+// @ts-nocheck
+/**
+ * @fileoverview Rotation handler that re-issues an OAuth access token via the
+ * refresh_token grant (RFC 6749 §6).
+ */
+
+import type { CredentialRotationHandler } from './CredentialRotationScheduler.js';
+
+export interface OAuthRefreshHandlerOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Vault key (same platform) holding the refresh token (default `refreshToken`) */
+  refreshTokenKey?: string;
+  scope?: string;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Build a handler that exchanges the platform's stored refresh token for a
+ * new access token. If the provider issues a new refresh token, it replaces
+ * the stored one. The refresh token key is listed in `dependsOn`, so a
+ * platform-wide registration leaves it alone.
+ */
+export function createOAuthRefreshHandler(options: OAuthRefreshHandlerOptions): CredentialRotationHandler {
+  const refreshTokenKey = options.refreshTokenKey ?? 'refreshToken';
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const handler = async ({ platform, vault, actor }) => {
+    const refreshToken = await vault.getCredential(platform, refreshTokenKey, actor);
+    if (!refreshToken) {
+      throw new Error(`No refresh token stored at ${platform}/${refreshTokenKey}`);
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: options.clientId,
+    });
+    if (options.clientSecret) body.set('client_secret', options.clientSecret);
+    if (options.scope) body.set('scope', options.scope);
+
+    const res = await fetchImpl(options.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString(),
+    });
+    if (!res.ok) {
+      throw new Error(`OAuth refresh failed for ${platform}: HTTP ${res.status}`);
+    }
+
+    const token = (await res.json()) as {
+      access_token?: string;
+      refresh_token?: string;
+      expires_in?: number;
+    };
+    if (!token.access_token) {
+      throw new Error(`OAuth refresh for ${platform} returned no access_token`);
+    }
+
+    if (token.refresh_token && token.refresh_token !== refreshToken) {
+      await vault.rotateCredential(platform, refreshTokenKey, token.refresh_token, actor);
+    }
+
+    return {
+      value: token.access_token,
+      expiresAt: token.expires_in ? new Date(Date.now() + token.expires_in * 1000).toISOString() : undefined,
+    };
+  };
+  return Object.assign(handler, { dependsOn: [refreshTokenKey] });
+}
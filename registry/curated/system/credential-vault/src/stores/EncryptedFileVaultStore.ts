@@ -0,0 +1,46 @@
+// @ts-nocheck
+/**
+ * @fileoverview JSON file persistence for the credential vault.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ICredentialVaultStore, VaultDocument } from './types.js';
+
+/**
+ * Stores the (already encrypted) vault document in a single JSON file,
+ * readable only by the owning user. Saves write a temp file and rename it
+ * over the original so a crash mid-write never leaves a truncated vault.
+ */
+export class EncryptedFileVaultStore implements ICredentialVaultStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<VaultDocument | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+
+    const doc = JSON.parse(raw) as VaultDocument;
+    if (typeof doc?.version !== 'number' || !doc.kdf || !doc.keyCheck || !Array.isArray(doc.entries)) {
+      throw new Error(`Unrecognised credential vault file: ${this.filePath}`);
+    }
+    return doc;
+  }
+
+  async save(doc: VaultDocument): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    const tmpPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.writeFile(tmpPath, JSON.stringify(doc, null, 2), { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(tmpPath, this.filePath);
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true });
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+// @ts-nocheck
+/**
+ * @fileoverview SQLite persistence for the credential vault (via @framers/sql-storage-adapter).
+ */
+
+import type { ICredentialVaultStore, VaultDocument } from './types.js';
+
+export interface SqliteVaultStoreOptions {
+  /** Database file; ignored when `adapter` is given */
+  filePath?: string;
+  /** Pre-opened sql-storage-adapter instance */
+  adapter?: any;
+}
+
+// Lazily resolved sql-storage-adapter module (dynamic import — not a hard dependency)
+let _sqlStorage: any = null;
+
+async function getSqlStorage(): Promise<any> {
+  if (!_sqlStorage) {
+    try {
+      _sqlStorage = await import('@framers/sql-storage-adapter' as string);
+    } catch {
+      throw new Error(
+        'Missing dependency: @framers/sql-storage-adapter is required for SQLite vault storage. '
+        + 'Install it with: npm install @framers/sql-storage-adapter',
+      );
+    }
+  }
+  return _sqlStorage;
+}
+
+/**
+ * Stores vault metadata and encrypted entries in two SQLite tables. Saves
+ * replace both inside one transaction.
+ */
+export class SqliteVaultStore implements ICredentialVaultStore {
+  private db: any = null;
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqliteVaultStoreOptions) {
+    if (!options.adapter && !options.filePath) {
+      throw new Error('SqliteVaultStore requires either filePath or adapter');
+    }
+  }
+
+  async load(): Promise<VaultDocument | null> {
+    await this.open();
+
+    const meta = await this.db.get('SELECT version, kdf, key_check FROM credential_vault_meta WHERE id = 1');
+    if (!meta) return null;
+
+    const rows = await this.db.all(
+      'SELECT platform, key, entry FROM credential_vault_entries ORDER BY platform, key',
+    );
+
+    return {
+      version: Number(meta.version),
+      kdf: JSON.parse(meta.kdf),
+      keyCheck: JSON.parse(meta.key_check),
+      entries: rows.map((row: any) => JSON.parse(row.entry)),
+    };
+  }
+
+  async save(doc: VaultDocument): Promise<void> {
+    await this.open();
+
+    await this.db.transaction(async (trx: any) => {
+      await trx.run(
+        'INSERT OR REPLACE INTO credential_vault_meta (id, version, kdf, key_check) VALUES (1, ?, ?, ?)',
+        [doc.version, JSON.stringify(doc.kdf), JSON.stringify(doc.keyCheck)],
+      );
+      await trx.run('DELETE FROM credential_vault_entries');
+      for (const entry of doc.entries) {
+        await trx.run(
+          'INSERT INTO credential_vault_entries (platform, key, entry) VALUES (?, ?, ?)',
+          [entry.platform, entry.key, JSON.stringify(entry)],
+        );
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.db && !this.options.adapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+
+  private open(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        if (this.options.adapter) {
+          this.db = this.options.adapter;
+        } else {
+          const { createDatabase } = await getSqlStorage();
+          this.db = await createDatabase({ file: this.options.filePath });
+        }
+
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS credential_vault_meta (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            version INTEGER NOT NULL,
+            kdf TEXT NOT NULL,
+            key_check TEXT NOT NULL
+          );
+          CREATE TABLE IF NOT EXISTS credential_vault_entries (
+            platform TEXT NOT NULL,
+            key TEXT NOT NULL,
+            entry TEXT NOT NULL,
+            PRIMARY KEY (platform, key)
+          );
+        `);
+      })().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,26 @@
+// @ts-nocheck
+/**
+ * @fileoverview Persistence contract for the credential vault.
+ */
+
+import type { CredentialEntry } from '../CredentialVaultService.js';
+import type { SealedValue, VaultKdfParams } from '../envelope.js';
+
+/**
+ * Everything needed to reopen a vault: KDF parameters, a key-check value and
+ * the encrypted entries. Plaintext never appears in a document.
+ */
+export interface VaultDocument {
+  version: number;
+  kdf: VaultKdfParams;
+  keyCheck: SealedValue;
+  entries: CredentialEntry[];
+}
+
+export interface ICredentialVaultStore {
+  /** The stored vault, or null if nothing has been saved yet */
+  load(): Promise<VaultDocument | null>;
+  /** Replace the stored vault atomically: readers see the old or new document, never a mix */
+  save(doc: VaultDocument): Promise<void>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,70 @@
+// @ts-nocheck
+import type { CredentialVaultService } from '../CredentialVaultService.js';
+
+export class CredentialsAccessLogTool {
+  readonly id = 'credentialsAccessLog';
+  readonly name = 'credentialsAccessLog';
+  readonly displayName = 'Credential Access Log';
+  readonly description = 'List who accessed which credentials and when, from the tamper-evident vault audit log. Optionally filter by platform, key, action, agent or tool.';
+  readonly category = 'security';
+  readonly version = '0.1.0';
+  readonly hasSideEffects = false;
+
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      platform: { type: 'string', description: 'Only entries for this platform' },
+      key: { type: 'string', description: 'Only entries for this credential key' },
+      action: {
+        type: 'string',
+        enum: ['get', 'set', 'rotate', 'metadata', 'delete', 'export', 'import', 'rekey', 'lease.issue', 'lease.revoke'],
+        description: 'Only entries for this action',
+      },
+      agentId: { type: 'string', description: 'Only entries made by this agent' },
+      toolId: { type: 'string', description: 'Only entries made through this tool' },
+      since: { type: 'string', description: 'ISO timestamp; only entries at or after it' },
+      limit: { type: 'number', description: 'Most recent N entries (default: 50)' },
+    },
+  };
+
+  constructor(private service: CredentialVaultService) {}
+
+  async execute(args: {
+    platform?: string;
+    key?: string;
+    action?: string;
+    agentId?: string;
+    toolId?: string;
+    since?: string;
+    limit?: number;
+  }): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+      const auditLog = this.service.getAuditLog();
+      const entries = await auditLog.query({ ...args, limit: args.limit ?? 50 } as any);
+      const integrity = await auditLog.verify();
+
+      return {
+        success: true,
+        data: {
+          entries: entries.map((e) => ({
+            seq: e.seq,
+            timestamp: e.timestamp,
+            action: e.action,
+            outcome: e.outcome,
+            platform: e.platform,
+            key: e.key,
+            agentId: e.actor?.agentId,
+            toolId: e.actor?.toolId,
+            userId: e.actor?.userId,
+            leaseRef: e.leaseRef,
+            reason: e.reason,
+          })),
+          count: entries.length,
+          integrity,
+        },
+      };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  }
+}
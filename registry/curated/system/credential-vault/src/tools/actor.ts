@@ -0,0 +1,11 @@
+// @ts-nocheck
+import type { CredentialActor } from '../audit/types.js';
+
+/** Audit identity for a tool call: the calling agent plus the tool itself */
+export function toolActor(toolId: string, context?: any): CredentialActor {
+  return {
+    agentId: context?.gmiId,
+    toolId,
+    userId: context?.userContext?.userId,
+  };
+}
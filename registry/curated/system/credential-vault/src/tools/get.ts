@@ -1,11 +1,20 @@
 // @ts-nocheck
 import type { CredentialVaultService } from '../CredentialVaultService.js';
+import { toolActor } from './actor.js';
+
+export interface CredentialsGetToolOptions {
+  /**
+   * Refuse reads without a `leaseId`. Off by default, in which case leases
+   * are advisory: they only limit reads made through them.
+   */
+  requireLease?: boolean;
+}
 
 export class CredentialsGetTool {
   readonly id = 'credentialsGet';
   readonly name = 'credentialsGet';
   readonly displayName = 'Retrieve Credential';
-  readonly description = 'Retrieve a decrypted credential from the vault by platform and key.';
+  readonly description = 'Retrieve a decrypted credential from the vault by platform and key. Pass a leaseId to read under a scoped lease.';
   readonly category = 'security';
   readonly version = '0.1.0';
   readonly hasSideEffects = false;
@@ -15,18 +24,39 @@ export class CredentialsGetTool {
     properties: {
       platform: { type: 'string', description: 'Platform or service name (e.g., "twitter", "openai")' },
       key: { type: 'string', description: 'Credential key (e.g., "apiKey", "accessToken")' },
+      leaseId: { type: 'string', description: 'Lease issued by credentialsLease; access is limited to its platform and keys. Required when the vault is configured with requireLease' },
     },
     required: ['platform', 'key'],
   };
 
-  constructor(private service: CredentialVaultService) {}
+  constructor(
+    private service: CredentialVaultService,
+    private options: CredentialsGetToolOptions = {},
+  ) {}
 
   async execute(args: {
     platform: string;
     key: string;
-  }): Promise<{ success: boolean; data?: any; error?: string }> {
+    leaseId?: string;
+  }, context?: any): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const value = await this.service.getCredential(args.platform, args.key);
+      const actor = toolActor(this.id, context);
+      if (this.options.requireLease && !args.leaseId) {
+        const reason = 'A lease is required; issue one with credentialsLease';
+        await this.service.getAuditLog().record({
+          action: 'get',
+          outcome: 'denied',
+          actor,
+          platform: args.platform,
+          key: args.key,
+          reason,
+        });
+        return { success: false, error: reason };
+      }
+
+      const value = args.leaseId
+        ? await this.service.getCredentialWithLease(args.leaseId, args.platform, args.key, actor)
+        : await this.service.getCredential(args.platform, args.key, actor);
       if (value === null) {
         return {
           success: false,
@@ -0,0 +1,56 @@
+// @ts-nocheck
+import type { CredentialVaultService } from '../CredentialVaultService.js';
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export class CredentialsHealthTool {
+  readonly id = 'credentialsHealth';
+  readonly name = 'credentialsHealth';
+  readonly displayName = 'Credential Health';
+  readonly description = 'Check stored credentials for expiry and rotation policy. Returns warnings for credentials that are expired, expiring soon, or past their rotation age.';
+  readonly category = 'security';
+  readonly version = '0.1.0';
+  readonly hasSideEffects = false;
+
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      platform: { type: 'string', description: 'Optional platform filter' },
+      warnWithinDays: { type: 'number', description: 'Warn about credentials expiring within this many days (default: 7)' },
+      includeHealthy: { type: 'boolean', description: 'Also list credentials with no warnings (default: false)' },
+    },
+  };
+
+  constructor(private service: CredentialVaultService) {}
+
+  async execute(args: {
+    platform?: string;
+    warnWithinDays?: number;
+    includeHealthy?: boolean;
+  }): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+      const health = this.service
+        .getCredentialHealth({
+          warnWithinMs: args.warnWithinDays != null ? args.warnWithinDays * DAY_MS : undefined,
+        })
+        .filter((h) => !args.platform || h.platform === args.platform);
+
+      const flagged = health.filter((h) => h.status !== 'ok');
+      const credentials = args.includeHealthy ? health : flagged;
+
+      return {
+        success: true,
+        data: {
+          credentials,
+          warnings: flagged.flatMap((h) => h.warnings),
+          count: flagged.length,
+          message: flagged.length === 0
+            ? 'No credentials are expired, expiring soon, or due for rotation'
+            : `${flagged.length} credential(s) need attention`,
+        },
+      };
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // @ts-nocheck
 import type { CredentialVaultService } from '../CredentialVaultService.js';
+import { toolActor } from './actor.js';
 
 export class CredentialsImportTool {
   readonly id = 'credentialsImport';
@@ -31,11 +32,12 @@ export class CredentialsImportTool {
   async execute(args: {
     data: string;
     format?: 'json' | 'csv';
-  }): Promise<{ success: boolean; data?: any; error?: string }> {
+  }, context?: any): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       const result = await this.service.importCredentials(
         args.data,
         args.format ?? 'json',
+        toolActor(this.id, context),
       );
       return {
         success: true,
@@ -0,0 +1,91 @@
+// @ts-nocheck
+import type { CredentialVaultService } from '../CredentialVaultService.js';
+import { toolActor } from './actor.js';
+
+export interface CredentialsLeaseToolOptions {
+  /**
+   * Refuse to issue leases unless the vault restricts issuance to
+   * `leaseIssuers`, so an agent cannot lease credentials to itself. Set
+   * alongside `credentialsGet`'s `requireLease`.
+   */
+  requireIssuer?: boolean;
+}
+
+export class CredentialsLeaseTool {
+  readonly id = 'credentialsLease';
+  readonly name = 'credentialsLease';
+  readonly displayName = 'Lease Credentials';
+  readonly description = 'Issue a short-lived lease scoped to one platform (and optionally specific keys), or revoke one. Pass the leaseId to credentialsGet to read under the lease.';
+  readonly category = 'security';
+  readonly version = '0.1.0';
+  readonly hasSideEffects = true;
+
+  readonly inputSchema = {
+    type: 'object' as const,
+    properties: {
+      action: { type: 'string', enum: ['issue', 'revoke', 'list'], description: 'What to do (default: issue)' },
+      platform: { type: 'string', description: 'Platform the lease is scoped to (required for issue)' },
+      keys: { type: 'array', items: { type: 'string' }, description: 'Limit the lease to these keys (default: all keys on the platform)' },
+      ttlSeconds: { type: 'number', description: 'Lease lifetime in seconds (default: 300)' },
+      agentId: { type: 'string', description: 'Agent the lease is for (default: the calling agent); only that agent can read under it' },
+      leaseId: { type: 'string', description: 'Lease to revoke' },
+    },
+  };
+
+  constructor(
+    private service: CredentialVaultService,
+    private options: CredentialsLeaseToolOptions = {},
+  ) {}
+
+  async execute(args: {
+    action?: 'issue' | 'revoke' | 'list';
+    platform?: string;
+    keys?: string[];
+    ttlSeconds?: number;
+    agentId?: string;
+    leaseId?: string;
+  }, context?: any): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+      const actor = toolActor(this.id, context);
+
+      switch (args.action ?? 'issue') {
+        case 'issue': {
+          if (!args.platform) return { success: false, error: 'platform is required to issue a lease' };
+          if (this.options.requireIssuer && !this.service.hasLeaseIssuers()) {
+            return { success: false, error: 'Leases must be issued by a configured lease issuer; none are configured' };
+          }
+          // The issuer is the human principal, never the agent identity
+          const lease = await this.service.issueLease(args.platform, {
+            keys: args.keys,
+            ttlMs: args.ttlSeconds != null ? args.ttlSeconds * 1000 : undefined,
+            issuedTo: { ...actor, agentId: args.agentId ?? actor.agentId },
+            issuedBy: context?.userContext?.userId,
+          });
+          return { success: true, data: lease };
+        }
+
+        case 'revoke': {
+          if (!args.leaseId) return { success: false, error: 'leaseId is required to revoke a lease' };
+          const revoked = await this.service.revokeLease(args.leaseId, actor);
+          return revoked
+            ? { success: true, data: { leaseId: args.leaseId, message: 'Lease revoked' } }
+            : { success: false, error: `Lease not found: ${args.leaseId}` };
+        }
+
+        case 'list': {
+          // Lease IDs are bearer tokens; list them without the ID
+          const leases = this.service.listLeases(args.platform).map(({ id, ...lease }) => ({
+            ...lease,
+            leaseRef: id.slice(0, 12),
+          }));
+          return { success: true, data: { leases, count: leases.length } };
+        }
+
+        default:
+          return { success: false, error: `Unknown action: ${args.action}` };
+      }
+    } catch (err: any) {
+      return { success: false, error: err.message };
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // @ts-nocheck
 import type { CredentialVaultService } from '../CredentialVaultService.js';
+import { toolActor } from './actor.js';
 
 export class CredentialsRotateTool {
   readonly id = 'credentialsRotate';
@@ -16,6 +17,7 @@ export class CredentialsRotateTool {
       platform: { type: 'string', description: 'Platform or service name' },
       key: { type: 'string', description: 'Credential key to rotate' },
       refreshToken: { type: 'string', description: 'New credential value or refresh token' },
+      expiresAt: { type: 'string', description: 'Optional ISO timestamp when the new value expires' },
     },
     required: ['platform', 'key', 'refreshToken'],
   };
@@ -26,26 +28,32 @@ export class CredentialsRotateTool {
     platform: string;
     key: string;
     refreshToken: string;
-  }): Promise<{ success: boolean; data?: any; error?: string }> {
+    expiresAt?: string;
+  }, context?: any): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      // Verify the credential exists before rotating
-      const existing = await this.service.getCredential(args.platform, args.key);
-      if (existing === null) {
+      const rotated = await this.service.rotateCredential(
+        args.platform,
+        args.key,
+        args.refreshToken,
+        toolActor(this.id, context),
+        { expiresAt: args.expiresAt },
+      );
+      if (!rotated) {
         return {
           success: false,
           error: `Credential not found: ${args.platform}/${args.key}. Cannot rotate a non-existent credential.`,
         };
       }
 
-      // Store the new value (setCredential preserves createdAt and updates updatedAt)
-      await this.service.setCredential(args.platform, args.key, args.refreshToken);
+      const info = this.service.getCredentialInfo(args.platform, args.key);
 
       return {
         success: true,
         data: {
           platform: args.platform,
           key: args.key,
-          rotatedAt: new Date().toISOString(),
+          rotatedAt: info?.rotatedAt,
+          expiresAt: info?.expiresAt,
           message: `Credential rotated for ${args.platform}/${args.key}`,
         },
       };
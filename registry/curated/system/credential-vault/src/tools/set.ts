@@ -1,5 +1,8 @@
 // @ts-nocheck
 import type { CredentialVaultService } from '../CredentialVaultService.js';
+import { toolActor } from './actor.js';
+
+const DAY_MS = 24 * 60 * 60_000;
 
 export class CredentialsSetTool {
   readonly id = 'credentialsSet';
@@ -16,6 +19,8 @@ export class CredentialsSetTool {
       platform: { type: 'string', description: 'Platform or service name (e.g., "twitter", "openai", "github")' },
       key: { type: 'string', description: 'Credential key (e.g., "apiKey", "accessToken", "password")' },
       value: { type: 'string', description: 'Credential value to encrypt and store' },
+      expiresAt: { type: 'string', description: 'Optional ISO timestamp when the credential expires' },
+      rotateEveryDays: { type: 'number', description: 'Optional rotation policy: flag the credential for rotation after this many days' },
     },
     required: ['platform', 'key', 'value'],
   };
@@ -26,9 +31,14 @@ export class CredentialsSetTool {
     platform: string;
     key: string;
     value: string;
-  }): Promise<{ success: boolean; data?: any; error?: string }> {
+    expiresAt?: string;
+    rotateEveryDays?: number;
+  }, context?: any): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      await this.service.setCredential(args.platform, args.key, args.value);
+      await this.service.setCredential(args.platform, args.key, args.value, toolActor(this.id, context), {
+        expiresAt: args.expiresAt,
+        rotateEvery: args.rotateEveryDays != null ? args.rotateEveryDays * DAY_MS : undefined,
+      });
       return {
         success: true,
         data: {
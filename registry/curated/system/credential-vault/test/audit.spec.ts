@@ -0,0 +1,295 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVaultService } from '../src/CredentialVaultService';
+import { CredentialAuditLog } from '../src/audit/CredentialAuditLog';
+import { FileCredentialAuditStore } from '../src/audit/FileCredentialAuditStore';
+import { CredentialsGetTool } from '../src/tools/get';
+import { CredentialsRotateTool } from '../src/tools/rotate';
+import { CredentialsLeaseTool } from '../src/tools/lease';
+import { CredentialsAccessLogTool } from '../src/tools/accessLog';
+
+const context = { gmiId: 'agent-1', personaId: 'persona', userContext: { userId: 'user-1' } };
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CredentialAuditLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'credential-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should chain each entry to the previous one', async () => {
+    const log = new CredentialAuditLog();
+    const first = await log.record({ action: 'set', outcome: 'success', platform: 'github', key: 'token' });
+    const second = await log.record({ action: 'get', outcome: 'success', platform: 'github', key: 'token' });
+
+    expect(first.seq).toBe(1);
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+    expect(await log.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should detect edited entries', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    const log = new CredentialAuditLog(new FileCredentialAuditStore(filePath));
+    await log.record({ action: 'get', outcome: 'success', platform: 'github', key: 'token', actor: { agentId: 'a' } });
+    await log.record({ action: 'get', outcome: 'success', platform: 'openai', key: 'apiKey', actor: { agentId: 'a' } });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    const edited = JSON.parse(lines[0]);
+    edited.actor.agentId = 'someone-else';
+    lines[0] = JSON.stringify(edited);
+    await fs.writeFile(filePath, `${lines.join('\n')}\n`);
+
+    expect(await log.verify()).toEqual({ valid: false, entries: 2, brokenAt: 1 });
+  });
+
+  it('should detect removed entries', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    const log = new CredentialAuditLog(new FileCredentialAuditStore(filePath));
+    for (const key of ['a', 'b', 'c']) {
+      await log.record({ action: 'get', outcome: 'success', platform: 'p', key });
+    }
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    await fs.writeFile(filePath, `${[lines[0], lines[2]].join('\n')}\n`);
+
+    expect((await log.verify()).valid).toBe(false);
+  });
+
+  it('should continue the chain across restarts', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    await new CredentialAuditLog(new FileCredentialAuditStore(filePath)).record({ action: 'set', outcome: 'success' });
+
+    const reopened = new CredentialAuditLog(new FileCredentialAuditStore(filePath));
+    const entry = await reopened.record({ action: 'get', outcome: 'success' });
+
+    expect(entry.seq).toBe(2);
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should filter entries', async () => {
+    const log = new CredentialAuditLog();
+    await log.record({ action: 'get', outcome: 'success', platform: 'github', actor: { agentId: 'a', toolId: 'credentialsGet' } });
+    await log.record({ action: 'set', outcome: 'success', platform: 'github', actor: { agentId: 'b' } });
+    await log.record({ action: 'get', outcome: 'success', platform: 'openai', actor: { agentId: 'a' } });
+
+    expect(await log.query({ agentId: 'a' })).toHaveLength(2);
+    expect(await log.query({ platform: 'github', action: 'get' })).toHaveLength(1);
+    expect((await log.query({ limit: 1 }))[0].platform).toBe('openai');
+  });
+});
+
+describe('CredentialVaultService auditing', () => {
+  let service: CredentialVaultService;
+
+  beforeEach(async () => {
+    service = new CredentialVaultService('test-passphrase');
+    await service.initialize();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await service.shutdown();
+  });
+
+  it('should record the calling agent and tool without the value', async () => {
+    await service.setCredential('github', 'token', 'gh_abc123', { agentId: 'agent-1', toolId: 'credentialsSet' });
+    await new CredentialsGetTool(service).execute({ platform: 'github', key: 'token' }, context);
+    await service.getCredential('github', 'missing');
+
+    const entries = await service.getAuditLog().query();
+    expect(entries.map((e) => [e.action, e.outcome])).toEqual([
+      ['set', 'success'],
+      ['get', 'success'],
+      ['get', 'not_found'],
+    ]);
+    expect(entries[1].actor).toEqual({ agentId: 'agent-1', toolId: 'credentialsGet', userId: 'user-1' });
+    expect(JSON.stringify(entries)).not.toContain('gh_abc123');
+  });
+
+  it('should record rotate, export and import', async () => {
+    await service.setCredential('github', 'token', 'old');
+    const result = await new CredentialsRotateTool(service).execute(
+      { platform: 'github', key: 'token', refreshToken: 'new' },
+      context,
+    );
+    await service.exportCredentials();
+    await service.importCredentials(JSON.stringify([{ platform: 'x', key: 'k', value: 'v' }]));
+
+    expect(result.success).toBe(true);
+    expect(result.data.rotatedAt).toBeDefined();
+    const actions = (await service.getAuditLog().query()).map((e) => e.action);
+    expect(actions).toEqual(['set', 'rotate', 'export', 'import']);
+  });
+
+  it('should stamp rotatedAt on rotation', async () => {
+    await service.setCredential('github', 'token', 'old');
+    expect(await service.rotateCredential('github', 'token', 'new')).toBe(true);
+    expect(await service.rotateCredential('github', 'missing', 'new')).toBe(false);
+
+    const [info] = await service.listCredentials('github');
+    expect(info.rotatedAt).toBe(info.updatedAt);
+    expect(await service.getCredential('github', 'token')).toBe('new');
+  });
+
+  describe('leases', () => {
+    beforeEach(async () => {
+      await service.setCredential('github', 'token', 'gh_abc123');
+      await service.setCredential('github', 'webhookSecret', 'whsec');
+      await service.setCredential('openai', 'apiKey', 'sk-test');
+    });
+
+    it('should allow reads within the leased platform and keys', async () => {
+      const lease = await service.issueLease('github', { keys: ['token'] });
+
+      expect(await service.getCredentialWithLease(lease.id, 'github', 'token')).toBe('gh_abc123');
+      await expect(service.getCredentialWithLease(lease.id, 'github', 'webhookSecret')).rejects.toThrow(
+        'Lease does not cover github/webhookSecret',
+      );
+      await expect(service.getCredentialWithLease(lease.id, 'openai', 'apiKey')).rejects.toThrow(
+        'Lease does not cover openai/apiKey',
+      );
+    });
+
+    it('should expire after its TTL', async () => {
+      vi.useFakeTimers();
+      const lease = await service.issueLease('github', { ttlMs: 1000 });
+      vi.advanceTimersByTime(1001);
+
+      await expect(service.getCredentialWithLease(lease.id, 'github', 'token')).rejects.toThrow('Lease expired');
+      expect(service.listLeases()).toEqual([]);
+    });
+
+    it('should stop working once revoked', async () => {
+      const lease = await service.issueLease('github');
+      expect(await service.revokeLease(lease.id)).toBe(true);
+      await expect(service.getCredentialWithLease(lease.id, 'github', 'token')).rejects.toThrow('Unknown or revoked lease');
+    });
+
+    it('should reject TTLs above the maximum', async () => {
+      await expect(service.issueLease('github', { ttlMs: 2 * 60 * 60_000 })).rejects.toThrow('Lease TTL');
+    });
+
+    it('should audit denials without logging the full lease ID', async () => {
+      const lease = await service.issueLease('github');
+      await service.getCredentialWithLease(lease.id, 'openai', 'apiKey').catch(() => {});
+
+      const entries = await service.getAuditLog().query();
+      const denied = entries.find((e) => e.outcome === 'denied');
+      expect(denied).toMatchObject({ action: 'get', platform: 'openai', leaseRef: lease.id.slice(0, 12) });
+      expect(JSON.stringify(entries)).not.toContain(lease.id);
+    });
+
+    it('should limit reads to the agent the lease was issued to', async () => {
+      const lease = await service.issueLease('github', { issuedTo: { agentId: 'agent-1' } });
+
+      expect(await service.getCredentialWithLease(lease.id, 'github', 'token', { agentId: 'agent-1' })).toBe('gh_abc123');
+      await expect(
+        service.getCredentialWithLease(lease.id, 'github', 'token', { agentId: 'agent-2' }),
+      ).rejects.toThrow('Lease was issued to another agent');
+    });
+
+    it('should only let configured issuers grant leases, never to themselves', async () => {
+      const restricted = new CredentialVaultService('test-passphrase', { leaseIssuers: ['user-1', 'agent-1'] });
+      await restricted.initialize();
+      const issuedTo = { agentId: 'agent-1' };
+
+      await expect(restricted.issueLease('github', { issuedTo })).rejects.toThrow('not a configured lease issuer');
+      await expect(restricted.issueLease('github', { issuedTo, issuedBy: 'user-2' })).rejects.toThrow(
+        'user-2 is not a configured lease issuer',
+      );
+      await expect(restricted.issueLease('github', { issuedTo, issuedBy: 'agent-1' })).rejects.toThrow(
+        'cannot issue a lease to itself',
+      );
+      expect((await restricted.issueLease('github', { issuedTo, issuedBy: 'user-1' })).issuedBy).toBe('user-1');
+
+      const issues = await restricted.getAuditLog().query({ action: 'lease.issue' });
+      expect(issues.map((e) => e.outcome)).toEqual(['denied', 'denied', 'denied', 'success']);
+      await restricted.shutdown();
+    });
+
+    it('should refuse tool-issued leases under requireIssuer unless issuers are configured', async () => {
+      const open = new CredentialsLeaseTool(service, { requireIssuer: true });
+      expect(await open.execute({ platform: 'github' }, context)).toMatchObject({
+        success: false,
+        error: expect.stringContaining('configured lease issuer'),
+      });
+
+      const restricted = new CredentialVaultService('test-passphrase', { leaseIssuers: ['user-1'] });
+      await restricted.initialize();
+      const issued = await new CredentialsLeaseTool(restricted, { requireIssuer: true }).execute({ platform: 'github' }, context);
+      expect(issued.data).toMatchObject({ issuedBy: 'user-1', issuedTo: { agentId: 'agent-1' } });
+      await restricted.shutdown();
+    });
+
+    it('should work through the lease and get tools', async () => {
+      const leaseTool = new CredentialsLeaseTool(service);
+      const getTool = new CredentialsGetTool(service);
+
+      const issued = await leaseTool.execute({ platform: 'github', ttlSeconds: 60 }, context);
+      expect(issued.success).toBe(true);
+      expect(issued.data.issuedTo.agentId).toBe('agent-1');
+
+      const ok = await getTool.execute({ platform: 'github', key: 'token', leaseId: issued.data.id }, context);
+      expect(ok.data.value).toBe('gh_abc123');
+
+      const denied = await getTool.execute({ platform: 'openai', key: 'apiKey', leaseId: issued.data.id }, context);
+      expect(denied.success).toBe(false);
+
+      const listed = await leaseTool.execute({ action: 'list' });
+      expect(listed.data.count).toBe(1);
+      expect(JSON.stringify(listed.data)).not.toContain(issued.data.id);
+    });
+
+    it('should refuse reads without a live lease when requireLease is set', async () => {
+      const leaseTool = new CredentialsLeaseTool(service);
+      const getTool = new CredentialsGetTool(service, { requireLease: true });
+
+      const unleased = await getTool.execute({ platform: 'github', key: 'token' }, context);
+      expect(unleased).toMatchObject({ success: false, error: expect.stringContaining('lease is required') });
+
+      const issued = await leaseTool.execute({ platform: 'github', ttlSeconds: 60 }, context);
+      expect((await getTool.execute({ platform: 'github', key: 'token', leaseId: issued.data.id }, context)).success).toBe(true);
+
+      await leaseTool.execute({ action: 'revoke', leaseId: issued.data.id }, context);
+      const revoked = await getTool.execute({ platform: 'github', key: 'token', leaseId: issued.data.id }, context);
+      expect(revoked).toMatchObject({ success: false, error: 'Unknown or revoked lease' });
+
+      const reads = await service.getAuditLog().query({ action: 'get' });
+      expect(reads.filter((entry) => entry.outcome === 'denied')).toHaveLength(2);
+    });
+  });
+
+  describe('credentialsAccessLog tool', () => {
+    it('should show who accessed what and when', async () => {
+      await service.setCredential('github', 'token', 'gh_abc123');
+      await new CredentialsGetTool(service).execute({ platform: 'github', key: 'token' }, context);
+
+      const result = await new CredentialsAccessLogTool(service).execute({ action: 'get' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.count).toBe(1);
+      expect(result.data.entries[0]).toMatchObject({
+        action: 'get',
+        outcome: 'success',
+        platform: 'github',
+        key: 'token',
+        agentId: 'agent-1',
+        toolId: 'credentialsGet',
+      });
+      expect(result.data.entries[0].timestamp).toBeDefined();
+      expect(result.data.integrity.valid).toBe(true);
+    });
+  });
+});
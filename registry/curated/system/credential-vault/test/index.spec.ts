@@ -31,8 +31,8 @@ describe('Credential Vault – createExtensionPack', () => {
 
   // ── Descriptor count and IDs ──
 
-  it('should contain exactly 5 tool descriptors', () => {
-    expect(pack.descriptors).toHaveLength(5);
+  it('should contain exactly 8 tool descriptors', () => {
+    expect(pack.descriptors).toHaveLength(8);
   });
 
   it('should have all expected descriptor IDs', () => {
@@ -43,6 +43,9 @@ describe('Credential Vault – createExtensionPack', () => {
       'credentialsList',
       'credentialsRotate',
       'credentialsImport',
+      'credentialsLease',
+      'credentialsAccessLog',
+      'credentialsHealth',
     ]);
   });
 
@@ -91,6 +94,24 @@ describe('Credential Vault – createExtensionPack', () => {
     expect(result.error).toContain('not initialized');
   });
 
+  it('should not let the reading agent lease itself credentials under requireLease', async () => {
+    const ctx = { gmiId: 'agent-1', userContext: { userId: 'user-1' } };
+    const tool = (p: ExtensionPack, id: string) => p.descriptors.find((d) => d.id === id)!.payload as any;
+
+    await pack.onDeactivate!();
+    pack = createExtensionPack({ options: { requireLease: true } });
+    await pack.onActivate!();
+    expect((await tool(pack, 'credentialsLease').execute({ platform: 'test' }, ctx)).success).toBe(false);
+
+    await pack.onDeactivate!();
+    pack = createExtensionPack({ options: { requireLease: true, leaseIssuers: ['user-1'] } });
+    await pack.onActivate!();
+    await tool(pack, 'credentialsSet').execute({ platform: 'test', key: 'apiKey', value: 'secret123' });
+    const lease = await tool(pack, 'credentialsLease').execute({ platform: 'test' }, ctx);
+    const read = await tool(pack, 'credentialsGet').execute({ platform: 'test', key: 'apiKey', leaseId: lease.data.id }, ctx);
+    expect(read.data.value).toBe('secret123');
+  });
+
   // ── Each descriptor payload should be a tool instance ──
 
   it('should have payload objects with an execute method', () => {
@@ -0,0 +1,336 @@
+// @ts-nocheck
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CredentialVaultService } from '../src/CredentialVaultService';
+import { CredentialRotationScheduler } from '../src/rotation/CredentialRotationScheduler';
+import { createOAuthRefreshHandler } from '../src/rotation/oauthRefresh';
+import { CredentialsHealthTool } from '../src/tools/health';
+import { CredentialsRotateTool } from '../src/tools/rotate';
+import { CredentialsSetTool } from '../src/tools/set';
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Credential expiry and rotation', () => {
+  let service: CredentialVaultService;
+
+  beforeEach(async () => {
+    service = new CredentialVaultService('test-passphrase');
+    await service.initialize();
+  });
+
+  afterEach(async () => {
+    await service.shutdown();
+  });
+
+  // ── Metadata ──
+
+  describe('metadata', () => {
+    it('should store expiresAt and rotateEvery and keep them across value updates', async () => {
+      const expiresAt = new Date(Date.now() + DAY).toISOString();
+      await service.setCredential('github', 'token', 'v1', undefined, { expiresAt, rotateEvery: 30 * DAY });
+      await service.setCredential('github', 'token', 'v2');
+
+      const [info] = await service.listCredentials('github');
+      expect(info.expiresAt).toBe(expiresAt);
+      expect(info.rotateEvery).toBe(30 * DAY);
+    });
+
+    it('should update and clear metadata without changing the value', async () => {
+      await service.setCredential('github', 'token', 'v1');
+      expect(await service.setCredentialMetadata('github', 'token', { rotateEvery: DAY })).toBe(true);
+      expect(await service.setCredentialMetadata('github', 'token', { rotateEvery: null })).toBe(true);
+      expect(await service.setCredentialMetadata('github', 'missing', { rotateEvery: DAY })).toBe(false);
+
+      const [info] = await service.listCredentials('github');
+      expect(info.rotateEvery).toBeUndefined();
+      expect(await service.getCredential('github', 'token')).toBe('v1');
+    });
+
+    it('should reject invalid metadata', async () => {
+      await expect(service.setCredential('a', 'b', 'c', undefined, { expiresAt: 'soon' })).rejects.toThrow('Invalid expiresAt');
+      await expect(service.setCredential('a', 'b', 'c', undefined, { rotateEvery: -1 })).rejects.toThrow('Invalid rotateEvery');
+    });
+
+    it('should leave the credential untouched when metadata is invalid', async () => {
+      await service.setCredential('github', 'token', 'v1', undefined, { rotateEvery: DAY });
+
+      await expect(service.setCredential('github', 'token', 'v2', undefined, { expiresAt: 'soon' })).rejects.toThrow();
+      await expect(service.rotateCredential('github', 'token', 'v3', undefined, { rotateEvery: 0 })).rejects.toThrow();
+      await expect(
+        service.setCredentialMetadata('github', 'token', { rotateEvery: null, expiresAt: 'soon' }),
+      ).rejects.toThrow();
+      await expect(service.setCredential('openai', 'apiKey', 'sk', undefined, { rotateEvery: -1 })).rejects.toThrow();
+
+      expect(await service.getCredential('github', 'token')).toBe('v1');
+      const [info] = await service.listCredentials('github');
+      expect(info).toMatchObject({ rotateEvery: DAY, rotatedAt: undefined });
+      expect(await service.listCredentials('openai')).toEqual([]);
+    });
+
+    it('should replace the expiry on rotation', async () => {
+      await service.setCredential('github', 'token', 'v1', undefined, { expiresAt: new Date(Date.now() + HOUR).toISOString() });
+      await service.rotateCredential('github', 'token', 'v2');
+
+      const [info] = await service.listCredentials('github');
+      expect(info.expiresAt).toBeUndefined();
+    });
+  });
+
+  // ── Health ──
+
+  describe('getCredentialHealth', () => {
+    it('should classify credentials, most urgent first', async () => {
+      const now = Date.now();
+      await service.setCredential('a', 'fine', 'x', undefined, { expiresAt: new Date(now + 30 * DAY).toISOString() });
+      await service.setCredential('b', 'expiring', 'x', undefined, { expiresAt: new Date(now + 2 * DAY).toISOString() });
+      await service.setCredential('c', 'expired', 'x', undefined, { expiresAt: new Date(now - HOUR).toISOString() });
+      await service.setCredential('d', 'old', 'x', undefined, { rotateEvery: DAY });
+      await service.setCredential('e', 'no-policy', 'x');
+
+      const health = service.getCredentialHealth({ now: now + 2 * DAY - HOUR });
+
+      expect(health.map((h) => [h.key, h.status])).toEqual([
+        ['expired', 'expired'],
+        ['old', 'rotation_due'],
+        ['expiring', 'expiring'],
+        ['fine', 'ok'],
+      ]);
+      expect(health[0].warnings[0]).toMatch(/^c\/expired expired .* ago$/);
+      expect(health[2].warnings[0]).toBe('b/expiring expires in 1h');
+    });
+  });
+
+  // ── Scheduler ──
+
+  describe('CredentialRotationScheduler', () => {
+    it('should rotate due credentials through the most specific handler', async () => {
+      await service.setCredential('github', 'token', 'old', undefined, { rotateEvery: HOUR });
+      await service.setCredential('github', 'other', 'old', undefined, { rotateEvery: HOUR });
+
+      const scheduler = new CredentialRotationScheduler(service);
+      const platformHandler = vi.fn(async () => ({ value: 'from-platform' }));
+      const keyHandler = vi.fn(async ({ currentValue }) => ({
+        value: `${currentValue}-rotated`,
+        expiresAt: new Date(Date.now() + 10 * DAY).toISOString(),
+      }));
+      scheduler.registerHandler('github', platformHandler);
+      scheduler.registerHandler('github', keyHandler, 'token');
+
+      const results = await scheduler.runOnce(Date.now() + 2 * HOUR);
+
+      expect(results.map((r) => [r.key, r.status])).toEqual([
+        ['other', 'rotated'],
+        ['token', 'rotated'],
+      ]);
+      expect(await service.getCredential('github', 'token')).toBe('old-rotated');
+      expect(await service.getCredential('github', 'other')).toBe('from-platform');
+
+      const info = (await service.listCredentials('github')).find((c) => c.key === 'token');
+      expect(info.rotatedAt).toBeDefined();
+      expect(info.expiresAt).toBeDefined();
+
+      const rotations = await service.getAuditLog().query({ action: 'rotate' });
+      expect(rotations.every((e) => e.actor?.toolId === 'credentialRotationScheduler')).toBe(true);
+    });
+
+    it('should leave credentials that are not due alone', async () => {
+      await service.setCredential('github', 'token', 'old', undefined, { rotateEvery: DAY });
+      const handler = vi.fn();
+      const scheduler = new CredentialRotationScheduler(service);
+      scheduler.registerHandler('github', handler);
+
+      expect(await scheduler.runOnce()).toEqual([]);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should rotate credentials within the expiry lead time', async () => {
+      await service.setCredential('github', 'token', 'old', undefined, {
+        expiresAt: new Date(Date.now() + 30 * 60_000).toISOString(),
+      });
+      const scheduler = new CredentialRotationScheduler(service, { expiryLeadMs: HOUR });
+      scheduler.registerHandler('github', async () => ({ value: 'new' }));
+
+      const [result] = await scheduler.runOnce();
+      expect(result.status).toBe('rotated');
+    });
+
+    it('should report missing handlers and back off after failures', async () => {
+      await service.setCredential('github', 'token', 'old', undefined, { rotateEvery: HOUR });
+      await service.setCredential('slack', 'token', 'old', undefined, { rotateEvery: HOUR });
+
+      const scheduler = new CredentialRotationScheduler(service, { retryDelayMs: 10 * 60_000 });
+      const failing = vi.fn(async () => {
+        throw new Error('provider down');
+      });
+      scheduler.registerHandler('github', failing);
+
+      const now = Date.now() + 2 * HOUR;
+      const first = await scheduler.runOnce(now);
+      expect(first).toEqual([
+        { platform: 'github', key: 'token', status: 'failed', error: 'provider down' },
+        { platform: 'slack', key: 'token', status: 'no_handler' },
+      ]);
+
+      const second = await scheduler.runOnce(now + 60_000);
+      expect(second[0].status).toBe('backing_off');
+      expect(failing).toHaveBeenCalledTimes(1);
+      expect(await service.getCredential('github', 'token')).toBe('old');
+    });
+  });
+
+  // ── OAuth refresh ──
+
+  describe('createOAuthRefreshHandler', () => {
+    it('should exchange the stored refresh token and store the new pair', async () => {
+      await service.setCredential('github', 'accessToken', 'at-old', undefined, {
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+      await service.setCredential('github', 'refreshToken', 'rt-old');
+
+      const fetchImpl = vi.fn(async (_url, init) => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ access_token: 'at-new', refresh_token: 'rt-new', expires_in: 3600 }),
+        init,
+      }));
+
+      const scheduler = new CredentialRotationScheduler(service);
+      scheduler.registerHandler(
+        'github',
+        createOAuthRefreshHandler({ tokenUrl: 'https://example.com/token', clientId: 'client', fetchImpl }),
+        'accessToken',
+      );
+
+      const [result] = await scheduler.runOnce();
+
+      expect(result.status).toBe('rotated');
+      const body = new URLSearchParams(fetchImpl.mock.calls[0][1].body);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('rt-old');
+      expect(await service.getCredential('github', 'accessToken')).toBe('at-new');
+      expect(await service.getCredential('github', 'refreshToken')).toBe('rt-new');
+
+      const [health] = service.getCredentialHealth({ warnWithinMs: 0 });
+      expect(health.status).toBe('ok');
+    });
+
+    it('should fail when the provider rejects the refresh', async () => {
+      await service.setCredential('github', 'accessToken', 'at-old', undefined, { rotateEvery: 1 });
+      await service.setCredential('github', 'refreshToken', 'rt-old');
+
+      const scheduler = new CredentialRotationScheduler(service);
+      scheduler.registerHandler(
+        'github',
+        createOAuthRefreshHandler({
+          tokenUrl: 'https://example.com/token',
+          clientId: 'client',
+          fetchImpl: async () => ({ ok: false, status: 400 }),
+        }),
+        'accessToken',
+      );
+
+      const [result] = await scheduler.runOnce(Date.now() + 1000);
+      expect(result).toMatchObject({ status: 'failed', error: 'OAuth refresh failed for github: HTTP 400' });
+    });
+
+    it('should not rotate the refresh token through a platform-wide registration', async () => {
+      const expired = new Date(Date.now() - 1000).toISOString();
+      await service.setCredential('github', 'accessToken', 'at-old', undefined, { expiresAt: expired });
+      await service.setCredential('github', 'refreshToken', 'rt-old', undefined, { expiresAt: expired });
+
+      const fetchImpl = vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ access_token: 'at-new', expires_in: 3600 }),
+      }));
+      const scheduler = new CredentialRotationScheduler(service);
+      scheduler.registerHandler(
+        'github',
+        createOAuthRefreshHandler({ tokenUrl: 'https://example.com/token', clientId: 'client', fetchImpl }),
+      );
+
+      const results = await scheduler.runOnce();
+
+      expect(results).toContainEqual(expect.objectContaining({ key: 'accessToken', status: 'rotated' }));
+      expect(results).toContainEqual({ platform: 'github', key: 'refreshToken', status: 'no_handler' });
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      expect(await service.getCredential('github', 'refreshToken')).toBe('rt-old');
+    });
+  });
+
+  // ── Tools ──
+
+  describe('credentialsRotate tool', () => {
+    it('should clear the old expiry when no new one is given', async () => {
+      await service.setCredential('github', 'token', 'v1', undefined, {
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      const result = await new CredentialsRotateTool(service).execute({
+        platform: 'github',
+        key: 'token',
+        refreshToken: 'v2',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.expiresAt).toBeUndefined();
+      expect(service.getCredentialHealth({ warnWithinMs: 0 })).toEqual([]);
+    });
+
+    it('should only read back the rotated credential', async () => {
+      await service.setCredential('github', 'token', 'v1');
+      await service.setCredential('github', 'webhookSecret', 'whsec');
+      const decrypt = vi.spyOn(service as any, 'decrypt');
+
+      const result = await new CredentialsRotateTool(service).execute({
+        platform: 'github',
+        key: 'token',
+        refreshToken: 'v2',
+      });
+
+      expect(result.success).toBe(true);
+      expect(decrypt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set the expiry it is given', async () => {
+      await service.setCredential('github', 'token', 'v1');
+      const expiresAt = new Date(Date.now() + DAY).toISOString();
+
+      const result = await new CredentialsRotateTool(service).execute({
+        platform: 'github',
+        key: 'token',
+        refreshToken: 'v2',
+        expiresAt,
+      });
+
+      expect(result.data.expiresAt).toBe(expiresAt);
+    });
+  });
+
+  describe('credentialsHealth tool', () => {
+    it('should surface warnings for credentials set through credentialsSet', async () => {
+      const setTool = new CredentialsSetTool(service);
+      await setTool.execute({
+        platform: 'openai',
+        key: 'apiKey',
+        value: 'sk-test',
+        expiresAt: new Date(Date.now() + 3 * DAY).toISOString(),
+      });
+      await setTool.execute({ platform: 'github', key: 'token', value: 'gh', rotateEveryDays: 90 });
+
+      const result = await new CredentialsHealthTool(service).execute({});
+
+      expect(result.success).toBe(true);
+      expect(result.data.count).toBe(1);
+      expect(result.data.credentials[0]).toMatchObject({ platform: 'openai', status: 'expiring' });
+      expect(result.data.warnings[0]).toMatch(/^openai\/apiKey expires in/);
+
+      const all = await new CredentialsHealthTool(service).execute({ includeHealthy: true });
+      expect(all.data.credentials).toHaveLength(2);
+    });
+  });
+});
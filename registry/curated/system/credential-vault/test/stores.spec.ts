@@ -0,0 +1,185 @@
+// @ts-nocheck
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVaultService } from '../src/CredentialVaultService';
+import { EncryptedFileVaultStore } from '../src/stores/EncryptedFileVaultStore';
+import { SqliteVaultStore } from '../src/stores/SqliteVaultStore';
+import { VAULT_FORMAT_VERSION } from '../src/envelope';
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Credential vault persistence', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'credential-vault-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const backends = [
+    ['EncryptedFileVaultStore', () => new EncryptedFileVaultStore(path.join(dir, 'vault.json'))],
+    ['SqliteVaultStore', () => new SqliteVaultStore({ filePath: path.join(dir, 'vault.db') })],
+  ] as const;
+
+  for (const [name, createStore] of backends) {
+    describe(name, () => {
+      it('should persist credentials across restarts', async () => {
+        const first = new CredentialVaultService('pass', { store: createStore() });
+        await first.initialize();
+        await first.setCredential('github', 'token', 'gh_abc123');
+        await first.setCredential('openai', 'apiKey', 'sk-test');
+        await first.deleteCredential('openai', 'apiKey');
+        await first.shutdown();
+
+        const second = new CredentialVaultService('pass', { store: createStore() });
+        await second.initialize();
+        expect(await second.getCredential('github', 'token')).toBe('gh_abc123');
+        expect(await second.getCredential('openai', 'apiKey')).toBeNull();
+        await second.shutdown();
+      });
+
+      it('should reject the wrong passphrase', async () => {
+        const first = new CredentialVaultService('pass', { store: createStore() });
+        await first.initialize();
+        await first.setCredential('github', 'token', 'gh_abc123');
+        await first.shutdown();
+
+        const second = new CredentialVaultService('wrong', { store: createStore() });
+        await expect(second.initialize()).rejects.toThrow('Invalid vault passphrase');
+        expect(second.isRunning).toBe(false);
+      });
+
+      it('should re-key the vault to a new passphrase', async () => {
+        const first = new CredentialVaultService('old-pass', { store: createStore() });
+        await first.initialize();
+        await first.setCredential('github', 'token', 'gh_abc123');
+        await first.rekey('new-pass');
+        expect(await first.getCredential('github', 'token')).toBe('gh_abc123');
+        await first.shutdown();
+
+        await expect(
+          new CredentialVaultService('old-pass', { store: createStore() }).initialize(),
+        ).rejects.toThrow('Invalid vault passphrase');
+
+        const second = new CredentialVaultService('new-pass', { store: createStore() });
+        await second.initialize();
+        expect(await second.getCredential('github', 'token')).toBe('gh_abc123');
+        await second.shutdown();
+      });
+    });
+  }
+
+  describe('vault document', () => {
+    it('should never contain plaintext values', async () => {
+      const filePath = path.join(dir, 'vault.json');
+      const svc = new CredentialVaultService('pass', { store: new EncryptedFileVaultStore(filePath) });
+      await svc.initialize();
+      await svc.setCredential('github', 'token', 'gh_supersecret');
+      await svc.shutdown();
+
+      const raw = await fs.readFile(filePath, 'utf8');
+      expect(raw).not.toContain('gh_supersecret');
+      expect(JSON.parse(raw).version).toBe(VAULT_FORMAT_VERSION);
+    });
+
+    it('should use a random salt per vault and per entry', async () => {
+      const store = async (file: string, value: string) => {
+        const filePath = path.join(dir, file);
+        const svc = new CredentialVaultService('same-pass', { store: new EncryptedFileVaultStore(filePath) });
+        await svc.initialize();
+        await svc.setCredential('a', 'k1', value);
+        await svc.setCredential('a', 'k2', value);
+        await svc.shutdown();
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+      };
+
+      const one = await store('one.json', 'same-value');
+      const two = await store('two.json', 'same-value');
+
+      expect(one.kdf.salt).not.toBe(two.kdf.salt);
+      expect(one.entries[0].salt).not.toBe(one.entries[1].salt);
+      expect(one.entries[0].encryptedValue).not.toBe(one.entries[1].encryptedValue);
+    });
+
+    it('should reject entries moved to another platform/key', async () => {
+      const filePath = path.join(dir, 'vault.json');
+      const svc = new CredentialVaultService('pass', { store: new EncryptedFileVaultStore(filePath) });
+      await svc.initialize();
+      await svc.setCredential('github', 'token', 'gh_abc123');
+      await svc.shutdown();
+
+      const doc = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      doc.entries[0].platform = 'gitlab';
+      await fs.writeFile(filePath, JSON.stringify(doc));
+
+      const tampered = new CredentialVaultService('pass', { store: new EncryptedFileVaultStore(filePath) });
+      await tampered.initialize();
+      await expect(tampered.getCredential('gitlab', 'token')).rejects.toThrow();
+      await tampered.shutdown();
+    });
+
+    it('should refuse vaults written by a newer format version', async () => {
+      const filePath = path.join(dir, 'vault.json');
+      const svc = new CredentialVaultService('pass', { store: new EncryptedFileVaultStore(filePath) });
+      await svc.initialize();
+      await svc.setCredential('github', 'token', 'gh_abc123');
+      await svc.shutdown();
+
+      const doc = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      doc.version = VAULT_FORMAT_VERSION + 1;
+      await fs.writeFile(filePath, JSON.stringify(doc));
+
+      await expect(
+        new CredentialVaultService('pass', { store: new EncryptedFileVaultStore(filePath) }).initialize(),
+      ).rejects.toThrow('Unsupported credential vault format version');
+    });
+
+    it('should keep the old passphrase when saving the re-keyed vault fails', async () => {
+      const filePath = path.join(dir, 'vault.json');
+      const store = new EncryptedFileVaultStore(filePath);
+      const svc = new CredentialVaultService('old-pass', { store });
+      await svc.initialize();
+      await svc.setCredential('github', 'token', 'gh_abc123');
+
+      const save = store.save.bind(store);
+      store.save = async () => {
+        throw new Error('disk full');
+      };
+      await expect(svc.rekey('new-pass')).rejects.toThrow('disk full');
+      store.save = save;
+      await svc.shutdown();
+
+      const reopened = new CredentialVaultService('old-pass', { store: new EncryptedFileVaultStore(filePath) });
+      await reopened.initialize();
+      expect(await reopened.getCredential('github', 'token')).toBe('gh_abc123');
+      await reopened.shutdown();
+    });
+
+    it('should not let saves queued around a re-key land under the old key', async () => {
+      const filePath = path.join(dir, 'vault.json');
+      const svc = new CredentialVaultService('old-pass', { store: new EncryptedFileVaultStore(filePath) });
+      await svc.initialize();
+
+      await Promise.all([
+        svc.setCredential('github', 'token', 'gh_abc123'),
+        svc.rekey('new-pass'),
+        svc.setCredential('openai', 'apiKey', 'sk-test'),
+        svc.rotateCredential('github', 'token', 'gh_def456'),
+      ]);
+      await svc.shutdown();
+
+      const reopened = new CredentialVaultService('new-pass', { store: new EncryptedFileVaultStore(filePath) });
+      await reopened.initialize();
+      expect(await reopened.getCredential('github', 'token')).toBe('gh_def456');
+      expect(await reopened.getCredential('openai', 'apiKey')).toBe('sk-test');
+      await reopened.shutdown();
+    });
+  });
+});
@@ -4,7 +4,8 @@
  *
  * Handles keypair generation, encrypted storage, balance queries, transaction
  * signing, and broadcasting across multiple chains. Works with the
- * SpendingPolicyEnforcer for guardrailed autonomous spending.
+ * SpendingPolicyEnforcer for guardrailed autonomous spending; native and
+ * token amounts are priced in USD through an {@link IPriceFeed}.
  *
  * @module wunderland/wallet/AgentWalletManager
  */
@@ -23,6 +24,10 @@ import type {
   WalletTxStatus,
 } from './types.js';
 import type { SpendingPolicyEnforcer } from './SpendingPolicyEnforcer.js';
+import type { SpendApprovalQueue } from './approvals/SpendApprovalQueue.js';
+import type { CryptoSendPayload, SpendApprovalRequest } from './approvals/types.js';
+import type { IPriceFeed } from './pricing/types.js';
+import { TOKEN_ADDRESSES, TOKEN_DECIMALS, nativeTokenForChain, rawAmountToUsd } from './pricing/tokens.js';
 
 // ---------------------------------------------------------------------------
 // DB store interface (agnostic — callers provide SQLite/Postgres impl)
@@ -88,6 +93,17 @@ export interface AgentWalletManagerOptions {
   policyEnforcer: SpendingPolicyEnforcer;
   /** Chain adapters keyed by ChainId. */
   adapters: Map<ChainId, IChainWalletAdapter>;
+  /**
+   * Holds sends above the approval threshold for a human decision instead of
+   * rejecting them. Approved sends resume automatically.
+   */
+  approvalQueue?: SpendApprovalQueue;
+  /**
+   * Prices native and token amounts in USD before policy checks. Required
+   * for {@link AgentWalletManager.sendToken}; when set, it also overrides
+   * the caller's estimate in {@link AgentWalletManager.sendNative}.
+   */
+  priceFeed?: IPriceFeed;
 }
 
 export class AgentWalletManager {
@@ -96,6 +112,8 @@ export class AgentWalletManager {
   private readonly store: IWalletStore;
   private readonly policy: SpendingPolicyEnforcer;
   private readonly adapters: Map<ChainId, IChainWalletAdapter>;
+  private readonly approvalQueue?: SpendApprovalQueue;
+  private readonly priceFeed?: IPriceFeed;
 
   /** In-memory balance cache: `${agentId}:${chain}:${token}` → { value, ts }. */
   private balanceCache = new Map<string, { value: bigint; ts: number }>();
@@ -107,6 +125,9 @@ export class AgentWalletManager {
     this.store = opts.store;
     this.policy = opts.policyEnforcer;
     this.adapters = opts.adapters;
+    this.approvalQueue = opts.approvalQueue;
+    this.priceFeed = opts.priceFeed;
+    this.approvalQueue?.registerExecutor('crypto_send', (request) => this.executeApprovedSend(request));
   }
 
   // -----------------------------------------------------------------------
@@ -190,6 +211,13 @@ export class AgentWalletManager {
   /**
    * Send native token with spending policy enforcement.
    * Returns the transaction record (pending until broadcast confirms).
+   *
+   * With a price feed configured, the amount is priced from the feed and
+   * `amountUsd` is ignored, so policy checks never rest on a caller's estimate.
+   *
+   * Sends above the approval threshold throw {@link ApprovalPendingError}
+   * when an approval queue is configured (the send resumes once approved),
+   * or {@link ApprovalRequiredError} otherwise.
    */
   async sendNative(
     agentId: string,
@@ -199,16 +227,131 @@ export class AgentWalletManager {
     amountUsd: number,
     category: SpendCategory,
     description?: string,
+  ): Promise<WalletTransactionRecord> {
+    const token = nativeTokenForChain(chain);
+    const pricedUsd = this.priceFeed ? await this.quoteUsd(chain, token, amountRaw) : amountUsd;
+    return this.send(
+      agentId,
+      { chain, to, amountRaw: amountRaw.toString(), token, description },
+      pricedUsd,
+      category,
+    );
+  }
+
+  /**
+   * Send an SPL / ERC-20 token (e.g. USDC) with spending policy enforcement.
+   * The amount is priced through the configured price feed; approval
+   * behaves as in {@link sendNative}.
+   */
+  async sendToken(
+    agentId: string,
+    chain: ChainId,
+    to: string,
+    token: TokenSymbol,
+    amountRaw: bigint,
+    category: SpendCategory,
+    description?: string,
+  ): Promise<WalletTransactionRecord> {
+    if (token === nativeTokenForChain(chain)) {
+      const amountUsd = await this.quoteUsd(chain, token, amountRaw);
+      return this.sendNative(agentId, chain, to, amountRaw, amountUsd, category, description);
+    }
+    if (!this.walletConfig.allowedTokens.includes(token)) {
+      throw new SpendingPolicyViolation(`Token ${token} is not in the wallet's allowed tokens.`);
+    }
+    const tokenAddress = TOKEN_ADDRESSES[chain]?.[token];
+    if (!tokenAddress) {
+      throw new Error(`Token ${token} is not supported on ${chain}.`);
+    }
+
+    const amountUsd = await this.quoteUsd(chain, token, amountRaw);
+    return this.send(
+      agentId,
+      { chain, to, amountRaw: amountRaw.toString(), token, tokenAddress, description },
+      amountUsd,
+      category,
+    );
+  }
+
+  /** USD value of a raw amount of `token` on `chain`, from the price feed. */
+  async quoteUsd(chain: ChainId, token: TokenSymbol, amountRaw: bigint): Promise<number> {
+    if (!this.priceFeed) {
+      throw new Error('No price feed configured; cannot price token amounts in USD.');
+    }
+    const price = await this.priceFeed.getUsdPrice(token, chain);
+    return rawAmountToUsd(amountRaw, TOKEN_DECIMALS[token], price);
+  }
+
+  /** Get recent transactions for a wallet. */
+  async getTransactionHistory(agentId: string, chain: ChainId, limit = 20): Promise<WalletTransactionRecord[]> {
+    const wallet = await this.requireWallet(agentId, chain);
+    return this.store.getTransactions(wallet.id, limit);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  /** Check policy, then send now or hold the transfer for approval. */
+  private async send(
+    agentId: string,
+    transfer: CryptoSendPayload,
+    amountUsd: number,
+    category: SpendCategory,
   ): Promise<WalletTransactionRecord> {
     // Enforce spending policy
-    const check = await this.policy.canSpend(agentId, amountUsd, category, to);
+    const check = await this.policy.canSpend(agentId, amountUsd, category, transfer.to);
     if (!check.allowed) {
       throw new SpendingPolicyViolation(check.reason || 'Spending policy violation');
     }
     if (check.requiresApproval) {
-      throw new ApprovalRequiredError(amountUsd, category);
+      if (!this.approvalQueue) {
+        throw new ApprovalRequiredError(amountUsd, category);
+      }
+
+      // Fail now rather than after a human has spent time approving it
+      await this.requireWallet(agentId, transfer.chain);
+      const request = await this.approvalQueue.enqueue({
+        agentId,
+        kind: 'crypto_send',
+        amountUsd,
+        category,
+        payload: transfer,
+        reason: check.holds?.map((h) => h.reason).join(' ')
+          || `Amount $${amountUsd.toFixed(2)} is above the approval threshold.`,
+      });
+      throw new ApprovalPendingError(request);
     }
 
+    return this.executeSend(agentId, transfer, amountUsd, category);
+  }
+
+  /**
+   * Resume a crypto send an approver signed off on. Limits are re-checked
+   * because other spends may have landed while it waited.
+   */
+  private async executeApprovedSend(
+    request: SpendApprovalRequest,
+  ): Promise<{ transactionId: string; txHash?: string }> {
+    const payload = request.payload as CryptoSendPayload;
+    const check = await this.policy.canSpend(request.agentId, request.amountUsd, request.category, payload.to);
+    if (!check.allowed) {
+      throw new SpendingPolicyViolation(check.reason || 'Spending policy violation');
+    }
+
+    const tx = await this.executeSend(request.agentId, payload, request.amountUsd, request.category, request.id);
+    return { transactionId: tx.id, txHash: tx.txHash };
+  }
+
+  private async executeSend(
+    agentId: string,
+    transfer: CryptoSendPayload,
+    amountUsd: number,
+    category: SpendCategory,
+    approvalId?: string,
+  ): Promise<WalletTransactionRecord> {
+    const { chain, to, tokenAddress } = transfer;
+    const amountRaw = BigInt(transfer.amountRaw);
     const wallet = await this.requireWallet(agentId, chain);
     const adapter = this.getAdapter(chain);
     const secretKey = this.decryptKey(wallet);
@@ -220,19 +363,21 @@ export class AgentWalletManager {
       direction: 'outbound',
       toAddress: to,
       fromAddress: wallet.address,
-      amountRaw: amountRaw.toString(),
+      amountRaw: transfer.amountRaw,
       amountUsd,
-      token: nativeTokenForChain(chain),
+      token: transfer.token,
       category,
       status: 'pending',
-      description,
+      description: transfer.description,
       createdAt: Date.now(),
     };
     await this.store.insertTransaction(txRecord);
 
     try {
       // Sign and broadcast
-      const signedTx = await adapter.signTransfer(secretKey, to, amountRaw);
+      const signedTx = tokenAddress
+        ? await adapter.signTokenTransfer(secretKey, to, tokenAddress, amountRaw)
+        : await adapter.signTransfer(secretKey, to, amountRaw);
       const txHash = await adapter.broadcast(signedTx);
 
       // Update record
@@ -241,10 +386,10 @@ export class AgentWalletManager {
       txRecord.txHash = txHash;
 
       // Record in spending ledger
-      await this.policy.recordSpend(agentId, amountUsd, category);
+      await this.policy.recordSpend(agentId, amountUsd, category, approvalId, to);
 
       // Invalidate balance cache
-      this.balanceCache.delete(`${agentId}:${chain}:native`);
+      this.balanceCache.delete(`${agentId}:${chain}:${tokenAddress ?? 'native'}`);
     } catch (err) {
       await this.store.updateTransactionStatus(txRecord.id, 'failed');
       txRecord.status = 'failed';
@@ -254,16 +399,6 @@ export class AgentWalletManager {
     return txRecord;
   }
 
-  /** Get recent transactions for a wallet. */
-  async getTransactionHistory(agentId: string, chain: ChainId, limit = 20): Promise<WalletTransactionRecord[]> {
-    const wallet = await this.requireWallet(agentId, chain);
-    return this.store.getTransactions(wallet.id, limit);
-  }
-
-  // -----------------------------------------------------------------------
-  // Internal helpers
-  // -----------------------------------------------------------------------
-
   private getAdapter(chain: ChainId): IChainWalletAdapter {
     const adapter = this.adapters.get(chain);
     if (!adapter) {
@@ -309,16 +444,17 @@ export class ApprovalRequiredError extends Error {
   }
 }
 
-// ---------------------------------------------------------------------------
-// Utility
-// ---------------------------------------------------------------------------
-
-function nativeTokenForChain(chain: ChainId): TokenSymbol {
-  switch (chain) {
-    case 'solana': return 'SOL';
-    case 'ethereum': return 'ETH';
-    case 'base': return 'ETH';
-    case 'polygon': return 'ETH'; // MATIC wraps to ETH for simplicity
-    default: return 'ETH';
+/** The spend was queued for human approval rather than rejected. */
+export class ApprovalPendingError extends ApprovalRequiredError {
+  readonly approvalId: string;
+  readonly expiresAt: number;
+
+  constructor(public readonly request: SpendApprovalRequest) {
+    super(request.amountUsd, request.category);
+    this.message = `Transaction of $${request.amountUsd.toFixed(2)} in category "${request.category}" `
+      + `is awaiting human approval (request ${request.id}).`;
+    this.name = 'ApprovalPendingError';
+    this.approvalId = request.id;
+    this.expiresAt = request.expiresAt;
   }
 }
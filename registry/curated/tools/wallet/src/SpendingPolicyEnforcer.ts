@@ -1,7 +1,8 @@
 // @ts-nocheck
 /**
  * @fileoverview Pre-transaction guardrail that enforces spending limits,
- * category budgets, address whitelists/blacklists, and approval thresholds.
+ * category budgets, address whitelists/blacklists, velocity caps, anomaly
+ * checks, and approval thresholds.
  *
  * All amounts are in USD. The enforcer tracks running totals via a
  * simple ledger interface — callers provide the persistence layer.
@@ -9,13 +10,22 @@
  * @module wunderland/wallet/SpendingPolicyEnforcer
  */
 
+import type { ApprovalDecisionEntry } from './approvals/types.js';
 import type {
   SpendCategory,
   SpendCheckResult,
+  SpendHistoryEntry,
+  SpendHistoryQuery,
   SpendingLedgerEntry,
   SpendingPolicyConfig,
+  SpendRuleHold,
 } from './types.js';
 
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_ANOMALY_MIN_SAMPLES = 5;
+const DEFAULT_ANOMALY_LOOKBACK_DAYS = 30;
+
 /** Minimal interface for querying the spending ledger (DB-agnostic). */
 export interface ISpendingLedgerStore {
   /** Sum all spending for the agent in the given period key (e.g. '2026-03-05'). */
@@ -24,13 +34,27 @@ export interface ISpendingLedgerStore {
   sumByCategoryAndPeriod(agentId: string, category: SpendCategory, periodKey: string): Promise<number>;
   /** Record a new ledger entry after a successful spend. */
   insert(entry: SpendingLedgerEntry): Promise<void>;
+  /** Record an approver's decision on a held spend. Optional — stores without it skip the audit row. */
+  insertApprovalDecision?(entry: ApprovalDecisionEntry): Promise<void>;
+  /**
+   * Past spends for the agent, one entry per spend, newest first. Required
+   * when the policy sets velocity, first-time-recipient or anomaly rules.
+   */
+  getSpendHistory?(agentId: string, query?: SpendHistoryQuery): Promise<SpendHistoryEntry[]>;
 }
 
 export class SpendingPolicyEnforcer {
   constructor(
     private readonly policy: SpendingPolicyConfig,
     private readonly ledger: ISpendingLedgerStore,
-  ) {}
+  ) {
+    const needsHistory = policy.velocity || policy.firstTimeRecipientHold?.enabled || policy.anomaly;
+    if (needsHistory && !ledger.getSpendHistory) {
+      throw new Error(
+        'Spending policy uses velocity, first-time-recipient or anomaly rules, but the ledger store does not implement getSpendHistory.',
+      );
+    }
+  }
 
   /**
    * Check whether a proposed spend is allowed under the current policy.
@@ -43,12 +67,12 @@ export class SpendingPolicyEnforcer {
   ): Promise<SpendCheckResult> {
     // 1. Blocked category check
     if (this.policy.blockedCategories.includes(category)) {
-      return { allowed: false, reason: `Category "${category}" is blocked by spending policy.` };
+      return { allowed: false, rule: 'blocked_category', reason: `Category "${category}" is blocked by spending policy.` };
     }
 
     // 2. Address blacklist check
     if (recipientAddress && this.policy.blockedAddresses?.includes(recipientAddress)) {
-      return { allowed: false, reason: `Recipient address is blocked.` };
+      return { allowed: false, rule: 'blocked_address', reason: `Recipient address is blocked.` };
     }
 
     // 3. Address whitelist check (if whitelist is set, only whitelisted addresses are allowed)
@@ -58,13 +82,14 @@ export class SpendingPolicyEnforcer {
       && this.policy.allowedAddresses.length > 0
       && !this.policy.allowedAddresses.includes(recipientAddress)
     ) {
-      return { allowed: false, reason: `Recipient address is not in the allowed list.` };
+      return { allowed: false, rule: 'address_not_allowed', reason: `Recipient address is not in the allowed list.` };
     }
 
     // 4. Per-transaction limit
     if (amountUsd > this.policy.perTransactionLimitUsd) {
       return {
         allowed: false,
+        rule: 'per_transaction_limit',
         reason: `Amount $${amountUsd.toFixed(2)} exceeds per-transaction limit of $${this.policy.perTransactionLimitUsd.toFixed(2)}.`,
       };
     }
@@ -78,6 +103,7 @@ export class SpendingPolicyEnforcer {
     if (amountUsd > remainingDailyUsd) {
       return {
         allowed: false,
+        rule: 'daily_limit',
         reason: `Daily limit reached. Spent $${dailySpent.toFixed(2)} of $${this.policy.dailyLimitUsd.toFixed(2)} today.`,
         remainingDailyUsd: Math.max(0, remainingDailyUsd),
       };
@@ -89,6 +115,7 @@ export class SpendingPolicyEnforcer {
     if (amountUsd > remainingMonthlyUsd) {
       return {
         allowed: false,
+        rule: 'monthly_limit',
         reason: `Monthly limit reached. Spent $${monthlySpent.toFixed(2)} of $${this.policy.monthlyLimitUsd.toFixed(2)} this month.`,
         remainingMonthlyUsd: Math.max(0, remainingMonthlyUsd),
       };
@@ -101,6 +128,7 @@ export class SpendingPolicyEnforcer {
       if (amountUsd > catBudget.dailyLimitUsd - catDailySpent) {
         return {
           allowed: false,
+          rule: 'category_daily_budget',
           reason: `Daily "${category}" budget exceeded. Spent $${catDailySpent.toFixed(2)} of $${catBudget.dailyLimitUsd.toFixed(2)}.`,
         };
       }
@@ -108,22 +136,136 @@ export class SpendingPolicyEnforcer {
       if (amountUsd > catBudget.monthlyLimitUsd - catMonthlySpent) {
         return {
           allowed: false,
+          rule: 'category_monthly_budget',
           reason: `Monthly "${category}" budget exceeded. Spent $${catMonthlySpent.toFixed(2)} of $${catBudget.monthlyLimitUsd.toFixed(2)}.`,
         };
       }
     }
 
-    // 8. Human approval threshold
-    const requiresApproval = amountUsd > this.policy.requireApprovalAboveUsd;
+    // 8. Velocity caps
+    const velocityBlock = await this.checkVelocity(agentId, amountUsd);
+    if (velocityBlock) return velocityBlock;
+
+    // 9. Anomaly check — blocks outright or joins the holds below
+    const anomaly = await this.checkAnomaly(agentId, amountUsd, category);
+    if (anomaly && this.policy.anomaly?.action === 'block') {
+      return { allowed: false, ...anomaly };
+    }
+
+    // 10. Human approval holds: threshold, first-time recipient, anomaly
+    const holds: SpendRuleHold[] = [];
+    if (amountUsd > this.policy.requireApprovalAboveUsd) {
+      holds.push({
+        rule: 'approval_threshold',
+        reason: `Amount $${amountUsd.toFixed(2)} is above the approval threshold of $${this.policy.requireApprovalAboveUsd.toFixed(2)}.`,
+      });
+    }
+    const firstTime = await this.checkFirstTimeRecipient(agentId, amountUsd, recipientAddress);
+    if (firstTime) holds.push(firstTime);
+    if (anomaly) holds.push(anomaly);
 
+    const requiresApproval = holds.length > 0;
     return {
       allowed: true,
       requiresApproval,
+      ...(requiresApproval ? { holds } : {}),
       remainingDailyUsd: remainingDailyUsd - amountUsd,
       remainingMonthlyUsd: remainingMonthlyUsd - amountUsd,
     };
   }
 
+  // -----------------------------------------------------------------------
+  // History-based rules
+  // -----------------------------------------------------------------------
+
+  /** Block when the spend would exceed a transaction-count or rolling-window cap. */
+  private async checkVelocity(agentId: string, amountUsd: number): Promise<SpendCheckResult | null> {
+    const velocity = this.policy.velocity;
+    if (!velocity) return null;
+
+    const windows = velocity.rollingWindows ?? [];
+    const longestMinutes = Math.max(
+      velocity.maxTransactionsPerHour !== undefined ? 60 : 0,
+      ...windows.map((w) => w.windowMinutes),
+    );
+    if (longestMinutes <= 0) return null;
+
+    const now = Date.now();
+    const history = await this.ledger.getSpendHistory!(agentId, { since: now - longestMinutes * MINUTE_MS });
+
+    if (velocity.maxTransactionsPerHour !== undefined) {
+      const lastHour = history.filter((e) => e.createdAt >= now - 60 * MINUTE_MS).length;
+      if (lastHour + 1 > velocity.maxTransactionsPerHour) {
+        return {
+          allowed: false,
+          rule: 'velocity_transactions_per_hour',
+          reason: `Velocity limit reached. ${lastHour} transaction(s) in the last hour; at most ${velocity.maxTransactionsPerHour} allowed.`,
+        };
+      }
+    }
+
+    for (const window of windows) {
+      const spent = history
+        .filter((e) => e.createdAt >= now - window.windowMinutes * MINUTE_MS)
+        .reduce((sum, e) => sum + e.amountUsd, 0);
+      if (spent + amountUsd > window.maxSpendUsd) {
+        return {
+          allowed: false,
+          rule: 'velocity_rolling_window',
+          reason: `Rolling limit reached. Spent $${spent.toFixed(2)} in the last ${window.windowMinutes} minutes; `
+            + `$${amountUsd.toFixed(2)} more would exceed $${window.maxSpendUsd.toFixed(2)}.`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /** Flag a spend far above the agent's median past spend in the same category. */
+  private async checkAnomaly(
+    agentId: string,
+    amountUsd: number,
+    category: SpendCategory,
+  ): Promise<SpendRuleHold | null> {
+    const anomaly = this.policy.anomaly;
+    if (!anomaly) return null;
+
+    const lookbackDays = anomaly.lookbackDays ?? DEFAULT_ANOMALY_LOOKBACK_DAYS;
+    const history = await this.ledger.getSpendHistory!(agentId, {
+      since: Date.now() - lookbackDays * DAY_MS,
+      category,
+    });
+    if (history.length < (anomaly.minSamples ?? DEFAULT_ANOMALY_MIN_SAMPLES)) return null;
+
+    const typical = median(history.map((e) => e.amountUsd));
+    if (amountUsd <= typical * anomaly.medianMultiplier) return null;
+
+    return {
+      rule: 'anomaly_median',
+      reason: `Amount $${amountUsd.toFixed(2)} is more than ${anomaly.medianMultiplier}x the median "${category}" spend `
+        + `of $${typical.toFixed(2)} over the last ${lookbackDays} days.`,
+    };
+  }
+
+  /** Hold a send to an address the agent has never paid before. */
+  private async checkFirstTimeRecipient(
+    agentId: string,
+    amountUsd: number,
+    recipientAddress?: string,
+  ): Promise<SpendRuleHold | null> {
+    const rule = this.policy.firstTimeRecipientHold;
+    if (!rule?.enabled || !recipientAddress) return null;
+    if (amountUsd < (rule.minAmountUsd ?? 0)) return null;
+
+    const previous = await this.ledger.getSpendHistory!(agentId, { recipient: recipientAddress, limit: 1 });
+    if (previous.length > 0) return null;
+
+    return {
+      rule: 'first_time_recipient',
+      reason: `Recipient ${recipientAddress} has not been paid before.`,
+    };
+  }
+
   /**
    * Record a completed spend in the ledger (call after successful tx).
    */
@@ -131,6 +273,8 @@ export class SpendingPolicyEnforcer {
     agentId: string,
     amountUsd: number,
     category: SpendCategory,
+    approvalId?: string,
+    recipient?: string,
   ): Promise<void> {
     const now = Date.now();
     const dailyKey = getDailyKey();
@@ -143,6 +287,8 @@ export class SpendingPolicyEnforcer {
       category,
       amountUsd,
       periodKey: dailyKey,
+      approvalId,
+      recipient,
       createdAt: now,
     });
     await this.ledger.insert({
@@ -151,15 +297,31 @@ export class SpendingPolicyEnforcer {
       category,
       amountUsd,
       periodKey: monthlyKey,
+      approvalId,
+      recipient,
       createdAt: now,
     });
   }
+
+  /**
+   * Record an approve/deny/expire decision on a held spend. Decisions carry
+   * no period key, so they never count toward spending totals.
+   */
+  async recordApprovalDecision(entry: ApprovalDecisionEntry): Promise<void> {
+    await this.ledger.insertApprovalDecision?.(entry);
+  }
 }
 
 // ---------------------------------------------------------------------------
-// Date key helpers
+// Helpers
 // ---------------------------------------------------------------------------
 
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
 function getDailyKey(): string {
   return new Date().toISOString().slice(0, 10); // YYYY-MM-DD
 }
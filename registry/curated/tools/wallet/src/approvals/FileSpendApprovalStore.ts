@@ -0,0 +1,72 @@
+// @ts-nocheck
+/**
+ * @fileoverview JSON-file approval store, so held spends survive restarts.
+ *
+ * The whole queue is rewritten on each change (write to a temp file, then
+ * rename), which is fine for the handful of spends that wait on a human.
+ *
+ * @module wallet/approvals/FileSpendApprovalStore
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ISpendApprovalStore, SpendApprovalFilter, SpendApprovalRequest } from './types.js';
+import { matchesFilter } from './filter.js';
+
+export class FileSpendApprovalStore implements ISpendApprovalStore {
+  private requests: Map<string, SpendApprovalRequest> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async insert(request: SpendApprovalRequest): Promise<void> {
+    const requests = await this.load();
+    if (requests.has(request.id)) throw new Error(`Approval request ${request.id} already exists`);
+    requests.set(request.id, structuredClone(request));
+    await this.flush();
+  }
+
+  async update(request: SpendApprovalRequest): Promise<void> {
+    const requests = await this.load();
+    requests.set(request.id, structuredClone(request));
+    await this.flush();
+  }
+
+  async get(id: string): Promise<SpendApprovalRequest | null> {
+    const request = (await this.load()).get(id);
+    return request ? structuredClone(request) : null;
+  }
+
+  async list(filter: SpendApprovalFilter = {}): Promise<SpendApprovalRequest[]> {
+    const matches = [...(await this.load()).values()]
+      .filter((r) => matchesFilter(r, filter))
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+    return (filter.limit ? matches.slice(0, filter.limit) : matches).map((r) => structuredClone(r));
+  }
+
+  private async load(): Promise<Map<string, SpendApprovalRequest>> {
+    if (this.requests) return this.requests;
+
+    let parsed: SpendApprovalRequest[] = [];
+    try {
+      parsed = JSON.parse(await readFile(this.filePath, 'utf8')).requests ?? [];
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+    }
+
+    this.requests ??= new Map(parsed.map((r) => [r.id, r]));
+    return this.requests;
+  }
+
+  private flush(): Promise<void> {
+    const snapshot = JSON.stringify({ version: 1, requests: [...this.requests!.values()] }, null, 2);
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tmp, snapshot, { encoding: 'utf8', mode: 0o600 });
+      await rename(tmp, this.filePath);
+    });
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+}
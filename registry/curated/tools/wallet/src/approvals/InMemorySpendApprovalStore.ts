@@ -0,0 +1,32 @@
+// @ts-nocheck
+/**
+ * @fileoverview In-memory approval store (CLI/ephemeral — pending spends are lost on restart).
+ * @module wallet/approvals/InMemorySpendApprovalStore
+ */
+
+import type { ISpendApprovalStore, SpendApprovalFilter, SpendApprovalRequest } from './types.js';
+import { matchesFilter } from './filter.js';
+
+export class InMemorySpendApprovalStore implements ISpendApprovalStore {
+  private readonly requests = new Map<string, SpendApprovalRequest>();
+
+  async insert(request: SpendApprovalRequest): Promise<void> {
+    this.requests.set(request.id, structuredClone(request));
+  }
+
+  async update(request: SpendApprovalRequest): Promise<void> {
+    this.requests.set(request.id, structuredClone(request));
+  }
+
+  async get(id: string): Promise<SpendApprovalRequest | null> {
+    const request = this.requests.get(id);
+    return request ? structuredClone(request) : null;
+  }
+
+  async list(filter: SpendApprovalFilter = {}): Promise<SpendApprovalRequest[]> {
+    const matches = [...this.requests.values()]
+      .filter((r) => matchesFilter(r, filter))
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+    return (filter.limit ? matches.slice(0, filter.limit) : matches).map((r) => structuredClone(r));
+  }
+}
@@ -0,0 +1,328 @@
+// @ts-nocheck
+/**
+ * @fileoverview Human-in-the-loop queue for spends above `requireApprovalAboveUsd`.
+ *
+ * Instead of failing, a spend that needs approval is held here. Approvers
+ * approve, deny or expire it; approved crypto sends resume through the
+ * registered executor (AgentWalletManager), approved card payments are
+ * redeemed by the agent's next `pay_with_card` call. Every decision is
+ * written to the spending ledger.
+ *
+ * Quorum rules make large spends need N distinct approvers (optionally out
+ * of a fixed set of M); each sign-off short of the quorum is recorded, and
+ * any eligible approver can still deny.
+ *
+ * @module wallet/approvals/SpendApprovalQueue
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { SpendingPolicyEnforcer } from '../SpendingPolicyEnforcer.js';
+import type { SpendCategory } from '../types.js';
+import { InMemorySpendApprovalStore } from './InMemorySpendApprovalStore.js';
+import type {
+  ApprovalDecisionEntry,
+  ApprovalQuorumRule,
+  CardPaymentPayload,
+  CryptoSendPayload,
+  ISpendApprovalStore,
+  SpendApprovalFilter,
+  SpendApprovalKind,
+  SpendApprovalRequest,
+} from './types.js';
+
+/** Resumes an approved spend; returns what to record on the request. */
+export type ApprovedSpendExecutor = (
+  request: SpendApprovalRequest,
+) => Promise<{ transactionId?: string; txHash?: string }>;
+
+export interface SpendApprovalQueueOptions {
+  store?: ISpendApprovalStore;
+  /** How long a request waits for a decision (default 24h). */
+  ttlMs?: number;
+  /** Ledger that records approve/deny/expire decisions. */
+  policyEnforcer?: SpendingPolicyEnforcer;
+  /** N-of-M approval rules for large or sensitive spends. */
+  quorumRules?: ApprovalQuorumRule[];
+  /**
+   * Principals (human user IDs) who may approve or deny any spend. When
+   * set, nobody else can; the `wallet_spend_approvals` tool requires it.
+   */
+  approvers?: string[];
+}
+
+export interface EnqueueSpendInput {
+  agentId: string;
+  kind: SpendApprovalKind;
+  amountUsd: number;
+  category: SpendCategory;
+  payload: CryptoSendPayload | CardPaymentPayload;
+  reason: string;
+}
+
+export class SpendApprovalQueue {
+  private readonly store: ISpendApprovalStore;
+  private readonly ttlMs: number;
+  private readonly policy?: SpendingPolicyEnforcer;
+  private readonly quorumRules: ApprovalQuorumRule[];
+  private readonly approvers?: ReadonlySet<string>;
+  private readonly executors = new Map<SpendApprovalKind, ApprovedSpendExecutor>();
+  /** Per-request lock so concurrent decisions on one request apply in turn. */
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(opts: SpendApprovalQueueOptions = {}) {
+    this.store = opts.store ?? new InMemorySpendApprovalStore();
+    this.ttlMs = opts.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.policy = opts.policyEnforcer;
+    this.quorumRules = opts.quorumRules ?? [];
+    this.approvers = opts.approvers ? new Set(opts.approvers) : undefined;
+    for (const rule of this.quorumRules) {
+      if (!Number.isInteger(rule.requiredApprovals) || rule.requiredApprovals < 1) {
+        throw new Error('Quorum rule requiredApprovals must be a positive integer.');
+      }
+      if (rule.approvers && rule.approvers.length < rule.requiredApprovals) {
+        throw new Error(
+          `Quorum rule needs ${rule.requiredApprovals} approvals but lists only ${rule.approvers.length} approvers.`,
+        );
+      }
+    }
+  }
+
+  /** Whether `principalId` is one of the configured approvers (false when none are configured). */
+  isApprover(principalId: string): boolean {
+    return this.approvers?.has(principalId) ?? false;
+  }
+
+  /** Register how approved spends of a kind resume (AgentWalletManager does this for crypto sends). */
+  registerExecutor(kind: SpendApprovalKind, executor: ApprovedSpendExecutor): void {
+    this.executors.set(kind, executor);
+  }
+
+  /** Hold a spend until an approver decides. */
+  async enqueue(input: EnqueueSpendInput): Promise<SpendApprovalRequest> {
+    const now = Date.now();
+    const quorum = this.quorumFor(input);
+    const request: SpendApprovalRequest = {
+      id: uuidv4(),
+      ...input,
+      ...(quorum ? { requiredApprovals: quorum.requiredApprovals, eligibleApprovers: quorum.approvers } : {}),
+      status: 'pending',
+      requestedAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+    await this.store.insert(request);
+    return request;
+  }
+
+  async get(id: string): Promise<SpendApprovalRequest | null> {
+    const request = await this.store.get(id);
+    if (request?.status === 'pending' && request.expiresAt <= Date.now()) {
+      // Another caller may have decided in the meantime; report whatever stuck
+      return this.withLock(id, () => this.decide(id, 'expired', 'system', 'Approval window elapsed'))
+        .catch(() => this.store.get(id));
+    }
+    return request;
+  }
+
+  /** Requests matching the filter, newest first. Lapsed pending requests are expired first. */
+  async list(filter: SpendApprovalFilter = {}): Promise<SpendApprovalRequest[]> {
+    await this.expireStale();
+    return this.store.list(filter);
+  }
+
+  /**
+   * Approve a pending spend. Crypto sends resume immediately; the returned
+   * request is `executed` or `failed` (with `error`). Card payments stay
+   * `approved` until the agent redeems them. Under a quorum rule the request
+   * stays `pending` until enough distinct approvers have signed off.
+   */
+  async approve(id: string, approverId: string, note?: string): Promise<SpendApprovalRequest> {
+    return this.withLock(id, async () => {
+      const approved = await this.sign(id, approverId, note);
+      if (approved.status === 'pending') return approved;
+
+      const executor = this.executors.get(approved.kind);
+      if (!executor) return approved;
+
+      try {
+        const result = await executor(approved);
+        return this.transition(approved, { status: 'executed', executedAt: Date.now(), ...result });
+      } catch (err: any) {
+        return this.transition(approved, { status: 'failed', error: err?.message || String(err) });
+      }
+    });
+  }
+
+  async deny(id: string, approverId: string, note?: string): Promise<SpendApprovalRequest> {
+    return this.withLock(id, () => this.decide(id, 'denied', approverId, note));
+  }
+
+  /** Withdraw a pending request without a verdict (e.g. it's no longer needed). */
+  async expire(id: string, approverId = 'system', note?: string): Promise<SpendApprovalRequest> {
+    return this.withLock(id, () => this.decide(id, 'expired', approverId, note));
+  }
+
+  /** Expire every pending request whose approval window has passed. */
+  async expireStale(now = Date.now()): Promise<SpendApprovalRequest[]> {
+    const pending = await this.store.list({ status: 'pending' });
+    const expired: SpendApprovalRequest[] = [];
+    for (const request of pending) {
+      if (request.expiresAt > now) continue;
+      try {
+        expired.push(
+          await this.withLock(request.id, () => this.decide(request.id, 'expired', 'system', 'Approval window elapsed')),
+        );
+      } catch {
+        // Decided concurrently — nothing to expire
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Consume an approved card payment. The caller must be the agent that
+   * asked, for no more than the approved amount, before the request expires.
+   */
+  async redeem(
+    id: string,
+    claim: { agentId: string; kind: SpendApprovalKind; amountUsd: number },
+  ): Promise<SpendApprovalRequest> {
+    return this.withLock(id, async () => {
+      const request = await this.store.get(id);
+      if (!request || request.agentId !== claim.agentId || request.kind !== claim.kind) {
+        throw new Error(`No matching approval request ${id}.`);
+      }
+      if (request.status !== 'approved') {
+        throw new Error(`Approval request ${id} is ${request.status}, not approved.`);
+      }
+      if (request.expiresAt <= Date.now()) {
+        throw new Error(`Approval request ${id} expired before it was used.`);
+      }
+      if (claim.amountUsd > request.amountUsd + 1e-9) {
+        throw new Error(
+          `Amount $${claim.amountUsd.toFixed(2)} exceeds the approved $${request.amountUsd.toFixed(2)}.`,
+        );
+      }
+      return this.transition(request, { status: 'executed', executedAt: Date.now() });
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  /** Add one approval; the request becomes `approved` once the quorum is met. */
+  private async sign(id: string, approverId: string, note?: string): Promise<SpendApprovalRequest> {
+    const request = await this.requireDecidable(id, 'approved', approverId);
+    const approvals = request.approvals ?? [];
+    if (approvals.some((a) => a.approverId === approverId)) {
+      throw new Error(`${approverId} has already approved request ${id}.`);
+    }
+
+    const signed = [...approvals, { approverId, approvedAt: Date.now(), note }];
+    if (signed.length >= (request.requiredApprovals ?? 1)) {
+      return this.decide(id, 'approved', approverId, note, { approvals: signed });
+    }
+
+    const pending = await this.transition(request, { approvals: signed });
+    await this.recordDecision(pending, 'signed', approverId, note, `approval-${id}-signed-${approverId}`);
+    return pending;
+  }
+
+  private async decide(
+    id: string,
+    decision: 'approved' | 'denied' | 'expired',
+    decidedBy: string,
+    note?: string,
+    changes: Partial<SpendApprovalRequest> = {},
+  ): Promise<SpendApprovalRequest> {
+    const request = await this.requireDecidable(id, decision, decidedBy);
+    const decided = await this.transition(request, {
+      ...changes,
+      status: decision,
+      decidedAt: Date.now(),
+      decidedBy,
+      decisionNote: note,
+    });
+    await this.recordDecision(decided, decision, decidedBy, note, `approval-${id}-${decision}`);
+    return decided;
+  }
+
+  /** Load a request and check `decidedBy` may still make this decision on it. */
+  private async requireDecidable(
+    id: string,
+    decision: 'approved' | 'denied' | 'expired',
+    decidedBy: string,
+  ): Promise<SpendApprovalRequest> {
+    const request = await this.store.get(id);
+    if (!request) throw new Error(`Approval request ${id} not found.`);
+    if (request.status !== 'pending') {
+      throw new Error(`Approval request ${id} is already ${request.status}.`);
+    }
+    if (decision === 'approved' && request.expiresAt <= Date.now()) {
+      await this.decide(id, 'expired', 'system', 'Approval window elapsed');
+      throw new Error(`Approval request ${id} expired before it was approved.`);
+    }
+    if (decision !== 'expired' && decidedBy === request.agentId) {
+      throw new Error('An agent cannot decide on its own spend request.');
+    }
+    if (decision !== 'expired' && this.approvers && !this.approvers.has(decidedBy)) {
+      throw new Error(`${decidedBy} is not a configured spend approver.`);
+    }
+    if (decision !== 'expired' && request.eligibleApprovers && !request.eligibleApprovers.includes(decidedBy)) {
+      throw new Error(`${decidedBy} is not an approver for request ${id}.`);
+    }
+    return request;
+  }
+
+  private async recordDecision(
+    request: SpendApprovalRequest,
+    decision: ApprovalDecisionEntry['decision'],
+    decidedBy: string,
+    note: string | undefined,
+    entryId: string,
+  ): Promise<void> {
+    await this.policy?.recordApprovalDecision({
+      id: entryId,
+      approvalId: request.id,
+      agentId: request.agentId,
+      kind: request.kind,
+      decision,
+      decidedBy,
+      amountUsd: request.amountUsd,
+      category: request.category,
+      note,
+      createdAt: Date.now(),
+    });
+  }
+
+  /** Strictest quorum rule covering the spend, if any. */
+  private quorumFor(input: EnqueueSpendInput): ApprovalQuorumRule | undefined {
+    const chain = (input.payload as CryptoSendPayload).chain;
+    return this.quorumRules
+      .filter((rule) =>
+        (!rule.agentIds || rule.agentIds.includes(input.agentId))
+        && (!rule.chains || (input.kind === 'crypto_send' && rule.chains.includes(chain)))
+        && input.amountUsd >= (rule.minAmountUsd ?? 0))
+      .sort((a, b) => b.requiredApprovals - a.requiredApprovals)[0];
+  }
+
+  private async transition(
+    request: SpendApprovalRequest,
+    changes: Partial<SpendApprovalRequest>,
+  ): Promise<SpendApprovalRequest> {
+    const next = { ...request, ...changes };
+    await this.store.update(next);
+    return next;
+  }
+
+  private withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const run = previous.catch(() => {}).then(fn);
+    const settled = run.catch(() => {});
+    this.locks.set(id, settled);
+    settled.then(() => {
+      if (this.locks.get(id) === settled) this.locks.delete(id);
+    });
+    return run;
+  }
+}
@@ -0,0 +1,17 @@
+// @ts-nocheck
+/**
+ * @fileoverview Shared filter predicate for approval stores.
+ * @module wallet/approvals/filter
+ */
+
+import type { SpendApprovalFilter, SpendApprovalRequest } from './types.js';
+
+export function matchesFilter(request: SpendApprovalRequest, filter: SpendApprovalFilter): boolean {
+  if (filter.agentId && request.agentId !== filter.agentId) return false;
+  if (filter.kind && request.kind !== filter.kind) return false;
+  if (filter.status) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(request.status)) return false;
+  }
+  return true;
+}
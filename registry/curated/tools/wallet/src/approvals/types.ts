@@ -0,0 +1,126 @@
+// @ts-nocheck
+/**
+ * @fileoverview Types for the human-in-the-loop spend approval queue.
+ * @module wallet/approvals/types
+ */
+
+import type { ChainId, SpendCategory, TokenSymbol } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * Lifecycle of a held spend:
+ * pending → approved → executed | failed, or pending → denied | expired.
+ */
+export type SpendApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'executed' | 'failed';
+
+export type SpendApprovalKind = 'crypto_send' | 'card_payment';
+
+/** Everything needed to replay an `AgentWalletManager.sendNative` / `sendToken` call. */
+export interface CryptoSendPayload {
+  chain: ChainId;
+  to: string;
+  /** Raw token amount as string (lamports, wei, etc.). */
+  amountRaw: string;
+  token: TokenSymbol;
+  /** SPL mint / ERC-20 contract for token transfers; absent for native sends. */
+  tokenAddress?: string;
+  description?: string;
+}
+
+/** A card payment waiting for approval before card details are revealed. */
+export interface CardPaymentPayload {
+  description?: string;
+}
+
+export interface SpendApprovalRequest {
+  id: string;
+  agentId: string;
+  kind: SpendApprovalKind;
+  amountUsd: number;
+  category: SpendCategory;
+  payload: CryptoSendPayload | CardPaymentPayload;
+  status: SpendApprovalStatus;
+  /** Why the spend was held (policy message). */
+  reason: string;
+  /** Distinct approvals needed before the spend is released (N of M). Defaults to 1. */
+  requiredApprovals?: number;
+  /** Principals allowed to approve or deny; anyone but the agent when unset. */
+  eligibleApprovers?: string[];
+  /** Approvals collected so far, oldest first. */
+  approvals?: ApprovalSignature[];
+  requestedAt: number;
+  /** Pending requests expire at this time; approved card payments must be redeemed by then. */
+  expiresAt: number;
+  decidedAt?: number;
+  /** Approver ID, or 'system' for automatic expiry. */
+  decidedBy?: string;
+  decisionNote?: string;
+  executedAt?: number;
+  /** Wallet transaction created when an approved crypto send resumed. */
+  transactionId?: string;
+  txHash?: string;
+  /** Why execution failed after approval. */
+  error?: string;
+}
+
+/** One principal's sign-off on a held spend. */
+export interface ApprovalSignature {
+  approverId: string;
+  approvedAt: number;
+  note?: string;
+}
+
+/**
+ * Requires several approvers for matching spends, e.g. 2 of 3 treasury
+ * signers for anything over $1,000. When several rules match, the one
+ * demanding the most approvals wins.
+ */
+export interface ApprovalQuorumRule {
+  /** Agents the rule covers. All agents when unset. */
+  agentIds?: string[];
+  /** Chains the rule covers (crypto sends only). All spends when unset. */
+  chains?: ChainId[];
+  /** Only spends of at least this USD amount. */
+  minAmountUsd?: number;
+  /** Distinct approvals needed (N). */
+  requiredApprovals: number;
+  /** Principals who may approve or deny (M). Anyone but the agent when unset. */
+  approvers?: string[];
+}
+
+export interface SpendApprovalFilter {
+  agentId?: string;
+  status?: SpendApprovalStatus | SpendApprovalStatus[];
+  kind?: SpendApprovalKind;
+  limit?: number;
+}
+
+/** Ledger row recording an approver's decision (or an expiry). */
+export interface ApprovalDecisionEntry {
+  id: string;
+  approvalId: string;
+  agentId: string;
+  kind: SpendApprovalKind;
+  /** `signed` records one approval towards a quorum that is not yet met. */
+  decision: 'signed' | 'approved' | 'denied' | 'expired';
+  decidedBy: string;
+  amountUsd: number;
+  category: SpendCategory;
+  note?: string;
+  createdAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Store interface (agnostic — callers provide SQLite/Postgres impl)
+// ---------------------------------------------------------------------------
+
+export interface ISpendApprovalStore {
+  insert(request: SpendApprovalRequest): Promise<void>;
+  update(request: SpendApprovalRequest): Promise<void>;
+  get(id: string): Promise<SpendApprovalRequest | null>;
+  /** Newest first. */
+  list(filter?: SpendApprovalFilter): Promise<SpendApprovalRequest[]>;
+}
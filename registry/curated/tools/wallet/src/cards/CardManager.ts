@@ -10,7 +10,9 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { ApprovalPendingError } from '../AgentWalletManager.js';
 import type { SpendingPolicyEnforcer } from '../SpendingPolicyEnforcer.js';
+import type { SpendApprovalQueue } from '../approvals/SpendApprovalQueue.js';
 import type { SpendCategory } from '../types.js';
 import type { MccCategoryMap } from './MccCategoryMap.js';
 import type {
@@ -33,6 +35,8 @@ export interface CardManagerOptions {
   policyEnforcer: SpendingPolicyEnforcer;
   mccMap: MccCategoryMap;
   config: CardConfig;
+  /** Holds payments above the approval threshold until a human approves them. */
+  approvalQueue?: SpendApprovalQueue;
 }
 
 export class CardManager {
@@ -41,6 +45,7 @@ export class CardManager {
   private readonly policy: SpendingPolicyEnforcer;
   private readonly mccMap: MccCategoryMap;
   private readonly config: CardConfig;
+  private readonly approvalQueue?: SpendApprovalQueue;
 
   constructor(opts: CardManagerOptions) {
     this.adapter = opts.adapter;
@@ -48,6 +53,7 @@ export class CardManager {
     this.policy = opts.policyEnforcer;
     this.mccMap = opts.mccMap;
     this.config = opts.config;
+    this.approvalQueue = opts.approvalQueue;
   }
 
   // -----------------------------------------------------------------------
@@ -111,20 +117,48 @@ export class CardManager {
   /**
    * Get sensitive card details (PAN, CVV, expiry) for online payments.
    * Enforces spending policy before revealing details.
+   *
+   * With an approval queue, payments above the approval threshold are held
+   * ({@link ApprovalPendingError}); call again with the `approvalId` once
+   * it is approved to get the details.
    */
   async getCardDetails(
     agentId: string,
     estimatedAmountUsd?: number,
     category?: SpendCategory,
+    approvalId?: string,
+    description?: string,
   ): Promise<{ last4: string; expMonth: string; expYear: string; cvv: string; pan: string }> {
     const card = await this.requireCard(agentId);
 
     // If an estimated amount is provided, check spending policy first
     if (estimatedAmountUsd !== undefined) {
-      const check = await this.policy.canSpend(agentId, estimatedAmountUsd, category || 'shopping');
+      const spendCategory = category || 'shopping';
+      const check = await this.policy.canSpend(agentId, estimatedAmountUsd, spendCategory);
       if (!check.allowed) {
         throw new CardSpendingBlockedError(check.reason || 'Spending policy violation');
       }
+
+      if (check.requiresApproval && this.approvalQueue) {
+        if (approvalId) {
+          await this.approvalQueue.redeem(approvalId, {
+            agentId,
+            kind: 'card_payment',
+            amountUsd: estimatedAmountUsd,
+          });
+        } else {
+          const request = await this.approvalQueue.enqueue({
+            agentId,
+            kind: 'card_payment',
+            amountUsd: estimatedAmountUsd,
+            category: spendCategory,
+            payload: { description },
+            reason: check.holds?.map((h) => h.reason).join(' ')
+              || `Amount $${estimatedAmountUsd.toFixed(2)} is above the approval threshold.`,
+          });
+          throw new ApprovalPendingError(request);
+        }
+      }
     }
 
     const lithicCard = await this.adapter.getCard(card.lithicCardToken);
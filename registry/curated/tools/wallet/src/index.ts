@@ -6,6 +6,8 @@
  * - check_wallet_balance — query balances across Solana/EVM chains
  * - send_crypto — send with spending policy enforcement
  * - wallet_transaction_history — view recent transactions
+ * - wallet_spend_approvals — approve/deny spends held above the approval threshold
+ *   (registered only when `approvals.approvers` names the human approvers)
  *
  * @module @framers/agentos-ext-wallet
  */
@@ -23,11 +25,19 @@ import { createFreezeCardTool } from './tools/FreezeCardTool.js';
 import { createUnfreezeCardTool } from './tools/UnfreezeCardTool.js';
 import { createCardSpendingSummaryTool } from './tools/CardSpendingSummaryTool.js';
 import { createPayWithCardTool } from './tools/PayWithCardTool.js';
+import { createSpendApprovalsTool } from './tools/SpendApprovalsTool.js';
+import { SpendApprovalQueue } from './approvals/SpendApprovalQueue.js';
+import { FileSpendApprovalStore } from './approvals/FileSpendApprovalStore.js';
+import { createSqliteWalletStores } from './stores/createSqliteWalletStores.js';
+import { StaticPriceFeed } from './pricing/StaticPriceFeed.js';
+import { FilePriceFeed } from './pricing/FilePriceFeed.js';
 import { CardManager } from './cards/CardManager.js';
 import { LithicCardAdapter } from './cards/LithicCardAdapter.js';
 import { MccCategoryMap } from './cards/MccCategoryMap.js';
 import { DEFAULT_SPENDING_POLICY } from './types.js';
-import type { ChainId, WalletConfig } from './types.js';
+import type { ChainId, SpendHistoryQuery, WalletConfig } from './types.js';
+import type { ApprovalQuorumRule } from './approvals/types.js';
+import type { TokenPriceTable } from './pricing/types.js';
 import type { CardConfig, ICardStore, AgentCardRecord, CardTransactionRecord, CardState, CardTxStatus } from './cards/types.js';
 
 /* ------------------------------------------------------------------ */
@@ -59,7 +69,10 @@ export interface ExtensionPack {
 /* ------------------------------------------------------------------ */
 
 function createMemoryLedgerStore() {
-  const data: Array<{ agentId: string; category: string; amountUsd: number; periodKey: string }> = [];
+  const data: Array<{
+    agentId: string; category: string; amountUsd: number; periodKey: string; recipient?: string; createdAt: number;
+  }> = [];
+  const decisions: any[] = [];
   return {
     async sumByPeriod(agentId: string, periodKey: string) {
       return data.filter(e => e.agentId === agentId && e.periodKey === periodKey)
@@ -70,6 +83,18 @@ function createMemoryLedgerStore() {
         .reduce((sum, e) => sum + e.amountUsd, 0);
     },
     async insert(entry: any) { data.push(entry); },
+    async insertApprovalDecision(entry: any) { decisions.push(entry); },
+    async getSpendHistory(agentId: string, query: SpendHistoryQuery = {}) {
+      // One entry per spend: skip the monthly copy recordSpend writes alongside the daily one
+      return data
+        .filter(e => e.agentId === agentId && e.periodKey.length === 10)
+        .filter(e => query.since === undefined || e.createdAt >= query.since)
+        .filter(e => !query.category || e.category === query.category)
+        .filter(e => !query.recipient || e.recipient === query.recipient)
+        .reverse()
+        .slice(0, query.limit)
+        .map(e => ({ amountUsd: e.amountUsd, category: e.category, recipient: e.recipient, createdAt: e.createdAt }));
+    },
   };
 }
 
@@ -166,14 +191,46 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
     || process.env['WALLET_MASTER_SECRET']
     || 'dev-secret-change-me';
 
-  const policyEnforcer = new SpendingPolicyEnforcer(walletConfig.spendingPolicy, createMemoryLedgerStore());
+  // Wallets and spend history survive restarts when a SQLite file is configured
+  const storePath = (opts as any).storePath as string | undefined;
+  const sqliteStores = storePath ? createSqliteWalletStores({ filePath: storePath }) : undefined;
+
+  const policyEnforcer = new SpendingPolicyEnforcer(
+    walletConfig.spendingPolicy,
+    sqliteStores?.ledgerStore ?? createMemoryLedgerStore(),
+  );
+
+  // Spends above requireApprovalAboveUsd wait here for a human decision
+  const approvalOpts = ((opts as any).approvals || {}) as {
+    storePath?: string;
+    ttlMs?: number;
+    quorum?: ApprovalQuorumRule[];
+    approvers?: string[];
+  };
+  const approvalQueue = new SpendApprovalQueue({
+    store: approvalOpts.storePath ? new FileSpendApprovalStore(approvalOpts.storePath) : undefined,
+    ttlMs: approvalOpts.ttlMs,
+    policyEnforcer,
+    quorumRules: approvalOpts.quorum,
+    approvers: approvalOpts.approvers,
+  });
+
+  // USD prices: a JSON price file, an inline table, or WALLET_PRICE_<TOKEN>_USD reference prices
+  const priceOpts = ((opts as any).pricing || {}) as { filePath?: string; prices?: TokenPriceTable };
+  const priceFeed = priceOpts.filePath
+    ? new FilePriceFeed(priceOpts.filePath)
+    : priceOpts.prices
+      ? new StaticPriceFeed(priceOpts.prices)
+      : StaticPriceFeed.fromEnv({ SOL: 1, ETH: 1, POL: 1, USDC: 1, USDT: 1 });
 
   const walletManager = new AgentWalletManager({
     masterSecret,
     walletConfig,
-    store: createMemoryWalletStore(),
+    store: sqliteStores?.walletStore ?? createMemoryWalletStore(),
     policyEnforcer,
     adapters,
+    approvalQueue,
+    priceFeed,
   });
 
   const checkBalance = createCheckBalanceTool(walletManager);
@@ -186,6 +243,12 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
     { id: walletHistory.name, kind: 'tool' as const, priority: 50, payload: walletHistory },
   ];
 
+  // Deciding needs a configured human approver; without one, approvals go through SpendApprovalQueue
+  if (approvalOpts.approvers?.length) {
+    const spendApprovals = createSpendApprovalsTool(approvalQueue);
+    descriptors.push({ id: spendApprovals.name, kind: 'tool' as const, priority: 50, payload: spendApprovals });
+  }
+
   // Card tools (Lithic) — only if card config is enabled
   let cardManager: CardManager | undefined;
   const cardConfig = walletConfig.card;
@@ -209,6 +272,7 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
       policyEnforcer,
       mccMap,
       config: cardConfig,
+      approvalQueue,
     });
 
     const issueCard = createIssueCardTool(cardManager);
@@ -230,13 +294,17 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
 
   const features: string[] = [`chains: ${walletConfig.chains.join(', ')}`];
   if (cardConfig?.enabled) features.push('virtual card (Lithic)');
+  if (sqliteStores) features.push('SQLite storage');
 
   return {
     name: '@framers/agentos-ext-wallet',
     version: '0.2.0',
     descriptors,
     onActivate: async () => context.logger?.info(`Wallet extension activated (${features.join(', ')})`),
-    onDeactivate: async () => context.logger?.info('Wallet extension deactivated'),
+    onDeactivate: async () => {
+      await sqliteStores?.close();
+      context.logger?.info('Wallet extension deactivated');
+    },
   };
 }
 
@@ -245,7 +313,12 @@ export function createExtensionPack(context: ExtensionContext): ExtensionPack {
 /* ------------------------------------------------------------------ */
 
 // Core
-export { AgentWalletManager, ApprovalRequiredError, SpendingPolicyViolation } from './AgentWalletManager.js';
+export {
+  AgentWalletManager,
+  ApprovalPendingError,
+  ApprovalRequiredError,
+  SpendingPolicyViolation,
+} from './AgentWalletManager.js';
 export type { AgentWalletManagerOptions, IWalletStore } from './AgentWalletManager.js';
 export { SpendingPolicyEnforcer } from './SpendingPolicyEnforcer.js';
 export type { ISpendingLedgerStore } from './SpendingPolicyEnforcer.js';
@@ -253,15 +326,23 @@ export type { ISpendingLedgerStore } from './SpendingPolicyEnforcer.js';
 // Types
 export type {
   AgentWalletRecord,
+  AnomalyRule,
   CategoryBudget,
   ChainId,
+  FirstTimeRecipientRule,
   IChainWalletAdapter,
+  RollingSpendWindow,
   SpendCategory,
   SpendCheckResult,
+  SpendHistoryEntry,
+  SpendHistoryQuery,
   SpendingLedgerEntry,
   SpendingPolicyConfig,
+  SpendRuleHold,
+  SpendRuleId,
   TokenInfo,
   TokenSymbol,
+  VelocityRules,
   WalletConfig,
   WalletDirection,
   WalletTransactionRecord,
@@ -269,6 +350,48 @@ export type {
 } from './types.js';
 export { DEFAULT_SPENDING_POLICY, DEFAULT_WALLET_CONFIG } from './types.js';
 
+// Approval queue
+export { SpendApprovalQueue } from './approvals/SpendApprovalQueue.js';
+export type {
+  ApprovedSpendExecutor,
+  EnqueueSpendInput,
+  SpendApprovalQueueOptions,
+} from './approvals/SpendApprovalQueue.js';
+export { InMemorySpendApprovalStore } from './approvals/InMemorySpendApprovalStore.js';
+export { FileSpendApprovalStore } from './approvals/FileSpendApprovalStore.js';
+export type {
+  ApprovalDecisionEntry,
+  ApprovalQuorumRule,
+  ApprovalSignature,
+  CardPaymentPayload,
+  CryptoSendPayload,
+  ISpendApprovalStore,
+  SpendApprovalFilter,
+  SpendApprovalKind,
+  SpendApprovalRequest,
+  SpendApprovalStatus,
+} from './approvals/types.js';
+
+// Pricing
+export { StaticPriceFeed } from './pricing/StaticPriceFeed.js';
+export { FilePriceFeed } from './pricing/FilePriceFeed.js';
+export type { FilePriceFeedOptions } from './pricing/FilePriceFeed.js';
+export { PriceUnavailableError } from './pricing/types.js';
+export type { IPriceFeed, TokenPriceTable } from './pricing/types.js';
+export { TOKEN_ADDRESSES, TOKEN_DECIMALS, nativeTokenForChain, rawAmountToUsd } from './pricing/tokens.js';
+
+// Persistence
+export { SqliteWalletStore } from './stores/SqliteWalletStore.js';
+export type { SqliteWalletStoreOptions, WalletTransactionFilter } from './stores/SqliteWalletStore.js';
+export { SqliteSpendingLedgerStore } from './stores/SqliteSpendingLedgerStore.js';
+export type { SqliteSpendingLedgerStoreOptions } from './stores/SqliteSpendingLedgerStore.js';
+export { createSqliteWalletStores } from './stores/createSqliteWalletStores.js';
+export type { SqliteWalletStores } from './stores/createSqliteWalletStores.js';
+export { WALLET_MIGRATIONS, migrateWalletSchema, getWalletSchemaVersion } from './stores/migrations.js';
+export type { WalletMigration } from './stores/migrations.js';
+export { transactionsToCsv, TRANSACTION_CSV_COLUMNS } from './stores/transactionsCsv.js';
+export type { ExportedWalletTransaction } from './stores/transactionsCsv.js';
+
 // Chain adapters
 export { SolanaWalletAdapter } from './chains/SolanaWalletAdapter.js';
 export type { SolanaWalletAdapterOptions } from './chains/SolanaWalletAdapter.js';
@@ -279,6 +402,7 @@ export type { EvmWalletAdapterOptions } from './chains/EvmWalletAdapter.js';
 export { createCheckBalanceTool } from './tools/CheckBalanceTool.js';
 export { createSendCryptoTool } from './tools/SendCryptoTool.js';
 export { createWalletHistoryTool } from './tools/WalletHistoryTool.js';
+export { createSpendApprovalsTool } from './tools/SpendApprovalsTool.js';
 
 // Tool factories — card
 export { createIssueCardTool } from './tools/IssueCardTool.js';
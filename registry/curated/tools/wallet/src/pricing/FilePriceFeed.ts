@@ -0,0 +1,46 @@
+// @ts-nocheck
+/**
+ * @fileoverview USD prices read from a local JSON file, e.g. one a cron job
+ * refreshes from an exchange API:
+ *
+ * ```json
+ * { "prices": { "SOL": 142.5, "ETH": 3120, "USDC": 1, "polygon:USDT": 0.999 } }
+ * ```
+ *
+ * The file is re-read once `refreshMs` has passed since the last read.
+ *
+ * @module wallet/pricing/FilePriceFeed
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { ChainId, TokenSymbol } from '../types.js';
+import { lookupPrice } from './StaticPriceFeed.js';
+import type { IPriceFeed, TokenPriceTable } from './types.js';
+
+export interface FilePriceFeedOptions {
+  /** How long prices are reused before the file is read again (default 60s). */
+  refreshMs?: number;
+}
+
+export class FilePriceFeed implements IPriceFeed {
+  private readonly refreshMs: number;
+  private prices: TokenPriceTable | null = null;
+  private loadedAt = 0;
+
+  constructor(private readonly filePath: string, opts: FilePriceFeedOptions = {}) {
+    this.refreshMs = opts.refreshMs ?? 60_000;
+  }
+
+  async getUsdPrice(token: TokenSymbol, chain: ChainId): Promise<number> {
+    return lookupPrice(await this.load(), token, chain);
+  }
+
+  private async load(): Promise<TokenPriceTable> {
+    if (this.prices && Date.now() - this.loadedAt < this.refreshMs) return this.prices;
+
+    const parsed = JSON.parse(await readFile(this.filePath, 'utf8'));
+    this.prices = (parsed?.prices ?? parsed) as TokenPriceTable;
+    this.loadedAt = Date.now();
+    return this.prices;
+  }
+}
@@ -0,0 +1,39 @@
+// @ts-nocheck
+/**
+ * @fileoverview Fixed USD prices — for tests, stablecoins, and agents that
+ * only need reference prices until a live oracle is wired.
+ * @module wallet/pricing/StaticPriceFeed
+ */
+
+import type { ChainId, TokenSymbol } from '../types.js';
+import { PriceUnavailableError, type IPriceFeed, type TokenPriceTable } from './types.js';
+
+export class StaticPriceFeed implements IPriceFeed {
+  constructor(private readonly prices: TokenPriceTable) {}
+
+  /**
+   * Prices from `WALLET_PRICE_<TOKEN>_USD` environment variables, falling
+   * back to `defaults` for tokens without one.
+   */
+  static fromEnv(defaults: TokenPriceTable = {}, env: NodeJS.ProcessEnv = process.env): StaticPriceFeed {
+    const prices: TokenPriceTable = { ...defaults };
+    for (const token of ['SOL', 'ETH', 'POL', 'USDC', 'USDT'] as TokenSymbol[]) {
+      const override = Number.parseFloat(env[`WALLET_PRICE_${token}_USD`] || '');
+      if (Number.isFinite(override) && override > 0) prices[token] = override;
+    }
+    return new StaticPriceFeed(prices);
+  }
+
+  async getUsdPrice(token: TokenSymbol, chain: ChainId): Promise<number> {
+    return lookupPrice(this.prices, token, chain);
+  }
+}
+
+/** Chain-specific price first, then the token-wide one. */
+export function lookupPrice(prices: TokenPriceTable, token: TokenSymbol, chain: ChainId): number {
+  const price = prices[`${chain}:${token}`] ?? prices[token];
+  if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+    throw new PriceUnavailableError(token, chain);
+  }
+  return price;
+}
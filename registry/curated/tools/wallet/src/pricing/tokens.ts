@@ -0,0 +1,44 @@
+// @ts-nocheck
+/**
+ * @fileoverview Token decimals, contract addresses and USD conversion.
+ * @module wallet/pricing/tokens
+ */
+
+import type { ChainId, TokenSymbol } from '../types.js';
+import { KNOWN_TOKENS } from '../chains/EvmWalletAdapter.js';
+
+export const TOKEN_DECIMALS: Record<TokenSymbol, number> = {
+  SOL: 9,
+  ETH: 18,
+  POL: 18,
+  USDC: 6,
+  USDT: 6,
+};
+
+/** SPL mint / ERC-20 contract address per chain. Native tokens have none. */
+export const TOKEN_ADDRESSES: Record<ChainId, Partial<Record<TokenSymbol, string>>> = {
+  solana: {
+    USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  },
+  ethereum: KNOWN_TOKENS.ethereum,
+  base: KNOWN_TOKENS.base,
+  polygon: KNOWN_TOKENS.polygon,
+};
+
+export function nativeTokenForChain(chain: ChainId): TokenSymbol {
+  switch (chain) {
+    case 'solana': return 'SOL';
+    case 'ethereum': return 'ETH';
+    case 'base': return 'ETH';
+    case 'polygon': return 'POL';
+    default: return 'ETH';
+  }
+}
+
+/** USD value of a raw amount (lamports, wei, token base units). Not rounded, so limits see the full value. */
+export function rawAmountToUsd(amountRaw: bigint, decimals: number, usdPrice: number): number {
+  const scale = 10n ** BigInt(decimals);
+  const whole = Number(amountRaw / scale) + Number(amountRaw % scale) / Number(scale);
+  return whole * usdPrice;
+}
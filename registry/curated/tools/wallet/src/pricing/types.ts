@@ -0,0 +1,32 @@
+// @ts-nocheck
+/**
+ * @fileoverview Types for converting token amounts to USD before policy checks.
+ * @module wallet/pricing/types
+ */
+
+import type { ChainId, TokenSymbol } from '../types.js';
+
+/**
+ * USD prices keyed by token symbol (`SOL`), or by `chain:symbol`
+ * (`polygon:USDC`) to override one deployment.
+ */
+export type TokenPriceTable = Partial<Record<TokenSymbol | `${ChainId}:${TokenSymbol}`, number>>;
+
+/** Source of USD prices (static table, local file, live oracle...). */
+export interface IPriceFeed {
+  /**
+   * USD price of one whole token on the given chain.
+   * @throws {PriceUnavailableError} When the feed has no price for the token.
+   */
+  getUsdPrice(token: TokenSymbol, chain: ChainId): Promise<number>;
+}
+
+export class PriceUnavailableError extends Error {
+  constructor(
+    public readonly token: TokenSymbol,
+    public readonly chain: ChainId,
+  ) {
+    super(`No USD price available for ${token} on ${chain}.`);
+    this.name = 'PriceUnavailableError';
+  }
+}
@@ -0,0 +1,184 @@
+// @ts-nocheck
+/**
+ * @fileoverview SQLite implementation of ISpendingLedgerStore (via @framers/sql-storage-adapter).
+ * @module wallet/stores/SqliteSpendingLedgerStore
+ */
+
+import type { ISpendingLedgerStore } from '../SpendingPolicyEnforcer.js';
+import type { ApprovalDecisionEntry } from '../approvals/types.js';
+import type { SpendCategory, SpendHistoryEntry, SpendHistoryQuery, SpendingLedgerEntry } from '../types.js';
+import { migrateWalletSchema } from './migrations.js';
+import { openSqlAdapter, type SqliteStoreOptions } from './sqlStorage.js';
+
+export type SqliteSpendingLedgerStoreOptions = SqliteStoreOptions;
+
+/**
+ * Append-only spending ledger. Period sums are answered from covering
+ * indexes on `(agent_id, period_key)` and `(agent_id, category, period_key)`,
+ * so limit checks stay fast as history grows.
+ */
+export class SqliteSpendingLedgerStore implements ISpendingLedgerStore {
+  private db: any = null;
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqliteSpendingLedgerStoreOptions) {
+    if (!options.adapter && !options.filePath) {
+      throw new Error('SqliteSpendingLedgerStore requires either filePath or adapter');
+    }
+  }
+
+  /** Open the database and apply pending migrations. Called lazily by every method. */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        this.db = await openSqlAdapter(this.options);
+        await migrateWalletSchema(this.db);
+      })().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async sumByPeriod(agentId: string, periodKey: string): Promise<number> {
+    await this.initialize();
+    const row = await this.db.get(
+      'SELECT COALESCE(SUM(amount_usd), 0) AS total FROM wallet_spending_ledger WHERE agent_id = ? AND period_key = ?',
+      [agentId, periodKey],
+    );
+    return Number(row?.total ?? 0);
+  }
+
+  async sumByCategoryAndPeriod(agentId: string, category: SpendCategory, periodKey: string): Promise<number> {
+    await this.initialize();
+    const row = await this.db.get(
+      `SELECT COALESCE(SUM(amount_usd), 0) AS total FROM wallet_spending_ledger
+       WHERE agent_id = ? AND category = ? AND period_key = ?`,
+      [agentId, category, periodKey],
+    );
+    return Number(row?.total ?? 0);
+  }
+
+  async insert(entry: SpendingLedgerEntry): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO wallet_spending_ledger
+         (id, agent_id, category, amount_usd, period_key, approval_id, recipient, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.agentId,
+        entry.category,
+        entry.amountUsd,
+        entry.periodKey,
+        entry.approvalId ?? null,
+        entry.recipient ?? null,
+        entry.createdAt,
+      ],
+    );
+  }
+
+  /**
+   * Past spends, newest first. Every spend is recorded under a daily and a
+   * monthly period key, so only the daily rows are read back.
+   */
+  async getSpendHistory(agentId: string, query: SpendHistoryQuery = {}): Promise<SpendHistoryEntry[]> {
+    await this.initialize();
+    const where = ['agent_id = ?', 'length(period_key) = 10'];
+    const params: unknown[] = [agentId];
+    if (query.since !== undefined) { where.push('created_at >= ?'); params.push(query.since); }
+    if (query.category) { where.push('category = ?'); params.push(query.category); }
+    if (query.recipient) { where.push('recipient = ?'); params.push(query.recipient); }
+    if (query.limit !== undefined) params.push(query.limit);
+
+    const rows = await this.db.all(
+      `SELECT amount_usd, category, recipient, created_at FROM wallet_spending_ledger
+       WHERE ${where.join(' AND ')} ORDER BY created_at DESC, seq DESC
+       ${query.limit !== undefined ? 'LIMIT ?' : ''}`,
+      params,
+    );
+    return rows.map((row: any) => ({
+      amountUsd: Number(row.amount_usd),
+      category: row.category,
+      recipient: row.recipient ?? undefined,
+      createdAt: Number(row.created_at),
+    }));
+  }
+
+  async insertApprovalDecision(entry: ApprovalDecisionEntry): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO wallet_approval_decisions
+         (id, approval_id, agent_id, kind, decision, decided_by, amount_usd, category, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.approvalId,
+        entry.agentId,
+        entry.kind,
+        entry.decision,
+        entry.decidedBy,
+        entry.amountUsd,
+        entry.category,
+        entry.note ?? null,
+        entry.createdAt,
+      ],
+    );
+  }
+
+  /** Ledger entries for an agent, oldest first. */
+  async getEntries(agentId: string, periodKey?: string): Promise<SpendingLedgerEntry[]> {
+    await this.initialize();
+    const rows = await this.db.all(
+      `SELECT * FROM wallet_spending_ledger WHERE agent_id = ?
+       ${periodKey ? 'AND period_key = ?' : ''} ORDER BY seq`,
+      periodKey ? [agentId, periodKey] : [agentId],
+    );
+    return rows.map((row: any) => ({
+      id: row.id,
+      agentId: row.agent_id,
+      category: row.category,
+      amountUsd: Number(row.amount_usd),
+      periodKey: row.period_key,
+      approvalId: row.approval_id ?? undefined,
+      recipient: row.recipient ?? undefined,
+      createdAt: Number(row.created_at),
+    }));
+  }
+
+  /** Approval decisions, oldest first — for one request, or every request by an agent. */
+  async getApprovalDecisions(filter: { approvalId?: string; agentId?: string } = {}): Promise<ApprovalDecisionEntry[]> {
+    await this.initialize();
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (filter.approvalId) { where.push('approval_id = ?'); params.push(filter.approvalId); }
+    if (filter.agentId) { where.push('agent_id = ?'); params.push(filter.agentId); }
+
+    const rows = await this.db.all(
+      `SELECT * FROM wallet_approval_decisions
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at, rowid`,
+      params,
+    );
+    return rows.map((row: any) => ({
+      id: row.id,
+      approvalId: row.approval_id,
+      agentId: row.agent_id,
+      kind: row.kind,
+      decision: row.decision,
+      decidedBy: row.decided_by,
+      amountUsd: Number(row.amount_usd),
+      category: row.category,
+      note: row.note ?? undefined,
+      createdAt: Number(row.created_at),
+    }));
+  }
+
+  async close(): Promise<void> {
+    if (this.db && !this.options.adapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+}
@@ -0,0 +1,210 @@
+// @ts-nocheck
+/**
+ * @fileoverview SQLite implementation of IWalletStore (via @framers/sql-storage-adapter).
+ * @module wallet/stores/SqliteWalletStore
+ */
+
+import type { IWalletStore } from '../AgentWalletManager.js';
+import type { AgentWalletRecord, ChainId, WalletTransactionRecord, WalletTxStatus } from '../types.js';
+import { migrateWalletSchema } from './migrations.js';
+import { openSqlAdapter, type SqliteStoreOptions } from './sqlStorage.js';
+import { transactionsToCsv, type ExportedWalletTransaction } from './transactionsCsv.js';
+
+export type SqliteWalletStoreOptions = SqliteStoreOptions;
+
+export interface WalletTransactionFilter {
+  agentId?: string;
+  walletId?: string;
+  chain?: ChainId;
+  status?: WalletTxStatus;
+  /** Inclusive lower bound on `createdAt` (epoch ms). */
+  since?: number;
+  /** Exclusive upper bound on `createdAt` (epoch ms). */
+  until?: number;
+}
+
+/**
+ * Persists agent wallets and their transactions. Point it at the same
+ * database as {@link SqliteSpendingLedgerStore} (see `createSqliteWalletStores`)
+ * to keep everything in one file.
+ */
+export class SqliteWalletStore implements IWalletStore {
+  private db: any = null;
+  private ready: Promise<void> | null = null;
+
+  constructor(private options: SqliteWalletStoreOptions) {
+    if (!options.adapter && !options.filePath) {
+      throw new Error('SqliteWalletStore requires either filePath or adapter');
+    }
+  }
+
+  /** Open the database and apply pending migrations. Called lazily by every method. */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        this.db = await openSqlAdapter(this.options);
+        await migrateWalletSchema(this.db);
+      })().catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  async getWallet(agentId: string, chain: ChainId): Promise<AgentWalletRecord | null> {
+    await this.initialize();
+    const row = await this.db.get(
+      'SELECT * FROM agent_wallets WHERE agent_id = ? AND chain = ?',
+      [agentId, chain],
+    );
+    return row ? toWallet(row) : null;
+  }
+
+  async getAllWallets(agentId: string): Promise<AgentWalletRecord[]> {
+    await this.initialize();
+    const rows = await this.db.all(
+      'SELECT * FROM agent_wallets WHERE agent_id = ? ORDER BY created_at',
+      [agentId],
+    );
+    return rows.map(toWallet);
+  }
+
+  async saveWallet(record: AgentWalletRecord): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT OR REPLACE INTO agent_wallets
+         (id, agent_id, chain, address, encrypted_key, key_derivation_salt, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.agentId,
+        record.chain,
+        record.address,
+        record.encryptedKey,
+        record.keyDerivationSalt,
+        record.createdAt,
+      ],
+    );
+  }
+
+  async insertTransaction(record: WalletTransactionRecord): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO wallet_transactions
+         (id, wallet_id, tx_hash, direction, to_address, from_address, amount_raw,
+          amount_usd, token, category, status, description, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.walletId,
+        record.txHash ?? null,
+        record.direction,
+        record.toAddress ?? null,
+        record.fromAddress ?? null,
+        record.amountRaw,
+        record.amountUsd ?? null,
+        record.token,
+        record.category ?? null,
+        record.status,
+        record.description ?? null,
+        record.createdAt,
+      ],
+    );
+  }
+
+  async updateTransactionStatus(id: string, status: WalletTxStatus, txHash?: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      'UPDATE wallet_transactions SET status = ?, tx_hash = COALESCE(?, tx_hash) WHERE id = ?',
+      [status, txHash ?? null, id],
+    );
+  }
+
+  /** Most recent transactions for a wallet, newest first. */
+  async getTransactions(walletId: string, limit = 20): Promise<WalletTransactionRecord[]> {
+    await this.initialize();
+    const rows = await this.db.all(
+      `SELECT * FROM wallet_transactions WHERE wallet_id = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+      [walletId, limit],
+    );
+    return rows.map(toTransaction);
+  }
+
+  /**
+   * Transactions matching `filter`, oldest first, with the owning wallet's
+   * agent, chain and address attached.
+   */
+  async listTransactions(filter: WalletTransactionFilter = {}): Promise<ExportedWalletTransaction[]> {
+    await this.initialize();
+
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (filter.agentId) { where.push('w.agent_id = ?'); params.push(filter.agentId); }
+    if (filter.walletId) { where.push('t.wallet_id = ?'); params.push(filter.walletId); }
+    if (filter.chain) { where.push('w.chain = ?'); params.push(filter.chain); }
+    if (filter.status) { where.push('t.status = ?'); params.push(filter.status); }
+    if (filter.since != null) { where.push('t.created_at >= ?'); params.push(filter.since); }
+    if (filter.until != null) { where.push('t.created_at < ?'); params.push(filter.until); }
+
+    const rows = await this.db.all(
+      `SELECT t.*, w.agent_id AS wallet_agent_id, w.chain AS wallet_chain, w.address AS wallet_address
+       FROM wallet_transactions t
+       LEFT JOIN agent_wallets w ON w.id = t.wallet_id
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY t.created_at, t.rowid`,
+      params,
+    );
+
+    return rows.map((row: any) => ({
+      ...toTransaction(row),
+      agentId: row.wallet_agent_id ?? undefined,
+      chain: row.wallet_chain ?? undefined,
+      walletAddress: row.wallet_address ?? undefined,
+    }));
+  }
+
+  /** CSV of {@link listTransactions} for accounting reconciliation. */
+  async exportTransactionsCsv(filter: WalletTransactionFilter = {}): Promise<string> {
+    return transactionsToCsv(await this.listTransactions(filter));
+  }
+
+  async close(): Promise<void> {
+    if (this.db && !this.options.adapter) {
+      await this.db.close();
+    }
+    this.db = null;
+    this.ready = null;
+  }
+}
+
+function toWallet(row: any): AgentWalletRecord {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    chain: row.chain,
+    address: row.address,
+    encryptedKey: row.encrypted_key,
+    keyDerivationSalt: row.key_derivation_salt,
+    createdAt: Number(row.created_at),
+  };
+}
+
+function toTransaction(row: any): WalletTransactionRecord {
+  return {
+    id: row.id,
+    walletId: row.wallet_id,
+    txHash: row.tx_hash ?? undefined,
+    direction: row.direction,
+    toAddress: row.to_address ?? undefined,
+    fromAddress: row.from_address ?? undefined,
+    amountRaw: row.amount_raw,
+    amountUsd: row.amount_usd != null ? Number(row.amount_usd) : undefined,
+    token: row.token,
+    category: row.category ?? undefined,
+    status: row.status,
+    description: row.description ?? undefined,
+    createdAt: Number(row.created_at),
+  };
+}
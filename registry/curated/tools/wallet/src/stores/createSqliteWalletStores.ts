@@ -0,0 +1,52 @@
+// @ts-nocheck
+/**
+ * @fileoverview Wallet and ledger stores sharing one SQLite database.
+ * @module wallet/stores/createSqliteWalletStores
+ */
+
+import { SqliteSpendingLedgerStore } from './SqliteSpendingLedgerStore.js';
+import { SqliteWalletStore } from './SqliteWalletStore.js';
+import { openSqlAdapter } from './sqlStorage.js';
+
+export interface SqliteWalletStores {
+  walletStore: SqliteWalletStore;
+  ledgerStore: SqliteSpendingLedgerStore;
+  /** Close the shared database connection. */
+  close(): Promise<void>;
+}
+
+/**
+ * Create both stores over a single connection to `filePath`. Two separate
+ * connections to one file would each keep their own copy under the sql.js
+ * fallback and overwrite each other's writes.
+ *
+ * The database is opened on first use, not here.
+ */
+export function createSqliteWalletStores(options: { filePath: string }): SqliteWalletStores {
+  let opened: Promise<any> | null = null;
+  const connect = (): Promise<any> => {
+    if (!opened) {
+      opened = openSqlAdapter({ filePath: options.filePath }).catch((err) => {
+        opened = null;
+        throw err;
+      });
+    }
+    return opened;
+  };
+
+  const walletStore = new SqliteWalletStore({ adapter: connect });
+  const ledgerStore = new SqliteSpendingLedgerStore({ adapter: connect });
+
+  return {
+    walletStore,
+    ledgerStore,
+    async close() {
+      await walletStore.close();
+      await ledgerStore.close();
+      if (!opened) return;
+      const db = await opened.catch(() => null);
+      opened = null;
+      await db?.close();
+    },
+  };
+}
@@ -0,0 +1,145 @@
+// @ts-nocheck
+/**
+ * @fileoverview Versioned schema for the SQLite wallet stores.
+ *
+ * Migrations are append-only: never edit one that has shipped, add a new
+ * version instead. Applied versions are tracked in `wallet_schema_migrations`,
+ * so every store sharing a database can run {@link migrateWalletSchema} safely.
+ *
+ * @module wallet/stores/migrations
+ */
+
+export interface WalletMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const WALLET_MIGRATIONS: WalletMigration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `
+      CREATE TABLE IF NOT EXISTS agent_wallets (
+        id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        address TEXT NOT NULL,
+        encrypted_key TEXT NOT NULL,
+        key_derivation_salt TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (agent_id, chain)
+      );
+
+      CREATE TABLE IF NOT EXISTS wallet_transactions (
+        id TEXT PRIMARY KEY,
+        wallet_id TEXT NOT NULL,
+        tx_hash TEXT,
+        direction TEXT NOT NULL,
+        to_address TEXT,
+        from_address TEXT,
+        amount_raw TEXT NOT NULL,
+        amount_usd REAL,
+        token TEXT NOT NULL,
+        category TEXT,
+        status TEXT NOT NULL,
+        description TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet_created
+        ON wallet_transactions (wallet_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_wallet_transactions_created
+        ON wallet_transactions (created_at);
+
+      -- Ledger ids are not guaranteed unique (two spends in one millisecond), so rows key on seq
+      CREATE TABLE IF NOT EXISTS wallet_spending_ledger (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        category TEXT NOT NULL,
+        amount_usd REAL NOT NULL,
+        period_key TEXT NOT NULL,
+        approval_id TEXT,
+        created_at INTEGER NOT NULL
+      );
+      -- Covering indexes: sumByPeriod / sumByCategoryAndPeriod never touch the table
+      CREATE INDEX IF NOT EXISTS idx_wallet_spending_ledger_period
+        ON wallet_spending_ledger (agent_id, period_key, amount_usd);
+      CREATE INDEX IF NOT EXISTS idx_wallet_spending_ledger_category_period
+        ON wallet_spending_ledger (agent_id, category, period_key, amount_usd);
+
+      CREATE TABLE IF NOT EXISTS wallet_approval_decisions (
+        id TEXT PRIMARY KEY,
+        approval_id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        decided_by TEXT NOT NULL,
+        amount_usd REAL NOT NULL,
+        category TEXT NOT NULL,
+        note TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wallet_approval_decisions_approval
+        ON wallet_approval_decisions (approval_id);
+      CREATE INDEX IF NOT EXISTS idx_wallet_approval_decisions_agent_created
+        ON wallet_approval_decisions (agent_id, created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'spend_history',
+    sql: `
+      ALTER TABLE wallet_spending_ledger ADD COLUMN recipient TEXT;
+      -- getSpendHistory: velocity windows, anomaly lookback, first-time recipients
+      CREATE INDEX IF NOT EXISTS idx_wallet_spending_ledger_agent_created
+        ON wallet_spending_ledger (agent_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_wallet_spending_ledger_agent_recipient
+        ON wallet_spending_ledger (agent_id, recipient);
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the database's current version, each in
+ * its own transaction.
+ *
+ * @returns Versions applied by this call
+ */
+export async function migrateWalletSchema(
+  db: any,
+  migrations: WalletMigration[] = WALLET_MIGRATIONS,
+): Promise<number[]> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS wallet_schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const row = await db.get('SELECT MAX(version) AS version FROM wallet_schema_migrations');
+  const current = Number(row?.version ?? 0);
+  const applied: number[] = [];
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= current) continue;
+
+    await db.transaction(async (trx: any) => {
+      await trx.exec(migration.sql);
+      await trx.run(
+        'INSERT OR IGNORE INTO wallet_schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, Date.now()],
+      );
+    });
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
+
+/** Highest migration version applied to the database (0 when none). */
+export async function getWalletSchemaVersion(db: any): Promise<number> {
+  const row = await db.get('SELECT MAX(version) AS version FROM wallet_schema_migrations');
+  return Number(row?.version ?? 0);
+}
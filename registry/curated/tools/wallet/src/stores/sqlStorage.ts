@@ -0,0 +1,41 @@
+// @ts-nocheck
+/**
+ * @fileoverview Lazy loader for the optional @framers/sql-storage-adapter dependency.
+ * @module wallet/stores/sqlStorage
+ */
+
+// Lazily resolved sql-storage-adapter module (dynamic import — not a hard dependency)
+let _sqlStorage: any = null;
+
+async function getSqlStorage(): Promise<any> {
+  if (!_sqlStorage) {
+    try {
+      _sqlStorage = await import('@framers/sql-storage-adapter' as string);
+    } catch {
+      throw new Error(
+        'Missing dependency: @framers/sql-storage-adapter is required for SQLite wallet storage. '
+        + 'Install it with: npm install @framers/sql-storage-adapter',
+      );
+    }
+  }
+  return _sqlStorage;
+}
+
+export interface SqliteStoreOptions {
+  /** Database file; ignored when `adapter` is given. */
+  filePath?: string;
+  /**
+   * Pre-opened sql-storage-adapter instance shared with other stores, or a
+   * function that opens it on first use. The store never closes an adapter
+   * it was given.
+   */
+  adapter?: any | (() => Promise<any>);
+}
+
+/** Open a database for a store: the caller's shared adapter, or a new file-backed one. */
+export async function openSqlAdapter(options: SqliteStoreOptions): Promise<any> {
+  if (typeof options.adapter === 'function') return options.adapter();
+  if (options.adapter) return options.adapter;
+  const { createDatabase } = await getSqlStorage();
+  return createDatabase({ file: options.filePath });
+}
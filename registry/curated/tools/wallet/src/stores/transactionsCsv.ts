@@ -0,0 +1,72 @@
+// @ts-nocheck
+/**
+ * @fileoverview CSV export of wallet transactions for accounting reconciliation.
+ * @module wallet/stores/transactionsCsv
+ */
+
+import type { ChainId, WalletTransactionRecord } from '../types.js';
+
+/** A transaction plus the wallet it belongs to (filled in by {@link SqliteWalletStore}). */
+export type ExportedWalletTransaction = WalletTransactionRecord & {
+  agentId?: string;
+  chain?: ChainId;
+  walletAddress?: string;
+};
+
+export const TRANSACTION_CSV_COLUMNS = [
+  'created_at',
+  'id',
+  'agent_id',
+  'chain',
+  'wallet_id',
+  'wallet_address',
+  'direction',
+  'status',
+  'token',
+  'amount_raw',
+  'amount_usd',
+  'category',
+  'tx_hash',
+  'from_address',
+  'to_address',
+  'description',
+] as const;
+
+/**
+ * Render transactions as RFC 4180 CSV (CRLF line endings, header row first).
+ * Timestamps are ISO-8601 UTC. Text that a spreadsheet would evaluate as a
+ * formula is prefixed with `'`.
+ */
+export function transactionsToCsv(records: ExportedWalletTransaction[]): string {
+  const lines = [TRANSACTION_CSV_COLUMNS.join(',')];
+
+  for (const tx of records) {
+    lines.push([
+      new Date(tx.createdAt).toISOString(),
+      csvText(tx.id),
+      csvText(tx.agentId),
+      csvText(tx.chain),
+      csvText(tx.walletId),
+      csvText(tx.walletAddress),
+      csvText(tx.direction),
+      csvText(tx.status),
+      csvText(tx.token),
+      csvText(tx.amountRaw),
+      tx.amountUsd != null ? tx.amountUsd.toFixed(2) : '',
+      csvText(tx.category),
+      csvText(tx.txHash),
+      csvText(tx.fromAddress),
+      csvText(tx.toAddress),
+      csvText(tx.description),
+    ].join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function csvText(value: string | undefined | null): string {
+  if (value == null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -7,6 +7,7 @@
 import type { ITool, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos/core/tools/ITool';
 import type { AgentWalletManager } from '../AgentWalletManager.js';
 import type { ChainId, TokenSymbol } from '../types.js';
+import { nativeTokenForChain } from '../pricing/tokens.js';
 
 interface CheckBalanceInput {
   /** Chain to check. Defaults to 'solana'. */
@@ -46,6 +47,7 @@ const TOKEN_MINTS: Record<string, Record<string, string>> = {
 const DECIMALS: Record<string, number> = {
   SOL: 9,
   ETH: 18,
+  POL: 18,
   USDC: 6,
   USDT: 6,
 };
@@ -83,8 +85,8 @@ export function createCheckBalanceTool(walletManager: AgentWalletManager): ITool
         },
         token: {
           type: 'string',
-          enum: ['SOL', 'ETH', 'USDC', 'USDT'],
-          description: 'Token to check. Omit for native token (SOL/ETH).',
+          enum: ['SOL', 'ETH', 'POL', 'USDC', 'USDT'],
+          description: 'Token to check. Omit for native token (SOL/ETH/POL).',
         },
       },
     },
@@ -105,7 +107,7 @@ export function createCheckBalanceTool(walletManager: AgentWalletManager): ITool
         let balanceRaw: bigint;
         let tokenLabel: string;
 
-        const nativeToken = chain === 'solana' ? 'SOL' : 'ETH';
+        const nativeToken = nativeTokenForChain(chain);
 
         if (!args.token || args.token === nativeToken) {
           // Native token balance
@@ -19,6 +19,8 @@ interface PayWithCardInput {
   category?: SpendCategory;
   /** Description of what the payment is for. */
   description?: string;
+  /** Approved request ID from an earlier call that was held for approval. */
+  approvalId?: string;
 }
 
 interface PayWithCardOutput {
@@ -37,6 +39,7 @@ export function createPayWithCardTool(cardManager: CardManager): ITool<PayWithCa
     description:
       'Retrieve the agent\'s virtual card details (card number, CVV, expiry) to make an online payment. '
       + 'If an estimated amount is provided, spending policy is checked before revealing card details. '
+      + 'Payments above the approval threshold are held for a human; once approved, call again with the returned approvalId. '
       + 'Use this when filling checkout forms on websites or paying for API services.',
     category: 'wallet',
     version: '1.0.0',
@@ -63,6 +66,10 @@ export function createPayWithCardTool(cardManager: CardManager): ITool<PayWithCa
           type: 'string',
           description: 'What the payment is for (logged for audit trail).',
         },
+        approvalId: {
+          type: 'string',
+          description: 'ID of an approved spend request, returned when this payment was first held for approval.',
+        },
       },
     },
 
@@ -75,6 +82,8 @@ export function createPayWithCardTool(cardManager: CardManager): ITool<PayWithCa
           agentId,
           args.estimatedAmountUsd,
           category,
+          args.approvalId,
+          args.description,
         );
 
         if (!details.pan) {
@@ -95,6 +104,18 @@ export function createPayWithCardTool(cardManager: CardManager): ITool<PayWithCa
           },
         };
       } catch (err: any) {
+        if (err.name === 'ApprovalPendingError') {
+          return {
+            success: false,
+            error: err.message,
+            details: {
+              requiresApproval: true,
+              approvalId: err.approvalId,
+              approvalStatus: 'pending',
+              expiresAt: new Date(err.expiresAt).toISOString(),
+            },
+          };
+        }
         if (err.name === 'CardSpendingBlockedError') {
           return {
             success: false,
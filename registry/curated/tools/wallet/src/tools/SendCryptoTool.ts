@@ -7,6 +7,7 @@
 import type { ITool, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos/core/tools/ITool';
 import type { AgentWalletManager } from '../AgentWalletManager.js';
 import type { ChainId, SpendCategory, TokenSymbol } from '../types.js';
+import { nativeTokenForChain } from '../pricing/tokens.js';
 
 interface SendCryptoInput {
   /** Destination address. */
@@ -15,7 +16,7 @@ interface SendCryptoInput {
   amount: string;
   /** Chain to send on. Defaults to 'solana'. */
   chain?: ChainId;
-  /** Token to send. Defaults to native (SOL/ETH). */
+  /** Token to send. Defaults to native (SOL/ETH/POL). */
   token?: TokenSymbol;
   /** Spending category for budget tracking. Defaults to 'transfers'. */
   category?: SpendCategory;
@@ -36,6 +37,7 @@ interface SendCryptoOutput {
 const DECIMALS: Record<string, number> = {
   SOL: 9,
   ETH: 18,
+  POL: 18,
   USDC: 6,
   USDT: 6,
 };
@@ -43,6 +45,7 @@ const DECIMALS: Record<string, number> = {
 const DEFAULT_REFERENCE_USD_PRICES: Record<TokenSymbol, number> = {
   SOL: 1,
   ETH: 1,
+  POL: 1,
   USDC: 1,
   USDT: 1,
 };
@@ -71,8 +74,8 @@ export function createSendCryptoTool(walletManager: AgentWalletManager): ITool<S
     description:
       'Send cryptocurrency from the agent\'s personal wallet to a destination address. '
       + 'Enforces spending limits, category budgets, and address whitelists configured by the user. '
-      + 'Transactions above the approval threshold require explicit human confirmation. '
-      + 'Supports SOL, ETH (on Ethereum/Base), USDC, and USDT.',
+      + 'Transactions above the approval threshold are held until a human approves them, then sent automatically. '
+      + 'Supports SOL, ETH (on Ethereum/Base), POL (on Polygon), USDC, and USDT; token amounts are priced in USD before limits apply.',
     category: 'wallet',
     version: '1.0.0',
     hasSideEffects: true,
@@ -96,8 +99,8 @@ export function createSendCryptoTool(walletManager: AgentWalletManager): ITool<S
         },
         token: {
           type: 'string',
-          enum: ['SOL', 'ETH', 'USDC', 'USDT'],
-          description: 'Token to send. Defaults to native token (SOL/ETH).',
+          enum: ['SOL', 'ETH', 'POL', 'USDC', 'USDT'],
+          description: 'Token to send. Defaults to native token (SOL/ETH/POL).',
         },
         category: {
           type: 'string',
@@ -119,7 +122,7 @@ export function createSendCryptoTool(walletManager: AgentWalletManager): ITool<S
     async execute(args: SendCryptoInput, context: ToolExecutionContext): Promise<ToolExecutionResult<SendCryptoOutput>> {
       try {
         const chain: ChainId = args.chain || 'solana';
-        const nativeToken: TokenSymbol = chain === 'solana' ? 'SOL' : 'ETH';
+        const nativeToken: TokenSymbol = nativeTokenForChain(chain);
         const token: TokenSymbol = args.token || nativeToken;
         const category: SpendCategory = args.category || 'transfers';
         const agentId = context.gmiId;
@@ -133,26 +136,19 @@ export function createSendCryptoTool(walletManager: AgentWalletManager): ITool<S
 
         const amountRaw = parseAmountToRaw(args.amount, decimals);
 
-        // Use configurable reference prices until a live oracle/provider is wired.
-        const estimatedUsd = amountNum * getReferenceUsdPrice(token);
-
-        // Only native sends are implemented in Phase 1
-        if (token !== nativeToken) {
-          return {
-            success: false,
-            error: `Token transfers (${token}) are not yet supported. Only native ${nativeToken} sends are available in this version.`,
-          };
-        }
-
-        const txRecord = await walletManager.sendNative(
-          agentId,
-          chain,
-          args.to,
-          amountRaw,
-          estimatedUsd,
-          category,
-          args.description,
-        );
+        // Token transfers are priced by the wallet manager's price feed; native
+        // sends fall back to configurable reference prices when none is set.
+        const txRecord = token !== nativeToken
+          ? await walletManager.sendToken(agentId, chain, args.to, token, amountRaw, category, args.description)
+          : await walletManager.sendNative(
+            agentId,
+            chain,
+            args.to,
+            amountRaw,
+            amountNum * getReferenceUsdPrice(token),
+            category,
+            args.description,
+          );
 
         return {
           success: true,
@@ -167,6 +163,19 @@ export function createSendCryptoTool(walletManager: AgentWalletManager): ITool<S
           },
         };
       } catch (err: any) {
+        if (err.name === 'ApprovalPendingError') {
+          return {
+            success: false,
+            error: err.message,
+            details: {
+              policyViolation: false,
+              requiresApproval: true,
+              approvalId: err.approvalId,
+              approvalStatus: 'pending',
+              expiresAt: new Date(err.expiresAt).toISOString(),
+            },
+          };
+        }
         // Surface spending policy violations cleanly
         if (err.name === 'SpendingPolicyViolation' || err.name === 'ApprovalRequiredError') {
           return {
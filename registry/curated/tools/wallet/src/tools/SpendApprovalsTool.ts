@@ -0,0 +1,203 @@
+// @ts-nocheck
+/**
+ * @fileoverview Approver-facing tool for the wallet spend approval queue.
+ *
+ * Decisions are made as the calling user (`userContext.userId`), who must
+ * be one of the queue's configured approvers. The agent identity is never
+ * used as an approver, and an agent cannot decide on requests it raised.
+ * @module wunderland/wallet/tools/SpendApprovalsTool
+ */
+
+import type { ITool, ToolExecutionContext, ToolExecutionResult } from '@framers/agentos/core/tools/ITool';
+import type { SpendApprovalQueue } from '../approvals/SpendApprovalQueue.js';
+import type { SpendApprovalRequest, SpendApprovalStatus } from '../approvals/types.js';
+
+type SpendApprovalAction = 'list' | 'get' | 'approve' | 'deny' | 'expire';
+
+interface SpendApprovalsInput {
+  action: SpendApprovalAction;
+  /** Request ID (required for get/approve/deny/expire). */
+  approvalId?: string;
+  /** Filter for `list`. Defaults to pending requests. */
+  status?: SpendApprovalStatus | 'all';
+  /** Filter for `list`: only requests from this agent. */
+  agentId?: string;
+  /** Max number of requests for `list`. Defaults to 20. */
+  limit?: number;
+  /** Reason recorded with the decision. */
+  note?: string;
+}
+
+interface SpendApprovalSummary {
+  id: string;
+  agentId: string;
+  kind: string;
+  amountUsd: number;
+  category: string;
+  status: SpendApprovalStatus;
+  reason: string;
+  /** Approvals needed and collected so far, for N-of-M requests. */
+  requiredApprovals?: number;
+  approvedBy?: string[];
+  requestedAt: string;
+  expiresAt: string;
+  to?: string;
+  chain?: string;
+  token?: string;
+  description?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  transactionId?: string;
+  txHash?: string;
+  error?: string;
+}
+
+interface SpendApprovalsOutput {
+  requests: SpendApprovalSummary[];
+  totalCount: number;
+}
+
+const ID_ACTIONS: SpendApprovalAction[] = ['get', 'approve', 'deny', 'expire'];
+const DECISION_ACTIONS: SpendApprovalAction[] = ['approve', 'deny', 'expire'];
+
+function summarize(request: SpendApprovalRequest): SpendApprovalSummary {
+  const payload = request.payload as Record<string, any>;
+  return {
+    id: request.id,
+    agentId: request.agentId,
+    kind: request.kind,
+    amountUsd: request.amountUsd,
+    category: request.category,
+    status: request.status,
+    reason: request.reason,
+    requiredApprovals: request.requiredApprovals,
+    approvedBy: request.approvals?.map((a) => a.approverId),
+    requestedAt: new Date(request.requestedAt).toISOString(),
+    expiresAt: new Date(request.expiresAt).toISOString(),
+    to: payload.to,
+    chain: payload.chain,
+    token: payload.token,
+    description: payload.description,
+    decidedBy: request.decidedBy,
+    decidedAt: request.decidedAt != null ? new Date(request.decidedAt).toISOString() : undefined,
+    decisionNote: request.decisionNote,
+    transactionId: request.transactionId,
+    txHash: request.txHash,
+    error: request.error,
+  };
+}
+
+export function createSpendApprovalsTool(queue: SpendApprovalQueue): ITool<SpendApprovalsInput, SpendApprovalsOutput> {
+  return {
+    id: 'wallet-spend-approvals-v1',
+    name: 'wallet_spend_approvals',
+    displayName: 'Wallet Spend Approvals',
+    description:
+      'Review wallet spends that are waiting for human approval. '
+      + 'List or inspect pending requests, then approve, deny or expire them. '
+      + 'Approved crypto sends are broadcast immediately; approved card payments can be completed by the agent. '
+      + 'Large spends may need several distinct approvers before they are released. '
+      + 'Only configured human approvers can decide, and an agent cannot decide on its own spends.',
+    category: 'wallet',
+    version: '1.0.0',
+    hasSideEffects: true,
+    requiredCapabilities: ['capability:wallet', 'capability:wallet_approve'],
+
+    inputSchema: {
+      type: 'object',
+      required: ['action'],
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'get', 'approve', 'deny', 'expire'],
+          description: 'What to do.',
+        },
+        approvalId: {
+          type: 'string',
+          description: 'Approval request ID. Required for get, approve, deny and expire.',
+        },
+        status: {
+          type: 'string',
+          enum: ['pending', 'approved', 'denied', 'expired', 'executed', 'failed', 'all'],
+          description: 'Status filter for list. Defaults to pending.',
+        },
+        agentId: {
+          type: 'string',
+          description: 'Only list requests from this agent.',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 100,
+          description: 'Max number of requests to list. Defaults to 20.',
+        },
+        note: {
+          type: 'string',
+          description: 'Reason for the decision (recorded in the spending ledger).',
+        },
+      },
+    },
+
+    async execute(args: SpendApprovalsInput, context: ToolExecutionContext): Promise<ToolExecutionResult<SpendApprovalsOutput>> {
+      try {
+        if (ID_ACTIONS.includes(args.action) && !args.approvalId) {
+          return { success: false, error: `approvalId is required for action '${args.action}'.` };
+        }
+
+        let approverId: string | undefined;
+        if (DECISION_ACTIONS.includes(args.action)) {
+          approverId = context.userContext?.userId;
+          if (!approverId || !queue.isApprover(approverId)) {
+            return { success: false, error: 'Only a configured spend approver can approve, deny or expire requests.' };
+          }
+          const request = await queue.get(args.approvalId!);
+          if (request && context.gmiId && request.agentId === context.gmiId) {
+            return { success: false, error: 'An agent cannot decide on its own spend request.' };
+          }
+        }
+
+        let requests: SpendApprovalRequest[];
+
+        switch (args.action) {
+          case 'list': {
+            const status = args.status || 'pending';
+            requests = await queue.list({
+              status: status === 'all' ? undefined : status,
+              agentId: args.agentId,
+              limit: args.limit || 20,
+            });
+            break;
+          }
+          case 'get': {
+            const request = await queue.get(args.approvalId!);
+            if (!request) {
+              return { success: false, error: `Approval request ${args.approvalId} not found.` };
+            }
+            requests = [request];
+            break;
+          }
+          case 'approve':
+            requests = [await queue.approve(args.approvalId!, approverId!, args.note)];
+            break;
+          case 'deny':
+            requests = [await queue.deny(args.approvalId!, approverId!, args.note)];
+            break;
+          case 'expire':
+            requests = [await queue.expire(args.approvalId!, approverId!, args.note)];
+            break;
+          default:
+            return { success: false, error: `Unknown action '${args.action}'.` };
+        }
+
+        const summaries = requests.map(summarize);
+        return {
+          success: true,
+          output: { requests: summaries, totalCount: summaries.length },
+        };
+      } catch (err: any) {
+        return { success: false, error: err.message || String(err) };
+      }
+    },
+  };
+}
@@ -15,7 +15,7 @@
 
 export type ChainId = 'solana' | 'ethereum' | 'base' | 'polygon';
 
-export type TokenSymbol = 'SOL' | 'ETH' | 'USDC' | 'USDT';
+export type TokenSymbol = 'SOL' | 'ETH' | 'POL' | 'USDC' | 'USDT';
 
 /** Token metadata for a specific chain deployment. */
 export interface TokenInfo {
@@ -81,6 +81,43 @@ export interface SpendingPolicyConfig {
   allowedAddresses?: string[];
   /** Crypto address blacklist — these addresses are always blocked. */
   blockedAddresses?: string[];
+  /** Caps on how fast the agent can spend. */
+  velocity?: VelocityRules;
+  /** Hold sends to addresses the agent has never paid before. */
+  firstTimeRecipientHold?: FirstTimeRecipientRule;
+  /** Flag spends far above what the agent usually spends in a category. */
+  anomaly?: AnomalyRule;
+}
+
+export interface RollingSpendWindow {
+  /** Window length in minutes, measured back from now. */
+  windowMinutes: number;
+  /** Max total spend in USD within the window, including the proposed spend. */
+  maxSpendUsd: number;
+}
+
+export interface VelocityRules {
+  /** Max spends within the last 60 minutes, including the proposed one. */
+  maxTransactionsPerHour?: number;
+  /** Rolling spend caps, e.g. at most $25 in any 15 minutes. */
+  rollingWindows?: RollingSpendWindow[];
+}
+
+export interface FirstTimeRecipientRule {
+  enabled: boolean;
+  /** Only hold first-time sends of at least this amount. Defaults to 0 (all). */
+  minAmountUsd?: number;
+}
+
+export interface AnomalyRule {
+  /** Flag spends above `medianMultiplier` × the median past spend in the same category. */
+  medianMultiplier: number;
+  /** Past spends in the category needed before the rule applies. Defaults to 5. */
+  minSamples?: number;
+  /** How far back to look for past spends. Defaults to 30. */
+  lookbackDays?: number;
+  /** 'hold' for human approval (default) or 'block' outright. */
+  action?: 'hold' | 'block';
 }
 
 // ---------------------------------------------------------------------------
@@ -151,19 +188,66 @@ export interface SpendingLedgerEntry {
   amountUsd: number;
   /** Date key: 'YYYY-MM-DD' for daily, 'YYYY-MM' for monthly. */
   periodKey: string;
+  /** Approval request that released this spend, if it needed one. */
+  approvalId?: string;
+  /** Crypto address paid, if any (drives first-time-recipient holds). */
+  recipient?: string;
+  createdAt: number;
+}
+
+/** One completed spend, as read back for velocity and anomaly rules. */
+export interface SpendHistoryEntry {
+  amountUsd: number;
+  category: SpendCategory;
+  recipient?: string;
   createdAt: number;
 }
 
+export interface SpendHistoryQuery {
+  /** Only spends at or after this time (epoch ms). */
+  since?: number;
+  category?: SpendCategory;
+  recipient?: string;
+  /** Max entries, newest first. */
+  limit?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Spending policy check result
 // ---------------------------------------------------------------------------
 
+/** Policy rule that blocked or held a spend. */
+export type SpendRuleId =
+  | 'blocked_category'
+  | 'blocked_address'
+  | 'address_not_allowed'
+  | 'per_transaction_limit'
+  | 'daily_limit'
+  | 'monthly_limit'
+  | 'category_daily_budget'
+  | 'category_monthly_budget'
+  | 'velocity_transactions_per_hour'
+  | 'velocity_rolling_window'
+  | 'approval_threshold'
+  | 'first_time_recipient'
+  | 'anomaly_median';
+
+export interface SpendRuleHold {
+  rule: SpendRuleId;
+  /** Human-readable explanation of why approval is needed. */
+  reason: string;
+}
+
 export interface SpendCheckResult {
   allowed: boolean;
   /** Human-readable reason if blocked. */
   reason?: string;
+  /** Rule that blocked the spend. */
+  rule?: SpendRuleId;
   /** True if the transaction needs explicit human approval (above threshold but within limits). */
   requiresApproval?: boolean;
+  /** Every rule that wants a human to approve this spend, when `requiresApproval` is set. */
+  holds?: SpendRuleHold[];
   /** Remaining daily budget in USD after this transaction (if allowed). */
   remainingDailyUsd?: number;
   /** Remaining monthly budget in USD after this transaction (if allowed). */
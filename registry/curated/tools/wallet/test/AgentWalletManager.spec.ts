@@ -4,7 +4,7 @@
  *
  * Tests cover: wallet creation, duplicate prevention, encrypted key storage,
  * balance caching, spending with policy enforcement, policy violation errors,
- * and transaction recording.
+ * price-feed conversion for native and token sends, and transaction recording.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -12,6 +12,8 @@ import { AgentWalletManager, SpendingPolicyViolation, ApprovalRequiredError } fr
 import { SpendingPolicyEnforcer } from '../src/SpendingPolicyEnforcer.js';
 import type { IChainWalletAdapter, ChainId, WalletConfig, WalletTxStatus, AgentWalletRecord } from '../src/types.js';
 import { DEFAULT_SPENDING_POLICY } from '../src/types.js';
+import { StaticPriceFeed } from '../src/pricing/StaticPriceFeed.js';
+import { nativeTokenForChain } from '../src/pricing/tokens.js';
 
 /* ------------------------------------------------------------------ */
 /*  Mocks                                                              */
@@ -84,7 +86,7 @@ function createMemoryLedger() {
 const AGENT = 'agent-wallet-test';
 const SECRET = 'test-master-secret-32bytes!!!!!';
 
-function createManager(overrides?: { policy?: Partial<typeof DEFAULT_SPENDING_POLICY> }) {
+function createManager(overrides?: { policy?: Partial<typeof DEFAULT_SPENDING_POLICY>; priceFeed?: any }) {
   const adapter = createMockAdapter();
   const store = createMemoryStore();
   const ledger = createMemoryLedger();
@@ -107,6 +109,7 @@ function createManager(overrides?: { policy?: Partial<typeof DEFAULT_SPENDING_PO
     store,
     policyEnforcer,
     adapters,
+    priceFeed: overrides?.priceFeed,
   });
 
   return { manager, adapter, store, ledger, policyEnforcer };
@@ -257,6 +260,67 @@ describe('AgentWalletManager', () => {
     });
   });
 
+  /* ── Price feed ────────────────────────────────────────────────── */
+
+  describe('price feed', () => {
+    const priceFeed = new StaticPriceFeed({ SOL: 150, USDC: 1, 'solana:USDT': 0.99 });
+
+    it('should price native sends from the feed instead of the caller estimate', async () => {
+      const { manager, ledger } = createManager({ priceFeed });
+      await manager.createWallet(AGENT, 'solana');
+
+      // 0.05 SOL at $150, whatever the caller claims
+      const tx = await manager.sendNative(AGENT, 'solana', 'dest', 50_000_000n, 0.01, 'transfers');
+      expect(tx.amountUsd).toBeCloseTo(7.5);
+      expect(ledger.entries[0].amountUsd).toBeCloseTo(7.5);
+
+      await expect(
+        manager.sendNative(AGENT, 'solana', 'dest', 200_000_000n, 0.01, 'transfers'),
+      ).rejects.toThrow(SpendingPolicyViolation);
+    });
+
+    it('should send tokens through signTokenTransfer with a USD price', async () => {
+      const { manager, adapter, ledger } = createManager({ priceFeed });
+      await manager.createWallet(AGENT, 'solana');
+
+      const tx = await manager.sendToken(AGENT, 'solana', 'dest', 'USDC', 7_500_000n, 'api_costs');
+
+      expect(tx).toMatchObject({ status: 'confirmed', token: 'USDC', amountRaw: '7500000', amountUsd: 7.5 });
+      expect(adapter.signTokenTransfer).toHaveBeenCalledWith(
+        expect.any(Uint8Array), 'dest', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 7_500_000n,
+      );
+      expect(adapter.signTransfer).not.toHaveBeenCalled();
+      expect(ledger.entries[0]).toMatchObject({ amountUsd: 7.5, recipient: 'dest' });
+    });
+
+    it('should reject tokens outside allowedTokens or without a price', async () => {
+      const { manager } = createManager({ priceFeed: new StaticPriceFeed({ SOL: 150 }) });
+      await manager.createWallet(AGENT, 'solana');
+
+      await expect(manager.sendToken(AGENT, 'solana', 'dest', 'USDT', 1_000_000n, 'transfers'))
+        .rejects.toThrow('not in the wallet\'s allowed tokens');
+      await expect(manager.sendToken(AGENT, 'solana', 'dest', 'USDC', 1_000_000n, 'transfers'))
+        .rejects.toThrow('No USD price available for USDC on solana');
+    });
+
+    it('should price Polygon native sends in POL, not ETH', async () => {
+      const { manager } = createManager({ priceFeed: new StaticPriceFeed({ ETH: 3000, POL: 0.5 }) });
+      expect(await manager.quoteUsd('polygon', nativeTokenForChain('polygon'), 10n ** 18n)).toBe(0.5);
+
+      const { manager: unpriced } = createManager({ priceFeed: new StaticPriceFeed({ ETH: 3000 }) });
+      await expect(unpriced.sendNative(AGENT, 'polygon', 'dest', 10n ** 18n, 0.01, 'transfers'))
+        .rejects.toThrow('No USD price available for POL on polygon');
+    });
+
+    it('should require a price feed for token sends', async () => {
+      const { manager } = createManager();
+      await manager.createWallet(AGENT, 'solana');
+
+      await expect(manager.sendToken(AGENT, 'solana', 'dest', 'USDC', 1_000_000n, 'transfers'))
+        .rejects.toThrow('No price feed configured');
+    });
+  });
+
   /* ── Transaction history ───────────────────────────────────────── */
 
   describe('getTransactionHistory', () => {
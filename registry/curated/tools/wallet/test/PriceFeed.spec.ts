@@ -0,0 +1,67 @@
+// @ts-nocheck
+/**
+ * @fileoverview Unit tests for the USD price feeds.
+ *
+ * Tests cover: chain-specific overrides, environment reference prices,
+ * missing prices, file-backed prices with refresh, and raw-amount conversion.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StaticPriceFeed } from '../src/pricing/StaticPriceFeed.js';
+import { FilePriceFeed } from '../src/pricing/FilePriceFeed.js';
+import { PriceUnavailableError } from '../src/pricing/types.js';
+import { rawAmountToUsd } from '../src/pricing/tokens.js';
+
+describe('StaticPriceFeed', () => {
+  it('should prefer chain-specific prices', async () => {
+    const feed = new StaticPriceFeed({ USDT: 1, 'polygon:USDT': 0.98 });
+
+    expect(await feed.getUsdPrice('USDT', 'ethereum')).toBe(1);
+    expect(await feed.getUsdPrice('USDT', 'polygon')).toBe(0.98);
+  });
+
+  it('should throw PriceUnavailableError for unknown tokens', async () => {
+    const feed = new StaticPriceFeed({ SOL: 150 });
+    await expect(feed.getUsdPrice('ETH', 'base')).rejects.toBeInstanceOf(PriceUnavailableError);
+  });
+
+  it('should read WALLET_PRICE_<TOKEN>_USD overrides', async () => {
+    const feed = StaticPriceFeed.fromEnv({ SOL: 1, ETH: 1 }, { WALLET_PRICE_SOL_USD: '142.5', WALLET_PRICE_ETH_USD: 'oops' });
+
+    expect(await feed.getUsdPrice('SOL', 'solana')).toBe(142.5);
+    expect(await feed.getUsdPrice('ETH', 'ethereum')).toBe(1);
+  });
+});
+
+describe('FilePriceFeed', () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read prices from a JSON file and refresh them', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'wallet-prices-'));
+    const filePath = join(dir, 'prices.json');
+    writeFileSync(filePath, JSON.stringify({ prices: { SOL: 150, 'base:ETH': 3000 } }));
+
+    const feed = new FilePriceFeed(filePath, { refreshMs: 0 });
+    expect(await feed.getUsdPrice('SOL', 'solana')).toBe(150);
+    expect(await feed.getUsdPrice('ETH', 'base')).toBe(3000);
+    await expect(feed.getUsdPrice('ETH', 'ethereum')).rejects.toThrow('No USD price available for ETH on ethereum');
+
+    writeFileSync(filePath, JSON.stringify({ SOL: 160 }));
+    expect(await feed.getUsdPrice('SOL', 'solana')).toBe(160);
+  });
+});
+
+describe('rawAmountToUsd', () => {
+  it('should convert base units using token decimals', () => {
+    expect(rawAmountToUsd(1_500_000_000n, 9, 100)).toBe(150);
+    expect(rawAmountToUsd(2_500_000n, 6, 1)).toBe(2.5);
+    expect(rawAmountToUsd(10n ** 18n, 18, 3000)).toBe(3000);
+  });
+});
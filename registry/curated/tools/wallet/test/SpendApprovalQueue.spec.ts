@@ -0,0 +1,461 @@
+// @ts-nocheck
+/**
+ * @fileoverview Unit tests for the spend approval queue.
+ *
+ * Tests cover: holding sends above the approval threshold, resuming them on
+ * approval, deny/expire, self-approval, re-checking limits on resume, card
+ * payment redemption, ledger decision records, N-of-M quorums, file
+ * persistence, and the approver tool.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentWalletManager, ApprovalPendingError, ApprovalRequiredError } from '../src/AgentWalletManager.js';
+import { SpendingPolicyEnforcer } from '../src/SpendingPolicyEnforcer.js';
+import { SpendApprovalQueue } from '../src/approvals/SpendApprovalQueue.js';
+import { FileSpendApprovalStore } from '../src/approvals/FileSpendApprovalStore.js';
+import { CardManager } from '../src/cards/CardManager.js';
+import { MccCategoryMap } from '../src/cards/MccCategoryMap.js';
+import { createSendCryptoTool } from '../src/tools/SendCryptoTool.js';
+import { createSpendApprovalsTool } from '../src/tools/SpendApprovalsTool.js';
+import { DEFAULT_SPENDING_POLICY } from '../src/types.js';
+import type { ChainId, IChainWalletAdapter, WalletTxStatus } from '../src/types.js';
+
+/* ------------------------------------------------------------------ */
+/*  Mocks                                                              */
+/* ------------------------------------------------------------------ */
+
+const AGENT = 'approval-test-agent';
+const APPROVER = 'human-approver';
+const RECIPIENT = 'recipient-address';
+
+function createMockAdapter(): IChainWalletAdapter {
+  return {
+    chain: 'solana',
+    generateKeypair: vi.fn(async () => ({ publicKey: 'sol-pub', secretKey: new Uint8Array(64).fill(1) })),
+    getBalance: vi.fn(async () => 1_000_000_000n),
+    getTokenBalance: vi.fn(async () => 0n),
+    signTransfer: vi.fn(async () => new Uint8Array([1, 2, 3])),
+    signTokenTransfer: vi.fn(async () => new Uint8Array([4, 5, 6])),
+    broadcast: vi.fn(async () => 'tx-hash-approved'),
+    getTransactionStatus: vi.fn(async () => 'confirmed' as WalletTxStatus),
+  };
+}
+
+function createMemoryStore() {
+  const wallets = new Map<string, any>();
+  const txs: any[] = [];
+  return {
+    txs,
+    async getWallet(agentId: string, chain: ChainId) { return wallets.get(`${agentId}:${chain}`) || null; },
+    async getAllWallets(agentId: string) { return [...wallets.values()].filter(w => w.agentId === agentId); },
+    async saveWallet(record: any) { wallets.set(`${record.agentId}:${record.chain}`, record); },
+    async insertTransaction(record: any) { txs.push(record); },
+    async updateTransactionStatus(id: string, status: string, txHash?: string) {
+      const tx = txs.find(t => t.id === id);
+      if (tx) { tx.status = status; if (txHash) tx.txHash = txHash; }
+    },
+    async getTransactions(walletId: string, limit = 20) {
+      return txs.filter(t => t.walletId === walletId).slice(-limit).reverse();
+    },
+  };
+}
+
+function createMemoryLedger() {
+  const entries: any[] = [];
+  const decisions: any[] = [];
+  return {
+    entries,
+    decisions,
+    async sumByPeriod(agentId: string, periodKey: string) {
+      return entries.filter(e => e.agentId === agentId && e.periodKey === periodKey)
+        .reduce((sum, e) => sum + e.amountUsd, 0);
+    },
+    async sumByCategoryAndPeriod(agentId: string, category: string, periodKey: string) {
+      return entries.filter(e => e.agentId === agentId && e.category === category && e.periodKey === periodKey)
+        .reduce((sum, e) => sum + e.amountUsd, 0);
+    },
+    async insert(entry: any) { entries.push(entry); },
+    async insertApprovalDecision(entry: any) { decisions.push(entry); },
+  };
+}
+
+function createSetup(opts: { queue?: SpendApprovalQueue | null; ttlMs?: number; approvers?: string[] } = {}) {
+  const adapter = createMockAdapter();
+  const store = createMemoryStore();
+  const ledger = createMemoryLedger();
+  const policyEnforcer = new SpendingPolicyEnforcer(DEFAULT_SPENDING_POLICY, ledger);
+  const queue = opts.queue === null
+    ? undefined
+    : opts.queue ?? new SpendApprovalQueue({ policyEnforcer, ttlMs: opts.ttlMs, approvers: opts.approvers });
+
+  const manager = new AgentWalletManager({
+    masterSecret: 'test-master-secret-32bytes!!!!!',
+    walletConfig: {
+      enabled: true,
+      chains: ['solana'],
+      custodyMode: 'encrypted-hot',
+      allowedTokens: ['SOL'],
+      spendingPolicy: DEFAULT_SPENDING_POLICY,
+    },
+    store,
+    policyEnforcer,
+    adapters: new Map([['solana', adapter]]),
+    approvalQueue: queue,
+  });
+
+  return { manager, adapter, store, ledger, policyEnforcer, queue };
+}
+
+async function holdSend(manager: AgentWalletManager, amountUsd = 15): Promise<ApprovalPendingError> {
+  try {
+    await manager.sendNative(AGENT, 'solana', RECIPIENT, 1_000_000n, amountUsd, 'other', 'Consulting invoice');
+  } catch (err) {
+    return err as ApprovalPendingError;
+  }
+  throw new Error('expected the send to be held for approval');
+}
+
+/* ------------------------------------------------------------------ */
+/*  Tests                                                              */
+/* ------------------------------------------------------------------ */
+
+describe('SpendApprovalQueue', () => {
+
+  /* ── Crypto sends ──────────────────────────────────────────────── */
+
+  describe('crypto sends', () => {
+    it('should hold a send above the threshold instead of broadcasting it', async () => {
+      const { manager, adapter, queue, ledger } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+
+      const err = await holdSend(manager);
+
+      expect(err).toBeInstanceOf(ApprovalPendingError);
+      expect(err).toBeInstanceOf(ApprovalRequiredError);
+      expect(adapter.broadcast).not.toHaveBeenCalled();
+      expect(ledger.entries).toHaveLength(0);
+
+      const pending = await queue!.list({ status: 'pending' });
+      expect(pending).toHaveLength(1);
+      expect(pending[0].id).toBe(err.approvalId);
+      expect(pending[0].payload).toMatchObject({ chain: 'solana', to: RECIPIENT, amountRaw: '1000000', token: 'SOL' });
+    });
+
+    it('should still throw ApprovalRequiredError without a queue', async () => {
+      const { manager } = createSetup({ queue: null });
+      await manager.createWallet(AGENT, 'solana');
+
+      const err = await holdSend(manager);
+      expect(err).toBeInstanceOf(ApprovalRequiredError);
+      expect(err).not.toBeInstanceOf(ApprovalPendingError);
+    });
+
+    it('should resume the original send once approved', async () => {
+      const { manager, adapter, queue, ledger, store } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      const result = await queue!.approve(approvalId, APPROVER, 'Invoice checked');
+
+      expect(result.status).toBe('executed');
+      expect(result.decidedBy).toBe(APPROVER);
+      expect(result.txHash).toBe('tx-hash-approved');
+      expect(adapter.broadcast).toHaveBeenCalledOnce();
+      expect(store.txs[0]).toMatchObject({ id: result.transactionId, status: 'confirmed', amountUsd: 15 });
+
+      // Spend is charged against limits and tagged with the approval
+      expect(ledger.entries).toHaveLength(2);
+      expect(ledger.entries.every(e => e.approvalId === approvalId)).toBe(true);
+      expect(ledger.decisions).toEqual([
+        expect.objectContaining({ approvalId, decision: 'approved', decidedBy: APPROVER, note: 'Invoice checked', amountUsd: 15 }),
+      ]);
+    });
+
+    it('should record a denial without sending', async () => {
+      const { manager, adapter, queue, ledger } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      const result = await queue!.deny(approvalId, APPROVER, 'Unknown recipient');
+
+      expect(result.status).toBe('denied');
+      expect(adapter.broadcast).not.toHaveBeenCalled();
+      expect(ledger.entries).toHaveLength(0);
+      expect(ledger.decisions[0]).toMatchObject({ decision: 'denied', note: 'Unknown recipient' });
+      await expect(queue!.approve(approvalId, APPROVER)).rejects.toThrow('already denied');
+    });
+
+    it('should reject an agent approving its own spend', async () => {
+      const { manager, queue } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      await expect(queue!.approve(approvalId, AGENT)).rejects.toThrow('own spend request');
+      expect((await queue!.get(approvalId))!.status).toBe('pending');
+    });
+
+    it('should accept decisions only from configured approvers when they are set', async () => {
+      const { manager, queue } = createSetup({ approvers: [APPROVER] });
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      expect(queue!.isApprover(APPROVER)).toBe(true);
+      await expect(queue!.approve(approvalId, 'someone-else')).rejects.toThrow('not a configured spend approver');
+      await expect(queue!.deny(approvalId, 'someone-else')).rejects.toThrow('not a configured spend approver');
+      expect((await queue!.approve(approvalId, APPROVER)).status).toBe('executed');
+    });
+
+    it('should expire requests past their approval window', async () => {
+      const { manager, queue, ledger } = createSetup({ ttlMs: 1000 });
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      const expired = await queue!.expireStale(Date.now() + 2000);
+
+      expect(expired.map(r => r.id)).toEqual([approvalId]);
+      expect((await queue!.get(approvalId))!.status).toBe('expired');
+      expect(ledger.decisions[0]).toMatchObject({ decision: 'expired', decidedBy: 'system' });
+    });
+
+    it('should expire a pending request on demand', async () => {
+      const { manager, queue } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+
+      const result = await queue!.expire(approvalId, APPROVER, 'No longer needed');
+      expect(result.status).toBe('expired');
+      expect(result.decidedBy).toBe(APPROVER);
+    });
+
+    it('should fail the request when limits no longer allow the send', async () => {
+      const { manager, adapter, queue, policyEnforcer } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager, 18);
+
+      // Other spends used up the daily budget while the request waited
+      await policyEnforcer.recordSpend(AGENT, 40, 'other');
+
+      const result = await queue!.approve(approvalId, APPROVER);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('Daily limit');
+      expect(adapter.broadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  /* ── N-of-M quorums ────────────────────────────────────────────── */
+
+  describe('quorum rules', () => {
+    const SIGNERS = ['treasurer-a', 'treasurer-b', 'treasurer-c'];
+
+    function createQuorumSetup() {
+      const ledger = createMemoryLedger();
+      const policyEnforcer = new SpendingPolicyEnforcer(DEFAULT_SPENDING_POLICY, ledger);
+      const queue = new SpendApprovalQueue({
+        policyEnforcer,
+        quorumRules: [
+          { minAmountUsd: 100, requiredApprovals: 2 },
+          { agentIds: [AGENT], chains: ['solana'], minAmountUsd: 15, requiredApprovals: 2, approvers: SIGNERS },
+        ],
+      });
+      return { ...createSetup({ queue }), ledger };
+    }
+
+    it('should release a send only after the required approvals', async () => {
+      const { manager, adapter, queue, ledger } = createQuorumSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId, request } = await holdSend(manager, 16);
+      expect(request).toMatchObject({ requiredApprovals: 2, eligibleApprovers: SIGNERS });
+
+      const first = await queue!.approve(approvalId, 'treasurer-a');
+      expect(first.status).toBe('pending');
+      expect(first.approvals?.map(a => a.approverId)).toEqual(['treasurer-a']);
+      expect(adapter.broadcast).not.toHaveBeenCalled();
+      await expect(queue!.approve(approvalId, 'treasurer-a')).rejects.toThrow('already approved');
+
+      const second = await queue!.approve(approvalId, 'treasurer-c', 'Second signature');
+      expect(second.status).toBe('executed');
+      expect(second.decidedBy).toBe('treasurer-c');
+      expect(adapter.broadcast).toHaveBeenCalledOnce();
+      expect(ledger.decisions.map(d => d.decision)).toEqual(['signed', 'approved']);
+    });
+
+    it('should refuse approvers outside the signer set and honour a veto', async () => {
+      const { manager, queue } = createQuorumSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager, 16);
+
+      await expect(queue!.approve(approvalId, APPROVER)).rejects.toThrow('not an approver');
+      await queue!.approve(approvalId, 'treasurer-a');
+
+      const denied = await queue!.deny(approvalId, 'treasurer-b', 'Not budgeted');
+      expect(denied.status).toBe('denied');
+      await expect(queue!.approve(approvalId, 'treasurer-c')).rejects.toThrow('already denied');
+    });
+
+    it('should leave spends below every rule to a single approver', async () => {
+      const { manager, queue } = createQuorumSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId, request } = await holdSend(manager, 12);
+      expect(request.requiredApprovals).toBeUndefined();
+
+      expect((await queue!.approve(approvalId, APPROVER)).status).toBe('executed');
+    });
+
+    it('should reject rules that cannot be met', () => {
+      expect(() => new SpendApprovalQueue({ quorumRules: [{ requiredApprovals: 3, approvers: ['a', 'b'] }] }))
+        .toThrow('lists only 2 approvers');
+    });
+  });
+
+  /* ── Card payments ─────────────────────────────────────────────── */
+
+  describe('card payments', () => {
+    function createCardSetup() {
+      const ledger = createMemoryLedger();
+      const policyEnforcer = new SpendingPolicyEnforcer(DEFAULT_SPENDING_POLICY, ledger);
+      const queue = new SpendApprovalQueue({ policyEnforcer });
+      const card = { id: 'card-1', agentId: AGENT, state: 'OPEN', lithicCardToken: 'tok', last4: '4242' };
+      const cardManager = new CardManager({
+        adapter: {
+          getCard: vi.fn(async () => ({ pan: '4242424242424242', cvv: '123', exp_month: '12', exp_year: '2028', last_four: '4242' })),
+        } as any,
+        store: { getCard: vi.fn(async () => card) } as any,
+        policyEnforcer,
+        mccMap: new MccCategoryMap(),
+        config: { enabled: true, provider: 'lithic', defaultSpendLimitUsd: 500, allowPhysical: false },
+        approvalQueue: queue,
+      });
+      return { cardManager, queue };
+    }
+
+    it('should hold card details until the payment is approved, then redeem once', async () => {
+      const { cardManager, queue } = createCardSetup();
+
+      const err = await cardManager.getCardDetails(AGENT, 15, 'api_costs').catch(e => e);
+      expect(err).toBeInstanceOf(ApprovalPendingError);
+
+      await expect(cardManager.getCardDetails(AGENT, 15, 'api_costs', err.approvalId)).rejects.toThrow('pending, not approved');
+
+      const approved = await queue.approve(err.approvalId, APPROVER);
+      expect(approved.status).toBe('approved');
+
+      const details = await cardManager.getCardDetails(AGENT, 15, 'api_costs', err.approvalId);
+      expect(details.pan).toBe('4242424242424242');
+      expect((await queue.get(err.approvalId))!.status).toBe('executed');
+
+      await expect(cardManager.getCardDetails(AGENT, 15, 'api_costs', err.approvalId)).rejects.toThrow('executed');
+    });
+
+    it('should refuse to redeem for more than the approved amount', async () => {
+      const { cardManager, queue } = createCardSetup();
+      const err = await cardManager.getCardDetails(AGENT, 12, 'api_costs').catch(e => e);
+      await queue.approve(err.approvalId, APPROVER);
+
+      await expect(cardManager.getCardDetails(AGENT, 19, 'api_costs', err.approvalId)).rejects.toThrow('exceeds the approved');
+    });
+  });
+
+  /* ── Persistence ───────────────────────────────────────────────── */
+
+  describe('FileSpendApprovalStore', () => {
+    let dir: string;
+    afterEach(() => { if (dir) rmSync(dir, { recursive: true, force: true }); });
+
+    it('should keep pending requests across restarts', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'wallet-approvals-'));
+      const path = join(dir, 'approvals.json');
+
+      const first = createSetup({ queue: new SpendApprovalQueue({ store: new FileSpendApprovalStore(path) }) });
+      await first.manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(first.manager);
+
+      const reopened = new SpendApprovalQueue({ store: new FileSpendApprovalStore(path) });
+      const request = await reopened.get(approvalId);
+
+      expect(request).toMatchObject({ id: approvalId, agentId: AGENT, status: 'pending', amountUsd: 15 });
+    });
+  });
+
+  /* ── Tools ─────────────────────────────────────────────────────── */
+
+  describe('tools', () => {
+    const APPROVER_CTX = { gmiId: 'approver-agent', personaId: 'p', userContext: { userId: APPROVER } as any };
+    const AGENT_CTX = { gmiId: AGENT, personaId: 'p', userContext: { userId: AGENT } as any };
+
+    it('send_crypto should report the pending approval', async () => {
+      const { manager } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const tool = createSendCryptoTool(manager);
+
+      const result = await tool.execute({ to: RECIPIENT, amount: '15', category: 'other' }, AGENT_CTX);
+
+      expect(result.success).toBe(false);
+      expect(result.details).toMatchObject({ requiresApproval: true, approvalStatus: 'pending' });
+      expect(result.details.approvalId).toBeTruthy();
+    });
+
+    it('wallet_spend_approvals should list and approve pending requests', async () => {
+      const { manager, queue } = createSetup({ approvers: [APPROVER] });
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+      const tool = createSpendApprovalsTool(queue!);
+
+      const listed = await tool.execute({ action: 'list' }, APPROVER_CTX);
+      expect(listed.success).toBe(true);
+      expect(listed.output.requests).toEqual([
+        expect.objectContaining({ id: approvalId, to: RECIPIENT, amountUsd: 15, status: 'pending' }),
+      ]);
+
+      const approved = await tool.execute({ action: 'approve', approvalId, note: 'ok' }, APPROVER_CTX);
+      expect(approved.success).toBe(true);
+      expect(approved.output.requests[0]).toMatchObject({ status: 'executed', decidedBy: APPROVER, txHash: 'tx-hash-approved' });
+    });
+
+    it('wallet_spend_approvals should require an approvalId and reject self-approval', async () => {
+      const { manager, queue } = createSetup({ approvers: [APPROVER] });
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+      const tool = createSpendApprovalsTool(queue!);
+
+      expect((await tool.execute({ action: 'deny' }, APPROVER_CTX)).error).toContain('approvalId is required');
+
+      const self = await tool.execute({ action: 'approve', approvalId }, AGENT_CTX);
+      expect(self.success).toBe(false);
+      expect(self.error).toContain('configured spend approver');
+
+      // The spending agent acting for an approver still cannot decide on its own request
+      const onBehalf = await tool.execute(
+        { action: 'approve', approvalId },
+        { gmiId: AGENT, personaId: 'p', userContext: { userId: APPROVER } as any },
+      );
+      expect(onBehalf.success).toBe(false);
+      expect(onBehalf.error).toContain('own spend request');
+      expect((await queue!.get(approvalId))!.status).toBe('pending');
+    });
+
+    it('wallet_spend_approvals should not fall back to the agent identity as approver', async () => {
+      const { manager, queue } = createSetup({ approvers: ['approver-agent'] });
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+      const tool = createSpendApprovalsTool(queue!);
+
+      const noUser = await tool.execute({ action: 'approve', approvalId }, { gmiId: 'approver-agent', personaId: 'p' });
+      expect(noUser.success).toBe(false);
+      expect(noUser.error).toContain('configured spend approver');
+    });
+
+    it('wallet_spend_approvals should refuse decisions when no approvers are configured', async () => {
+      const { manager, queue } = createSetup();
+      await manager.createWallet(AGENT, 'solana');
+      const { approvalId } = await holdSend(manager);
+      const tool = createSpendApprovalsTool(queue!);
+
+      expect((await tool.execute({ action: 'list' }, APPROVER_CTX)).success).toBe(true);
+      expect((await tool.execute({ action: 'approve', approvalId }, APPROVER_CTX)).success).toBe(false);
+    });
+  });
+});
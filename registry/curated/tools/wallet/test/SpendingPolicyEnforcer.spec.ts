@@ -4,10 +4,11 @@
  *
  * Tests cover: per-tx limits, daily/monthly caps, category budgets,
  * blocked categories, address whitelists/blacklists, approval thresholds,
- * and spend recording.
+ * velocity caps, first-time-recipient holds, anomaly checks, and spend
+ * recording.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SpendingPolicyEnforcer, type ISpendingLedgerStore } from '../src/SpendingPolicyEnforcer.js';
 import type { SpendingPolicyConfig } from '../src/types.js';
 
@@ -32,6 +33,15 @@ function createTestLedger(): ISpendingLedgerStore & { entries: any[] } {
     async insert(entry: any) {
       entries.push(entry);
     },
+    async getSpendHistory(agentId: string, query: any = {}) {
+      return entries
+        .filter(e => e.agentId === agentId && e.periodKey.length === 10)
+        .filter(e => query.since === undefined || e.createdAt >= query.since)
+        .filter(e => !query.category || e.category === query.category)
+        .filter(e => !query.recipient || e.recipient === query.recipient)
+        .reverse()
+        .slice(0, query.limit);
+    },
   };
 }
 
@@ -212,6 +222,127 @@ describe('SpendingPolicyEnforcer', () => {
     });
   });
 
+  /* ── Velocity caps ─────────────────────────────────────────────── */
+
+  describe('velocity', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should block once the hourly transaction count is reached', async () => {
+      policy.velocity = { maxTransactionsPerHour: 2 };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await enforcer.recordSpend(AGENT, 1, 'transfers');
+      await enforcer.recordSpend(AGENT, 1, 'transfers');
+
+      const result = await enforcer.canSpend(AGENT, 1, 'transfers');
+      expect(result.allowed).toBe(false);
+      expect(result.rule).toBe('velocity_transactions_per_hour');
+      expect(result.reason).toContain('2 transaction(s) in the last hour');
+    });
+
+    it('should block spends that would exceed a rolling window', async () => {
+      policy.velocity = { rollingWindows: [{ windowMinutes: 15, maxSpendUsd: 12 }] };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await enforcer.recordSpend(AGENT, 8, 'transfers');
+
+      expect((await enforcer.canSpend(AGENT, 4, 'transfers')).allowed).toBe(true);
+      const result = await enforcer.canSpend(AGENT, 5, 'transfers');
+      expect(result.allowed).toBe(false);
+      expect(result.rule).toBe('velocity_rolling_window');
+      expect(result.reason).toContain('last 15 minutes');
+    });
+
+    it('should ignore spends that have left the window', async () => {
+      vi.useFakeTimers({ now: new Date('2026-03-05T10:00:00Z') });
+      policy.velocity = { maxTransactionsPerHour: 1, rollingWindows: [{ windowMinutes: 15, maxSpendUsd: 5 }] };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await enforcer.recordSpend(AGENT, 5, 'transfers');
+
+      vi.setSystemTime(new Date('2026-03-05T11:00:01Z'));
+      expect((await enforcer.canSpend(AGENT, 5, 'transfers')).allowed).toBe(true);
+    });
+  });
+
+  /* ── First-time recipient holds ────────────────────────────────── */
+
+  describe('first-time recipient', () => {
+    beforeEach(() => {
+      policy.firstTimeRecipientHold = { enabled: true, minAmountUsd: 2 };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+    });
+
+    it('should hold sends to an address never paid before', async () => {
+      const result = await enforcer.canSpend(AGENT, 5, 'transfers', '0xAllowed1');
+      expect(result.allowed).toBe(true);
+      expect(result.requiresApproval).toBe(true);
+      expect(result.holds).toEqual([
+        { rule: 'first_time_recipient', reason: expect.stringContaining('0xAllowed1') },
+      ]);
+    });
+
+    it('should not hold sends to a known recipient or below the minimum', async () => {
+      await enforcer.recordSpend(AGENT, 3, 'transfers', undefined, '0xAllowed1');
+
+      expect((await enforcer.canSpend(AGENT, 5, 'transfers', '0xAllowed1')).requiresApproval).toBe(false);
+      expect((await enforcer.canSpend(AGENT, 1, 'transfers', '0xAllowed2')).requiresApproval).toBe(false);
+    });
+
+    it('should list every hold alongside the approval threshold', async () => {
+      const result = await enforcer.canSpend(AGENT, 18, 'transfers', '0xAllowed2');
+      expect(result.holds?.map(h => h.rule)).toEqual(['approval_threshold', 'first_time_recipient']);
+    });
+  });
+
+  /* ── Anomaly checks ────────────────────────────────────────────── */
+
+  describe('anomaly', () => {
+    async function recordHistory(amounts: number[]) {
+      for (const amount of amounts) {
+        await enforcer.recordSpend(AGENT, amount, 'shopping');
+      }
+    }
+
+    it('should hold spends far above the category median', async () => {
+      policy.anomaly = { medianMultiplier: 3, minSamples: 3 };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await recordHistory([1, 2, 3]);
+
+      const result = await enforcer.canSpend(AGENT, 7, 'shopping');
+      expect(result.allowed).toBe(true);
+      expect(result.requiresApproval).toBe(true);
+      expect(result.holds?.[0].rule).toBe('anomaly_median');
+      expect(result.holds?.[0].reason).toContain('median "shopping" spend of $2.00');
+
+      expect((await enforcer.canSpend(AGENT, 6, 'shopping')).requiresApproval).toBe(false);
+      expect((await enforcer.canSpend(AGENT, 7, 'transfers')).requiresApproval).toBe(false);
+    });
+
+    it('should block when configured to', async () => {
+      policy.anomaly = { medianMultiplier: 3, minSamples: 3, action: 'block' };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await recordHistory([1, 2, 3]);
+
+      const result = await enforcer.canSpend(AGENT, 7, 'shopping');
+      expect(result.allowed).toBe(false);
+      expect(result.rule).toBe('anomaly_median');
+    });
+
+    it('should wait for enough samples', async () => {
+      policy.anomaly = { medianMultiplier: 3 };
+      enforcer = new SpendingPolicyEnforcer(policy, ledger);
+      await recordHistory([1, 2, 3, 1]);
+
+      expect((await enforcer.canSpend(AGENT, 7, 'shopping')).requiresApproval).toBe(false);
+    });
+
+    it('should require a ledger that can read spend history', () => {
+      const { getSpendHistory, ...basicLedger } = ledger;
+      policy.anomaly = { medianMultiplier: 3 };
+      expect(() => new SpendingPolicyEnforcer(policy, basicLedger)).toThrow(/getSpendHistory/);
+    });
+  });
+
   /* ── Spend recording ───────────────────────────────────────────── */
 
   describe('recordSpend', () => {
@@ -0,0 +1,290 @@
+// @ts-nocheck
+/**
+ * @fileoverview Unit tests for the SQLite wallet and spending ledger stores.
+ *
+ * Tests cover: migrations, wallet and transaction round-trips, period sums,
+ * approval decisions, persistence across reopen, CSV export, and use with
+ * SpendingPolicyEnforcer.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSqliteWalletStores } from '../src/stores/createSqliteWalletStores.js';
+import { SqliteWalletStore } from '../src/stores/SqliteWalletStore.js';
+import { WALLET_MIGRATIONS, getWalletSchemaVersion, migrateWalletSchema } from '../src/stores/migrations.js';
+import { openSqlAdapter } from '../src/stores/sqlStorage.js';
+import { transactionsToCsv } from '../src/stores/transactionsCsv.js';
+import { SpendingPolicyEnforcer } from '../src/SpendingPolicyEnforcer.js';
+import { DEFAULT_SPENDING_POLICY } from '../src/types.js';
+import type { AgentWalletRecord, WalletTransactionRecord } from '../src/types.js';
+
+/* ------------------------------------------------------------------ */
+/*  Fixtures                                                           */
+/* ------------------------------------------------------------------ */
+
+const AGENT = 'sqlite-agent';
+
+function wallet(overrides: Partial<AgentWalletRecord> = {}): AgentWalletRecord {
+  return {
+    id: 'wallet-1',
+    agentId: AGENT,
+    chain: 'solana',
+    address: 'SoLaddr111',
+    encryptedKey: 'enc-key',
+    keyDerivationSalt: 'salt',
+    createdAt: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+function tx(overrides: Partial<WalletTransactionRecord> = {}): WalletTransactionRecord {
+  return {
+    id: 'tx-1',
+    walletId: 'wallet-1',
+    direction: 'outbound',
+    toAddress: 'recipient',
+    fromAddress: 'SoLaddr111',
+    amountRaw: '1500000000',
+    amountUsd: 1.5,
+    token: 'SOL',
+    category: 'api_costs',
+    status: 'pending',
+    description: 'LLM credits',
+    createdAt: 1_700_000_001_000,
+    ...overrides,
+  };
+}
+
+function ledgerEntry(amountUsd: number, periodKey: string, category = 'api_costs', id = `e-${Math.random()}`) {
+  return { id, agentId: AGENT, category, amountUsd, periodKey, createdAt: Date.now() };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Tests                                                              */
+/* ------------------------------------------------------------------ */
+
+describe('SQLite wallet stores', () => {
+  let dir: string;
+  let filePath: string;
+  let stores: ReturnType<typeof createSqliteWalletStores>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wallet-sqlite-'));
+    filePath = join(dir, 'wallet.db');
+    stores = createSqliteWalletStores({ filePath });
+  });
+
+  afterEach(async () => {
+    await stores.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /* ── Migrations ────────────────────────────────────────────────── */
+
+  describe('migrations', () => {
+    it('should apply pending migrations once', async () => {
+      const db = await openSqlAdapter({ filePath: join(dir, 'migrate.db') });
+      try {
+        const latest = WALLET_MIGRATIONS[WALLET_MIGRATIONS.length - 1].version;
+
+        expect(await migrateWalletSchema(db)).toEqual(WALLET_MIGRATIONS.map(m => m.version));
+        expect(await migrateWalletSchema(db)).toEqual([]);
+        expect(await getWalletSchemaVersion(db)).toBe(latest);
+
+        const indexes = await db.all("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'wallet_spending_ledger'");
+        expect(indexes.map((i: any) => i.name)).toEqual(expect.arrayContaining([
+          'idx_wallet_spending_ledger_period',
+          'idx_wallet_spending_ledger_category_period',
+        ]));
+      } finally {
+        await db.close();
+      }
+    });
+
+    it('should apply later migrations on an existing database', async () => {
+      const db = await openSqlAdapter({ filePath: join(dir, 'migrate.db') });
+      try {
+        await migrateWalletSchema(db);
+        const next = [...WALLET_MIGRATIONS, {
+          version: 999,
+          name: 'add_notes',
+          sql: 'ALTER TABLE agent_wallets ADD COLUMN notes TEXT;',
+        }];
+
+        expect(await migrateWalletSchema(db, next)).toEqual([999]);
+        expect(await getWalletSchemaVersion(db)).toBe(999);
+      } finally {
+        await db.close();
+      }
+    });
+  });
+
+  /* ── Wallet store ──────────────────────────────────────────────── */
+
+  describe('SqliteWalletStore', () => {
+    it('should save and load wallets per agent and chain', async () => {
+      const { walletStore } = stores;
+      await walletStore.saveWallet(wallet());
+      await walletStore.saveWallet(wallet({ id: 'wallet-2', chain: 'base', address: '0xabc', createdAt: 1_700_000_000_500 }));
+
+      expect(await walletStore.getWallet(AGENT, 'solana')).toEqual(wallet());
+      expect(await walletStore.getWallet(AGENT, 'ethereum')).toBeNull();
+      expect((await walletStore.getAllWallets(AGENT)).map(w => w.chain)).toEqual(['solana', 'base']);
+    });
+
+    it('should record transactions and update their status', async () => {
+      const { walletStore } = stores;
+      await walletStore.saveWallet(wallet());
+      await walletStore.insertTransaction(tx());
+      await walletStore.insertTransaction(tx({ id: 'tx-2', createdAt: 1_700_000_002_000, amountUsd: undefined, category: undefined }));
+
+      await walletStore.updateTransactionStatus('tx-1', 'confirmed', 'hash-1');
+      await walletStore.updateTransactionStatus('tx-2', 'failed');
+
+      const [latest, first] = await walletStore.getTransactions('wallet-1');
+      expect(first).toEqual(tx({ status: 'confirmed', txHash: 'hash-1' }));
+      expect(latest).toMatchObject({ id: 'tx-2', status: 'failed', txHash: undefined, amountUsd: undefined });
+      expect(await walletStore.getTransactions('wallet-1', 1)).toHaveLength(1);
+    });
+
+    it('should keep data across reopen', async () => {
+      await stores.walletStore.saveWallet(wallet());
+      await stores.walletStore.insertTransaction(tx());
+      await stores.ledgerStore.insert(ledgerEntry(4, '2026-03-05'));
+      await stores.close();
+
+      stores = createSqliteWalletStores({ filePath });
+      expect(await stores.walletStore.getWallet(AGENT, 'solana')).toEqual(wallet());
+      expect(await stores.walletStore.getTransactions('wallet-1')).toHaveLength(1);
+      expect(await stores.ledgerStore.sumByPeriod(AGENT, '2026-03-05')).toBe(4);
+    });
+
+    it('should require a filePath or adapter', () => {
+      expect(() => new SqliteWalletStore({})).toThrow('requires either filePath or adapter');
+    });
+  });
+
+  /* ── Ledger store ──────────────────────────────────────────────── */
+
+  describe('SqliteSpendingLedgerStore', () => {
+    it('should sum by period and by category', async () => {
+      const { ledgerStore } = stores;
+      await ledgerStore.insert(ledgerEntry(2.5, '2026-03-05', 'api_costs'));
+      await ledgerStore.insert(ledgerEntry(1.25, '2026-03-05', 'shopping'));
+      await ledgerStore.insert(ledgerEntry(10, '2026-03-06', 'api_costs'));
+      await ledgerStore.insert({ ...ledgerEntry(99, '2026-03-05'), agentId: 'other-agent' });
+
+      expect(await ledgerStore.sumByPeriod(AGENT, '2026-03-05')).toBeCloseTo(3.75);
+      expect(await ledgerStore.sumByCategoryAndPeriod(AGENT, 'api_costs', '2026-03-05')).toBeCloseTo(2.5);
+      expect(await ledgerStore.sumByCategoryAndPeriod(AGENT, 'dining', '2026-03-05')).toBe(0);
+      expect(await ledgerStore.sumByPeriod(AGENT, '2026-04')).toBe(0);
+    });
+
+    it('should accept entries that share an id', async () => {
+      const { ledgerStore } = stores;
+      await ledgerStore.insert(ledgerEntry(1, '2026-03-05', 'api_costs', 'dup'));
+      await ledgerStore.insert(ledgerEntry(2, '2026-03-05', 'api_costs', 'dup'));
+
+      expect(await ledgerStore.sumByPeriod(AGENT, '2026-03-05')).toBe(3);
+      expect(await ledgerStore.getEntries(AGENT)).toHaveLength(2);
+    });
+
+    it('should record approval decisions without affecting totals', async () => {
+      const { ledgerStore } = stores;
+      await ledgerStore.insertApprovalDecision({
+        id: 'approval-a1-denied',
+        approvalId: 'a1',
+        agentId: AGENT,
+        kind: 'crypto_send',
+        decision: 'denied',
+        decidedBy: 'human',
+        amountUsd: 25,
+        category: 'transfers',
+        note: 'Not today',
+        createdAt: 1_700_000_000_000,
+      });
+
+      expect(await ledgerStore.getApprovalDecisions({ approvalId: 'a1' })).toEqual([
+        expect.objectContaining({ decision: 'denied', decidedBy: 'human', amountUsd: 25, note: 'Not today' }),
+      ]);
+      expect(await ledgerStore.sumByPeriod(AGENT, new Date().toISOString().slice(0, 10))).toBe(0);
+    });
+
+    it('should back SpendingPolicyEnforcer limits', async () => {
+      const enforcer = new SpendingPolicyEnforcer(DEFAULT_SPENDING_POLICY, stores.ledgerStore);
+      await enforcer.recordSpend(AGENT, 15, 'api_costs', 'approval-1');
+      await enforcer.recordSpend(AGENT, 15, 'api_costs');
+      await enforcer.recordSpend(AGENT, 15, 'api_costs');
+
+      const check = await enforcer.canSpend(AGENT, 6, 'api_costs');
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toContain('Daily limit');
+
+      const entries = await stores.ledgerStore.getEntries(AGENT);
+      expect(entries).toHaveLength(6);
+      expect(entries.filter(e => e.approvalId === 'approval-1')).toHaveLength(2);
+    });
+    it('should read back one history entry per spend, newest first', async () => {
+      const enforcer = new SpendingPolicyEnforcer(DEFAULT_SPENDING_POLICY, stores.ledgerStore);
+      await enforcer.recordSpend(AGENT, 2, 'transfers', undefined, '0xAbc');
+      await enforcer.recordSpend(AGENT, 3, 'api_costs');
+
+      const history = await stores.ledgerStore.getSpendHistory(AGENT);
+      expect(history.map(e => e.amountUsd)).toEqual([3, 2]);
+      expect(await stores.ledgerStore.getSpendHistory(AGENT, { recipient: '0xAbc' })).toEqual([
+        expect.objectContaining({ amountUsd: 2, category: 'transfers', recipient: '0xAbc' }),
+      ]);
+      expect(await stores.ledgerStore.getSpendHistory(AGENT, { category: 'api_costs', limit: 1 })).toHaveLength(1);
+      expect(await stores.ledgerStore.getSpendHistory(AGENT, { since: Date.now() + 60_000 })).toEqual([]);
+    });
+  });
+
+  /* ── CSV export ────────────────────────────────────────────────── */
+
+  describe('CSV export', () => {
+    it('should export transactions with wallet details, oldest first', async () => {
+      const { walletStore } = stores;
+      await walletStore.saveWallet(wallet());
+      await walletStore.insertTransaction(tx({ id: 'tx-2', createdAt: 1_700_000_009_000 }));
+      await walletStore.insertTransaction(tx({ status: 'confirmed', txHash: 'hash-1' }));
+
+      const csv = await walletStore.exportTransactionsCsv({ agentId: AGENT });
+      const lines = csv.trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe(
+        'created_at,id,agent_id,chain,wallet_id,wallet_address,direction,status,token,amount_raw,amount_usd,'
+        + 'category,tx_hash,from_address,to_address,description',
+      );
+      expect(lines[1]).toBe(
+        '2023-11-14T22:13:21.000Z,tx-1,sqlite-agent,solana,wallet-1,SoLaddr111,outbound,confirmed,SOL,1500000000,1.50,'
+        + 'api_costs,hash-1,SoLaddr111,recipient,LLM credits',
+      );
+      expect(lines[2]).toContain(',tx-2,');
+    });
+
+    it('should filter by status and time range', async () => {
+      const { walletStore } = stores;
+      await walletStore.saveWallet(wallet());
+      await walletStore.insertTransaction(tx({ id: 'a', createdAt: 1000, status: 'confirmed' }));
+      await walletStore.insertTransaction(tx({ id: 'b', createdAt: 2000, status: 'confirmed' }));
+      await walletStore.insertTransaction(tx({ id: 'c', createdAt: 3000, status: 'failed' }));
+
+      const rows = await walletStore.listTransactions({ status: 'confirmed', since: 1500, until: 5000 });
+      expect(rows.map(r => r.id)).toEqual(['b']);
+      expect(rows[0]).toMatchObject({ agentId: AGENT, chain: 'solana', walletAddress: 'SoLaddr111' });
+    });
+
+    it('should quote special characters and neutralize formulas', () => {
+      const csv = transactionsToCsv([
+        tx({ description: 'Invoice "Q1", part 2\nsecond line' }),
+        tx({ id: 'tx-2', description: '=HYPERLINK("http://x")' }),
+      ]);
+      const [, first, second] = csv.split('\r\n');
+
+      expect(first).toContain('"Invoice ""Q1"", part 2\nsecond line"');
+      expect(second.endsWith(`"'=HYPERLINK(""http://x"")"`)).toBe(true);
+    });
+  });
+});
@@ -16,7 +16,7 @@ import type { ExtensionPack } from '../src/index.js';
 /* ------------------------------------------------------------------ */
 
 describe('createExtensionPack', () => {
-  it('should create a valid extension pack with 3 tool descriptors', () => {
+  it('should create a valid extension pack with 4 tool descriptors', () => {
     const pack = createExtensionPack({ options: { enabled: true, chains: ['solana'] } });
 
     expect(pack.name).toBe('@framers/agentos-ext-wallet');
@@ -50,6 +50,16 @@ describe('createExtensionPack', () => {
     expect((historyTool!.payload as any).hasSideEffects).toBe(false);
   });
 
+  it('should register wallet_spend_approvals only when approvers are configured', () => {
+    expect(createExtensionPack({}).descriptors.find(d => d.id === 'wallet_spend_approvals')).toBeUndefined();
+
+    const pack = createExtensionPack({ options: { approvals: { approvers: ['human-1'] } } });
+    const approvalsTool = pack.descriptors.find(d => d.id === 'wallet_spend_approvals');
+
+    expect(approvalsTool).toBeTruthy();
+    expect((approvalsTool!.payload as any).requiredCapabilities).toContain('capability:wallet_approve');
+  });
+
   it('should call onActivate without error', async () => {
     const logs: string[] = [];
     const pack = createExtensionPack({
@@ -104,7 +114,7 @@ describe('wallet lifecycle (integration)', () => {
 
   it('should create extension pack and extract tools', () => {
     pack = createExtensionPack({
-      options: { enabled: true, chains: ['solana'] },
+      options: { enabled: true, chains: ['solana'], approvals: { approvers: ['user-1'] } },
     });
 
     tools = new Map<string, any>();
@@ -114,10 +124,11 @@ describe('wallet lifecycle (integration)', () => {
       }
     }
 
-    expect(tools.size).toBe(3);
+    expect(tools.size).toBe(4);
     expect(tools.has('check_wallet_balance')).toBe(true);
     expect(tools.has('send_crypto')).toBe(true);
     expect(tools.has('wallet_transaction_history')).toBe(true);
+    expect(tools.has('wallet_spend_approvals')).toBe(true);
   });
 
   it('check_wallet_balance should fail gracefully when no wallet exists', async () => {
@@ -140,6 +151,18 @@ describe('wallet lifecycle (integration)', () => {
     expect(result.error).toContain('Invalid amount');
   });
 
+  it('send_crypto should price native Polygon sends without a pricing option', async () => {
+    pack = createExtensionPack({ options: { chains: ['polygon'] } });
+    const sendTool = pack.descriptors.find(d => d.id === 'send_crypto')!.payload as any;
+
+    const result = await sendTool.execute({ to: '0xabc', amount: '1', chain: 'polygon' }, CTX);
+
+    // Priced from the default POL reference price, so the send gets as far as the wallet lookup
+    expect(result.success).toBe(false);
+    expect(result.error).not.toContain('No USD price');
+    expect(result.error).toContain('No polygon wallet found');
+  });
+
   it('wallet_transaction_history should fail gracefully when no wallet exists', async () => {
     pack = createExtensionPack({ options: { chains: ['solana'] } });
     const historyTool = pack.descriptors.find(d => d.id === 'wallet_transaction_history')!.payload as any;
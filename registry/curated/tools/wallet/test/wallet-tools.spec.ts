@@ -14,6 +14,7 @@ import { AgentWalletManager, SpendingPolicyViolation } from '../src/AgentWalletM
 import { SpendingPolicyEnforcer } from '../src/SpendingPolicyEnforcer.js';
 import type { IChainWalletAdapter, ChainId, WalletTxStatus } from '../src/types.js';
 import { DEFAULT_SPENDING_POLICY } from '../src/types.js';
+import { StaticPriceFeed } from '../src/pricing/StaticPriceFeed.js';
 
 /* ------------------------------------------------------------------ */
 /*  Test helpers                                                       */
@@ -41,7 +42,7 @@ function createMockAdapter(): IChainWalletAdapter {
   };
 }
 
-function createTestManager() {
+function createTestManager(opts: { priceFeed?: any } = {}) {
   const adapter = createMockAdapter();
   const wallets = new Map<string, any>();
   const txs = new Map<string, any[]>();
@@ -73,6 +74,7 @@ function createTestManager() {
     store,
     policyEnforcer,
     adapters,
+    priceFeed: opts.priceFeed,
   });
 
   return { manager, adapter, wallets, txs };
@@ -197,7 +199,7 @@ describe('SendCryptoTool', () => {
     expect(result.details?.policyViolation).toBe(true);
   });
 
-  it('should return error for unsupported token transfers', async () => {
+  it('should require a price feed for token transfers', async () => {
     const tool = createSendCryptoTool(manager);
     const result = await tool.execute({
       to: 'dest',
@@ -206,7 +208,25 @@ describe('SendCryptoTool', () => {
     }, CTX);
 
     expect(result.success).toBe(false);
-    expect(result.error).toContain('not yet supported');
+    expect(result.error).toContain('No price feed configured');
+  });
+
+  it('should send USDC priced through the price feed', async () => {
+    const setup = createTestManager({ priceFeed: new StaticPriceFeed({ SOL: 150, USDC: 1 }) });
+    await setup.manager.createWallet(CTX.gmiId, 'solana');
+    const tool = createSendCryptoTool(setup.manager);
+
+    const result = await tool.execute({ to: 'dest', amount: '5', token: 'USDC' }, CTX);
+    expect(result.success).toBe(true);
+    expect(result.output?.token).toBe('USDC');
+    expect(setup.adapter.signTokenTransfer).toHaveBeenCalledWith(
+      expect.any(Uint8Array), 'dest', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 5_000_000n,
+    );
+
+    // 0.2 SOL at $150 is $30, over the $20 per-transaction limit
+    const native = await tool.execute({ to: 'dest', amount: '0.2', chain: 'solana' }, CTX);
+    expect(native.success).toBe(false);
+    expect(native.details?.policyViolation).toBe(true);
   });
 
   it('should honor configurable reference USD prices for policy checks', async () => {